@@ -36,6 +36,7 @@ import onedriveRoutes from './routes/onedrive';
 import appointmentsRoutes from './routes/appointments';
 import paymentRoutes from './routes/payments';
 import subscriptionRoutes from './routes/subscriptions';
+import shareRoutes from './routes/shares';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -44,6 +45,9 @@ import { authenticateToken } from './middleware/auth';
 // Import services (these need env vars, so dotenv must be called first)
 import { EmailService } from './services/emailService';
 import { FirebaseService } from './services/firebaseService';
+import { WebhookQueueService } from './services/webhookQueueService';
+import { EmailQueueService } from './services/emailQueueService';
+import { ScheduledJobService } from './services/scheduledJobService';
 
 const app = express();
 
@@ -155,6 +159,8 @@ app.use('/api/webhooks', webhookRoutes);
 app.use('/api/payments', paymentRoutes);
 // Subscription routes (public for new users, authenticated optional)
 app.use('/api/subscriptions', subscriptionRoutes);
+// Document share links (public, access checked per link)
+app.use('/api/shares', shareRoutes);
 app.use('/api/user', authenticateToken, userRoutes);
 app.use('/api/deals', authenticateToken, dealRoutes);
 app.use('/api/documents', authenticateToken, documentRoutes);
@@ -220,6 +226,15 @@ app.listen(PORT, '0.0.0.0', async () => {
       // Don't block server startup if email service fails
     }
   })();
+
+  // Retry failed inbound webhooks with backoff
+  WebhookQueueService.startRetryWorker();
+
+  // Retry outbound emails that failed to send
+  EmailQueueService.startRetryWorker();
+
+  // Subscription sweep, Discord role reconcile and the other scheduled jobs
+  ScheduledJobService.start();
 });
 
 export default app;
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { FirebaseService } from '../services/firebaseService';
-import { canAccessPortal } from '../utils/subscriptionChecker';
+import { SessionService } from '../services/sessionService';
+import { canAccessPortal, isCompletingOnboarding } from '../utils/subscriptionChecker';
+import { Permission, UserRole, getUserRole, getRolePermissions, hasPermission } from '../utils/permissions';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -12,6 +14,9 @@ export interface AuthRequest extends Request {
     isAdmin: boolean;
     isWhitelisted: boolean;
     hasManualSubscription?: boolean;
+    role: UserRole;
+    permissions: Permission[];
+    sessionId: string;
   };
 }
 
@@ -27,6 +32,9 @@ declare global {
         isAdmin: boolean;
         isWhitelisted: boolean;
         hasManualSubscription?: boolean;
+        role: UserRole;
+        permissions: Permission[];
+        sessionId: string; // Session the access token belongs to
       };
     }
   }
@@ -45,10 +53,22 @@ export const authenticateToken = async (
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    
+    // 401 tells the client to use its refresh token; a revoked session fails the refresh too
+    let claims;
+    try {
+      claims = await SessionService.verifyAccessToken(token);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return res.status(401).json({ error: 'Access token expired', code: 'token_expired' });
+      }
+      return res.status(401).json({ error: 'Invalid token', code: 'invalid_token' });
+    }
+    if (!claims) {
+      return res.status(401).json({ error: 'Session expired or revoked', code: 'session_revoked' });
+    }
+
     // Verify user still exists
-    const user = await FirebaseService.getUserById(decoded.userId);
+    const user = await FirebaseService.getUserById(claims.userId);
 
     if (!user) {
       return res.status(403).json({ error: 'User not found' });
@@ -58,7 +78,7 @@ export const authenticateToken = async (
     if (!user.isAdmin) {
       // Allow users in onboarding to bypass subscription check
       // Users in onboarding (no password or no Discord) are completing setup after payment
-      const isInOnboarding = !user.passwordHash || !user.discordId || (user.onboardingStep && user.onboardingStep < 5);
+      const isInOnboarding = isCompletingOnboarding(user);
       
       if (isInOnboarding) {
         // User is in onboarding, allow access to complete setup
@@ -80,6 +100,7 @@ export const authenticateToken = async (
       }
     }
 
+    const role = getUserRole(user);
     req.user = {
       id: user.id,
       discordId: user.discordId,
@@ -87,7 +108,10 @@ export const authenticateToken = async (
       email: user.email,
       isAdmin: user.isAdmin,
       isWhitelisted: user.isWhitelisted,
-      hasManualSubscription: user.hasManualSubscription || false
+      hasManualSubscription: user.hasManualSubscription || false,
+      role,
+      permissions: getRolePermissions(role),
+      sessionId: claims.sid
     };
 
     next();
@@ -103,6 +127,17 @@ export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+/**
+ * Middleware factory that allows the request when the user's role grants any of the given permissions
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!permissions.some(permission => hasPermission(req.user, permission))) {
+      return res.status(403).json({ error: 'Insufficient permissions', requiredPermissions: permissions });
+    }
+    next();
+  };
+
 /**
  * Middleware to check if user has completed setup (password + Discord)
  * Returns specific error indicating what's missing
@@ -1,11 +1,26 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { FirebaseService } from '../services/firebaseService';
-import { OneDriveService } from '../services/oneDriveService';
+import { FirebaseService, User, WebhookProvider, WebhookEventStatus, SecurityEventType, EmailMessage, EmailMessageStatus } from '../services/firebaseService';
+import { getDocumentStorage } from '../services/documentStorage';
+import { DealFolderService, FOLDER_TEMPLATE_TOKENS } from '../services/dealFolderService';
+import { DocumentScanService, SPOOFED_FILE_ERROR, INFECTED_FILE_ERROR, UNSCANNABLE_FILE_ERROR } from '../services/documentScanService';
 import { GHLService } from '../services/ghlService';
 import { EmailService } from '../services/emailService';
+import { EmailTemplateService } from '../services/emailTemplateService';
+import { EmailQueueService } from '../services/emailQueueService';
+import { DealActivityService } from '../services/dealActivityService';
+import { StageMappingService } from '../services/stageMappingService';
+import { WebhookQueueService } from '../services/webhookQueueService';
+import { DocumentChecklistService } from '../services/documentChecklistService';
+import { SessionService } from '../services/sessionService';
+import { SecretService } from '../services/secretService';
+import { DiscordRoleSyncService } from '../services/discordRoleSyncService';
+import { ScheduledJobService } from '../services/scheduledJobService';
+import { SubscriptionSweepService } from '../services/subscriptionSweepService';
 import { Request, Response } from 'express';
-import { requireAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/auth';
+import { parseDealQuery } from '../utils/dealQuery';
+import { PERMISSIONS, ROLES, ROLE_DEFINITIONS, UserRole, getUserRole, hasPermission } from '../utils/permissions';
 import { Timestamp } from 'firebase-admin/firestore';
 import axios from 'axios';
 import multer from 'multer';
@@ -45,7 +60,7 @@ router.options('/onedrive/upload', (req, res) => {
 });
 
 // GHL Opportunities Import Routes
-router.get('/ghl/opportunities', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/opportunities', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const opportunities = await GHLService.listOpportunities();
     
@@ -55,7 +70,7 @@ router.get('/ghl/opportunities', requireAdmin, async (req: Request, res: Respons
   }
 });
 
-router.post('/ghl/import-opportunity', requireAdmin, [
+router.post('/ghl/import-opportunity', requirePermission('integrations:manage'), [
   body('opportunityId').notEmpty().withMessage('Opportunity ID is required'),
   body('userId').notEmpty().withMessage('User ID is required'),
   body('opportunity').isObject().withMessage('Opportunity data is required')
@@ -122,7 +137,12 @@ router.post('/ghl/import-opportunity', requireAdmin, [
     // Log the deal data being created
 
     const deal = await FirebaseService.createDeal(dealData);
-    
+
+    await DealActivityService.record(deal.id, 'created', {
+      source: 'admin_import',
+      actorId: req.user!.id,
+      actorName: req.user!.username
+    });
     
     res.json({ 
       success: true, 
@@ -135,7 +155,7 @@ router.post('/ghl/import-opportunity', requireAdmin, [
 });
 
 // Get raw GHL opportunities data for debugging
-router.get('/ghl/opportunities/raw', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/opportunities/raw', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
         const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     if (!ghlApiKey) {
@@ -169,7 +189,7 @@ router.get('/ghl/opportunities/raw', requireAdmin, async (req: Request, res: Res
 });
 
 // Get raw portal deals data for debugging
-router.get('/deals/raw', requireAdmin, async (req: Request, res: Response) => {
+router.get('/deals/raw', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
   try {
         // Get all deals from our system
     const ourDeals = await FirebaseService.getAllDeals();
@@ -200,7 +220,7 @@ router.get('/deals/raw', requireAdmin, async (req: Request, res: Response) => {
 });
 
 // Test fetching a specific opportunity with custom fields
-router.get('/ghl/opportunity/:id', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/opportunity/:id', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
         const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
@@ -246,7 +266,7 @@ interface TestResult {
 }
 
 // Test GHL API connection with detailed debugging
-router.get('/ghl/test-connection', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/test-connection', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
         const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     const ghlV2Token = await FirebaseService.getConfiguration('ghl_v2_token');
@@ -345,7 +365,7 @@ router.get('/ghl/test-connection', requireAdmin, async (req: Request, res: Respo
   }
 });
 
-router.get('/ghl/pipelines', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/pipelines', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     if (!ghlApiKey) {
@@ -369,7 +389,7 @@ router.get('/ghl/pipelines', requireAdmin, async (req: Request, res: Response) =
   }
 });
 
-router.get('/ghl/pipeline/:pipelineId/opportunities', requireAdmin, async (req: Request, res: Response) => {
+router.get('/ghl/pipeline/:pipelineId/opportunities', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { pipelineId } = req.params;
     const { stageId } = req.query;
@@ -382,7 +402,7 @@ router.get('/ghl/pipeline/:pipelineId/opportunities', requireAdmin, async (req:
   }
 });
 
-router.get('/users', requireAdmin, async (req: Request, res: Response) => {
+router.get('/users', requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const users = await FirebaseService.getAllUsers();
     
@@ -393,6 +413,7 @@ router.get('/users', requireAdmin, async (req: Request, res: Response) => {
       email: user.email,
       isAdmin: user.isAdmin,
       isWhitelisted: user.isWhitelisted,
+      role: getUserRole(user),
       hasManualSubscription: user.hasManualSubscription || false,
       redirectToWhop: user.redirectToWhop || false
     }));
@@ -403,8 +424,24 @@ router.get('/users', requireAdmin, async (req: Request, res: Response) => {
   }
 });
 
+// The fields admins see about a user; the stored document also holds password and 2FA secrets
+const toAdminUser = (user: User) => ({
+  id: user.id,
+  discordId: user.discordId,
+  username: user.username,
+  email: user.email,
+  avatar: user.avatar,
+  isAdmin: user.isAdmin,
+  isWhitelisted: user.isWhitelisted,
+  role: getUserRole(user),
+  hasManualSubscription: user.hasManualSubscription || false,
+  redirectToWhop: user.redirectToWhop || false,
+  twoFactorEnabled: !!user.twoFactorEnabled,
+  createdAt: user.createdAt
+});
+
 // Get user by ID
-router.get('/users/:id', requireAdmin, async (req: Request, res: Response) => {
+router.get('/users/:id', requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = await FirebaseService.getUserById(id);
@@ -413,18 +450,7 @@ router.get('/users/:id', requireAdmin, async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    res.json({
-      id: user.id,
-      discordId: user.discordId,
-      username: user.username,
-      email: user.email,
-      avatar: user.avatar,
-      isAdmin: user.isAdmin,
-      isWhitelisted: user.isWhitelisted,
-      hasManualSubscription: user.hasManualSubscription || false,
-      redirectToWhop: user.redirectToWhop || false,
-      createdAt: user.createdAt
-    });
+    res.json(toAdminUser(user));
   } catch (error: any) {
     res.status(500).json({ error: 'Failed to fetch user' });
   }
@@ -673,21 +699,20 @@ router.get('/onedrive/callback', async (req: Request, res: Response) => {
   }
 });
 
-// Apply admin middleware to all routes
-router.use(requireAdmin);
+// Routes below each declare the permission they require
 
 // Get all users
-router.get('/users', async (req: Request, res: Response) => {
+router.get('/users', requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const users = await FirebaseService.getAllUsers();
-    res.json(users);
+    res.json(users.map(toAdminUser));
   } catch (error) {
         res.status(500).json({ error: 'Failed to fetch users' });
   }
 });
 
 // Update user (whitelist/admin/manual subscription status)
-router.put('/users/:id', [
+router.put('/users/:id', requirePermission('users:manage'), [
   body('isWhitelisted').optional().isBoolean().withMessage('isWhitelisted must be a boolean'),
   body('isAdmin').optional().isBoolean().withMessage('isAdmin must be a boolean'),
   body('hasManualSubscription').optional().isBoolean().withMessage('hasManualSubscription must be a boolean'),
@@ -707,9 +732,24 @@ router.put('/users/:id', [
       return res.status(400).json({ error: 'Cannot remove your own admin status' });
     }
 
+    // Toggling admin changes the user's role, so it needs the same permission as role assignment
+    if (isAdmin !== undefined && !hasPermission(req.user, 'roles:manage')) {
+      return res.status(403).json({ error: 'Insufficient permissions', requiredPermissions: ['roles:manage'] });
+    }
+
     const updates: any = {};
     if (isWhitelisted !== undefined) updates.isWhitelisted = isWhitelisted;
-    if (isAdmin !== undefined) updates.isAdmin = isAdmin;
+    if (isAdmin !== undefined) {
+      const existingUser = await FirebaseService.getUserById(id);
+      if (!existingUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      const currentRole = getUserRole(existingUser);
+      if (ROLE_DEFINITIONS[currentRole].isAdmin !== isAdmin) {
+        updates.role = isAdmin ? 'admin' : 'deal_submitter';
+      }
+      updates.isAdmin = isAdmin;
+    }
     if (hasManualSubscription !== undefined) updates.hasManualSubscription = hasManualSubscription;
     if (redirectToWhop !== undefined) updates.redirectToWhop = redirectToWhop;
 
@@ -718,14 +758,113 @@ router.put('/users/:id', [
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json(updatedUser);
+    // Removing a user's access signs them out everywhere right away
+    if (isWhitelisted === false) {
+      await SessionService.revokeAllSessions(id, 'access_removed');
+    }
+
+    res.json(toAdminUser(updatedUser));
   } catch (error) {
         res.status(500).json({ error: 'Failed to update user' });
   }
 });
 
+// Remove a user; their sessions are revoked first so open tabs lose access immediately
+router.delete('/users/:id', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: 'Cannot remove your own account' });
+    }
+
+    const user = await FirebaseService.getUserById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revokedSessions = await SessionService.revokeAllSessions(id, 'user_removed');
+    await FirebaseService.deleteUser(id);
+
+    res.json({ message: 'User removed', revokedSessions });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove user' });
+  }
+});
+
+// List a user's active sessions
+router.get('/users/:id/sessions', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const sessions = await SessionService.listSessions(req.params.id);
+    res.json(sessions);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch user sessions' });
+  }
+});
+
+// Sign a user out of every device
+router.post('/users/:id/sessions/revoke', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = await FirebaseService.getUserById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revoked = await SessionService.revokeAllSessions(id, 'revoked_by_admin');
+    res.json({ revoked });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke user sessions' });
+  }
+});
+
+// List the roles that can be assigned and the permissions each grants
+router.get('/roles', requirePermission('users:read'), async (req: Request, res: Response) => {
+  res.json({
+    roles: ROLES.map(role => ROLE_DEFINITIONS[role]),
+    permissions: PERMISSIONS
+  });
+});
+
+// Assign a role to a user
+router.put('/users/:id/role', requirePermission('roles:manage'), [
+  body('role').isIn([...ROLES]).withMessage(`role must be one of: ${ROLES.join(', ')}`),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const role = req.body.role as UserRole;
+
+    // Same rule as the admin toggle: nobody can lock themselves out
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    const user = await FirebaseService.getUserById(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const updatedUser = await FirebaseService.updateUser(id, {
+      role,
+      isAdmin: ROLE_DEFINITIONS[role].isAdmin
+    });
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(toAdminUser(updatedUser));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update user role' });
+  }
+});
+
 // Grant/revoke manual subscription access (for users who paid via other methods)
-router.post('/users/:id/manual-subscription', [
+router.post('/users/:id/manual-subscription', requirePermission('users:manage'), [
   body('grant').isBoolean().withMessage('grant must be a boolean (true to grant, false to revoke)'),
 ], async (req: Request, res: Response) => {
   try {
@@ -743,11 +882,14 @@ router.post('/users/:id/manual-subscription', [
     }
 
     const updatedUser = await FirebaseService.updateUser(id, { hasManualSubscription: grant });
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
     
         res.json({
       success: true,
       message: `Manual subscription access ${grant ? 'granted' : 'revoked'} successfully`,
-      user: updatedUser
+      user: toAdminUser(updatedUser)
     });
   } catch (error) {
         res.status(500).json({ error: 'Failed to update manual subscription access' });
@@ -756,7 +898,7 @@ router.post('/users/:id/manual-subscription', [
 
 // Discord Auto-Access Management
 // Get all Discord auto-access users
-router.get('/discord-auto-access', async (req: Request, res: Response) => {
+router.get('/discord-auto-access', requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
         const autoAccessUsers = await FirebaseService.getDiscordAutoAccessUsers();
     
@@ -775,7 +917,7 @@ router.get('/discord-auto-access', async (req: Request, res: Response) => {
 });
 
 // Add Discord username to auto-access list
-router.post('/discord-auto-access', [
+router.post('/discord-auto-access', requirePermission('users:manage'), [
   body('discordUsername').notEmpty().withMessage('Discord username is required'),
   body('notes').optional().isString().withMessage('Notes must be a string'),
 ], async (req: Request, res: Response) => {
@@ -818,7 +960,7 @@ router.post('/discord-auto-access', [
 });
 
 // Bulk add Discord usernames to auto-access list
-router.post('/discord-auto-access/bulk', [
+router.post('/discord-auto-access/bulk', requirePermission('users:manage'), [
   body('usernames').isArray({ min: 1 }).withMessage('Usernames must be a non-empty array'),
   body('usernames.*').isString().notEmpty().withMessage('Each username must be a non-empty string'),
   body('notes').optional().isString().withMessage('Notes must be a string'),
@@ -884,7 +1026,7 @@ router.post('/discord-auto-access/bulk', [
 });
 
 // Remove Discord username from auto-access list
-router.delete('/discord-auto-access/:id', async (req: Request, res: Response) => {
+router.delete('/discord-auto-access/:id', requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     
@@ -906,49 +1048,180 @@ router.delete('/discord-auto-access/:id', async (req: Request, res: Response) =>
   }
 });
 
-// Get all deals (admin view) with filters
-router.get('/deals', async (req: Request, res: Response) => {
+// Discord role sync: configuration and recent grants/revokes
+router.get('/discord/role-sync', requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
-    const { userId, startDate, endDate, status, propertyType } = req.query;
-    let deals = await FirebaseService.getAllDeals();
+    const discordId = typeof req.query.discordId === 'string' ? req.query.discordId : undefined;
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const logs = await FirebaseService.getDiscordRoleSyncLogs({ discordId, limit });
+    res.json({
+      enabled: DiscordRoleSyncService.isEnabled(),
+      managedRoleIds: DiscordRoleSyncService.managedRoleIds(),
+      logs,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get Discord role sync log',
+      message: error.message
+    });
+  }
+});
 
-    // Apply filters
-    if (userId) {
-      deals = deals.filter((deal: any) => deal.userId === userId);
+// Reconcile every server member's managed roles now (dryRun only reports what would change)
+router.post('/discord/role-sync/run', requirePermission('users:manage'), [
+  body('dryRun').optional().isBoolean().withMessage('dryRun must be a boolean'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    if (startDate) {
-      const start = new Date(startDate as string);
-      deals = deals.filter((deal: any) => {
-        const dealDate = deal.createdAt instanceof Date ? deal.createdAt : (deal.createdAt?.toDate?.() || new Date(deal.createdAt));
-        return dealDate >= start;
-      });
+    const summary = await DiscordRoleSyncService.reconcile({ dryRun: req.body.dryRun === true, trigger: 'admin' });
+    res.json(summary);
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to run Discord role sync',
+      message: error.message
+    });
+  }
+});
+
+// Sync one Discord account's managed roles now
+router.post('/discord/role-sync/users/:discordId', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await DiscordRoleSyncService.syncMember(req.params.discordId, { trigger: 'admin' });
+    if (!result) {
+      return res.status(400).json({ error: 'Discord role sync is not configured' });
     }
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to sync Discord roles',
+      message: error.message
+    });
+  }
+});
 
-    if (endDate) {
-      const end = new Date(endDate as string);
-      deals = deals.filter((deal: any) => {
-        const dealDate = deal.createdAt instanceof Date ? deal.createdAt : (deal.createdAt?.toDate?.() || new Date(deal.createdAt));
-        return dealDate <= end;
-      });
+// Scheduled jobs with their latest run
+router.get('/jobs', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const jobs = await Promise.all(ScheduledJobService.list().map(async job => {
+      const [lastRun] = await FirebaseService.getJobRuns({ job: job.name, limit: 1 });
+      return { ...job, lastRun: lastRun || null };
+    }));
+    res.json({ jobs });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get scheduled jobs',
+      message: error.message
+    });
+  }
+});
+
+// Run log of the scheduled jobs
+router.get('/jobs/runs', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const job = typeof req.query.job === 'string' ? req.query.job : '';
+    if (job && !ScheduledJobService.isJobName(job)) {
+      return res.status(400).json({ error: 'Unknown job' });
+    }
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const runs = await FirebaseService.getJobRuns({ job: ScheduledJobService.isJobName(job) ? job : undefined, limit });
+    res.json({ runs });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get job runs',
+      message: error.message
+    });
+  }
+});
+
+// Run a scheduled job now
+router.post('/jobs/:name/run', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!ScheduledJobService.isJobName(name)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!ScheduledJobService.isEnabled(name)) {
+      return res.status(400).json({ error: 'This job is not configured on the server' });
     }
 
-    if (status) {
-      deals = deals.filter((deal: any) => deal.status === status);
+    const run = await ScheduledJobService.runJob(name, 'admin');
+    if (!run) {
+      return res.status(409).json({ error: 'This job is already running' });
     }
+    res.json(run);
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to run job',
+      message: error.message
+    });
+  }
+});
+
+// Days after a failed renewal's period end on which dunning emails go out
+router.get('/dunning-settings', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const offsetsDays = await SubscriptionSweepService.getDunningOffsets();
+    res.json({ offsetsDays });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to get dunning settings',
+      message: error.message
+    });
+  }
+});
 
-    if (propertyType) {
-      deals = deals.filter((deal: any) => deal.propertyType === propertyType);
+router.put('/dunning-settings', requirePermission('users:manage'), [
+  body('offsetsDays').isArray({ max: 10 }).withMessage('offsetsDays must be a list of at most 10 days'),
+  body('offsetsDays.*').isInt({ min: 0, max: 30 }).withMessage('Each offset must be a whole number of days from 0 to 30'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    res.json(deals);
+    const offsetsDays = await SubscriptionSweepService.setDunningOffsets(req.body.offsetsDays.map(Number));
+    res.json({ offsetsDays });
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'Failed to save dunning settings',
+      message: error.message
+    });
+  }
+});
+
+// Get all deals (admin view) with filters
+router.get('/deals', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
+  try {
+    // Same options as GET /api/deals: filters, sortBy/sortDirection, and limit/cursor for paging
+    const { options, error } = parseDealQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    const page = await FirebaseService.queryDeals(options);
+    res.json(options.limit ? page : page.deals);
   } catch (error) {
         res.status(500).json({ error: 'Failed to fetch deals' });
   }
 });
 
+// Derive search and sort fields for deals created before they existed
+router.post('/deals/reindex', requirePermission('deals:write:all'), async (req: Request, res: Response) => {
+  try {
+    const result = await FirebaseService.backfillDealQueryFields();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reindex deals' });
+  }
+});
+
 // Test endpoint to verify admin routes are working
-router.get('/test', async (req: Request, res: Response) => {
+router.get('/test', requirePermission('admin:access'), async (req: Request, res: Response) => {
     res.json({ 
     message: 'Admin routes are working', 
     timestamp: new Date().toISOString(),
@@ -957,7 +1230,7 @@ router.get('/test', async (req: Request, res: Response) => {
 });
 
 // Exchange OneDrive authorization code for tokens using PKCE
-router.post('/onedrive/exchange', async (req: Request, res: Response) => {
+router.post('/onedrive/exchange', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
                                 const { code, codeVerifier } = req.body;
 
@@ -1035,7 +1308,7 @@ router.post('/onedrive/exchange', async (req: Request, res: Response) => {
 });
 
 // Save OneDrive tokens (called from frontend after token exchange)
-router.post('/onedrive/save-tokens', async (req: Request, res: Response) => {
+router.post('/onedrive/save-tokens', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
             const { accessToken, refreshToken, expiresIn } = req.body;
     
@@ -1063,8 +1336,8 @@ router.post('/onedrive/save-tokens', async (req: Request, res: Response) => {
   }
 });
 
-// Upload document to OneDrive (admin only)
-router.post('/onedrive/upload', upload.single('file'), [
+// Upload a file to a deal's storage folder (admin only)
+router.post('/storage/upload', requirePermission('integrations:manage'), upload.single('file'), [
   body('dealId').notEmpty().withMessage('Deal ID is required'),
   body('tags').optional().isArray().withMessage('Tags must be an array'),
 ], async (req: Request, res: Response) => {
@@ -1086,13 +1359,23 @@ router.post('/onedrive/upload', upload.single('file'), [
       return res.status(404).json({ error: 'Deal not found' });
     }
 
-    // Upload to OneDrive
-    const oneDriveFile = await OneDriveService.uploadFile(
-      dealId,
-      req.file.originalname,
-      req.file.buffer,
-      req.file.mimetype
-    );
+    if (!DocumentScanService.contentMatchesType(req.file)) {
+      return res.status(400).json({ error: SPOOFED_FILE_ERROR });
+    }
+    // Nothing records this file as a document, so it can't be quarantined: it's scanned or refused
+    const scanStatus = await DocumentScanService.scanUpload(req.file, deal, { userId: req.user!.id, name: req.user!.username || req.user!.email }, req);
+    if (scanStatus === 'infected') {
+      return res.status(422).json({ error: INFECTED_FILE_ERROR });
+    }
+    if (scanStatus === 'unscannable') {
+      return res.status(422).json({ error: UNSCANNABLE_FILE_ERROR });
+    }
+    if (scanStatus === 'pending') {
+      return res.status(503).json({ error: 'The malware scanner is unavailable. Try again in a few minutes.' });
+    }
+
+    // Not recorded as a document, but keyed like one so it can't replace a document's file
+    const storedFile = await DealFolderService.uploadDealFile(deal, req.file, FirebaseService.newDocumentId());
 
     // Sync to GHL if configured
     try {
@@ -1114,11 +1397,11 @@ router.post('/onedrive/upload', upload.single('file'), [
     res.status(201).json({
       message: 'Document uploaded successfully',
       file: {
-        id: oneDriveFile.id,
-        name: oneDriveFile.name,
-        size: oneDriveFile.size,
-        webUrl: oneDriveFile.webUrl,
-        downloadUrl: oneDriveFile.downloadUrl,
+        id: storedFile.id,
+        name: storedFile.name,
+        size: storedFile.size,
+        webUrl: storedFile.webUrl,
+        downloadUrl: storedFile.downloadUrl,
         tags,
         dealId,
         uploadedAt: new Date().toISOString()
@@ -1129,8 +1412,8 @@ router.post('/onedrive/upload', upload.single('file'), [
   }
 });
 
-// Get documents for a deal (admin only)
-router.get('/onedrive/deal/:dealId', async (req: Request, res: Response) => {
+// List the files in a deal's storage folder (admin only)
+router.get('/storage/deal/:dealId', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { dealId } = req.params;
 
@@ -1140,21 +1423,29 @@ router.get('/onedrive/deal/:dealId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Deal not found' });
     }
 
-    // Get files from OneDrive
-    const files = await OneDriveService.getDealFiles(dealId);
-    
-    res.json(files);
+    const [files, documents] = await Promise.all([
+      DealFolderService.getDealFiles(deal),
+      FirebaseService.getDocumentsByDeal(deal.id),
+    ]);
+
+    // Files still in quarantine (or given up on) are listed without links
+    const unavailableIds = new Set(
+      documents.filter(document => !DocumentScanService.isAvailable(document)).map(document => document.oneDriveId)
+    );
+    res.json(files.map(file => unavailableIds.has(file.id)
+      ? { ...file, webUrl: undefined, downloadUrl: undefined }
+      : file));
   } catch (error) {
         res.status(500).json({ error: 'Failed to fetch documents' });
   }
 });
 
-// Delete document from OneDrive (admin only)
-router.delete('/onedrive/document/:fileId', async (req: Request, res: Response) => {
+// Delete a file from storage (admin only). Local and S3 file ids are paths, so the id may contain slashes.
+router.delete('/storage/file/:fileId(*)', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { fileId } = req.params;
 
-    await OneDriveService.deleteFile(fileId);
+    await getDocumentStorage().deleteFile(fileId);
 
     res.json({ message: 'Document deleted successfully' });
   } catch (error) {
@@ -1163,7 +1454,7 @@ router.delete('/onedrive/document/:fileId', async (req: Request, res: Response)
 });
 
 // Set GHL API key
-router.post('/ghl/api-key', async (req: Request, res: Response) => {
+router.post('/ghl/api-key', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { apiKey } = req.body;
     
@@ -1186,7 +1477,7 @@ router.post('/ghl/api-key', async (req: Request, res: Response) => {
 });
 
 // Test GHL connection
-router.get('/ghl/test', async (req: Request, res: Response) => {
+router.get('/ghl/test', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
         const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     if (!ghlApiKey) {
@@ -1223,7 +1514,7 @@ router.get('/ghl/test', async (req: Request, res: Response) => {
 });
 
 // Get GHL pipelines and stages
-router.get('/ghl/pipelines', async (req: Request, res: Response) => {
+router.get('/ghl/pipelines', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     
@@ -1254,7 +1545,7 @@ router.get('/ghl/pipelines', async (req: Request, res: Response) => {
 });
 
 // Get GHL calendars
-router.get('/ghl/calendars', async (req: Request, res: Response) => {
+router.get('/ghl/calendars', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
     
@@ -1314,11 +1605,14 @@ router.get('/ghl/calendars', async (req: Request, res: Response) => {
 });
 
 // Get GHL configuration
-router.get('/ghl/config', async (req: Request, res: Response) => {
+router.get('/ghl/config', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
+    const apiKey = await FirebaseService.getConfiguration('ghl_api_key');
+    const v2Token = await FirebaseService.getConfiguration('ghl_v2_token');
         const config = {
-      apiKey: await FirebaseService.getConfiguration('ghl_api_key'),
-      v2Token: await FirebaseService.getConfiguration('ghl_v2_token'),
+      // Secrets are masked; saving with them left blank keeps the stored values
+      apiKey: SecretService.mask(apiKey),
+      v2Token: SecretService.mask(v2Token),
       pipelineId: await FirebaseService.getConfiguration('ghl_pipeline_id'),
       calendarId: await FirebaseService.getConfiguration('ghl_calendar_id'),
       locationId: await FirebaseService.getConfiguration('ghl_location_id'),
@@ -1334,8 +1628,8 @@ router.get('/ghl/config', async (req: Request, res: Response) => {
 
         res.json({
       ...config,
-      configured: !!config.apiKey,
-      message: config.apiKey ? 'GHL is configured' : 'GHL API key not configured'
+      configured: !!apiKey,
+      message: apiKey ? 'GHL is configured' : 'GHL API key not configured'
     });
   } catch (error) {
         res.status(500).json({ 
@@ -1346,7 +1640,7 @@ router.get('/ghl/config', async (req: Request, res: Response) => {
 });
 
 // Toggle GHL sync
-router.post('/ghl/toggle-sync', async (req: Request, res: Response) => {
+router.post('/ghl/toggle-sync', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { enabled } = req.body;
     await FirebaseService.setConfiguration('skip_ghl_sync', enabled ? 'false' : 'true', 'Skip GHL sync for debugging');
@@ -1357,7 +1651,7 @@ router.post('/ghl/toggle-sync', async (req: Request, res: Response) => {
 });
 
 // Test GHL contact creation
-router.post('/ghl/test-contact', async (req: Request, res: Response) => {
+router.post('/ghl/test-contact', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const { firstName, lastName, email, phone } = req.body;
     
@@ -1378,10 +1672,10 @@ router.post('/ghl/test-contact', async (req: Request, res: Response) => {
   }
 });
 
-// Get GHL pipelines and stages with API key parameter
-router.post('/ghl/pipelines', async (req: Request, res: Response) => {
+// Get GHL pipelines and stages with API key parameter (falls back to the stored key)
+router.post('/ghl/pipelines', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    const { apiKey } = req.body;
+    const apiKey = req.body.apiKey || await FirebaseService.getConfiguration('ghl_api_key');
     
     if (!apiKey) {
       return res.status(400).json({ error: 'API key is required' });
@@ -1410,8 +1704,8 @@ router.post('/ghl/pipelines', async (req: Request, res: Response) => {
 });
 
 // Save GHL configuration
-router.post('/ghl/config', [
-  body('apiKey').notEmpty().withMessage('API key is required'),
+router.post('/ghl/config', requirePermission('integrations:manage'), [
+  body('apiKey').optional().isString().withMessage('API key must be a string'),
   body('v2Token').optional().isString().withMessage('V2 token must be a string'),
   body('pipelineId').optional().isString().withMessage('Pipeline ID must be a string'),
   body('calendarId').optional().isString().withMessage('Calendar ID must be a string'),
@@ -1445,8 +1739,12 @@ router.post('/ghl/config', [
       noShowStageId
     } = req.body;
 
-    // Save configurations
-    await FirebaseService.setConfiguration('ghl_api_key', apiKey, 'GoHighLevel API Key');
+    // Secrets left blank keep their stored values
+    if (apiKey) {
+      await FirebaseService.setConfiguration('ghl_api_key', apiKey, 'GoHighLevel API Key');
+    } else if (!await FirebaseService.getConfiguration('ghl_api_key')) {
+      return res.status(400).json({ error: 'API key is required' });
+    }
     
     if (v2Token) {
       await FirebaseService.setConfiguration('ghl_v2_token', v2Token, 'GHL v2 Private Integration Token');
@@ -1489,8 +1787,34 @@ router.post('/ghl/config', [
   }
 });
 
+// Encryption status of stored integration secrets (GHL keys, sub-account keys, OneDrive tokens)
+router.get('/secrets/status', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const status = await FirebaseService.getSecretEncryptionStatus();
+    res.json(status);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get secret encryption status',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Rewrap stored secrets with the active key after SECRET_ENCRYPTION_KEYS gains a new first key
+router.post('/secrets/rotate', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const result = await FirebaseService.rotateSecrets();
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to rotate secrets',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get analytics
-router.get('/analytics', async (req: Request, res: Response) => {
+router.get('/analytics', requirePermission('analytics:read'), async (req: Request, res: Response) => {
   try {
     const [users, deals] = await Promise.all([
       FirebaseService.getAllUsers(),
@@ -1586,7 +1910,7 @@ router.get('/analytics', async (req: Request, res: Response) => {
 });
 
 // Get all documents (admin view)
-router.get('/documents', async (req: Request, res: Response) => {
+router.get('/documents', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
   try {
     // Return empty array - documents are not stored in Firebase
     res.json([]);
@@ -1596,7 +1920,7 @@ router.get('/documents', async (req: Request, res: Response) => {
 });
 
 // Fetch GHL custom fields
-router.post('/ghl/fetch-custom-fields', async (req: Request, res: Response) => {
+router.post('/ghl/fetch-custom-fields', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
         // Get contact custom fields
     const contactFieldsResult = await GHLService.getContactCustomFields();
@@ -1639,8 +1963,442 @@ router.post('/ghl/fetch-custom-fields', async (req: Request, res: Response) => {
   }
 });
 
+// Stage Mapping Routes
+router.get('/stage-mappings', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const mappings = await FirebaseService.getAllStageMappings();
+    const configuredPipelineId = await FirebaseService.getConfiguration('ghl_pipeline_id');
+    res.json({ mappings, configuredPipelineId: configuredPipelineId || null });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch stage mappings' });
+  }
+});
+
+// Get the mapping for a pipeline merged with the pipeline's current GHL stages
+router.get('/stage-mappings/:pipelineId', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const { pipelineId } = req.params;
+    const mapping = await FirebaseService.getStageMapping(pipelineId);
+    const ghlStages = await GHLService.getPipelineStages(pipelineId);
+
+    // Stages that no longer exist in GHL are kept so admins can see and clean them up
+    const mappedIds = new Set(ghlStages.map((stage: any) => stage.id));
+    const staleStages = (mapping?.stages || []).filter(entry => !mappedIds.has(entry.ghlStageId));
+
+    const stages = ghlStages.map((stage: any, index: number) => {
+      const entry = mapping?.stages.find(existing => existing.ghlStageId === stage.id);
+      return {
+        ghlStageId: stage.id,
+        ghlStageName: stage.name,
+        portalStage: entry?.portalStage || '',
+        order: entry ? entry.order : index,
+        color: entry?.color || '',
+        existsInGHL: true,
+      };
+    });
+
+    res.json({
+      pipelineId,
+      pipelineName: mapping?.pipelineName || null,
+      stages: [...stages, ...staleStages.map(entry => ({ ...entry, existsInGHL: false }))],
+      updatedAt: mapping?.updatedAt || null,
+      updatedBy: mapping?.updatedBy || null,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch stage mapping' });
+  }
+});
+
+router.put('/stage-mappings/:pipelineId', requirePermission('integrations:manage'), [
+  body('pipelineName').optional().isString(),
+  body('stages').isArray().withMessage('Stages must be an array'),
+  body('stages.*.ghlStageId').isString().notEmpty().withMessage('Each stage needs a GHL stage ID'),
+  body('stages.*.portalStage').isString().withMessage('Portal stage must be a string'),
+  body('stages.*.order').optional().isInt({ min: 0 }).withMessage('Order must be a positive number'),
+  body('stages.*.color').optional().isString()
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { pipelineId } = req.params;
+    // Stages left without a portal stage are treated as unmapped
+    const stages = StageMappingService.normalizeEntries(req.body.stages);
+
+    const mapping = await FirebaseService.saveStageMapping(pipelineId, {
+      stages,
+      pipelineName: req.body.pipelineName,
+      updatedBy: req.user?.username || req.user?.id,
+    });
+
+    res.json({ success: true, mapping, boardStages: StageMappingService.buildBoardStages(mapping) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save stage mapping' });
+  }
+});
+
+// Security events (failed codes, lockouts, refresh token reuse)
+router.get('/security-events', requirePermission('security:read'), async (req: Request, res: Response) => {
+  try {
+    const { type, email, limit } = req.query;
+    const events = await FirebaseService.getSecurityEvents({
+      type: type ? (type as SecurityEventType) : undefined,
+      email: email ? (email as string) : undefined,
+      limit: limit ? Math.min(parseInt(limit as string, 10) || 100, 500) : 100,
+    });
+    res.json({ events });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch security events' });
+  }
+});
+
+// Inbound Webhook Event Routes
+router.get('/webhook-events', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const { provider, status, limit } = req.query;
+    const events = await FirebaseService.getWebhookEvents({
+      provider: provider ? (provider as WebhookProvider) : undefined,
+      status: status ? (status as WebhookEventStatus) : undefined,
+      limit: limit ? Math.min(parseInt(limit as string, 10) || 100, 500) : 100,
+    });
+
+    // The list view does not need the payload; it is loaded per event
+    res.json({ events: events.map(({ payload, ...event }) => event) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch webhook events' });
+  }
+});
+
+router.get('/webhook-events/:id', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const event = await FirebaseService.getWebhookEvent(req.params.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Webhook event not found' });
+    }
+    res.json(event);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch webhook event' });
+  }
+});
+
+router.post('/webhook-events/retry-due', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const summary = await WebhookQueueService.processDueEvents();
+    res.json({ success: true, ...summary });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retry webhook events' });
+  }
+});
+
+router.post('/webhook-events/:id/replay', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const event = await WebhookQueueService.replay(req.params.id);
+    if (!event) {
+      return res.status(409).json({ error: 'Webhook event not found or already being processed' });
+    }
+    res.json({ success: event.status === 'processed', event });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to replay webhook event' });
+  }
+});
+
+// Deal Reconciliation Routes (webhooks that matched no deal or more than one)
+router.get('/reconciliations', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as 'open' | 'resolved' | 'dismissed') || 'open';
+    const reconciliations = await FirebaseService.getDealReconciliations(status);
+
+    // Include a summary of each candidate so admins can pick the right deal
+    const candidateIds = [...new Set(reconciliations.flatMap(item => item.candidateDealIds || []))];
+    const candidateDeals = await Promise.all(candidateIds.map(id => FirebaseService.getDealById(id)));
+    const candidates = candidateDeals
+      .filter(Boolean)
+      .map(deal => ({
+        id: deal!.id,
+        dealId: deal!.dealId,
+        propertyAddress: deal!.propertyAddress,
+        contactName: deal!.contactName,
+        stage: deal!.stage,
+        ghlOpportunityId: deal!.ghlOpportunityId || null,
+      }));
+
+    res.json({ reconciliations, candidates });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch reconciliation list' });
+  }
+});
+
+router.post('/reconciliations/:id/resolve', requirePermission('webhooks:manage'), [
+  body('dealId').isString().notEmpty().withMessage('Deal ID is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const reconciliation = await FirebaseService.getDealReconciliation(req.params.id);
+    if (!reconciliation || reconciliation.status !== 'open') {
+      return res.status(404).json({ error: 'Open reconciliation entry not found' });
+    }
+    if (!reconciliation.opportunityId) {
+      return res.status(400).json({ error: 'This webhook has no opportunity ID to link. Dismiss it instead.' });
+    }
+
+    const deal = await FirebaseService.getDealById(req.body.dealId);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (deal.ghlOpportunityId && deal.ghlOpportunityId !== reconciliation.opportunityId) {
+      return res.status(409).json({ error: 'This deal is already linked to a different GHL opportunity' });
+    }
+
+    const [linkedDeal] = await FirebaseService.getDealsByField('ghlOpportunityId', reconciliation.opportunityId, 1);
+    if (linkedDeal && linkedDeal.id !== deal.id) {
+      return res.status(409).json({ error: 'This GHL opportunity is already linked to another deal' });
+    }
+
+    // Link the opportunity so this and future webhooks match by ID
+    await DealActivityService.updateDeal(deal, { ghlOpportunityId: reconciliation.opportunityId }, {
+      source: 'portal',
+      actorId: req.user?.id,
+      actorName: req.user?.username,
+    });
+
+    await FirebaseService.updateDealReconciliation(reconciliation.id, {
+      status: 'resolved',
+      resolvedDealId: deal.id,
+      resolvedBy: req.user?.username || req.user?.id,
+      resolvedAt: Timestamp.now(),
+    });
+
+    // Re-run the original webhook now that it can be matched
+    const replayed = reconciliation.webhookEventId
+      ? await WebhookQueueService.replay(reconciliation.webhookEventId)
+      : null;
+
+    res.json({ success: true, dealId: deal.id, replayStatus: replayed?.status || null });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to resolve reconciliation entry' });
+  }
+});
+
+router.post('/reconciliations/:id/dismiss', requirePermission('webhooks:manage'), async (req: Request, res: Response) => {
+  try {
+    const reconciliation = await FirebaseService.getDealReconciliation(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Reconciliation entry not found' });
+    }
+
+    await FirebaseService.updateDealReconciliation(reconciliation.id, {
+      status: 'dismissed',
+      resolvedBy: req.user?.username || req.user?.id,
+      resolvedAt: Timestamp.now(),
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to dismiss reconciliation entry' });
+  }
+});
+
+// Document Checklist Routes
+const checklistValidators = [
+  body('name').isString().trim().notEmpty().withMessage('Checklist name is required'),
+  body('dealType').optional().isString(),
+  body('loanType').optional().isString(),
+  body('items').isArray({ min: 1 }).withMessage('A checklist needs at least one item'),
+  body('items.*.label').isString().trim().notEmpty().withMessage('Each item needs a label'),
+  body('items.*.required').optional().isBoolean()
+];
+
+router.get('/document-checklists', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
+  try {
+    const checklists = await FirebaseService.getDocumentChecklists();
+    res.json(checklists);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch document checklists' });
+  }
+});
+
+router.post('/document-checklists', requirePermission('deals:write:all'), checklistValidators, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const checklist = await FirebaseService.createDocumentChecklist({
+      name: req.body.name.trim(),
+      dealType: (req.body.dealType || '').trim(),
+      loanType: (req.body.loanType || '').trim(),
+      items: DocumentChecklistService.normalizeItems(req.body.items),
+      updatedBy: req.user?.username || req.user?.id,
+    });
+
+    res.status(201).json(checklist);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create document checklist' });
+  }
+});
+
+router.put('/document-checklists/:id', requirePermission('deals:write:all'), checklistValidators, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const existing = await FirebaseService.getDocumentChecklistById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Document checklist not found' });
+    }
+
+    const checklist = await FirebaseService.updateDocumentChecklist(req.params.id, {
+      name: req.body.name.trim(),
+      dealType: (req.body.dealType || '').trim(),
+      loanType: (req.body.loanType || '').trim(),
+      items: DocumentChecklistService.normalizeItems(req.body.items),
+      updatedBy: req.user?.username || req.user?.id,
+    });
+
+    res.json(checklist);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update document checklist' });
+  }
+});
+
+router.delete('/document-checklists/:id', requirePermission('deals:write:all'), async (req: Request, res: Response) => {
+  try {
+    await FirebaseService.deleteDocumentChecklist(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete document checklist' });
+  }
+});
+
+// Deal folder template: folder layout created in document storage for every deal
+const folderTemplateValidators = [
+  body('folderPath').isString().trim().notEmpty().withMessage('Folder name is required'),
+  body('subfolders').isArray().withMessage('Subfolders must be an array'),
+  body('subfolders.*.name').isString().trim().notEmpty().withMessage('Each subfolder needs a name'),
+  body('subfolders.*.checklistItemIds').optional().isArray().withMessage('Checklist items must be an array'),
+  body('defaultSubfolder').optional({ values: 'falsy' }).isString()
+];
+
+const SAMPLE_FOLDER_DEAL = {
+  id: 'sample',
+  dealId: 'DEAL-1234',
+  propertyAddress: '123 Main St, Austin, TX 78701',
+  sponsorName: 'Jane Smith',
+  stage: 'Qualification',
+  dealType: 'Acquisition',
+  propertyType: 'Multifamily',
+};
+
+const readFolderTemplate = (body: any) => ({
+  folderPath: String(body.folderPath).trim(),
+  subfolders: (body.subfolders as any[]).map(subfolder => ({
+    name: String(subfolder.name).trim(),
+    checklistItemIds: Array.isArray(subfolder.checklistItemIds) ? subfolder.checklistItemIds.map(String) : [],
+  })),
+  defaultSubfolder: body.defaultSubfolder ? String(body.defaultSubfolder).trim() : undefined,
+});
+
+router.get('/document-folder-template', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
+  try {
+    const saved = await FirebaseService.getDealFolderTemplate();
+    res.json({
+      template: saved || await DealFolderService.getTemplate(),
+      isDefault: !saved,
+      tokens: Object.entries(FOLDER_TEMPLATE_TOKENS).map(([token, description]) => ({ token, description })),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch folder template' });
+  }
+});
+
+router.put('/document-folder-template', requirePermission('deals:write:all'), folderTemplateValidators, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const template = readFolderTemplate(req.body);
+    const unknownTokens = DealFolderService.findUnknownTokens(template);
+    if (unknownTokens.length > 0) {
+      return res.status(400).json({ error: `Unknown tokens: ${unknownTokens.map(token => `{${token}}`).join(', ')}` });
+    }
+    if (template.defaultSubfolder && !template.subfolders.some(subfolder => subfolder.name === template.defaultSubfolder)) {
+      return res.status(400).json({ error: 'The default subfolder must be one of the subfolders' });
+    }
+
+    // A checklist item can only be filed in one place
+    const seen = new Set<string>();
+    const duplicate = template.subfolders.flatMap(subfolder => subfolder.checklistItemIds).find(id => seen.has(id) || !seen.add(id));
+    if (duplicate) {
+      return res.status(400).json({ error: `Checklist item "${duplicate}" is assigned to more than one subfolder` });
+    }
+
+    const saved = await FirebaseService.saveDealFolderTemplate({
+      ...template,
+      updatedBy: req.user?.username || req.user?.id,
+    });
+    res.json({ template: saved, isDefault: false });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save folder template' });
+  }
+});
+
+// Render an unsaved template for a deal, or for a sample deal when none is given
+router.post('/document-folder-template/preview', requirePermission('deals:read:all'), folderTemplateValidators, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const template = readFolderTemplate(req.body);
+    const deal = req.body.dealId ? await FirebaseService.getDealById(String(req.body.dealId)) : SAMPLE_FOLDER_DEAL;
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    res.json({
+      ...DealFolderService.render(template, deal),
+      unknownTokens: DealFolderService.findUnknownTokens(template),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to preview folder template' });
+  }
+});
+
 // Email Configuration Routes
-router.get('/email/config', requireAdmin, async (req: Request, res: Response) => {
+/**
+ * Initialize the email service from the stored config and check the SMTP connection.
+ * Returns why sending can't work, or null when it can.
+ */
+const initializeStoredEmailService = async (): Promise<string | null> => {
+  try {
+    const storedConfig = await FirebaseService.getEmailConfig();
+    if (!storedConfig || storedConfig.enabled === false) {
+      return 'Email service not configured';
+    }
+    await EmailService.initialize(storedConfig);
+  } catch (initError) {
+    return 'Failed to initialize email service. Check SMTP settings.';
+  }
+
+  if (!(await EmailService.testEmailConnection())) {
+    return 'Email connection test failed';
+  }
+  return null;
+};
+
+router.get('/email/config', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
     const emailConfig = await FirebaseService.getEmailConfig();
     res.json(emailConfig);
@@ -1649,7 +2407,7 @@ router.get('/email/config', requireAdmin, async (req: Request, res: Response) =>
   }
 });
 
-router.post('/email/config', requireAdmin, [
+router.post('/email/config', requirePermission('integrations:manage'), [
   body('smtpHost').notEmpty().withMessage('SMTP Host is required'),
   body('smtpPort').isInt({ min: 1, max: 65535 }).withMessage('SMTP Port must be a valid port number'),
   body('smtpUser').notEmpty().withMessage('SMTP User is required'),
@@ -1682,7 +2440,7 @@ router.post('/email/config', requireAdmin, [
   }
 });
 
-router.post('/email/test', requireAdmin, [
+router.post('/email/test', requirePermission('integrations:manage'), [
   body('testEmail').isEmail().withMessage('Test email must be valid')
 ], async (req: Request, res: Response) => {
   try {
@@ -1693,21 +2451,9 @@ router.post('/email/test', requireAdmin, [
 
     const { testEmail } = req.body;
     
-    // Ensure email service is initialized from stored config
-    try {
-      const storedConfig = await FirebaseService.getEmailConfig();
-      if (!storedConfig || storedConfig.enabled === false) {
-        return res.status(400).json({ error: 'Email service not configured' });
-      }
-      await EmailService.initialize(storedConfig);
-    } catch (initError) {
-            return res.status(400).json({ error: 'Failed to initialize email service. Check SMTP settings.' });
-    }
-
-    // Test email connection after init
-    const connectionTest = await EmailService.testEmailConnection();
-    if (!connectionTest) {
-      return res.status(400).json({ error: 'Email connection test failed' });
+    const setupError = await initializeStoredEmailService();
+    if (setupError) {
+      return res.status(400).json({ error: setupError });
     }
     
     // Send test email
@@ -1727,4 +2473,224 @@ router.post('/email/test', requireAdmin, [
   }
 });
 
+// Email template routes
+const emailTemplateValidation = [
+  body('subject').isString().trim().notEmpty().withMessage('Subject is required'),
+  body('html').isString().notEmpty().withMessage('HTML body is required'),
+  body('text').isString().notEmpty().withMessage('Plain text body is required')
+];
+
+router.get('/email/templates', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const templates = await EmailTemplateService.list();
+    res.json({ templates });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get email templates' });
+  }
+});
+
+router.get('/email/templates/:key/versions', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const versions = await EmailTemplateService.getVersions(key);
+    res.json({ versions });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to get email template versions' });
+  }
+});
+
+router.put('/email/templates/:key', requirePermission('integrations:manage'), emailTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const { subject, html, text } = req.body;
+    const problems = EmailTemplateService.validate(key, { subject, html, text });
+    if (problems.length > 0) {
+      return res.status(400).json({ errors: problems.map(msg => ({ msg })) });
+    }
+
+    const template = await EmailTemplateService.save(key, { subject, html, text }, req.user!.username);
+    res.json({ template });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save email template' });
+  }
+});
+
+router.post('/email/templates/:key/preview', requirePermission('integrations:manage'), emailTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const { subject, html, text } = req.body;
+    const problems = EmailTemplateService.validate(key, { subject, html, text });
+    if (problems.length > 0) {
+      return res.status(400).json({ errors: problems.map(msg => ({ msg })) });
+    }
+
+    res.json(EmailTemplateService.renderSample(key, { subject, html, text }));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to render email template' });
+  }
+});
+
+router.post('/email/templates/:key/test', requirePermission('integrations:manage'), [
+  body('testEmail').isEmail().withMessage('Test email must be valid'),
+  ...emailTemplateValidation
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const { testEmail, subject, html, text } = req.body;
+    const problems = EmailTemplateService.validate(key, { subject, html, text });
+    if (problems.length > 0) {
+      return res.status(400).json({ errors: problems.map(msg => ({ msg })) });
+    }
+
+    const setupError = await initializeStoredEmailService();
+    if (setupError) {
+      return res.status(400).json({ error: setupError });
+    }
+
+    const emailSent = await EmailService.sendTestEmail(testEmail, EmailTemplateService.renderSample(key, { subject, html, text }));
+    if (!emailSent) {
+      return res.status(500).json({ error: 'Failed to send test email' });
+    }
+
+    res.json({ success: true, message: 'Test email sent successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send test email' });
+  }
+});
+
+router.post('/email/templates/:key/restore', requirePermission('integrations:manage'), [
+  body('version').isInt({ min: 1 }).withMessage('Version must be a positive integer')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const template = await EmailTemplateService.restore(key, Number(req.body.version), req.user!.username);
+    if (!template) {
+      return res.status(404).json({ error: 'Template version not found' });
+    }
+    res.json({ template });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to restore email template' });
+  }
+});
+
+router.post('/email/templates/:key/reset', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!EmailTemplateService.isTemplateKey(key)) {
+      return res.status(404).json({ error: 'Email template not found' });
+    }
+
+    const template = await EmailTemplateService.reset(key, req.user!.username);
+    res.json({ template });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset email template' });
+  }
+});
+
+// Email log: every queued email with its delivery status
+const EMAIL_MESSAGE_STATUSES: EmailMessageStatus[] = ['pending', 'sending', 'sent', 'failed', 'dead', 'bounced'];
+
+// Login and verification codes are never shown, even before the body is dropped
+function toEmailLogEntry(message: EmailMessage, includeBody: boolean) {
+  const { html, text, attachments, ...entry } = message;
+  const showBody = includeBody && !message.sensitive;
+  return {
+    ...entry,
+    html: showBody ? html : undefined,
+    text: showBody ? text : undefined,
+    attachments: attachments?.map(({ filename, contentType }) => ({ filename, contentType })),
+  };
+}
+
+router.get('/email/messages', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const { status, recipient, limit } = req.query;
+    if (status && !EMAIL_MESSAGE_STATUSES.includes(status as EmailMessageStatus)) {
+      return res.status(400).json({ error: 'Unknown email status' });
+    }
+
+    const messages = await FirebaseService.getEmailMessages({
+      status: status ? (status as EmailMessageStatus) : undefined,
+      recipient: recipient ? (recipient as string) : undefined,
+      limit: limit ? Math.min(parseInt(limit as string, 10) || 100, 500) : 100,
+    });
+    res.json({ messages: messages.map(message => toEmailLogEntry(message, false)) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch email log' });
+  }
+});
+
+router.get('/email/messages/:id', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const message = await FirebaseService.getEmailMessage(req.params.id);
+    if (!message) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    res.json({ message: toEmailLogEntry(message, true) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch email' });
+  }
+});
+
+router.post('/email/messages/retry-due', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const summary = await EmailQueueService.processDueMessages();
+    res.json({ success: true, ...summary });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retry emails' });
+  }
+});
+
+router.post('/email/messages/:id/resend', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
+  try {
+    const message = await EmailQueueService.resend(req.params.id, req.user!.username);
+    if (!message) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    res.json({ message: toEmailLogEntry(message, false) });
+  } catch (error: any) {
+    res.status(500).json({ error: error?.message || 'Failed to resend email' });
+  }
+});
+
 export default router;
@@ -1,8 +1,12 @@
 import { Router, Request, Response } from 'express';
-import { FirebaseService, Appointment } from '../services/firebaseService';
+import { FirebaseService, Appointment, SubAccount } from '../services/firebaseService';
+import { SecretService } from '../services/secretService';
 import { AppointmentService } from '../services/appointmentService';
 import { GHLService } from '../services/ghlService';
+import { NotificationService } from '../services/notificationService';
 import { Timestamp } from 'firebase-admin/firestore';
+import { requirePermission } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 
 const router = Router();
 
@@ -52,7 +56,7 @@ Last Updated: ${new Date().toISOString().split('T')[0]}
 // User Endpoints
 
 // Get terms and conditions text
-router.get('/terms', async (req: Request, res: Response) => {
+router.get('/terms', requirePermission('appointments:work'), async (req: Request, res: Response) => {
   try {
     res.json({ terms: TERMS_AND_CONDITIONS });
   } catch (error) {
@@ -61,7 +65,7 @@ router.get('/terms', async (req: Request, res: Response) => {
 });
 
 // Accept terms and conditions
-router.post('/accept-terms', async (req: Request, res: Response) => {
+router.post('/accept-terms', requirePermission('appointments:work'), async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -87,7 +91,7 @@ router.post('/accept-terms', async (req: Request, res: Response) => {
 });
 
 // Check if user accepted terms
-router.get('/terms-status', async (req: Request, res: Response) => {
+router.get('/terms-status', requirePermission('appointments:work'), async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -102,7 +106,7 @@ router.get('/terms-status', async (req: Request, res: Response) => {
 });
 
 // Get user's assigned appointments
-router.get('/my-assignments', async (req: Request, res: Response) => {
+router.get('/my-assignments', requirePermission('appointments:work'), async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -123,7 +127,7 @@ router.get('/my-assignments', async (req: Request, res: Response) => {
 });
 
 // Submit call notes after calling
-router.post('/:id/call-notes', async (req: Request, res: Response) => {
+router.post('/:id/call-notes', requirePermission('appointments:work'), async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
     const appointmentId = req.params.id;
@@ -186,7 +190,7 @@ router.post('/:id/call-notes', async (req: Request, res: Response) => {
 });
 
 // Get appointment details
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('appointments:work', 'appointments:read:all'), async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
     const appointmentId = req.params.id;
@@ -201,7 +205,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
 
     // Check if user is assigned to this appointment or is admin
-    if (appointment.assignedToUserId !== userId && !req.user?.isAdmin) {
+    if (appointment.assignedToUserId !== userId && !hasPermission(req.user, 'appointments:read:all')) {
       return res.status(403).json({ error: 'Not authorized to view this appointment' });
     }
 
@@ -214,12 +218,8 @@ router.get('/:id', async (req: Request, res: Response) => {
 // Admin Endpoints
 
 // List all appointments with filters
-router.get('/admin/list', async (req: Request, res: Response) => {
+router.get('/admin/list', requirePermission('appointments:read:all'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { status, assignedToUserId, startDate, endDate } = req.query;
     
     const filters: any = {};
@@ -236,12 +236,8 @@ router.get('/admin/list', async (req: Request, res: Response) => {
 });
 
 // Sync appointments from GHL
-router.post('/admin/sync', async (req: Request, res: Response) => {
+router.post('/admin/sync', requirePermission('appointments:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { startDate, endDate, calendarId, locationId, subAccountId } = req.body;
     
     // Clean up empty strings - treat them as undefined
@@ -364,13 +360,22 @@ router.post('/admin/sync', async (req: Request, res: Response) => {
   }
 });
 
+const formatAppointmentTime = (appointment: Appointment): string => {
+  const start = appointment.appointmentStartTime || appointment.appointmentDate;
+  if (!start?.toDate) return 'an upcoming date';
+  return start.toDate().toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+};
+
 // Assign appointment to user
-router.post('/admin/assign', async (req: Request, res: Response) => {
+router.post('/admin/assign', requirePermission('appointments:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { appointmentId, userId } = req.body;
 
     if (!appointmentId || !userId) {
@@ -392,11 +397,19 @@ router.post('/admin/assign', async (req: Request, res: Response) => {
     // Update appointment assignment
     const updatedAppointment = await FirebaseService.updateAppointment(appointmentId, {
       assignedToUserId: userId,
-      assignedByUserId: req.user.id,
+      assignedByUserId: req.user!.id,
       assignedAt: Timestamp.now(),
       status: 'assigned'
     });
 
+    if (appointment.assignedToUserId !== userId) {
+      await NotificationService.notify(userId, 'appointment_assigned', {
+        title: 'New appointment assigned to you',
+        body: `${appointment.contactName || 'A contact'} on ${formatAppointmentTime(appointment)}.`,
+        link: '/appointments',
+      });
+    }
+
     res.json({ appointment: updatedAppointment });
   } catch (error) {
         res.status(500).json({ error: 'Failed to assign appointment' });
@@ -404,12 +417,8 @@ router.post('/admin/assign', async (req: Request, res: Response) => {
 });
 
 // Bulk assign appointments to user
-router.post('/admin/bulk-assign', async (req: Request, res: Response) => {
+router.post('/admin/bulk-assign', requirePermission('appointments:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { appointmentIds, userId } = req.body;
 
     if (!appointmentIds || !Array.isArray(appointmentIds) || appointmentIds.length === 0) {
@@ -444,7 +453,7 @@ router.post('/admin/bulk-assign', async (req: Request, res: Response) => {
         // Update appointment assignment
         await FirebaseService.updateAppointment(appointmentId, {
           assignedToUserId: userId,
-          assignedByUserId: req.user.id,
+          assignedByUserId: req.user!.id,
           assignedAt: Timestamp.now(),
           status: 'assigned'
         });
@@ -455,6 +464,16 @@ router.post('/admin/bulk-assign', async (req: Request, res: Response) => {
       }
     }
 
+    if (results.successful.length > 0) {
+      await NotificationService.notify(userId, 'appointment_assigned', {
+        title: results.successful.length === 1
+          ? 'New appointment assigned to you'
+          : `${results.successful.length} new appointments assigned to you`,
+        body: 'Open My Appointments to see the contacts and call times.',
+        link: '/appointments',
+      });
+    }
+
     res.json({
       message: `Bulk assignment completed: ${results.successful.length} successful, ${results.failed.length} failed`,
       successful: results.successful,
@@ -466,12 +485,8 @@ router.post('/admin/bulk-assign', async (req: Request, res: Response) => {
 });
 
 // Unassign appointment
-router.put('/admin/:id/unassign', async (req: Request, res: Response) => {
+router.put('/admin/:id/unassign', requirePermission('appointments:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const appointmentId = req.params.id;
 
     // Get the appointment
@@ -495,12 +510,8 @@ router.put('/admin/:id/unassign', async (req: Request, res: Response) => {
 });
 
 // Get appointment statistics
-router.get('/admin/stats', async (req: Request, res: Response) => {
+router.get('/admin/stats', requirePermission('appointments:read:all'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const allAppointments = await FirebaseService.getAllAppointments();
     
     const stats = {
@@ -522,27 +533,26 @@ router.get('/admin/stats', async (req: Request, res: Response) => {
 
 // Sub-account management routes
 
+// Credentials never go back to the browser, only their last 4 characters
+const toSubAccountResponse = (subAccount: SubAccount) => ({
+  ...subAccount,
+  apiKey: SecretService.mask(subAccount.apiKey),
+  v2Token: SecretService.mask(subAccount.v2Token),
+});
+
 // Get all sub-accounts
-router.get('/admin/sub-accounts', async (req: Request, res: Response) => {
+router.get('/admin/sub-accounts', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const subAccounts = await FirebaseService.getAllSubAccounts();
-    res.json({ subAccounts });
+    res.json({ subAccounts: subAccounts.map(toSubAccountResponse) });
   } catch (error) {
         res.status(500).json({ error: 'Failed to get sub-accounts' });
   }
 });
 
 // Create sub-account
-router.post('/admin/sub-accounts', async (req: Request, res: Response) => {
+router.post('/admin/sub-accounts', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { name, apiKey, v2Token, locationId, ghlUserId } = req.body;
 
     if (!name || !apiKey || !locationId) {
@@ -564,27 +574,23 @@ router.post('/admin/sub-accounts', async (req: Request, res: Response) => {
       isActive: true
     });
 
-    res.json({ subAccount });
+    res.json({ subAccount: toSubAccountResponse(subAccount) });
   } catch (error) {
         res.status(500).json({ error: 'Failed to create sub-account' });
   }
 });
 
 // Update sub-account
-router.put('/admin/sub-accounts/:id', async (req: Request, res: Response) => {
+router.put('/admin/sub-accounts/:id', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const subAccountId = req.params.id;
     const { name, apiKey, v2Token, locationId, ghlUserId, isActive } = req.body;
 
-    // Build update object with only defined values
+    // Build update object with only defined values. Secrets left blank keep their stored value.
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
-    if (apiKey !== undefined) updateData.apiKey = apiKey;
-    if (v2Token !== undefined) updateData.v2Token = v2Token;
+    if (apiKey) updateData.apiKey = apiKey;
+    if (v2Token) updateData.v2Token = v2Token;
     if (locationId !== undefined) updateData.locationId = locationId;
     if (ghlUserId !== undefined) updateData.ghlUserId = ghlUserId;
     if (isActive !== undefined) updateData.isActive = isActive;
@@ -595,19 +601,15 @@ router.put('/admin/sub-accounts/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Sub-account not found' });
     }
 
-    res.json({ subAccount });
+    res.json({ subAccount: toSubAccountResponse(subAccount) });
   } catch (error) {
         res.status(500).json({ error: 'Failed to update sub-account' });
   }
 });
 
 // Delete sub-account
-router.delete('/admin/sub-accounts/:id', async (req: Request, res: Response) => {
+router.delete('/admin/sub-accounts/:id', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const subAccountId = req.params.id;
 
     // Check if there are any appointments using this sub-account
@@ -630,12 +632,8 @@ router.delete('/admin/sub-accounts/:id', async (req: Request, res: Response) =>
 });
 
 // Test sub-account connection
-router.post('/admin/sub-accounts/:id/test', async (req: Request, res: Response) => {
+router.post('/admin/sub-accounts/:id/test', requirePermission('integrations:manage'), async (req: Request, res: Response) => {
   try {
-    if (!req.user?.isAdmin) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const subAccountId = req.params.id;
     const subAccount = await FirebaseService.getSubAccountById(subAccountId);
 
@@ -1,14 +1,19 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
 import Stripe from 'stripe';
 import rateLimit from 'express-rate-limit';
 import crypto from 'crypto';
 import { DiscordService } from '../services/discordService';
-import { FirebaseService } from '../services/firebaseService';
-import { DiscordBotService } from '../services/discordBotService';
-import { canAccessPortal } from '../utils/subscriptionChecker';
+import { FirebaseService, User } from '../services/firebaseService';
+import { DiscordRoleSyncService } from '../services/discordRoleSyncService';
+import { canAccessPortal, isCompletingOnboarding } from '../utils/subscriptionChecker';
 import { authenticateToken } from '../middleware/auth';
+import { SessionService } from '../services/sessionService';
+import { SecurityService, OTP_MAX_ATTEMPTS } from '../services/securityService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { EmailService } from '../services/emailService';
+import { EmailQueueService, EmailResender, EnqueueOptions } from '../services/emailQueueService';
 import { hashPassword, verifyPassword } from '../utils/password';
+import { getUserRole, getRolePermissions } from '../utils/permissions';
 
 const router = express.Router();
 
@@ -801,135 +806,13 @@ router.get('/discord/callback', async (req, res) => {
 
     // Verify user can access portal (active subscription or grace period)
     const canAccess = user.hasManualSubscription || (subscription && canAccessPortal(subscription));
-        // If user has active subscription, add them to Discord server and assign role
-    // Discord bot operations run asynchronously - don't block login
-    if (canAccess) {
-            // Fire-and-forget Discord operations (don't block login)
-      (async () => {
-        try {
-          // Set a timeout to prevent hanging (increased to 15 seconds for Discord API operations)
-          const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Discord operation timeout')), 15000)
-          );
-          
-          // Step 1: Add user to Discord server (using OAuth token with guilds.join scope, or bot token)
-          let userInServer = false;
-          let roleAssignedDuringAdd = false;
-          try {
-            // Debug logging to verify we're using the correct token
-
-
-                        // Use Promise.race with timeout, but catch timeout errors gracefully
-            // Pass role ID to addUserToGuild so role is assigned when user is added (more efficient)
-            const roleId = process.env.DISCORD_PAID_MEMBER_ROLE_ID || '';
-            let addedToServer = false;
-            
-            try {
-              addedToServer = await Promise.race([
-                DiscordService.addUserToGuild(discordUser.id, accessToken, roleId),
-                timeoutPromise
-              ]) as boolean;
-              
-              // If role ID was provided, role should have been assigned during user addition
-              if (addedToServer && roleId) {
-                roleAssignedDuringAdd = true;
-                              }
-            } catch (error: any) {
-              if (error.message === 'Discord operation timeout') {
-                                // Check if user was actually added despite timeout
-                const isInServer = await DiscordService.isUserInGuild(discordUser.id);
-                if (isInServer) {
-                                    addedToServer = true;
-                  // Check if role was also assigned
-                  if (roleId) {
-                    try {
-                      const hasRole = await DiscordBotService.checkMemberStatus(discordUser.id, roleId);
-                      if (hasRole) {
-                        roleAssignedDuringAdd = true;
-                                              }
-                    } catch (e) {
-                      // Ignore role check errors
-                    }
-                  }
-                } else {
-                                  }
-              } else {
-                throw error; // Re-throw non-timeout errors
-              }
-            }
-            
-            if (addedToServer) {
-              // Verify user is actually in server before proceeding
-              userInServer = await Promise.race([
-                DiscordService.isUserInGuild(discordUser.id),
-                new Promise((resolve) => setTimeout(() => resolve(false), 2000)) // 2 second timeout
-              ]) as boolean;
-              
-              if (userInServer) {
-                if (roleAssignedDuringAdd) {
-                                  } else {
-                                  }
-              } else {
-                                              }
-            } else {
-                          }
-          } catch (error: any) {
-                      }
-          
-          // Step 2: Assign paid role ONLY if user is confirmed to be in server AND role wasn't already assigned
-          if (userInServer && !roleAssignedDuringAdd) {
-            const hasPaidRole = await Promise.race([
-              DiscordBotService.checkMemberStatus(discordUser.id),
-              timeoutPromise
-            ]) as boolean;
-            
-            if (!hasPaidRole) {
-              try {
-                const added = await Promise.race([
-                  DiscordBotService.addMemberToServer(discordUser.id),
-                  timeoutPromise
-                ]) as boolean;
-                if (added) {
-                                  } else {
-
-                }
-              } catch (error: any) {
-                              }
-            } else {
-                          }
-          } else {
-            // User not in server - check if they already have the role (maybe they joined manually)
-            try {
-              const hasPaidRole = await Promise.race([
-                DiscordBotService.checkMemberStatus(discordUser.id),
-                timeoutPromise
-              ]) as boolean;
-              if (!hasPaidRole) {
-                                              }
-            } catch (error) {
-              // Ignore check errors
-            }
-          }
-        } catch (error: any) {
-          // Don't fail login if Discord operations fail or timeout
 
-        }
-      })(); // Fire-and-forget
-    } else {
-      // No active subscription - ensure paid role is removed and redirect to payment
-      Promise.race([
-        (async () => {
-          try {
-            const hasPaidRole = await DiscordBotService.checkMemberStatus(discordUser.id);
-            if (hasPaidRole) {
-              await DiscordBotService.removeMemberFromServer(discordUser.id);
-                          }
-          } catch (error) {
-                      }
-        })(),
-        new Promise((resolve) => setTimeout(resolve, 3000)) // 3 second timeout
-      ]).catch(() => {});
+    // Bring their Discord roles in line with their access, adding them to the server when entitled.
+    // Runs in the background so Discord latency never blocks login.
+    DiscordRoleSyncService.syncMember(discordUser.id, { trigger: 'login', accessToken }).catch(() => {});
 
+    if (!canAccess) {
+      // No active subscription - redirect to payment
       let frontendUrl = process.env.FRONTEND_URL || (process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 'https://www.rain.club');
       frontendUrl = frontendUrl.trim().replace(/['"]/g, '');
       if (!frontendUrl.startsWith('http')) {
@@ -939,17 +822,6 @@ router.get('/discord/callback', async (req, res) => {
       return res.redirect(paymentRedirectUrl);
     }
 
-    // Generate JWT token (only reached if canAccess is true)
-        const token = jwt.sign(
-      { userId: user.id, discordId: user.discordId },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
-
-    // Check if this is an onboarding flow (from state parameter)
-    // Use existing stateData (already parsed above)
-    const isOnboarding = stateData && stateData.onboarding === true;
-    
     // Redirect to frontend with token
     let frontendUrl = process.env.FRONTEND_URL || (process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 'https://www.rain.club');
     
@@ -957,32 +829,28 @@ router.get('/discord/callback', async (req, res) => {
     if (!frontendUrl.startsWith('http')) {
       frontendUrl = `https://${frontendUrl}`;
     }
-    
-    // Prepare user object for frontend (include hasDiscord and hasPassword flags)
-    const userForFrontend = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      discordId: user.discordId,
-      discordEmail: user.discordEmail,
-      avatar: user.avatar,
-      isAdmin: user.isAdmin,
-      isWhitelisted: user.isWhitelisted,
-      hasManualSubscription: user.hasManualSubscription || false,
-      hasDiscord: !!user.discordId, // Set hasDiscord based on discordId presence
-      hasPassword: !!(user as any).passwordHash, // Set hasPassword based on passwordHash presence
-      termsAccepted: user.termsAccepted || false
-    };
-    
+
+    // Accounts with two-factor finish signing in on the login page
+    const twoFactorChallenge = TwoFactorService.challengeFor(user);
+    if (twoFactorChallenge) {
+      const setupParam = twoFactorChallenge.twoFactorSetupRequired ? '&twoFactorSetup=1' : '';
+      return res.redirect(`${frontendUrl}/login?twoFactorToken=${encodeURIComponent(twoFactorChallenge.challengeToken)}${setupParam}`);
+    }
+
+    // Only reached if canAccess is true. The tokens are fetched with a one-time code
+    // (POST /auth/login-code) so they never appear in the URL.
+    const loginCode = await SessionService.createLoginCode(user);
+
+    // Check if this is an onboarding flow (from state parameter)
+    // Use existing stateData (already parsed above)
+    const isOnboarding = stateData && stateData.onboarding === true;
+
     // If onboarding, redirect to intro video step
     if (isOnboarding) {
-      const introUrl = `${frontendUrl}/onboarding/intro?token=${token}&user=${encodeURIComponent(JSON.stringify(userForFrontend))}`;
-      return res.redirect(introUrl);
+      return res.redirect(`${frontendUrl}/onboarding/intro?loginCode=${encodeURIComponent(loginCode)}`);
     }
-    
-    const finalRedirectUrl = `${frontendUrl}?token=${token}&user=${encodeURIComponent(JSON.stringify(userForFrontend))}`;
 
-    return res.redirect(finalRedirectUrl);
+    return res.redirect(`${frontendUrl}?loginCode=${encodeURIComponent(loginCode)}`);
   } catch (error: any) {
             // Redirect to frontend with error
     let frontendUrl = process.env.FRONTEND_URL || (process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 'https://www.rain.club');
@@ -1148,65 +1016,16 @@ router.post('/discord', async (req, res) => {
       }
     }
 
-    // If user has active subscription, add them to Discord server and assign role
-    if (user.hasManualSubscription || (subscription && canAccessPortal(subscription))) {
-      // Step 1: Add user to Discord server (using OAuth token with guilds.join scope, or bot token)
-      let userInServer = false;
-      let roleAssignedDuringAdd = false;
-      const roleId = process.env.DISCORD_PAID_MEMBER_ROLE_ID || '';
-      
-      try {
-        // Debug logging to verify we're using the correct token
-
-
-
-                        // Pass role ID to addUserToGuild so role is assigned when user is added (more efficient)
-        const addedToServer = await DiscordService.addUserToGuild(discordUser.id, accessToken, roleId);
-        if (addedToServer) {
-          // If role ID was provided, role should have been assigned during user addition
-          if (roleId) {
-            roleAssignedDuringAdd = true;
-                      }
-          
-          // Verify user is actually in server
-          await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-          userInServer = await DiscordService.isUserInGuild(discordUser.id);
-          if (userInServer) {
-            if (roleAssignedDuringAdd) {
-                          } else {
-                          }
-          } else {
-                      }
-        }
-      } catch (error: any) {
-              }
-      
-      // Step 2: Assign paid role ONLY if user is confirmed to be in server AND role wasn't already assigned
-      if (userInServer && !roleAssignedDuringAdd) {
-        const hasPaidRole = await DiscordBotService.checkMemberStatus(discordUser.id);
-        if (!hasPaidRole) {
-          try {
-            const added = await DiscordBotService.addMemberToServer(discordUser.id);
-            if (added) {
-                          } else {
+    const canAccess = user.hasManualSubscription || (subscription && canAccessPortal(subscription));
 
-            }
-          } catch (error: any) {
-                      }
-        } else {
-                  }
-      } else {
-                      }
-    } else {
-      // No active subscription - ensure paid role is removed and block access
-      const hasPaidRole = await DiscordBotService.checkMemberStatus(discordUser.id);
-      if (hasPaidRole) {
-        try {
-          await DiscordBotService.removeMemberFromServer(discordUser.id);
-                  } catch (error) {
-                  }
-      }
+    // Bring their Discord roles in line with their access, adding them to the server when entitled
+    try {
+      await DiscordRoleSyncService.syncMember(discordUser.id, { trigger: 'login', accessToken });
+    } catch (error) {
+      // Don't fail login if Discord is unavailable; the reconcile job catches up
+    }
 
+    if (!canAccess) {
       return res.status(403).json({ 
         error: 'Not a paid member',
         message: 'You must have an active subscription to access the portal'
@@ -1221,15 +1040,18 @@ router.post('/discord', async (req, res) => {
       });
     }
 
+    // Accounts with two-factor get a challenge instead of tokens
+    const twoFactorChallenge = TwoFactorService.challengeFor(user);
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
+
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, discordId: user.discordId },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
+    const { token, refreshToken } = await SessionService.createSession(user, req);
 
     res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         discordId: user.discordId,
@@ -1303,7 +1125,7 @@ router.post('/login', loginLimiter, async (req, res) => {
 
     // Verify user can access portal
     // Allow users in onboarding (who have paid but haven't completed setup) to proceed
-    const isInOnboarding = !user.passwordHash || !user.discordId || (user.onboardingStep && user.onboardingStep < 5);
+    const isInOnboarding = isCompletingOnboarding(user);
     
     if (!user.isAdmin && !user.hasManualSubscription && !isInOnboarding) {
       // Only check subscription if user is not in onboarding
@@ -1315,16 +1137,19 @@ router.post('/login', loginLimiter, async (req, res) => {
       }
     }
 
+    // Accounts with two-factor get a challenge instead of tokens
+    const twoFactorChallenge = TwoFactorService.challengeFor(user);
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
+
     // Generate JWT token (even if Discord is missing - user can complete setup while authenticated)
-    const token = jwt.sign(
-      { userId: user.id, discordId: user.discordId },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const { token, refreshToken } = await SessionService.createSession(user, req);
 
     // Return token with user data, including setup status flags
     res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         username: user.username,
@@ -1529,9 +1354,17 @@ router.get('/me', async (req, res) => {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    let claims;
+    try {
+      claims = await SessionService.verifyAccessToken(token);
+    } catch (error) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    if (!claims) {
+      return res.status(401).json({ error: 'Session expired or revoked' });
+    }
 
-    const user = await FirebaseService.getUserById(decoded.userId);
+    const user = await FirebaseService.getUserById(claims.userId);
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
@@ -1545,6 +1378,8 @@ router.get('/me', async (req, res) => {
       avatar: user.avatar,
       isAdmin: user.isAdmin,
       isWhitelisted: user.isWhitelisted,
+      role: getUserRole(user),
+      permissions: getRolePermissions(getUserRole(user)),
       hasManualSubscription: user.hasManualSubscription || false,
       termsAccepted: user.termsAccepted || false,
       onboardingCompleted: user.onboardingCompleted || false,
@@ -1558,11 +1393,329 @@ router.get('/me', async (req, res) => {
   }
 });
 
-// Logout (client-side token removal)
-router.post('/logout', (req, res) => {
+// Logout: revoke the session behind the access token so its refresh token stops working
+router.post('/logout', async (req, res) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (token) {
+    try {
+      await SessionService.endSession(token);
+    } catch (error) {
+      // A malformed token has no session to end; the client clears its tokens either way
+    }
+  }
+
   res.json({ message: 'Logged out successfully' });
 });
 
+const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // Access tokens last 15 minutes, so a handful of tabs stays well under this
+  message: 'Too many refresh attempts. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Exchange a refresh token for a new access token (and a rotated refresh token)
+router.post('/refresh', refreshLimiter, async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    const tokens = await SessionService.refresh(refreshToken, req);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Session expired or revoked' });
+    }
+
+    res.json({ token: tokens.token, refreshToken: tokens.refreshToken, expiresIn: tokens.expiresIn });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Redeem the one-time code the Discord sign-in redirect carries for the session's tokens
+router.post('/login-code', refreshLimiter, async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const redeemed = await SessionService.redeemLoginCode(code, req);
+    if (!redeemed) {
+      return res.status(401).json({ error: 'Sign-in expired. Please sign in again.' });
+    }
+
+    res.json({ token: redeemed.tokens.token, refreshToken: redeemed.tokens.refreshToken, user: toSignInUser(redeemed.user) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to complete sign-in' });
+  }
+});
+
+// List the signed-in user's active sessions (devices)
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await SessionService.listSessions(req.user!.id, req.user!.sessionId);
+    res.json(sessions);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out every other device
+router.post('/sessions/revoke-others', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await SessionService.revokeAllSessions(req.user!.id, 'revoked_by_user', req.user!.sessionId);
+    res.json({ revoked });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Sign out one device
+router.delete('/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await SessionService.revokeSession(req.user!.id, req.params.id, 'revoked_by_user');
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Two-factor authentication (TOTP)
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // 20 code submissions per window per IP
+  message: 'Too many attempts. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Enrollment works either signed in, or with the challenge token an admin without an
+// authenticator gets at sign-in (they have no session yet)
+const authenticateTokenOrChallenge = (req: express.Request, res: express.Response, next: express.NextFunction) =>
+  req.body?.challengeToken ? next() : authenticateToken(req, res, next);
+
+/**
+ * The user a two-factor request is about: the signed-in user, or the challenge token's user.
+ * A challenge can only enroll an account that has no authenticator yet, so a password alone
+ * can't replace an existing one.
+ */
+async function getTwoFactorSubject(req: express.Request): Promise<{ user: User; viaChallenge: boolean } | { error: string; status: number }> {
+  const { challengeToken } = req.body;
+  if (challengeToken) {
+    const userId = TwoFactorService.verifyChallengeToken(challengeToken);
+    const user = userId ? await FirebaseService.getUserById(userId) : null;
+    if (!user) return { error: 'Sign-in expired. Please sign in again.', status: 401 };
+    if (TwoFactorService.isEnabled(user)) return { error: 'Two-factor authentication is already set up', status: 400 };
+    return { user, viaChallenge: true };
+  }
+
+  const user = await FirebaseService.getUserById(req.user!.id);
+  if (!user) return { error: 'User not found', status: 404 };
+  return { user, viaChallenge: false };
+}
+
+// User fields returned when a two-factor step completes sign-in (same shape as password login)
+const toSignInUser = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  discordId: user.discordId,
+  discordEmail: user.discordEmail,
+  avatar: user.avatar,
+  isAdmin: user.isAdmin,
+  isWhitelisted: user.isWhitelisted,
+  hasManualSubscription: user.hasManualSubscription || false,
+  termsAccepted: user.termsAccepted || false,
+  onboardingCompleted: user.onboardingCompleted || false,
+  hasPassword: !!user.passwordHash,
+  hasDiscord: !!user.discordId,
+  needsPassword: !user.passwordHash,
+  needsDiscord: !user.discordId,
+});
+
+// Finish signing in with a TOTP or backup code
+// Answers 429 and resolves true while the user's two-factor codes are locked out
+const rejectIfTwoFactorLocked = async (userId: string, res: express.Response): Promise<boolean> => {
+  const lockedUntil = await SecurityService.getLockedUntil('two_factor', userId);
+  if (!lockedUntil) return false;
+  res.setHeader('Retry-After', SecurityService.retryAfterSeconds(lockedUntil));
+  res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+  return true;
+};
+
+// Record a wrong two-factor code and answer 429 when that locked the user out, else 401
+const rejectTwoFactorFailure = async (user: User, req: express.Request, res: express.Response) => {
+  const locked = await SecurityService.registerFailure('two_factor', user.id, 'two_factor_failed', req, {
+    userId: user.id,
+    email: user.email,
+  });
+  if (locked) {
+    return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+  }
+  return res.status(401).json({ error: 'Invalid authentication code' });
+};
+
+router.post('/2fa/verify', twoFactorLimiter, async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+    if (!challengeToken || !code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'challengeToken and code are required' });
+    }
+
+    const userId = TwoFactorService.verifyChallengeToken(challengeToken);
+    const user = userId ? await FirebaseService.getUserById(userId) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in expired. Please sign in again.' });
+    }
+    if (!TwoFactorService.isEnabled(user)) {
+      return res.status(400).json({ error: 'Two-factor authentication is not set up', twoFactorSetupRequired: true });
+    }
+
+    if (await rejectIfTwoFactorLocked(user.id, res)) return;
+
+    const method = await TwoFactorService.verifyCode(user, code);
+    if (!method) {
+      return rejectTwoFactorFailure(user, req, res);
+    }
+
+    await SecurityService.clearFailures('two_factor', user.id);
+    if (method === 'backup_code') {
+      await SecurityService.recordEvent('backup_code_used', req, {
+        userId: user.id,
+        email: user.email,
+        details: { remaining: (user.twoFactorBackupCodeHashes?.length || 1) - 1 },
+      });
+    }
+
+    const { token, refreshToken } = await SessionService.createSession(user, req);
+    res.json({ token, refreshToken, user: toSignInUser(user) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify authentication code' });
+  }
+});
+
+router.get('/2fa/status', authenticateToken, async (req, res) => {
+  try {
+    const user = await FirebaseService.getUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({
+      enabled: TwoFactorService.isEnabled(user),
+      required: TwoFactorService.isRequired(user),
+      backupCodesRemaining: user.twoFactorBackupCodeHashes?.length || 0,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Start enrollment: returns the secret and a QR code for the authenticator app
+router.post('/2fa/setup', authenticateTokenOrChallenge, async (req, res) => {
+  try {
+    const subject = await getTwoFactorSubject(req);
+    if ('error' in subject) {
+      return res.status(subject.status).json({ error: subject.error });
+    }
+    if (TwoFactorService.isEnabled(subject.user)) {
+      return res.status(400).json({ error: 'Two-factor authentication is already set up' });
+    }
+
+    const enrollment = await TwoFactorService.beginEnrollment(subject.user);
+    res.json(enrollment);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a first code; signs in when enrolling from a sign-in challenge
+router.post('/2fa/enable', twoFactorLimiter, authenticateTokenOrChallenge, async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const subject = await getTwoFactorSubject(req);
+    if ('error' in subject) {
+      return res.status(subject.status).json({ error: subject.error });
+    }
+    const { user, viaChallenge } = subject;
+
+    const backupCodes = await TwoFactorService.completeEnrollment(user, code);
+    if (!backupCodes) {
+      return res.status(400).json({ error: 'Invalid authentication code. Check the time on your device and try again.' });
+    }
+
+    await SecurityService.recordEvent('two_factor_enabled', req, { userId: user.id, email: user.email });
+
+    if (viaChallenge) {
+      const { token, refreshToken } = await SessionService.createSession(user, req);
+      return res.json({ backupCodes, token, refreshToken, user: toSignInUser(user) });
+    }
+    res.json({ backupCodes });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+router.post('/2fa/disable', twoFactorLimiter, authenticateToken, async (req, res) => {
+  try {
+    const user = await FirebaseService.getUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (TwoFactorService.isRequired(user)) {
+      return res.status(400).json({ error: 'Two-factor authentication is required for admin accounts' });
+    }
+
+    if (await rejectIfTwoFactorLocked(user.id, res)) return;
+
+    const method = await TwoFactorService.verifyCode(user, req.body.code || '');
+    if (!method) {
+      return rejectTwoFactorFailure(user, req, res);
+    }
+    await SecurityService.clearFailures('two_factor', user.id);
+
+    await TwoFactorService.disable(user);
+    await SecurityService.recordEvent('two_factor_disabled', req, { userId: user.id, email: user.email });
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace all backup codes (the old ones stop working)
+router.post('/2fa/backup-codes', twoFactorLimiter, authenticateToken, async (req, res) => {
+  try {
+    const user = await FirebaseService.getUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (await rejectIfTwoFactorLocked(user.id, res)) return;
+
+    const method = await TwoFactorService.verifyCode(user, req.body.code || '');
+    if (!method) {
+      return rejectTwoFactorFailure(user, req, res);
+    }
+    await SecurityService.clearFailures('two_factor', user.id);
+
+    const backupCodes = await TwoFactorService.regenerateBackupCodes(user);
+    res.json({ backupCodes });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to regenerate backup codes' });
+  }
+});
+
 // Direct login after payment (without Discord OAuth)
 // This endpoint is called after successful payment to log the user in automatically
 router.post('/login-after-payment', async (req, res) => {
@@ -2248,44 +2401,19 @@ router.post('/login-after-payment', async (req, res) => {
     // Try to get Discord ID from user object if not passed in request
     const finalDiscordIdForRole = discordId || user.discordId;
     let needsDiscordOAuth = false; // Flag to indicate user needs to complete Discord OAuth
-    let userInServer = false;
-    
+
     if (finalDiscordIdForRole && (subscriptionStatus === 'active' || subscriptionStatus === 'trialing')) {
+      // Without the user's OAuth token we can only fix roles for members already in the server;
+      // anyone else has to complete Discord OAuth to be added
       try {
-                // Step 1: Check if user is already in Discord server
-        // Note: In login-after-payment, we don't have OAuth token, so we cannot add them automatically
-        // Discord API requires user's OAuth token (with guilds.join scope) to add users
-        // User must complete Discord OAuth login to be added
-        try {
-          // Check if user is already in server (maybe they joined manually or via previous OAuth)
-          userInServer = await DiscordService.isUserInGuild(finalDiscordIdForRole);
-          if (userInServer) {
-                      } else {
-
-                        needsDiscordOAuth = true; // Mark that user needs Discord OAuth
-          }
-        } catch (error: any) {
-                    // If check fails, assume user is not in server and needs OAuth
-          needsDiscordOAuth = true;
-        }
-        
-        // Step 2: Assign paid role ONLY if user is confirmed to be in server
-        if (userInServer) {
-          const hasPaidRole = await DiscordBotService.checkMemberStatus(finalDiscordIdForRole);
-          if (!hasPaidRole) {
-                        const added = await DiscordBotService.addMemberToServer(finalDiscordIdForRole);
-            if (added) {
-                          } else {
-
-            }
-          } else {
-                      }
-        } else {
-                            }
-      } catch (error: any) {
-                if (error?.response) {
-                            }
-        // Don't fail the login if Discord role assignment fails
+        const syncResult = await DiscordRoleSyncService.syncMember(finalDiscordIdForRole, {
+          trigger: 'subscription',
+          subscriptionActive: true,
+        });
+        needsDiscordOAuth = !syncResult?.inGuild;
+      } catch (error) {
+        // Don't fail the login if Discord role sync fails
+        needsDiscordOAuth = true;
       }
     } else if (!finalDiscordIdForRole) {
             // If user has no Discord ID, they should complete OAuth to get one
@@ -2300,15 +2428,18 @@ router.post('/login-after-payment', async (req, res) => {
       });
     }
 
+    // Accounts with two-factor get a challenge instead of tokens
+    const twoFactorChallenge = TwoFactorService.challengeFor(user);
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
+
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, discordId: user.discordId },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
+    const { token, refreshToken } = await SessionService.createSession(user, req);
 
         res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         discordId: user.discordId,
@@ -2361,6 +2492,13 @@ router.post('/otp/request', otpRequestLimiter, async (req, res) => {
       return res.status(400).json({ error: 'Invalid email format' });
     }
     
+    // A locked-out email gets no new codes until the lock ends
+    const lockedUntil = await SecurityService.getLockedUntil('otp_email', email);
+    if (lockedUntil) {
+      res.setHeader('Retry-After', SecurityService.retryAfterSeconds(lockedUntil));
+      return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+    }
+    
     // Check if user exists with this email
     let user;
     try {
@@ -2411,8 +2549,7 @@ router.post('/otp/request', otpRequestLimiter, async (req, res) => {
     await FirebaseService.saveOTPCode(email, otpCode);
     
     // Send OTP email
-    const EmailService = require('../services/emailService').EmailService;
-    await EmailService.sendOTPEmail(email, otpCode);
+    await EmailService.sendOTPEmail(email, otpCode, { userId: user.id });
     
     res.json({ 
       success: true,
@@ -2423,6 +2560,14 @@ router.post('/otp/request', otpRequestLimiter, async (req, res) => {
   }
 });
 
+// Resending a login code email from the admin email log sends a fresh code
+EmailQueueService.registerResender('login_code', async (message, requestedBy) => {
+  const email = message.to[0];
+  const otpCode = await FirebaseService.generateOTPCode();
+  await FirebaseService.saveOTPCode(email, otpCode);
+  return EmailService.sendOTPEmail(email, otpCode, { userId: message.userId, resendOf: message.id, requestedBy });
+});
+
 // Verify OTP and login
 router.post('/otp/verify', otpVerifyLimiter, async (req, res) => {
   try {
@@ -2443,13 +2588,37 @@ router.post('/otp/verify', otpVerifyLimiter, async (req, res) => {
       return res.status(400).json({ error: 'Invalid code format. Code must be 6 digits.' });
     }
     
-    // Verify OTP
-    const isValid = await FirebaseService.verifyOTPCode(email, code);
+    const lockedUntil = await SecurityService.getLockedUntil('otp_email', email);
+    if (lockedUntil) {
+      res.setHeader('Retry-After', SecurityService.retryAfterSeconds(lockedUntil));
+      return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+    }
     
-    if (!isValid) {
+    // Verify OTP
+    const result = await FirebaseService.verifyOTPCode(email, code, OTP_MAX_ATTEMPTS);
+    
+    if (result !== 'valid') {
+      // Guesses at a locked code still count against the email
+      if (result !== 'expired') {
+        const emailLocked = await SecurityService.registerFailure(
+          'otp_email',
+          email,
+          result === 'locked' ? 'otp_code_locked' : 'otp_failed',
+          req,
+          { email, details: { reason: result } }
+        );
+        if (emailLocked) {
+          return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+        }
+      }
+      if (result === 'locked') {
+        return res.status(401).json({ error: 'Too many wrong attempts for this code. Please request a new code.' });
+      }
       return res.status(401).json({ error: 'Invalid or expired code' });
     }
     
+    await SecurityService.clearFailures('otp_email', email);
+    
     // Get user
     const user = await FirebaseService.getUserByEmail(email);
     
@@ -2481,15 +2650,18 @@ router.post('/otp/verify', otpVerifyLimiter, async (req, res) => {
       });
     }
     
+    // Accounts with two-factor get a challenge instead of tokens
+    const twoFactorChallenge = TwoFactorService.challengeFor(user);
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
+
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const { token, refreshToken } = await SessionService.createSession(user, req);
     
     res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
@@ -2506,7 +2678,15 @@ router.post('/otp/verify', otpVerifyLimiter, async (req, res) => {
 });
 
 // Link Discord account with verification code
-router.post('/discord/link', async (req, res) => {
+const discordLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 attempts per 15 minutes per IP
+  message: 'Too many attempts. Please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.post('/discord/link', discordLinkLimiter, async (req, res) => {
   try {
     const { code, verificationCode } = req.body;
     
@@ -2514,8 +2694,8 @@ router.post('/discord/link', async (req, res) => {
       return res.status(400).json({ error: 'Discord code and verification code are required' });
     }
     
-    // Validate verification code format (RAIN-XXXX)
-    if (!/^RAIN-[A-Z0-9]{4}$/.test(verificationCode)) {
+    // Validate verification code format (RAIN-XXXX-XXXX-XXXX)
+    if (typeof verificationCode !== 'string' || !/^RAIN-[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}$/.test(verificationCode)) {
       return res.status(400).json({ error: 'Invalid verification code format' });
     }
     
@@ -2534,48 +2714,67 @@ router.post('/discord/link', async (req, res) => {
     const tokenData = await DiscordService.exchangeCodeForToken(code, redirectUri);
     const discordUser = await DiscordService.getUserInfo(tokenData.access_token);
     
+    // Wrong codes count against the Discord account trying them, since the code alone identifies no one
+    const lockedUntil = await SecurityService.getLockedUntil('verification_code', discordUser.id);
+    if (lockedUntil) {
+      res.setHeader('Retry-After', SecurityService.retryAfterSeconds(lockedUntil));
+      return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+    }
+    
     // Find user by verification code
     const user = await FirebaseService.getUserByVerificationCode(verificationCode);
     
     if (!user) {
+      const locked = await SecurityService.registerFailure('verification_code', discordUser.id, 'verification_code_failed', req, {
+        discordId: discordUser.id,
+        email: discordUser.email,
+      });
+      if (locked) {
+        return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+      }
       return res.status(401).json({ error: 'Invalid or expired verification code' });
     }
     
+    await SecurityService.clearFailures('verification_code', discordUser.id);
+    
     // Update user with Discord info
     const updateData: Partial<import('../services/firebaseService').User> = {
       discordId: discordUser.id,
       discordEmail: discordUser.email,
       username: discordUser.username,
-      verificationCode: undefined, // Clear code after use (one-time use)
-      verificationCodeExpiresAt: undefined,
+      verificationCodeUsedAt: FirebaseService.timestampNow(),
     };
     
     if (discordUser.avatar) {
       updateData.avatar = discordUser.avatar;
     }
     
+    await FirebaseService.clearVerificationCode(user.id); // One-time use
     const updatedUser = await FirebaseService.updateUser(user.id, updateData);
     
     if (!updatedUser) {
       return res.status(500).json({ error: 'Failed to update user' });
     }
     
-    // Add user to Discord server
+    // Add them to the Discord server with the roles they're entitled to
     try {
-      await DiscordBotService.addMemberToServer(discordUser.id);
-          } catch (error) {
-            // Continue even if Discord server add fails
+      await DiscordRoleSyncService.syncMember(discordUser.id, { trigger: 'discord_link', accessToken: tokenData.access_token });
+    } catch (error) {
+      // Continue even if Discord server add fails
     }
     
+    // Accounts with two-factor get a challenge instead of tokens
+    const twoFactorChallenge = TwoFactorService.challengeFor(updatedUser);
+    if (twoFactorChallenge) {
+      return res.json(twoFactorChallenge);
+    }
+
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: updatedUser.id, email: updatedUser.email },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const { token, refreshToken } = await SessionService.createSession(updatedUser, req);
     
     res.json({
       token,
+      refreshToken,
       user: {
         id: updatedUser.id,
         email: updatedUser.email,
@@ -2603,6 +2802,36 @@ const resendCodeLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Replace the user's verification code with a new 7-day code and email it
+async function sendNewVerificationCode(user: User, email: string, options: EnqueueOptions = {}) {
+  const verificationCode = await FirebaseService.generateVerificationCode();
+  const codeExpiresAt = FirebaseService.timestampFromDate(
+    new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+  );
+
+  // Update user with new code (only its hash is stored)
+  await FirebaseService.clearVerificationCode(user.id);
+  await FirebaseService.updateUser(user.id, {
+    verificationCodeHash: FirebaseService.hashAuthCode(verificationCode),
+    verificationCodeExpiresAt: codeExpiresAt,
+  });
+
+  return EmailService.resendVerificationCodeEmail(email, user.username || 'there', verificationCode, { userId: user.id, ...options });
+}
+
+// Resending a welcome or verification email from the admin email log sends a fresh code
+const resendVerificationEmail: EmailResender = async (message, requestedBy) => {
+  const user = message.userId
+    ? await FirebaseService.getUserById(message.userId)
+    : await FirebaseService.getUserByEmail(message.to[0]);
+  if (!user) {
+    throw new Error('The member this email was sent to no longer exists');
+  }
+  return sendNewVerificationCode(user, message.to[0], { resendOf: message.id, requestedBy });
+};
+EmailQueueService.registerResender('welcome', resendVerificationEmail);
+EmailQueueService.registerResender('verification_code', resendVerificationEmail);
+
 router.post('/verification/resend', authenticateToken, resendCodeLimiter, async (req, res) => {
   try {
     const userId = req.user!.id;
@@ -2616,21 +2845,7 @@ router.post('/verification/resend', authenticateToken, resendCodeLimiter, async
       return res.status(400).json({ error: 'No email address found for this account' });
     }
     
-    // Generate new verification code
-    const verificationCode = await FirebaseService.generateVerificationCode();
-    const codeExpiresAt = FirebaseService.timestampFromDate(
-      new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-    );
-    
-    // Update user with new code
-    await FirebaseService.updateUser(userId, {
-      verificationCode,
-      verificationCodeExpiresAt: codeExpiresAt,
-    });
-    
-    // Send verification code email
-    const EmailService = require('../services/emailService').EmailService;
-    await EmailService.resendVerificationCodeEmail(user.email, user.username || 'there', verificationCode);
+    await sendNewVerificationCode(user, user.email);
     
     res.json({ 
       success: true,
@@ -1,10 +1,23 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { FirebaseService } from '../services/firebaseService';
+import { FirebaseService, DealActivitySource, DealImportRowResult } from '../services/firebaseService';
 import { GHLService } from '../services/ghlService';
-import { OneDriveService } from '../services/oneDriveService';
+import { getDocumentStorage, StoredFile } from '../services/documentStorage';
+import { DealFolderService } from '../services/dealFolderService';
 import { EmailService } from '../services/emailService';
+import { DealActivityService } from '../services/dealActivityService';
+import { StageMappingService } from '../services/stageMappingService';
+import { DocumentChecklistService } from '../services/documentChecklistService';
+import { NotificationService } from '../services/notificationService';
+import { DealImportService, DEAL_IMPORT_FIELDS } from '../services/dealImportService';
+import { DealExportService, DEAL_EXPORT_COLUMNS, DEAL_EXPORT_FORMATS, DealExportFormat } from '../services/dealExportService';
 import { Request, Response } from 'express';
+import { requirePermission } from '../middleware/auth';
+import { canAccessDeal, canDeleteDeal, hasPermission } from '../utils/permissions';
+import { parseDealQuery } from '../utils/dealQuery';
+import { calculateUnderwriting, readUnderwritingInputs, pickUnderwritingUpdates, parseUnderwritingNumber, UNDERWRITING_INPUT_FIELDS } from '../utils/underwriting';
+import multer from 'multer';
+import { Timestamp } from 'firebase-admin/firestore';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -269,54 +282,34 @@ const normalizeDealFormFields = (raw: any) => {
   return { normalized, meta: { firstName, lastName, discordUsername } };
 };
 
-// Stage mapping function to normalize GHL stage names to our system
-const mapGHLStageToSystemStage = (ghlStageName: string): string => {
-  if (!ghlStageName) return 'No Stage';
-  
-  const stageMap: Record<string, string> = {
-    // Common GHL stage name variations
-    'Initial Qualification': 'Qualification',
-    'Qualification': 'Qualification',
-    'Initial Qualification Stage': 'Qualification',
-    'Qualification Stage': 'Qualification',
-    
-    'Needs Analysis': 'Needs Analysis',
-    'Needs Analysis Stage': 'Needs Analysis',
-    'Analysis': 'Needs Analysis',
-    
-    'Lender Submission': 'Lender Submission',
-    'Lender Submission Stage': 'Lender Submission',
-    'Submission': 'Lender Submission',
-    
-    'Proposal': 'Proposal',
-    'Proposal Stage': 'Proposal',
-    'Proposal Sent': 'Proposal',
-    
-    'Signed Proposal': 'Signed Proposal',
-    'Signed Proposal Stage': 'Signed Proposal',
-    'Proposal Signed': 'Signed Proposal',
-    'Proposal Accepted': 'Signed Proposal',
-    
-    'Underwriting': 'Underwriting',
-    'Underwriting Stage': 'Underwriting',
-    'In Underwriting': 'Underwriting',
-    'Under Review': 'Underwriting'
-  };
-  
-  return stageMap[ghlStageName] || ghlStageName;
+// Resolve a GHL stage to our portal stage. The admin-configured mapping (keyed by stage ID) is
+// checked first; the stage name is only looked up in GHL when the stage has not been mapped yet.
+const resolveGHLStage = async (pipelineId: string, stageId: string): Promise<{ stage: string; ghlStageName: string | null; mapped: boolean }> => {
+  const mapped = await StageMappingService.resolvePortalStage({ pipelineId, stageId });
+  if (mapped.mapped) {
+    return { stage: mapped.stage, ghlStageName: null, mapped: true };
+  }
+
+  const ghlStageName = await GHLService.getStageNameById(pipelineId, stageId);
+  if (!ghlStageName) {
+    return { stage: stageId, ghlStageName: null, mapped: false };
+  }
+
+  const byName = await StageMappingService.resolvePortalStage({ pipelineId, stageName: ghlStageName });
+  return { stage: byName.stage, ghlStageName, mapped: byName.mapped };
 };
 
 // Function to map our system stage names to GHL stage IDs
 const mapSystemStageToGHLStageId = async (systemStage: string, pipelineId: string): Promise<string | null> => {
   try {
+    const mappedStageId = await StageMappingService.getGHLStageId(pipelineId, systemStage);
+    if (mappedStageId) {
+      return mappedStageId;
+    }
+
+    // Fall back to matching by name for pipelines that have not been mapped yet
     const stages = await GHLService.getPipelineStages(pipelineId);
-    
-    // Try to find a stage that matches our system stage name
-    const matchingStage = stages.find((stage: any) => {
-      const stageName = stage.name || '';
-      return stageName.toLowerCase().includes(systemStage.toLowerCase()) ||
-             systemStage.toLowerCase().includes(stageName.toLowerCase());
-    });
+    const matchingStage = stages.find((stage: any) => (stage.name || '').toLowerCase() === systemStage.toLowerCase());
     
     if (matchingStage) {
       return matchingStage.id;
@@ -338,7 +331,7 @@ const generateDealId = (): string => {
 };
 
 // Test endpoint to check all deals in Firebase
-router.get('/debug/all-deals', async (req: Request, res: Response) => {
+router.get('/debug/all-deals', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
   try {
     
     const allDeals = await FirebaseService.getAllDeals();
@@ -362,26 +355,352 @@ router.get('/debug/all-deals', async (req: Request, res: Response) => {
   }
 });
 
-// Get user's deals
-router.get('/', async (req: Request, res: Response) => {
+// Get user's deals (?scope=all returns every deal for roles that can read all deals).
+// Passing limit or cursor returns one page: { deals, nextCursor, hasMore }; otherwise an array of every match.
+router.get('/', requirePermission('deals:read:own', 'deals:read:all'), async (req: Request, res: Response) => {
   try {
+    const { options, error } = parseDealQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    if (req.query.scope === 'all') {
+      if (!hasPermission(req.user, 'deals:read:all')) {
+        return res.status(403).json({ error: 'Insufficient permissions', requiredPermissions: ['deals:read:all'] });
+      }
+    } else {
+      options.userId = req.user!.id;
+    }
+
+    const page = await FirebaseService.queryDeals(options);
     
-    // Debug: Check all deals in Firebase
-    const allDeals = await FirebaseService.getAllDeals();
-    
-    // Debug: Check if any deals have the current user's ID
-    const userDeals = allDeals.filter(deal => deal.userId === req.user!.id);
-    
-    const deals = await FirebaseService.getDealsByUserId(req.user!.id);
-    
-    res.json(deals);
+    res.json(options.limit ? page : page.deals);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch deals' });
   }
 });
 
+// Columns available to deal exports
+router.get('/export/columns', requirePermission('deals:read:own', 'deals:read:all'), (req: Request, res: Response) => {
+  res.json({ columns: DEAL_EXPORT_COLUMNS, formats: DEAL_EXPORT_FORMATS });
+});
+
+// Export deals as CSV or XLSX. Takes the same filters and scope as GET / (pagination is ignored)
+// plus format=csv|xlsx and columns=<comma-separated column keys>.
+router.get('/export', requirePermission('deals:read:own', 'deals:read:all'), async (req: Request, res: Response) => {
+  try {
+    const format = (req.query.format || 'csv') as DealExportFormat;
+    if (!DEAL_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${DEAL_EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const { limit, cursor, ...filters } = req.query;
+    const { options, error } = parseDealQuery(filters);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    if (req.query.scope === 'all') {
+      if (!hasPermission(req.user, 'deals:read:all')) {
+        return res.status(403).json({ error: 'Insufficient permissions', requiredPermissions: ['deals:read:all'] });
+      }
+    } else {
+      options.userId = req.user!.id;
+    }
+
+    const { deals } = await FirebaseService.queryDeals(options);
+    const columns = DealExportService.resolveColumns(typeof req.query.columns === 'string' ? req.query.columns : undefined);
+    const fileName = `deals-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(await DealExportService.buildXlsx(deals, columns));
+    } else {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(DealExportService.buildCsv(deals, columns));
+    }
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to export deals' });
+  }
+});
+
+// Get the stage columns for the deal board
+router.get('/stages', async (req: Request, res: Response) => {
+  try {
+    const stages = await StageMappingService.getBoardStages();
+    res.json(stages);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch deal stages' });
+  }
+});
+
+// Underwriting inputs are optional on create and update; blanks clear them
+const underwritingValidators = UNDERWRITING_INPUT_FIELDS.map(field =>
+  body(field)
+    .optional({ values: 'falsy' })
+    .custom(value => parseUnderwritingNumber(value) !== undefined)
+    .withMessage(`${field} must be a number`)
+);
+
+interface DealCreationContext {
+  userId: string;
+  username: string;
+  source: DealActivitySource;
+  sendNotification?: boolean; // Spreadsheet imports skip the per-deal new deal email
+}
+
+// Create a deal from create-form fields: Firestore record, activity entry, OneDrive folder,
+// GHL contact and opportunity, and the new deal email. POST / and spreadsheet imports both use it.
+const createDealFromForm = async (formData: any, context: DealCreationContext): Promise<{ deal: any; ghlSynced: boolean }> => {
+  // Normalize minimal form fields
+  const { normalized, meta } = normalizeDealFormFields(formData);
+
+  const dealId = generateDealId();
+  let ghlSynced = false;
+
+  // Create deal in Firebase
+  const dealData = {
+    dealId,
+    propertyName: normalized.applicationPropertyAddress || 'Unknown Property',
+    propertyAddress: normalized.applicationPropertyAddress || '',
+    loanAmount: undefined,
+    purchasePrice: undefined,
+    propertyType: normalized.applicationPropertyType || '',
+    stage: 'Qualification',
+    status: 'Open',
+    notes: normalized.applicationAdditionalInformation || '',
+    userId: context.userId,
+    contactName: normalized.contactName,
+    contactEmail: normalized.contactEmail,
+    contactPhone: normalized.contactPhone,
+    opportunitySource: normalized.source,
+    // Add all form fields to Firebase
+    dealType: normalized.dealType,
+    propertyVintage: normalized.propertyVintage,
+    investmentType: normalized.investmentType,
+    sponsorNetWorth: normalized.sponsorNetWorth,
+    sponsorLiquidity: normalized.sponsorLiquidity,
+    loanRequest: normalized.loanRequest,
+    additionalInformation: normalized.additionalInformation
+  } as any;
+
+  Object.entries(pickUnderwritingUpdates(formData)).forEach(([field, value]) => {
+    if (value !== null) dealData[field] = value;
+  });
+  
+  const deal = await FirebaseService.createDeal(dealData);
+
+  await DealActivityService.record(deal.id, 'created', {
+    source: context.source,
+    actorId: context.userId,
+    actorName: context.username
+  });
+
+  // Create the deal's document folders from the folder template (only if storage is configured)
+  try {
+    const storage = getDocumentStorage();
+    if (await storage.isConfigured()) {
+      await DealFolderService.createDealFolder(deal, storage);
+    }
+  } catch (error) {
+    // Don't fail the deal creation if document storage fails
+  }
+
+  // Sync with GHL if configured
+  try {
+    const ghlPipelineId = await FirebaseService.getConfiguration('ghl_pipeline_id');
+    const ghlStageId = await FirebaseService.getConfiguration('ghl_under_review_stage_id'); // This should be the "Qualification" stage
+    const ghlLocationId = await FirebaseService.getConfiguration('ghl_location_id'); // Add locationId
+    const skipGHL = await FirebaseService.getConfiguration('skip_ghl_sync'); // Add option to skip GHL
+    
+    
+    if (skipGHL === 'true') {
+    } else if (ghlPipelineId && ghlPipelineId.trim() !== '' && ghlStageId && ghlStageId.trim() !== '' && ghlLocationId && ghlLocationId.trim() !== '') {
+      
+      // Validate GHL token first
+      const isTokenValid = await GHLService.validateToken();
+      if (!isTokenValid) {
+        throw new Error('GHL token is invalid or has insufficient permissions');
+      }
+      
+      // First, try to find existing contact, then create if not found
+      let ghlContact;
+      // Hoist contact name parts so they're available for all branches (including fallbacks)
+      const contactNameForCreate = normalized.contactName || 'Unknown Contact';
+      const contactNameParts = contactNameForCreate.split(' ');
+      const firstName = contactNameParts[0] || 'Unknown';
+      const lastName = contactNameParts.slice(1).join(' ') || 'Contact';
+      
+      try {
+                  // Try to find existing contact first
+        const existingContact = await GHLService.findExistingContact(normalized.contactEmail, normalized.contactPhone);
+        
+        if (existingContact) {
+                      ghlContact = existingContact;
+        } else {
+                      // Create new contact if none exists
+        
+        // Load GHL field mapping and build contact custom fields from normalized
+        const fieldMappingForCreate = await loadGHLFieldMapping();
+        const { contactCustomFields: contactFieldsForCreate } = separateFieldsByModel(normalized, fieldMappingForCreate as any);
+        
+        const contactCustomFieldsArrayForCreate = Object.entries(contactFieldsForCreate).map(([fieldId, value]) => {
+          const fieldInfo = fieldMappingForCreate[fieldId];
+          return { id: fieldId, key: fieldInfo?.fieldKey || fieldInfo?.name || fieldId, field_value: value };
+        });
+
+        ghlContact = await GHLService.createContact({
+          firstName,
+          lastName,
+          email: normalized.contactEmail,
+          phone: normalized.contactPhone,
+          locationId: ghlLocationId, // Add locationId as required by GHL
+          companyName: '',
+          customFields: contactCustomFieldsArrayForCreate
+        });
+        }
+      } catch (contactError) {
+        
+        // Fallback: Try to create opportunity with minimal contact
+        try {
+          const ghlDeal = await GHLService.createDeal({
+            name: normalized.applicationPropertyAddress || dealId,
+            pipelineId: ghlPipelineId,
+            stageId: ghlStageId,
+            locationId: ghlLocationId,
+            source: normalized.source, // Add Discord username as source
+            // Provide contact data for minimal contact creation
+            contactData: {
+              firstName,
+              lastName,
+              email: normalized.contactEmail,
+              phone: normalized.contactPhone
+            },
+            customFields: []
+          });
+          
+          
+          // Update deal with GHL info
+          await FirebaseService.updateDeal(deal.id, {
+            ghlOpportunityId: ghlDeal.id,
+            ghlPipelineId: ghlDeal.pipelineId,
+            ghlStageId: ghlDeal.stageId
+          } as any);
+          ghlSynced = true;
+          return { deal, ghlSynced }; // Exit early since we handled it
+        } catch (fallbackError) {
+                      throw contactError; // Throw original error
+        }
+      }
+
+      // Check if we have a valid contact
+      if (!ghlContact || !ghlContact.id) {
+        throw new Error('No valid GHL contact available');
+      }
+
+      // Always create a NEW opportunity for a NEW deal (skip existing opportunity lookup)
+      let ghlDeal;
+      try {
+        const fieldMappingForOpp = await loadGHLFieldMapping();
+        const { opportunityCustomFields: oppFieldsForCreate } = separateFieldsByModel(normalized, fieldMappingForOpp as any);
+        // Build and deduplicate custom fields by id (keep last non-empty value)
+        const rawOppCustomFieldsForCreate = Object.entries(oppFieldsForCreate).map(([fieldId, value]) => {
+          const fieldInfo = fieldMappingForOpp[fieldId];
+          return { id: fieldId, key: fieldInfo?.fieldKey || fieldInfo?.name || fieldId, field_value: value };
+        });
+        const dedupMap: Record<string, { id: string; key: string; field_value: any }> = rawOppCustomFieldsForCreate.reduce((acc: Record<string, { id: string; key: string; field_value: any }>, f: { id: string; key: string; field_value: any }) => {
+          const isEmpty = f.field_value === undefined || f.field_value === null || f.field_value === '';
+          if (!isEmpty) {
+            acc[f.id] = f; // last write wins per id
+          }
+          return acc;
+        }, {} as Record<string, { id: string; key: string; field_value: any }>);
+        const oppCustomFieldsArrayForCreate: { id: string; key: string; field_value: any }[] = Object.values(dedupMap);
+
+                                      ghlDeal = await GHLService.createDeal({
+          name: normalized.applicationPropertyAddress || dealId,
+          pipelineId: ghlPipelineId,
+          stageId: ghlStageId,
+          locationId: ghlLocationId,
+          contactId: ghlContact.id,
+          source: normalized.source,
+          customFields: oppCustomFieldsArrayForCreate
+        });
+
+                  // Safety: if platform ignores custom fields on create, try an immediate update with the same shape
+        if (ghlDeal && ghlDeal.id) {
+          try {
+                          await GHLService.updateDeal(ghlDeal.id, {
+              customFields: oppCustomFieldsArrayForCreate
+            });
+          } catch {}
+        }
+      } catch (opportunityError) {
+                  ghlDeal = null; // Set to null so we don't try to access its properties
+      }
+
+      // Update deal with GHL info
+      const dealUpdateData: any = {
+        ghlContactId: ghlContact.id // Always save the contact ID
+      };
+      
+      if (ghlDeal && ghlDeal.id) {
+        ghlSynced = true;
+        dealUpdateData.ghlOpportunityId = ghlDeal.id;
+        dealUpdateData.ghlPipelineId = ghlDeal.pipelineId;
+        if (ghlDeal.stageId) {
+          dealUpdateData.ghlStageId = ghlDeal.stageId;
+        }
+        
+                          } else {
+                }
+      
+              await FirebaseService.updateDeal(deal.id, dealUpdateData as any);
+            } else {
+    }
+  } catch (error) {
+    // Don't fail the deal creation if GHL sync fails
+              }
+
+  // Send email notification for new deal
+  if (context.sendNotification !== false) try {
+    // Ensure email service initialized (handles serverless cold starts)
+    try {
+      const ready = await EmailService.testEmailConnection();
+      if (!ready) {
+        const storedConfig = await FirebaseService.getEmailConfig();
+        if (storedConfig && storedConfig.enabled) {
+          await EmailService.initialize(storedConfig);
+        }
+      }
+    } catch {}
+
+    // Get user info for the notification
+    const user = await FirebaseService.getUserById(context.userId);
+    let createdBy = undefined;
+    
+    if (user) {
+      // Try to get the username first
+      if (user.username && user.username.trim()) {
+        createdBy = user.username.trim();
+      } else if (user.email) {
+        // Fallback: use email but extract username part
+        const emailUsername = user.email.split('@')[0];
+        createdBy = emailUsername.charAt(0).toUpperCase() + emailUsername.slice(1);
+      }
+    }
+
+    await EmailService.sendDealNotificationEmail(deal, createdBy);
+  } catch (emailError) {
+    // Don't fail the deal creation if email fails
+        }
+
+  return { deal, ghlSynced };
+};
+
 // Create new deal
-router.post('/', [
+router.post('/', requirePermission('deals:write:own'), [
   body('clientFirstName').notEmpty().withMessage('Client First Name is required'),
   body('clientLastName').notEmpty().withMessage('Client Last Name is required'),
   body('clientPhone').notEmpty().withMessage('Client Phone is required'),
@@ -395,6 +714,7 @@ router.post('/', [
   body('sponsorLiquidity').optional(),
   body('loanRequest').optional(),
   body('anyAdditionalInformation').optional(),
+  ...underwritingValidators,
 ], async (req: Request, res: Response) => {
   try {
 
@@ -403,241 +723,211 @@ router.post('/', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    // Normalize minimal form fields
-    const { normalized, meta } = normalizeDealFormFields(req.body);
+    const { deal } = await createDealFromForm(req.body, {
+      userId: req.user!.id,
+      username: req.user!.username,
+      source: 'portal'
+    });
 
-    const dealId = generateDealId();
+    res.status(201).json(deal);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create deal' });
+  }
+});
 
-    // Create deal in Firebase
-    const dealData = {
-      dealId,
-      propertyName: normalized.applicationPropertyAddress || 'Unknown Property',
-      propertyAddress: normalized.applicationPropertyAddress || '',
-      loanAmount: undefined,
-      purchasePrice: undefined,
-      propertyType: normalized.applicationPropertyType || '',
-      stage: 'Qualification',
-      status: 'Open',
-      notes: normalized.applicationAdditionalInformation || '',
-      userId: req.user!.id,
-      contactName: normalized.contactName,
-      contactEmail: normalized.contactEmail,
-      contactPhone: normalized.contactPhone,
-      opportunitySource: normalized.source,
-      // Add all form fields to Firebase
-      dealType: normalized.dealType,
-      propertyVintage: normalized.propertyVintage,
-      investmentType: normalized.investmentType,
-      sponsorNetWorth: normalized.sponsorNetWorth,
-      sponsorLiquidity: normalized.sponsorLiquidity,
-      loanRequest: normalized.loanRequest,
-      additionalInformation: normalized.additionalInformation
-    } as any;
-    
-    const deal = await FirebaseService.createDeal(dealData);
+// Compute underwriting metrics from unsaved form values (live preview in the deal forms)
+router.post('/underwriting', requirePermission('deals:write:own', 'deals:write:all'), (req: Request, res: Response) => {
+  const inputs = readUnderwritingInputs(req.body || {});
+  res.json({ inputs, result: calculateUnderwriting(inputs) });
+});
 
-    // Create folder in OneDrive (only if configured)
-    try {
-      const oneDriveToken = await FirebaseService.getLatestOneDriveToken();
-      if (oneDriveToken) {
-        // Use Firebase document ID (deal.id) instead of custom dealId for consistency
-        await OneDriveService.createDealFolder(deal.id, normalized.applicationPropertyAddress);
-      } else {
+// Spreadsheet uploads for bulk deal import
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req: Request, file: any, cb: any) => {
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only CSV and XLSX files are allowed.'));
+    }
+  }
+});
+
+// Run multer and answer upload errors (size, type) with a 400 instead of the generic error handler
+const handleImportUpload = (req: Request, res: Response, next: express.NextFunction) => {
+  importUpload.single('file')(req, res, (error: any) => {
+    if (error) {
+      return res.status(400).json({ error: error.message || 'Invalid upload' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    next();
+  });
+};
+
+// Create the valid rows of an import one at a time, recording each outcome on the import record
+const processDealImport = async (importId: string, rows: DealImportRowResult[], actor: { id: string; username: string }) => {
+  let createdCount = 0;
+  let failedCount = 0;
+
+  try {
+    for (const row of rows) {
+      if (row.status !== 'valid') continue;
+      try {
+        const { deal, ghlSynced } = await createDealFromForm(row.values, {
+          userId: actor.id,
+          username: actor.username,
+          source: 'spreadsheet_import',
+          sendNotification: false
+        });
+        row.status = 'created';
+        row.dealId = deal.id;
+        row.dealNumber = deal.dealId;
+        row.ghlSynced = ghlSynced;
+        createdCount++;
+      } catch (error: any) {
+        row.status = 'failed';
+        row.errors.push(error.message || 'Failed to create deal');
+        failedCount++;
       }
-    } catch (error) {
-      // Don't fail the deal creation if OneDrive fails
+
+      await FirebaseService.updateDealImport(importId, { rows, createdCount, failedCount });
+    }
+
+    await FirebaseService.updateDealImport(importId, {
+      rows,
+      createdCount,
+      failedCount,
+      status: 'completed',
+      completedAt: Timestamp.now()
+    });
+  } catch (error: any) {
+    await FirebaseService.updateDealImport(importId, {
+      status: 'failed',
+      error: error.message || 'Import failed',
+      completedAt: Timestamp.now()
+    }).catch(() => undefined);
+  }
+};
+
+const parseImportMapping = (value: any): Record<string, string> | null => {
+  try {
+    const mapping = typeof value === 'string' ? JSON.parse(value) : value;
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) return null;
+    return Object.fromEntries(Object.entries(mapping).map(([column, field]) => [column, typeof field === 'string' ? field : '']));
+  } catch (error) {
+    return null;
+  }
+};
+
+// Read an import spreadsheet and suggest how its columns map to deal fields
+router.post('/import/preview', requirePermission('deals:write:own'), handleImportUpload, async (req: Request, res: Response) => {
+  try {
+    const spreadsheet = await DealImportService.parseFile(req.file!.buffer, req.file!.originalname);
+
+    res.json({
+      fileName: req.file!.originalname,
+      columns: spreadsheet.columns,
+      sampleRows: spreadsheet.rows.slice(0, 5),
+      rowCount: spreadsheet.rows.length,
+      suggestedMapping: DealImportService.suggestMapping(spreadsheet.columns),
+      fields: DEAL_IMPORT_FIELDS
+    });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to read spreadsheet' });
+  }
+});
+
+// Validate an import spreadsheet (dryRun=true) or start creating its valid rows as deals
+router.post('/import', requirePermission('deals:write:own'), handleImportUpload, async (req: Request, res: Response) => {
+  try {
+    const mapping = parseImportMapping(req.body.mapping);
+    if (!mapping) {
+      return res.status(400).json({ error: 'mapping must be a JSON object of column name to field' });
     }
 
-    // Sync with GHL if configured
+    let spreadsheet;
     try {
-      const ghlPipelineId = await FirebaseService.getConfiguration('ghl_pipeline_id');
-      const ghlStageId = await FirebaseService.getConfiguration('ghl_under_review_stage_id'); // This should be the "Qualification" stage
-      const ghlLocationId = await FirebaseService.getConfiguration('ghl_location_id'); // Add locationId
-      const skipGHL = await FirebaseService.getConfiguration('skip_ghl_sync'); // Add option to skip GHL
-      
-      
-      if (skipGHL === 'true') {
-      } else if (ghlPipelineId && ghlPipelineId.trim() !== '' && ghlStageId && ghlStageId.trim() !== '' && ghlLocationId && ghlLocationId.trim() !== '') {
-        
-        // Validate GHL token first
-        const isTokenValid = await GHLService.validateToken();
-        if (!isTokenValid) {
-          throw new Error('GHL token is invalid or has insufficient permissions');
-        }
-        
-        // First, try to find existing contact, then create if not found
-        let ghlContact;
-        // Hoist contact name parts so they're available for all branches (including fallbacks)
-        const contactNameForCreate = normalized.contactName || 'Unknown Contact';
-        const contactNameParts = contactNameForCreate.split(' ');
-        const firstName = contactNameParts[0] || 'Unknown';
-        const lastName = contactNameParts.slice(1).join(' ') || 'Contact';
-        
-        try {
-                    // Try to find existing contact first
-          const existingContact = await GHLService.findExistingContact(normalized.contactEmail, normalized.contactPhone);
-          
-          if (existingContact) {
-                        ghlContact = existingContact;
-          } else {
-                        // Create new contact if none exists
-          
-          // Load GHL field mapping and build contact custom fields from normalized
-          const fieldMappingForCreate = await loadGHLFieldMapping();
-          const { contactCustomFields: contactFieldsForCreate } = separateFieldsByModel(normalized, fieldMappingForCreate as any);
-          
-          const contactCustomFieldsArrayForCreate = Object.entries(contactFieldsForCreate).map(([fieldId, value]) => {
-            const fieldInfo = fieldMappingForCreate[fieldId];
-            return { id: fieldId, key: fieldInfo?.fieldKey || fieldInfo?.name || fieldId, field_value: value };
-          });
+      spreadsheet = await DealImportService.parseFile(req.file!.buffer, req.file!.originalname);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || 'Failed to read spreadsheet' });
+    }
 
-          ghlContact = await GHLService.createContact({
-            firstName,
-            lastName,
-            email: normalized.contactEmail,
-            phone: normalized.contactPhone,
-            locationId: ghlLocationId, // Add locationId as required by GHL
-            companyName: '',
-            customFields: contactCustomFieldsArrayForCreate
-          });
-          }
-        } catch (contactError) {
-          
-          // Fallback: Try to create opportunity with minimal contact
-          try {
-            const ghlDeal = await GHLService.createDeal({
-              name: normalized.applicationPropertyAddress || dealId,
-              pipelineId: ghlPipelineId,
-              stageId: ghlStageId,
-              locationId: ghlLocationId,
-              source: normalized.source, // Add Discord username as source
-              // Provide contact data for minimal contact creation
-              contactData: {
-                firstName,
-                lastName,
-                email: normalized.contactEmail,
-                phone: normalized.contactPhone
-              },
-              customFields: []
-            });
-            
-            
-            // Update deal with GHL info
-            await FirebaseService.updateDeal(deal.id, {
-              ghlOpportunityId: ghlDeal.id,
-              ghlPipelineId: ghlDeal.pipelineId,
-              ghlStageId: ghlDeal.stageId
-            } as any);
-            return; // Exit early since we handled it
-          } catch (fallbackError) {
-                        throw contactError; // Throw original error
-          }
-        }
+    const mappingErrors = DealImportService.validateMapping(mapping, spreadsheet.columns);
+    if (mappingErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid column mapping', mappingErrors });
+    }
 
-        // Check if we have a valid contact
-        if (!ghlContact || !ghlContact.id) {
-          throw new Error('No valid GHL contact available');
-        }
+    const rows = DealImportService.validateRows(spreadsheet, mapping);
+    const validCount = rows.filter(row => row.status === 'valid').length;
 
-        // Always create a NEW opportunity for a NEW deal (skip existing opportunity lookup)
-        let ghlDeal;
-        try {
-          const fieldMappingForOpp = await loadGHLFieldMapping();
-          const { opportunityCustomFields: oppFieldsForCreate } = separateFieldsByModel(normalized, fieldMappingForOpp as any);
-          // Build and deduplicate custom fields by id (keep last non-empty value)
-          const rawOppCustomFieldsForCreate = Object.entries(oppFieldsForCreate).map(([fieldId, value]) => {
-            const fieldInfo = fieldMappingForOpp[fieldId];
-            return { id: fieldId, key: fieldInfo?.fieldKey || fieldInfo?.name || fieldId, field_value: value };
-          });
-          const dedupMap: Record<string, { id: string; key: string; field_value: any }> = rawOppCustomFieldsForCreate.reduce((acc: Record<string, { id: string; key: string; field_value: any }>, f: { id: string; key: string; field_value: any }) => {
-            const isEmpty = f.field_value === undefined || f.field_value === null || f.field_value === '';
-            if (!isEmpty) {
-              acc[f.id] = f; // last write wins per id
-            }
-            return acc;
-          }, {} as Record<string, { id: string; key: string; field_value: any }>);
-          const oppCustomFieldsArrayForCreate: { id: string; key: string; field_value: any }[] = Object.values(dedupMap);
+    if (req.body.dryRun === true || req.body.dryRun === 'true') {
+      return res.json({
+        dryRun: true,
+        totalRows: rows.length,
+        validCount,
+        invalidCount: rows.length - validCount,
+        rows
+      });
+    }
 
-                                        ghlDeal = await GHLService.createDeal({
-            name: normalized.applicationPropertyAddress || dealId,
-            pipelineId: ghlPipelineId,
-            stageId: ghlStageId,
-            locationId: ghlLocationId,
-            contactId: ghlContact.id,
-            source: normalized.source,
-            customFields: oppCustomFieldsArrayForCreate
-          });
+    if (validCount === 0) {
+      return res.status(400).json({ error: 'No valid rows to import' });
+    }
 
-                    // Safety: if platform ignores custom fields on create, try an immediate update with the same shape
-          if (ghlDeal && ghlDeal.id) {
-            try {
-                            await GHLService.updateDeal(ghlDeal.id, {
-                customFields: oppCustomFieldsArrayForCreate
-              });
-            } catch {}
-          }
-        } catch (opportunityError) {
-                    ghlDeal = null; // Set to null so we don't try to access its properties
-        }
+    const dealImport = await FirebaseService.createDealImport({
+      userId: req.user!.id,
+      fileName: req.file!.originalname,
+      mapping,
+      status: 'running',
+      totalRows: rows.length,
+      createdCount: 0,
+      failedCount: 0,
+      skippedCount: rows.length - validCount,
+      rows
+    });
 
-        // Update deal with GHL info
-        const dealUpdateData: any = {
-          ghlContactId: ghlContact.id // Always save the contact ID
-        };
-        
-        if (ghlDeal && ghlDeal.id) {
-          dealUpdateData.ghlOpportunityId = ghlDeal.id;
-          dealUpdateData.ghlPipelineId = ghlDeal.pipelineId;
-          if (ghlDeal.stageId) {
-            dealUpdateData.ghlStageId = ghlDeal.stageId;
-          }
-          
-                            } else {
-                  }
-        
-                await FirebaseService.updateDeal(deal.id, dealUpdateData as any);
-              } else {
-      }
-    } catch (error) {
-      // Don't fail the deal creation if GHL sync fails
-                }
+    // Deals are created in the background (GHL sync makes each one slow); the client polls the import
+    processDealImport(dealImport.id, rows, { id: req.user!.id, username: req.user!.username });
 
-    // Send email notification for new deal
-    try {
-      // Ensure email service initialized (handles serverless cold starts)
-      try {
-        const ready = await EmailService.testEmailConnection();
-        if (!ready) {
-          const storedConfig = await FirebaseService.getEmailConfig();
-          if (storedConfig && storedConfig.enabled) {
-            await EmailService.initialize(storedConfig);
-          }
-        }
-      } catch {}
+    res.status(202).json(dealImport);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to import deals' });
+  }
+});
 
-      // Get user info for the notification
-      const user = await FirebaseService.getUserById(req.user!.id);
-      let createdBy = undefined;
-      
-      if (user) {
-        // Try to get the username first
-        if (user.username && user.username.trim()) {
-          createdBy = user.username.trim();
-        } else if (user.email) {
-          // Fallback: use email but extract username part
-          const emailUsername = user.email.split('@')[0];
-          createdBy = emailUsername.charAt(0).toUpperCase() + emailUsername.slice(1);
-        }
-      }
+// Get import progress and per-row results
+router.get('/imports/:id', async (req: Request, res: Response) => {
+  try {
+    const dealImport = await FirebaseService.getDealImport(req.params.id);
+    if (!dealImport || (dealImport.userId !== req.user!.id && !hasPermission(req.user, 'deals:read:all'))) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
 
-      await EmailService.sendDealNotificationEmail(deal, createdBy);
-    } catch (emailError) {
-      // Don't fail the deal creation if email fails
-          }
+    res.json(dealImport);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch import' });
+  }
+});
 
-    res.status(201).json(deal);
+// Download the import result report as CSV
+router.get('/imports/:id/report', async (req: Request, res: Response) => {
+  try {
+    const dealImport = await FirebaseService.getDealImport(req.params.id);
+    if (!dealImport || (dealImport.userId !== req.user!.id && !hasPermission(req.user, 'deals:read:all'))) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    const baseName = dealImport.fileName.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}-import-report.csv"`);
+    res.send(DealImportService.buildReportCsv(dealImport));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create deal' });
+    res.status(500).json({ error: 'Failed to generate import report' });
   }
 });
 
@@ -657,6 +947,7 @@ router.put('/:id', [
   body('loanRequest').optional(),
   body('anyAdditionalInformation').optional(),
   body('status').optional(),
+  ...underwritingValidators,
 ], async (req: Request, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -690,54 +981,21 @@ router.put('/:id', [
       updates.status = req.body.status;
     }
 
+    Object.assign(updates, pickUnderwritingUpdates(req.body));
+
     // Verify deal belongs to user or user is admin
     const deal = await FirebaseService.getDealById(id);
-    if (!deal || (deal.userId !== req.user!.id && !req.user!.isAdmin)) {
+    if (!deal || (!canAccessDeal(req.user, deal, 'write'))) {
       return res.status(404).json({ error: 'Deal not found' });
     }
 
-    // Track actual changes by comparing with original deal
-    const actualChanges: string[] = [];
-    Object.keys(updates).forEach(key => {
-      if (updates[key] !== undefined && updates[key] !== deal[key as keyof typeof deal]) {
-        // Map internal field names to user-friendly names
-        const fieldDisplayNames: { [key: string]: string } = {
-          'contactName': 'Contact Name',
-          'contactEmail': 'Contact Email', 
-          'contactPhone': 'Contact Phone',
-          'opportunitySource': 'Source',
-          'propertyAddress': 'Property Address',
-          'propertyType': 'Property Type',
-          'notes': 'Notes',
-          'dealType': 'Deal Type',
-          'propertyVintage': 'Property Vintage',
-          'investmentType': 'Investment Type',
-          'sponsorNetWorth': 'Sponsor Net Worth',
-          'sponsorLiquidity': 'Sponsor Liquidity',
-          'loanRequest': 'Loan Request',
-          'additionalInformation': 'Additional Information',
-          'status': 'Status',
-          'stage': 'Stage'
-        };
-        
-        const displayName = fieldDisplayNames[key] || key;
-        actualChanges.push(displayName);
-      }
+    // Update deal in Firebase and record which fields actually changed
+    const { deal: updatedDeal, changes } = await DealActivityService.updateDeal(deal, updates, {
+      source: 'portal',
+      actorId: req.user!.id,
+      actorName: req.user!.username
     });
-
-    // Add audit log for the update
-    const auditLog = {
-      timestamp: new Date().toISOString(),
-      action: 'UPDATE',
-      userId: req.user!.id,
-      changes: actualChanges
-    };
-    
-    // Add audit log to updates
-    updates.auditLogs = JSON.stringify(auditLog);
-
-    // Update deal in Firebase
-    const updatedDeal = await FirebaseService.updateDeal(id, updates);
+    const actualChanges = changes.map(change => change.label);
 
     // Send email notification for deal update (only if there are actual changes)
     if (actualChanges.length > 0) {
@@ -770,7 +1028,8 @@ router.put('/:id', [
         
         // Send deal update notification with only actual changes
         if (updatedDeal) {
-          await EmailService.sendDealUpdateNotificationEmail(updatedDeal, actualChanges, updatedBy);
+          const missingDocuments = await DocumentChecklistService.getMissingItemLabels({ ...updatedDeal, id: deal.id });
+          await EmailService.sendDealUpdateNotificationEmail(updatedDeal, actualChanges, updatedBy, missingDocuments);
         }
       } catch (emailError) {
         // Don't fail the deal update if email fails
@@ -948,9 +1207,8 @@ router.post('/webhook/ghl-opportunity-update', async (req: Request, res: Respons
       return res.status(400).json({ error: 'Invalid opportunity data' });
     }
     
-    // Find the deal by GHL opportunity ID
-    const deals = await FirebaseService.getAllDeals();
-    const deal = deals.find(d => d.ghlOpportunityId === opportunity.id);
+    // Find the deal by GHL opportunity ID (indexed lookup)
+    const [deal] = await FirebaseService.getDealsByField('ghlOpportunityId', opportunity.id, 1);
     
     if (!deal) {
             return res.status(404).json({ error: 'Deal not found' });
@@ -964,28 +1222,19 @@ router.post('/webhook/ghl-opportunity-update', async (req: Request, res: Respons
     if (opportunity.status) updates.status = opportunity.status;
     if (opportunity.pipelineId) updates.pipeline = opportunity.pipelineId;
     
-    // Handle stage changes - fetch stage name from GHL if stage ID is provided
+    // Handle stage changes - resolve the stage ID through the configured stage mapping
     if (opportunity.pipelineStageId && opportunity.pipelineId) {
       try {
-                        // Check if stage actually changed
         const currentStage = deal.stage;
-        const stageName = await GHLService.getStageNameById(opportunity.pipelineId, opportunity.pipelineStageId);
+        const resolved = await resolveGHLStage(opportunity.pipelineId, opportunity.pipelineStageId);
         
-        if (stageName) {
-          const normalizedStage = mapGHLStageToSystemStage(stageName);
-          
-          // Only update if stage actually changed
-          if (currentStage !== normalizedStage) {
-            updates.stage = normalizedStage;
-            updates.stageLastUpdated = new Date().toISOString();
-                                  } else {
-                      }
-        } else {
-                    // Fallback to using the stage ID as is
-          updates.stage = opportunity.pipelineStageId;
+        // Only update if stage actually changed
+        if (currentStage !== resolved.stage) {
+          updates.stage = resolved.stage;
+          updates.stageLastUpdated = new Date().toISOString();
         }
       } catch (error) {
-                // Fallback to using the stage ID as is
+        // Fallback to using the stage ID as is
         updates.stage = opportunity.pipelineStageId;
       }
     }
@@ -1067,9 +1316,8 @@ router.post('/webhook/ghl-opportunity-update', async (req: Request, res: Respons
     
     // Update the deal in Firebase
     if (Object.keys(updates).length > 0) {
-      await FirebaseService.updateDeal(deal.id, updates);
-          } else {
-          }
+      await DealActivityService.updateDeal(deal, updates, { source: 'ghl_webhook' });
+    }
     
     res.json({ success: true, message: 'Deal updated successfully' });
   } catch (error) {
@@ -1093,9 +1341,8 @@ router.post('/webhook/ghl-contact-update', async (req: Request, res: Response) =
             return res.status(400).json({ error: 'Invalid contact data' });
     }
     
-    // Find deals associated with this contact
-    const deals = await FirebaseService.getAllDeals();
-    const relatedDeals = deals.filter(d => d.ghlContactId === contact.id);
+    // Find deals associated with this contact (indexed lookup)
+    const relatedDeals = await FirebaseService.getDealsByField('ghlContactId', contact.id, 100);
     
     if (relatedDeals.length === 0) {
             return res.status(404).json({ error: 'No related deals found' });
@@ -1135,9 +1382,9 @@ router.post('/webhook/ghl-contact-update', async (req: Request, res: Response) =
     if (Object.keys(updates).length > 0) {
       for (const deal of relatedDeals) {
         try {
-          await FirebaseService.updateDeal(deal.id, updates);
-                  } catch (error) {
-                  }
+          await DealActivityService.updateDeal(deal, updates, { source: 'ghl_webhook' });
+        } catch (error) {
+        }
       }
       
           } else {
@@ -1163,7 +1410,7 @@ router.get('/webhook/test', async (req: Request, res: Response) => {
 });
 
 // Test stage change webhook endpoint
-router.post('/webhook/test-stage-change', async (req: Request, res: Response) => {
+router.post('/webhook/test-stage-change', requirePermission('deals:write:all'), async (req: Request, res: Response) => {
   try {
     const { dealId, newStageId, pipelineId } = req.body;
     
@@ -1181,16 +1428,14 @@ router.post('/webhook/test-stage-change', async (req: Request, res: Response) =>
       return res.status(404).json({ error: 'Deal not found' });
     }
     
-    // Get stage name from GHL
-    const stageName = await GHLService.getStageNameById(pipelineId, newStageId);
+    // Map to system stage
+    const resolved = await resolveGHLStage(pipelineId, newStageId);
+    const normalizedStage = resolved.stage;
     
-    if (!stageName) {
+    if (!resolved.mapped && !resolved.ghlStageName) {
       return res.status(400).json({ error: 'Could not fetch stage name from GHL' });
     }
     
-    // Map to system stage
-    const normalizedStage = mapGHLStageToSystemStage(stageName);
-    
     // Update the deal
     const updates = {
       stage: normalizedStage,
@@ -1205,7 +1450,8 @@ router.post('/webhook/test-stage-change', async (req: Request, res: Response) =>
       dealId,
       oldStage: deal.stage,
       newStage: normalizedStage,
-      ghlStageName: stageName,
+      ghlStageName: resolved.ghlStageName,
+      mapped: resolved.mapped,
       updates
     });
     
@@ -1215,7 +1461,7 @@ router.post('/webhook/test-stage-change', async (req: Request, res: Response) =>
 });
 
 // Helper endpoint to get deal IDs and GHL info for testing
-router.get('/webhook/test-info', async (req: Request, res: Response) => {
+router.get('/webhook/test-info', requirePermission('deals:read:all'), async (req: Request, res: Response) => {
   try {
     const deals = await FirebaseService.getAllDeals();
     
@@ -1320,7 +1566,8 @@ router.post('/test-email-notifications', async (req: Request, res: Response) =>
     
     if (type === 'deal-update') {
       const changes = ['Property Address', 'Contact Email', 'Loan Request'];
-      await EmailService.sendDealUpdateNotificationEmail(deal, changes, userName);
+      const missingDocuments = await DocumentChecklistService.getMissingItemLabels(deal);
+      await EmailService.sendDealUpdateNotificationEmail(deal, changes, userName, missingDocuments);
       result = { message: 'Deal update notification sent', changes, updatedBy: userName };
     } else if (type === 'document-upload') {
       const fileName = 'test-document.pdf';
@@ -1535,19 +1782,150 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     // Verify deal belongs to user or user is admin
     const deal = await FirebaseService.getDealById(id);
-    if (!deal || (deal.userId !== req.user!.id && !req.user!.isAdmin)) {
+    if (!deal || (!canDeleteDeal(req.user, deal))) {
       return res.status(404).json({ error: 'Deal not found' });
     }
 
     // Delete deal from Firebase
     await FirebaseService.deleteDeal(id);
 
+    await DealActivityService.record(id, 'deleted', {
+      source: 'portal',
+      actorId: req.user!.id,
+      actorName: req.user!.username
+    });
+
     res.json({ message: 'Deal deleted successfully' });
   } catch (error) {
         res.status(500).json({ error: 'Failed to delete deal' });
   }
 });
 
+// Get document checklist completion for a deal
+router.get('/:id/checklist', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Verify deal belongs to user or user is admin
+    const deal = await FirebaseService.getDealById(id);
+    if (!deal || (!canAccessDeal(req.user, deal, 'read'))) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const status = await DocumentChecklistService.getDealChecklistStatus({ ...deal, id });
+    res.json(status);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch document checklist' });
+  }
+});
+
+// Ask the deal owner for documents (defaults to the checklist items still missing)
+router.post('/:id/document-requests', requirePermission('deals:write:all'), [
+  body('items').optional().isArray({ max: 50 }).withMessage('Items must be a list of up to 50 documents'),
+  body('items.*').isString().trim().notEmpty().isLength({ max: 200 }).withMessage('Each item must be a document name'),
+  body('message').optional().isString().trim().isLength({ max: 1000 }).withMessage('Message must be at most 1000 characters')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const deal = await FirebaseService.getDealById(id);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const items: string[] = req.body.items?.length
+      ? req.body.items
+      : await DocumentChecklistService.getMissingItemLabels({ ...deal, id });
+    if (items.length === 0) {
+      return res.status(400).json({ error: 'No documents to request; the checklist is complete' });
+    }
+
+    const message = req.body.message ? ` Note from ${req.user!.username}: ${req.body.message}` : '';
+    const notification = await NotificationService.notify(deal.userId, 'document_requested', {
+      title: `Documents requested for ${deal.dealId}`,
+      body: `Please upload ${items.join(', ')} for ${deal.propertyAddress || deal.dealId}.${message}`,
+      link: '/',
+    });
+
+    res.json({ items, notified: !!notification });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to request documents' });
+  }
+});
+
+// Get underwriting metrics and inconsistency flags for a saved deal
+router.get('/:id/underwriting', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Verify deal belongs to user or user is admin
+    const deal = await FirebaseService.getDealById(id);
+    if (!deal || (!canAccessDeal(req.user, deal, 'read'))) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const inputs = readUnderwritingInputs(deal);
+    res.json({ inputs, result: calculateUnderwriting(inputs) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to calculate underwriting' });
+  }
+});
+
+// Download the lender tear sheet PDF for a deal
+router.get('/:id/tear-sheet', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Verify deal belongs to user or user is admin
+    const deal = await FirebaseService.getDealById(id);
+    if (!deal || (!canAccessDeal(req.user, deal, 'read'))) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    // The sheet still renders without document storage; it notes the document index is unavailable
+    let documents: StoredFile[] | null = null;
+    try {
+      const storage = getDocumentStorage();
+      if (await storage.isConfigured()) {
+        documents = await DealFolderService.getDealFiles({ ...deal, id }, storage);
+      }
+    } catch (error) {
+      documents = null;
+    }
+
+    const pdf = await DealExportService.buildTearSheet({ ...deal, id }, documents);
+    const fileName = `tear-sheet-${(deal.dealId || id).replace(/[^a-zA-Z0-9_-]+/g, '_')}.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to generate tear sheet' });
+  }
+});
+
+// Get deal activity timeline (field-level change history)
+router.get('/:id/activity', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Verify deal belongs to user or user is admin
+    const deal = await FirebaseService.getDealById(id);
+    if (!deal || (!canAccessDeal(req.user, deal, 'read'))) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const activity = await FirebaseService.getDealActivity(id);
+    res.json(activity);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch deal activity' });
+  }
+});
+
 // Get deal documents
 router.get('/:id/documents', async (req: Request, res: Response) => {
   try {
@@ -1555,7 +1933,7 @@ router.get('/:id/documents', async (req: Request, res: Response) => {
 
     // Verify deal belongs to user or user is admin
     const deal = await FirebaseService.getDealById(id);
-    if (!deal || (deal.userId !== req.user!.id && !req.user!.isAdmin)) {
+    if (!deal || (!canAccessDeal(req.user, deal, 'read'))) {
       return res.status(404).json({ error: 'Deal not found' });
     }
 
@@ -1,10 +1,15 @@
 import express from 'express';
 import multer from 'multer';
 import { body, validationResult } from 'express-validator';
-import { FirebaseService } from '../services/firebaseService';
-import { OneDriveService } from '../services/oneDriveService';
-import { GHLService } from '../services/ghlService';
-import { EmailService } from '../services/emailService';
+import { FirebaseService, Document, DocumentShareLink } from '../services/firebaseService';
+import { getDocumentStorage } from '../services/documentStorage';
+import { DealFolderService } from '../services/dealFolderService';
+import { DocumentChecklistService } from '../services/documentChecklistService';
+import { DocumentShareService, SHARE_LINK_MAX_DAYS } from '../services/documentShareService';
+import { DocumentVersionService } from '../services/documentVersionService';
+import { DocumentScanService, SPOOFED_FILE_ERROR, INFECTED_FILE_ERROR, UNSCANNABLE_FILE_ERROR } from '../services/documentScanService';
+import { canAccessDeal } from '../utils/permissions';
+import { sendFileDownload } from '../utils/fileDownload';
 import { Request, Response } from 'express';
 
 const router = express.Router();
@@ -91,43 +96,13 @@ router.get('/test-cors', (req, res) => {
   });
 });
 
-// Test endpoint to list OneDrive files for debugging
-router.get('/test-onedrive', async (req, res) => {
-  try {
-        // Note: getFiles() method doesn't exist in OneDriveService
-    // This endpoint is disabled until the method is implemented
-    res.json({
-      message: 'OneDrive test endpoint - getFiles() method not implemented',
-      count: 0,
-      files: [] as any[]
-    });
-    return;
-    /* Commented out until getFiles() is implemented
-    const files = await OneDriveService.getFiles();
-    res.json({
-      message: 'OneDrive files retrieved',
-      count: files.length,
-      files: files.map((f: any) => ({
-        id: f.id,
-        name: f.name,
-        size: f.size,
-        webUrl: f.webUrl
-      }))
-    }); */
-  } catch (error: any) {
-        res.status(500).json({ 
-      error: 'Failed to list OneDrive files', 
-      details: error.message 
-    });
-  }
-});
-
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit
   },
+  // The declared type is only a first filter; the routes check the content itself with DocumentScanService
   fileFilter: (req: Request, file: any, cb: any) => {
     const allowedTypes = [
       'application/pdf',
@@ -159,6 +134,48 @@ const upload = multer({
   }
 });
 
+// Name shown as a document's uploader: the username, else the capitalized part of the email before the @
+const getUploaderName = async (userId: string): Promise<string> => {
+  const user = await FirebaseService.getUserById(userId);
+  if (user?.username && user.username.trim()) {
+    return user.username.trim();
+  }
+  if (user?.email) {
+    const emailUsername = user.email.split('@')[0];
+    return emailUsername.charAt(0).toUpperCase() + emailUsername.slice(1);
+  }
+  return 'Unknown User';
+};
+
+// Map a Firebase document to the frontend Document interface; the file fields are the current version's.
+// Storage links are left out until the file has passed the malware scan.
+const mapDocument = (doc: Document) => {
+  const available = DocumentScanService.isAvailable(doc);
+  return {
+    id: doc.id,
+    filename: doc.filename,
+    originalName: doc.originalName,
+    fileSize: doc.fileSize,
+    mimeType: doc.mimeType,
+    tags: doc.tags || [],
+    checklistItemId: doc.checklistItemId || null,
+    oneDriveId: doc.oneDriveId,
+    oneDriveUrl: available ? doc.oneDriveUrl : null,
+    downloadUrl: available ? doc.downloadUrl : null,
+    userId: doc.userId,
+    dealId: doc.dealId,
+    version: doc.version || 1,
+    scanStatus: doc.scanStatus || null,
+    createdAt: doc.uploadedAt.toDate().toISOString(),
+    updatedAt: (doc.updatedAt || doc.uploadedAt).toDate().toISOString(),
+  };
+};
+
+const QUARANTINED_ERROR = 'This file is still being checked for malware. Try again in a few minutes.';
+const UNSCANNABLE_ERROR = "This file couldn't be checked for malware, so it can't be opened. Upload it again in another format or ask an admin.";
+const unavailableError = (document: Document) => document.scanStatus === 'unscannable' ? UNSCANNABLE_ERROR : QUARANTINED_ERROR;
+const SCANNER_UNAVAILABLE_ERROR = 'The malware scanner is unavailable. Try again in a few minutes.';
+
 // Get documents for a deal
 router.get('/deal/:dealId', async (req: Request, res: Response) => {
   try {
@@ -171,31 +188,14 @@ router.get('/deal/:dealId', async (req: Request, res: Response) => {
     }
     
     // Allow access if user owns the deal OR if user is admin
-    if (deal.userId !== req.user!.id && !req.user!.isAdmin) {
+    if (!canAccessDeal(req.user, deal, 'read')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     // Get documents from Firebase filtered by userId
     const documents = await FirebaseService.getDocumentsByDealAndUser(dealId, req.user!.id);
     
-    // Map Firebase documents to match frontend Document interface
-    const mappedDocuments = documents.map(doc => ({
-      id: doc.id,
-      filename: doc.filename,
-      originalName: doc.originalName,
-      fileSize: doc.fileSize,
-      mimeType: doc.mimeType,
-      tags: doc.tags || [],
-      oneDriveId: doc.oneDriveId,
-      oneDriveUrl: doc.oneDriveUrl,
-      downloadUrl: doc.downloadUrl,
-      userId: doc.userId,
-      dealId: doc.dealId,
-      createdAt: doc.uploadedAt.toDate().toISOString(),
-      updatedAt: doc.uploadedAt.toDate().toISOString(),
-    }));
-    
-    res.json(mappedDocuments);
+    res.json(documents.map(mapDocument));
   } catch (error) {
         res.status(500).json({ error: 'Failed to fetch documents', details: error instanceof Error ? error.message : 'Unknown error' });
   }
@@ -217,6 +217,7 @@ router.post('/upload-multiple', upload.array('files', 50), [
     }
     return false;
   }).withMessage('Tags must be an array or valid JSON string'),
+  body('checklistItemId').optional().isString().withMessage('Checklist item must be a string'),
 ], async (req: Request, res: Response) => {
   try {
                     const errors = validationResult(req);
@@ -230,7 +231,7 @@ router.post('/upload-multiple', upload.array('files', 50), [
             return res.status(400).json({ error: 'No files uploaded' });
     }
 
-    const { dealId, tags: tagsString } = req.body;
+    const { dealId, tags: tagsString, checklistItemId } = req.body;
     
     // Parse tags if it's a string
     let tags: string[] = [];
@@ -249,108 +250,69 @@ router.post('/upload-multiple', upload.array('files', 50), [
     }
     
     // Allow access if user owns the deal OR if user is admin
-    if (deal.userId !== req.user!.id && !req.user!.isAdmin) {
+    if (!canAccessDeal(req.user, deal, 'write')) {
             return res.status(403).json({ error: 'Access denied' });
     }
 
-        // Get user info for uploadedBy field (once before loop)
-    const user = await FirebaseService.getUserById(req.user!.id);
-    let uploadedBy = 'Unknown User';
-    if (user) {
-      if (user.username && user.username.trim()) {
-        uploadedBy = user.username.trim();
-      } else if (user.email) {
-        const emailUsername = user.email.split('@')[0];
-        uploadedBy = emailUsername.charAt(0).toUpperCase() + emailUsername.slice(1);
-      }
+    // Uploads can be classified against an item on the deal's document checklist
+    if (checklistItemId && !(await DocumentChecklistService.isValidItemForDeal(deal, checklistItemId))) {
+      return res.status(400).json({ error: 'Checklist item does not apply to this deal' });
     }
 
-    // Upload all files to OneDrive
+    // Get user info for uploadedBy field (once before loop)
+    const uploadedBy = await getUploaderName(req.user!.id);
+
+    // Upload all files to document storage
+    const storage = getDocumentStorage();
     const uploadResults = [];
     let uploadedCount = 0;
     let failedCount = 0;
 
     for (const file of files) {
       try {
-        // Upload to OneDrive
-        const oneDriveFile = await OneDriveService.uploadFile(
-          dealId,
-          file.originalname,
-          file.buffer,
-          file.mimetype
-        );
+        if (!DocumentScanService.contentMatchesType(file)) {
+          failedCount++;
+          uploadResults.push({ success: false, fileName: file.originalname, error: SPOOFED_FILE_ERROR });
+          continue;
+        }
+        const scanStatus = await DocumentScanService.scanUpload(file, deal, { userId: req.user!.id, name: uploadedBy }, req);
+        if (scanStatus === 'infected' || scanStatus === 'unscannable') {
+          failedCount++;
+          uploadResults.push({ success: false, fileName: file.originalname, error: scanStatus === 'infected' ? INFECTED_FILE_ERROR : UNSCANNABLE_FILE_ERROR });
+          continue;
+        }
+
+        // Filed into the folder template's subfolder for the checklist item, named after the document
+        const documentId = FirebaseService.newDocumentId();
+        const storedFile = await DealFolderService.uploadDealFile(deal, file, documentId, checklistItemId, storage);
 
         // Save document metadata to Firebase
         const documentData = await FirebaseService.createDocument({
-          filename: oneDriveFile.name,
+          filename: storedFile.name,
           originalName: file.originalname,
           mimeType: file.mimetype,
           fileSize: file.size,
           userId: req.user!.id,
-          oneDriveId: oneDriveFile.id,
-          oneDriveUrl: oneDriveFile.webUrl,
-          downloadUrl: oneDriveFile.downloadUrl,
+          storageDriver: storage.driver,
+          oneDriveId: storedFile.id,
+          oneDriveUrl: storedFile.webUrl,
+          downloadUrl: storedFile.downloadUrl,
           tags: tags,
           dealId: dealId,
           uploadedBy: uploadedBy,
-        });
+          ...(checklistItemId ? { checklistItemId } : {}),
+          ...(scanStatus ? { scanStatus } : {}),
+        }, documentId);
 
         uploadedCount++;
         uploadResults.push({
           success: true,
-          file: {
-            id: documentData.id,
-            filename: documentData.filename,
-            originalName: documentData.originalName,
-            fileSize: documentData.fileSize,
-            mimeType: documentData.mimeType,
-            tags: documentData.tags,
-            oneDriveId: documentData.oneDriveId,
-            oneDriveUrl: documentData.oneDriveUrl,
-            downloadUrl: documentData.downloadUrl,
-            userId: documentData.userId,
-            dealId: documentData.dealId,
-            createdAt: documentData.uploadedAt.toDate().toISOString(),
-            updatedAt: documentData.uploadedAt.toDate().toISOString()
-          }
+          file: mapDocument(documentData)
         });
 
-                        // Send email notification for document upload
-        try {
-          // Ensure email service initialized (handles serverless cold starts)
-          try {
-            const ready = await EmailService.testEmailConnection();
-            if (!ready) {
-              const storedConfig = await FirebaseService.getEmailConfig();
-              if (storedConfig && storedConfig.enabled) {
-                await EmailService.initialize(storedConfig);
-              }
-            }
-          } catch {}
-          
-          // Send document upload notification
-          await EmailService.sendDocumentUploadNotificationEmail(deal, file.originalname, uploadedBy);
-        } catch (emailError) {
-          // Don't fail the document upload if email fails
-                  }
-
-        // Sync to GHL if configured
-        try {
-          const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
-          if (ghlApiKey && (deal as any).ghlContactId) {
-
-            // Upload document to GHL contact
-            await GHLService.uploadDocumentToContact(
-              (deal as any).ghlContactId,
-              file.originalname,
-              file.buffer,
-              file.mimetype,
-              ghlApiKey
-            );
-
-          }
-        } catch (error) {
-                    // Don't fail the upload if GHL sync fails
+        // Quarantined files are announced and sent to GHL once the document_scan job clears them
+        if (scanStatus !== 'pending') {
+          await DocumentScanService.releaseUpload(deal, file, uploadedBy);
         }
       } catch (error: any) {
         failedCount++;
@@ -389,6 +351,7 @@ router.post('/upload', upload.single('file'), [
     }
     return false;
   }).withMessage('Tags must be an array or valid JSON string'),
+  body('checklistItemId').optional().isString().withMessage('Checklist item must be a string'),
 ], async (req: Request, res: Response) => {
   try {
                             const errors = validationResult(req);
@@ -401,7 +364,7 @@ router.post('/upload', upload.single('file'), [
             return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const { dealId, tags: tagsString } = req.body;
+    const { dealId, tags: tagsString, checklistItemId } = req.body;
     
     // Parse tags if it's a string
     let tags: string[] = [];
@@ -420,110 +383,402 @@ router.post('/upload', upload.single('file'), [
     }
     
     // Allow access if user owns the deal OR if user is admin
-    if (deal.userId !== req.user!.id && !req.user!.isAdmin) {
+    if (!canAccessDeal(req.user, deal, 'write')) {
             return res.status(403).json({ error: 'Access denied' });
     }
 
-        // Upload to OneDrive
-    const oneDriveFile = await OneDriveService.uploadFile(
-      dealId,
-      req.file.originalname,
-      req.file.buffer,
-      req.file.mimetype
-    );
+    // Uploads can be classified against an item on the deal's document checklist
+    if (checklistItemId && !(await DocumentChecklistService.isValidItemForDeal(deal, checklistItemId))) {
+      return res.status(400).json({ error: 'Checklist item does not apply to this deal' });
+    }
 
-        // Get user info for uploadedBy field
-    const user = await FirebaseService.getUserById(req.user!.id);
-    let uploadedBy = 'Unknown User';
-    if (user) {
-      if (user.username && user.username.trim()) {
-        uploadedBy = user.username.trim();
-      } else if (user.email) {
-        const emailUsername = user.email.split('@')[0];
-        uploadedBy = emailUsername.charAt(0).toUpperCase() + emailUsername.slice(1);
-      }
+    if (!DocumentScanService.contentMatchesType(req.file)) {
+      return res.status(400).json({ error: SPOOFED_FILE_ERROR });
+    }
+
+    // Get user info for uploadedBy field
+    const uploadedBy = await getUploaderName(req.user!.id);
+
+    const scanStatus = await DocumentScanService.scanUpload(req.file, deal, { userId: req.user!.id, name: uploadedBy }, req);
+    if (scanStatus === 'infected') {
+      return res.status(422).json({ error: INFECTED_FILE_ERROR });
+    }
+    if (scanStatus === 'unscannable') {
+      return res.status(422).json({ error: UNSCANNABLE_FILE_ERROR });
     }
 
+    const storage = getDocumentStorage();
+    // Filed into the folder template's subfolder for the checklist item, named after the document
+    const documentId = FirebaseService.newDocumentId();
+    const storedFile = await DealFolderService.uploadDealFile(deal, req.file, documentId, checklistItemId, storage);
+
     // Save document metadata to Firebase
     const documentData = await FirebaseService.createDocument({
-      filename: oneDriveFile.name,
+      filename: storedFile.name,
       originalName: req.file.originalname,
       mimeType: req.file.mimetype,
       fileSize: req.file.size,
       userId: req.user!.id,
-      oneDriveId: oneDriveFile.id,
-      oneDriveUrl: oneDriveFile.webUrl,
-      downloadUrl: oneDriveFile.downloadUrl,
+      storageDriver: storage.driver,
+      oneDriveId: storedFile.id,
+      oneDriveUrl: storedFile.webUrl,
+      downloadUrl: storedFile.downloadUrl,
       tags: tags,
       dealId: dealId,
       uploadedBy: uploadedBy,
+      ...(checklistItemId ? { checklistItemId } : {}),
+      ...(scanStatus ? { scanStatus } : {}),
+    }, documentId);
+
+    // Quarantined files are announced and sent to GHL once the document_scan job clears them
+    if (scanStatus !== 'pending') {
+      await DocumentScanService.releaseUpload(deal, req.file, uploadedBy);
+    }
+
+    res.status(201).json({
+      message: scanStatus === 'pending'
+        ? 'Document uploaded. It will be available once it has been checked for malware.'
+        : 'Document uploaded successfully',
+      file: mapDocument(documentData)
     });
+  } catch (error) {
+        res.status(500).json({ error: 'Failed to upload document', details: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
 
-        // Send email notification for document upload
-    try {
-      // Ensure email service initialized (handles serverless cold starts)
-      try {
-        const ready = await EmailService.testEmailConnection();
-        if (!ready) {
-          const storedConfig = await FirebaseService.getEmailConfig();
-          if (storedConfig && storedConfig.enabled) {
-            await EmailService.initialize(storedConfig);
-          }
-        }
-      } catch {}
+const mapShareLink = (link: DocumentShareLink) => ({
+  id: link.id,
+  dealId: link.dealId,
+  documentIds: link.documentIds,
+  label: link.label || null,
+  hasPassword: !!link.passwordHash,
+  status: DocumentShareService.getStatus(link),
+  expiresAt: link.expiresAt.toDate().toISOString(),
+  createdBy: link.createdBy,
+  createdByName: link.createdByName || null,
+  createdAt: link.createdAt.toDate().toISOString(),
+  revokedAt: link.revokedAt ? link.revokedAt.toDate().toISOString() : null,
+  accessCount: link.accessCount || 0,
+  lastAccessedAt: link.lastAccessedAt ? link.lastAccessedAt.toDate().toISOString() : null,
+});
 
-      // Send document upload notification (uploadedBy already set above)
-      await EmailService.sendDocumentUploadNotificationEmail(deal, req.file.originalname, uploadedBy);
-    } catch (emailError) {
-      // Don't fail the document upload if email fails
-          }
+// Share links for a deal's documents, newest first
+router.get('/deal/:dealId/share-links', async (req: Request, res: Response) => {
+  try {
+    const deal = await FirebaseService.getDealById(req.params.dealId);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canAccessDeal(req.user, deal, 'read')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
 
-    // Sync to GHL if configured
-    try {
-      const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
-      if (ghlApiKey && (deal as any).ghlContactId) {
-
-        // Upload document to GHL contact
-        await GHLService.uploadDocumentToContact(
-          (deal as any).ghlContactId,
-          req.file.originalname,
-          req.file.buffer,
-          req.file.mimetype,
-          ghlApiKey
-        );
-
-      } else {
-        if (!ghlApiKey) {
-          // API key not configured
-        }
-        if (!(deal as any).ghlContactId) {
-          // Contact ID not available
-        }
-      }
-    } catch (error) {
-            // Don't fail the upload if GHL sync fails
+    const links = await FirebaseService.getDocumentShareLinksByDeal(deal.id);
+    res.json(links.map(mapShareLink));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch share links' });
+  }
+});
+
+// Create an expiring link to some of a deal's documents. The URL is only returned here.
+router.post('/deal/:dealId/share-links', [
+  body('documentIds').isArray({ min: 1 }).withMessage('Pick at least one document'),
+  body('documentIds.*').isString(),
+  body('expiresInDays').optional().isInt({ min: 1, max: SHARE_LINK_MAX_DAYS }).withMessage(`Links can last 1 to ${SHARE_LINK_MAX_DAYS} days`),
+  body('password').optional({ values: 'falsy' }).isString().isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  body('label').optional({ values: 'falsy' }).isString().isLength({ max: 100 }),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    res.status(201).json({
-      message: 'Document uploaded successfully',
-      file: {
-        id: documentData.id,
-        filename: documentData.filename,
-        originalName: documentData.originalName,
-        fileSize: documentData.fileSize,
-        mimeType: documentData.mimeType,
-        tags: documentData.tags,
-        oneDriveId: documentData.oneDriveId,
-        oneDriveUrl: documentData.oneDriveUrl,
-        downloadUrl: documentData.downloadUrl,
-        userId: documentData.userId,
-        dealId: documentData.dealId,
-        createdAt: documentData.uploadedAt.toDate().toISOString(),
-        updatedAt: documentData.uploadedAt.toDate().toISOString()
-      }
+    const deal = await FirebaseService.getDealById(req.params.dealId);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canAccessDeal(req.user, deal, 'write')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const documentIds: string[] = req.body.documentIds;
+    const dealDocuments = new Map((await FirebaseService.getDocumentsByDeal(deal.id)).map(document => [document.id, document]));
+    if (documentIds.some(id => !dealDocuments.has(id))) {
+      return res.status(400).json({ error: 'Some documents are not on this deal' });
+    }
+    if (documentIds.some(id => !DocumentScanService.isAvailable(dealDocuments.get(id)!))) {
+      return res.status(400).json({ error: "Some documents haven't passed the malware check yet" });
+    }
+
+    const { link, token } = await DocumentShareService.createLink(
+      deal,
+      documentIds,
+      { expiresInDays: req.body.expiresInDays ? Number(req.body.expiresInDays) : undefined, password: req.body.password, label: req.body.label },
+      { id: req.user!.id, username: req.user!.username }
+    );
+    res.status(201).json({ ...mapShareLink(link), url: DocumentShareService.getShareUrl(token) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+// Revoke a share link: its creator, or anyone who can change the deal (its owner, admins)
+router.delete('/share-links/:id', async (req: Request, res: Response) => {
+  try {
+    const link = await FirebaseService.getDocumentShareLinkById(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+    const deal = await FirebaseService.getDealById(link.dealId);
+    if (link.createdBy !== req.user?.id && !(deal && canAccessDeal(req.user, deal, 'write'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!link.revokedAt) {
+      await FirebaseService.revokeDocumentShareLink(link.id, req.user!.username || req.user!.id);
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke share link' });
+  }
+});
+
+// Who opened a share link and what they downloaded
+router.get('/share-links/:id/access', async (req: Request, res: Response) => {
+  try {
+    const link = await FirebaseService.getDocumentShareLinkById(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+    const deal = await FirebaseService.getDealById(link.dealId);
+    if (!deal || !canAccessDeal(req.user, deal, 'read')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const entries = await FirebaseService.getDocumentShareAccessLog(link.id);
+    res.json(entries.map(entry => ({
+      id: entry.id,
+      action: entry.action,
+      documentId: entry.documentId || null,
+      fileName: entry.fileName || null,
+      documentIds: entry.documentIds || [],
+      fileNames: entry.fileNames || [],
+      ipAddress: entry.ipAddress || null,
+      userAgent: entry.userAgent || null,
+      createdAt: entry.createdAt.toDate().toISOString(),
+    })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch share link activity' });
+  }
+});
+
+// Download a document's file through the portal, whichever storage holds it
+router.get('/:id/download', async (req: Request, res: Response) => {
+  try {
+    const document = await FirebaseService.getDocumentById(req.params.id);
+    if (!document || document.deleted) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (!canAccessDeal(req.user, document, 'read')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    if (!DocumentScanService.isAvailable(document)) {
+      return res.status(409).json({ error: unavailableError(document) });
+    }
+
+    const file = await getDocumentStorage(document.storageDriver || 'onedrive').downloadFile(document.oneDriveId);
+    sendFileDownload(res, document.originalName || document.filename, document.mimeType || file.mimeType || 'application/octet-stream', file.content);
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to download document', details: error.message });
+  }
+});
+
+// Classify a document against a checklist item (null clears the classification)
+router.put('/:id/checklist-item', [
+  body('checklistItemId').optional({ nullable: true }).isString().withMessage('Checklist item must be a string'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const document = await FirebaseService.getDocumentById(req.params.id);
+    if (!document || document.deleted) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const deal = await FirebaseService.getDealById(document.dealId);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canAccessDeal(req.user, deal, 'write')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const checklistItemId: string | null = req.body.checklistItemId || null;
+    if (checklistItemId && !(await DocumentChecklistService.isValidItemForDeal(deal, checklistItemId))) {
+      return res.status(400).json({ error: 'Checklist item does not apply to this deal' });
+    }
+
+    await FirebaseService.updateDocumentChecklistItem(document.id, checklistItemId);
+    res.json({ success: true, id: document.id, checklistItemId });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to classify document' });
+  }
+});
+
+/**
+ * The document and its deal for a version route, or null after sending the error response
+ */
+const loadDocumentForVersions = async (req: Request, res: Response, access: 'read' | 'write') => {
+  const document = await FirebaseService.getDocumentById(req.params.id);
+  if (!document || document.deleted) {
+    res.status(404).json({ error: 'Document not found' });
+    return null;
+  }
+  const deal = await FirebaseService.getDealById(document.dealId);
+  if (!deal) {
+    res.status(404).json({ error: 'Deal not found' });
+    return null;
+  }
+  if (!canAccessDeal(req.user, deal, access)) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+  return { document, deal };
+};
+
+const VERSION_CONFLICT = 'This document was changed while you were working on it. Refresh and try again.';
+
+// Version history of a document, newest first
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadDocumentForVersions(req, res, 'read');
+    if (!loaded) return;
+
+    const current = loaded.document.version || 1;
+    const versions = await DocumentVersionService.getVersions(loaded.document);
+    res.json(versions.map(version => ({
+      version: version.version,
+      current: version.version === current,
+      originalName: version.originalName,
+      fileSize: version.fileSize,
+      mimeType: version.mimeType,
+      uploadedBy: version.uploadedBy,
+      uploadedAt: version.uploadedAt.toDate().toISOString(),
+      restoredFrom: version.restoredFrom || null,
+    })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch document versions' });
+  }
+});
+
+// Upload a replacement file as the document's next version
+router.post('/:id/versions', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const loaded = await loadDocumentForVersions(req, res, 'write');
+    if (!loaded) return;
+    if (!DocumentScanService.isAvailable(loaded.document)) {
+      return res.status(409).json({ error: unavailableError(loaded.document) });
+    }
+    if (!DocumentScanService.contentMatchesType(req.file)) {
+      return res.status(400).json({ error: SPOOFED_FILE_ERROR });
+    }
+
+    // New versions are scanned before they're stored; there's no quarantine for a replacement
+    const uploader = { userId: req.user!.id, name: await getUploaderName(req.user!.id) };
+    const scanStatus = await DocumentScanService.scanUpload(req.file, loaded.deal, uploader, req);
+    if (scanStatus === 'infected') {
+      return res.status(422).json({ error: INFECTED_FILE_ERROR });
+    }
+    if (scanStatus === 'unscannable') {
+      return res.status(422).json({ error: UNSCANNABLE_FILE_ERROR });
+    }
+    if (scanStatus === 'pending') {
+      return res.status(503).json({ error: SCANNER_UNAVAILABLE_ERROR });
+    }
+
+    const document = await DocumentVersionService.uploadVersion(loaded.document, loaded.deal, req.file, uploader);
+    if (!document) {
+      return res.status(409).json({ error: VERSION_CONFLICT });
+    }
+    await DocumentScanService.releaseUpload(loaded.deal, req.file, uploader.name);
+    res.status(201).json(mapDocument(document));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to upload new version', details: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Make an older version current again (as a new version, so the history is kept)
+router.post('/:id/versions/:version/restore', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadDocumentForVersions(req, res, 'write');
+    if (!loaded) return;
+    if (!DocumentScanService.isAvailable(loaded.document)) {
+      return res.status(409).json({ error: unavailableError(loaded.document) });
+    }
+
+    const versionNumber = Number(req.params.version);
+    const version = Number.isInteger(versionNumber) ? await DocumentVersionService.getVersion(loaded.document, versionNumber) : null;
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    if (version.version === (loaded.document.version || 1)) {
+      return res.status(400).json({ error: 'This is already the current version' });
+    }
+
+    const document = await DocumentVersionService.restoreVersion(loaded.document, version, {
+      userId: req.user!.id,
+      name: await getUploaderName(req.user!.id),
     });
+    if (!document) {
+      return res.status(409).json({ error: VERSION_CONFLICT });
+    }
+
+    // GoHighLevel gets the restored file so it keeps the current version; the team isn't emailed
+    // because nothing new was uploaded
+    try {
+      const file = await DocumentVersionService.downloadVersion(version);
+      await DocumentScanService.releaseUpload(
+        loaded.deal,
+        { originalname: version.originalName, buffer: file.content, mimetype: version.mimeType },
+        document.uploadedBy,
+        { notify: false }
+      );
+    } catch (error) {
+      // Don't fail the restore if the copy to GHL fails
+    }
+    res.json(mapDocument(document));
   } catch (error) {
-        res.status(500).json({ error: 'Failed to upload document', details: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+router.get('/:id/versions/:version/download', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadDocumentForVersions(req, res, 'read');
+    if (!loaded) return;
+    if (!DocumentScanService.isAvailable(loaded.document)) {
+      return res.status(409).json({ error: unavailableError(loaded.document) });
+    }
+
+    const versionNumber = Number(req.params.version);
+    const version = Number.isInteger(versionNumber) ? await DocumentVersionService.getVersion(loaded.document, versionNumber) : null;
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const file = await DocumentVersionService.downloadVersion(version);
+    sendFileDownload(res, version.originalName || version.filename, version.mimeType || file.mimeType || 'application/octet-stream', file.content);
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to download version', details: error.message });
   }
 });
 
@@ -563,7 +818,7 @@ router.post('/delete-multiple', [
     let failedCount = 0;
     const errors_list: string[] = [];
 
-    // Soft delete from Firebase (keep in OneDrive)
+    // Soft delete from Firebase (keep the file in storage)
     for (const documentId of documentIds) {
       try {
         // Verify document belongs to user before deleting
@@ -574,7 +829,7 @@ router.post('/delete-multiple', [
           continue;
         }
         
-        if (document.userId !== req.user!.id && !req.user!.isAdmin) {
+        if (!canAccessDeal(req.user, document, 'write')) {
           failedCount++;
           errors_list.push(`${documentId}: Access denied`);
           continue;
@@ -626,11 +881,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    if (document.userId !== req.user!.id && !req.user!.isAdmin) {
+    if (!canAccessDeal(req.user, document, 'write')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Soft delete from Firebase (keep in OneDrive)
+    // Soft delete from Firebase (keep the file in storage)
     await FirebaseService.softDeleteDocument(documentId);
         res.json({ message: 'Document deleted successfully' });
   } catch (error: any) {
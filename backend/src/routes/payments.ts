@@ -1,9 +1,12 @@
 import express from 'express';
 import { StripeService } from '../services/stripeService';
 import { FirebaseService } from '../services/firebaseService';
-import { DiscordBotService } from '../services/discordBotService';
+import { DiscordRoleSyncService } from '../services/discordRoleSyncService';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { canAccessPortal } from '../utils/subscriptionChecker';
+import { WebhookQueueService } from '../services/webhookQueueService';
+import { SessionService } from '../services/sessionService';
+import { BillingEmailService, BILLING_EMAIL_TYPES } from '../services/billingEmailService';
 import Stripe from 'stripe';
 
 const router = express.Router();
@@ -62,25 +65,8 @@ router.post('/create-payment-link', async (req, res) => {
     }
 
     // Try to get authenticated user (optional - for existing users)
-    let userId: string | null = null;
-    let user = null;
-    
-    try {
-      const authHeader = req.headers['authorization'];
-      const token = authHeader && authHeader.split(' ')[1];
-      
-      if (token && process.env.JWT_SECRET) {
-        const jwt = require('jsonwebtoken');
-        const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
-        if (decoded?.userId) {
-          const decodedUserId = decoded.userId as string;
-          userId = decodedUserId;
-          user = await FirebaseService.getUserById(decodedUserId);
-        }
-      }
-    } catch (error) {
-      // Not authenticated - that's okay for new users
-          }
+    const userId = await SessionService.getOptionalUserId(req);
+    const user = userId ? await FirebaseService.getUserById(userId) : null;
 
     // Get price ID for monthly plan
     const priceId = process.env.STRIPE_PRICE_ID_MONTHLY;
@@ -220,25 +206,8 @@ router.post('/create-checkout-session', async (req, res) => {
     }
 
     // Try to get authenticated user (optional - for existing users)
-    let userId: string | null = null;
-    let user = null;
-    
-    try {
-      const authHeader = req.headers['authorization'];
-      const token = authHeader && authHeader.split(' ')[1];
-      
-      if (token && process.env.JWT_SECRET) {
-        const jwt = require('jsonwebtoken');
-        const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
-        if (decoded?.userId) {
-          const decodedUserId = decoded.userId as string;
-          userId = decodedUserId;
-          user = await FirebaseService.getUserById(decodedUserId);
-        }
-      }
-    } catch (error) {
-      // Not authenticated - that's okay for new users
-    }
+    const userId = await SessionService.getOptionalUserId(req);
+    const user = userId ? await FirebaseService.getUserById(userId) : null;
 
     // Get price ID for monthly plan
     const priceId = process.env.STRIPE_PRICE_ID_MONTHLY;
@@ -354,6 +323,98 @@ router.post('/create-checkout-session', async (req, res) => {
   }
 });
 
+/**
+ * Apply a verified Stripe event. Throws so the webhook queue can retry failures.
+ */
+const processStripeEvent = async (event: Stripe.Event): Promise<void> => {
+  // Handle different event types
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const subscriptionId = session.subscription as string;
+      
+      // For Payment Links, get email from customer_details if not in metadata
+      if (subscriptionId) {
+        const subscription = await StripeService.getSubscription(subscriptionId);
+        
+        // If subscription metadata doesn't have email, get it from checkout session
+        if (!subscription.metadata?.email && session.customer_details?.email) {
+          subscription.metadata = subscription.metadata || {};
+          subscription.metadata.email = session.customer_details.email;
+        }
+        
+        await StripeService.handleSubscriptionWebhook(event, subscription);
+      }
+      break;
+    }
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.trial_will_end': {
+      // The event's copy may be stale when it was retried or arrived out of order, so apply the
+      // subscription as Stripe has it now
+      const subscription = await StripeService.getSubscription((event.data.object as Stripe.Subscription).id);
+      await StripeService.handleSubscriptionWebhook(event, subscription);
+      break;
+    }
+
+    case 'invoice.payment_succeeded': {
+      const invoice = event.data.object as Stripe.Invoice;
+      const subscriptionId = invoice.subscription as string;
+      
+      if (subscriptionId) {
+        const subscription = await StripeService.getSubscription(subscriptionId);
+        await StripeService.handleSubscriptionWebhook(event, subscription);
+      }
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      const subscriptionId = invoice.subscription as string;
+      
+      if (subscriptionId) {
+        const subscription = await StripeService.getSubscription(subscriptionId);
+        await StripeService.handleSubscriptionWebhook(event, subscription);
+      }
+      break;
+    }
+
+    case 'payment_intent.succeeded': {
+      // Payment succeeded - check if subscription needs to be activated
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const customerId = paymentIntent.customer as string;
+      
+      if (customerId) {
+        // Get customer's subscriptions
+        const subscriptions = await StripeService.getClient().subscriptions.list({
+          customer: customerId,
+          status: 'all',
+          limit: 10
+        });
+
+        // Find the subscription that was just paid
+        const paidSubscription = subscriptions.data.find(
+          sub => sub.latest_invoice && 
+          (sub.latest_invoice as Stripe.Invoice).payment_intent === paymentIntent.id
+        );
+
+        if (paidSubscription) {
+          await StripeService.handleSubscriptionWebhook(event, paidSubscription);
+        }
+      }
+      break;
+    }
+
+    default:
+      // Other event types are stored but need no processing
+      break;
+  }
+};
+
+WebhookQueueService.registerHandler('stripe', processStripeEvent);
+
 /**
  * Stripe Webhook Handler
  * POST /api/payments/webhook
@@ -375,87 +436,15 @@ router.post('/webhook', express.raw({ type: 'application/json' }), async (req, r
   }
 
   try {
-    // Handle different event types
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const subscriptionId = session.subscription as string;
-        
-        // For Payment Links, get email from customer_details if not in metadata
-        if (subscriptionId) {
-          const subscription = await StripeService.getSubscription(subscriptionId);
-          
-          // If subscription metadata doesn't have email, get it from checkout session
-          if (!subscription.metadata?.email && session.customer_details?.email) {
-            subscription.metadata = subscription.metadata || {};
-            subscription.metadata.email = session.customer_details.email;
-          }
-          
-          await StripeService.handleSubscriptionWebhook(event, subscription);
-        }
-        break;
-      }
-
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated':
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription;
-        await StripeService.handleSubscriptionWebhook(event, subscription);
-        break;
-      }
-
-      case 'invoice.payment_succeeded': {
-        const invoice = event.data.object as Stripe.Invoice;
-        const subscriptionId = invoice.subscription as string;
-        
-        if (subscriptionId) {
-          const subscription = await StripeService.getSubscription(subscriptionId);
-          await StripeService.handleSubscriptionWebhook(event, subscription);
-        }
-        break;
-      }
-
-      case 'invoice.payment_failed': {
-        const invoice = event.data.object as Stripe.Invoice;
-        const subscriptionId = invoice.subscription as string;
-        
-        if (subscriptionId) {
-          const subscription = await StripeService.getSubscription(subscriptionId);
-          await StripeService.handleSubscriptionWebhook(event, subscription);
-        }
-        break;
-      }
-
-      case 'payment_intent.succeeded': {
-        // Payment succeeded - check if subscription needs to be activated
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        const customerId = paymentIntent.customer as string;
-        
-        if (customerId) {
-          // Get customer's subscriptions
-          const subscriptions = await StripeService.getClient().subscriptions.list({
-            customer: customerId,
-            status: 'all',
-            limit: 10
-          });
-
-          // Find the subscription that was just paid
-          const paidSubscription = subscriptions.data.find(
-            sub => sub.latest_invoice && 
-            (sub.latest_invoice as Stripe.Invoice).payment_intent === paymentIntent.id
-          );
-
-          if (paidSubscription) {
-            await StripeService.handleSubscriptionWebhook(event, paidSubscription);
-          }
-        }
-        break;
-      }
-
-      default:
-            }
+    // Persist before processing; Stripe redeliveries share event.id and are skipped
+    const { event: storedEvent, duplicate } = await WebhookQueueService.receive({
+      provider: 'stripe',
+      eventId: event.id,
+      eventType: event.type,
+      payload: event
+    });
 
-    res.json({ received: true });
+    res.json({ received: true, duplicate, status: storedEvent.status });
   } catch (error: any) {
         res.status(500).json({ error: 'Webhook processing failed' });
   }
@@ -578,7 +567,7 @@ router.post('/cancel', authenticateToken, async (req, res) => {
       const user = await FirebaseService.getUserById(userId);
       if (user && user.discordId) {
         try {
-          await DiscordBotService.removeMemberFromServer(user.discordId);
+          await DiscordRoleSyncService.syncMember(user.discordId, { trigger: 'subscription', subscriptionActive: false });
         } catch (error) {
                   }
       }
@@ -624,6 +613,47 @@ router.get('/customer-portal', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * Billing portal link from billing emails: opens a fresh Stripe portal session
+ * GET /api/payments/billing-portal?token=...
+ */
+router.get('/billing-portal', async (req, res) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
+  try {
+    const userId = BillingEmailService.verifyPortalToken(String(req.query.token || ''));
+    const subscription = userId ? await FirebaseService.getSubscriptionByUserId(userId) : null;
+    if (!subscription) {
+      return res.redirect(`${frontendUrl}/settings`);
+    }
+
+    const session = await StripeService.createCustomerPortalSession(subscription.stripeCustomerId, `${frontendUrl}/settings`);
+    res.redirect(session.url);
+  } catch (error: any) {
+    res.redirect(`${frontendUrl}/settings`);
+  }
+});
+
+/**
+ * Unsubscribe link from optional billing emails. POST is the one-click List-Unsubscribe request mail clients send.
+ * GET|POST /api/payments/email-unsubscribe?token=...
+ */
+const handleEmailUnsubscribe = async (req: express.Request, res: express.Response) => {
+  try {
+    const unsubscribe = BillingEmailService.verifyUnsubscribeToken(String(req.query.token || ''));
+    if (!unsubscribe || !(await BillingEmailService.unsubscribe(unsubscribe.userId, unsubscribe.type))) {
+      return res.status(400).send('This unsubscribe link is invalid.');
+    }
+
+    const label = BILLING_EMAIL_TYPES[unsubscribe.type].label;
+    res.send(`You have been unsubscribed from "${label}" emails. You can change this any time in your portal settings.`);
+  } catch (error: any) {
+    res.status(500).send('Failed to unsubscribe. Please try again later.');
+  }
+};
+
+router.get('/email-unsubscribe', handleEmailUnsubscribe);
+router.post('/email-unsubscribe', handleEmailUnsubscribe);
+
 /**
  * Admin Refund Endpoint
  * POST /api/payments/admin/refund
@@ -671,7 +701,7 @@ router.post('/admin/refund', authenticateToken, requireAdmin, async (req, res) =
         // Remove from Discord server
         if (user.discordId) {
           try {
-            await DiscordBotService.removeMemberFromServer(user.discordId);
+            await DiscordRoleSyncService.syncMember(user.discordId, { trigger: 'subscription', subscriptionActive: false });
           } catch (error) {
                       }
         }
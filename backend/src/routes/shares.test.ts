@@ -0,0 +1,151 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import shareRoutes from './shares';
+import { DocumentShareService } from '../services/documentShareService';
+import { FirebaseService, AuthAttemptCounter, Deal, Document, DocumentShareLink } from '../services/firebaseService';
+
+const deal = { id: 'deal-1', propertyAddress: '12 Main St' } as Deal;
+const owner = { id: 'user-1', username: 'member' };
+
+describe('share link routes', () => {
+  let server: Server;
+  let baseUrl: string;
+  let links: Map<string, DocumentShareLink>;
+  let counters: Map<string, AuthAttemptCounter>;
+  let documents: Document[];
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/shares', shareRoutes);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/shares`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    links = new Map();
+    counters = new Map();
+    documents = [
+      { id: 'doc-1', dealId: deal.id, originalName: 'appraisal.pdf', filename: 'appraisal.pdf', fileSize: 1024, mimeType: 'application/pdf' } as Document,
+      { id: 'doc-2', dealId: deal.id, originalName: 'upload.pdf', filename: 'upload.pdf', scanStatus: 'pending' } as Document,
+    ];
+
+    mock.method(FirebaseService, 'createDocumentShareLink', async (data: Omit<DocumentShareLink, 'id' | 'createdAt' | 'accessCount'>) => {
+      const link = { ...data, id: `link-${links.size + 1}`, createdAt: Timestamp.now(), accessCount: 0 };
+      links.set(link.id, link);
+      return link;
+    });
+    mock.method(FirebaseService, 'getDocumentShareLinkByTokenHash', async (tokenHash: string) =>
+      [...links.values()].find(link => link.tokenHash === tokenHash) || null);
+    mock.method(FirebaseService, 'getDealById', async () => deal);
+    mock.method(FirebaseService, 'getDocumentsByDeal', async () => documents);
+    mock.method(FirebaseService, 'recordDocumentShareAccess', async () => undefined);
+    mock.method(FirebaseService, 'createSecurityEvent', async () => undefined);
+    // Wrong-password counting runs in a transaction; run it against the in-memory counters
+    mock.method(getFirestore(), 'runTransaction', async (update: (transaction: unknown) => Promise<unknown>) => update({
+      get: async (ref: { id: string }) => {
+        const counter = counters.get(ref.id);
+        return { exists: !!counter, data: () => counter };
+      },
+      set: (ref: { id: string }, counter: AuthAttemptCounter) => {
+        counters.set(ref.id, counter);
+      },
+    }));
+    mock.method(FirebaseService, 'getAuthAttemptCounter', async () => [...counters.values()][0] || null);
+    mock.method(FirebaseService, 'clearAuthFailures', async () => {
+      counters.clear();
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const open = (token: string, password?: string) => fetch(`${baseUrl}/${token}/access`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(password === undefined ? {} : { password }),
+  });
+
+  it('does not store the link token or the password', async () => {
+    const { link, token } = await DocumentShareService.createLink(deal, ['doc-1'], { password: 'lender-pass' }, owner);
+
+    assert.ok(!JSON.stringify(link).includes(token));
+    assert.ok(!JSON.stringify(link).includes('lender-pass'));
+  });
+
+  it('asks for the password before listing the files', async () => {
+    const { token } = await DocumentShareService.createLink(deal, ['doc-1'], { password: 'lender-pass' }, owner);
+
+    const response = await open(token);
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: 'This link needs a password', passwordRequired: true });
+  });
+
+  it('opens with the right password and hands out an access token for that link only', async () => {
+    const { link, token } = await DocumentShareService.createLink(deal, ['doc-1', 'doc-2'], { password: 'lender-pass' }, owner);
+    const { link: otherLink } = await DocumentShareService.createLink(deal, ['doc-1'], {}, owner);
+
+    const response = await open(token, 'lender-pass');
+    const body = await response.json() as { files: Array<{ id: string }>; accessToken: string };
+
+    assert.equal(response.status, 200);
+    // The quarantined upload stays hidden
+    assert.deepEqual(body.files.map(file => file.id), ['doc-1']);
+    assert.equal(DocumentShareService.verifyAccessToken(body.accessToken, link), true);
+    assert.equal(DocumentShareService.verifyAccessToken(body.accessToken, otherLink), false);
+  });
+
+  it('locks the link after repeated wrong passwords, even for the right one', async () => {
+    const { token } = await DocumentShareService.createLink(deal, ['doc-1'], { password: 'lender-pass' }, owner);
+
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      assert.equal((await open(token, `guess-${attempt}`)).status, 401);
+    }
+    const response = await open(token, 'lender-pass');
+
+    assert.equal(response.status, 429);
+    assert.ok(Number(response.headers.get('retry-after')) > 0);
+  });
+
+  it('forgets wrong passwords once the right one is given', async () => {
+    const { token } = await DocumentShareService.createLink(deal, ['doc-1'], { password: 'lender-pass' }, owner);
+
+    for (let attempt = 1; attempt <= 9; attempt++) {
+      await open(token, `guess-${attempt}`);
+    }
+    assert.equal((await open(token, 'lender-pass')).status, 200);
+
+    assert.equal((await open(token, 'guess-10')).status, 401);
+    assert.equal((await open(token, 'lender-pass')).status, 200);
+  });
+
+  it('refuses downloads without a valid access token', async () => {
+    const { token } = await DocumentShareService.createLink(deal, ['doc-1'], {}, owner);
+
+    const response = await fetch(`${baseUrl}/${token}/files/doc-1?access=forged`);
+
+    assert.equal(response.status, 401);
+  });
+
+  it('stops working once the link is revoked or expired', async () => {
+    const { link, token } = await DocumentShareService.createLink(deal, ['doc-1'], {}, owner);
+
+    links.set(link.id, { ...link, expiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+    assert.equal((await open(token)).status, 410);
+
+    links.set(link.id, { ...link, revokedAt: Timestamp.now() });
+    assert.equal((await open(token)).status, 410);
+  });
+});
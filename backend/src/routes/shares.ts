@@ -0,0 +1,151 @@
+import express, { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { FirebaseService, DocumentShareLink } from '../services/firebaseService';
+import { DocumentShareService } from '../services/documentShareService';
+import { SecurityService } from '../services/securityService';
+import { sendFileDownload } from '../utils/fileDownload';
+
+const router = express.Router();
+
+// Public: share links are opened by lenders and others outside the portal
+
+const LINK_UNAVAILABLE: Record<'expired' | 'revoked', string> = {
+  expired: 'This link has expired',
+  revoked: 'This link has been revoked',
+};
+
+/**
+ * The active link for the token in the URL, or null after sending the error response
+ */
+async function loadActiveLink(req: Request, res: Response): Promise<DocumentShareLink | null> {
+  const link = await DocumentShareService.findByToken(req.params.token);
+  if (!link) {
+    res.status(404).json({ error: 'Link not found' });
+    return null;
+  }
+  const status = DocumentShareService.getStatus(link);
+  if (status !== 'active') {
+    res.status(410).json({ error: LINK_UNAVAILABLE[status] });
+    return null;
+  }
+  return link;
+}
+
+/**
+ * The active link, after checking the access token from opening it
+ */
+async function loadAuthorizedLink(req: Request, res: Response): Promise<DocumentShareLink | null> {
+  const link = await loadActiveLink(req, res);
+  if (!link) return null;
+  if (!DocumentShareService.verifyAccessToken(String(req.query.access || ''), link)) {
+    res.status(401).json({ error: 'Your access has expired. Open the link again.' });
+    return null;
+  }
+  return link;
+}
+
+/**
+ * POST /api/shares/:token/access
+ * Open a link. Links with a password answer 401 with passwordRequired until it is given.
+ */
+router.post('/:token/access', [
+  body('password').optional().isString(),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const link = await loadActiveLink(req, res);
+    if (!link) return;
+
+    if (link.passwordHash) {
+      const lockedUntil = await SecurityService.getLockedUntil('share_link', link.id);
+      if (lockedUntil) {
+        res.setHeader('Retry-After', SecurityService.retryAfterSeconds(lockedUntil).toString());
+        return res.status(429).json({ error: 'Too many wrong passwords. Try again later.' });
+      }
+
+      if (!req.body.password) {
+        return res.status(401).json({ error: 'This link needs a password', passwordRequired: true });
+      }
+      if (!(await DocumentShareService.checkPassword(link, req.body.password))) {
+        await SecurityService.registerFailure('share_link', link.id, 'share_link_password_failed', req, {
+          details: { shareLinkId: link.id, dealId: link.dealId },
+        });
+        return res.status(401).json({ error: 'Wrong password', passwordRequired: true });
+      }
+      await SecurityService.clearFailures('share_link', link.id);
+    }
+
+    const [deal, documents] = await Promise.all([
+      FirebaseService.getDealById(link.dealId),
+      DocumentShareService.getDocuments(link),
+    ]);
+    await DocumentShareService.recordAccess(link, req, 'open');
+
+    res.json({
+      title: deal?.propertyAddress || 'Shared documents',
+      sharedBy: link.createdByName,
+      expiresAt: link.expiresAt.toDate().toISOString(),
+      accessToken: DocumentShareService.issueAccessToken(link),
+      files: documents.map(document => ({
+        id: document.id,
+        name: DocumentShareService.getFileName(document),
+        size: document.fileSize,
+        mimeType: document.mimeType,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to open link' });
+  }
+});
+
+/**
+ * GET /api/shares/:token/files/:documentId?access=...
+ */
+router.get('/:token/files/:documentId', async (req: Request, res: Response) => {
+  try {
+    const link = await loadAuthorizedLink(req, res);
+    if (!link) return;
+
+    const document = (await DocumentShareService.getDocuments(link)).find(candidate => candidate.id === req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const file = await DocumentShareService.downloadDocument(document);
+    await DocumentShareService.recordAccess(link, req, 'download', document);
+    sendFileDownload(res, DocumentShareService.getFileName(document), document.mimeType || file.mimeType || 'application/octet-stream', file.content);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to download file' });
+  }
+});
+
+/**
+ * GET /api/shares/:token/zip?access=...
+ * Every file on the link in one zip
+ */
+router.get('/:token/zip', async (req: Request, res: Response) => {
+  try {
+    const link = await loadAuthorizedLink(req, res);
+    if (!link) return;
+
+    const documents = await DocumentShareService.getDocuments(link);
+    if (documents.length === 0) {
+      return res.status(404).json({ error: 'There are no files on this link' });
+    }
+
+    const [deal, zip] = await Promise.all([
+      FirebaseService.getDealById(link.dealId),
+      DocumentShareService.buildZip(documents),
+    ]);
+    await DocumentShareService.recordAccess(link, req, 'zip', documents);
+    sendFileDownload(res, `${deal?.propertyAddress || 'documents'}.zip`, 'application/zip', zip);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build zip' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { StripeService } from '../services/stripeService';
 import { FirebaseService } from '../services/firebaseService';
+import { SessionService } from '../services/sessionService';
 
 const router = express.Router();
 
@@ -180,21 +181,7 @@ router.post('/create-subscription', async (req, res) => {
     }
 
     // Try to get authenticated user (optional)
-    let userId: string | null = null;
-    try {
-      const authHeader = req.headers['authorization'];
-      const token = authHeader && authHeader.split(' ')[1];
-      
-      if (token && process.env.JWT_SECRET) {
-        const jwt = require('jsonwebtoken');
-        const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
-        if (decoded?.userId) {
-          userId = decoded.userId as string;
-        }
-      }
-    } catch (error) {
-      // Not authenticated - that's okay for new users
-    }
+    const userId = await SessionService.getOptionalUserId(req);
 
     // Prepare metadata - include all Discord info for webhook to create user
     const metadata: Record<string, string> = {};
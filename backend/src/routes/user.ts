@@ -1,5 +1,9 @@
 import express, { Request, Response } from 'express';
-import { FirebaseService } from '../services/firebaseService';
+import { body, query, validationResult } from 'express-validator';
+import { FirebaseService, BillingEmailType, NotificationType } from '../services/firebaseService';
+import { BillingEmailService, BILLING_EMAIL_TYPES } from '../services/billingEmailService';
+import { NotificationService, NOTIFICATION_TYPES } from '../services/notificationService';
+import { DiscordApiClient } from '../services/discordApiClient';
 // AuthRequest is now available globally through Express namespace
 
 const router = express.Router();
@@ -60,4 +64,133 @@ router.put('/profile', async (req: Request, res: Response) => {
   }
 });
 
+// Billing emails and whether the user receives them; critical ones can't be turned off
+router.get('/billing-email-preferences', async (req: Request, res: Response) => {
+  try {
+    const user = await FirebaseService.getUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const optOuts = user.billingEmailOptOuts || [];
+    res.json({
+      preferences: (Object.keys(BILLING_EMAIL_TYPES) as BillingEmailType[]).map(type => ({
+        type,
+        label: BILLING_EMAIL_TYPES[type].label,
+        critical: BILLING_EMAIL_TYPES[type].critical,
+        subscribed: !optOuts.includes(type),
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch billing email preferences' });
+  }
+});
+
+router.put('/billing-email-preferences', [
+  body('optOuts').isArray().withMessage('optOuts must be a list of email types'),
+  body('optOuts.*')
+    .custom(type => BillingEmailService.isBillingEmailType(type) && !BillingEmailService.isCritical(type))
+    .withMessage('Only optional billing emails can be turned off'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const optOuts = [...new Set(req.body.optOuts as BillingEmailType[])];
+    const updatedUser = await FirebaseService.updateUser(req.user!.id, { billingEmailOptOuts: optOuts });
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ optOuts });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update billing email preferences' });
+  }
+});
+
+// Get the user's in-app notifications, newest first
+router.get('/notifications', [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 30;
+    const [notifications, unreadCount] = await Promise.all([
+      FirebaseService.getInAppNotifications(req.user!.id, limit),
+      FirebaseService.countUnreadNotifications(req.user!.id),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+router.post('/notifications/read-all', async (req: Request, res: Response) => {
+  try {
+    const updated = await FirebaseService.markAllNotificationsRead(req.user!.id);
+    res.json({ updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+router.post('/notifications/:id/read', async (req: Request, res: Response) => {
+  try {
+    if (!(await FirebaseService.markNotificationRead(req.user!.id, req.params.id))) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    res.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+router.get('/notification-preferences', async (req: Request, res: Response) => {
+  try {
+    const user = await FirebaseService.getUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const resolved = NotificationService.resolvePreferences(user);
+    res.json({
+      preferences: (Object.keys(NOTIFICATION_TYPES) as NotificationType[]).map(type => ({
+        type,
+        label: NOTIFICATION_TYPES[type].label,
+        description: NOTIFICATION_TYPES[type].description,
+        channels: NOTIFICATION_TYPES[type].channels,
+        enabled: resolved[type],
+      })),
+      discordLinked: !!user.discordId && DiscordApiClient.isConfigured(),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+router.put('/notification-preferences', [
+  body('preferences').isObject().withMessage('preferences must map notification types to channels'),
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const preferences = NotificationService.sanitizePreferences(req.body.preferences);
+    const updatedUser = await FirebaseService.updateUser(req.user!.id, { notificationPreferences: preferences });
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ preferences: NotificationService.resolvePreferences(updatedUser) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { FirebaseService } from '../services/firebaseService';
+import { FirebaseService, WebhookEvent } from '../services/firebaseService';
 import { GHLService } from '../services/ghlService';
+import { DealActivityService } from '../services/dealActivityService';
+import { StageMappingService } from '../services/stageMappingService';
+import { WebhookQueueService } from '../services/webhookQueueService';
+import { DealMatchingService } from '../services/dealMatchingService';
+import { EmailQueueService } from '../services/emailQueueService';
 
 const router = Router();
 
@@ -14,44 +19,114 @@ router.get('/', (req: Request, res: Response) => {
       'GET /api/webhooks/test',
       'POST /api/webhooks/test', 
       'POST /api/webhooks/ghl',
+      'POST /api/webhooks/email-bounce',
       'GET /api/webhooks/diagnose'
     ]
   });
 });
 
-// Helper function to map GHL stage names to system stage names
-function mapGHLStageToSystemStage(ghlStageName: string): string {
-  const stageMap: Record<string, string> = {
-    'Initial Qualification Stage': 'Qualification',
-    'Needs Analysis Stage': 'Needs Analysis', 
-    'Lender Submission Stage': 'Lender Submission',
-    'Proposal Stage': 'Proposal',
-    'Signed Proposal Stage': 'Signed Proposal',
-    'Underwriting Stage': 'Underwriting',
-    'Qualification': 'Qualification',
-    'Needs Analysis': 'Needs Analysis',
-    'Lender Submission': 'Lender Submission',
-    'Proposal': 'Proposal',
-    'Signed Proposal': 'Signed Proposal',
-    'Underwriting': 'Underwriting'
-  };
+// Resolve the portal stage for a webhook opportunity using the admin-configured stage mapping
+async function resolveOpportunityStage(opportunity: any): Promise<{ stage: string; mapped: boolean } | null> {
+  const stageId = opportunity.pipeline_stage_id || opportunity.pipelineStageId;
+  const stageName = opportunity.pipleline_stage || opportunity.pipeline_stage;
+  if (!stageId && !stageName) {
+    return null;
+  }
+  return StageMappingService.resolvePortalStage({
+    pipelineId: opportunity.pipeline_id || opportunity.pipelineId,
+    stageId,
+    stageName,
+  });
+}
+
+// Apply a GHL opportunity payload to the matching deal.
+// Throws on unexpected errors so the webhook queue can retry the event.
+// Queued events that match no deal, or more than one, are sent to the admin reconciliation list.
+async function processGHLOpportunity(body: any, event?: WebhookEvent): Promise<any> {
+  const opportunity = body.opportunity || body;
+  
+  const match = await DealMatchingService.matchGHLOpportunity(opportunity);
+  const deal = match.deal;
+  
+  if (!deal) {
+    const reconciliation = event
+      ? await DealMatchingService.flagForReconciliation({
+          provider: 'ghl',
+          opportunity,
+          match,
+          webhookEventId: event.id,
+          payload: body
+        })
+      : null;
+    
+    return {
+      matched: false,
+      ambiguous: match.ambiguous,
+      message: match.ambiguous
+        ? 'Webhook matched more than one deal and was sent to reconciliation'
+        : 'Webhook received but no matching deal found',
+      opportunityName: opportunity.opportunity_name,
+      candidateDealIds: match.candidates.map(candidate => candidate.id),
+      reconciliationId: reconciliation?.id
+    };
+  }
   
-  // Handle exact matches first
-  if (stageMap[ghlStageName]) {
-    return stageMap[ghlStageName];
+  // Prepare updates from GHL opportunity
+  const updates: any = {};
+  
+  // Update GHL opportunity ID if not already set
+  if (!deal.ghlOpportunityId && opportunity.id) {
+    updates.ghlOpportunityId = opportunity.id;
   }
   
-  // Handle partial matches (case insensitive)
-  const lowerStageName = ghlStageName.toLowerCase();
-  for (const [ghlStage, systemStage] of Object.entries(stageMap)) {
-    if (lowerStageName.includes(ghlStage.toLowerCase()) || ghlStage.toLowerCase().includes(lowerStageName)) {
-      return systemStage;
+  // Handle stage changes
+  const resolvedStage = await resolveOpportunityStage(opportunity);
+  if (resolvedStage) {
+    const currentStage = deal.stage;
+    
+    if (currentStage !== resolvedStage.stage) {
+      updates.stage = resolvedStage.stage;
+      updates.stageLastUpdated = new Date().toISOString();
     }
   }
   
-  return ghlStageName;
+  // Update other fields from GHL data
+  if (opportunity.monetaryValue) updates.opportunityValue = opportunity.monetaryValue;
+  if (opportunity.assignedTo) updates.owner = opportunity.assignedTo;
+  if (opportunity.source) updates.opportunitySource = opportunity.source;
+  if (opportunity.lostReason) updates.lostReason = opportunity.lostReason;
+  
+  // Handle custom fields if they exist
+  if (opportunity.customFields) {
+    const customFields = opportunity.customFields;
+    if (customFields['opportunity.deal_type']) updates.dealType = customFields['opportunity.deal_type'];
+    if (customFields['opportunity.property_type']) updates.propertyType = customFields['opportunity.property_type'];
+    if (customFields['opportunity.property_address']) updates.propertyAddress = customFields['opportunity.property_address'];
+    if (customFields['opportunity.property_vintage']) updates.propertyVintage = customFields['opportunity.property_vintage'];
+    if (customFields['opportunity.sponsor_net_worth']) updates.sponsorNetWorth = customFields['opportunity.sponsor_net_worth'];
+    if (customFields['opportunity.sponsor_liquidity']) updates.sponsorLiquidity = customFields['opportunity.sponsor_liquidity'];
+    if (customFields['opportunity.loan_request']) updates.loanRequest = customFields['opportunity.loan_request'];
+    if (customFields['opportunity.additional_information']) updates.additionalInformation = customFields['opportunity.additional_information'];
+  }
+  
+  // Update the deal in Firebase
+  if (Object.keys(updates).length > 0) {
+    await DealActivityService.updateDeal(deal, updates, { source: 'ghl_webhook' });
+  }
+  
+  return {
+    matched: true,
+    matchedBy: match.matchedBy,
+    confidence: match.confidence,
+    message: 'Deal updated successfully',
+    dealId: deal.id,
+    updates: updates,
+    unmappedStage: resolvedStage && !resolvedStage.mapped ? resolvedStage.stage : undefined
+  };
 }
 
+WebhookQueueService.registerHandler('ghl', processGHLOpportunity);
+
 // GHL Webhook endpoint for opportunity updates
 router.post('/ghl', async (req: Request, res: Response) => {
   try {
@@ -66,84 +141,68 @@ router.post('/ghl', async (req: Request, res: Response) => {
     }
     
     // Get the opportunity data from the webhook
-    let opportunity = req.body.opportunity || req.body;
+    const opportunity = req.body?.opportunity || req.body;
     
-    if (!opportunity) {
+    if (!opportunity || Object.keys(opportunity).length === 0) {
       return res.status(400).json({ error: 'No opportunity data received' });
     }
     
-    // Get all deals and find the matching one
-    const deals = await FirebaseService.getAllDeals();
-    
-    // Find deal by opportunity name (property address) or dealId
-    const deal = deals.find(d => 
-      d.propertyAddress === opportunity.opportunity_name || 
-      d.title === opportunity.opportunity_name ||
-      d.dealId === opportunity.opportunity_name
-    );
-    
-    if (!deal) {
-      return res.json({ 
-        success: true, 
-        message: 'Webhook received but no matching deal found',
-        opportunityName: opportunity.opportunity_name,
-        availableDealIds: deals.map(d => d.dealId).filter(Boolean)
-      });
-    }
-    
-        // Prepare updates from GHL opportunity
-    const updates: any = {};
-    
-    // Update GHL opportunity ID if not already set
-    if (!deal.ghlOpportunityId && opportunity.id) {
-      updates.ghlOpportunityId = opportunity.id;
-    }
-    
-    // Handle stage changes
-    const stageField = opportunity.pipleline_stage || opportunity.pipeline_stage;
-    if (stageField) {
-      const ghlStageName = stageField;
-      const currentStage = deal.stage;
-      const normalizedStage = mapGHLStageToSystemStage(ghlStageName);
-      
-      if (currentStage !== normalizedStage) {
-        updates.stage = normalizedStage;
-        updates.stageLastUpdated = new Date().toISOString();
-              }
-    }
+    // GHL workflow webhooks carry no delivery id, so fall back to a payload fingerprint
+    const eventId = (req.headers['x-ghl-event-id'] as string) ||
+      req.body.webhookId ||
+      req.body.eventId ||
+      WebhookQueueService.fingerprint(req.body);
     
-    // Update other fields from GHL data
-    if (opportunity.monetaryValue) updates.opportunityValue = opportunity.monetaryValue;
-    if (opportunity.assignedTo) updates.owner = opportunity.assignedTo;
-    if (opportunity.source) updates.opportunitySource = opportunity.source;
-    if (opportunity.lostReason) updates.lostReason = opportunity.lostReason;
+    // Persist first so the event survives a processing failure
+    const { event, duplicate, result } = await WebhookQueueService.receive({
+      provider: 'ghl',
+      eventId,
+      eventType: req.body.type || req.body.event || 'opportunity_update',
+      payload: req.body
+    });
     
-    // Handle custom fields if they exist
-    if (opportunity.customFields) {
-      const customFields = opportunity.customFields;
-      if (customFields['opportunity.deal_type']) updates.dealType = customFields['opportunity.deal_type'];
-      if (customFields['opportunity.property_type']) updates.propertyType = customFields['opportunity.property_type'];
-      if (customFields['opportunity.property_address']) updates.propertyAddress = customFields['opportunity.property_address'];
-      if (customFields['opportunity.property_vintage']) updates.propertyVintage = customFields['opportunity.property_vintage'];
-      if (customFields['opportunity.sponsor_net_worth']) updates.sponsorNetWorth = customFields['opportunity.sponsor_net_worth'];
-      if (customFields['opportunity.sponsor_liquidity']) updates.sponsorLiquidity = customFields['opportunity.sponsor_liquidity'];
-      if (customFields['opportunity.loan_request']) updates.loanRequest = customFields['opportunity.loan_request'];
-      if (customFields['opportunity.additional_information']) updates.additionalInformation = customFields['opportunity.additional_information'];
+    if (duplicate) {
+      return res.json({ success: true, duplicate: true, eventId: event.id, status: event.status });
     }
     
-    // Update the deal in Firebase
-    if (Object.keys(updates).length > 0) {
-      await FirebaseService.updateDeal(deal.id, updates);
-          }
-    
+    // Always acknowledge once stored; failed events are retried from the queue
     res.json({ 
       success: true, 
-      message: 'Deal updated successfully',
-      dealId: deal.id,
-      updates: updates
+      eventId: event.id,
+      status: event.status,
+      ...(result || {})
     });
   } catch (error) {
-        res.status(500).json({ error: 'Failed to process webhook' });
+    res.status(500).json({ error: 'Failed to process webhook' });
+  }
+});
+
+// Bounce reports from the mail provider, for bounces that arrive after the SMTP server accepted
+// the message. Accepts one { messageId, recipient, reason } or { events: [...] }.
+router.post('/email-bounce', async (req: Request, res: Response) => {
+  try {
+    const webhookSecret = process.env.EMAIL_BOUNCE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      return res.status(404).json({ error: 'Bounce webhook is not enabled' });
+    }
+    if (req.headers['x-webhook-secret'] !== webhookSecret) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const reports: any[] = Array.isArray(req.body?.events) ? req.body.events : [req.body];
+    let updated = 0;
+    for (const report of reports) {
+      const messageId = report?.messageId || report?.['message-id'] || report?.message_id;
+      if (typeof messageId !== 'string' || !messageId.trim()) continue;
+      updated += await EmailQueueService.recordBounce(messageId, {
+        recipient: typeof report.recipient === 'string' ? report.recipient : report.email,
+        reason: report.reason || report.diagnosticCode || report.description,
+      });
+    }
+
+    res.json({ success: true, updated });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to record bounce' });
   }
 });
 
@@ -157,88 +216,21 @@ router.get('/test', (req: Request, res: Response) => {
   });
 });
 
-// Test webhook endpoint (POST) - for GHL testing
+// Test webhook endpoint (POST) - for GHL testing. Processes inline without queueing.
 router.post('/test', async (req: Request, res: Response) => {
   try {
     // Get the opportunity data from the webhook
-    let opportunity = req.body.opportunity || req.body;
+    const opportunity = req.body?.opportunity || req.body;
     
     if (!opportunity) {
-            return res.status(400).json({ error: 'No opportunity data received' });
-    }
-    
-    // Get all deals and find the matching one
-    const deals = await FirebaseService.getAllDeals();
-    // Find deal by opportunity name (property address) or dealId
-    const deal = deals.find(d => 
-      d.propertyAddress === opportunity.opportunity_name || 
-      d.title === opportunity.opportunity_name ||
-      d.dealId === opportunity.opportunity_name
-    );
-    
-    if (!deal) {
-      return res.json({ 
-        success: true, 
-        message: 'Webhook received but no matching deal found',
-        opportunityName: opportunity.opportunity_name,
-        availableDealIds: deals.map(d => d.dealId).filter(Boolean),
-        timestamp: new Date().toISOString(),
-        method: req.method,
-        path: req.path,
-        body: req.body
-      });
-    }
-    
-        // Prepare updates from GHL opportunity
-    const updates: any = {};
-    
-    // Update GHL opportunity ID if not already set
-    if (!deal.ghlOpportunityId && opportunity.id) {
-      updates.ghlOpportunityId = opportunity.id;
-    }
-    
-    // Handle stage changes
-    const stageField = opportunity.pipleline_stage || opportunity.pipeline_stage;
-    if (stageField) {
-      const ghlStageName = stageField;
-      const currentStage = deal.stage;
-      const normalizedStage = mapGHLStageToSystemStage(ghlStageName);
-      
-      if (currentStage !== normalizedStage) {
-        updates.stage = normalizedStage;
-        updates.stageLastUpdated = new Date().toISOString();
-              }
-    }
-    
-    // Update other fields from GHL data
-    if (opportunity.monetaryValue) updates.opportunityValue = opportunity.monetaryValue;
-    if (opportunity.assignedTo) updates.owner = opportunity.assignedTo;
-    if (opportunity.source) updates.opportunitySource = opportunity.source;
-    if (opportunity.lostReason) updates.lostReason = opportunity.lostReason;
-    
-    // Handle custom fields if they exist
-    if (opportunity.customFields) {
-      const customFields = opportunity.customFields;
-      if (customFields['opportunity.deal_type']) updates.dealType = customFields['opportunity.deal_type'];
-      if (customFields['opportunity.property_type']) updates.propertyType = customFields['opportunity.property_type'];
-      if (customFields['opportunity.property_address']) updates.propertyAddress = customFields['opportunity.property_address'];
-      if (customFields['opportunity.property_vintage']) updates.propertyVintage = customFields['opportunity.property_vintage'];
-      if (customFields['opportunity.sponsor_net_worth']) updates.sponsorNetWorth = customFields['opportunity.sponsor_net_worth'];
-      if (customFields['opportunity.sponsor_liquidity']) updates.sponsorLiquidity = customFields['opportunity.sponsor_liquidity'];
-      if (customFields['opportunity.loan_request']) updates.loanRequest = customFields['opportunity.loan_request'];
-      if (customFields['opportunity.additional_information']) updates.additionalInformation = customFields['opportunity.additional_information'];
+      return res.status(400).json({ error: 'No opportunity data received' });
     }
     
-    // Update the deal in Firebase
-    if (Object.keys(updates).length > 0) {
-      await FirebaseService.updateDeal(deal.id, updates);
-          }
+    const result = await processGHLOpportunity(req.body);
     
     res.json({ 
       success: true, 
-      message: 'Deal updated successfully',
-      dealId: deal.id,
-      updates: updates,
+      ...result,
       timestamp: new Date().toISOString(),
       method: req.method,
       path: req.path,
@@ -0,0 +1,236 @@
+import jwt from 'jsonwebtoken';
+import { FirebaseService, BillingEmailType, User } from './firebaseService';
+import { EmailService, BillingEmailContent } from './emailService';
+import { NotificationService, NotificationContent } from './notificationService';
+
+export const BILLING_EMAIL_TYPES: Record<BillingEmailType, { label: string; critical: boolean }> = {
+  trial_ending: { label: 'Trial ending soon', critical: false },
+  payment_failed: { label: 'Payment failed', critical: true },
+  subscription_canceled: { label: 'Subscription canceled', critical: true },
+  grace_period_ending: { label: 'Access ending tomorrow', critical: false },
+  access_revoked: { label: 'Access removed', critical: true },
+  payment_recovered: { label: 'Payment recovered', critical: false },
+};
+
+export interface BillingEmailDetails {
+  accessEndsAt?: Date; // When portal and Discord access end (grace period end)
+  trialEndsAt?: Date;
+  reminder?: boolean; // A follow-up dunning email rather than the first notice
+}
+
+const PORTAL_LINK_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const formatDate = (date?: Date) =>
+  date ? date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }) : 'soon';
+
+/**
+ * Billing lifecycle emails (trial ending, failed and recovered payments, cancellation, grace period
+ * and revoked access). Critical ones always go out; the rest respect the user's opt-outs and carry
+ * an unsubscribe link. Each email has a dedupe key so webhook retries and sweep runs send it once.
+ */
+export class BillingEmailService {
+  static isCritical(type: BillingEmailType): boolean {
+    return BILLING_EMAIL_TYPES[type].critical;
+  }
+
+  static isBillingEmailType(type: any): type is BillingEmailType {
+    return typeof type === 'string' && type in BILLING_EMAIL_TYPES;
+  }
+
+  /**
+   * Send a billing email unless it was already sent under the same key or the user opted out.
+   * Returns whether it was sent; throws when sending failed so the caller can retry later.
+   */
+  static async send(type: BillingEmailType, userId: string, dedupeKey: string, details: BillingEmailDetails = {}): Promise<boolean> {
+    const user = await FirebaseService.getUserById(userId);
+    // Manual subscriptions aren't billed through Stripe, so its emails would only confuse them
+    if (!user?.email || user.hasManualSubscription) return false;
+
+    // Problems with the membership also reach the inbox and Discord, whatever the email opt-outs
+    const issue = this.issueNotification(type, details);
+    if (issue) {
+      await NotificationService.notify(user.id, 'subscription_issue', issue, { dedupeKey: `notification_${dedupeKey}` });
+    }
+
+    if (!this.isCritical(type) && user.billingEmailOptOuts?.includes(type)) return false;
+
+    if (!(await FirebaseService.claimBillingEmail(dedupeKey, { userId, email: user.email, type }))) {
+      return false;
+    }
+
+    try {
+      const unsubscribeUrl = this.isCritical(type) ? undefined : this.unsubscribeUrl(user.id, type);
+      await EmailService.sendBillingEmail(user.email, type, this.content(type, user, details), unsubscribeUrl, { userId: user.id });
+    } catch (error: any) {
+      await FirebaseService.completeBillingEmail(dedupeKey, error?.message || String(error));
+      throw error;
+    }
+    await FirebaseService.completeBillingEmail(dedupeKey);
+    return true;
+  }
+
+  static async unsubscribe(userId: string, type: BillingEmailType): Promise<boolean> {
+    const user = await FirebaseService.getUserById(userId);
+    if (!user) return false;
+    const optOuts = new Set(user.billingEmailOptOuts || []);
+    optOuts.add(type);
+    await FirebaseService.updateUser(user.id, { billingEmailOptOuts: [...optOuts] });
+    return true;
+  }
+
+  /**
+   * Token for the one-click unsubscribe link. It doesn't expire, like any unsubscribe link.
+   */
+  static verifyUnsubscribeToken(token: string): { userId: string; type: BillingEmailType } | null {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      if (decoded?.purpose !== 'billing_email_unsubscribe' || !decoded.userId || !this.isBillingEmailType(decoded.type)) {
+        return null;
+      }
+      return { userId: decoded.userId, type: decoded.type };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * User id of a billing portal link. The link opens a fresh Stripe portal session when clicked,
+   * since portal sessions themselves expire within minutes.
+   */
+  static verifyPortalToken(token: string): string | null {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      return decoded?.purpose === 'billing_portal' && decoded.userId ? decoded.userId : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static apiUrl(): string {
+    return (process.env.API_URL || 'https://rain.club/api').replace(/\/$/, '');
+  }
+
+  private static portalUrl(userId: string): string {
+    const token = jwt.sign({ userId, purpose: 'billing_portal' }, process.env.JWT_SECRET!, { expiresIn: PORTAL_LINK_TTL_SECONDS });
+    return `${this.apiUrl()}/payments/billing-portal?token=${encodeURIComponent(token)}`;
+  }
+
+  private static unsubscribeUrl(userId: string, type: BillingEmailType): string {
+    const token = jwt.sign({ userId, type, purpose: 'billing_email_unsubscribe' }, process.env.JWT_SECRET!);
+    return `${this.apiUrl()}/payments/email-unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  private static issueNotification(type: BillingEmailType, details: BillingEmailDetails): NotificationContent | null {
+    switch (type) {
+      case 'payment_failed':
+        return {
+          title: "Your payment didn't go through",
+          body: `Update your billing details to keep portal and Discord access after ${formatDate(details.accessEndsAt)}.`,
+          link: '/settings',
+        };
+      case 'subscription_canceled':
+        return {
+          title: 'Your membership was canceled',
+          body: details.accessEndsAt && details.accessEndsAt > new Date()
+            ? `You keep portal and Discord access until ${formatDate(details.accessEndsAt)}.`
+            : 'Your portal and Discord access have ended.',
+          link: '/settings',
+        };
+      case 'grace_period_ending':
+        return {
+          title: 'Your access ends tomorrow',
+          body: 'Resubscribe to keep your deals, documents and Discord role.',
+          link: '/settings',
+        };
+      case 'access_revoked':
+        return {
+          title: 'Your access has ended',
+          body: 'Your membership lapsed. Renew it to get your portal access and Discord role back.',
+          link: '/join',
+        };
+      default:
+        return null;
+    }
+  }
+
+  private static content(type: BillingEmailType, user: User, details: BillingEmailDetails): BillingEmailContent {
+    const frontendUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
+    const greeting = `Hi ${user.username || 'there'},`;
+    const manageBilling = { label: 'Manage billing', url: this.portalUrl(user.id) };
+
+    switch (type) {
+      case 'trial_ending':
+        return {
+          subject: 'Your Rainmakers trial ends soon',
+          heading: 'Your trial ends soon',
+          paragraphs: [
+            greeting,
+            `Your free trial ends on ${formatDate(details.trialEndsAt)}, and your membership will renew automatically.`,
+            'Check that your payment details are up to date to keep your portal and Discord access.',
+          ],
+          action: manageBilling,
+        };
+      case 'payment_failed':
+        return {
+          subject: details.reminder ? 'Reminder: update your billing details' : '⚠️ Payment Failed - Update Your Billing Details',
+          heading: "Your payment didn't go through",
+          paragraphs: [
+            greeting,
+            "We couldn't charge your card for your Rainmakers membership renewal.",
+            `Your portal and Discord access end on ${formatDate(details.accessEndsAt)} unless the payment succeeds before then.`,
+            "If you've already updated your card, you can ignore this email.",
+          ],
+          action: { label: 'Update billing details', url: this.portalUrl(user.id) },
+          tone: 'warning',
+        };
+      case 'subscription_canceled':
+        return {
+          subject: 'Your Rainmakers membership was canceled',
+          heading: 'Your membership was canceled',
+          paragraphs: [
+            greeting,
+            details.accessEndsAt && details.accessEndsAt > new Date()
+              ? `Your subscription has been canceled. You keep portal and Discord access until ${formatDate(details.accessEndsAt)}.`
+              : 'Your subscription has been canceled and your portal and Discord access have ended.',
+            'You can resubscribe at any time.',
+          ],
+          action: manageBilling,
+        };
+      case 'grace_period_ending':
+        return {
+          subject: 'Your Rainmakers access ends tomorrow',
+          heading: 'Your access ends tomorrow',
+          paragraphs: [
+            greeting,
+            `Your membership has ended and your portal and Discord access close on ${formatDate(details.accessEndsAt)}.`,
+            'Resubscribe before then to keep your deals, documents and Discord role.',
+          ],
+          action: manageBilling,
+          tone: 'warning',
+        };
+      case 'access_revoked':
+        return {
+          subject: 'Your Rainmakers access has ended',
+          heading: 'Your access has ended',
+          paragraphs: [
+            greeting,
+            'Your membership lapsed, so your portal access and paid Discord role have been removed.',
+            'Renew your membership to get them back right away.',
+          ],
+          action: { label: 'Renew membership', url: `${frontendUrl}/join` },
+          tone: 'warning',
+        };
+      case 'payment_recovered':
+        return {
+          subject: "You're all set - payment received",
+          heading: 'Payment received',
+          paragraphs: [
+            greeting,
+            'Your payment went through and your membership is active again.',
+            'Your portal and Discord access are restored.',
+          ],
+          action: { label: 'Open the portal', url: frontendUrl },
+        };
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import net from 'net';
+import { MalwareScanner, ScanResult, ScannerUnavailableError } from './malwareScanner';
+
+// clamd's default StreamMaxLength is 25 MB; chunks well under it keep memory flat on both ends
+const CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Scans files with a ClamAV daemon (clamd) over its INSTREAM command, on a TCP port or a unix
+ * socket. `docker run -p 3310:3310 clamav/clamav` gives a local one. Files bigger than clamd's
+ * StreamMaxLength come back as an error, so raise it to the upload limit (50 MB).
+ */
+export class ClamAvScanner implements MalwareScanner {
+  readonly driver = 'clamav' as const;
+
+  constructor(private readonly options: { socketPath?: string; host: string; port: number; timeoutMs: number }) {}
+
+  scan(content: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection(this.options.socketPath)
+        : net.createConnection(this.options.port, this.options.host);
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        reject(error);
+      };
+
+      const finish = () => {
+        if (settled) return;
+        let result: ScanResult;
+        try {
+          result = this.parseReply(Buffer.concat(chunks).toString('utf8'));
+        } catch (error: any) {
+          return fail(error);
+        }
+        settled = true;
+        resolve(result);
+      };
+
+      socket.setTimeout(this.options.timeoutMs, () => fail(new ScannerUnavailableError('ClamAV did not answer in time')));
+      socket.on('error', error => {
+        // clamd answers a stream over StreamMaxLength and hangs up, so the rest of the write fails
+        if (chunks.length) return finish();
+        fail(new ScannerUnavailableError(`ClamAV connection failed: ${error.message}`));
+      });
+      socket.on('data', data => chunks.push(data));
+      socket.on('end', finish);
+
+      socket.on('connect', () => {
+        // z-prefixed commands are NUL-terminated; the stream is length-prefixed chunks ending with a zero length
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += CHUNK_BYTES) {
+          const chunk = content.subarray(offset, offset + CHUNK_BYTES);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+
+  /**
+   * "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR"
+   */
+  private parseReply(reply: string): ScanResult {
+    const line = reply.replace(/\0/g, '').trim();
+    if (/^stream: OK$/.test(line)) {
+      return { infected: false };
+    }
+    const found = /^stream: (.+) FOUND$/.exec(line);
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+    throw new Error(`ClamAV could not scan the file: ${line || 'no reply'}`);
+  }
+}
@@ -0,0 +1,150 @@
+import { FirebaseService, Deal, DealActivity, DealActivitySource, DealFieldChange } from './firebaseService';
+import { NotificationService } from './notificationService';
+import { DealFolderService } from './dealFolderService';
+
+export interface DealActivityContext {
+  source: DealActivitySource;
+  actorId?: string;
+  actorName?: string;
+}
+
+// User-friendly names for deal fields shown in the timeline and in notification emails
+export const DEAL_FIELD_LABELS: { [field: string]: string } = {
+  contactName: 'Contact Name',
+  contactEmail: 'Contact Email',
+  contactPhone: 'Contact Phone',
+  opportunitySource: 'Source',
+  propertyAddress: 'Property Address',
+  propertyType: 'Property Type',
+  notes: 'Notes',
+  dealType: 'Deal Type',
+  propertyVintage: 'Property Vintage',
+  investmentType: 'Investment Type',
+  sponsorNetWorth: 'Sponsor Net Worth',
+  sponsorLiquidity: 'Sponsor Liquidity',
+  loanRequest: 'Loan Request',
+  loanAmount: 'Loan Amount',
+  purchasePrice: 'Purchase Price',
+  appraisedValue: 'Appraised Value',
+  totalProjectCost: 'Total Project Cost',
+  noi: 'NOI',
+  interestRate: 'Interest Rate',
+  amortizationPeriod: 'Amortization Period',
+  dscr: 'DSCR',
+  ltv: 'LTV',
+  debitYield: 'Debt Yield',
+  capRate: 'Cap Rate',
+  additionalInformation: 'Additional Information',
+  status: 'Status',
+  stage: 'Stage',
+  opportunityValue: 'Opportunity Value',
+  owner: 'Owner',
+  lostReason: 'Lost Reason',
+  ghlOpportunityId: 'GHL Opportunity',
+};
+
+// Bookkeeping fields that change on every write and would only add noise to the history
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt', 'stageLastUpdated', 'auditLogs']);
+
+const normalizeValue = (value: any): any => {
+  if (value === undefined || value === '') return null;
+  if (value && typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+const isSameValue = (a: any, b: any): boolean => {
+  const left = normalizeValue(a);
+  const right = normalizeValue(b);
+  if (typeof left === 'object' || typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return left === right;
+};
+
+export class DealActivityService {
+  static getFieldLabel(field: string): string {
+    return DEAL_FIELD_LABELS[field] || field;
+  }
+
+  /**
+   * Compare pending updates with the stored deal and return only the fields that actually change
+   */
+  static diff(deal: Partial<Deal> | Record<string, any>, updates: Record<string, any>): DealFieldChange[] {
+    const changes: DealFieldChange[] = [];
+    Object.entries(updates).forEach(([field, value]) => {
+      if (value === undefined || IGNORED_FIELDS.has(field)) return;
+      const previous = (deal as Record<string, any>)[field];
+      if (isSameValue(previous, value)) return;
+      changes.push({
+        field,
+        label: this.getFieldLabel(field),
+        from: normalizeValue(previous),
+        to: normalizeValue(value),
+      });
+    });
+    return changes;
+  }
+
+  /**
+   * Apply updates to a deal and append a history entry describing what changed, notifying the
+   * owner when the stage moves and refiling documents when the folder name changes. Returns the
+   * updated deal together with the recorded changes.
+   */
+  static async updateDeal(
+    deal: Deal,
+    updates: Record<string, any>,
+    context: DealActivityContext
+  ): Promise<{ deal: Deal | null; changes: DealFieldChange[] }> {
+    const changes = this.diff(deal, updates);
+    const updatedDeal = await FirebaseService.updateDeal(deal.id, updates);
+
+    if (changes.length > 0) {
+      await this.record(deal.id, 'updated', context, changes);
+    }
+
+    // Owners hear about stage moves they didn't make themselves
+    const stageChange = changes.find(change => change.field === 'stage');
+    if (stageChange && stageChange.to && deal.userId && deal.userId !== context.actorId) {
+      await NotificationService.notify(deal.userId, 'deal_stage_changed', {
+        title: `${deal.dealId} moved to ${stageChange.to}`,
+        body: stageChange.from
+          ? `${deal.propertyAddress || 'Your deal'} moved from ${stageChange.from} to ${stageChange.to}.`
+          : `${deal.propertyAddress || 'Your deal'} is now in ${stageChange.to}.`,
+        link: '/',
+      });
+    }
+
+    // The folder template may name the deal's folder after a field that just changed
+    if (updatedDeal && DealFolderService.touchesTemplate(changes.map(change => change.field))) {
+      DealFolderService.syncDealFolder(updatedDeal).catch(() => {
+        // Documents stay in the current folder; the next change tries again
+      });
+    }
+
+    return { deal: updatedDeal, changes };
+  }
+
+  /**
+   * Record a history entry. Failures are swallowed so history never blocks the deal write itself.
+   */
+  static async record(
+    dealId: string,
+    action: DealActivity['action'],
+    context: DealActivityContext,
+    changes: DealFieldChange[] = []
+  ): Promise<DealActivity | null> {
+    try {
+      return await FirebaseService.createDealActivity({
+        dealId,
+        action,
+        source: context.source,
+        actorId: context.actorId,
+        actorName: context.actorName,
+        changes,
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+}
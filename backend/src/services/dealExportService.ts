@@ -0,0 +1,202 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Deal } from './firebaseService';
+import { StoredFile } from './documentStorage';
+import { toCsv } from '../utils/csv';
+
+export type DealExportFormat = 'csv' | 'xlsx';
+
+export interface DealExportColumn {
+  key: string;
+  label: string;
+  defaultSelected: boolean;
+  width: number; // XLSX column width in characters
+}
+
+export const DEAL_EXPORT_FORMATS: DealExportFormat[] = ['csv', 'xlsx'];
+
+export const DEAL_EXPORT_COLUMNS: DealExportColumn[] = [
+  { key: 'dealId', label: 'Deal ID', defaultSelected: true, width: 16 },
+  { key: 'propertyAddress', label: 'Property Address', defaultSelected: true, width: 40 },
+  { key: 'propertyType', label: 'Property Type', defaultSelected: true, width: 16 },
+  { key: 'propertyVintage', label: 'Property Vintage', defaultSelected: false, width: 14 },
+  { key: 'dealType', label: 'Deal Type', defaultSelected: true, width: 16 },
+  { key: 'investmentType', label: 'Investment Type', defaultSelected: true, width: 22 },
+  { key: 'loanRequest', label: 'Loan Request', defaultSelected: true, width: 16 },
+  { key: 'sponsorNetWorth', label: 'Sponsor Net Worth', defaultSelected: false, width: 18 },
+  { key: 'sponsorLiquidity', label: 'Sponsor Liquidity', defaultSelected: false, width: 18 },
+  { key: 'stage', label: 'Stage', defaultSelected: true, width: 18 },
+  { key: 'status', label: 'Status', defaultSelected: true, width: 10 },
+  { key: 'contactName', label: 'Contact Name', defaultSelected: true, width: 24 },
+  { key: 'contactEmail', label: 'Contact Email', defaultSelected: true, width: 28 },
+  { key: 'contactPhone', label: 'Contact Phone', defaultSelected: false, width: 16 },
+  { key: 'additionalInformation', label: 'Additional Information', defaultSelected: false, width: 50 },
+  { key: 'ghlOpportunityId', label: 'GHL Opportunity ID', defaultSelected: false, width: 26 },
+  { key: 'createdAt', label: 'Created', defaultSelected: true, width: 20 },
+  { key: 'updatedAt', label: 'Last Updated', defaultSelected: false, width: 20 },
+];
+
+// Older deals only carry the application* copies of the form fields
+const FIELD_FALLBACKS: { [key: string]: string[] } = {
+  propertyAddress: ['applicationPropertyAddress'],
+  propertyType: ['applicationPropertyType'],
+  propertyVintage: ['applicationPropertyVintage'],
+  dealType: ['applicationDealType'],
+  loanRequest: ['loanAmount', 'applicationLoanRequest'],
+  sponsorNetWorth: ['applicationSponsorNetWorth'],
+  sponsorLiquidity: ['applicationSponsorLiquidity'],
+  additionalInformation: ['notes', 'applicationAdditionalInformation'],
+};
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value._seconds === 'number') return new Date(value._seconds * 1000);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatDate = (value: any): string => {
+  const date = toDate(value);
+  return date ? date.toISOString().replace('T', ' ').slice(0, 16) : '';
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (!bytes) return '0 KB';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export class DealExportService {
+  /**
+   * Column keys from a comma-separated query value. Unknown keys are dropped; nothing selected means the defaults.
+   */
+  static resolveColumns(value?: string): DealExportColumn[] {
+    const keys = (value || '').split(',').map(key => key.trim()).filter(Boolean);
+    const selected = keys
+      .map(key => DEAL_EXPORT_COLUMNS.find(column => column.key === key))
+      .filter((column): column is DealExportColumn => !!column);
+    return selected.length > 0 ? selected : DEAL_EXPORT_COLUMNS.filter(column => column.defaultSelected);
+  }
+
+  static getFieldValue(deal: Record<string, any>, key: string): string {
+    if (key === 'createdAt' || key === 'updatedAt') {
+      return formatDate(deal[key]);
+    }
+    const candidates = [key, ...(FIELD_FALLBACKS[key] || [])];
+    const value = candidates.map(candidate => deal[candidate]).find(candidate => candidate !== undefined && candidate !== null && candidate !== '');
+    return value === undefined ? '' : String(value);
+  }
+
+  static buildCsv(deals: Deal[], columns: DealExportColumn[]): string {
+    const header = columns.map(column => column.label);
+    const lines = deals.map(deal => columns.map(column => this.getFieldValue(deal, column.key)));
+    return toCsv([header, ...lines]);
+  }
+
+  static async buildXlsx(deals: Deal[], columns: DealExportColumn[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    const sheet = workbook.addWorksheet('Deals', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+    sheet.columns = columns.map(column => ({ header: column.label, key: column.key, width: column.width }));
+    sheet.getRow(1).font = { bold: true };
+    deals.forEach(deal => {
+      sheet.addRow(Object.fromEntries(columns.map(column => [column.key, this.getFieldValue(deal, column.key)])));
+    });
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * One-page lender summary: property, loan and sponsor details plus the deal's document index.
+   * Pass documents as null when document storage could not be read so the sheet says so instead of listing nothing.
+   */
+  static buildTearSheet(deal: Deal, documents: StoredFile[] | null): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const pdf = new PDFDocument({ size: 'LETTER', margin: 50, info: { Title: `Deal Tear Sheet ${deal.dealId || deal.id}` } });
+      const chunks: Buffer[] = [];
+      pdf.on('data', chunk => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+
+      const value = (key: string) => this.getFieldValue(deal, key) || '—';
+      const pageWidth = pdf.page.width - pdf.page.margins.left - pdf.page.margins.right;
+
+      const section = (title: string) => {
+        pdf.x = pdf.page.margins.left; // Field rows leave the cursor in the value column
+        pdf.moveDown(0.8);
+        pdf.font('Helvetica-Bold').fontSize(12).fillColor('#b45309').text(title.toUpperCase());
+        const y = pdf.y + 2;
+        pdf.moveTo(pdf.page.margins.left, y).lineTo(pdf.page.margins.left + pageWidth, y).strokeColor('#d1d5db').stroke();
+        pdf.moveDown(0.4);
+      };
+
+      const fields = (rows: [string, string][]) => {
+        rows.forEach(([label, text]) => {
+          const y = pdf.y;
+          pdf.font('Helvetica-Bold').fontSize(10).fillColor('#374151').text(label, pdf.page.margins.left, y, { width: 150 });
+          pdf.font('Helvetica').fillColor('#111827').text(text, pdf.page.margins.left + 160, y, { width: pageWidth - 160 });
+          pdf.moveDown(0.3);
+        });
+      };
+
+      // Header
+      pdf.font('Helvetica-Bold').fontSize(20).fillColor('#111827').text(value('propertyAddress'));
+      pdf.font('Helvetica').fontSize(10).fillColor('#6b7280')
+        .text(`Deal ${deal.dealId || deal.id}  ·  Prepared ${new Date().toISOString().slice(0, 10)}`);
+
+      section('Property');
+      fields([
+        ['Address', value('propertyAddress')],
+        ['Property Type', value('propertyType')],
+        ['Vintage', value('propertyVintage')],
+      ]);
+
+      section('Loan Request');
+      fields([
+        ['Deal Type', value('dealType')],
+        ['Investment Type', value('investmentType')],
+        ['Loan Request', value('loanRequest')],
+        ['Stage', value('stage')],
+      ]);
+
+      section('Sponsor');
+      fields([
+        ['Sponsor', value('contactName')],
+        ['Email', value('contactEmail')],
+        ['Phone', value('contactPhone')],
+        ['Net Worth', value('sponsorNetWorth')],
+        ['Liquidity', value('sponsorLiquidity')],
+      ]);
+
+      const notes = this.getFieldValue(deal, 'additionalInformation');
+      if (notes) {
+        section('Additional Information');
+        pdf.font('Helvetica').fontSize(10).fillColor('#111827').text(notes, { width: pageWidth });
+      }
+
+      section('Document Index');
+      if (documents === null) {
+        pdf.font('Helvetica-Oblique').fontSize(10).fillColor('#6b7280').text('Document index unavailable: the deal folder could not be read.');
+      } else if (documents.length === 0) {
+        pdf.font('Helvetica-Oblique').fontSize(10).fillColor('#6b7280').text('No documents uploaded yet.');
+      } else {
+        documents
+          .slice()
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .forEach((file, index) => {
+            const y = pdf.y;
+            pdf.font('Helvetica').fontSize(10).fillColor('#111827')
+              .text(`${index + 1}. ${file.name}`, pdf.page.margins.left, y, { width: pageWidth - 170 });
+            pdf.fillColor('#6b7280')
+              .text(`${formatFileSize(file.size)}  ·  ${formatDate(file.lastModifiedDateTime).slice(0, 10)}`, pdf.page.margins.left + pageWidth - 160, y, { width: 160, align: 'right' });
+            pdf.moveDown(0.2);
+          });
+      }
+
+      pdf.end();
+    });
+  }
+}
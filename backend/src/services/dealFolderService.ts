@@ -0,0 +1,196 @@
+import { FirebaseService, Deal, DealFolderTemplate, DealFolderTemplateSubfolder } from './firebaseService';
+import { DocumentStorage, StoredFile, getDocumentStorage, normalizeFolderPath, sanitizeStorageName } from './documentStorage';
+
+export const FOLDER_TEMPLATE_TOKENS: Record<string, string> = {
+  dealId: 'Deal ID, e.g. DEAL-1234',
+  propertyAddress: 'Property address',
+  sponsorName: 'Sponsor name, or the contact name when there is none',
+  state: 'Property state, e.g. TX',
+  stage: 'Current deal stage',
+  dealType: 'Deal type, e.g. Acquisition',
+  propertyType: 'Property type',
+};
+
+// Until an admin saves a template, deals keep the flat folder named after the property
+export const DEFAULT_FOLDER_TEMPLATE: DealFolderTemplate = {
+  folderPath: '{propertyAddress}',
+  subfolders: [],
+};
+
+// Deal fields the tokens read; a change to one of them can rename or move the folder
+const TEMPLATE_FIELDS = [
+  'dealId', 'propertyAddress', 'sponsorName', 'contactName', 'propertyState', 'leadPropertyState', 'stage', 'dealType', 'propertyType',
+];
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+
+// "..., Austin, TX 78701" -> "TX"
+const STATE_PATTERN = /,\s*([A-Za-z]{2})\.?\s*(\d{5}(-\d{4})?)?\s*$/;
+
+export interface RenderedDealFolder {
+  folderPath: string;
+  subfolders: string[];
+}
+
+/**
+ * Lays out each deal's documents from the admin-defined folder template: creates the folder and
+ * its subfolders, files uploads into the subfolder for their checklist item, and moves the folder
+ * when the deal changes in a way that changes its name.
+ */
+export class DealFolderService {
+  static async getTemplate(): Promise<DealFolderTemplate> {
+    return (await FirebaseService.getDealFolderTemplate()) || DEFAULT_FOLDER_TEMPLATE;
+  }
+
+  /**
+   * Tokens the template uses that aren't known
+   */
+  static findUnknownTokens(template: Pick<DealFolderTemplate, 'folderPath' | 'subfolders'>): string[] {
+    const names = [template.folderPath, ...template.subfolders.map(subfolder => subfolder.name)];
+    const unknown = new Set<string>();
+    names.forEach(name => {
+      for (const [, token] of name.matchAll(TOKEN_PATTERN)) {
+        if (!(token in FOLDER_TEMPLATE_TOKENS)) unknown.add(token);
+      }
+    });
+    return [...unknown];
+  }
+
+  static getTokenValues(deal: Partial<Deal> & Record<string, any>): Record<string, string> {
+    const address = (deal.propertyAddress || '').trim();
+    return {
+      dealId: deal.dealId || deal.id || '',
+      propertyAddress: address,
+      sponsorName: deal.sponsorName || deal.contactName || '',
+      state: (deal.propertyState || deal.leadPropertyState || address.match(STATE_PATTERN)?.[1] || '').toUpperCase(),
+      stage: deal.stage || '',
+      dealType: deal.dealType || '',
+      propertyType: deal.propertyType || '',
+    };
+  }
+
+  /**
+   * Fill in a name's tokens. Separators left dangling by an empty token are dropped, so
+   * "{propertyAddress} - {sponsorName}" becomes "12 Main St" when there is no sponsor.
+   */
+  static renderName(name: string, values: Record<string, string>): string {
+    return name
+      .split('/')
+      .map(segment => segment
+        // A value can't add folder levels of its own
+        .replace(TOKEN_PATTERN, (match, token) => (token in values ? values[token].replace(/[\/\\]/g, ' ') : match))
+        .replace(/^[\s\-_,.]+|[\s\-_,]+$/g, '')
+        .replace(/(\s*[-_,]\s*){2,}/g, ' - '))
+      .join('/');
+  }
+
+  static render(template: DealFolderTemplate, deal: Partial<Deal> & Record<string, any>): RenderedDealFolder {
+    const values = this.getTokenValues(deal);
+    const folderPath = normalizeFolderPath(this.renderName(template.folderPath, values))
+      || sanitizeStorageName(values.dealId || 'untitled');
+    return {
+      folderPath,
+      subfolders: template.subfolders
+        .map(subfolder => normalizeFolderPath(this.renderName(subfolder.name, values)))
+        .filter(Boolean),
+    };
+  }
+
+  /**
+   * Where a deal's documents are now. Deals filed before templates existed are in a folder named
+   * after the property address or the deal's document id.
+   */
+  static getCurrentFolder(deal: Deal): string {
+    return deal.documentFolder || sanitizeStorageName(deal.propertyAddress || deal.id);
+  }
+
+  /**
+   * Create the deal's folder and the template's subfolders, and remember where they are
+   */
+  static async createDealFolder(deal: Deal, storage: DocumentStorage = getDocumentStorage()): Promise<string> {
+    const { folderPath, subfolders } = this.render(await this.getTemplate(), deal);
+    await storage.createFolder(folderPath);
+    for (const subfolder of subfolders) {
+      await storage.createFolder(`${folderPath}/${subfolder}`);
+    }
+    if (deal.documentFolder !== folderPath) {
+      await FirebaseService.updateDeal(deal.id, { documentFolder: folderPath });
+    }
+    return folderPath;
+  }
+
+  /**
+   * Folder an upload belongs in: the subfolder listing its checklist item, else the template's
+   * default subfolder, else the deal folder itself
+   */
+  static async getUploadFolder(deal: Deal, checklistItemId?: string): Promise<string> {
+    const template = await this.getTemplate();
+    const values = this.getTokenValues(deal);
+    const subfolder: DealFolderTemplateSubfolder | undefined =
+      (checklistItemId ? template.subfolders.find(candidate => candidate.checklistItemIds.includes(checklistItemId)) : undefined)
+      || template.subfolders.find(candidate => candidate.name === template.defaultSubfolder);
+    const subfolderPath = subfolder ? normalizeFolderPath(this.renderName(subfolder.name, values)) : '';
+    const folder = this.getCurrentFolder(deal);
+    return subfolderPath ? `${folder}/${subfolderPath}` : folder;
+  }
+
+  /**
+   * Storage drivers replace a file uploaded under a name that already exists, so the stored name
+   * starts with a key unique to the upload (a document id, say): "<key>_Rent Roll.xlsx". The name
+   * users see stays on the document as originalName.
+   */
+  static async uploadDealFile(
+    deal: Deal,
+    file: { originalname: string; buffer: Buffer; mimetype: string },
+    fileKey: string,
+    checklistItemId?: string,
+    storage: DocumentStorage = getDocumentStorage()
+  ): Promise<StoredFile> {
+    const folder = await this.getUploadFolder(deal, checklistItemId);
+    return storage.uploadFile(folder, `${fileKey}_${file.originalname}`, file.buffer, file.mimetype);
+  }
+
+  static async getDealFiles(deal: Deal, storage: DocumentStorage = getDocumentStorage()): Promise<StoredFile[]> {
+    return storage.listFiles(this.getCurrentFolder(deal));
+  }
+
+  static touchesTemplate(changedFields: string[]): boolean {
+    return changedFields.some(field => TEMPLATE_FIELDS.includes(field));
+  }
+
+  /**
+   * Move the deal's folder when the template now renders a different path for it (the address or
+   * stage changed, say), then repoint documents and their older versions whose file ids changed.
+   * Only documents in the configured storage are moved. Leaves the deal where it is when the move
+   * fails, so uploads keep going to a folder that exists.
+   */
+  static async syncDealFolder(deal: Deal): Promise<{ from: string; to: string; moved: number } | null> {
+    const storage = getDocumentStorage();
+    if (!(await storage.isConfigured())) return null;
+
+    const from = this.getCurrentFolder(deal);
+    const { folderPath: to } = this.render(await this.getTemplate(), deal);
+    if (from === to) return null;
+
+    const movedIds = await storage.moveFolder(from, to);
+    await this.createDealFolder(deal, storage);
+
+    const documents = await FirebaseService.getDocumentsByDeal(deal.id);
+    let moved = 0;
+    for (const document of documents) {
+      if ((document.storageDriver || 'onedrive') !== storage.driver) continue;
+      const newId = movedIds[document.oneDriveId];
+      if (newId) {
+        await FirebaseService.updateDocumentStorageId(document.id, newId);
+        moved++;
+      }
+    }
+    // Older versions' files moved with the folder too
+    for (const version of await FirebaseService.getDocumentVersionsByDeal(deal.id)) {
+      if ((version.storageDriver || 'onedrive') !== storage.driver) continue;
+      const newId = movedIds[version.oneDriveId];
+      if (newId) await FirebaseService.updateDocumentVersionStorageId(version.id, newId);
+    }
+    return { from, to, moved };
+  }
+}
@@ -0,0 +1,268 @@
+import ExcelJS from 'exceljs';
+import { DealImport, DealImportRowResult } from './firebaseService';
+import { toCsv } from '../utils/csv';
+
+export interface DealImportField {
+  key: string; // Deal form field accepted by POST /api/deals
+  label: string;
+  required: boolean;
+  aliases: string[]; // Column headers that map to this field automatically
+  options?: string[]; // Allowed values, matched case-insensitively
+}
+
+export interface ParsedSpreadsheet {
+  columns: string[];
+  rows: Record<string, string>[];
+  rowNumbers: number[]; // Spreadsheet row of each entry in rows; blank rows are skipped
+}
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Mirrors the required fields and select options of the create deal form
+export const DEAL_IMPORT_FIELDS: DealImportField[] = [
+  { key: 'clientFirstName', label: 'Client First Name', required: true, aliases: ['first name', 'firstname', 'client first name', 'contact first name'] },
+  { key: 'clientLastName', label: 'Client Last Name', required: true, aliases: ['last name', 'lastname', 'surname', 'client last name', 'contact last name'] },
+  { key: 'clientEmail', label: 'Client Email', required: true, aliases: ['email', 'email address', 'client email', 'contact email'] },
+  { key: 'clientPhone', label: 'Client Phone', required: true, aliases: ['phone', 'phone number', 'mobile', 'client phone', 'contact phone'] },
+  { key: 'propertyAddress', label: 'Property Address', required: true, aliases: ['address', 'property address', 'property', 'street address'] },
+  { key: 'dealType', label: 'Deal Type', required: false, aliases: ['deal type', 'transaction type'], options: ['Acquisition', 'Refinance', 'New Construction'] },
+  {
+    key: 'propertyType',
+    label: 'Property Type',
+    required: false,
+    aliases: ['property type', 'asset type', 'asset class'],
+    options: ['Multifamily', 'Office', 'Retail', 'Industrial', 'Hospitality', 'Self Storage', 'Other'],
+  },
+  { key: 'propertyVintage', label: 'Property Vintage', required: false, aliases: ['vintage', 'property vintage', 'year built'] },
+  {
+    key: 'investmentType',
+    label: 'Investment Type',
+    required: false,
+    aliases: ['investment type', 'loan type', 'capital type'],
+    options: [
+      'Permanent Debt',
+      'Bridge Debt',
+      'New Construction Debt',
+      'Mezzanine Debt',
+      'Preferred Equity',
+      'Joint Venture Equity',
+      'General Partner Equity',
+      'Limited Partner Equity',
+    ],
+  },
+  { key: 'sponsorNetWorth', label: 'Sponsor Net Worth', required: false, aliases: ['net worth', 'sponsor net worth'] },
+  { key: 'sponsorLiquidity', label: 'Sponsor Liquidity', required: false, aliases: ['liquidity', 'sponsor liquidity'] },
+  { key: 'loanRequest', label: 'Loan Request', required: false, aliases: ['loan request', 'loan amount', 'loan', 'amount'] },
+  { key: 'anyAdditionalInformation', label: 'Additional Information', required: false, aliases: ['notes', 'additional information', 'comments', 'description'] },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[_\-]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export class DealImportService {
+  /**
+   * Read the first sheet of an XLSX file or a CSV file into header-keyed rows
+   */
+  static async parseFile(buffer: Buffer, fileName: string): Promise<ParsedSpreadsheet> {
+    const table = /\.xlsx$/i.test(fileName)
+      ? await this.readXlsx(buffer)
+      : this.parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+
+    const [headerRow = [], ...dataRows] = table;
+    const columns = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`);
+    if (columns.length === 0) {
+      throw new Error('The file has no header row');
+    }
+
+    const rows: Record<string, string>[] = [];
+    const rowNumbers: number[] = [];
+    dataRows.forEach((cells, index) => {
+      if (!cells.some(cell => cell.trim() !== '')) return;
+      rows.push(Object.fromEntries(columns.map((column, columnIndex) => [column, (cells[columnIndex] || '').trim()])));
+      rowNumbers.push(index + 2);
+    });
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} rows; this file has ${rows.length}`);
+    }
+    return { columns, rows, rowNumbers };
+  }
+
+  private static async readXlsx(buffer: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      throw new Error('The workbook has no sheets');
+    }
+
+    const table: string[][] = [];
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const cells: string[] = [];
+      for (let column = 1; column <= sheet.columnCount; column++) {
+        cells.push(row.getCell(column).text || '');
+      }
+      table[rowNumber - 1] = cells;
+    });
+    return Array.from(table, cells => cells || []);
+  }
+
+  /**
+   * RFC 4180 CSV parsing: quoted fields, escaped quotes and line breaks inside quotes
+   */
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Guess a column -> field mapping from header names
+   */
+  static suggestMapping(columns: string[]): Record<string, string> {
+    const used = new Set<string>();
+    const mapping: Record<string, string> = {};
+    columns.forEach(column => {
+      const header = normalizeHeader(column);
+      const field = DEAL_IMPORT_FIELDS.find(candidate =>
+        !used.has(candidate.key) &&
+        (normalizeHeader(candidate.key) === header || normalizeHeader(candidate.label) === header || candidate.aliases.includes(header))
+      );
+      mapping[column] = field ? field.key : '';
+      if (field) used.add(field.key);
+    });
+    return mapping;
+  }
+
+  /**
+   * Check a mapping before any row is read: known fields only, each used once, and every required field mapped
+   */
+  static validateMapping(mapping: Record<string, string>, columns: string[]): string[] {
+    const errors: string[] = [];
+    const mappedFields = Object.entries(mapping).filter(([, field]) => field);
+
+    mappedFields.forEach(([column, field]) => {
+      if (!columns.includes(column)) errors.push(`Column "${column}" is not in the file`);
+      if (!DEAL_IMPORT_FIELDS.some(candidate => candidate.key === field)) errors.push(`Unknown field "${field}"`);
+    });
+
+    DEAL_IMPORT_FIELDS.forEach(field => {
+      const count = mappedFields.filter(([, mapped]) => mapped === field.key).length;
+      if (count > 1) errors.push(`${field.label} is mapped to more than one column`);
+      if (field.required && count === 0) errors.push(`${field.label} must be mapped to a column`);
+    });
+    return errors;
+  }
+
+  /**
+   * Apply the mapping and validate every row the same way the create deal form does
+   */
+  static validateRows(spreadsheet: ParsedSpreadsheet, mapping: Record<string, string>): DealImportRowResult[] {
+    const { rows, rowNumbers } = spreadsheet;
+    const seen = new Map<string, number>();
+
+    return rows.map((row, index) => {
+      const values: Record<string, string> = {};
+      Object.entries(mapping).forEach(([column, field]) => {
+        if (field) values[field] = row[column] || '';
+      });
+
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      DEAL_IMPORT_FIELDS.forEach(field => {
+        const value = values[field.key];
+        if (field.required && !value) {
+          errors.push(`${field.label} is required`);
+        }
+        if (value && field.options) {
+          const option = field.options.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+          if (option) {
+            values[field.key] = option;
+          } else {
+            errors.push(`${field.label} must be one of: ${field.options.join(', ')}`);
+          }
+        }
+      });
+
+      if (values.clientEmail && !EMAIL_PATTERN.test(values.clientEmail)) {
+        errors.push('Client Email is not a valid email address');
+      }
+
+      const rowNumber = rowNumbers[index];
+      const duplicateKey = `${(values.clientEmail || '').toLowerCase()}|${(values.propertyAddress || '').toLowerCase()}`;
+      if (values.propertyAddress && seen.has(duplicateKey)) {
+        warnings.push(`Same client and property as row ${seen.get(duplicateKey)}`);
+      } else {
+        seen.set(duplicateKey, rowNumber);
+      }
+
+      return {
+        row: rowNumber,
+        status: errors.length > 0 ? 'invalid' : 'valid',
+        errors,
+        warnings,
+        values,
+      };
+    });
+  }
+
+  /**
+   * CSV report of an import: one line per spreadsheet row with its outcome
+   */
+  static buildReportCsv(dealImport: DealImport): string {
+    const fieldKeys = DEAL_IMPORT_FIELDS.map(field => field.key).filter(key =>
+      Object.values(dealImport.mapping).includes(key)
+    );
+    const header = ['Row', 'Status', 'Deal ID', 'GHL Synced', 'Errors', 'Warnings', ...fieldKeys.map(key =>
+      DEAL_IMPORT_FIELDS.find(field => field.key === key)!.label
+    )];
+
+    const lines = dealImport.rows.map(row => [
+      String(row.row),
+      row.status,
+      row.dealNumber || '',
+      row.ghlSynced === undefined ? '' : row.ghlSynced ? 'yes' : 'no',
+      row.errors.join('; '),
+      row.warnings.join('; '),
+      ...fieldKeys.map(key => row.values[key] || ''),
+    ]);
+
+    return toCsv([header, ...lines]);
+  }
+}
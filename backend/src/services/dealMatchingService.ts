@@ -0,0 +1,88 @@
+import { FirebaseService, Deal, DealMatchField, DealReconciliation, WebhookProvider } from './firebaseService';
+
+export type DealMatchConfidence = 'high' | 'medium' | 'low';
+
+export interface DealMatchResult {
+  deal: Deal | null;
+  matchedBy?: DealMatchField;
+  confidence?: DealMatchConfidence;
+  ambiguous: boolean;
+  candidates: Deal[];
+}
+
+interface MatchStep {
+  field: DealMatchField;
+  value?: string;
+  confidence: DealMatchConfidence;
+}
+
+export class DealMatchingService {
+  /**
+   * Match a GHL opportunity payload to a deal.
+   * Steps run from most to least reliable; the first step that finds deals decides the outcome.
+   * When that step finds more than one deal the match is ambiguous and nothing is updated.
+   */
+  static async matchGHLOpportunity(opportunity: any): Promise<DealMatchResult> {
+    const opportunityId = opportunity.id || opportunity.opportunity_id || opportunity.opportunityId;
+    const opportunityName = opportunity.opportunity_name || opportunity.name;
+    const contactId = opportunity.contact_id || opportunity.contactId || opportunity.contact?.id;
+
+    const steps: MatchStep[] = [
+      { field: 'ghlOpportunityId', value: opportunityId, confidence: 'high' },
+      { field: 'dealId', value: opportunityName, confidence: 'high' },
+      { field: 'ghlContactId', value: contactId, confidence: 'medium' },
+      { field: 'propertyAddress', value: opportunityName, confidence: 'low' },
+      { field: 'title', value: opportunityName, confidence: 'low' },
+    ];
+
+    // A deal already linked to a different opportunity can never be this opportunity
+    const isLinkedElsewhere = (deal: Deal) =>
+      !!opportunityId && !!deal.ghlOpportunityId && deal.ghlOpportunityId !== opportunityId;
+
+    return this.runLadder(steps, isLinkedElsewhere);
+  }
+
+  static async runLadder(steps: MatchStep[], exclude: (deal: Deal) => boolean = () => false): Promise<DealMatchResult> {
+    for (const step of steps) {
+      const value = typeof step.value === 'string' ? step.value.trim() : step.value;
+      if (!value) continue;
+
+      const deals = (await FirebaseService.getDealsByField(step.field, value)).filter(deal => !exclude(deal));
+      if (deals.length === 1) {
+        return { deal: deals[0], matchedBy: step.field, confidence: step.confidence, ambiguous: false, candidates: deals };
+      }
+      if (deals.length > 1) {
+        return { deal: null, matchedBy: step.field, confidence: step.confidence, ambiguous: true, candidates: deals };
+      }
+    }
+
+    return { deal: null, ambiguous: false, candidates: [] };
+  }
+
+  /**
+   * Send an unmatched or ambiguous webhook to the admin reconciliation list
+   */
+  static async flagForReconciliation(params: {
+    provider: WebhookProvider;
+    opportunity: any;
+    match: DealMatchResult;
+    webhookEventId?: string;
+    payload: any;
+  }): Promise<DealReconciliation> {
+    const { provider, opportunity, match, webhookEventId, payload } = params;
+    const opportunityId = opportunity.id || opportunity.opportunity_id || opportunity.opportunityId;
+    const opportunityName = opportunity.opportunity_name || opportunity.name;
+    const key = `${provider}_${opportunityId || webhookEventId || Date.now()}`.replace(/\//g, '_');
+
+    return FirebaseService.upsertDealReconciliation(key, {
+      provider,
+      reason: match.ambiguous ? 'ambiguous' : 'unmatched',
+      opportunityId,
+      opportunityName,
+      matchedBy: match.ambiguous ? match.matchedBy : undefined,
+      candidateDealIds: match.candidates.map(deal => deal.id),
+      webhookEventId,
+      payload: JSON.stringify(payload),
+    });
+  }
+}
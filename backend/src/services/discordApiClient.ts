@@ -0,0 +1,136 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+const DEFAULT_API_URL = 'https://discord.com/api/v10';
+const MEMBER_PAGE_SIZE = 1000;
+const MAX_RATE_LIMIT_WAIT_MS = 10 * 1000;
+
+export interface DiscordGuildMember {
+  user: { id: string; username: string; bot?: boolean };
+  roles: string[];
+}
+
+/**
+ * The server endpoints role sync uses: DiscordApiClient in production, InMemoryDiscordApiClient
+ * (fakeDiscordApi.ts) in tests
+ */
+export interface DiscordGuildApi {
+  isConfigured(): boolean;
+  getMember(discordId: string): Promise<DiscordGuildMember | null>;
+  listMembers(): Promise<DiscordGuildMember[]>;
+  addMember(discordId: string, userAccessToken: string, roleIds: string[]): Promise<boolean>;
+  addRole(discordId: string, roleId: string, reason: string): Promise<void>;
+  removeRole(discordId: string, roleId: string, reason: string): Promise<void>;
+}
+
+/**
+ * Bot-token client for the few Discord REST endpoints the portal uses. DISCORD_API_URL points it
+ * at a fake Discord API (see fakeDiscordApi.ts) in local development and tests.
+ */
+export class DiscordApiClient {
+  static isConfigured(): boolean {
+    return !!process.env.DISCORD_BOT_TOKEN && !!process.env.DISCORD_GUILD_ID;
+  }
+
+  /**
+   * The member, or null when the user is not in the server
+   */
+  static async getMember(discordId: string): Promise<DiscordGuildMember | null> {
+    const response = await this.request<DiscordGuildMember>({
+      method: 'GET',
+      url: `/guilds/${this.guildId()}/members/${discordId}`,
+      validateStatus: status => status === 200 || status === 404,
+    });
+    return response.status === 200 ? response.data : null;
+  }
+
+  static async listMembers(): Promise<DiscordGuildMember[]> {
+    const members: DiscordGuildMember[] = [];
+    let after = '0';
+
+    for (;;) {
+      const { data: page } = await this.request<DiscordGuildMember[]>({
+        method: 'GET',
+        url: `/guilds/${this.guildId()}/members`,
+        params: { limit: MEMBER_PAGE_SIZE, after },
+      });
+      members.push(...page);
+      if (page.length < MEMBER_PAGE_SIZE) return members;
+      after = page[page.length - 1].user.id;
+    }
+  }
+
+  /**
+   * Add a user to the server with their OAuth token (guilds.join scope). Returns false when
+   * they were already a member, in which case the roles are not applied.
+   */
+  static async addMember(discordId: string, userAccessToken: string, roleIds: string[]): Promise<boolean> {
+    const response = await this.request({
+      method: 'PUT',
+      url: `/guilds/${this.guildId()}/members/${discordId}`,
+      data: { access_token: userAccessToken, roles: roleIds },
+    });
+    return response.status === 201;
+  }
+
+  static async addRole(discordId: string, roleId: string, reason: string): Promise<void> {
+    await this.request({
+      method: 'PUT',
+      url: `/guilds/${this.guildId()}/members/${discordId}/roles/${roleId}`,
+      headers: { 'X-Audit-Log-Reason': encodeURIComponent(reason) },
+    });
+  }
+
+  static async removeRole(discordId: string, roleId: string, reason: string): Promise<void> {
+    await this.request({
+      method: 'DELETE',
+      url: `/guilds/${this.guildId()}/members/${discordId}/roles/${roleId}`,
+      headers: { 'X-Audit-Log-Reason': encodeURIComponent(reason) },
+    });
+  }
+
+  /**
+   * DM a user from the bot. Discord refuses (403) when the user shares no server with the bot or
+   * has DMs from server members turned off.
+   */
+  static async sendDirectMessage(discordId: string, content: string): Promise<void> {
+    const { data: channel } = await this.request<{ id: string }>({
+      method: 'POST',
+      url: '/users/@me/channels',
+      data: { recipient_id: discordId },
+    });
+    await this.request({
+      method: 'POST',
+      url: `/channels/${channel.id}/messages`,
+      data: { content },
+    });
+  }
+
+  private static guildId(): string {
+    return process.env.DISCORD_GUILD_ID || '';
+  }
+
+  /**
+   * Send a request with the bot token, waiting out a 429 once when Discord says how long to wait
+   */
+  private static async request<T = unknown>(config: AxiosRequestConfig, retried = false): Promise<AxiosResponse<T>> {
+    try {
+      return await axios.request<T>({
+        ...config,
+        baseURL: process.env.DISCORD_API_URL || DEFAULT_API_URL,
+        timeout: 10000,
+        headers: {
+          ...config.headers,
+          Authorization: `Bot ${process.env.DISCORD_BOT_TOKEN || ''}`,
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error: any) {
+      const retryAfterMs = Number(error.response?.data?.retry_after) * 1000;
+      if (!retried && error.response?.status === 429 && retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS) {
+        await new Promise(resolve => setTimeout(resolve, retryAfterMs));
+        return this.request<T>(config, true);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiscordRoleSyncService } from './discordRoleSyncService';
+import { DiscordGuildApi } from './discordApiClient';
+import { InMemoryDiscordApiClient } from './fakeDiscordApi';
+import { FirebaseService, User, Subscription, DiscordAutoAccessUser, DiscordRoleSyncLog } from './firebaseService';
+
+const PAID_ROLE = 'paid-role';
+
+const user = (id: string, discordId: string, overrides: Partial<User> = {}) =>
+  ({ id, discordId, username: `member-${id}`, isAdmin: false, isWhitelisted: true, ...overrides } as User);
+
+const subscription = (userId: string, status: Subscription['status']) =>
+  ({ id: `sub-${userId}`, userId, status } as Subscription);
+
+describe('DiscordRoleSyncService', () => {
+  let discord: InMemoryDiscordApiClient;
+  let previousClient: DiscordGuildApi;
+  let users: User[];
+  let subscriptions: Subscription[];
+  let autoAccessUsernames: string[];
+  let logs: Array<Omit<DiscordRoleSyncLog, 'id' | 'createdAt'>>;
+
+  beforeEach(() => {
+    process.env.DISCORD_PAID_MEMBER_ROLE_ID = PAID_ROLE;
+    discord = new InMemoryDiscordApiClient();
+    previousClient = DiscordRoleSyncService.useClient(discord);
+    users = [];
+    subscriptions = [];
+    autoAccessUsernames = [];
+    logs = [];
+
+    mock.method(FirebaseService, 'getUserByDiscordId', async (discordId: string) =>
+      users.find(candidate => candidate.discordId === discordId) || null);
+    mock.method(FirebaseService, 'getSubscriptionByUserId', async (userId: string) =>
+      subscriptions.find(candidate => candidate.userId === userId) || null);
+    mock.method(FirebaseService, 'getAllUsers', async () => users);
+    mock.method(FirebaseService, 'getAllSubscriptions', async () => subscriptions);
+    mock.method(FirebaseService, 'getDiscordAutoAccessUsers', async () =>
+      autoAccessUsernames.map(discordUsername => ({ discordUsername } as DiscordAutoAccessUser)));
+    mock.method(FirebaseService, 'createDiscordRoleSyncLog', async (log: Omit<DiscordRoleSyncLog, 'id' | 'createdAt'>) => {
+      logs.push(log);
+      return log as DiscordRoleSyncLog;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    DiscordRoleSyncService.useClient(previousClient);
+    delete process.env.DISCORD_PAID_MEMBER_ROLE_ID;
+  });
+
+  describe('syncMember', () => {
+    it('grants the paid role to a member with an active subscription', async () => {
+      users.push(user('u1', 'd1'));
+      subscriptions.push(subscription('u1', 'active'));
+      discord.addGuildMember('d1', 'member-u1');
+
+      const result = await DiscordRoleSyncService.syncMember('d1', { trigger: 'login' });
+
+      assert.deepEqual(result?.granted, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d1')?.roles, [PAID_ROLE]);
+      assert.equal(logs.length, 1);
+      assert.equal(logs[0].action, 'grant');
+      assert.equal(logs[0].reason, 'active subscription');
+      assert.equal(logs[0].success, true);
+    });
+
+    it('revokes the paid role once the subscription has lapsed', async () => {
+      users.push(user('u1', 'd1'));
+      subscriptions.push(subscription('u1', 'canceled'));
+      discord.addGuildMember('d1', 'member-u1', [PAID_ROLE, 'other-role']);
+
+      const result = await DiscordRoleSyncService.syncMember('d1', { trigger: 'subscription' });
+
+      assert.deepEqual(result?.revoked, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d1')?.roles, ['other-role']);
+      assert.deepEqual(discord.roleChanges, [{ action: 'revoke', discordId: 'd1', roleId: PAID_ROLE }]);
+    });
+
+    it('adds an entitled user who is not in the server when their OAuth token is given', async () => {
+      users.push(user('u1', 'd1'));
+      subscriptions.push(subscription('u1', 'active'));
+
+      const result = await DiscordRoleSyncService.syncMember('d1', { trigger: 'login', accessToken: 'oauth-token' });
+
+      assert.equal(result?.joined, true);
+      assert.deepEqual(discord.members.get('d1')?.roles, [PAID_ROLE]);
+    });
+
+    it('grants the role to a username on the auto-access list without a subscription', async () => {
+      autoAccessUsernames.push('Listed-Member');
+      discord.addGuildMember('d2', 'listed-member');
+
+      const result = await DiscordRoleSyncService.syncMember('d2', { trigger: 'admin' });
+
+      assert.deepEqual(result?.granted, [PAID_ROLE]);
+      assert.equal(logs[0].reason, 'auto-access list');
+    });
+
+    it('changes nothing on a dry run', async () => {
+      users.push(user('u1', 'd1'));
+      subscriptions.push(subscription('u1', 'active'));
+      discord.addGuildMember('d1', 'member-u1');
+
+      const result = await DiscordRoleSyncService.syncMember('d1', { trigger: 'admin', dryRun: true });
+
+      assert.deepEqual(result?.granted, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d1')?.roles, []);
+      assert.equal(logs[0].dryRun, true);
+    });
+
+    it('logs a failed role change instead of throwing', async () => {
+      users.push(user('u1', 'd1'));
+      subscriptions.push(subscription('u1', 'active'));
+      discord.addGuildMember('d1', 'member-u1');
+      discord.failingRoleIds.add(PAID_ROLE);
+
+      const result = await DiscordRoleSyncService.syncMember('d1', { trigger: 'login' });
+
+      assert.deepEqual(result?.failed, [PAID_ROLE]);
+      assert.equal(logs[0].success, false);
+      assert.equal(logs[0].error, 'Missing Permissions');
+    });
+  });
+
+  describe('reconcile', () => {
+    it('grants, revokes and leaves correct members alone in one pass', async () => {
+      users.push(user('paid', 'd-paid'), user('lapsed', 'd-lapsed'), user('manual', 'd-manual', { hasManualSubscription: true }));
+      subscriptions.push(subscription('paid', 'active'), subscription('lapsed', 'past_due'));
+      autoAccessUsernames.push('listed');
+      discord.addGuildMember('d-paid', 'member-paid');
+      discord.addGuildMember('d-lapsed', 'member-lapsed', [PAID_ROLE]);
+      discord.addGuildMember('d-manual', 'member-manual', [PAID_ROLE]);
+      discord.addGuildMember('d-listed', 'Listed');
+      discord.addGuildMember('d-stranger', 'stranger', [PAID_ROLE]);
+      discord.addGuildMember('d-bot', 'bot', [], true);
+
+      const summary = await DiscordRoleSyncService.reconcile();
+
+      assert.equal(summary.membersChecked, 5);
+      assert.equal(summary.granted, 2);
+      assert.equal(summary.revoked, 2);
+      assert.equal(summary.failed, 0);
+      assert.deepEqual(discord.members.get('d-paid')?.roles, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d-listed')?.roles, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d-manual')?.roles, [PAID_ROLE]);
+      assert.deepEqual(discord.members.get('d-lapsed')?.roles, []);
+      assert.deepEqual(discord.members.get('d-stranger')?.roles, []);
+    });
+
+    it('refuses to start while another reconcile is running', async () => {
+      discord.addGuildMember('d1', 'member');
+      const first = DiscordRoleSyncService.reconcile();
+
+      await assert.rejects(DiscordRoleSyncService.reconcile(), /already running/);
+      await first;
+    });
+  });
+});
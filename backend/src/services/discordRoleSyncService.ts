@@ -0,0 +1,243 @@
+import { FirebaseService, User, DiscordRoleSyncTrigger } from './firebaseService';
+import { DiscordApiClient, DiscordGuildApi, DiscordGuildMember } from './discordApiClient';
+import { canAccessPortal } from '../utils/subscriptionChecker';
+
+export interface DiscordRoleSyncResult {
+  discordId: string;
+  inGuild: boolean;
+  joined: boolean; // Added to the server during this sync
+  entitled: boolean;
+  granted: string[];
+  revoked: string[];
+  failed: string[];
+}
+
+export interface DiscordReconcileSummary {
+  dryRun: boolean;
+  membersChecked: number;
+  granted: number;
+  revoked: number;
+  failed: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+interface SyncOptions {
+  trigger: DiscordRoleSyncTrigger;
+  accessToken?: string; // The user's OAuth token (guilds.join), needed to add them to the server
+  subscriptionActive?: boolean; // Live billing state when the stored subscription may lag behind (Stripe webhooks)
+  dryRun?: boolean;
+}
+
+interface Entitlement {
+  entitled: boolean;
+  reason: string;
+}
+
+/**
+ * Keeps the roles the portal manages (the paid member role) in line with who should have them:
+ * members with portal access (manual subscription, or an active or grace-period subscription)
+ * and usernames on the Discord auto-access list. Roles it doesn't manage are never touched.
+ * Every grant and revoke is written to the role sync log.
+ */
+export class DiscordRoleSyncService {
+  private static reconcileRunning = false;
+  private static client: DiscordGuildApi = DiscordApiClient;
+
+  /**
+   * Swap the Discord client, returning the one it replaces (tests use InMemoryDiscordApiClient)
+   */
+  static useClient(client: DiscordGuildApi): DiscordGuildApi {
+    const previous = this.client;
+    this.client = client;
+    return previous;
+  }
+
+  static managedRoleIds(): string[] {
+    return [process.env.DISCORD_PAID_MEMBER_ROLE_ID || ''].filter(Boolean);
+  }
+
+  static isEnabled(): boolean {
+    return this.client.isConfigured() && this.managedRoleIds().length > 0;
+  }
+
+  /**
+   * Bring one Discord account's managed roles in line with the portal, adding them to the server
+   * when they should have access and an OAuth token is available. Returns null when role sync
+   * isn't configured.
+   */
+  static async syncMember(discordId: string, options: SyncOptions): Promise<DiscordRoleSyncResult | null> {
+    if (!this.isEnabled()) return null;
+
+    const user = await FirebaseService.getUserByDiscordId(discordId);
+    const subscriptionActive = options.subscriptionActive ?? (user ? canAccessPortal(await FirebaseService.getSubscriptionByUserId(user.id)) : false);
+    let member = await this.client.getMember(discordId);
+    const autoAccessUsernames = await this.getAutoAccessUsernames();
+    const entitlement = this.entitlementFor(user, subscriptionActive, autoAccessUsernames, user?.username || member?.user.username);
+    const desiredRoleIds = entitlement.entitled ? this.managedRoleIds() : [];
+
+    if (!member && desiredRoleIds.length > 0 && options.accessToken && !options.dryRun) {
+      let joined: boolean;
+      try {
+        joined = await this.client.addMember(discordId, options.accessToken, desiredRoleIds);
+      } catch (error: any) {
+        const message = error.response?.data?.message || error.message || 'Unknown error';
+        await Promise.all(desiredRoleIds.map(roleId => this.log(discordId, user, roleId, 'grant', entitlement.reason, options, false, message)));
+        return { discordId, inGuild: false, joined: false, entitled: true, granted: [], revoked: [], failed: desiredRoleIds };
+      }
+      if (joined) {
+        await Promise.all(desiredRoleIds.map(roleId => this.log(discordId, user, roleId, 'grant', entitlement.reason, options, true)));
+        return { discordId, inGuild: true, joined: true, entitled: true, granted: desiredRoleIds, revoked: [], failed: [] };
+      }
+      // Joined in the meantime; the roles in the request were ignored, so apply them below
+      member = await this.client.getMember(discordId);
+    }
+
+    if (!member) {
+      return { discordId, inGuild: false, joined: false, entitled: entitlement.entitled, granted: [], revoked: [], failed: [] };
+    }
+    return this.applyRoles(member, user, desiredRoleIds, entitlement, options);
+  }
+
+  /**
+   * Check every member of the server against the portal and fix their managed roles.
+   * Members who aren't in the server are left alone, since adding them needs their OAuth token.
+   */
+  static async reconcile(options: { dryRun?: boolean; trigger?: DiscordRoleSyncTrigger } = {}): Promise<DiscordReconcileSummary> {
+    if (!this.isEnabled()) {
+      throw new Error('Discord role sync is not configured (DISCORD_BOT_TOKEN, DISCORD_GUILD_ID, DISCORD_PAID_MEMBER_ROLE_ID)');
+    }
+    if (this.reconcileRunning) {
+      throw new Error('A reconcile is already running');
+    }
+
+    this.reconcileRunning = true;
+    const summary: DiscordReconcileSummary = {
+      dryRun: !!options.dryRun,
+      membersChecked: 0,
+      granted: 0,
+      revoked: 0,
+      failed: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+    };
+
+    try {
+      const [members, users, subscriptions, autoAccessUsernames] = await Promise.all([
+        this.client.listMembers(),
+        FirebaseService.getAllUsers(),
+        FirebaseService.getAllSubscriptions(),
+        this.getAutoAccessUsernames(),
+      ]);
+      const usersByDiscordId = new Map(users.filter(user => user.discordId).map(user => [user.discordId!, user]));
+      const activeUserIds = new Set(subscriptions.filter(subscription => canAccessPortal(subscription)).map(subscription => subscription.userId));
+      const syncOptions: SyncOptions = { trigger: options.trigger || 'reconcile', dryRun: options.dryRun };
+
+      for (const member of members) {
+        if (member.user.bot) continue;
+        const user = usersByDiscordId.get(member.user.id) || null;
+        const entitlement = this.entitlementFor(user, !!user && activeUserIds.has(user.id), autoAccessUsernames, user?.username || member.user.username);
+        const result = await this.applyRoles(member, user, entitlement.entitled ? this.managedRoleIds() : [], entitlement, syncOptions);
+
+        summary.membersChecked++;
+        summary.granted += result.granted.length;
+        summary.revoked += result.revoked.length;
+        summary.failed += result.failed.length;
+      }
+    } finally {
+      this.reconcileRunning = false;
+    }
+
+    summary.finishedAt = new Date().toISOString();
+    return summary;
+  }
+
+  private static entitlementFor(
+    user: User | null,
+    subscriptionActive: boolean,
+    autoAccessUsernames: Set<string>,
+    username?: string
+  ): Entitlement {
+    if (user?.hasManualSubscription) return { entitled: true, reason: 'manual subscription' };
+    if (subscriptionActive) return { entitled: true, reason: 'active subscription' };
+    if (username && autoAccessUsernames.has(username.toLowerCase())) return { entitled: true, reason: 'auto-access list' };
+    return { entitled: false, reason: user ? 'no active subscription' : 'no portal account' };
+  }
+
+  private static async applyRoles(
+    member: DiscordGuildMember,
+    user: User | null,
+    desiredRoleIds: string[],
+    entitlement: Entitlement,
+    options: SyncOptions
+  ): Promise<DiscordRoleSyncResult> {
+    const discordId = member.user.id;
+    const result: DiscordRoleSyncResult = {
+      discordId,
+      inGuild: true,
+      joined: false,
+      entitled: entitlement.entitled,
+      granted: [],
+      revoked: [],
+      failed: [],
+    };
+
+    for (const roleId of this.managedRoleIds()) {
+      const wanted = desiredRoleIds.includes(roleId);
+      if (wanted === member.roles.includes(roleId)) continue;
+
+      const action = wanted ? 'grant' : 'revoke';
+      try {
+        if (!options.dryRun) {
+          const auditReason = `Portal role sync: ${entitlement.reason}`;
+          if (wanted) {
+            await this.client.addRole(discordId, roleId, auditReason);
+          } else {
+            await this.client.removeRole(discordId, roleId, auditReason);
+          }
+        }
+        (wanted ? result.granted : result.revoked).push(roleId);
+        await this.log(discordId, user, roleId, action, entitlement.reason, options, true, undefined, member.user.username);
+      } catch (error: any) {
+        result.failed.push(roleId);
+        const message = error.response?.data?.message || error.message || 'Unknown error';
+        await this.log(discordId, user, roleId, action, entitlement.reason, options, false, message, member.user.username);
+      }
+    }
+    return result;
+  }
+
+  private static async getAutoAccessUsernames(): Promise<Set<string>> {
+    const autoAccessUsers = await FirebaseService.getDiscordAutoAccessUsers();
+    return new Set(autoAccessUsers.map(autoAccessUser => autoAccessUser.discordUsername.toLowerCase()));
+  }
+
+  private static async log(
+    discordId: string,
+    user: User | null,
+    roleId: string,
+    action: 'grant' | 'revoke',
+    reason: string,
+    options: SyncOptions,
+    success: boolean,
+    error?: string,
+    discordUsername?: string
+  ): Promise<void> {
+    try {
+      await FirebaseService.createDiscordRoleSyncLog({
+        discordId,
+        userId: user?.id,
+        username: user?.username || discordUsername,
+        roleId,
+        action,
+        trigger: options.trigger,
+        reason,
+        success,
+        error,
+        dryRun: options.dryRun || undefined,
+      });
+    } catch (logError) {
+      // Best effort: a logging problem must not undo or block the role change
+    }
+  }
+}
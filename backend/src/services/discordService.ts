@@ -189,429 +189,6 @@ export class DiscordService {
     }
   }
 
-  /**
-   * Verify bot can access the guild (checks if bot is in server and has access)
-   * @returns true if bot can access guild, false otherwise
-   */
-  static async verifyBotAccessToGuild(): Promise<boolean> {
-    const guildId = process.env.DISCORD_GUILD_ID || '';
-    const botToken = process.env.DISCORD_BOT_TOKEN || '';
-
-    if (!guildId || !botToken) {
-      return false;
-    }
-
-    try {
-      // Discord API: GET /guilds/{guild.id} - Get guild info
-      // This will return 404 if bot is not in the guild or guild doesn't exist
-      const response = await axios.get(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}`,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            'Content-Type': 'application/json'
-          },
-          validateStatus: (status) => [200, 404].includes(status)
-        }
-      );
-
-      if (response.status === 200) {
-
-        return true;
-      }
-
-      return false;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-                        return false;
-      }
-            return false;
-    }
-  }
-
-  /**
-   * Check if a user is already in the Discord server
-   * @param discordUserId - The Discord user ID to check
-   * @returns true if user is in server, false otherwise
-   */
-  static async isUserInGuild(discordUserId: string): Promise<boolean> {
-    const guildId = process.env.DISCORD_GUILD_ID || '';
-    const botToken = process.env.DISCORD_BOT_TOKEN || '';
-
-    if (!guildId) {
-      return false;
-    }
-
-    // If no bot token, can't check - assume not in server
-    if (!botToken) {
-      return false;
-    }
-
-    try {
-      // Discord API: GET /guilds/{guild.id}/members/{user.id}
-      const response = await axios.get(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}/members/${discordUserId}`,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            'Content-Type': 'application/json'
-          },
-          validateStatus: (status) => [200, 404].includes(status) // 404 means user not in server
-        }
-      );
-
-      if (response.status === 200) {
-                return true;
-      }
-
-      return false;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        if (error.response?.data?.code === 10004) {
-          // 10004 = Unknown Guild - bot not in server
-                  }
-        // User not in server (or guild unknown)
-        return false;
-      }
-            return false;
-    }
-  }
-
-  /**
-   * Add user to Discord server using OAuth token (with guilds.join scope) + Bot token
-   * 
-   * IMPORTANT: Discord API requires BOT token in Authorization header, even when using OAuth!
-   * The `guilds.join` scope allows you to pass the user's OAuth token in the request body,
-   * but the Authorization header MUST be a Bot token.
-   * 
-   * @param discordUserId - The Discord user ID to add
-   * @param userAccessToken - The user's OAuth access token (must have guilds.join scope) - passed in body
-   * @param roleId - Optional role ID to assign when adding the user (can assign role in same API call)
-   * @returns true if user was added or already in server, false otherwise
-   */
-  static async addUserToGuild(discordUserId: string, userAccessToken: string, roleId?: string): Promise<boolean> {
-    const guildId = process.env.DISCORD_GUILD_ID || '';
-    const botToken = process.env.DISCORD_BOT_TOKEN || '';
-
-    if (!guildId) {
-            return false;
-    }
-
-    // First check if user is already in server
-    const alreadyInServer = await this.isUserInGuild(discordUserId);
-    if (alreadyInServer) {
-            return true;
-    }
-
-    // Bot token is REQUIRED - Discord API needs it in Authorization header
-    if (!botToken) {
-                        return false;
-    }
-
-    // Verify bot has access to the guild before attempting to add user
-    const botHasAccess = await this.verifyBotAccessToGuild();
-    if (!botHasAccess) {
-                                                return false;
-    }
-    
-    // Verify bot has required permissions by checking bot's member info
-    try {
-      const botMemberResponse = await axios.get(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}/members/@me`,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            'Content-Type': 'application/json'
-          },
-          validateStatus: (status) => status === 200
-        }
-      );
-      
-      // Get bot's roles and permissions
-      const botRoles = botMemberResponse.data.roles || [];
-
-      // Check if bot has required permissions via GET /guilds/{guild.id}
-      const guildResponse = await axios.get(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}`,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-      
-      // The guild response doesn't include bot permissions directly, but we can check if bot is admin
-      // For more detailed permission checking, we'd need to fetch role permissions
-          } catch (permError: any) {
-
-      // Continue anyway - the actual API call will reveal permission issues
-    }
-
-    // If no OAuth token provided, we cannot add the user
-    // Discord API requires user's OAuth token (with guilds.join scope) in request body
-    // Even though Bot token is required in header, the user's OAuth token is still needed in body
-    if (!userAccessToken || userAccessToken.trim() === '') {
-
-                  return false;
-    }
-
-    // Verify token has guilds.join scope by checking token info
-    try {
-      const tokenInfo = await axios.get(`${this.DISCORD_API_BASE}/oauth2/@me`, {
-        headers: {
-          Authorization: `Bearer ${userAccessToken}`
-        }
-      });
-      
-      const scopes = tokenInfo.data.scopes || [];
-                  if (!scopes.includes('guilds.join')) {
-                                        return false;
-      } else {
-
-      }
-    } catch (error: any) {
-            if (error.response) {
-                      }
-      // Continue anyway - the API call will reveal if scope is missing
-      // This check might fail if the token endpoint is not available, but we'll still try
-    }
-
-    try {
-      // Discord API: PUT /guilds/{guild.id}/members/{user.id}
-      // According to Discord API docs:
-      // - Authorization header MUST be Bot token (required for this endpoint)
-      // - access_token in body can be user's OAuth token (with guilds.join scope) - this allows adding the user
-      // The guilds.join scope gives permission to add users, but Bot token is still required in header
-
-
-
-      // Validate token format - Discord OAuth tokens should be long random strings
-      // They should NOT start with client ID or be too short
-      if (userAccessToken && userAccessToken.length < 50) {
-
-      }
-      if (userAccessToken && userAccessToken.startsWith('MTQxMzY1MDY0NjU1NjQ3')) {
-                      }
-      
-      // Build request body - include roles array if roleId is provided
-      const requestBody: any = {
-        access_token: userAccessToken // OAuth token with guilds.join scope goes in body
-      };
-      
-      // Include roles array if roleId is provided (assigns role when adding user)
-      const roleIdToAssign = roleId || process.env.DISCORD_PAID_MEMBER_ROLE_ID || '';
-      if (roleIdToAssign) {
-        requestBody.roles = [roleIdToAssign];
-              }
-      
-      const response = await axios.put(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}/members/${discordUserId}`,
-        requestBody,
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`, // REQUIRED: Bot token in header (not OAuth token!)
-            'Content-Type': 'application/json'
-          },
-          validateStatus: (status) => [200, 201, 204].includes(status)
-        }
-      );
-
-            // Verify user was actually added
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second for Discord to process
-      const verified = await this.isUserInGuild(discordUserId);
-      if (verified) {
-                return true;
-      } else {
-        // Retry verification after another wait
-                await new Promise(resolve => setTimeout(resolve, 1500)); // Wait another 1.5 seconds
-        const retryVerified = await this.isUserInGuild(discordUserId);
-        if (retryVerified) {
-
-          return true;
-        } else {
-                    return false;
-        }
-      }
-    } catch (error: any) {
-      if (error.response?.status === 204) {
-        // 204 No Content means user was added
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        const verified = await this.isUserInGuild(discordUserId);
-        if (verified) {
-                    return true;
-        }
-                return false;
-      }
-
-      // Check for invalid OAuth token error (50025) - can occur with any status code
-      if (error.response?.data?.code === 50025) {
-
-
-
-
-
-
-        return false;
-      }
-
-      if (error.response?.status === 404) {
-        // 404 Not Found - Guild not found or bot not in server
-        if (error.response?.data?.code === 10004) {
-
-                                                                                                            } else {
-                                      }
-        return false;
-      }
-
-      if (error.response?.status === 401 || error.response?.status === 403) {
-
-                        if (error.response?.status === 401) {
-                                      } else if (error.response?.status === 403) {
-
-                              // Log the actual error response for more details
-          if (error.response?.data) {
-
-            if (error.response.data.code === 50013) {
-                          } else if (error.response.data.code === 50001) {
-
-            }
-          }
-        }
-        
-        return false;
-      }
-
-      if (error.response?.status === 400) {
-        // 400 Bad Request usually means user is already in the server or invalid request
-        if (error.response?.data?.message?.includes('already') || 
-            error.response?.data?.code === 50004) {
-                    return true; // User already in server is considered success
-        }
-                return false;
-      }
-
-            if (error.response) {
-                      }
-      return false;
-    }
-  }
-
-  /**
-   * Fallback method: Add user to Discord server using bot token
-   * This is used if OAuth token method fails
-   * 
-   * IMPORTANT: Discord API requires both:
-   * 1. Bot token in Authorization header
-   * 2. User's OAuth token with guilds.join scope in body as access_token
-   * 
-   * Without the user's OAuth token, we cannot add them via API.
-   * In this case, we can only log that user needs to join manually or via OAuth flow.
-   */
-  private static async addUserToGuildWithBot(discordUserId: string, userAccessToken: string): Promise<boolean> {
-    const guildId = process.env.DISCORD_GUILD_ID || '';
-    const botToken = process.env.DISCORD_BOT_TOKEN || '';
-
-    if (!guildId || !botToken) {
-      const missing: string[] = [];
-      if (!guildId) missing.push('DISCORD_GUILD_ID');
-      if (!botToken) missing.push('DISCORD_BOT_TOKEN');
-
-                  if (!guildId)       if (!botToken)             return false;
-    }
-
-    // Without user's OAuth token, we cannot add them via Discord API
-    // Discord requires the user's OAuth token (with guilds.join scope) in the request body
-    if (!userAccessToken || userAccessToken.trim() === '') {
-
-                  return false;
-    }
-
-    try {
-            // Discord API: PUT /guilds/{guild.id}/members/{user.id}
-      // This endpoint REQUIRES:
-      // - Bot token in Authorization header
-      // - User's OAuth token (with guilds.join scope) in body as access_token
-      const response = await axios.put(
-        `${this.DISCORD_API_BASE}/guilds/${guildId}/members/${discordUserId}`,
-        {
-          access_token: userAccessToken // REQUIRED: User's OAuth token with guilds.join scope
-        },
-        {
-          headers: {
-            Authorization: `Bot ${botToken}`, // REQUIRED: Bot token in header
-            'Content-Type': 'application/json'
-          },
-          validateStatus: (status) => [200, 201, 204].includes(status)
-        }
-      );
-
-            // Wait a moment for Discord to process
-      await new Promise(resolve => setTimeout(resolve, 1500)); // Wait 1.5 seconds
-      
-      // Verify user was actually added
-      const verified = await this.isUserInGuild(discordUserId);
-      if (verified) {
-                return true;
-      } else {
-        // Retry check once more after another short wait
-                await new Promise(resolve => setTimeout(resolve, 1500)); // Wait another 1.5 seconds
-        const retryVerified = await this.isUserInGuild(discordUserId);
-        if (retryVerified) {
-
-          return true;
-        } else {
-                              return false;
-        }
-      }
-    } catch (error: any) {
-      if (error.response?.status === 204) {
-        // 204 No Content means user was added
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        const verified = await this.isUserInGuild(discordUserId);
-        if (verified) {
-                    return true;
-        }
-                return false;
-      }
-
-      if (error.response?.status === 401 || error.response?.status === 403) {
-
-                                                if (error.response?.data) {
-                  }
-        return false;
-      }
-
-      if (error.response?.status === 400) {
-        if (error.response?.data?.message?.includes('already') || 
-            error.response?.data?.code === 50004) {
-                    return true;
-        }
-        
-        // Check for Invalid Form Body error (50035) - usually means access_token is invalid/missing
-        if (error.response?.data?.code === 50035) {
-
-                    if (error.response?.data?.errors?.access_token) {
-                      }
-          return false;
-        }
-        
-                return false;
-      }
-
-            if (error.response) {
-                      }
-      return false;
-    }
-  }
-
-  /**
-   * @deprecated Use addUserToGuild instead - it uses OAuth token without requiring bot token
-   */
-  static async ensureGuildMembership(discordUserId: string, userAccessToken: string): Promise<boolean> {
-    return this.addUserToGuild(discordUserId, userAccessToken);
-  }
-
   /**
    * Find user by Discord ID or email (does not create user)
    * This prevents duplicate users when:
@@ -0,0 +1,117 @@
+import { FirebaseService, Deal, Document, DocumentChecklist, DocumentChecklistItem } from './firebaseService';
+
+export interface ChecklistItemStatus extends DocumentChecklistItem {
+  checklistId: string;
+  documentIds: string[];
+  complete: boolean;
+}
+
+export interface DealChecklistStatus {
+  checklists: { id: string; name: string }[];
+  items: ChecklistItemStatus[];
+  requiredCount: number;
+  completedCount: number;
+  completionPercentage: number;
+  missingItems: ChecklistItemStatus[]; // Required items with no classified upload
+}
+
+const normalizeKey = (value?: string): string => (value || '').trim().toLowerCase();
+
+export class DocumentChecklistService {
+  /**
+   * Checklists that apply to a deal. A blank dealType or loanType on a checklist matches any deal,
+   * so a general checklist (e.g. entity docs, PFS) can sit alongside deal-type specific ones.
+   */
+  static getApplicableChecklists(deal: Partial<Deal> & Record<string, any>, checklists: DocumentChecklist[]): DocumentChecklist[] {
+    const dealType = normalizeKey(deal.dealType || deal.applicationDealType);
+    const loanType = normalizeKey(deal.investmentType || deal.loanType);
+
+    return checklists.filter(checklist => {
+      const checklistDealType = normalizeKey(checklist.dealType);
+      const checklistLoanType = normalizeKey(checklist.loanType);
+      return (!checklistDealType || checklistDealType === dealType) &&
+        (!checklistLoanType || checklistLoanType === loanType);
+    });
+  }
+
+  static buildStatus(checklists: DocumentChecklist[], documents: Document[]): DealChecklistStatus {
+    const items: ChecklistItemStatus[] = [];
+    const seenItemIds = new Set<string>();
+
+    // The same item can appear on more than one matching checklist; count it once
+    checklists.forEach(checklist => {
+      checklist.items.forEach(item => {
+        if (seenItemIds.has(item.id)) return;
+        seenItemIds.add(item.id);
+        const documentIds = documents.filter(doc => doc.checklistItemId === item.id).map(doc => doc.id);
+        items.push({ ...item, checklistId: checklist.id, documentIds, complete: documentIds.length > 0 });
+      });
+    });
+
+    const requiredItems = items.filter(item => item.required);
+    const completedCount = requiredItems.filter(item => item.complete).length;
+
+    return {
+      checklists: checklists.map(checklist => ({ id: checklist.id, name: checklist.name })),
+      items,
+      requiredCount: requiredItems.length,
+      completedCount,
+      completionPercentage: requiredItems.length === 0 ? 100 : Math.round((completedCount / requiredItems.length) * 100),
+      missingItems: requiredItems.filter(item => !item.complete),
+    };
+  }
+
+  static async getDealChecklistStatus(deal: Deal): Promise<DealChecklistStatus> {
+    const [checklists, documents] = await Promise.all([
+      FirebaseService.getDocumentChecklists(),
+      FirebaseService.getDocumentsByDeal(deal.id),
+    ]);
+    return this.buildStatus(this.getApplicableChecklists(deal, checklists), documents);
+  }
+
+  /**
+   * Labels of required documents still missing for a deal (used in notification emails).
+   * Returns an empty list instead of failing so notifications are never blocked.
+   */
+  static async getMissingItemLabels(deal: Deal): Promise<string[]> {
+    try {
+      const status = await this.getDealChecklistStatus(deal);
+      return status.missingItems.map(item => item.label);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Check that a checklist item id can be used to classify uploads for this deal
+   */
+  static async isValidItemForDeal(deal: Deal, checklistItemId: string): Promise<boolean> {
+    const checklists = this.getApplicableChecklists(deal, await FirebaseService.getDocumentChecklists());
+    return checklists.some(checklist => checklist.items.some(item => item.id === checklistItemId));
+  }
+
+  /**
+   * Validate and normalize admin input for checklist items
+   */
+  static normalizeItems(items: any[]): DocumentChecklistItem[] {
+    const seen = new Set<string>();
+    return items
+      .filter(item => item && typeof item.label === 'string' && item.label.trim() !== '')
+      .map(item => {
+        const id = typeof item.id === 'string' && item.id.trim()
+          ? item.id.trim()
+          : item.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+        return {
+          id,
+          label: item.label.trim(),
+          description: typeof item.description === 'string' ? item.description.trim() : '',
+          required: item.required !== false,
+        };
+      })
+      .filter(item => {
+        if (!item.id || seen.has(item.id)) return false;
+        seen.add(item.id);
+        return true;
+      });
+  }
+}
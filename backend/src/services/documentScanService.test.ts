@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { DocumentScanService } from './documentScanService';
+import { ClamAvScanner } from './clamAvScanner';
+import { LocalDocumentStorage } from './localDocumentStorage';
+import { ScanResult, ScannerUnavailableError } from './malwareScanner';
+import { EmailService } from './emailService';
+import { SecurityService } from './securityService';
+import { FirebaseService, Deal, Document } from './firebaseService';
+
+const deal = { id: 'deal-1', propertyAddress: '12 Main St' } as Deal;
+
+describe('DocumentScanService', () => {
+  let documents: Map<string, Document>;
+  let scanReplies: Array<ScanResult | Error>;
+  let deletedFiles: string[];
+  let securityEvents: string[];
+  let emails: string[];
+
+  beforeEach(() => {
+    process.env.MALWARE_SCANNER = 'clamav';
+    documents = new Map();
+    scanReplies = [];
+    deletedFiles = [];
+    securityEvents = [];
+    emails = [];
+
+    mock.method(ClamAvScanner.prototype, 'scan', async () => {
+      const reply = scanReplies.shift() || { infected: false };
+      if (reply instanceof Error) throw reply;
+      return reply;
+    });
+    mock.method(LocalDocumentStorage.prototype, 'downloadFile', async () => ({ content: Buffer.from('%PDF-1.7') }));
+    mock.method(LocalDocumentStorage.prototype, 'deleteFile', async (fileId: string) => {
+      deletedFiles.push(fileId);
+    });
+
+    mock.method(FirebaseService, 'getQuarantinedDocuments', async () =>
+      [...documents.values()].filter(document => document.scanStatus === 'pending' && !document.deleted));
+    mock.method(FirebaseService, 'updateDocumentScanResult', async (id: string, result: ScanResult) => {
+      const document = documents.get(id)!;
+      documents.set(id, result.infected
+        ? { ...document, scanStatus: 'infected', scanSignature: result.signature, deleted: true }
+        : { ...document, scanStatus: 'clean' });
+    });
+    mock.method(FirebaseService, 'recordDocumentScanFailure', async (id: string, failure: { attempts: number; error: string; unscannable: boolean }) => {
+      const document = documents.get(id)!;
+      documents.set(id, {
+        ...document,
+        scanAttempts: failure.attempts,
+        scanError: failure.error,
+        ...(failure.unscannable ? { scanStatus: 'unscannable' as const } : {}),
+      });
+    });
+    mock.method(FirebaseService, 'getDealById', async () => deal);
+    mock.method(FirebaseService, 'getConfiguration', async () => null);
+    mock.method(SecurityService, 'recordEvent', async (type: string) => {
+      securityEvents.push(type);
+    });
+    mock.method(EmailService, 'testEmailConnection', async () => true);
+    mock.method(EmailService, 'sendDocumentUploadNotificationEmail', async () => {
+      emails.push('uploaded');
+    });
+    mock.method(EmailService, 'sendMalwareAlertEmail', async () => {
+      emails.push('malware');
+    });
+    mock.method(EmailService, 'sendUnscannableFileAlertEmail', async () => {
+      emails.push('unscannable');
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const quarantine = (overrides: Partial<Document> = {}): Document => {
+    const document = {
+      id: `doc-${documents.size + 1}`,
+      dealId: deal.id,
+      userId: 'user-1',
+      originalName: 'appraisal.pdf',
+      filename: 'appraisal.pdf',
+      mimeType: 'application/pdf',
+      oneDriveId: `deal-1/file-${documents.size + 1}.pdf`,
+      storageDriver: 'local',
+      uploadedBy: 'member',
+      uploadedAt: Timestamp.now(),
+      scanStatus: 'pending',
+      deleted: false,
+      ...overrides,
+    } as Document;
+    documents.set(document.id, document);
+    return document;
+  };
+
+  it('hides quarantined, infected and unscannable files', () => {
+    assert.equal(DocumentScanService.isAvailable({ scanStatus: 'clean' } as Document), true);
+    // Uploaded before scanning was turned on
+    assert.equal(DocumentScanService.isAvailable({} as Document), true);
+    for (const scanStatus of ['pending', 'infected', 'unscannable'] as const) {
+      assert.equal(DocumentScanService.isAvailable({ scanStatus } as Document), false);
+    }
+  });
+
+  it('releases a quarantined file that scans clean', async () => {
+    const document = quarantine();
+
+    const { summary } = await DocumentScanService.scanQuarantined();
+
+    assert.deepEqual(summary, { checked: 1, released: 1, infected: 0, unscannable: 0, failed: 0 });
+    assert.equal(DocumentScanService.isAvailable(documents.get(document.id)!), true);
+    assert.deepEqual(emails, ['uploaded']);
+  });
+
+  it('deletes an infected file and alerts the admins', async () => {
+    scanReplies.push({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+    const document = quarantine();
+
+    const { summary } = await DocumentScanService.scanQuarantined();
+
+    assert.equal(summary.infected, 1);
+    assert.equal(documents.get(document.id)?.scanStatus, 'infected');
+    assert.deepEqual(deletedFiles, [document.oneDriveId]);
+    assert.deepEqual(securityEvents, ['malware_detected']);
+    assert.deepEqual(emails, ['malware']);
+  });
+
+  it('keeps everything quarantined while the scanner is unreachable', async () => {
+    scanReplies.push(new ScannerUnavailableError('ClamAV connection failed: ECONNREFUSED'));
+    const first = quarantine();
+    const second = quarantine();
+
+    const { summary } = await DocumentScanService.scanQuarantined();
+
+    // The rest of the queue is left for the next run
+    assert.deepEqual(summary, { checked: 1, released: 0, infected: 0, unscannable: 0, failed: 1 });
+    assert.equal(documents.get(first.id)?.scanStatus, 'pending');
+    assert.equal(documents.get(first.id)?.scanAttempts, undefined);
+    assert.equal(documents.get(second.id)?.scanStatus, 'pending');
+  });
+
+  it('gives up on a file the scanner keeps failing on', async () => {
+    const document = quarantine();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      scanReplies.push(new Error('INSTREAM size limit exceeded'));
+      assert.equal((await DocumentScanService.scanQuarantined()).summary.failed, 1);
+      assert.equal(documents.get(document.id)?.scanStatus, 'pending');
+    }
+    assert.deepEqual(emails, []);
+
+    scanReplies.push(new Error('INSTREAM size limit exceeded'));
+    const { summary } = await DocumentScanService.scanQuarantined();
+
+    assert.equal(summary.unscannable, 1);
+    assert.equal(documents.get(document.id)?.scanStatus, 'unscannable');
+    assert.equal(DocumentScanService.isAvailable(documents.get(document.id)!), false);
+    assert.deepEqual(securityEvents, ['malware_scan_failed']);
+    assert.deepEqual(emails, ['unscannable']);
+  });
+
+  it('quarantines an upload when the scanner is unreachable and refuses one it cannot scan', async () => {
+    const file = { originalname: 'appraisal.pdf', buffer: Buffer.from('%PDF-1.7'), mimetype: 'application/pdf' };
+    const uploader = { userId: 'user-1', name: 'member' };
+
+    scanReplies.push(new ScannerUnavailableError('ClamAV did not answer in time'));
+    assert.equal(await DocumentScanService.scanUpload(file, deal, uploader), 'pending');
+
+    scanReplies.push(new Error('INSTREAM size limit exceeded'));
+    assert.equal(await DocumentScanService.scanUpload(file, deal, uploader), 'unscannable');
+
+    scanReplies.push({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+    assert.equal(await DocumentScanService.scanUpload(file, deal, uploader), 'infected');
+    assert.deepEqual(securityEvents, ['malware_detected']);
+  });
+});
@@ -0,0 +1,207 @@
+import { Request } from 'express';
+import { FirebaseService, Deal, Document, DocumentScanStatus } from './firebaseService';
+import { getMalwareScanner, ScanResult, ScannerUnavailableError } from './malwareScanner';
+import { getDocumentStorage } from './documentStorage';
+import { EmailService } from './emailService';
+import { GHLService } from './ghlService';
+import { SecurityService } from './securityService';
+import { JobResult } from './scheduledJobService';
+import { contentMatchesMimeType } from '../utils/fileSignature';
+
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+  mimetype: string;
+}
+
+export interface ScanUploader {
+  userId: string;
+  name: string;
+}
+
+export const SPOOFED_FILE_ERROR = "The file's content doesn't match its type. Only PDF, DOC, DOCX, XLS, XLSX, JPG, PNG, GIF, WEBP, ZIP, RAR, 7Z, TAR, GZ, BZ2, TXT, and CSV files are allowed.";
+export const INFECTED_FILE_ERROR = 'This file was blocked because it contains malware';
+export const UNSCANNABLE_FILE_ERROR = "The malware scanner couldn't check this file, so it wasn't uploaded. Very large files and some archives can't be scanned.";
+
+/**
+ * Checks uploads before they reach storage and GoHighLevel: the content has to match the declared
+ * type, and with a malware scanner configured it is scanned. A file the scanner can't get to
+ * right away is stored in quarantine (scanStatus 'pending'), hidden from downloads, share links
+ * and GoHighLevel until the document_scan job clears it. Infected files are blocked and the
+ * admins alerted. A quarantined file the scanner keeps failing on is given up on as
+ * 'unscannable' and stays hidden; the admins are alerted about that too.
+ */
+export class DocumentScanService {
+  private static readonly MAX_SCAN_ATTEMPTS = 5;
+
+  static contentMatchesType(file: UploadedFile): boolean {
+    return contentMatchesMimeType(file.buffer, file.mimetype);
+  }
+
+  /**
+   * Whether the document's file can be handed out; quarantined, unscannable and infected ones can't
+   */
+  static isAvailable(document: Document): boolean {
+    return !document.scanStatus || document.scanStatus === 'clean';
+  }
+
+  /**
+   * Scan an upload before it is stored. 'infected' and 'unscannable' files must not be stored;
+   * 'pending' means the scanner couldn't be reached, so the file goes into quarantine. Resolves
+   * to undefined when no scanner is configured.
+   */
+  static async scanUpload(file: UploadedFile, deal: Deal, uploader: ScanUploader, req?: Request): Promise<DocumentScanStatus | undefined> {
+    const scanner = getMalwareScanner();
+    if (!scanner) return undefined;
+
+    try {
+      const result = await scanner.scan(file.buffer);
+      if (result.infected) {
+        await this.alertInfected(deal, file.originalname, uploader, result.signature, req);
+        return 'infected';
+      }
+      return 'clean';
+    } catch (error) {
+      // The uploader is still there to act on a file the scanner can't check, so it is refused
+      return error instanceof ScannerUnavailableError ? 'pending' : 'unscannable';
+    }
+  }
+
+  /**
+   * Tell the team about a clean upload and copy it to the deal's GoHighLevel contact. Failures
+   * are swallowed so the upload itself always succeeds.
+   */
+  static async releaseUpload(deal: Deal, file: UploadedFile, uploadedBy: string, options: { notify?: boolean } = {}): Promise<void> {
+    if (options.notify !== false) {
+      try {
+        await this.ensureEmailReady();
+        await EmailService.sendDocumentUploadNotificationEmail(deal, file.originalname, uploadedBy);
+      } catch (error) {
+        // Don't fail the document upload if email fails
+      }
+    }
+
+    try {
+      const ghlApiKey = await FirebaseService.getConfiguration('ghl_api_key');
+      if (ghlApiKey && deal.ghlContactId) {
+        await GHLService.uploadDocumentToContact(deal.ghlContactId, file.originalname, file.buffer, file.mimetype, ghlApiKey);
+      }
+    } catch (error) {
+      // Don't fail the upload if GHL sync fails
+    }
+  }
+
+  /**
+   * Scan the quarantined documents again. Clean ones are released; infected ones have their file
+   * deleted and the admins alerted. While the scanner is unreachable they all stay quarantined;
+   * one the scanner answers with an error is retried up to MAX_SCAN_ATTEMPTS times and then
+   * marked 'unscannable'.
+   */
+  static async scanQuarantined(): Promise<JobResult> {
+    const scanner = getMalwareScanner();
+    const summary = { checked: 0, released: 0, infected: 0, unscannable: 0, failed: 0 };
+    const errors: string[] = [];
+    if (!scanner) return { summary };
+
+    for (const document of await FirebaseService.getQuarantinedDocuments()) {
+      summary.checked++;
+      try {
+        const storage = getDocumentStorage(document.storageDriver || 'onedrive');
+        const file = await storage.downloadFile(document.oneDriveId);
+        const deal = await FirebaseService.getDealById(document.dealId);
+
+        let result: ScanResult;
+        try {
+          result = await scanner.scan(file.content);
+        } catch (error: any) {
+          if (error instanceof ScannerUnavailableError) throw error;
+          const message = error.message || 'scan failed';
+          if (await this.recordScanFailure(document, deal, message)) {
+            summary.unscannable++;
+          } else {
+            summary.failed++;
+          }
+          errors.push(`${document.id}: ${message}`);
+          continue;
+        }
+
+        await FirebaseService.updateDocumentScanResult(document.id, result);
+        if (result.infected) {
+          summary.infected++;
+          await storage.deleteFile(document.oneDriveId);
+          if (deal) {
+            await this.alertInfected(deal, document.originalName, { userId: document.userId, name: document.uploadedBy }, result.signature, undefined, document.id);
+          }
+        } else {
+          summary.released++;
+          if (deal) {
+            await this.releaseUpload(deal, { originalname: document.originalName, buffer: file.content, mimetype: document.mimeType }, document.uploadedBy);
+          }
+        }
+      } catch (error: any) {
+        summary.failed++;
+        errors.push(`${document.id}: ${error.message || 'scan failed'}`);
+        // The rest of the queue would only fail the same way
+        if (error instanceof ScannerUnavailableError) break;
+      }
+    }
+    return { summary, errors };
+  }
+
+  /**
+   * Count a scan the scanner answered with an error. Resolves to true when that was the last
+   * attempt and the document is now 'unscannable'.
+   */
+  private static async recordScanFailure(document: Document, deal: Deal | null, error: string): Promise<boolean> {
+    const attempts = (document.scanAttempts || 0) + 1;
+    const unscannable = attempts >= this.MAX_SCAN_ATTEMPTS;
+    await FirebaseService.recordDocumentScanFailure(document.id, { attempts, error, unscannable });
+    if (!unscannable) return false;
+
+    await SecurityService.recordEvent('malware_scan_failed', undefined, {
+      userId: document.userId,
+      details: { dealId: document.dealId, documentId: document.id, fileName: document.originalName, error, attempts },
+    });
+    if (deal) {
+      try {
+        await this.ensureEmailReady();
+        await EmailService.sendUnscannableFileAlertEmail(deal, document.originalName, document.uploadedBy, error, attempts);
+      } catch (emailError) {
+        // The security event is enough if email isn't set up
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record the blocked upload as a security event and email the notification addresses
+   */
+  private static async alertInfected(
+    deal: Deal,
+    fileName: string,
+    uploader: ScanUploader,
+    signature: string | undefined,
+    req?: Request,
+    documentId?: string
+  ): Promise<void> {
+    await SecurityService.recordEvent('malware_detected', req, {
+      userId: uploader.userId,
+      details: { dealId: deal.id, fileName, signature: signature || 'unknown', ...(documentId ? { documentId } : {}) },
+    });
+    try {
+      await this.ensureEmailReady();
+      await EmailService.sendMalwareAlertEmail(deal, fileName, uploader.name, signature || 'unknown');
+    } catch (error) {
+      // The security event is enough if email isn't set up
+    }
+  }
+
+  // Initialize the email service from the stored config after a serverless cold start
+  private static async ensureEmailReady(): Promise<void> {
+    if (await EmailService.testEmailConnection()) return;
+    const storedConfig = await FirebaseService.getEmailConfig();
+    if (storedConfig && storedConfig.enabled) {
+      await EmailService.initialize(storedConfig);
+    }
+  }
+}
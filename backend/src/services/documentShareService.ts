@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import JSZip from 'jszip';
+import { Request } from 'express';
+import { FirebaseService, Deal, Document, DocumentShareLink, DocumentShareAccessAction } from './firebaseService';
+import { getDocumentStorage, DownloadedFile } from './documentStorage';
+import { DocumentScanService } from './documentScanService';
+import { hashPassword, verifyPassword } from '../utils/password';
+
+export const SHARE_LINK_DEFAULT_DAYS = 7;
+export const SHARE_LINK_MAX_DAYS = 30;
+
+// How long a visitor can download after opening the link (or entering its password)
+const ACCESS_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Expiring, optionally password-protected links to a set of a deal's documents. Opening a link
+ * (with the password, when it has one) gives the visitor a short-lived access token for the file
+ * and zip downloads, so the password isn't sent with every request. Every open and download is
+ * recorded against the link.
+ */
+export class DocumentShareService {
+  static getStatus(link: DocumentShareLink): ShareLinkStatus {
+    if (link.revokedAt) return 'revoked';
+    return link.expiresAt.toMillis() <= Date.now() ? 'expired' : 'active';
+  }
+
+  static getShareUrl(token: string): string {
+    return `${(process.env.FRONTEND_URL || 'https://www.rain.club').replace(/\/$/, '')}/share/${token}`;
+  }
+
+  /**
+   * Create a link to the given documents. Resolves to the link and the token for its URL, which
+   * can't be recovered later.
+   */
+  static async createLink(
+    deal: Deal,
+    documentIds: string[],
+    options: { expiresInDays?: number; password?: string; label?: string },
+    user: { id: string; username?: string }
+  ): Promise<{ link: DocumentShareLink; token: string }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const days = Math.min(Math.max(options.expiresInDays || SHARE_LINK_DEFAULT_DAYS, 1), SHARE_LINK_MAX_DAYS);
+
+    const link = await FirebaseService.createDocumentShareLink({
+      dealId: deal.id,
+      documentIds: [...new Set(documentIds)],
+      tokenHash: hashToken(token),
+      passwordHash: options.password ? await hashPassword(options.password) : undefined,
+      label: options.label?.trim() || undefined,
+      expiresAt: FirebaseService.timestampFromDate(new Date(Date.now() + days * 24 * 60 * 60 * 1000)),
+      createdBy: user.id,
+      createdByName: user.username,
+    });
+    return { link, token };
+  }
+
+  static async findByToken(token: string): Promise<DocumentShareLink | null> {
+    if (!token) return null;
+    return FirebaseService.getDocumentShareLinkByTokenHash(hashToken(token));
+  }
+
+  static checkPassword(link: DocumentShareLink, password: string | undefined): Promise<boolean> {
+    if (!link.passwordHash) return Promise.resolve(true);
+    return password ? verifyPassword(password, link.passwordHash) : Promise.resolve(false);
+  }
+
+  static issueAccessToken(link: DocumentShareLink): string {
+    const secondsLeft = Math.floor((link.expiresAt.toMillis() - Date.now()) / 1000);
+    return jwt.sign(
+      { shareLinkId: link.id, purpose: 'document_share' },
+      process.env.JWT_SECRET!,
+      { expiresIn: Math.max(1, Math.min(ACCESS_TOKEN_TTL_SECONDS, secondsLeft)) }
+    );
+  }
+
+  static verifyAccessToken(accessToken: string, link: DocumentShareLink): boolean {
+    try {
+      const decoded = jwt.verify(accessToken, process.env.JWT_SECRET!) as any;
+      return decoded?.purpose === 'document_share' && decoded.shareLinkId === link.id;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * The link's documents that still exist; documents deleted after sharing and quarantined ones drop out
+   */
+  static async getDocuments(link: DocumentShareLink): Promise<Document[]> {
+    const documents = await FirebaseService.getDocumentsByDeal(link.dealId);
+    return documents.filter(document => link.documentIds.includes(document.id) && DocumentScanService.isAvailable(document));
+  }
+
+  static getFileName(document: Document): string {
+    return document.originalName || document.filename;
+  }
+
+  static downloadDocument(document: Document): Promise<DownloadedFile> {
+    return getDocumentStorage(document.storageDriver || 'onedrive').downloadFile(document.oneDriveId);
+  }
+
+  /**
+   * Zip every document on the link. Files with the same name are numbered so none is overwritten.
+   */
+  static async buildZip(documents: Document[]): Promise<Buffer> {
+    const zip = new JSZip();
+    const used = new Set<string>();
+    for (const document of documents) {
+      const file = await this.downloadDocument(document);
+      const name = this.getFileName(document).replace(/[\/\\]/g, '_');
+      const dot = name.lastIndexOf('.');
+      const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+      let entryName = name;
+      for (let copy = 2; used.has(entryName.toLowerCase()); copy++) {
+        entryName = `${base} (${copy})${extension}`;
+      }
+      used.add(entryName.toLowerCase());
+      zip.file(entryName, file.content);
+    }
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Record an open or download: the file downloaded, or for a zip every file in it. Failures to
+   * write are swallowed so logging never blocks a download.
+   */
+  static async recordAccess(link: DocumentShareLink, req: Request, action: DocumentShareAccessAction, files?: Document | Document[]): Promise<void> {
+    const zipped = Array.isArray(files) ? files : undefined;
+    const document = Array.isArray(files) ? undefined : files;
+    try {
+      await FirebaseService.recordDocumentShareAccess({
+        shareLinkId: link.id,
+        dealId: link.dealId,
+        action,
+        documentId: document?.id,
+        fileName: document ? this.getFileName(document) : undefined,
+        documentIds: zipped?.map(zippedDocument => zippedDocument.id),
+        fileNames: zipped?.map(zippedDocument => this.getFileName(zippedDocument)),
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']?.slice(0, 300),
+      });
+    } catch (error) {
+      // Best effort
+    }
+  }
+}
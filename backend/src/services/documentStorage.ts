@@ -0,0 +1,140 @@
+import { FirebaseService, DocumentStorageDriver } from './firebaseService';
+import { OneDriveService } from './oneDriveService';
+import { LocalDocumentStorage } from './localDocumentStorage';
+import { S3DocumentStorage } from './s3DocumentStorage';
+
+export const DOCUMENT_STORAGE_DRIVERS: DocumentStorageDriver[] = ['onedrive', 'local', 's3'];
+
+export interface StoredFile {
+  id: string; // Driver-specific: a Graph item id, a path under the storage root or an object key
+  name: string;
+  size: number;
+  createdDateTime: string;
+  lastModifiedDateTime: string;
+  webUrl?: string; // Only drivers with their own web UI (OneDrive) have one
+  downloadUrl?: string;
+  folder?: string; // Subfolder the file is in, relative to the listed folder
+}
+
+export interface DownloadedFile {
+  content: Buffer;
+  mimeType?: string;
+}
+
+/**
+ * Where deal documents are kept. Routes only talk to this interface; the driver is picked with
+ * DOCUMENT_STORAGE_DRIVER so the whole document flow runs in development without Microsoft Graph.
+ * Folder paths are relative to the driver's root and use "/" between levels.
+ */
+export interface DocumentStorage {
+  readonly driver: DocumentStorageDriver;
+  // False when the driver can't be used yet, e.g. OneDrive before an admin connects it
+  isConfigured(): Promise<boolean>;
+  createFolder(folderPath: string): Promise<void>;
+  // Uploading a name that already exists in the folder replaces the file
+  uploadFile(folderPath: string, filename: string, content: Buffer, mimeType: string): Promise<StoredFile>;
+  // Files in the folder and all of its subfolders
+  listFiles(folderPath: string): Promise<StoredFile[]>;
+  // Move a folder with everything in it. Resolves to the new id of each file whose id changed.
+  moveFolder(fromPath: string, toPath: string): Promise<Record<string, string>>;
+  downloadFile(fileId: string): Promise<DownloadedFile>;
+  deleteFile(fileId: string): Promise<void>;
+}
+
+class OneDriveDocumentStorage implements DocumentStorage {
+  readonly driver = 'onedrive' as const;
+
+  async isConfigured(): Promise<boolean> {
+    return !!(await FirebaseService.getLatestOneDriveToken());
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    await OneDriveService.createFolder(folderPath);
+  }
+
+  uploadFile(folderPath: string, filename: string, content: Buffer, mimeType: string): Promise<StoredFile> {
+    return OneDriveService.uploadFile(folderPath, filename, content, mimeType);
+  }
+
+  listFiles(folderPath: string): Promise<StoredFile[]> {
+    return OneDriveService.listFiles(folderPath);
+  }
+
+  // OneDrive item ids survive a move
+  async moveFolder(fromPath: string, toPath: string): Promise<Record<string, string>> {
+    await OneDriveService.moveFolder(fromPath, toPath);
+    return {};
+  }
+
+  downloadFile(fileId: string): Promise<DownloadedFile> {
+    return OneDriveService.downloadFile(fileId);
+  }
+
+  deleteFile(fileId: string): Promise<void> {
+    return OneDriveService.deleteFile(fileId);
+  }
+}
+
+/**
+ * Strip characters that aren't allowed in folder or file names on any of the drivers, including
+ * path separators so a name can never climb out of its folder
+ */
+export function sanitizeStorageName(name: string): string {
+  const sanitized = name
+    .replace(/[<>:"/\\|?*\x00-\x1f\x7f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '');
+  return sanitized || 'untitled';
+}
+
+/**
+ * Sanitize each segment of a folder path, dropping empty ones
+ */
+export function normalizeFolderPath(folderPath: string): string {
+  return folderPath
+    .split('/')
+    .filter(segment => segment.trim() !== '')
+    .map(sanitizeStorageName)
+    .join('/');
+}
+
+const instances: Partial<Record<DocumentStorageDriver, DocumentStorage>> = {};
+
+export function getConfiguredStorageDriver(): DocumentStorageDriver {
+  const configured = (process.env.DOCUMENT_STORAGE_DRIVER || 'onedrive').trim().toLowerCase();
+  if (!DOCUMENT_STORAGE_DRIVERS.includes(configured as DocumentStorageDriver)) {
+    throw new Error(`Unknown DOCUMENT_STORAGE_DRIVER "${configured}"; use one of ${DOCUMENT_STORAGE_DRIVERS.join(', ')}`);
+  }
+  return configured as DocumentStorageDriver;
+}
+
+/**
+ * The storage new uploads go to, or a specific driver to read a file that was stored with it.
+ * Documents uploaded before drivers were recorded are on OneDrive.
+ */
+export function getDocumentStorage(driver: DocumentStorageDriver = getConfiguredStorageDriver()): DocumentStorage {
+  if (!instances[driver]) {
+    switch (driver) {
+      case 'local':
+        instances[driver] = new LocalDocumentStorage(process.env.DOCUMENT_STORAGE_DIR || 'storage/documents');
+        break;
+      case 's3':
+        instances[driver] = new S3DocumentStorage({
+          endpoint: process.env.S3_ENDPOINT,
+          region: process.env.S3_REGION || 'us-east-1',
+          bucket: process.env.S3_BUCKET || '',
+          accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+          prefix: process.env.S3_PREFIX,
+          forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+            ? process.env.S3_FORCE_PATH_STYLE === 'true'
+            : !!process.env.S3_ENDPOINT, // MinIO and most self-hosted servers need path-style URLs
+        });
+        break;
+      default:
+        instances[driver] = new OneDriveDocumentStorage();
+    }
+  }
+  return instances[driver]!;
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { FirebaseService, Deal, Document, DocumentVersion } from './firebaseService';
+import { getDocumentStorage, DownloadedFile } from './documentStorage';
+import { DealFolderService } from './dealFolderService';
+
+export interface DocumentUploader {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Versions of a deal document. A new version is stored next to the old files rather than over
+ * them, so every version stays downloadable; restoring an old version makes its file current
+ * again as a new version, leaving the history append-only.
+ */
+export class DocumentVersionService {
+  /**
+   * Storage key for a version's file: the document id and version, plus a random part so two
+   * uploads racing for the same version number never share a name
+   */
+  static versionFileKey(document: Document, version: number): string {
+    return `${document.id}-v${version}-${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  static getVersions(document: Document): Promise<DocumentVersion[]> {
+    return FirebaseService.getDocumentVersions(document);
+  }
+
+  static getVersion(document: Document, version: number): Promise<DocumentVersion | null> {
+    return FirebaseService.getDocumentVersion(document, version);
+  }
+
+  static downloadVersion(version: DocumentVersion): Promise<DownloadedFile> {
+    return getDocumentStorage(version.storageDriver || 'onedrive').downloadFile(version.oneDriveId);
+  }
+
+  /**
+   * Upload a file as the document's next version, into the same checklist subfolder as the
+   * document. Resolves to null when another version was added while this one uploaded.
+   */
+  static async uploadVersion(
+    document: Document,
+    deal: Deal,
+    file: { originalname: string; buffer: Buffer; mimetype: string; size: number },
+    uploader: DocumentUploader
+  ): Promise<Document | null> {
+    const expectedVersion = document.version || 1;
+    const storage = getDocumentStorage();
+    const storedFile = await DealFolderService.uploadDealFile(
+      deal,
+      file,
+      this.versionFileKey(document, expectedVersion + 1),
+      document.checklistItemId,
+      storage
+    );
+
+    const result = await FirebaseService.addDocumentVersion(document.id, expectedVersion, {
+      filename: storedFile.name,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      storageDriver: storage.driver,
+      oneDriveId: storedFile.id,
+      oneDriveUrl: storedFile.webUrl,
+      downloadUrl: storedFile.downloadUrl,
+    }, uploader);
+
+    if (!result) {
+      // Lost to another upload; its file has a name of its own, so only this one goes
+      await storage.deleteFile(storedFile.id).catch(() => undefined);
+      return null;
+    }
+    return result.document;
+  }
+
+  /**
+   * Make an older version current again. Resolves to null when the document changed meanwhile.
+   */
+  static async restoreVersion(document: Document, version: DocumentVersion, uploader: DocumentUploader): Promise<Document | null> {
+    const result = await FirebaseService.addDocumentVersion(document.id, document.version || 1, {
+      filename: version.filename,
+      originalName: version.originalName,
+      mimeType: version.mimeType,
+      fileSize: version.fileSize,
+      storageDriver: version.storageDriver,
+      oneDriveId: version.oneDriveId,
+      oneDriveUrl: version.oneDriveUrl,
+      downloadUrl: version.downloadUrl,
+    }, uploader, version.version);
+    return result ? result.document : null;
+  }
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { EmailQueueService } from './emailQueueService';
+import { EmailService } from './emailService';
+import { FirebaseService, EmailMessage } from './firebaseService';
+
+describe('EmailQueueService', () => {
+  let messages: Map<string, EmailMessage>;
+  let sendFailures: any[];
+  let sent: string[];
+
+  beforeEach(() => {
+    messages = new Map();
+    sendFailures = [];
+    sent = [];
+
+    // Claims go through a transaction; run it against the in-memory messages
+    mock.method(getFirestore(), 'runTransaction', async (update: (transaction: unknown) => Promise<unknown>) => update({
+      get: async (ref: { id: string }) => {
+        const message = messages.get(ref.id);
+        return { exists: !!message, id: ref.id, data: () => message };
+      },
+      update: (ref: { id: string }, updates: Partial<EmailMessage>) => {
+        messages.set(ref.id, { ...messages.get(ref.id)!, ...updates });
+      },
+    }));
+    mock.method(FirebaseService, 'updateEmailMessage', async (id: string, updates: Partial<EmailMessage>, options: { purgeBody?: boolean } = {}) => {
+      const cleanUpdates = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      const message = { ...messages.get(id)!, ...cleanUpdates };
+      if (options.purgeBody) {
+        delete message.html;
+        delete message.text;
+        delete message.attachments;
+      }
+      messages.set(id, message);
+    });
+    mock.method(FirebaseService, 'getDueEmailMessages', async () => [...messages.values()].filter(message =>
+      ['failed', 'pending', 'sending'].includes(message.status) && message.nextAttemptAt && message.nextAttemptAt.toMillis() <= Date.now()));
+    mock.method(EmailService, 'transport', async (message: Pick<EmailMessage, 'to' | 'subject'>) => {
+      const failure = sendFailures.shift();
+      if (failure) throw failure;
+      sent.push(message.subject);
+      return { messageId: '<abc@mail.example.com>', accepted: message.to, rejected: [] };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const queueMessage = (overrides: Partial<EmailMessage> = {}): EmailMessage => {
+    const message = {
+      id: `message-${messages.size + 1}`,
+      category: 'notification',
+      to: ['member@example.com'],
+      subject: 'Deal update',
+      html: '<p>Your deal moved</p>',
+      sensitive: false,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: 6,
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + 10 * 60 * 1000),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+      ...overrides,
+    } as EmailMessage;
+    messages.set(message.id, message);
+    return message;
+  };
+
+  // Let the backoff of a failed message run out
+  const makeDue = (id: string) => {
+    messages.set(id, { ...messages.get(id)!, nextAttemptAt: Timestamp.fromMillis(Date.now() - 1000) });
+  };
+
+  it('sends a message once', async () => {
+    const message = queueMessage();
+
+    assert.equal((await EmailQueueService.deliver(message.id, ['pending']))?.status, 'sent');
+    assert.equal(await EmailQueueService.deliver(message.id, ['pending']), null);
+    assert.deepEqual(sent, ['Deal update']);
+    assert.equal(messages.get(message.id)?.providerMessageId, '<abc@mail.example.com>');
+  });
+
+  it('retries a failed send once its backoff has passed', async () => {
+    sendFailures.push(new Error('Connection timeout'));
+    const message = queueMessage();
+
+    const failed = await EmailQueueService.deliver(message.id, ['pending']);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.lastError, 'Connection timeout');
+    assert.deepEqual(await EmailQueueService.processDueMessages(), { attempted: 0, sent: 0, failed: 0 });
+
+    makeDue(message.id);
+    assert.deepEqual(await EmailQueueService.processDueMessages(), { attempted: 1, sent: 1, failed: 0 });
+    assert.equal(messages.get(message.id)?.attempts, 2);
+  });
+
+  it('gives up on a message once its attempts are used up', async () => {
+    sendFailures.push(...Array.from({ length: 6 }, () => new Error('Connection timeout')));
+    const message = queueMessage();
+
+    await EmailQueueService.deliver(message.id, ['pending']);
+    for (let attempt = 2; attempt <= message.maxAttempts; attempt++) {
+      makeDue(message.id);
+      await EmailQueueService.processDueMessages();
+    }
+
+    assert.equal(messages.get(message.id)?.status, 'dead');
+    assert.deepEqual(sent, []);
+  });
+
+  it('does not retry a message the server refused for every recipient', async () => {
+    sendFailures.push(Object.assign(new Error('No recipients defined'), {
+      code: 'EENVELOPE',
+      rejected: ['member@example.com'],
+      response: '550 Mailbox not found',
+    }));
+    const message = queueMessage();
+
+    const bounced = await EmailQueueService.deliver(message.id, ['pending']);
+
+    assert.equal(bounced?.status, 'bounced');
+    assert.equal(bounced?.bounceReason, '550 Mailbox not found');
+    assert.deepEqual(bounced?.rejectedRecipients, ['member@example.com']);
+  });
+
+  it('drops the body of a code-carrying email once it is sent', async () => {
+    const message = queueMessage({ category: 'verification_code', sensitive: true, html: '<p>Your code is 123456</p>' });
+
+    await EmailQueueService.deliver(message.id, ['pending']);
+
+    assert.equal(messages.get(message.id)?.status, 'sent');
+    assert.equal(messages.get(message.id)?.html, undefined);
+  });
+
+  it('keeps the body of a code-carrying email while it is still being retried', async () => {
+    sendFailures.push(new Error('Connection timeout'));
+    const message = queueMessage({ category: 'verification_code', sensitive: true, html: '<p>Your code is 123456</p>' });
+
+    await EmailQueueService.deliver(message.id, ['pending']);
+
+    assert.equal(messages.get(message.id)?.html, '<p>Your code is 123456</p>');
+  });
+
+  it('takes over a send whose claim expired', async () => {
+    const message = queueMessage({ status: 'sending' });
+    assert.equal(await EmailQueueService.deliver(message.id, ['sending']), null);
+
+    makeDue(message.id);
+    assert.equal((await EmailQueueService.deliver(message.id, ['sending']))?.status, 'sent');
+  });
+});
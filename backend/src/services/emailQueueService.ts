@@ -0,0 +1,200 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirebaseService, EmailAttachment, EmailMessage, EmailMessageStatus } from './firebaseService';
+import { EmailService } from './emailService';
+import { RetryQueue } from './retryQueue';
+
+export interface EnqueueOptions {
+  userId?: string; // Member the email is about, when it goes to one
+  resendOf?: string;
+  requestedBy?: string;
+}
+
+export interface OutgoingEmail {
+  category: string;
+  to: string | string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+  sensitive?: boolean;
+}
+
+/**
+ * Re-sends a code-carrying email whose body was dropped. Issues a fresh code, since the old one
+ * may have expired or been used. Resenders live next to the route that sends the original.
+ */
+export type EmailResender = (message: EmailMessage, requestedBy: string) => Promise<EmailMessage>;
+
+/**
+ * Outbound email queue. Every email is stored before it is sent, delivered in the background so
+ * request handlers never wait on SMTP, and retried with backoff when the send fails. The stored
+ * messages are the admin email log.
+ */
+export class EmailQueueService {
+  private static readonly queue = new RetryQueue({
+    maxAttempts: 6,
+    baseDelayMs: 60 * 1000, // 1 minute
+    maxDelayMs: 6 * 60 * 60 * 1000, // 6 hours
+    claimLeaseMs: 10 * 60 * 1000,
+  }, () => EmailQueueService.processDueMessages());
+  private static resenders: Record<string, EmailResender> = {};
+
+  static registerResender(category: string, resender: EmailResender): void {
+    this.resenders[category] = resender;
+  }
+
+  /**
+   * Store an email and start delivering it. Resolves once the message is stored, not when it is sent.
+   */
+  static async enqueue(email: OutgoingEmail, options: EnqueueOptions = {}): Promise<EmailMessage> {
+    const message = await FirebaseService.createEmailMessage({
+      category: email.category,
+      to: (Array.isArray(email.to) ? email.to : email.to.split(','))
+        .map(address => address.trim())
+        .filter(Boolean),
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+      attachments: email.attachments,
+      sensitive: !!email.sensitive,
+      maxAttempts: this.queue.policy.maxAttempts,
+      userId: options.userId,
+      resendOf: options.resendOf,
+      requestedBy: options.requestedBy,
+      // The worker takes the message over if the send below never gets to claim it
+      nextAttemptAt: this.queue.claimExpiry(),
+    });
+
+    this.deliver(message.id, ['pending']).catch(() => {
+      // The message stays pending until its claim expires and the worker picks it up
+    });
+    this.queue.nudge();
+    return message;
+  }
+
+  /**
+   * Hand a message to the SMTP server, recording the outcome or scheduling the next retry
+   */
+  static async deliver(messageId: string, allowedStatuses: EmailMessageStatus[]): Promise<EmailMessage | null> {
+    const message = await FirebaseService.claimEmailMessage(messageId, allowedStatuses, this.queue.policy.claimLeaseMs);
+    if (!message) {
+      return null;
+    }
+
+    const attempts = (message.attempts || 0) + 1;
+    let updates: Partial<EmailMessage>;
+    try {
+      const result = await EmailService.transport(message);
+      // Not every transport reports accepted recipients, so only explicit rejections count
+      const bounced = result.rejected.length > 0 && result.accepted.length === 0;
+      updates = {
+        status: bounced ? 'bounced' : 'sent',
+        attempts,
+        lastError: '',
+        providerMessageId: result.messageId,
+        rejectedRecipients: result.rejected.length ? result.rejected : undefined,
+        bounceReason: bounced ? 'Every recipient was rejected by the mail server' : undefined,
+        bouncedAt: bounced ? Timestamp.now() : undefined,
+        sentAt: bounced ? undefined : Timestamp.now(),
+      };
+    } catch (error: any) {
+      // Nodemailer reports EENVELOPE when the server refuses every recipient; retrying won't help
+      const rejected = error?.code === 'EENVELOPE' && Array.isArray(error.rejected) && error.rejected.length > 0;
+      const exhausted = this.queue.isExhausted(attempts, message.maxAttempts);
+      updates = {
+        status: rejected ? 'bounced' : exhausted ? 'dead' : 'failed',
+        attempts,
+        lastError: error?.message || String(error),
+        rejectedRecipients: rejected ? error.rejected : undefined,
+        bounceReason: rejected ? error?.response || error?.message : undefined,
+        bouncedAt: rejected ? Timestamp.now() : undefined,
+        nextAttemptAt: rejected || exhausted ? undefined : this.queue.nextRetryAt(attempts),
+      };
+    }
+
+    const finished = updates.status !== 'failed';
+    const purgeBody = message.sensitive && finished;
+    await FirebaseService.updateEmailMessage(message.id, updates, { purgeBody });
+    const updated = { ...message, ...updates } as EmailMessage;
+    if (purgeBody) {
+      delete updated.html;
+      delete updated.text;
+      delete updated.attachments;
+    }
+    return updated;
+  }
+
+  /**
+   * Send a logged email again as a new message. Code-carrying emails go through their resender,
+   * which issues a fresh code.
+   */
+  static async resend(messageId: string, requestedBy: string): Promise<EmailMessage | null> {
+    const message = await FirebaseService.getEmailMessage(messageId);
+    if (!message) {
+      return null;
+    }
+
+    const resender = this.resenders[message.category];
+    if (message.sensitive && resender) {
+      return resender(message, requestedBy);
+    }
+    if (!message.html && !message.text) {
+      throw new Error('This email can no longer be resent because its content was not kept');
+    }
+
+    return this.enqueue({
+      category: message.category,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+      attachments: message.attachments,
+      sensitive: message.sensitive,
+    }, { userId: message.userId, resendOf: message.id, requestedBy });
+  }
+
+  /**
+   * Record a bounce the mail provider reported after accepting the message
+   */
+  static async recordBounce(providerMessageId: string, details: { recipient?: string; reason?: string }): Promise<number> {
+    // SMTP servers return "<id@host>"; providers often report the id without the brackets
+    const bareId = providerMessageId.trim().replace(/^<|>$/g, '');
+    const messages = await FirebaseService.getEmailMessagesByProviderId([bareId, `<${bareId}>`]);
+    for (const message of messages) {
+      const recipient = details.recipient?.trim();
+      await FirebaseService.updateEmailMessage(message.id, {
+        status: 'bounced',
+        bounceReason: details.reason || 'Reported as bounced by the mail provider',
+        bouncedAt: Timestamp.now(),
+        rejectedRecipients: recipient
+          ? [...new Set([...(message.rejectedRecipients || []), recipient])]
+          : message.rejectedRecipients,
+      });
+    }
+    return messages.length;
+  }
+
+  /**
+   * Retry failed messages whose backoff has elapsed, and take over sends that never finished
+   */
+  static async processDueMessages(limit = 20): Promise<{ attempted: number; sent: number; failed: number }> {
+    const dueMessages = await FirebaseService.getDueEmailMessages(limit);
+    let sent = 0;
+    let failed = 0;
+
+    for (const dueMessage of dueMessages) {
+      const result = await this.deliver(dueMessage.id, ['failed', 'pending', 'sending']);
+      if (result?.status === 'sent') sent++;
+      else if (result) failed++;
+    }
+
+    return { attempted: dueMessages.length, sent, failed };
+  }
+
+  static startRetryWorker(intervalMs = 60 * 1000): void {
+    this.queue.startWorker(intervalMs);
+  }
+}
@@ -1,5 +1,7 @@
 import nodemailer from 'nodemailer';
-import { Deal } from './firebaseService';
+import { Deal, EmailTemplateContent, BillingEmailType, EmailMessage } from './firebaseService';
+import { EmailTemplateService } from './emailTemplateService';
+import { EmailQueueService, EnqueueOptions } from './emailQueueService';
 
 export interface EmailConfig {
   smtpHost: string;
@@ -11,6 +13,14 @@ export interface EmailConfig {
   notificationEmails: string[];
 }
 
+export interface BillingEmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  tone?: 'info' | 'warning';
+}
+
 export class EmailService {
   private static transporter: nodemailer.Transporter | null = null;
   private static config: EmailConfig | null = null;
@@ -46,23 +56,14 @@ export class EmailService {
     }
 
     try {
-      const emailHtml = this.generateDealNotificationHtml(deal, createdBy);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: this.config.notificationEmails.join(', '),
-        subject: `🎯 New Deal Created: ${deal.dealId}`,
-        html: emailHtml,
-        text: this.generateDealNotificationText(deal, createdBy),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
+      const email = await EmailTemplateService.render('deal_created', { deal, createdBy });
+      await EmailQueueService.enqueue({ category: 'deal_created', to: this.config.notificationEmails, ...email });
           } catch (error) {
             // Don't throw error to avoid breaking deal creation
     }
   }
 
-  static async sendDealUpdateNotificationEmail(deal: Deal, changes: string[], updatedBy: string): Promise<void> {
+  static async sendDealUpdateNotificationEmail(deal: Deal, changes: string[], updatedBy: string, missingDocuments: string[] = []): Promise<void> {
     if (!this.transporter || !this.config) {
             return;
     }
@@ -72,17 +73,8 @@ export class EmailService {
     }
 
     try {
-      const emailHtml = this.generateDealUpdateNotificationHtml(deal, changes, updatedBy);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: this.config.notificationEmails.join(', '),
-        subject: `🔄 Deal Updated: ${deal.dealId}`,
-        html: emailHtml,
-        text: this.generateDealUpdateNotificationText(deal, changes, updatedBy),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
+      const email = await EmailTemplateService.render('deal_updated', { deal, changes, updatedBy, missingDocuments });
+      await EmailQueueService.enqueue({ category: 'deal_updated', to: this.config.notificationEmails, ...email });
           } catch (error) {
             // Don't throw error to avoid breaking deal update
     }
@@ -98,864 +90,45 @@ export class EmailService {
     }
 
     try {
-      const emailHtml = this.generateDocumentUploadNotificationHtml(deal, fileName, uploadedBy);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: this.config.notificationEmails.join(', '),
-        subject: `📄 Document Uploaded: ${fileName} for Deal ${deal.dealId}`,
-        html: emailHtml,
-        text: this.generateDocumentUploadNotificationText(deal, fileName, uploadedBy),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
+      const email = await EmailTemplateService.render('document_uploaded', { deal, fileName, uploadedBy });
+      await EmailQueueService.enqueue({ category: 'document_uploaded', to: this.config.notificationEmails, ...email });
           } catch (error) {
             // Don't throw error to avoid breaking document upload
     }
   }
 
-  private static generateDealNotificationHtml(deal: Deal, createdBy?: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <meta name="color-scheme" content="light only">
-        <meta name="supported-color-schemes" content="light">
-        <title>New Deal Created - ${deal.dealId}</title>
-        <style>
-            body {
-                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
-                line-height: 1.6;
-                color: #000; /* Force dark text for email clients/dark mode */
-                max-width: 600px;
-                margin: 0 auto;
-                padding: 20px;
-                background-color: #f8f9fa;
-            }
-            .container {
-                background: white;
-                border-radius: 12px;
-                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-                overflow: hidden;
-            }
-            .header {
-                background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-                color: #ffffff !important;
-                padding: 30px;
-                text-align: center;
-                border-bottom: 1px solid #d1d9ea;
-            }
-            .header h1 {
-                margin: 0;
-                font-size: 28px;
-                font-weight: 600;
-                color: #ffffff !important;
-            }
-            .header p {
-                margin: 10px 0 0 0;
-                opacity: 1;
-                color: #ffffff !important;
-                font-size: 16px;
-            }
-            .content {
-                padding: 30px;
-                color: #000;
-            }
-            .deal-id {
-                background: #f8f9fa;
-                border-left: 4px solid #667eea;
-                padding: 15px;
-                margin: 20px 0;
-                border-radius: 0 8px 8px 0;
-                font-family: 'Courier New', monospace;
-                font-size: 18px;
-                font-weight: bold;
-                color: #000;
-            }
-            .info-grid {
-                display: grid;
-                grid-template-columns: 1fr 1fr;
-                gap: 20px;
-                margin: 20px 0;
-            }
-            .info-card {
-                background: #f8f9fa;
-                padding: 20px;
-                border-radius: 8px;
-                border: 1px solid #e9ecef;
-            }
-            .info-card h3 {
-                margin: 0 0 10px 0;
-                color: #000;
-                font-size: 14px;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .info-card p {
-                margin: 0;
-                font-size: 16px;
-                font-weight: 500;
-                color: #000;
-            }
-            .cta-button {
-                display: inline-block;
-                background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-                color: white;
-                text-decoration: none;
-                padding: 15px 30px;
-                border-radius: 8px;
-                font-weight: 600;
-                text-align: center;
-                margin: 20px 0;
-                transition: transform 0.2s;
-            }
-            .cta-button:hover {
-                transform: translateY(-2px);
-            }
-            .footer {
-                background: #f8f9fa;
-                padding: 20px;
-                text-align: center;
-                color: #444;
-                font-size: 14px;
-                border-top: 1px solid #e9ecef;
-            }
-            .status-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .status-open {
-                background: #d4edda;
-                color: #155724;
-            }
-            .stage-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-                background: #e3f2fd;
-                color: #1565c0;
-            }
-            @media (max-width: 600px) {
-                .info-grid {
-                    grid-template-columns: 1fr;
-                }
-                .header h1 {
-                    font-size: 24px;
-                }
-            }
-        </style>
-    </head>
-    <body>
-        <div class="container">
-            <div class="header">
-                <h1>🎯 New Deal Created</h1>
-                <p>A new opportunity has been added to your pipeline</p>
-            </div>
-            
-            <div class="content">
-                <div class="deal-id">${deal.dealId}</div>
-                
-                <div class="info-grid">
-                    <div class="info-card">
-                        <h3>Property Address</h3>
-                        <p>${deal.propertyAddress || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Property Type</h3>
-                        <p>${deal.propertyType || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Name</h3>
-                        <p>${deal.contactName || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Email</h3>
-                        <p>${deal.contactEmail || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Loan Request</h3>
-                        <p>${deal.loanRequest || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Deal Type</h3>
-                        <p>${deal.dealType || 'Not specified'}</p>
-                    </div>
-                    ${createdBy ? `
-                    <div class="info-card">
-                        <h3>Created By</h3>
-                        <p>${createdBy}</p>
-                    </div>
-                    ` : ''}
-                </div>
-
-                <div style="text-align: center; margin: 30px 0;">
-                    <span class="status-badge status-open">${deal.status || 'Open'}</span>
-                    <span class="stage-badge" style="margin-left: 10px;">${deal.stage || 'Qualification'}</span>
-                </div>
-
-                ${deal.additionalInformation ? `
-                <div class="info-card">
-                    <h3>Additional Information</h3>
-                    <p>${deal.additionalInformation}</p>
-                </div>
-                ` : ''}
-
-                <div style="text-align: center;">
-                    <a href="${dealUrl}" class="cta-button">View Deal in Portal</a>
-                </div>
-
-                <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
-                    Created on ${currentDate}${createdBy ? ` by ${createdBy}` : ''}
-                </p>
-            </div>
-            
-            <div class="footer">
-                <p>This is an automated notification from Rainmakers Portal</p>
-                <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
-            </div>
-        </div>
-    </body>
-    </html>
-    `;
-  }
-
-  private static generateDealNotificationText(deal: Deal, createdBy?: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    return `
-🎯 NEW DEAL CREATED
-
-Deal ID: ${deal.dealId}
-Property Address: ${deal.propertyAddress || 'Not specified'}
-Property Type: ${deal.propertyType || 'Not specified'}
-Contact Name: ${deal.contactName || 'Not specified'}
-Contact Email: ${deal.contactEmail || 'Not specified'}
-Loan Request: ${deal.loanRequest || 'Not specified'}
-Deal Type: ${deal.dealType || 'Not specified'}
-${createdBy ? `Created By: ${createdBy}` : ''}
-Status: ${deal.status || 'Open'}
-Stage: ${deal.stage || 'Qualification'}
-
-${deal.additionalInformation ? `Additional Information: ${deal.additionalInformation}` : ''}
-
-View Deal: ${dealUrl}
-
-Created on: ${currentDate}${createdBy ? ` by ${createdBy}` : ''}
-
----
-This is an automated notification from Rainmakers Portal
-    `.trim();
-  }
-
-  private static generateDealUpdateNotificationHtml(deal: Deal, changes: string[], updatedBy: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    const changesList = changes.map(change => `<li>${change}</li>`).join('');
-
-    return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <meta name="color-scheme" content="light only">
-        <meta name="supported-color-schemes" content="light">
-        <title>Deal Updated - ${deal.dealId}</title>
-        <style>
-            body {
-                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
-                line-height: 1.6;
-                color: #000;
-                max-width: 600px;
-                margin: 0 auto;
-                padding: 20px;
-                background-color: #f8f9fa;
-            }
-            .container {
-                background: white;
-                border-radius: 12px;
-                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-                overflow: hidden;
-            }
-            .header {
-                background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-                color: #ffffff !important;
-                padding: 30px;
-                text-align: center;
-                border-bottom: 1px solid #d1d9ea;
-            }
-            .header h1 {
-                margin: 0;
-                font-size: 28px;
-                font-weight: 600;
-                color: #ffffff !important;
-            }
-            .header p {
-                margin: 10px 0 0 0;
-                opacity: 1;
-                font-size: 16px;
-                color: #ffffff !important;
-            }
-            .content {
-                padding: 30px;
-                color: #000;
-            }
-            .deal-id {
-                background: #f8f9fa;
-                border-left: 4px solid #667eea;
-                padding: 15px;
-                margin: 20px 0;
-                border-radius: 0 8px 8px 0;
-                font-family: 'Courier New', monospace;
-                font-size: 18px;
-                font-weight: bold;
-                color: #000;
-            }
-            .changes-section {
-                background: #fff3cd;
-                border: 1px solid #ffeaa7;
-                border-radius: 8px;
-                padding: 20px;
-                margin: 20px 0;
-            }
-            .changes-section h3 {
-                margin: 0 0 15px 0;
-                color: #856404;
-                font-size: 16px;
-            }
-            .changes-list {
-                margin: 0;
-                padding-left: 20px;
-            }
-            .changes-list li {
-                margin: 8px 0;
-                color: #856404;
-            }
-            .info-grid {
-                display: grid;
-                grid-template-columns: 1fr 1fr;
-                gap: 20px;
-                margin: 20px 0;
-            }
-            .info-card {
-                background: #f8f9fa;
-                padding: 20px;
-                border-radius: 8px;
-                border: 1px solid #e9ecef;
-            }
-            .info-card h3 {
-                margin: 0 0 10px 0;
-                color: #000;
-                font-size: 14px;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .info-card p {
-                margin: 0;
-                font-size: 16px;
-                font-weight: 500;
-                color: #000;
-            }
-            .updated-by {
-                background: #e3f2fd;
-                border-left: 4px solid #2196f3;
-                padding: 15px;
-                margin: 20px 0;
-                border-radius: 0 8px 8px 0;
-                color: #1565c0;
-                font-weight: 500;
-            }
-            .cta-button {
-                display: inline-block;
-                background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-                color: white;
-                text-decoration: none;
-                padding: 15px 30px;
-                border-radius: 8px;
-                font-weight: 600;
-                text-align: center;
-                margin: 20px 0;
-                transition: transform 0.2s;
-            }
-            .cta-button:hover {
-                transform: translateY(-2px);
-            }
-            .footer {
-                background: #f8f9fa;
-                padding: 20px;
-                text-align: center;
-                color: #444;
-                font-size: 14px;
-                border-top: 1px solid #e9ecef;
-            }
-            .status-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .status-open {
-                background: #d4edda;
-                color: #155724;
-            }
-            .stage-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-                background: #e3f2fd;
-                color: #1565c0;
-            }
-            @media (max-width: 600px) {
-                .info-grid {
-                    grid-template-columns: 1fr;
-                }
-                .header h1 {
-                    font-size: 24px;
-                }
-            }
-        </style>
-    </head>
-    <body>
-        <div class="container">
-            <div class="header">
-                <h1>🔄 Deal Updated</h1>
-                <p>Changes have been made to an existing deal</p>
-            </div>
-            
-            <div class="content">
-                <div class="deal-id">${deal.dealId}</div>
-                
-                <div class="changes-section">
-                    <h3>📝 Changes Made</h3>
-                    <ul class="changes-list">
-                        ${changesList}
-                    </ul>
-                </div>
-
-                <div class="updated-by">
-                    <strong>Updated by:</strong> ${updatedBy}
-                </div>
-                
-                <div class="info-grid">
-                    <div class="info-card">
-                        <h3>Property Address</h3>
-                        <p>${deal.propertyAddress || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Property Type</h3>
-                        <p>${deal.propertyType || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Name</h3>
-                        <p>${deal.contactName || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Email</h3>
-                        <p>${deal.contactEmail || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Loan Request</h3>
-                        <p>${deal.loanRequest || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Deal Type</h3>
-                        <p>${deal.dealType || 'Not specified'}</p>
-                    </div>
-                </div>
-
-                <div style="text-align: center; margin: 30px 0;">
-                    <span class="status-badge status-open">${deal.status || 'Open'}</span>
-                    <span class="stage-badge" style="margin-left: 10px;">${deal.stage || 'Qualification'}</span>
-                </div>
-
-                <div style="text-align: center;">
-                    <a href="${dealUrl}" class="cta-button">View Updated Deal</a>
-                </div>
-
-                <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
-                    Updated on ${currentDate}
-                </p>
-            </div>
-            
-            <div class="footer">
-                <p>This is an automated notification from Rainmakers Portal</p>
-                <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
-            </div>
-        </div>
-    </body>
-    </html>
-    `;
-  }
-
-  private static generateDealUpdateNotificationText(deal: Deal, changes: string[], updatedBy: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    const changesList = changes.map(change => `• ${change}`).join('\n');
-
-    return `
-🔄 DEAL UPDATED
-
-Deal ID: ${deal.dealId}
-Updated by: ${updatedBy}
-
-Changes Made:
-${changesList}
-
-Property Address: ${deal.propertyAddress || 'Not specified'}
-Property Type: ${deal.propertyType || 'Not specified'}
-Contact Name: ${deal.contactName || 'Not specified'}
-Contact Email: ${deal.contactEmail || 'Not specified'}
-Loan Request: ${deal.loanRequest || 'Not specified'}
-Deal Type: ${deal.dealType || 'Not specified'}
-Status: ${deal.status || 'Open'}
-Stage: ${deal.stage || 'Qualification'}
-
-View Deal: ${dealUrl}
-
-Updated on: ${currentDate}
-
----
-This is an automated notification from Rainmakers Portal
-    `.trim();
-  }
-
-  private static generateDocumentUploadNotificationHtml(deal: Deal, fileName: string, uploadedBy: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <meta name="color-scheme" content="light only">
-        <meta name="supported-color-schemes" content="light">
-        <title>Document Uploaded - ${fileName}</title>
-        <style>
-            body {
-                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
-                line-height: 1.6;
-                color: #000;
-                max-width: 600px;
-                margin: 0 auto;
-                padding: 20px;
-                background-color: #f8f9fa;
-            }
-            .container {
-                background: white;
-                border-radius: 12px;
-                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-                overflow: hidden;
-            }
-            .header {
-                background: linear-gradient(135deg, #28a745 0%, #20c997 100%);
-                color: #ffffff !important;
-                padding: 30px;
-                text-align: center;
-                border-bottom: 1px solid #d1d9ea;
-            }
-            .header h1 {
-                margin: 0;
-                font-size: 28px;
-                font-weight: 600;
-                color: #ffffff !important;
-            }
-            .header p {
-                margin: 10px 0 0 0;
-                opacity: 1;
-                font-size: 16px;
-                color: #ffffff !important;
-            }
-            .content {
-                padding: 30px;
-                color: #000;
-            }
-            .deal-id {
-                background: #f8f9fa;
-                border-left: 4px solid #28a745;
-                padding: 15px;
-                margin: 20px 0;
-                border-radius: 0 8px 8px 0;
-                font-family: 'Courier New', monospace;
-                font-size: 18px;
-                font-weight: bold;
-                color: #000;
-            }
-            .document-section {
-                background: #d4edda;
-                border: 1px solid #c3e6cb;
-                border-radius: 8px;
-                padding: 20px;
-                margin: 20px 0;
-                text-align: center;
-            }
-            .document-section h3 {
-                margin: 0 0 10px 0;
-                color: #155724;
-                font-size: 18px;
-            }
-            .document-name {
-                font-size: 20px;
-                font-weight: bold;
-                color: #155724;
-                margin: 10px 0;
-                word-break: break-all;
-            }
-            .uploaded-by {
-                background: #e3f2fd;
-                border-left: 4px solid #2196f3;
-                padding: 15px;
-                margin: 20px 0;
-                border-radius: 0 8px 8px 0;
-                color: #1565c0;
-                font-weight: 500;
-            }
-            .info-grid {
-                display: grid;
-                grid-template-columns: 1fr 1fr;
-                gap: 20px;
-                margin: 20px 0;
-            }
-            .info-card {
-                background: #f8f9fa;
-                padding: 20px;
-                border-radius: 8px;
-                border: 1px solid #e9ecef;
-            }
-            .info-card h3 {
-                margin: 0 0 10px 0;
-                color: #000;
-                font-size: 14px;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .info-card p {
-                margin: 0;
-                font-size: 16px;
-                font-weight: 500;
-                color: #000;
-            }
-            .cta-button {
-                display: inline-block;
-                background: linear-gradient(135deg, #28a745 0%, #20c997 100%);
-                color: white;
-                text-decoration: none;
-                padding: 15px 30px;
-                border-radius: 8px;
-                font-weight: 600;
-                text-align: center;
-                margin: 20px 0;
-                transition: transform 0.2s;
-            }
-            .cta-button:hover {
-                transform: translateY(-2px);
-            }
-            .footer {
-                background: #f8f9fa;
-                padding: 20px;
-                text-align: center;
-                color: #444;
-                font-size: 14px;
-                border-top: 1px solid #e9ecef;
-            }
-            .status-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-            }
-            .status-open {
-                background: #d4edda;
-                color: #155724;
-            }
-            .stage-badge {
-                display: inline-block;
-                padding: 6px 12px;
-                border-radius: 20px;
-                font-size: 12px;
-                font-weight: 600;
-                text-transform: uppercase;
-                letter-spacing: 0.5px;
-                background: #e3f2fd;
-                color: #1565c0;
-            }
-            @media (max-width: 600px) {
-                .info-grid {
-                    grid-template-columns: 1fr;
-                }
-                .header h1 {
-                    font-size: 24px;
-                }
-            }
-        </style>
-    </head>
-    <body>
-        <div class="container">
-            <div class="header">
-                <h1>📄 Document Uploaded</h1>
-                <p>A new document has been added to a deal</p>
-            </div>
-            
-            <div class="content">
-                <div class="deal-id">${deal.dealId}</div>
-                
-                <div class="document-section">
-                    <h3>📁 New Document</h3>
-                    <div class="document-name">${fileName}</div>
-                </div>
-
-                <div class="uploaded-by">
-                    <strong>Uploaded by:</strong> ${uploadedBy}
-                </div>
-                
-                <div class="info-grid">
-                    <div class="info-card">
-                        <h3>Property Address</h3>
-                        <p>${deal.propertyAddress || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Property Type</h3>
-                        <p>${deal.propertyType || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Name</h3>
-                        <p>${deal.contactName || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Contact Email</h3>
-                        <p>${deal.contactEmail || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Loan Request</h3>
-                        <p>${deal.loanRequest || 'Not specified'}</p>
-                    </div>
-                    <div class="info-card">
-                        <h3>Deal Type</h3>
-                        <p>${deal.dealType || 'Not specified'}</p>
-                    </div>
-                </div>
-
-                <div style="text-align: center; margin: 30px 0;">
-                    <span class="status-badge status-open">${deal.status || 'Open'}</span>
-                    <span class="stage-badge" style="margin-left: 10px;">${deal.stage || 'Qualification'}</span>
-                </div>
+  static async sendMalwareAlertEmail(deal: Deal, fileName: string, uploadedBy: string, signature: string): Promise<void> {
+    if (!this.transporter || !this.config) {
+      return;
+    }
 
-                <div style="text-align: center;">
-                    <a href="${dealUrl}" class="cta-button">View Deal & Documents</a>
-                </div>
+    if (!this.config.notificationEmails || this.config.notificationEmails.length === 0) {
+      return;
+    }
 
-                <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
-                    Uploaded on ${currentDate}
-                </p>
-            </div>
-            
-            <div class="footer">
-                <p>This is an automated notification from Rainmakers Portal</p>
-                <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
-            </div>
-        </div>
-    </body>
-    </html>
-    `;
+    try {
+      const email = await EmailTemplateService.render('malware_detected', { deal, fileName, uploadedBy, signature });
+      await EmailQueueService.enqueue({ category: 'malware_detected', to: this.config.notificationEmails, ...email });
+    } catch (error) {
+      // Don't throw error; the upload is blocked either way
+    }
   }
 
-  private static generateDocumentUploadNotificationText(deal: Deal, fileName: string, uploadedBy: string): string {
-    const dealUrl = `${process.env.FRONTEND_URL}/deals`;
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-
-    return `
-📄 DOCUMENT UPLOADED
-
-Deal ID: ${deal.dealId}
-Document: ${fileName}
-Uploaded by: ${uploadedBy}
-
-Property Address: ${deal.propertyAddress || 'Not specified'}
-Property Type: ${deal.propertyType || 'Not specified'}
-Contact Name: ${deal.contactName || 'Not specified'}
-Contact Email: ${deal.contactEmail || 'Not specified'}
-Loan Request: ${deal.loanRequest || 'Not specified'}
-Deal Type: ${deal.dealType || 'Not specified'}
-Status: ${deal.status || 'Open'}
-Stage: ${deal.stage || 'Qualification'}
-
-View Deal: ${dealUrl}
+  static async sendUnscannableFileAlertEmail(deal: Deal, fileName: string, uploadedBy: string, error: string, attempts: number): Promise<void> {
+    if (!this.transporter || !this.config) {
+      return;
+    }
 
-Uploaded on: ${currentDate}
+    if (!this.config.notificationEmails || this.config.notificationEmails.length === 0) {
+      return;
+    }
 
----
-This is an automated notification from Rainmakers Portal
-    `.trim();
+    try {
+      const email = await EmailTemplateService.render('malware_scan_failed', { deal, fileName, uploadedBy, error, attempts });
+      await EmailQueueService.enqueue({ category: 'malware_scan_failed', to: this.config.notificationEmails, ...email });
+    } catch (error) {
+      // Don't throw error; the file stays hidden either way
+    }
   }
 
   static async testEmailConnection(): Promise<boolean> {
@@ -971,13 +144,22 @@ This is an automated notification from Rainmakers Portal
     }
   }
 
-  static async sendTestEmail(to: string): Promise<boolean> {
+  /**
+   * Send the SMTP test email, or a rendered template when the template editor sends a test
+   */
+  static async sendTestEmail(to: string, content?: EmailTemplateContent): Promise<boolean> {
     if (!this.transporter || !this.config) {
       return false;
     }
 
     try {
-      const mailOptions = {
+      const mailOptions = content ? {
+        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
+        to: to,
+        subject: `[Test] ${content.subject}`,
+        html: content.html,
+        text: content.text,
+      } : {
         from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
         to: to,
         subject: '🧪 Test Email - Rainmakers Portal',
@@ -1012,248 +194,126 @@ This is an automated notification from Rainmakers Portal
     }
 
     try {
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: this.config.notificationEmails.join(', '),
+      await EmailQueueService.enqueue({
+        category: 'json_attachment',
+        to: this.config.notificationEmails,
         subject: subject || `📄 ${filename}`,
         text: bodyText || `Attached is ${filename}.`,
         attachments: [
           {
             filename,
-            content: Buffer.from(JSON.stringify(jsonData, null, 2), 'utf-8'),
+            content: Buffer.from(JSON.stringify(jsonData, null, 2), 'utf-8').toString('base64'),
             contentType: 'application/json'
           }
         ]
-      } as any;
-
-      const result = await this.transporter.sendMail(mailOptions);
+      });
             return true;
     } catch (error) {
             return false;
     }
   }
 
+  /**
+   * The emails below go to a single member and resolve once queued. Emails carrying a code are
+   * marked sensitive so the code isn't kept after delivery.
+   */
   static async sendWelcomeEmail(
     email: string, 
     username: string, 
-    verificationCode: string
-  ): Promise<void> {
-    if (!this.transporter || !this.config) {
-      const errorMsg = '⚠️ [EMAIL] Email service not configured, skipping welcome email. Please configure EmailConfig in Firebase Admin settings.';
-            throw new Error('Email service not configured. Please configure EmailConfig in Firebase Admin settings.');
-    }
-
-    try {
-      const emailHtml = this.generateWelcomeEmailHtml(username, verificationCode);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: email,
-        subject: '🎉 Welcome to Rainmakers Portal!',
-        html: emailHtml,
-        text: this.generateWelcomeEmailText(username, verificationCode),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
-          } catch (error) {
-            // Don't throw error to avoid breaking webhook
-    }
+    verificationCode: string,
+    options: EnqueueOptions = {}
+  ): Promise<EmailMessage> {
+    const content = await EmailTemplateService.render('welcome', { user: { username, email }, verificationCode });
+    return EmailQueueService.enqueue({ category: 'welcome', to: email, sensitive: true, ...content }, options);
   }
 
-  static async sendOTPEmail(email: string, otpCode: string): Promise<void> {
-    if (!this.transporter || !this.config) {
-      const errorMsg = '⚠️ [EMAIL] Email service not configured, skipping OTP email. Please configure EmailConfig in Firebase Admin settings.';
-            throw new Error('Email service not configured. Please configure EmailConfig in Firebase Admin settings.');
-    }
-
-    try {
-      const emailHtml = this.generateOTPEmailHtml(otpCode);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: email,
-        subject: '🔐 Your Login Code - Rainmakers Portal',
-        html: emailHtml,
-        text: this.generateOTPEmailText(otpCode),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
-          } catch (error) {
-            // Don't throw error to avoid breaking auth flow
-    }
+  static async sendOTPEmail(email: string, otpCode: string, options: EnqueueOptions = {}): Promise<EmailMessage> {
+    const content = await EmailTemplateService.render('login_code', { user: { email }, otpCode });
+    return EmailQueueService.enqueue({ category: 'login_code', to: email, sensitive: true, ...content }, options);
   }
 
   static async resendVerificationCodeEmail(
     email: string, 
     username: string, 
-    verificationCode: string
-  ): Promise<void> {
-    if (!this.transporter || !this.config) {
-            return;
-    }
-
-    try {
-      const emailHtml = this.generateWelcomeEmailHtml(username, verificationCode);
-      
-      const mailOptions = {
-        from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-        to: email,
-        subject: '🔑 Your Verification Code - Rainmakers Portal',
-        html: emailHtml,
-        text: this.generateWelcomeEmailText(username, verificationCode),
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
-          } catch (error) {
-            throw error; // Throw here since this is user-initiated
-    }
+    verificationCode: string,
+    options: EnqueueOptions = {}
+  ): Promise<EmailMessage> {
+    const content = await EmailTemplateService.render('verification_code', { user: { username, email }, verificationCode });
+    return EmailQueueService.enqueue({ category: 'verification_code', to: email, sensitive: true, ...content }, options);
   }
 
-  private static generateWelcomeEmailHtml(username: string, verificationCode: string): string {
-    const portalUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
-    
-    return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta name="color-scheme" content="light only">
-    <meta name="supported-color-schemes" content="light">
-    <title>Welcome to Rainmakers Portal</title>
-    <style>
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
-            line-height: 1.6;
-            color: #000;
-            max-width: 600px;
-            margin: 0 auto;
-            padding: 20px;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-        }
-        .container {
-            background: white;
-            border-radius: 16px;
-            box-shadow: 0 10px 40px rgba(0, 0, 0, 0.2);
-            overflow: hidden;
-        }
-        .header {
-            background: linear-gradient(135deg, #FFD700 0%, #FFA500 100%);
-            color: #000;
-            padding: 40px 30px;
-            text-align: center;
-        }
-        .header h1 {
-            margin: 0;
-            font-size: 32px;
-            font-weight: 700;
-            color: #000 !important;
-        }
-        .header p {
-            margin: 10px 0 0 0;
-            font-size: 18px;
-            color: #000 !important;
-        }
-        .content {
-            padding: 40px 30px;
-            color: #333;
-        }
-        .code-box {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            padding: 25px;
-            border-radius: 12px;
-            text-align: center;
-            margin: 30px 0;
-            font-size: 32px;
-            font-weight: bold;
-            letter-spacing: 8px;
-            font-family: 'Courier New', monospace;
-        }
-        .button {
-            display: inline-block;
-            background: linear-gradient(135deg, #FFD700 0%, #FFA500 100%);
-            color: #000;
-            padding: 15px 30px;
-            text-decoration: none;
-            border-radius: 8px;
-            font-weight: bold;
-            margin: 20px 0;
-            text-align: center;
-        }
-        .footer {
-            background: #f8f9fa;
-            padding: 30px;
-            text-align: center;
-            color: #666;
-            font-size: 14px;
-        }
-        @media only screen and (max-width: 600px) {
-            body {
-                padding: 10px;
-            }
-            .header h1 {
-                font-size: 24px;
-            }
-            .code-box {
-                font-size: 24px;
-                letter-spacing: 4px;
-            }
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>🎉 Welcome to Rainmakers!</h1>
-            <p>Your journey starts here</p>
-        </div>
-        <div class="content">
-            <p>Hi ${username || 'there'},</p>
-            <p>Welcome to the Rainmakers Portal! We're excited to have you on board.</p>
-            <p><strong>Your Verification Code:</strong></p>
-            <div class="code-box">${verificationCode}</div>
-            <p>Use this code to link your Discord account if your Discord email is different from your payment email.</p>
-            <p style="margin-top: 30px; text-align: center;">
-                <a href="${portalUrl}/login" class="button">Get Started</a>
-            </p>
-            <p style="margin-top: 30px; color: #666; font-size: 14px;">
-                This code will expire in 7 days. Keep it safe!
-            </p>
-        </div>
-        <div class="footer">
-            <p>© ${new Date().getFullYear()} Rainmakers Portal. All rights reserved.</p>
-        </div>
-    </div>
-</body>
-</html>
-    `;
+  /**
+   * Send a notification a user chose to get by email
+   */
+  static async sendNotificationEmail(
+    email: string,
+    context: { user: { username?: string; email: string }; title: string; body: string; actionUrl?: string },
+    options: EnqueueOptions = {}
+  ): Promise<EmailMessage> {
+    const content = await EmailTemplateService.render('notification', context);
+    return EmailQueueService.enqueue({ category: 'notification', to: email, ...content }, options);
   }
 
-  private static generateWelcomeEmailText(username: string, verificationCode: string): string {
-    const portalUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
-    return `
-Welcome to Rainmakers Portal!
-
-Hi ${username || 'there'},
-
-Welcome to the Rainmakers Portal! We're excited to have you on board.
-
-Your Verification Code: ${verificationCode}
-
-Use this code to link your Discord account if your Discord email is different from your payment email.
+  /**
+   * Send a billing lifecycle email
+   */
+  static async sendBillingEmail(
+    email: string,
+    type: BillingEmailType,
+    content: BillingEmailContent,
+    unsubscribeUrl?: string,
+    options: EnqueueOptions = {}
+  ): Promise<EmailMessage> {
+    return EmailQueueService.enqueue({
+      category: `billing_${type}`,
+      to: email,
+      subject: content.subject,
+      html: this.generateBillingEmailHtml(content, unsubscribeUrl),
+      text: this.generateBillingEmailText(content, unsubscribeUrl),
+      headers: unsubscribeUrl ? {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      } : undefined,
+    }, options);
+  }
 
-This code will expire in 7 days. Keep it safe!
+  /**
+   * Hand a queued message to the SMTP server. Only the email queue calls this.
+   */
+  static async transport(
+    message: Pick<EmailMessage, 'to' | 'subject' | 'html' | 'text' | 'headers' | 'attachments'>
+  ): Promise<{ messageId?: string; accepted: string[]; rejected: string[] }> {
+    if (!this.transporter || !this.config) {
+      throw new Error('Email service not configured. Please configure EmailConfig in Firebase Admin settings.');
+    }
 
-Get started: ${portalUrl}/login
+    const info = await this.transporter.sendMail({
+      from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
+      to: message.to.join(', '),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content, 'base64'),
+        contentType: attachment.contentType,
+      })),
+    });
 
-© ${new Date().getFullYear()} Rainmakers Portal. All rights reserved.
-    `;
+    const addresses = (list: any[] = []) => list.map(entry => (typeof entry === 'string' ? entry : entry.address));
+    return {
+      messageId: info.messageId,
+      accepted: addresses(info.accepted),
+      rejected: addresses(info.rejected),
+    };
   }
 
-  private static generateOTPEmailHtml(otpCode: string): string {
-    const portalUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
-    
+  private static generateBillingEmailHtml(content: BillingEmailContent, unsubscribeUrl?: string): string {
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const headerColor = content.tone === 'warning' ? '#dc3545' : '#5865F2';
+
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -1262,7 +322,7 @@ Get started: ${portalUrl}/login
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <meta name="color-scheme" content="light only">
     <meta name="supported-color-schemes" content="light">
-    <title>Your Login Code</title>
+    <title>${escape(content.heading)}</title>
     <style>
         body {
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
@@ -1271,87 +331,63 @@ Get started: ${portalUrl}/login
             max-width: 600px;
             margin: 0 auto;
             padding: 20px;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            background-color: #f8f9fa;
         }
         .container {
             background: white;
-            border-radius: 16px;
-            box-shadow: 0 10px 40px rgba(0, 0, 0, 0.2);
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
             overflow: hidden;
         }
         .header {
-            background: linear-gradient(135deg, #5865F2 0%, #7289DA 100%);
+            background: ${headerColor};
             color: white;
-            padding: 40px 30px;
+            padding: 30px;
             text-align: center;
         }
         .header h1 {
             margin: 0;
-            font-size: 32px;
-            font-weight: 700;
+            font-size: 26px;
             color: white !important;
         }
         .content {
-            padding: 40px 30px;
+            padding: 30px;
             color: #333;
         }
-        .code-box {
-            background: linear-gradient(135deg, #5865F2 0%, #7289DA 100%);
-            color: white;
-            padding: 25px;
-            border-radius: 12px;
-            text-align: center;
-            margin: 30px 0;
-            font-size: 36px;
-            font-weight: bold;
-            letter-spacing: 10px;
-            font-family: 'Courier New', monospace;
+        .button {
+            display: inline-block;
+            background: #5865F2;
+            color: white !important;
+            padding: 14px 28px;
+            border-radius: 8px;
+            text-decoration: none;
+            font-weight: 600;
         }
         .footer {
             background: #f8f9fa;
-            padding: 30px;
+            padding: 20px;
             text-align: center;
             color: #666;
             font-size: 14px;
         }
-        .warning {
-            background: #fff3cd;
-            border-left: 4px solid #ffc107;
-            padding: 15px;
-            margin: 20px 0;
-            border-radius: 4px;
-            color: #856404;
-        }
-        @media only screen and (max-width: 600px) {
-            body {
-                padding: 10px;
-            }
-            .header h1 {
-                font-size: 24px;
-            }
-            .code-box {
-                font-size: 28px;
-                letter-spacing: 6px;
-            }
+        .footer a {
+            color: #666;
         }
     </style>
 </head>
 <body>
     <div class="container">
         <div class="header">
-            <h1>🔐 Your Login Code</h1>
+            <h1>${escape(content.heading)}</h1>
         </div>
         <div class="content">
-            <p>You requested a login code for your Rainmakers Portal account.</p>
-            <p><strong>Your Login Code:</strong></p>
-            <div class="code-box">${otpCode}</div>
-            <p>Enter this code on the login page to access your account.</p>
-            <div class="warning">
-                <strong>⚠️ Security Notice:</strong> This code will expire in 10 minutes. Never share this code with anyone.
-            </div>
+            ${content.paragraphs.map(paragraph => `<p>${escape(paragraph)}</p>`).join('\n            ')}
+            ${content.action ? `<p style="text-align: center; margin: 30px 0;">
+                <a class="button" href="${escape(content.action.url)}">${escape(content.action.label)}</a>
+            </p>` : ''}
         </div>
         <div class="footer">
-            <p>If you didn't request this code, please ignore this email.</p>
+            ${unsubscribeUrl ? `<p><a href="${escape(unsubscribeUrl)}">Unsubscribe from these emails</a></p>` : ''}
             <p>© ${new Date().getFullYear()} Rainmakers Portal. All rights reserved.</p>
         </div>
     </div>
@@ -1360,21 +396,13 @@ Get started: ${portalUrl}/login
     `;
   }
 
-  private static generateOTPEmailText(otpCode: string): string {
-    return `
-Your Login Code - Rainmakers Portal
-
-You requested a login code for your Rainmakers Portal account.
-
-Your Login Code: ${otpCode}
-
-Enter this code on the login page to access your account.
-
-⚠️ Security Notice: This code will expire in 10 minutes. Never share this code with anyone.
-
-If you didn't request this code, please ignore this email.
-
-© ${new Date().getFullYear()} Rainmakers Portal. All rights reserved.
-    `;
+  private static generateBillingEmailText(content: BillingEmailContent, unsubscribeUrl?: string): string {
+    return [
+      content.heading,
+      ...content.paragraphs,
+      ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+      ...(unsubscribeUrl ? [`Unsubscribe from these emails: ${unsubscribeUrl}`] : []),
+      `© ${new Date().getFullYear()} Rainmakers Portal. All rights reserved.`,
+    ].join('\n\n');
   }
 }
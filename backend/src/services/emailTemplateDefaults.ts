@@ -0,0 +1,1386 @@
+import { EmailTemplateContent, EmailTemplateKey } from './firebaseService';
+
+// Built-in templates, used until an admin saves their own version and as the target of "reset to default".
+
+const dealCreatedHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>New Deal Created - {{deal.dealId}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000; /* Force dark text for email clients/dark mode */
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #ffffff !important;
+            padding: 30px;
+            text-align: center;
+            border-bottom: 1px solid #d1d9ea;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 28px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            opacity: 1;
+            color: #ffffff !important;
+            font-size: 16px;
+        }
+        .content {
+            padding: 30px;
+            color: #000;
+        }
+        .deal-id {
+            background: #f8f9fa;
+            border-left: 4px solid #667eea;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+            font-family: 'Courier New', monospace;
+            font-size: 18px;
+            font-weight: bold;
+            color: #000;
+        }
+        .info-grid {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 20px;
+            margin: 20px 0;
+        }
+        .info-card {
+            background: #f8f9fa;
+            padding: 20px;
+            border-radius: 8px;
+            border: 1px solid #e9ecef;
+        }
+        .info-card h3 {
+            margin: 0 0 10px 0;
+            color: #000;
+            font-size: 14px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .info-card p {
+            margin: 0;
+            font-size: 16px;
+            font-weight: 500;
+            color: #000;
+        }
+        .cta-button {
+            display: inline-block;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+            text-align: center;
+            margin: 20px 0;
+            transition: transform 0.2s;
+        }
+        .cta-button:hover {
+            transform: translateY(-2px);
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #444;
+            font-size: 14px;
+            border-top: 1px solid #e9ecef;
+        }
+        .status-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .status-open {
+            background: #d4edda;
+            color: #155724;
+        }
+        .stage-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            background: #e3f2fd;
+            color: #1565c0;
+        }
+        @media (max-width: 600px) {
+            .info-grid {
+                grid-template-columns: 1fr;
+            }
+            .header h1 {
+                font-size: 24px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🎯 New Deal Created</h1>
+            <p>A new opportunity has been added to your pipeline</p>
+        </div>
+
+        <div class="content">
+            <div class="deal-id">{{deal.dealId}}</div>
+
+            <div class="info-grid">
+                <div class="info-card">
+                    <h3>Property Address</h3>
+                    <p>{{deal.propertyAddress || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Property Type</h3>
+                    <p>{{deal.propertyType || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Name</h3>
+                    <p>{{deal.contactName || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Email</h3>
+                    <p>{{deal.contactEmail || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Loan Request</h3>
+                    <p>{{deal.loanRequest || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Deal Type</h3>
+                    <p>{{deal.dealType || "Not specified"}}</p>
+                </div>
+                {{#if createdBy}}
+                <div class="info-card">
+                    <h3>Created By</h3>
+                    <p>{{createdBy}}</p>
+                </div>
+                {{/if}}
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <span class="status-badge status-open">{{deal.status || "Open"}}</span>
+                <span class="stage-badge" style="margin-left: 10px;">{{deal.stage || "Qualification"}}</span>
+            </div>
+
+            {{#if deal.additionalInformation}}
+            <div class="info-card">
+                <h3>Additional Information</h3>
+                <p>{{deal.additionalInformation}}</p>
+            </div>
+            {{/if}}
+
+            <div style="text-align: center;">
+                <a href="{{dealsUrl}}" class="cta-button">View Deal in Portal</a>
+            </div>
+
+            <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
+                Created on {{currentDate}}{{#if createdBy}} by {{createdBy}}{{/if}}
+            </p>
+        </div>
+
+        <div class="footer">
+            <p>This is an automated notification from Rainmakers Portal</p>
+            <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const dealCreatedText = `🎯 NEW DEAL CREATED
+
+Deal ID: {{deal.dealId}}
+Property Address: {{deal.propertyAddress || "Not specified"}}
+Property Type: {{deal.propertyType || "Not specified"}}
+Contact Name: {{deal.contactName || "Not specified"}}
+Contact Email: {{deal.contactEmail || "Not specified"}}
+Loan Request: {{deal.loanRequest || "Not specified"}}
+Deal Type: {{deal.dealType || "Not specified"}}
+{{#if createdBy}}Created By: {{createdBy}}{{/if}}
+Status: {{deal.status || "Open"}}
+Stage: {{deal.stage || "Qualification"}}
+
+{{#if deal.additionalInformation}}Additional Information: {{deal.additionalInformation}}{{/if}}
+
+View Deal: {{dealsUrl}}
+
+Created on: {{currentDate}}{{#if createdBy}} by {{createdBy}}{{/if}}
+
+---
+This is an automated notification from Rainmakers Portal
+`;
+
+const dealUpdatedHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>Deal Updated - {{deal.dealId}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #ffffff !important;
+            padding: 30px;
+            text-align: center;
+            border-bottom: 1px solid #d1d9ea;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 28px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            opacity: 1;
+            font-size: 16px;
+            color: #ffffff !important;
+        }
+        .content {
+            padding: 30px;
+            color: #000;
+        }
+        .deal-id {
+            background: #f8f9fa;
+            border-left: 4px solid #667eea;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+            font-family: 'Courier New', monospace;
+            font-size: 18px;
+            font-weight: bold;
+            color: #000;
+        }
+        .changes-section {
+            background: #fff3cd;
+            border: 1px solid #ffeaa7;
+            border-radius: 8px;
+            padding: 20px;
+            margin: 20px 0;
+        }
+        .changes-section h3 {
+            margin: 0 0 15px 0;
+            color: #856404;
+            font-size: 16px;
+        }
+        .changes-list {
+            margin: 0;
+            padding-left: 20px;
+        }
+        .changes-list li {
+            margin: 8px 0;
+            color: #856404;
+        }
+        .missing-documents-section {
+            background: #f8d7da;
+            border: 1px solid #f5c6cb;
+            border-radius: 8px;
+            padding: 20px;
+            margin: 20px 0;
+        }
+        .missing-documents-section h3 {
+            margin: 0 0 15px 0;
+            color: #721c24;
+            font-size: 16px;
+        }
+        .missing-documents-section li {
+            margin: 8px 0;
+            color: #721c24;
+        }
+        .info-grid {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 20px;
+            margin: 20px 0;
+        }
+        .info-card {
+            background: #f8f9fa;
+            padding: 20px;
+            border-radius: 8px;
+            border: 1px solid #e9ecef;
+        }
+        .info-card h3 {
+            margin: 0 0 10px 0;
+            color: #000;
+            font-size: 14px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .info-card p {
+            margin: 0;
+            font-size: 16px;
+            font-weight: 500;
+            color: #000;
+        }
+        .updated-by {
+            background: #e3f2fd;
+            border-left: 4px solid #2196f3;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+            color: #1565c0;
+            font-weight: 500;
+        }
+        .cta-button {
+            display: inline-block;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+            text-align: center;
+            margin: 20px 0;
+            transition: transform 0.2s;
+        }
+        .cta-button:hover {
+            transform: translateY(-2px);
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #444;
+            font-size: 14px;
+            border-top: 1px solid #e9ecef;
+        }
+        .status-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .status-open {
+            background: #d4edda;
+            color: #155724;
+        }
+        .stage-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            background: #e3f2fd;
+            color: #1565c0;
+        }
+        @media (max-width: 600px) {
+            .info-grid {
+                grid-template-columns: 1fr;
+            }
+            .header h1 {
+                font-size: 24px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🔄 Deal Updated</h1>
+            <p>Changes have been made to an existing deal</p>
+        </div>
+
+        <div class="content">
+            <div class="deal-id">{{deal.dealId}}</div>
+
+            <div class="changes-section">
+                <h3>📝 Changes Made</h3>
+                <ul class="changes-list">
+                    {{#each changes}}<li>{{this}}</li>{{/each}}
+                </ul>
+            </div>
+
+            {{#if missingDocuments}}
+            <div class="missing-documents-section">
+                <h3>📋 Missing Documents</h3>
+                <ul class="changes-list">
+                    {{#each missingDocuments}}<li>{{this}}</li>{{/each}}
+                </ul>
+            </div>
+            {{/if}}
+
+            <div class="updated-by">
+                <strong>Updated by:</strong> {{updatedBy}}
+            </div>
+
+            <div class="info-grid">
+                <div class="info-card">
+                    <h3>Property Address</h3>
+                    <p>{{deal.propertyAddress || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Property Type</h3>
+                    <p>{{deal.propertyType || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Name</h3>
+                    <p>{{deal.contactName || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Email</h3>
+                    <p>{{deal.contactEmail || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Loan Request</h3>
+                    <p>{{deal.loanRequest || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Deal Type</h3>
+                    <p>{{deal.dealType || "Not specified"}}</p>
+                </div>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <span class="status-badge status-open">{{deal.status || "Open"}}</span>
+                <span class="stage-badge" style="margin-left: 10px;">{{deal.stage || "Qualification"}}</span>
+            </div>
+
+            <div style="text-align: center;">
+                <a href="{{dealsUrl}}" class="cta-button">View Updated Deal</a>
+            </div>
+
+            <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
+                Updated on {{currentDate}}
+            </p>
+        </div>
+
+        <div class="footer">
+            <p>This is an automated notification from Rainmakers Portal</p>
+            <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const dealUpdatedText = `🔄 DEAL UPDATED
+
+Deal ID: {{deal.dealId}}
+Updated by: {{updatedBy}}
+
+Changes Made:
+{{#each changes}}
+• {{this}}
+{{/each}}
+{{#if missingDocuments}}
+
+Missing Documents:
+{{#each missingDocuments}}
+• {{this}}
+{{/each}}
+{{/if}}
+
+Property Address: {{deal.propertyAddress || "Not specified"}}
+Property Type: {{deal.propertyType || "Not specified"}}
+Contact Name: {{deal.contactName || "Not specified"}}
+Contact Email: {{deal.contactEmail || "Not specified"}}
+Loan Request: {{deal.loanRequest || "Not specified"}}
+Deal Type: {{deal.dealType || "Not specified"}}
+Status: {{deal.status || "Open"}}
+Stage: {{deal.stage || "Qualification"}}
+
+View Deal: {{dealsUrl}}
+
+Updated on: {{currentDate}}
+
+---
+This is an automated notification from Rainmakers Portal
+`;
+
+const documentUploadedHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>Document Uploaded - {{fileName}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #28a745 0%, #20c997 100%);
+            color: #ffffff !important;
+            padding: 30px;
+            text-align: center;
+            border-bottom: 1px solid #d1d9ea;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 28px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            opacity: 1;
+            font-size: 16px;
+            color: #ffffff !important;
+        }
+        .content {
+            padding: 30px;
+            color: #000;
+        }
+        .deal-id {
+            background: #f8f9fa;
+            border-left: 4px solid #28a745;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+            font-family: 'Courier New', monospace;
+            font-size: 18px;
+            font-weight: bold;
+            color: #000;
+        }
+        .document-section {
+            background: #d4edda;
+            border: 1px solid #c3e6cb;
+            border-radius: 8px;
+            padding: 20px;
+            margin: 20px 0;
+            text-align: center;
+        }
+        .document-section h3 {
+            margin: 0 0 10px 0;
+            color: #155724;
+            font-size: 18px;
+        }
+        .document-name {
+            font-size: 20px;
+            font-weight: bold;
+            color: #155724;
+            margin: 10px 0;
+            word-break: break-all;
+        }
+        .uploaded-by {
+            background: #e3f2fd;
+            border-left: 4px solid #2196f3;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+            color: #1565c0;
+            font-weight: 500;
+        }
+        .info-grid {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 20px;
+            margin: 20px 0;
+        }
+        .info-card {
+            background: #f8f9fa;
+            padding: 20px;
+            border-radius: 8px;
+            border: 1px solid #e9ecef;
+        }
+        .info-card h3 {
+            margin: 0 0 10px 0;
+            color: #000;
+            font-size: 14px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .info-card p {
+            margin: 0;
+            font-size: 16px;
+            font-weight: 500;
+            color: #000;
+        }
+        .cta-button {
+            display: inline-block;
+            background: linear-gradient(135deg, #28a745 0%, #20c997 100%);
+            color: white;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+            text-align: center;
+            margin: 20px 0;
+            transition: transform 0.2s;
+        }
+        .cta-button:hover {
+            transform: translateY(-2px);
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #444;
+            font-size: 14px;
+            border-top: 1px solid #e9ecef;
+        }
+        .status-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .status-open {
+            background: #d4edda;
+            color: #155724;
+        }
+        .stage-badge {
+            display: inline-block;
+            padding: 6px 12px;
+            border-radius: 20px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            background: #e3f2fd;
+            color: #1565c0;
+        }
+        @media (max-width: 600px) {
+            .info-grid {
+                grid-template-columns: 1fr;
+            }
+            .header h1 {
+                font-size: 24px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>📄 Document Uploaded</h1>
+            <p>A new document has been added to a deal</p>
+        </div>
+
+        <div class="content">
+            <div class="deal-id">{{deal.dealId}}</div>
+
+            <div class="document-section">
+                <h3>📁 New Document</h3>
+                <div class="document-name">{{fileName}}</div>
+            </div>
+
+            <div class="uploaded-by">
+                <strong>Uploaded by:</strong> {{uploadedBy}}
+            </div>
+
+            <div class="info-grid">
+                <div class="info-card">
+                    <h3>Property Address</h3>
+                    <p>{{deal.propertyAddress || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Property Type</h3>
+                    <p>{{deal.propertyType || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Name</h3>
+                    <p>{{deal.contactName || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Contact Email</h3>
+                    <p>{{deal.contactEmail || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Loan Request</h3>
+                    <p>{{deal.loanRequest || "Not specified"}}</p>
+                </div>
+                <div class="info-card">
+                    <h3>Deal Type</h3>
+                    <p>{{deal.dealType || "Not specified"}}</p>
+                </div>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+                <span class="status-badge status-open">{{deal.status || "Open"}}</span>
+                <span class="stage-badge" style="margin-left: 10px;">{{deal.stage || "Qualification"}}</span>
+            </div>
+
+            <div style="text-align: center;">
+                <a href="{{dealsUrl}}" class="cta-button">View Deal & Documents</a>
+            </div>
+
+            <p style="text-align: center; color: #6c757d; font-size: 14px; margin-top: 30px;">
+                Uploaded on {{currentDate}}
+            </p>
+        </div>
+
+        <div class="footer">
+            <p>This is an automated notification from Rainmakers Portal</p>
+            <p>If you no longer wish to receive these notifications, please contact your administrator.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const documentUploadedText = `📄 DOCUMENT UPLOADED
+
+Deal ID: {{deal.dealId}}
+Document: {{fileName}}
+Uploaded by: {{uploadedBy}}
+
+Property Address: {{deal.propertyAddress || "Not specified"}}
+Property Type: {{deal.propertyType || "Not specified"}}
+Contact Name: {{deal.contactName || "Not specified"}}
+Contact Email: {{deal.contactEmail || "Not specified"}}
+Loan Request: {{deal.loanRequest || "Not specified"}}
+Deal Type: {{deal.dealType || "Not specified"}}
+Status: {{deal.status || "Open"}}
+Stage: {{deal.stage || "Qualification"}}
+
+View Deal: {{dealsUrl}}
+
+Uploaded on: {{currentDate}}
+
+---
+This is an automated notification from Rainmakers Portal
+`;
+
+const welcomeHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>Welcome to Rainmakers Portal</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+        }
+        .container {
+            background: white;
+            border-radius: 16px;
+            box-shadow: 0 10px 40px rgba(0, 0, 0, 0.2);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #FFD700 0%, #FFA500 100%);
+            color: #000;
+            padding: 40px 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 32px;
+            font-weight: 700;
+            color: #000 !important;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            font-size: 18px;
+            color: #000 !important;
+        }
+        .content {
+            padding: 40px 30px;
+            color: #333;
+        }
+        .code-box {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 25px;
+            border-radius: 12px;
+            text-align: center;
+            margin: 30px 0;
+            font-size: 32px;
+            font-weight: bold;
+            letter-spacing: 8px;
+            font-family: 'Courier New', monospace;
+        }
+        .button {
+            display: inline-block;
+            background: linear-gradient(135deg, #FFD700 0%, #FFA500 100%);
+            color: #000;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            font-weight: bold;
+            margin: 20px 0;
+            text-align: center;
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 30px;
+            text-align: center;
+            color: #666;
+            font-size: 14px;
+        }
+        @media only screen and (max-width: 600px) {
+            body {
+                padding: 10px;
+            }
+            .header h1 {
+                font-size: 24px;
+            }
+            .code-box {
+                font-size: 24px;
+                letter-spacing: 4px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🎉 Welcome to Rainmakers!</h1>
+            <p>Your journey starts here</p>
+        </div>
+        <div class="content">
+            <p>Hi {{user.username || "there"}},</p>
+            <p>Welcome to the Rainmakers Portal! We're excited to have you on board.</p>
+            <p><strong>Your Verification Code:</strong></p>
+            <div class="code-box">{{verificationCode}}</div>
+            <p>Use this code to link your Discord account if your Discord email is different from your payment email.</p>
+            <p style="margin-top: 30px; text-align: center;">
+                <a href="{{portalUrl}}/login" class="button">Get Started</a>
+            </p>
+            <p style="margin-top: 30px; color: #666; font-size: 14px;">
+                This code will expire in 7 days. Keep it safe!
+            </p>
+        </div>
+        <div class="footer">
+            <p>© {{year}} Rainmakers Portal. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const welcomeText = `Welcome to Rainmakers Portal!
+
+Hi {{user.username || "there"}},
+
+Welcome to the Rainmakers Portal! We're excited to have you on board.
+
+Your Verification Code: {{verificationCode}}
+
+Use this code to link your Discord account if your Discord email is different from your payment email.
+
+This code will expire in 7 days. Keep it safe!
+
+Get started: {{portalUrl}}/login
+
+© {{year}} Rainmakers Portal. All rights reserved.
+`;
+
+const loginCodeHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>Your Login Code</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+        }
+        .container {
+            background: white;
+            border-radius: 16px;
+            box-shadow: 0 10px 40px rgba(0, 0, 0, 0.2);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #5865F2 0%, #7289DA 100%);
+            color: white;
+            padding: 40px 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 32px;
+            font-weight: 700;
+            color: white !important;
+        }
+        .content {
+            padding: 40px 30px;
+            color: #333;
+        }
+        .code-box {
+            background: linear-gradient(135deg, #5865F2 0%, #7289DA 100%);
+            color: white;
+            padding: 25px;
+            border-radius: 12px;
+            text-align: center;
+            margin: 30px 0;
+            font-size: 36px;
+            font-weight: bold;
+            letter-spacing: 10px;
+            font-family: 'Courier New', monospace;
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 30px;
+            text-align: center;
+            color: #666;
+            font-size: 14px;
+        }
+        .warning {
+            background: #fff3cd;
+            border-left: 4px solid #ffc107;
+            padding: 15px;
+            margin: 20px 0;
+            border-radius: 4px;
+            color: #856404;
+        }
+        @media only screen and (max-width: 600px) {
+            body {
+                padding: 10px;
+            }
+            .header h1 {
+                font-size: 24px;
+            }
+            .code-box {
+                font-size: 28px;
+                letter-spacing: 6px;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🔐 Your Login Code</h1>
+        </div>
+        <div class="content">
+            <p>You requested a login code for your Rainmakers Portal account.</p>
+            <p><strong>Your Login Code:</strong></p>
+            <div class="code-box">{{otpCode}}</div>
+            <p>Enter this code on the login page to access your account.</p>
+            <div class="warning">
+                <strong>⚠️ Security Notice:</strong> This code will expire in 10 minutes. Never share this code with anyone.
+            </div>
+        </div>
+        <div class="footer">
+            <p>If you didn't request this code, please ignore this email.</p>
+            <p>© {{year}} Rainmakers Portal. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const loginCodeText = `Your Login Code - Rainmakers Portal
+
+You requested a login code for your Rainmakers Portal account.
+
+Your Login Code: {{otpCode}}
+
+Enter this code on the login page to access your account.
+
+⚠️ Security Notice: This code will expire in 10 minutes. Never share this code with anyone.
+
+If you didn't request this code, please ignore this email.
+
+© {{year}} Rainmakers Portal. All rights reserved.
+`;
+
+const notificationHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>{{title}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            padding: 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .content {
+            padding: 30px;
+            color: #333;
+        }
+        .button {
+            display: inline-block;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #ffffff !important;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #666;
+            font-size: 13px;
+            border-top: 1px solid #e9ecef;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>{{title}}</h1>
+        </div>
+        <div class="content">
+            <p>Hi {{user.username || "there"}},</p>
+            <p>{{body}}</p>
+            {{#if actionUrl}}
+            <p style="text-align: center; margin-top: 30px;">
+                <a href="{{actionUrl}}" class="button">Open the Portal</a>
+            </p>
+            {{/if}}
+        </div>
+        <div class="footer">
+            <p>You get this email because of your notification settings. Change them under Settings in the portal.</p>
+            <p>© {{year}} Rainmakers Portal. All rights reserved.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const notificationText = `{{title}}
+
+Hi {{user.username || "there"}},
+
+{{body}}
+{{#if actionUrl}}
+
+Open the portal: {{actionUrl}}
+{{/if}}
+
+---
+You get this email because of your notification settings. Change them under Settings in the portal.
+`;
+
+const malwareDetectedHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>Malware Blocked - {{fileName}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #dc3545 0%, #c82333 100%);
+            padding: 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .content {
+            padding: 30px;
+            color: #333;
+        }
+        .alert-section {
+            background: #f8d7da;
+            border: 1px solid #f5c6cb;
+            border-radius: 8px;
+            padding: 20px;
+            margin: 20px 0;
+        }
+        .alert-section p {
+            margin: 5px 0;
+        }
+        .button {
+            display: inline-block;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #ffffff !important;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #666;
+            font-size: 13px;
+            border-top: 1px solid #e9ecef;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🛡️ Malware Blocked</h1>
+        </div>
+        <div class="content">
+            <p>The malware scanner blocked a file uploaded to deal <strong>{{deal.dealId}}</strong>. The file was removed and never sent to GoHighLevel.</p>
+            <div class="alert-section">
+                <p><strong>File:</strong> {{fileName}}</p>
+                <p><strong>Found:</strong> {{signature}}</p>
+                <p><strong>Uploaded by:</strong> {{uploadedBy}}</p>
+                <p><strong>Property:</strong> {{deal.propertyAddress || "Not specified"}}</p>
+            </div>
+            <p>Check with the uploader whether their computer is infected. The upload is also listed under Security Events in the admin panel.</p>
+            <p style="text-align: center; margin-top: 30px;">
+                <a href="{{dealsUrl}}" class="button">View Deals</a>
+            </p>
+        </div>
+        <div class="footer">
+            <p>Detected on {{currentDate}}</p>
+            <p>This is an automated notification from Rainmakers Portal</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const malwareDetectedText = `🛡️ MALWARE BLOCKED
+
+The malware scanner blocked a file uploaded to deal {{deal.dealId}}. The file was removed and never sent to GoHighLevel.
+
+File: {{fileName}}
+Found: {{signature}}
+Uploaded by: {{uploadedBy}}
+Property: {{deal.propertyAddress || "Not specified"}}
+
+Check with the uploader whether their computer is infected. The upload is also listed under Security Events in the admin panel.
+
+View Deals: {{dealsUrl}}
+
+Detected on: {{currentDate}}
+
+---
+This is an automated notification from Rainmakers Portal
+`;
+
+const malwareScanFailedHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="color-scheme" content="light only">
+    <meta name="supported-color-schemes" content="light">
+    <title>File Could Not Be Scanned - {{fileName}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #000;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .container {
+            background: white;
+            border-radius: 12px;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            overflow: hidden;
+        }
+        .header {
+            background: linear-gradient(135deg, #fd7e14 0%, #e8590c 100%);
+            padding: 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 24px;
+            font-weight: 600;
+            color: #ffffff !important;
+        }
+        .content {
+            padding: 30px;
+            color: #333;
+        }
+        .alert-section {
+            background: #fff3cd;
+            border: 1px solid #ffeeba;
+            border-radius: 8px;
+            padding: 20px;
+            margin: 20px 0;
+        }
+        .alert-section p {
+            margin: 5px 0;
+        }
+        .button {
+            display: inline-block;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: #ffffff !important;
+            text-decoration: none;
+            padding: 15px 30px;
+            border-radius: 8px;
+            font-weight: 600;
+        }
+        .footer {
+            background: #f8f9fa;
+            padding: 20px;
+            text-align: center;
+            color: #666;
+            font-size: 13px;
+            border-top: 1px solid #e9ecef;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>⚠️ File Could Not Be Scanned</h1>
+        </div>
+        <div class="content">
+            <p>The malware scanner could not check a file uploaded to deal <strong>{{deal.dealId}}</strong> after {{attempts}} tries. The file stays hidden from downloads and share links and was never sent to GoHighLevel.</p>
+            <div class="alert-section">
+                <p><strong>File:</strong> {{fileName}}</p>
+                <p><strong>Scanner error:</strong> {{error}}</p>
+                <p><strong>Uploaded by:</strong> {{uploadedBy}}</p>
+                <p><strong>Property:</strong> {{deal.propertyAddress || "Not specified"}}</p>
+            </div>
+            <p>Delete the document and ask the uploader for a version the scanner can handle, e.g. a smaller file or one that isn't an archive. The file is also listed under Security Events in the admin panel.</p>
+            <p style="text-align: center; margin-top: 30px;">
+                <a href="{{dealsUrl}}" class="button">View Deals</a>
+            </p>
+        </div>
+        <div class="footer">
+            <p>Given up on {{currentDate}}</p>
+            <p>This is an automated notification from Rainmakers Portal</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+const malwareScanFailedText = `⚠️ FILE COULD NOT BE SCANNED
+
+The malware scanner could not check a file uploaded to deal {{deal.dealId}} after {{attempts}} tries. The file stays hidden from downloads and share links and was never sent to GoHighLevel.
+
+File: {{fileName}}
+Scanner error: {{error}}
+Uploaded by: {{uploadedBy}}
+Property: {{deal.propertyAddress || "Not specified"}}
+
+Delete the document and ask the uploader for a version the scanner can handle, e.g. a smaller file or one that isn't an archive. The file is also listed under Security Events in the admin panel.
+
+View Deals: {{dealsUrl}}
+
+Given up on: {{currentDate}}
+
+---
+This is an automated notification from Rainmakers Portal
+`;
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateContent> = {
+  deal_created: { subject: '🎯 New Deal Created: {{deal.dealId}}', html: dealCreatedHtml, text: dealCreatedText },
+  deal_updated: { subject: '🔄 Deal Updated: {{deal.dealId}}', html: dealUpdatedHtml, text: dealUpdatedText },
+  document_uploaded: { subject: '📄 Document Uploaded: {{fileName}} for Deal {{deal.dealId}}', html: documentUploadedHtml, text: documentUploadedText },
+  welcome: { subject: '🎉 Welcome to Rainmakers Portal!', html: welcomeHtml, text: welcomeText },
+  verification_code: { subject: '🔑 Your Verification Code - Rainmakers Portal', html: welcomeHtml, text: welcomeText },
+  login_code: { subject: '🔐 Your Login Code - Rainmakers Portal', html: loginCodeHtml, text: loginCodeText },
+  notification: { subject: '{{title}}', html: notificationHtml, text: notificationText },
+  malware_detected: { subject: '🛡️ Malware Blocked: {{fileName}} on Deal {{deal.dealId}}', html: malwareDetectedHtml, text: malwareDetectedText },
+  malware_scan_failed: { subject: '⚠️ File Could Not Be Scanned: {{fileName}} on Deal {{deal.dealId}}', html: malwareScanFailedHtml, text: malwareScanFailedText },
+};
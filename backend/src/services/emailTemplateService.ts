@@ -0,0 +1,468 @@
+import { FirebaseService, Deal, EmailTemplate, EmailTemplateContent, EmailTemplateKey, EmailTemplateVersion } from './firebaseService';
+import { DEFAULT_EMAIL_TEMPLATES } from './emailTemplateDefaults';
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+}
+
+interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  variables: EmailTemplateVariable[];
+  sample: () => Record<string, any>;
+}
+
+export interface EmailTemplateInfo extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  variables: EmailTemplateVariable[];
+  version: number; // 0 while the built-in default is in use
+  customized: boolean;
+  updatedBy?: string;
+  updatedAt?: EmailTemplate['updatedAt'];
+}
+
+// Parsed template nodes. Block tags take the same expression syntax as variables.
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; fallback?: string; raw: boolean }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+const CACHE_TTL_MS = 60 * 1000;
+const COMMON_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'portalUrl', description: 'Portal address' },
+  { name: 'currentDate', description: 'Date and time the email is sent' },
+  { name: 'year', description: 'Current year' },
+];
+const DEAL_VARIABLES: EmailTemplateVariable[] = [
+  { name: 'deal.dealId', description: 'Deal ID, e.g. RM-LX3K9-A7F2Q' },
+  { name: 'deal.propertyAddress', description: 'Property address' },
+  { name: 'deal.propertyType', description: 'Property type' },
+  { name: 'deal.contactName', description: 'Borrower contact name' },
+  { name: 'deal.contactEmail', description: 'Borrower contact email' },
+  { name: 'deal.loanRequest', description: 'Requested loan amount' },
+  { name: 'deal.dealType', description: 'Deal type' },
+  { name: 'deal.status', description: 'Deal status' },
+  { name: 'deal.stage', description: 'Pipeline stage' },
+  { name: 'deal.additionalInformation', description: 'Notes entered with the deal' },
+  { name: 'dealsUrl', description: 'Link to the deals page' },
+];
+
+const sampleDeal = (): Partial<Deal> => ({
+  dealId: 'RM-LX3K9-A7F2Q',
+  propertyAddress: '1200 Harbor Blvd, Tampa, FL 33602',
+  propertyType: 'Multifamily',
+  contactName: 'Jordan Avery',
+  contactEmail: 'jordan.avery@example.com',
+  loanRequest: '$2,400,000',
+  dealType: 'Acquisition',
+  status: 'active',
+  stage: 'Qualification',
+  additionalInformation: '24 units, 92% occupied. Seller wants to close within 60 days.',
+});
+const sampleUser = () => ({ username: 'sam_rainmaker', email: 'sam@example.com' });
+
+const DEFINITIONS: EmailTemplateDefinition[] = [
+  {
+    key: 'deal_created',
+    name: 'New deal',
+    description: 'Sent to the notification addresses when a deal is created',
+    variables: [...DEAL_VARIABLES, { name: 'createdBy', description: 'Who created the deal (may be empty)' }],
+    sample: () => ({ deal: sampleDeal(), createdBy: 'sam_rainmaker' }),
+  },
+  {
+    key: 'deal_updated',
+    name: 'Deal updated',
+    description: 'Sent to the notification addresses when a deal changes',
+    variables: [
+      ...DEAL_VARIABLES,
+      { name: 'changes', description: 'List of changes; use {{#each changes}}{{this}}{{/each}}' },
+      { name: 'missingDocuments', description: 'List of checklist documents still missing (may be empty)' },
+      { name: 'updatedBy', description: 'Who made the change' },
+    ],
+    sample: () => ({
+      deal: sampleDeal(),
+      changes: ['Stage changed from Qualification to Underwriting', 'Loan request changed to $2,400,000'],
+      missingDocuments: ['Rent roll', 'Trailing 12 months P&L'],
+      updatedBy: 'sam_rainmaker',
+    }),
+  },
+  {
+    key: 'document_uploaded',
+    name: 'Document uploaded',
+    description: 'Sent to the notification addresses when a document is uploaded to a deal',
+    variables: [
+      ...DEAL_VARIABLES,
+      { name: 'fileName', description: 'Name of the uploaded file' },
+      { name: 'uploadedBy', description: 'Who uploaded the file' },
+    ],
+    sample: () => ({ deal: sampleDeal(), fileName: 'Rent_Roll_March.pdf', uploadedBy: 'sam_rainmaker' }),
+  },
+  {
+    key: 'welcome',
+    name: 'Welcome',
+    description: 'Sent to a new member after payment, with the code for linking Discord',
+    variables: [
+      { name: 'user.username', description: 'Member username (may be empty)' },
+      { name: 'user.email', description: 'Member email' },
+      { name: 'verificationCode', description: 'Code for linking a Discord account' },
+    ],
+    sample: () => ({ user: sampleUser(), verificationCode: '482913' }),
+  },
+  {
+    key: 'verification_code',
+    name: 'Verification code resend',
+    description: 'Sent when a member asks for their verification code again',
+    variables: [
+      { name: 'user.username', description: 'Member username (may be empty)' },
+      { name: 'user.email', description: 'Member email' },
+      { name: 'verificationCode', description: 'Code for linking a Discord account' },
+    ],
+    sample: () => ({ user: sampleUser(), verificationCode: '482913' }),
+  },
+  {
+    key: 'login_code',
+    name: 'Login code',
+    description: 'One-time code for signing in with email',
+    variables: [
+      { name: 'user.email', description: 'Email the code was requested for' },
+      { name: 'otpCode', description: 'One-time login code' },
+    ],
+    sample: () => ({ user: { email: 'sam@example.com' }, otpCode: '730164' }),
+  },
+  {
+    key: 'notification',
+    name: 'Notification',
+    description: 'Deal, document and appointment notifications members chose to get by email',
+    variables: [
+      { name: 'user.username', description: 'Member username (may be empty)' },
+      { name: 'user.email', description: 'Member email' },
+      { name: 'title', description: 'Notification title, also the default subject' },
+      { name: 'body', description: 'Notification text' },
+      { name: 'actionUrl', description: 'Portal link for the notification (may be empty)' },
+    ],
+    sample: () => ({
+      user: sampleUser(),
+      title: 'RM-LX3K9-A7F2Q moved to Underwriting',
+      body: '1200 Harbor Blvd, Tampa, FL 33602 moved from Qualification to Underwriting.',
+      actionUrl: `${process.env.FRONTEND_URL || 'https://www.rain.club'}/`,
+    }),
+  },
+  {
+    key: 'malware_detected',
+    name: 'Malware detected',
+    description: 'Sent to the notification addresses when the malware scanner blocks an uploaded file',
+    variables: [
+      ...DEAL_VARIABLES,
+      { name: 'fileName', description: 'Name of the blocked file' },
+      { name: 'uploadedBy', description: 'Who uploaded the file' },
+      { name: 'signature', description: 'What the scanner found, e.g. Win.Test.EICAR_HDB-1' },
+    ],
+    sample: () => ({ deal: sampleDeal(), fileName: 'Invoice_March.pdf', uploadedBy: 'sam_rainmaker', signature: 'Win.Test.EICAR_HDB-1' }),
+  },
+  {
+    key: 'malware_scan_failed',
+    name: 'Malware scan failed',
+    description: 'Sent to the notification addresses when a quarantined upload could not be scanned and was given up on',
+    variables: [
+      ...DEAL_VARIABLES,
+      { name: 'fileName', description: 'Name of the file' },
+      { name: 'uploadedBy', description: 'Who uploaded the file' },
+      { name: 'error', description: "The scanner's last error, e.g. INSTREAM size limit exceeded. ERROR" },
+      { name: 'attempts', description: 'How many scans were tried' },
+    ],
+    sample: () => ({ deal: sampleDeal(), fileName: 'Site_Photos.zip', uploadedBy: 'sam_rainmaker', error: 'ClamAV could not scan the file: INSTREAM size limit exceeded. ERROR', attempts: 5 }),
+  },
+];
+
+/**
+ * Email templates admins can edit without a deploy. Saved templates are versioned in Firestore;
+ * keys that were never edited use the built-in defaults.
+ *
+ * Templates use a small mustache-like syntax: {{deal.dealId}} (HTML-escaped), {{{raw}}},
+ * {{user.username || "there"}} for a fallback, {{#if x}}...{{else}}...{{/if}} and
+ * {{#each list}}...{{this}}...{{/each}}.
+ */
+export class EmailTemplateService {
+  private static cache = new Map<EmailTemplateKey, { template: EmailTemplate | null; loadedAt: number }>();
+
+  static isTemplateKey(key: any): key is EmailTemplateKey {
+    return DEFINITIONS.some(definition => definition.key === key);
+  }
+
+  static async list(): Promise<EmailTemplateInfo[]> {
+    const stored = await FirebaseService.getEmailTemplates();
+    return DEFINITIONS.map(definition => this.toInfo(definition, stored.find(template => template.key === definition.key)));
+  }
+
+  static async get(key: EmailTemplateKey): Promise<EmailTemplateInfo> {
+    const stored = await FirebaseService.getEmailTemplate(key);
+    return this.toInfo(this.definition(key), stored || undefined);
+  }
+
+  static getDefault(key: EmailTemplateKey): EmailTemplateContent {
+    return DEFAULT_EMAIL_TEMPLATES[key];
+  }
+
+  /**
+   * Problems that would stop a template from rendering: syntax errors and unknown variables
+   */
+  static validate(key: EmailTemplateKey, content: EmailTemplateContent): string[] {
+    const definition = this.definition(key);
+    const known = new Set(definition.variables.concat(COMMON_VARIABLES).map(variable => variable.name.split('.')[0]));
+    const problems: string[] = [];
+
+    for (const part of ['subject', 'html', 'text'] as const) {
+      try {
+        const paths = new Set<string>();
+        this.collectPaths(this.parse(content[part]), paths, false);
+        for (const path of paths) {
+          if (!known.has(path.split('.')[0])) {
+            problems.push(`${part}: unknown variable "${path}"`);
+          }
+        }
+      } catch (error: any) {
+        problems.push(`${part}: ${error.message}`);
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Save a new version of a template. Callers validate first.
+   */
+  static async save(key: EmailTemplateKey, content: EmailTemplateContent, updatedBy: string, note?: string): Promise<EmailTemplateInfo> {
+    const saved = await FirebaseService.saveEmailTemplate(key, content, updatedBy, note);
+    this.cache.delete(key);
+    return this.toInfo(this.definition(key), saved);
+  }
+
+  static async restore(key: EmailTemplateKey, version: number, updatedBy: string): Promise<EmailTemplateInfo | null> {
+    const previous = await FirebaseService.getEmailTemplateVersion(key, version);
+    if (!previous) return null;
+    const { subject, html, text } = previous;
+    return this.save(key, { subject, html, text }, updatedBy, `Restored version ${version}`);
+  }
+
+  static async reset(key: EmailTemplateKey, updatedBy: string): Promise<EmailTemplateInfo> {
+    return this.save(key, this.getDefault(key), updatedBy, 'Reset to default');
+  }
+
+  static async getVersions(key: EmailTemplateKey): Promise<EmailTemplateVersion[]> {
+    return FirebaseService.getEmailTemplateVersions(key);
+  }
+
+  /**
+   * Render the live version of a template. A stored template that no longer renders falls back
+   * to the default rather than dropping the email.
+   */
+  static async render(key: EmailTemplateKey, context: Record<string, any>): Promise<EmailTemplateContent> {
+    const stored = await this.getCached(key);
+    if (stored) {
+      try {
+        return this.renderContent(stored, context);
+      } catch (error) {
+        // Fall through to the default
+      }
+    }
+    return this.renderContent(this.getDefault(key), context);
+  }
+
+  /**
+   * Render draft content against the template's sample deal and user, for the editor preview and test sends
+   */
+  static renderSample(key: EmailTemplateKey, content: EmailTemplateContent): EmailTemplateContent {
+    return this.renderContent(content, this.definition(key).sample());
+  }
+
+  private static renderContent(content: EmailTemplateContent, context: Record<string, any>): EmailTemplateContent {
+    const portalUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
+    const scope = {
+      portalUrl,
+      dealsUrl: `${portalUrl}/deals`,
+      currentDate: new Date().toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      }),
+      year: String(new Date().getFullYear()),
+      ...context,
+    };
+    return {
+      subject: this.renderNodes(this.parse(content.subject), scope, undefined, false).replace(/\s+/g, ' ').trim(),
+      html: this.renderNodes(this.parse(content.html), scope, undefined, true),
+      text: this.renderNodes(this.parse(content.text), scope, undefined, false).trim(),
+    };
+  }
+
+  private static async getCached(key: EmailTemplateKey): Promise<EmailTemplate | null> {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.template;
+    }
+    try {
+      const template = await FirebaseService.getEmailTemplate(key);
+      this.cache.set(key, { template, loadedAt: Date.now() });
+      return template;
+    } catch (error) {
+      return cached?.template || null;
+    }
+  }
+
+  private static definition(key: EmailTemplateKey): EmailTemplateDefinition {
+    const definition = DEFINITIONS.find(candidate => candidate.key === key);
+    if (!definition) {
+      throw new Error(`Unknown email template "${key}"`);
+    }
+    return definition;
+  }
+
+  private static toInfo(definition: EmailTemplateDefinition, stored?: EmailTemplate): EmailTemplateInfo {
+    const content = stored || DEFAULT_EMAIL_TEMPLATES[definition.key];
+    return {
+      key: definition.key,
+      name: definition.name,
+      description: definition.description,
+      variables: definition.variables.concat(COMMON_VARIABLES),
+      subject: content.subject,
+      html: content.html,
+      text: content.text,
+      version: stored?.version || 0,
+      customized: !!stored,
+      updatedBy: stored?.updatedBy,
+      updatedAt: stored?.updatedAt,
+    };
+  }
+
+  private static parse(source: string): TemplateNode[] {
+    const tagPattern = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([^}]*?)\s*\}\}/g;
+    const root: TemplateNode[] = [];
+    // Open blocks; `nodes` is where children currently go (the else branch after {{else}})
+    const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; nodes: TemplateNode[] }[] = [];
+    const current = () => (stack.length ? stack[stack.length - 1].nodes : root);
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(source)) !== null) {
+      let before = source.slice(position, match.index);
+      let end = match.index + match[0].length;
+      const tag = (match[1] ?? match[2]).trim();
+      const isBlockTag = match[2] !== undefined && /^(#|\/|else$)/.test(tag);
+
+      // A block tag alone on its line takes the line with it, so templates can be laid out readably
+      if (isBlockTag) {
+        const lineStart = before.lastIndexOf('\n') + 1;
+        const after = source.slice(end).match(/^[ \t]*(\r?\n|$)/);
+        const atLineStart = lineStart > 0 || position === 0 || source[position - 1] === '\n';
+        if (after && atLineStart && /^[ \t]*$/.test(before.slice(lineStart))) {
+          before = before.slice(0, lineStart);
+          end += after[0].length;
+        }
+      }
+      if (before) current().push({ type: 'text', value: before });
+      position = end;
+      tagPattern.lastIndex = end;
+
+      if (match[1] !== undefined) {
+        current().push({ type: 'variable', ...this.parseExpression(tag), raw: true });
+      } else if (tag.startsWith('#')) {
+        const [, blockType, expression] = tag.match(/^#(\w+)\s*(.*)$/) || [];
+        if (blockType !== 'if' && blockType !== 'each') {
+          throw new Error(`unknown block "{{${tag}}}"`);
+        }
+        const { path } = this.parseExpression(expression);
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = blockType === 'if'
+          ? { type: 'if', path, then: [], otherwise: [] }
+          : { type: 'each', path, body: [] };
+        current().push(node);
+        stack.push({ node, nodes: node.type === 'if' ? node.then : node.body });
+      } else if (tag === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.node.type !== 'if' || open.nodes === open.node.otherwise) {
+          throw new Error('{{else}} outside of {{#if}}');
+        }
+        open.nodes = open.node.otherwise;
+      } else if (tag.startsWith('/')) {
+        const open = stack.pop();
+        if (!open || open.node.type !== tag.slice(1).trim()) {
+          throw new Error(`unexpected "{{${tag}}}"`);
+        }
+      } else {
+        current().push({ type: 'variable', ...this.parseExpression(tag), raw: false });
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`"{{#${stack[stack.length - 1].node.type}}}" is never closed`);
+    }
+    if (position < source.length) root.push({ type: 'text', value: source.slice(position) });
+    return root;
+  }
+
+  private static parseExpression(expression: string): { path: string; fallback?: string } {
+    const match = expression.match(/^(this|[A-Za-z_]\w*)((?:\.\w+)*)(?:\s*\|\|\s*(?:"([^"]*)"|'([^']*)'))?$/);
+    if (!match) {
+      throw new Error(`invalid expression "{{${expression}}}"`);
+    }
+    return { path: match[1] + match[2], fallback: match[3] ?? match[4] };
+  }
+
+  private static collectPaths(nodes: TemplateNode[], paths: Set<string>, inEach: boolean): void {
+    for (const node of nodes) {
+      if (node.type === 'text') continue;
+      if (!(inEach && (node.path === 'this' || node.path.startsWith('this.')))) {
+        paths.add(node.path);
+      }
+      if (node.type === 'if') {
+        this.collectPaths(node.then, paths, inEach);
+        this.collectPaths(node.otherwise, paths, inEach);
+      } else if (node.type === 'each') {
+        this.collectPaths(node.body, paths, true);
+      }
+    }
+  }
+
+  private static renderNodes(nodes: TemplateNode[], scope: Record<string, any>, item: any, escapeHtml: boolean): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          const value = this.resolve(node.path, scope, item);
+          const text = this.isEmpty(value) ? node.fallback ?? '' : Array.isArray(value) ? value.join(', ') : String(value);
+          return escapeHtml && !node.raw ? this.escape(text) : text;
+        }
+        case 'if':
+          return this.renderNodes(this.isEmpty(this.resolve(node.path, scope, item)) ? node.otherwise : node.then, scope, item, escapeHtml);
+        case 'each': {
+          const list = this.resolve(node.path, scope, item);
+          return Array.isArray(list) ? list.map(entry => this.renderNodes(node.body, scope, entry, escapeHtml)).join('') : '';
+        }
+      }
+    }).join('');
+  }
+
+  private static resolve(path: string, scope: Record<string, any>, item: any): any {
+    const [head, ...rest] = path.split('.');
+    let value = head === 'this' ? item : scope[head];
+    for (const segment of rest) {
+      value = value === null || value === undefined ? undefined : value[segment];
+    }
+    return value;
+  }
+
+  private static isEmpty(value: any): boolean {
+    return value === undefined || value === null || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+  }
+
+  private static escape(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+}
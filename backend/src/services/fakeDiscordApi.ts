@@ -0,0 +1,202 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { DiscordGuildApi, DiscordGuildMember } from './discordApiClient';
+
+interface FakeMember {
+  user: { id: string; username: string; bot?: boolean };
+  roles: string[];
+}
+
+export interface FakeDiscordApi {
+  app: express.Express;
+  guildId: string;
+  botToken: string;
+  members: Map<string, FakeMember>;
+  requests: Array<{ method: string; path: string }>;
+  directMessages: Array<{ recipientId: string; content: string }>;
+  addMember(discordId: string, username: string, roles?: string[]): void;
+  authorize(discordId: string, username: string, accessToken: string): void; // OAuth token accepted by PUT /members
+  rateLimitNext(count?: number): void; // The next requests get a 429
+}
+
+/**
+ * In-memory stand-in for the Discord REST endpoints DiscordApiClient uses, for local development
+ * and tests. Point DISCORD_API_URL at it:
+ *
+ *   DISCORD_GUILD_ID=guild DISCORD_BOT_TOKEN=bot npm run fake-discord
+ *   DISCORD_API_URL=http://localhost:8585
+ */
+export function createFakeDiscordApi(
+  options: { guildId?: string; botToken?: string; acceptAnyAccessToken?: boolean } = {}
+): FakeDiscordApi {
+  const app = express();
+  const guildId = options.guildId || 'fake-guild';
+  const botToken = options.botToken || 'fake-bot-token';
+  const members = new Map<string, FakeMember>();
+  const oauthTokens = new Map<string, { id: string; username: string }>();
+  const requests: Array<{ method: string; path: string }> = [];
+  const directMessages: Array<{ recipientId: string; content: string }> = [];
+  let rateLimitedRequests = 0;
+
+  const error = (res: Response, status: number, code: number, message: string) => res.status(status).json({ code, message });
+
+  app.use(express.json());
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    requests.push({ method: req.method, path: req.path });
+    if (rateLimitedRequests > 0) {
+      rateLimitedRequests--;
+      return res.status(429).json({ message: 'You are being rate limited.', retry_after: 0.05, global: false });
+    }
+    if (req.headers.authorization !== `Bot ${botToken}`) {
+      return error(res, 401, 0, '401: Unauthorized');
+    }
+    const isDirectMessage = req.path === '/users/@me/channels' || req.path.startsWith('/channels/dm-');
+    if (!isDirectMessage && !req.path.startsWith(`/guilds/${guildId}/`)) {
+      return error(res, 404, 10004, 'Unknown Guild');
+    }
+    next();
+  });
+
+  app.get('/guilds/:guildId/members', (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 1, 1000);
+    const after = String(req.query.after || '0');
+    const page = [...members.values()]
+      .filter(member => BigInt(member.user.id) > BigInt(after))
+      .sort((a, b) => (BigInt(a.user.id) < BigInt(b.user.id) ? -1 : 1))
+      .slice(0, limit);
+    res.json(page);
+  });
+
+  app.get('/guilds/:guildId/members/:userId', (req, res) => {
+    const member = members.get(req.params.userId);
+    return member ? res.json(member) : error(res, 404, 10007, 'Unknown Member');
+  });
+
+  app.put('/guilds/:guildId/members/:userId', (req, res) => {
+    const authorizedUser = oauthTokens.get(req.body?.access_token)
+      || (options.acceptAnyAccessToken && req.body?.access_token ? { id: req.params.userId, username: `user-${req.params.userId}` } : undefined);
+    if (!authorizedUser || authorizedUser.id !== req.params.userId) {
+      return error(res, 403, 50025, 'Invalid OAuth2 access token');
+    }
+    if (members.has(req.params.userId)) {
+      return res.status(204).end();
+    }
+    const member = { user: { ...authorizedUser }, roles: [...(req.body.roles || [])] };
+    members.set(req.params.userId, member);
+    res.status(201).json(member);
+  });
+
+  app.put('/guilds/:guildId/members/:userId/roles/:roleId', (req, res) => {
+    const member = members.get(req.params.userId);
+    if (!member) return error(res, 404, 10007, 'Unknown Member');
+    if (!member.roles.includes(req.params.roleId)) member.roles.push(req.params.roleId);
+    res.status(204).end();
+  });
+
+  app.delete('/guilds/:guildId/members/:userId/roles/:roleId', (req, res) => {
+    const member = members.get(req.params.userId);
+    if (!member) return error(res, 404, 10007, 'Unknown Member');
+    member.roles = member.roles.filter(roleId => roleId !== req.params.roleId);
+    res.status(204).end();
+  });
+
+  // DMs only reach members of the guild, like a bot that shares no other server with the user
+  app.post('/users/@me/channels', (req, res) => {
+    const recipientId = String(req.body?.recipient_id || '');
+    if (!members.has(recipientId)) return error(res, 400, 50033, 'Invalid Recipient(s)');
+    res.json({ id: `dm-${recipientId}`, type: 1 });
+  });
+
+  app.post('/channels/:channelId/messages', (req, res) => {
+    const recipientId = req.params.channelId.replace(/^dm-/, '');
+    if (!members.has(recipientId)) return error(res, 403, 50007, 'Cannot send messages to this user');
+    directMessages.push({ recipientId, content: String(req.body?.content || '') });
+    res.json({ id: String(directMessages.length), channel_id: req.params.channelId, content: req.body?.content });
+  });
+
+  return {
+    app,
+    guildId,
+    botToken,
+    members,
+    requests,
+    directMessages,
+    addMember: (discordId, username, roles = []) => {
+      members.set(discordId, { user: { id: discordId, username }, roles: [...roles] });
+    },
+    authorize: (discordId, username, accessToken) => {
+      oauthTokens.set(accessToken, { id: discordId, username });
+    },
+    rateLimitNext: (count = 1) => {
+      rateLimitedRequests = count;
+    },
+  };
+}
+
+/**
+ * DiscordGuildApi kept in memory, for unit tests of role sync (DiscordRoleSyncService.useClient)
+ * that shouldn't start a fake HTTP server. Every role change is recorded in roleChanges.
+ */
+export class InMemoryDiscordApiClient implements DiscordGuildApi {
+  readonly members = new Map<string, FakeMember>();
+  readonly roleChanges: Array<{ action: 'grant' | 'revoke'; discordId: string; roleId: string }> = [];
+  readonly failingRoleIds = new Set<string>(); // Role changes for these fail like a missing permission would
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  addGuildMember(discordId: string, username: string, roles: string[] = [], bot = false): void {
+    this.members.set(discordId, { user: { id: discordId, username, ...(bot ? { bot } : {}) }, roles: [...roles] });
+  }
+
+  async getMember(discordId: string): Promise<DiscordGuildMember | null> {
+    const member = this.members.get(discordId);
+    return member ? { user: { ...member.user }, roles: [...member.roles] } : null;
+  }
+
+  async listMembers(): Promise<DiscordGuildMember[]> {
+    return [...this.members.values()].map(member => ({ user: { ...member.user }, roles: [...member.roles] }));
+  }
+
+  async addMember(discordId: string, userAccessToken: string, roleIds: string[]): Promise<boolean> {
+    if (this.members.has(discordId)) return false;
+    this.addGuildMember(discordId, `user-${discordId}`, roleIds);
+    return true;
+  }
+
+  async addRole(discordId: string, roleId: string): Promise<void> {
+    const member = this.changeableMember(discordId, roleId);
+    if (!member.roles.includes(roleId)) member.roles.push(roleId);
+    this.roleChanges.push({ action: 'grant', discordId, roleId });
+  }
+
+  async removeRole(discordId: string, roleId: string): Promise<void> {
+    const member = this.changeableMember(discordId, roleId);
+    member.roles = member.roles.filter(existing => existing !== roleId);
+    this.roleChanges.push({ action: 'revoke', discordId, roleId });
+  }
+
+  private changeableMember(discordId: string, roleId: string): FakeMember {
+    if (this.failingRoleIds.has(roleId)) {
+      throw new Error('Missing Permissions');
+    }
+    const member = this.members.get(discordId);
+    if (!member) {
+      throw new Error('Unknown Member');
+    }
+    return member;
+  }
+}
+
+if (require.main === module) {
+  const port = Number(process.env.FAKE_DISCORD_API_PORT || 8585);
+  // Real OAuth tokens from a local Discord login can't be checked here, so any token joins the server
+  const fake = createFakeDiscordApi({
+    guildId: process.env.DISCORD_GUILD_ID,
+    botToken: process.env.DISCORD_BOT_TOKEN,
+    acceptAnyAccessToken: true,
+  });
+  fake.app.listen(port, () => {
+    console.log(`Fake Discord API for guild ${fake.guildId} on http://localhost:${port}`);
+  });
+}
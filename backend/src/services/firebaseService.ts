@@ -1,5 +1,17 @@
 import admin from 'firebase-admin';
-import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import crypto from 'crypto';
+import { getFirestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { UserRole } from '../utils/permissions';
+import { SecretService } from './secretService';
+import {
+  DealQueryOptions,
+  DealPage,
+  DEAL_SORT_FIELD_PATHS,
+  DEAL_SEARCH_SOURCE_FIELDS,
+  getDealQueryFields,
+  getSearchTerms,
+  encodeDealCursor,
+} from '../utils/dealQuery';
 
 // Initialize Firebase Admin
 if (!admin.apps.length) {
@@ -46,17 +58,29 @@ export interface User {
   discordEmail?: string; // Discord email (if different from payment email)
   passwordHash?: string; // bcrypt hashed password
   avatar?: string;
-  verificationCode?: string; // 8-character code sent after payment
+  verificationCode?: string; // Legacy plaintext code; no longer accepted, only cleared when an account links
+  verificationCodeHash?: string; // HMAC (hashAuthCode) of the RAIN-XXXX-XXXX-XXXX code sent after payment
   verificationCodeExpiresAt?: Timestamp; // 7-day expiration
+  verificationCodeUsedAt?: Timestamp; // When a code linked the account; no new code is issued after that
+  twoFactorEnabled?: boolean; // TOTP second factor; always required for admins
+  twoFactorSecret?: string; // Base32 TOTP secret of the enrolled authenticator, encrypted with SecretService
+  twoFactorPendingSecret?: string; // Secret shown during enrollment, until the first code confirms it (encrypted too)
+  twoFactorBackupCodeHashes?: string[]; // hashAuthCode of the unused one-time backup codes (plain SHA-256 for older ones)
+  twoFactorLastUsedStep?: number; // TOTP time step last accepted, so a code can't be replayed
+  twoFactorEnabledAt?: Timestamp;
   termsAccepted: boolean; // Default false
   termsAcceptedAt?: Timestamp;
   onboardingCompleted: boolean; // Default false
   onboardingStep?: number; // 1=payment, 2=password, 3=discord, 4=intro, 5=complete
+  accessLapsedAt?: Timestamp; // Set when the subscription sweep removed access; cleared once paid up again
   isAdmin: boolean;
   isWhitelisted: boolean;
+  role?: UserRole; // Unset for users created before roles; see getUserRole
   hasManualSubscription?: boolean; // For users who paid via other methods (not Stripe)
   redirectToWhop?: boolean; // For users who paid via Whop and should be redirected to Whop subscription page
   subscriptionId?: string;
+  billingEmailOptOuts?: BillingEmailType[]; // Optional billing emails the user unsubscribed from
+  notificationPreferences?: NotificationPreferences; // Overrides of the per-type channel defaults
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -64,12 +88,83 @@ export interface User {
 export interface OTPCode {
   id: string;
   email: string;
-  code: string;
+  codeHash: string; // SHA-256 of the code; the code itself only ever goes out by email
   expiresAt: Timestamp;
   used: boolean;
+  attempts: number; // Wrong guesses made against this code
+  lockedAt?: Timestamp; // Set when attempts reach the limit; a locked code can't be used even with the right digits
   createdAt: Timestamp;
 }
 
+export type OTPVerificationResult = 'valid' | 'invalid' | 'expired' | 'locked' | 'not_found';
+
+export type AuthAttemptScope = 'otp_email' | 'verification_code' | 'two_factor' | 'share_link';
+
+// Failed attempts for one identity (an email, a Discord account) across every code it tries,
+// so requesting a fresh code doesn't reset the count
+export interface AuthAttemptCounter {
+  id: string; // `${scope}_${sha256(identifier)}`
+  scope: AuthAttemptScope;
+  identifier: string;
+  failures: number;
+  windowStartedAt: Timestamp;
+  lockedUntil?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type SecurityEventType =
+  | 'otp_failed'
+  | 'otp_code_locked'
+  | 'otp_email_locked'
+  | 'verification_code_failed'
+  | 'verification_code_locked'
+  | 'refresh_token_reuse'
+  | 'two_factor_failed'
+  | 'two_factor_locked'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'backup_code_used'
+  | 'share_link_password_failed'
+  | 'share_link_locked'
+  | 'malware_detected'
+  | 'malware_scan_failed';
+
+export interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  email?: string;
+  userId?: string;
+  discordId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, any>;
+  createdAt: Timestamp;
+}
+
+// One-time code a redirect carries instead of tokens; the document id is the code's SHA-256 hash
+export interface LoginCode {
+  id: string;
+  userId: string;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+// A signed-in device. The refresh token itself is never stored, only its SHA-256 hash.
+export interface UserSession {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // Token replaced by the last rotation, to tell reuse apart from a concurrent refresh
+  rotatedAt?: Timestamp;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Timestamp;
+  lastUsedAt: Timestamp;
+  expiresAt: Timestamp;
+  revokedAt?: Timestamp;
+  revokedReason?: string;
+}
+
 export interface DiscordAutoAccessUser {
   id: string;
   discordUsername: string;
@@ -80,6 +175,81 @@ export interface DiscordAutoAccessUser {
   updatedAt: Timestamp;
 }
 
+export type DiscordRoleSyncTrigger = 'login' | 'discord_link' | 'subscription' | 'reconcile' | 'admin';
+
+// One role grant or revoke made (or, in a dry run, planned) by the Discord role sync
+export interface DiscordRoleSyncLog {
+  id: string;
+  discordId: string;
+  userId?: string;
+  username?: string;
+  roleId: string;
+  action: 'grant' | 'revoke';
+  trigger: DiscordRoleSyncTrigger;
+  reason: string; // Why the role is (or isn't) wanted, e.g. "active subscription"
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  createdAt: Timestamp;
+}
+
+export type NotificationType = 'deal_stage_changed' | 'document_requested' | 'appointment_assigned' | 'subscription_issue';
+
+export type NotificationChannel = 'email' | 'in_app' | 'discord';
+
+export type NotificationPreferences = Partial<Record<NotificationType, Partial<Record<NotificationChannel, boolean>>>>;
+
+// A notification sent to a user; the ones delivered in-app make up their inbox
+export interface UserNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string; // Portal path to open, e.g. /appointments
+  channels: NotificationChannel[]; // Channels it was sent to
+  failedChannels?: NotificationChannel[];
+  read: boolean;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+export type BillingEmailType =
+  | 'trial_ending'
+  | 'payment_failed'
+  | 'subscription_canceled'
+  | 'grace_period_ending'
+  | 'access_revoked'
+  | 'payment_recovered';
+
+// One billing lifecycle email. The id is a dedupe key, so webhook retries and sweep runs send it once.
+export interface BillingEmailRecord {
+  id: string;
+  userId: string;
+  email: string;
+  type: BillingEmailType;
+  status: 'sending' | 'sent' | 'failed';
+  error?: string;
+  createdAt: Timestamp;
+  sentAt?: Timestamp;
+}
+
+export type ScheduledJobName = 'subscription_sweep' | 'discord_role_reconcile' | 'document_scan' | 'deal_query_backfill';
+
+// One execution of a scheduled job, shown in the admin run log
+export interface JobRun {
+  id: string;
+  job: ScheduledJobName;
+  trigger: 'schedule' | 'admin';
+  status: 'running' | 'succeeded' | 'failed';
+  summary?: Record<string, number>; // Counts reported by the job, e.g. { checked: 40, revoked: 2 }
+  errors?: string[]; // Problems with single items that didn't stop the run
+  error?: string; // Why the run failed
+  startedAt: Timestamp;
+  finishedAt?: Timestamp;
+  durationMs?: number;
+}
+
 export interface EmailConfig {
   smtpHost: string;
   smtpPort: number;
@@ -93,6 +263,79 @@ export interface EmailConfig {
   updatedAt: Timestamp;
 }
 
+export type EmailTemplateKey =
+  | 'deal_created'
+  | 'deal_updated'
+  | 'document_uploaded'
+  | 'welcome'
+  | 'verification_code'
+  | 'login_code'
+  | 'notification'
+  | 'malware_detected'
+  | 'malware_scan_failed';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The live version of an admin-edited email template; keys without one use the built-in default
+export interface EmailTemplate extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  version: number;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+// Every saved version is kept so an earlier one can be restored
+export interface EmailTemplateVersion extends EmailTemplateContent {
+  id: string; // `${key}_v${version}`
+  key: EmailTemplateKey;
+  version: number;
+  note?: string; // e.g. "Restored version 3"
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
+export type EmailMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'dead' | 'bounced';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // Base64
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  id: string;
+  category: string; // Template key or billing email type, e.g. 'login_code', 'billing_payment_failed'
+  to: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+  sensitive: boolean; // Carries a login or verification code; the body is dropped once delivery is over
+  userId?: string;
+  status: EmailMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  providerMessageId?: string; // Message-ID returned by the SMTP server
+  rejectedRecipients?: string[];
+  bounceReason?: string;
+  bouncedAt?: Timestamp;
+  // When the worker should pick the message up: the retry time for 'failed', the claim's expiry
+  // for 'pending' and 'sending', so a send that died with its process is retried
+  nextAttemptAt?: Timestamp;
+  claimedAt?: Timestamp;
+  resendOf?: string; // Message this one re-sends
+  requestedBy?: string; // Admin who asked for the resend
+  sentAt?: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
 export interface Deal {
   id: string;
   userId: string;
@@ -104,6 +347,7 @@ export interface Deal {
   ghlOpportunityId?: string;
   ghlContactId?: string;
   oneDriveFolderId?: string;
+  documentFolder?: string; // Folder path the deal's documents are filed under, as rendered from the folder template
   documents?: Document[];
   propertyAddress?: string;
   propertyType?: string;
@@ -117,6 +361,66 @@ export interface Deal {
   updatedAt: Timestamp;
 }
 
+export type DocumentStorageDriver = 'onedrive' | 'local' | 's3';
+
+export interface DealFolderTemplateSubfolder {
+  name: string; // May contain tokens, e.g. "01 Financials" or "{state} Legal"
+  checklistItemIds: string[]; // Uploads classified as one of these checklist items are filed here
+}
+
+/**
+ * Folder layout created for every deal. Names use tokens such as {dealId} and {propertyAddress};
+ * a "/" in the folder path nests the deal folder, e.g. "{stage}/{propertyAddress}".
+ */
+export interface DealFolderTemplate {
+  folderPath: string;
+  subfolders: DealFolderTemplateSubfolder[];
+  defaultSubfolder?: string; // Subfolder name for uploads with no checklist item; the deal folder itself when unset
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+/**
+ * An expiring link that lets someone outside the portal, usually a lender, download a set of a
+ * deal's documents. Only a hash of the link token is stored; the token is shown once, when the
+ * link is created.
+ */
+export interface DocumentShareLink {
+  id: string;
+  dealId: string;
+  documentIds: string[];
+  tokenHash: string; // sha256 of the token in the link
+  passwordHash?: string; // bcrypt; unset when the link has no password
+  label?: string; // Who the link is for, e.g. the lender's name
+  expiresAt: Timestamp;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: Timestamp;
+  revokedAt?: Timestamp;
+  revokedBy?: string;
+  accessCount: number;
+  lastAccessedAt?: Timestamp;
+}
+
+export type DocumentShareAccessAction = 'open' | 'download' | 'zip';
+
+export interface DocumentShareAccess {
+  id: string;
+  shareLinkId: string;
+  dealId: string;
+  action: DocumentShareAccessAction;
+  documentId?: string; // The file downloaded, for "download"
+  fileName?: string;
+  documentIds?: string[]; // Every file in the zip, for "zip"
+  fileNames?: string[];
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Timestamp;
+}
+
+// 'pending' files couldn't be scanned on upload and are held back until a later scan clears them
+export type DocumentScanStatus = 'pending' | 'clean' | 'infected' | 'unscannable';
+
 export interface Document {
   id: string;
   filename: string;
@@ -127,13 +431,179 @@ export interface Document {
   mimeType: string;
   fileSize: number;
   userId: string;
-  oneDriveId: string;
+  storageDriver?: DocumentStorageDriver; // Unset for documents uploaded before storage was pluggable, which are on OneDrive
+  oneDriveId: string; // File id in the storage driver, named from when OneDrive was the only one
   oneDriveUrl?: string;
   downloadUrl?: string;
   deleted: boolean;
   deletedAt?: Timestamp;
   tags: string[];
   dealId: string;
+  checklistItemId?: string; // Checklist item this upload satisfies, if classified
+  version?: number; // Current version; unset for documents that have never been replaced, which are version 1
+  updatedAt?: Timestamp; // When the current version was uploaded or restored
+  scanStatus?: DocumentScanStatus; // Unset when no malware scanner was configured at upload
+  scanSignature?: string; // What the scanner found in an infected file
+  scannedAt?: Timestamp; // When a quarantined document was scanned
+  scanAttempts?: number; // Scans that ended in a scanner error; 'unscannable' once they run out
+  scanError?: string; // The scanner's last error
+}
+
+/**
+ * One uploaded file of a document. The document itself always carries the current version's
+ * file fields; these records keep every version, the current one included, so older files can
+ * be downloaded or restored.
+ */
+export interface DocumentVersion {
+  id: string; // `${documentId}_v${version}`
+  documentId: string;
+  dealId: string;
+  version: number;
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  storageDriver?: DocumentStorageDriver;
+  oneDriveId: string;
+  oneDriveUrl?: string;
+  downloadUrl?: string;
+  uploadedBy: string;
+  uploadedByUserId?: string;
+  uploadedAt: Timestamp;
+  restoredFrom?: number; // Set when this version re-uses the file of an older one
+}
+
+export type DocumentVersionFile = Pick<DocumentVersion,
+  'filename' | 'originalName' | 'mimeType' | 'fileSize' | 'storageDriver' | 'oneDriveId' | 'oneDriveUrl' | 'downloadUrl'>;
+
+export type DealActivitySource = 'portal' | 'ghl_webhook' | 'admin_import' | 'spreadsheet_import' | 'system';
+
+export interface DealFieldChange {
+  field: string;
+  label: string;
+  from: any;
+  to: any;
+}
+
+export interface DealActivity {
+  id: string;
+  dealId: string;
+  action: 'created' | 'updated' | 'deleted';
+  source: DealActivitySource;
+  actorId?: string; // Portal user who made the change (absent for webhooks)
+  actorName?: string;
+  changes: DealFieldChange[];
+  createdAt: Timestamp;
+}
+
+export interface StageMappingEntry {
+  ghlStageId: string;
+  ghlStageName: string; // Name in GHL at the time the mapping was saved (informational only)
+  portalStage: string;
+  order: number;
+  color: string; // Tailwind background class used on the deal board, e.g. "bg-blue-400"
+}
+
+export interface StageMapping {
+  id: string; // Same as pipelineId
+  pipelineId: string;
+  pipelineName?: string;
+  stages: StageMappingEntry[];
+  updatedBy?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type WebhookProvider = 'ghl' | 'stripe';
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+
+export interface WebhookEvent {
+  id: string; // `${provider}_${eventId}` so a redelivered event maps to the same document
+  provider: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  payload: string; // Raw JSON as received (after signature verification)
+  status: WebhookEventStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  result?: any;
+  // When the worker should pick the event up: the retry time for 'failed', the claim's expiry for
+  // 'pending' and 'processing', so an attempt that died with its process is retried
+  nextAttemptAt?: Timestamp;
+  claimedAt?: Timestamp;
+  receivedAt: Timestamp;
+  processedAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type DealMatchField = 'ghlOpportunityId' | 'dealId' | 'ghlContactId' | 'propertyAddress' | 'title';
+
+export interface DealReconciliation {
+  id: string;
+  provider: WebhookProvider;
+  reason: 'unmatched' | 'ambiguous';
+  opportunityId?: string;
+  opportunityName?: string;
+  matchedBy?: DealMatchField; // Ladder step that returned more than one deal (ambiguous only)
+  candidateDealIds: string[];
+  webhookEventId?: string;
+  payload: string;
+  status: 'open' | 'resolved' | 'dismissed';
+  occurrences: number;
+  resolvedDealId?: string;
+  resolvedBy?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  resolvedAt?: Timestamp;
+}
+
+export interface DocumentChecklistItem {
+  id: string; // Stable key stored on classified documents, e.g. "rent_roll"
+  label: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface DocumentChecklist {
+  id: string;
+  name: string;
+  dealType: string; // Empty string matches every deal type
+  loanType: string; // Matched against deal.investmentType; empty string matches every loan type
+  items: DocumentChecklistItem[];
+  updatedBy?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type DealImportRowStatus = 'valid' | 'invalid' | 'created' | 'failed';
+
+export interface DealImportRowResult {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  status: DealImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  values: Record<string, string>; // Mapped deal form fields
+  dealId?: string; // Firestore id of the created deal
+  dealNumber?: string; // Human-readable RM- deal ID
+  ghlSynced?: boolean;
+}
+
+export interface DealImport {
+  id: string;
+  userId: string;
+  fileName: string;
+  mapping: Record<string, string>; // Spreadsheet column -> deal form field
+  status: 'running' | 'completed' | 'failed';
+  totalRows: number;
+  createdCount: number;
+  failedCount: number;
+  skippedCount: number; // Rows that failed validation and were not attempted
+  rows: DealImportRowResult[];
+  error?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  completedAt?: Timestamp;
 }
 
 export interface Analytics {
@@ -217,6 +687,36 @@ export interface SubAccount {
   updatedAt: Timestamp;
 }
 
+export type SecretSource = 'configurations' | 'subAccounts' | 'onedrive_tokens' | 'users';
+
+export interface SecretEncryptionStatus {
+  activeKeyId: string;
+  total: number;
+  plaintext: number; // Saved before encryption was introduced
+  byKeyId: Record<string, number>;
+  needsRotation: number;
+}
+
+export interface SecretRotationResult {
+  activeKeyId: string;
+  rotated: number;
+  bySource: Record<SecretSource, number>;
+}
+
+interface StoredSecret {
+  source: SecretSource;
+  ref: admin.firestore.DocumentReference;
+  field: string;
+  value: string;
+}
+
+// Configuration keys whose values are credentials rather than ids or flags
+const SECRET_CONFIGURATION_KEYS = ['ghl_api_key', 'ghl_v2_token'];
+const SUB_ACCOUNT_SECRET_FIELDS = ['apiKey', 'v2Token'] as const;
+const ONEDRIVE_SECRET_FIELDS = ['accessToken', 'refreshToken'] as const;
+// TOTP seeds; TwoFactorService encrypts them when it stores them
+const USER_SECRET_FIELDS = ['twoFactorSecret', 'twoFactorPendingSecret'] as const;
+
 export interface Subscription {
   id: string;
   userId: string;
@@ -229,6 +729,8 @@ export interface Subscription {
   cancelAtPeriodEnd: boolean;
   canceledAt?: Timestamp;
   gracePeriodEnd?: Timestamp; // currentPeriodEnd + 2 days
+  dunningEmailsSentDays?: number[]; // Dunning offsets (days after period end) already emailed for the current lapse
+  accessRevokedAt?: Timestamp; // When the subscription sweep removed access after the grace period
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -243,6 +745,27 @@ export class FirebaseService {
   private static subscriptionsCollection = db.collection('subscriptions');
   private static documentsCollection = db.collection('documents');
   private static otpCodesCollection = db.collection('otpCodes');
+  private static dealActivityCollection = db.collection('dealActivity');
+  private static stageMappingsCollection = db.collection('stageMappings');
+  private static webhookEventsCollection = db.collection('webhookEvents');
+  private static dealReconciliationsCollection = db.collection('dealReconciliations');
+  private static documentChecklistsCollection = db.collection('documentChecklists');
+  private static dealImportsCollection = db.collection('dealImports');
+  private static sessionsCollection = db.collection('sessions');
+  private static loginCodesCollection = db.collection('loginCodes');
+  private static authAttemptsCollection = db.collection('authAttempts');
+  private static securityEventsCollection = db.collection('securityEvents');
+  private static discordRoleSyncLogCollection = db.collection('discordRoleSyncLog');
+  private static jobRunsCollection = db.collection('jobRuns');
+  private static billingEmailsCollection = db.collection('billingEmails');
+  private static jobLocksCollection = db.collection('jobLocks');
+  private static emailTemplatesCollection = db.collection('emailTemplates');
+  private static notificationsCollection = db.collection('notifications');
+  private static emailTemplateVersionsCollection = db.collection('emailTemplateVersions');
+  private static emailMessagesCollection = db.collection('emailMessages');
+  private static documentShareLinksCollection = db.collection('documentShareLinks');
+  private static documentShareAccessCollection = db.collection('documentShareAccess');
+  private static documentVersionsCollection = db.collection('documentVersions');
 
   // User methods
   static async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
@@ -374,6 +897,7 @@ export class FirebaseService {
       const newDeal = {
         id: newDealRef.id,
       ...cleanDealData,
+      ...getDealQueryFields(cleanDealData),
       createdAt: now,
       updatedAt: now,
       };
@@ -393,7 +917,12 @@ export class FirebaseService {
   static async updateDeal(id: string, dealData: Partial<Omit<Deal, 'id' | 'createdAt'>>): Promise<Deal | null> {
     const dealRef = FirebaseService.dealsCollection.doc(id);
     const now = Timestamp.now();
-    await dealRef.update({ ...dealData, updatedAt: now });
+    let queryFields = {};
+    if (Object.keys(dealData).some(key => DEAL_SEARCH_SOURCE_FIELDS.includes(key))) {
+      const current = await this.getDealById(id);
+      queryFields = getDealQueryFields({ ...(current || {}), ...dealData });
+    }
+    await dealRef.update({ ...dealData, ...queryFields, updatedAt: now });
     return this.getDealById(id);
   }
 
@@ -401,6 +930,30 @@ export class FirebaseService {
     await FirebaseService.dealsCollection.doc(id).delete();
   }
 
+  // Deal activity methods (append-only history, never updated or deleted)
+  static async createDealActivity(activityData: Omit<DealActivity, 'id' | 'createdAt'>): Promise<DealActivity> {
+    const newActivityRef = FirebaseService.dealActivityCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(activityData).filter(([, value]) => value !== undefined)
+    );
+    const newActivity = {
+      id: newActivityRef.id,
+      ...cleanData,
+      createdAt: Timestamp.now(),
+    } as DealActivity;
+    await newActivityRef.set(newActivity);
+    return newActivity;
+  }
+
+  static async getDealActivity(dealId: string, limit = 200): Promise<DealActivity[]> {
+    const snapshot = await FirebaseService.dealActivityCollection
+      .where('dealId', '==', dealId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DealActivity));
+  }
+
   // ✅ EXACT MATCH TO YOUR QUERY STRUCTURE
   static async getDealsByUserId(userId: string): Promise<Deal[]> {
     try {
@@ -439,6 +992,103 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Filtered, sorted deal listing. With a limit it returns one page and a cursor for the next;
+   * without one it returns every match (the legacy array responses).
+   */
+  static async queryDeals(options: DealQueryOptions): Promise<DealPage> {
+    const sortPath = DEAL_SORT_FIELD_PATHS[options.sortBy];
+    const searchTerms = getSearchTerms(options.search);
+    let query: FirebaseFirestore.Query = FirebaseService.dealsCollection;
+
+    if (options.userId) query = query.where('userId', '==', options.userId);
+    if (options.status) query = query.where('status', '==', options.status);
+    if (options.propertyType) query = query.where('propertyType', '==', options.propertyType);
+    if (searchTerms.length > 0) query = query.where('searchTokens', 'array-contains', searchTerms[0]);
+    if (options.startDate) query = query.where('createdAt', '>=', Timestamp.fromDate(options.startDate));
+    if (options.endDate) query = query.where('createdAt', '<=', Timestamp.fromDate(options.endDate));
+
+    // Document id breaks ties so the cursor is stable when sort values repeat
+    query = query
+      .orderBy(sortPath, options.sortDirection)
+      .orderBy(admin.firestore.FieldPath.documentId(), options.sortDirection);
+
+    // Remaining search terms are matched here, so batches are read until the page is full; the
+    // cursor points at the last deal read, so deals skipped by the filter aren't read again
+    const extraTerms = searchTerms.slice(1);
+    const deals: Deal[] = [];
+    let cursor = options.cursor ? [options.cursor.value, options.cursor.id] : null;
+    let lastRead: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    let hasMore = false;
+
+    while (true) {
+      const batchQuery = cursor ? query.startAfter(...cursor) : query;
+      const snapshot = await (options.limit ? batchQuery.limit(options.limit + 1) : batchQuery).get();
+      for (const doc of snapshot.docs) {
+        const deal = { id: doc.id, ...doc.data() } as Deal & { searchTokens?: string[] };
+        if (extraTerms.every(term => deal.searchTokens?.includes(term))) {
+          if (options.limit && deals.length === options.limit) {
+            hasMore = true;
+            break;
+          }
+          deals.push(deal);
+        }
+        lastRead = doc;
+      }
+      if (hasMore || !options.limit || snapshot.docs.length <= options.limit) break;
+      cursor = [lastRead!.get(sortPath), lastRead!.id];
+    }
+
+    return {
+      deals,
+      hasMore,
+      nextCursor: hasMore && lastRead ? encodeDealCursor(lastRead.get(sortPath), lastRead.id) : null,
+    };
+  }
+
+  /**
+   * Add the search and sort fields to deals created before they existed
+   */
+  static async backfillDealQueryFields(): Promise<{ scanned: number; updated: number }> {
+    const snapshot = await FirebaseService.dealsCollection.get();
+    let updated = 0;
+    let batch = db.batch();
+    let batchSize = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const fields = getDealQueryFields(data);
+      if (data.loanAmountValue === fields.loanAmountValue &&
+        JSON.stringify(data.searchTokens || []) === JSON.stringify(fields.searchTokens)) {
+        continue;
+      }
+      batch.update(doc.ref, fields);
+      batchSize++;
+      updated++;
+      if (batchSize === 400) {
+        await batch.commit();
+        batch = db.batch();
+        batchSize = 0;
+      }
+    }
+
+    if (batchSize > 0) {
+      await batch.commit();
+    }
+    return { scanned: snapshot.size, updated };
+  }
+
+  /**
+   * Indexed lookup of deals by a single field (used for webhook matching instead of scanning every deal)
+   */
+  static async getDealsByField(field: DealMatchField, value: string, limit = 5): Promise<Deal[]> {
+    const snapshot = await FirebaseService.dealsCollection
+      .where(field, '==', value)
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Deal));
+  }
+
   static async getDealAnalytics(): Promise<Analytics> {
     const deals = await this.getAllDeals();
     const users = await this.getAllUsers();
@@ -507,14 +1157,14 @@ export class FirebaseService {
     const configDoc = await db.collection('configurations').doc(key).get();
       if (configDoc.exists) {
         const data = configDoc.data();
-                return data?.value || null;
+                return this.readConfigurationValue(key, data?.value);
       }
       
       // Fallback to config collection (old structure)
       const oldConfigDoc = await db.collection('config').doc(key).get();
       if (oldConfigDoc.exists) {
         const data = oldConfigDoc.data();
-        return data?.value || null;
+        return this.readConfigurationValue(key, data?.value);
       }
       
             return null;
@@ -527,7 +1177,7 @@ export class FirebaseService {
     try {
             await db.collection('configurations').doc(key).set({
       key,
-      value,
+      value: SECRET_CONFIGURATION_KEYS.includes(key) ? SecretService.encrypt(value) : value,
         description: description || '',
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now()
@@ -538,6 +1188,171 @@ export class FirebaseService {
     }
   }
 
+  private static readConfigurationValue(key: string, value?: string): string | null {
+    if (!value) return null;
+    return SECRET_CONFIGURATION_KEYS.includes(key) ? SecretService.decrypt(value) : value;
+  }
+
+  // GHL stage mapping methods (one document per pipeline, keyed by pipelineId)
+  static async getStageMapping(pipelineId: string): Promise<StageMapping | null> {
+    const mappingDoc = await FirebaseService.stageMappingsCollection.doc(pipelineId).get();
+    return mappingDoc.exists ? ({ id: mappingDoc.id, ...mappingDoc.data() } as StageMapping) : null;
+  }
+
+  static async getAllStageMappings(): Promise<StageMapping[]> {
+    try {
+      const snapshot = await FirebaseService.stageMappingsCollection.get();
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StageMapping));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async saveStageMapping(
+    pipelineId: string,
+    data: Pick<StageMapping, 'stages'> & Partial<Pick<StageMapping, 'pipelineName' | 'updatedBy'>>
+  ): Promise<StageMapping> {
+    const mappingRef = FirebaseService.stageMappingsCollection.doc(pipelineId);
+    const existing = await mappingRef.get();
+    const now = Timestamp.now();
+    const mapping: StageMapping = {
+      id: pipelineId,
+      pipelineId,
+      pipelineName: data.pipelineName || existing.data()?.pipelineName || '',
+      stages: data.stages,
+      updatedBy: data.updatedBy || '',
+      createdAt: existing.exists ? existing.data()!.createdAt : now,
+      updatedAt: now,
+    };
+    await mappingRef.set(mapping);
+    return mapping;
+  }
+
+  // Inbound webhook event methods
+  /**
+   * Persist an inbound webhook. Uses create() so two deliveries of the same event cannot both be stored;
+   * returns the existing event with duplicate=true when the event was already received.
+   */
+  static async createWebhookEvent(
+    eventData: Pick<WebhookEvent, 'provider' | 'eventId' | 'eventType' | 'payload' | 'maxAttempts' | 'nextAttemptAt'>
+  ): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const id = `${eventData.provider}_${eventData.eventId}`.replace(/\//g, '_');
+    const eventRef = FirebaseService.webhookEventsCollection.doc(id);
+    const now = Timestamp.now();
+    const newEvent: WebhookEvent = {
+      id,
+      ...eventData,
+      status: 'pending',
+      attempts: 0,
+      receivedAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await eventRef.create(newEvent);
+      return { event: newEvent, duplicate: false };
+    } catch (error: any) {
+      // gRPC code 6 = ALREADY_EXISTS
+      if (error?.code === 6) {
+        const existing = await eventRef.get();
+        return { event: { id: existing.id, ...existing.data() } as WebhookEvent, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  static async getWebhookEvent(id: string): Promise<WebhookEvent | null> {
+    const eventDoc = await FirebaseService.webhookEventsCollection.doc(id).get();
+    return eventDoc.exists ? ({ id: eventDoc.id, ...eventDoc.data() } as WebhookEvent) : null;
+  }
+
+  static async updateWebhookEvent(id: string, updates: Partial<WebhookEvent>): Promise<void> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.webhookEventsCollection.doc(id).update({
+      ...cleanUpdates,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Atomically move an event into 'processing' so two workers never run the same event. The claim
+   * holds for leaseMs; a 'processing' event can only be claimed again once its claim has expired.
+   */
+  static async claimWebhookEvent(id: string, allowedStatuses: WebhookEventStatus[], leaseMs: number): Promise<WebhookEvent | null> {
+    return FirebaseService.claimQueueItem<WebhookEvent>(FirebaseService.webhookEventsCollection.doc(id), allowedStatuses, 'processing', leaseMs);
+  }
+
+  static async getWebhookEvents(filters: { provider?: WebhookProvider; status?: WebhookEventStatus; limit?: number } = {}): Promise<WebhookEvent[]> {
+    let query: FirebaseFirestore.Query = FirebaseService.webhookEventsCollection;
+    if (filters.provider) query = query.where('provider', '==', filters.provider);
+    if (filters.status) query = query.where('status', '==', filters.status);
+    const snapshot = await query.orderBy('receivedAt', 'desc').limit(filters.limit || 100).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WebhookEvent));
+  }
+
+  /**
+   * Failed events whose backoff has elapsed, and pending or processing ones whose claim expired
+   */
+  static async getDueWebhookEvents(limit = 20): Promise<WebhookEvent[]> {
+    return FirebaseService.getDueQueueItems<WebhookEvent>(FirebaseService.webhookEventsCollection, ['failed', 'pending', 'processing'], limit);
+  }
+
+  // Deal reconciliation methods (webhooks that could not be matched to exactly one deal)
+  /**
+   * Open or refresh the reconciliation entry for an opportunity. Repeated webhooks for the same
+   * opportunity update a single open entry instead of piling up duplicates.
+   */
+  static async upsertDealReconciliation(
+    key: string,
+    data: Omit<DealReconciliation, 'id' | 'status' | 'occurrences' | 'createdAt' | 'updatedAt'>
+  ): Promise<DealReconciliation> {
+    const reconciliationRef = FirebaseService.dealReconciliationsCollection.doc(key);
+    const existing = await reconciliationRef.get();
+    const existingData = existing.exists ? existing.data() as DealReconciliation : null;
+    const isOpen = existingData?.status === 'open';
+    const now = Timestamp.now();
+    const cleanData = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+
+    const reconciliation = {
+      ...cleanData,
+      id: key,
+      status: 'open',
+      occurrences: isOpen ? (existingData!.occurrences || 1) + 1 : 1,
+      createdAt: isOpen ? existingData!.createdAt : now,
+      updatedAt: now,
+    } as DealReconciliation;
+    await reconciliationRef.set(reconciliation);
+    return reconciliation;
+  }
+
+  static async getDealReconciliation(id: string): Promise<DealReconciliation | null> {
+    const reconciliationDoc = await FirebaseService.dealReconciliationsCollection.doc(id).get();
+    return reconciliationDoc.exists ? ({ id: reconciliationDoc.id, ...reconciliationDoc.data() } as DealReconciliation) : null;
+  }
+
+  static async getDealReconciliations(status: DealReconciliation['status'] = 'open', limit = 100): Promise<DealReconciliation[]> {
+    const snapshot = await FirebaseService.dealReconciliationsCollection
+      .where('status', '==', status)
+      .orderBy('updatedAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DealReconciliation));
+  }
+
+  static async updateDealReconciliation(id: string, updates: Partial<DealReconciliation>): Promise<void> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.dealReconciliationsCollection.doc(id).update({
+      ...cleanUpdates,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
   // OneDrive token methods
   static async saveOneDriveToken(tokenData: {
     accessToken: string;
@@ -548,6 +1363,8 @@ export class FirebaseService {
     try {
       await db.collection('onedrive_tokens').add({
       ...tokenData,
+        accessToken: SecretService.encrypt(tokenData.accessToken),
+        refreshToken: SecretService.encrypt(tokenData.refreshToken),
         createdAt: Timestamp.now()
       });
     } catch (error) {
@@ -566,8 +1383,12 @@ export class FirebaseService {
         return null;
       }
       
-      const tokenDoc = snapshot.docs[0];
-      return tokenDoc.data() as any;
+      const token = snapshot.docs[0].data() as OneDriveToken;
+      return {
+        ...token,
+        accessToken: SecretService.decrypt(token.accessToken),
+        refreshToken: SecretService.decrypt(token.refreshToken),
+      };
     } catch (error) {
             return null;
     }
@@ -652,32 +1473,164 @@ export class FirebaseService {
     }
   }
 
-  // Appointment methods
-  static async createAppointment(data: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Appointment> {
-    const newAppointmentRef = FirebaseService.appointmentsCollection.doc();
-    const now = Timestamp.now();
-    
-    // Filter out undefined values to prevent Firestore errors
-    const cleanData: any = {};
-    Object.keys(data).forEach(key => {
-      if (data[key as keyof typeof data] !== undefined) {
-        cleanData[key] = data[key as keyof typeof data];
-      }
-    });
-    
-    const newAppointment: Appointment = {
-      id: newAppointmentRef.id,
-      ...cleanData,
-      createdAt: now,
-      updatedAt: now,
-    };
-    await newAppointmentRef.set(newAppointment);
-    return newAppointment;
+  static async getDealFolderTemplate(): Promise<DealFolderTemplate | null> {
+    const doc = await db.collection('config').doc('dealFolderTemplate').get();
+    return doc.exists ? doc.data() as DealFolderTemplate : null;
   }
 
-  static async getAppointmentById(id: string): Promise<Appointment | null> {
-    const appointmentDoc = await FirebaseService.appointmentsCollection.doc(id).get();
-    return appointmentDoc.exists ? (appointmentDoc.data() as Appointment) : null;
+  static async saveDealFolderTemplate(template: Omit<DealFolderTemplate, 'updatedAt'>): Promise<DealFolderTemplate> {
+    const saved: DealFolderTemplate = { ...template, updatedAt: Timestamp.now() };
+    await db.collection('config').doc('dealFolderTemplate').set(
+      Object.fromEntries(Object.entries(saved).filter(([, value]) => value !== undefined))
+    );
+    return saved;
+  }
+
+  static async getEmailTemplates(): Promise<EmailTemplate[]> {
+    const snapshot = await FirebaseService.emailTemplatesCollection.get();
+    return snapshot.docs.map(doc => doc.data() as EmailTemplate);
+  }
+
+  static async getEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate | null> {
+    const templateDoc = await FirebaseService.emailTemplatesCollection.doc(key).get();
+    return templateDoc.exists ? templateDoc.data() as EmailTemplate : null;
+  }
+
+  /**
+   * Make the content the template's live version and keep a copy in its version history
+   */
+  static async saveEmailTemplate(key: EmailTemplateKey, content: EmailTemplateContent, updatedBy: string, note?: string): Promise<EmailTemplate> {
+    const templateRef = FirebaseService.emailTemplatesCollection.doc(key);
+    return db.runTransaction(async (transaction) => {
+      const templateDoc = await transaction.get(templateRef);
+      const version = ((templateDoc.data() as EmailTemplate | undefined)?.version || 0) + 1;
+      const now = Timestamp.now();
+      const template: EmailTemplate = { key, ...content, version, updatedBy, updatedAt: now };
+      const versionId = `${key}_v${version}`;
+      const versionEntry: EmailTemplateVersion = { id: versionId, key, ...content, version, createdBy: updatedBy, createdAt: now };
+      if (note) versionEntry.note = note;
+
+      transaction.set(templateRef, template);
+      transaction.set(FirebaseService.emailTemplateVersionsCollection.doc(versionId), versionEntry);
+      return template;
+    });
+  }
+
+  static async getEmailTemplateVersions(key: EmailTemplateKey, limit = 50): Promise<EmailTemplateVersion[]> {
+    const snapshot = await FirebaseService.emailTemplateVersionsCollection
+      .where('key', '==', key)
+      .orderBy('version', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as EmailTemplateVersion);
+  }
+
+  static async getEmailTemplateVersion(key: EmailTemplateKey, version: number): Promise<EmailTemplateVersion | null> {
+    const versionDoc = await FirebaseService.emailTemplateVersionsCollection.doc(`${key}_v${version}`).get();
+    return versionDoc.exists ? versionDoc.data() as EmailTemplateVersion : null;
+  }
+
+  // Outbound email queue methods
+  static async createEmailMessage(
+    data: Omit<EmailMessage, 'id' | 'status' | 'attempts' | 'createdAt' | 'updatedAt'>
+  ): Promise<EmailMessage> {
+    const messageRef = FirebaseService.emailMessagesCollection.doc();
+    const now = Timestamp.now();
+    const cleanData = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+    const message = {
+      ...cleanData,
+      id: messageRef.id,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    } as EmailMessage;
+    await messageRef.set(message);
+    return message;
+  }
+
+  static async getEmailMessage(id: string): Promise<EmailMessage | null> {
+    const messageDoc = await FirebaseService.emailMessagesCollection.doc(id).get();
+    return messageDoc.exists ? ({ id: messageDoc.id, ...messageDoc.data() } as EmailMessage) : null;
+  }
+
+  /**
+   * Update a queued email. `purgeBody` deletes the stored content, for messages carrying codes.
+   */
+  static async updateEmailMessage(id: string, updates: Partial<EmailMessage>, options: { purgeBody?: boolean } = {}): Promise<void> {
+    const cleanUpdates: Record<string, any> = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    if (options.purgeBody) {
+      cleanUpdates.html = FieldValue.delete();
+      cleanUpdates.text = FieldValue.delete();
+      cleanUpdates.attachments = FieldValue.delete();
+    }
+    await FirebaseService.emailMessagesCollection.doc(id).update({
+      ...cleanUpdates,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  /**
+   * Atomically move a message into 'sending' so two workers never deliver the same email. A
+   * message already 'sending' is only taken over once its claim expired.
+   */
+  static async claimEmailMessage(id: string, allowedStatuses: EmailMessageStatus[], leaseMs: number): Promise<EmailMessage | null> {
+    return FirebaseService.claimQueueItem<EmailMessage>(FirebaseService.emailMessagesCollection.doc(id), allowedStatuses, 'sending', leaseMs);
+  }
+
+  static async getEmailMessages(filters: { status?: EmailMessageStatus; recipient?: string; limit?: number } = {}): Promise<EmailMessage[]> {
+    let query: FirebaseFirestore.Query = FirebaseService.emailMessagesCollection;
+    if (filters.recipient) query = query.where('to', 'array-contains', filters.recipient.trim());
+    if (filters.status) query = query.where('status', '==', filters.status);
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(filters.limit || 100).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as EmailMessage));
+  }
+
+  /**
+   * Failed messages whose backoff has elapsed, and pending or sending ones whose claim expired
+   */
+  static async getDueEmailMessages(limit = 20): Promise<EmailMessage[]> {
+    return FirebaseService.getDueQueueItems<EmailMessage>(FirebaseService.emailMessagesCollection, ['failed', 'pending', 'sending'], limit);
+  }
+
+  static async getEmailMessagesByProviderId(providerMessageIds: string[]): Promise<EmailMessage[]> {
+    const snapshot = await FirebaseService.emailMessagesCollection
+      .where('providerMessageId', 'in', providerMessageIds)
+      .limit(10)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as EmailMessage));
+  }
+
+  // Appointment methods
+  static async createAppointment(data: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Appointment> {
+    const newAppointmentRef = FirebaseService.appointmentsCollection.doc();
+    const now = Timestamp.now();
+    
+    // Filter out undefined values to prevent Firestore errors
+    const cleanData: any = {};
+    Object.keys(data).forEach(key => {
+      if (data[key as keyof typeof data] !== undefined) {
+        cleanData[key] = data[key as keyof typeof data];
+      }
+    });
+    
+    const newAppointment: Appointment = {
+      id: newAppointmentRef.id,
+      ...cleanData,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await newAppointmentRef.set(newAppointment);
+    return newAppointment;
+  }
+
+  static async getAppointmentById(id: string): Promise<Appointment | null> {
+    const appointmentDoc = await FirebaseService.appointmentsCollection.doc(id).get();
+    return appointmentDoc.exists ? (appointmentDoc.data() as Appointment) : null;
   }
 
   static async updateAppointment(id: string, data: Partial<Omit<Appointment, 'id' | 'createdAt'>>): Promise<Appointment | null> {
@@ -896,13 +1849,13 @@ export class FirebaseService {
       createdAt: now,
       updatedAt: now,
     };
-    await newSubAccountRef.set(newSubAccount);
+    await newSubAccountRef.set(this.encryptSubAccountSecrets(newSubAccount));
     return newSubAccount;
   }
 
   static async getSubAccountById(id: string): Promise<SubAccount | null> {
     const subAccountDoc = await FirebaseService.subAccountsCollection.doc(id).get();
-    return subAccountDoc.exists ? (subAccountDoc.data() as SubAccount) : null;
+    return subAccountDoc.exists ? this.decryptSubAccountSecrets(subAccountDoc.data() as SubAccount) : null;
   }
 
   static async updateSubAccount(id: string, data: Partial<Omit<SubAccount, 'id' | 'createdAt'>>): Promise<SubAccount | null> {
@@ -917,7 +1870,7 @@ export class FirebaseService {
       }
     });
     
-    await subAccountRef.update(updateData);
+    await subAccountRef.update(this.encryptSubAccountSecrets(updateData));
     return this.getSubAccountById(id);
   }
 
@@ -930,7 +1883,7 @@ export class FirebaseService {
       const snapshot = await FirebaseService.subAccountsCollection
         .orderBy('createdAt', 'desc')
         .get();
-      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SubAccount));
+      return snapshot.docs.map(doc => this.decryptSubAccountSecrets({ id: doc.id, ...doc.data() } as SubAccount));
     } catch (error) {
             return [];
     }
@@ -942,7 +1895,7 @@ export class FirebaseService {
         .where('isActive', '==', true)
         .orderBy('createdAt', 'desc')
         .get();
-      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SubAccount));
+      return snapshot.docs.map(doc => this.decryptSubAccountSecrets({ id: doc.id, ...doc.data() } as SubAccount));
     } catch (error) {
             return [];
     }
@@ -957,12 +1910,128 @@ export class FirebaseService {
       if (snapshot.empty) {
         return null;
       }
-      return snapshot.docs[0].data() as SubAccount;
+      return this.decryptSubAccountSecrets(snapshot.docs[0].data() as SubAccount);
     } catch (error) {
             return null;
     }
   }
 
+  private static encryptSubAccountSecrets<T extends Partial<SubAccount>>(data: T): T {
+    const encrypted = { ...data };
+    SUB_ACCOUNT_SECRET_FIELDS.forEach(field => {
+      if (encrypted[field]) encrypted[field] = SecretService.encrypt(encrypted[field]!) as T[typeof field];
+    });
+    return encrypted;
+  }
+
+  private static decryptSubAccountSecrets(subAccount: SubAccount): SubAccount {
+    const decrypted = { ...subAccount };
+    SUB_ACCOUNT_SECRET_FIELDS.forEach(field => {
+      if (decrypted[field]) decrypted[field] = SecretService.decrypt(decrypted[field]!);
+    });
+    return decrypted;
+  }
+
+  // Secret encryption methods
+  static async getSecretEncryptionStatus(): Promise<SecretEncryptionStatus> {
+    const secrets = await this.listStoredSecrets();
+    const status: SecretEncryptionStatus = {
+      activeKeyId: SecretService.activeKeyId(),
+      total: secrets.length,
+      plaintext: 0,
+      byKeyId: {},
+      needsRotation: 0,
+    };
+    secrets.forEach(({ value }) => {
+      const keyId = SecretService.keyIdOf(value);
+      if (keyId) {
+        status.byKeyId[keyId] = (status.byKeyId[keyId] || 0) + 1;
+      } else {
+        status.plaintext++;
+      }
+      if (SecretService.needsRotation(value)) status.needsRotation++;
+    });
+    return status;
+  }
+
+  /**
+   * Rewrap every stored secret with the active master key, encrypting any legacy plaintext
+   */
+  static async rotateSecrets(): Promise<SecretRotationResult> {
+    const secrets = await this.listStoredSecrets();
+    const result: SecretRotationResult = {
+      activeKeyId: SecretService.activeKeyId(),
+      rotated: 0,
+      bySource: { configurations: 0, subAccounts: 0, onedrive_tokens: 0, users: 0 },
+    };
+
+    for (const secret of secrets) {
+      if (!SecretService.needsRotation(secret.value)) continue;
+      await secret.ref.update({ [secret.field]: SecretService.rotate(secret.value) });
+      result.rotated++;
+      result.bySource[secret.source]++;
+    }
+    return result;
+  }
+
+  /**
+   * Claim a stored queue item (webhook event, outgoing email) for one attempt. Refuses items in
+   * another status, and items already claimed whose lease hasn't run out yet.
+   */
+  private static async claimQueueItem<T extends { id: string; status: string; nextAttemptAt?: Timestamp }>(
+    itemRef: FirebaseFirestore.DocumentReference,
+    allowedStatuses: T['status'][],
+    claimedStatus: T['status'],
+    leaseMs: number
+  ): Promise<T | null> {
+    return db.runTransaction(async (transaction) => {
+      const itemDoc = await transaction.get(itemRef);
+      if (!itemDoc.exists) return null;
+      const item = { id: itemDoc.id, ...itemDoc.data() } as T;
+      if (!allowedStatuses.includes(item.status)) return null;
+      const now = Timestamp.now();
+      if (item.status === claimedStatus && item.nextAttemptAt && item.nextAttemptAt.toMillis() > now.toMillis()) {
+        return null;
+      }
+      const claim = { status: claimedStatus, claimedAt: now, nextAttemptAt: Timestamp.fromMillis(now.toMillis() + leaseMs) };
+      transaction.update(itemRef, { ...claim, updatedAt: now });
+      return { ...item, ...claim };
+    });
+  }
+
+  private static async getDueQueueItems<T>(collection: FirebaseFirestore.CollectionReference, statuses: string[], limit: number): Promise<T[]> {
+    const snapshot = await collection
+      .where('status', 'in', statuses)
+      .where('nextAttemptAt', '<=', Timestamp.now())
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as T));
+  }
+
+  private static async listStoredSecrets(): Promise<StoredSecret[]> {
+    const secrets: StoredSecret[] = [];
+    const collect = (source: SecretSource, doc: admin.firestore.DocumentSnapshot, fields: readonly string[]) => {
+      fields.forEach(field => {
+        const value = doc.get(field);
+        if (typeof value === 'string' && value) secrets.push({ source, ref: doc.ref, field, value });
+      });
+    };
+
+    const [configDocs, subAccounts, oneDriveTokens, twoFactorUsers] = await Promise.all([
+      // Includes the old config collection, which getConfiguration still falls back to
+      db.getAll(...SECRET_CONFIGURATION_KEYS.flatMap(key => [db.collection('configurations').doc(key), db.collection('config').doc(key)])),
+      FirebaseService.subAccountsCollection.get(),
+      db.collection('onedrive_tokens').get(),
+      FirebaseService.usersCollection.where('twoFactorEnabled', '==', true).get(),
+    ]);
+    configDocs.filter(doc => doc.exists).forEach(doc => collect('configurations', doc, ['value']));
+    subAccounts.docs.forEach(doc => collect('subAccounts', doc, SUB_ACCOUNT_SECRET_FIELDS));
+    oneDriveTokens.docs.forEach(doc => collect('onedrive_tokens', doc, ONEDRIVE_SECRET_FIELDS));
+    twoFactorUsers.docs.forEach(doc => collect('users', doc, USER_SECRET_FIELDS));
+    return secrets;
+  }
+
   // Subscription methods
   static async createSubscription(subscriptionData: Omit<Subscription, 'id' | 'createdAt' | 'updatedAt'>): Promise<Subscription> {
     const newSubRef = FirebaseService.subscriptionsCollection.doc();
@@ -988,6 +2057,11 @@ export class FirebaseService {
     return subDoc.exists ? ({ id: subDoc.id, ...subDoc.data() } as Subscription) : null;
   }
 
+  static async getAllSubscriptions(): Promise<Subscription[]> {
+    const snapshot = await FirebaseService.subscriptionsCollection.get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Subscription));
+  }
+
   static async getSubscriptionByUserId(userId: string): Promise<Subscription | null> {
     try {
       const snapshot = await FirebaseService.subscriptionsCollection
@@ -1028,6 +2102,25 @@ export class FirebaseService {
     return this.getSubscriptionById(id);
   }
 
+  /**
+   * Forget dunning emails and access revocation once a subscription is paid up again
+   */
+  static async clearSubscriptionLapse(id: string): Promise<void> {
+    await FirebaseService.subscriptionsCollection.doc(id).update({
+      dunningEmailsSentDays: FieldValue.delete(),
+      accessRevokedAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  // The member paid again (or was given access), so the onboarding bypass applies to them again
+  static async clearUserAccessLapse(userId: string): Promise<void> {
+    await FirebaseService.usersCollection.doc(userId).update({
+      accessLapsedAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
   static async deleteSubscription(id: string): Promise<void> {
     const subscription = await this.getSubscriptionById(id);
     if (subscription) {
@@ -1040,8 +2133,13 @@ export class FirebaseService {
   }
 
   // Document methods
-  static async createDocument(documentData: Omit<Document, 'id' | 'uploadedAt' | 'deleted'>): Promise<Document> {
-    const newDocumentRef = FirebaseService.documentsCollection.doc();
+  // Id for a document whose file is stored before the document is created
+  static newDocumentId(): string {
+    return FirebaseService.documentsCollection.doc().id;
+  }
+
+  static async createDocument(documentData: Omit<Document, 'id' | 'uploadedAt' | 'deleted'>, id?: string): Promise<Document> {
+    const newDocumentRef = id ? FirebaseService.documentsCollection.doc(id) : FirebaseService.documentsCollection.doc();
     const now = Timestamp.now();
     const newDocument: Document = {
       id: newDocumentRef.id,
@@ -1049,7 +2147,8 @@ export class FirebaseService {
       deleted: false,
       uploadedAt: now,
     };
-    await newDocumentRef.set(newDocument);
+    // Only OneDrive files have web and download URLs
+    await newDocumentRef.set(Object.fromEntries(Object.entries(newDocument).filter(([, value]) => value !== undefined)));
     return newDocument;
   }
 
@@ -1075,6 +2174,390 @@ export class FirebaseService {
     }
   }
 
+  static async getDocumentsByDeal(dealId: string): Promise<Document[]> {
+    const snapshot = await FirebaseService.documentsCollection
+      .where('dealId', '==', dealId)
+      .where('deleted', '==', false)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Document));
+  }
+
+  // Document share link methods
+  static async createDocumentShareLink(linkData: Omit<DocumentShareLink, 'id' | 'createdAt' | 'accessCount'>): Promise<DocumentShareLink> {
+    const linkRef = FirebaseService.documentShareLinksCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(linkData).filter(([, value]) => value !== undefined)
+    );
+    const link = { ...cleanData, id: linkRef.id, accessCount: 0, createdAt: Timestamp.now() } as DocumentShareLink;
+    await linkRef.set(link);
+    return link;
+  }
+
+  static async getDocumentShareLinkById(id: string): Promise<DocumentShareLink | null> {
+    const linkDoc = await FirebaseService.documentShareLinksCollection.doc(id).get();
+    return linkDoc.exists ? ({ id: linkDoc.id, ...linkDoc.data() } as DocumentShareLink) : null;
+  }
+
+  static async getDocumentShareLinkByTokenHash(tokenHash: string): Promise<DocumentShareLink | null> {
+    const snapshot = await FirebaseService.documentShareLinksCollection.where('tokenHash', '==', tokenHash).limit(1).get();
+    return snapshot.empty ? null : ({ id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as DocumentShareLink);
+  }
+
+  static async getDocumentShareLinksByDeal(dealId: string): Promise<DocumentShareLink[]> {
+    const snapshot = await FirebaseService.documentShareLinksCollection
+      .where('dealId', '==', dealId)
+      .orderBy('createdAt', 'desc')
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DocumentShareLink));
+  }
+
+  static async revokeDocumentShareLink(id: string, revokedBy: string): Promise<void> {
+    await FirebaseService.documentShareLinksCollection.doc(id).update({ revokedAt: Timestamp.now(), revokedBy });
+  }
+
+  static async recordDocumentShareAccess(accessData: Omit<DocumentShareAccess, 'id' | 'createdAt'>): Promise<DocumentShareAccess> {
+    const accessRef = FirebaseService.documentShareAccessCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(accessData).filter(([, value]) => value !== undefined)
+    );
+    const access = { ...cleanData, id: accessRef.id, createdAt: Timestamp.now() } as DocumentShareAccess;
+    await accessRef.set(access);
+    await FirebaseService.documentShareLinksCollection.doc(accessData.shareLinkId).update({
+      accessCount: FieldValue.increment(1),
+      lastAccessedAt: access.createdAt,
+    });
+    return access;
+  }
+
+  static async getDocumentShareAccessLog(shareLinkId: string, limit = 200): Promise<DocumentShareAccess[]> {
+    const snapshot = await FirebaseService.documentShareAccessCollection
+      .where('shareLinkId', '==', shareLinkId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DocumentShareAccess));
+  }
+
+  // Document version methods
+  private static documentVersionRef(documentId: string, version: number) {
+    return FirebaseService.documentVersionsCollection.doc(`${documentId}_v${version}`);
+  }
+
+  // The version record for a document that predates versioning, built from the document itself
+  private static initialDocumentVersion(document: Document): DocumentVersion {
+    return {
+      id: `${document.id}_v1`,
+      documentId: document.id,
+      dealId: document.dealId,
+      version: 1,
+      filename: document.filename,
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      fileSize: document.fileSize,
+      storageDriver: document.storageDriver,
+      oneDriveId: document.oneDriveId,
+      oneDriveUrl: document.oneDriveUrl,
+      downloadUrl: document.downloadUrl,
+      uploadedBy: document.uploadedBy,
+      uploadedByUserId: document.userId,
+      uploadedAt: document.uploadedAt,
+    };
+  }
+
+  /**
+   * Every version of a document, newest first. Documents that were never replaced have no
+   * records yet and get their only version from the document.
+   */
+  static async getDocumentVersions(document: Document): Promise<DocumentVersion[]> {
+    const snapshot = await FirebaseService.documentVersionsCollection
+      .where('documentId', '==', document.id)
+      .orderBy('version', 'desc')
+      .get();
+    const versions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DocumentVersion));
+    return versions.length > 0 ? versions : [this.initialDocumentVersion(document)];
+  }
+
+  static async getDocumentVersion(document: Document, version: number): Promise<DocumentVersion | null> {
+    const versionDoc = await this.documentVersionRef(document.id, version).get();
+    if (versionDoc.exists) {
+      return { id: versionDoc.id, ...versionDoc.data() } as DocumentVersion;
+    }
+    return version === 1 && !document.version ? this.initialDocumentVersion(document) : null;
+  }
+
+  /**
+   * Make a file the document's next version. Resolves to null, without writing, when the
+   * document is gone or its current version is no longer expectedVersion (someone else got
+   * there first).
+   */
+  static async addDocumentVersion(
+    documentId: string,
+    expectedVersion: number,
+    file: DocumentVersionFile,
+    uploader: { name: string; userId?: string },
+    restoredFrom?: number
+  ): Promise<{ document: Document; version: DocumentVersion } | null> {
+    const documentRef = FirebaseService.documentsCollection.doc(documentId);
+    return db.runTransaction(async (transaction) => {
+      const documentDoc = await transaction.get(documentRef);
+      if (!documentDoc.exists) return null;
+      const document = { id: documentDoc.id, ...documentDoc.data() } as Document;
+      const current = document.version || 1;
+      if (document.deleted || current !== expectedVersion) return null;
+
+      // First replacement: keep the original file as version 1
+      if (!document.version) {
+        const initial = this.initialDocumentVersion(document);
+        transaction.create(this.documentVersionRef(documentId, 1),
+          Object.fromEntries(Object.entries(initial).filter(([, value]) => value !== undefined)));
+      }
+
+      const now = Timestamp.now();
+      const version: DocumentVersion = {
+        ...file,
+        id: `${documentId}_v${current + 1}`,
+        documentId,
+        dealId: document.dealId,
+        version: current + 1,
+        uploadedBy: uploader.name,
+        uploadedByUserId: uploader.userId,
+        uploadedAt: now,
+        restoredFrom,
+      };
+      transaction.create(this.documentVersionRef(documentId, version.version),
+        Object.fromEntries(Object.entries(version).filter(([, value]) => value !== undefined)));
+
+      // Fields the new file doesn't have (web URLs off OneDrive) are cleared, not left pointing at the old one
+      const documentUpdates = {
+        filename: file.filename,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        fileSize: file.fileSize,
+        storageDriver: file.storageDriver ?? FieldValue.delete(),
+        oneDriveId: file.oneDriveId,
+        oneDriveUrl: file.oneDriveUrl ?? FieldValue.delete(),
+        downloadUrl: file.downloadUrl ?? FieldValue.delete(),
+        version: version.version,
+        updatedAt: now,
+      };
+      transaction.update(documentRef, documentUpdates);
+      return {
+        document: { ...document, ...file, version: version.version, updatedAt: now },
+        version,
+      };
+    });
+  }
+
+  static async getDocumentVersionsByDeal(dealId: string): Promise<DocumentVersion[]> {
+    const snapshot = await FirebaseService.documentVersionsCollection.where('dealId', '==', dealId).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DocumentVersion));
+  }
+
+  static async updateDocumentVersionStorageId(id: string, fileId: string): Promise<void> {
+    await FirebaseService.documentVersionsCollection.doc(id).update({ oneDriveId: fileId });
+  }
+
+  // Point a document at its file's new id after the driver moved it
+  static async updateDocumentStorageId(id: string, fileId: string): Promise<void> {
+    await FirebaseService.documentsCollection.doc(id).update({ oneDriveId: fileId });
+  }
+
+  static async updateDocumentChecklistItem(id: string, checklistItemId: string | null): Promise<void> {
+    await FirebaseService.documentsCollection.doc(id).update({
+      checklistItemId: checklistItemId || admin.firestore.FieldValue.delete(),
+    });
+  }
+
+  // Document checklist methods
+  static async getDocumentChecklists(): Promise<DocumentChecklist[]> {
+    const snapshot = await FirebaseService.documentChecklistsCollection.orderBy('name').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DocumentChecklist));
+  }
+
+  static async getDocumentChecklistById(id: string): Promise<DocumentChecklist | null> {
+    const checklistDoc = await FirebaseService.documentChecklistsCollection.doc(id).get();
+    return checklistDoc.exists ? ({ id: checklistDoc.id, ...checklistDoc.data() } as DocumentChecklist) : null;
+  }
+
+  static async createDocumentChecklist(checklistData: Omit<DocumentChecklist, 'id' | 'createdAt' | 'updatedAt'>): Promise<DocumentChecklist> {
+    const newChecklistRef = FirebaseService.documentChecklistsCollection.doc();
+    const now = Timestamp.now();
+    const newChecklist: DocumentChecklist = {
+      id: newChecklistRef.id,
+      ...checklistData,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await newChecklistRef.set(newChecklist);
+    return newChecklist;
+  }
+
+  static async updateDocumentChecklist(
+    id: string,
+    updates: Partial<Omit<DocumentChecklist, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<DocumentChecklist | null> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.documentChecklistsCollection.doc(id).update({
+      ...cleanUpdates,
+      updatedAt: Timestamp.now(),
+    });
+    return this.getDocumentChecklistById(id);
+  }
+
+  static async deleteDocumentChecklist(id: string): Promise<void> {
+    await FirebaseService.documentChecklistsCollection.doc(id).delete();
+  }
+
+  // Deal import methods
+  static async createDealImport(data: Omit<DealImport, 'id' | 'createdAt' | 'updatedAt'>): Promise<DealImport> {
+    const importRef = FirebaseService.dealImportsCollection.doc();
+    const now = Timestamp.now();
+    const dealImport = { id: importRef.id, ...data, createdAt: now, updatedAt: now } as DealImport;
+    await importRef.set(dealImport);
+    return dealImport;
+  }
+
+  static async getDealImport(id: string): Promise<DealImport | null> {
+    const doc = await FirebaseService.dealImportsCollection.doc(id).get();
+    return doc.exists ? (doc.data() as DealImport) : null;
+  }
+
+  static async updateDealImport(id: string, updates: Partial<DealImport>): Promise<void> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.dealImportsCollection.doc(id).update({
+      ...cleanUpdates,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  // Session methods (refresh token sessions, see SessionService)
+  static async createUserSession(data: Omit<UserSession, 'id'>): Promise<UserSession> {
+    const sessionRef = FirebaseService.sessionsCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+    const session = { id: sessionRef.id, ...cleanData } as UserSession;
+    await sessionRef.set(session);
+    return session;
+  }
+
+  static async getUserSession(id: string): Promise<UserSession | null> {
+    const doc = await FirebaseService.sessionsCollection.doc(id).get();
+    return doc.exists ? (doc.data() as UserSession) : null;
+  }
+
+  static async updateUserSession(id: string, updates: Partial<UserSession>): Promise<void> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.sessionsCollection.doc(id).update(cleanUpdates);
+  }
+
+  /**
+   * Swap a session's refresh token hash, but only if it still holds the expected one.
+   * Returns false when another request rotated it first.
+   */
+  static async rotateUserSessionToken(id: string, expectedHash: string, updates: Partial<UserSession>): Promise<boolean> {
+    const sessionRef = FirebaseService.sessionsCollection.doc(id);
+    return db.runTransaction(async (transaction) => {
+      const sessionDoc = await transaction.get(sessionRef);
+      if (!sessionDoc.exists || (sessionDoc.data() as UserSession).refreshTokenHash !== expectedHash) {
+        return false;
+      }
+      const cleanUpdates = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      );
+      transaction.update(sessionRef, cleanUpdates);
+      return true;
+    });
+  }
+
+  static async createLoginCode(loginCode: LoginCode): Promise<void> {
+    await FirebaseService.loginCodesCollection.doc(loginCode.id).set(loginCode);
+  }
+
+  /**
+   * Delete a login code and return it, so it can only be redeemed once. Null when there is none.
+   */
+  static async consumeLoginCode(id: string): Promise<LoginCode | null> {
+    const codeRef = FirebaseService.loginCodesCollection.doc(id);
+    return db.runTransaction(async (transaction) => {
+      const codeDoc = await transaction.get(codeRef);
+      if (!codeDoc.exists) return null;
+      transaction.delete(codeRef);
+      return codeDoc.data() as LoginCode;
+    });
+  }
+
+  static async getUserSessions(userId: string): Promise<UserSession[]> {
+    const snapshot = await FirebaseService.sessionsCollection.where('userId', '==', userId).get();
+    return snapshot.docs.map(doc => doc.data() as UserSession);
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (the caller's own)
+   */
+  static async revokeUserSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const sessions = await FirebaseService.getUserSessions(userId);
+    const active = sessions.filter(session => !session.revokedAt && session.id !== exceptSessionId);
+    const now = Timestamp.now();
+    for (let i = 0; i < active.length; i += 400) {
+      const batch = db.batch();
+      active.slice(i, i + 400).forEach(session => {
+        batch.update(FirebaseService.sessionsCollection.doc(session.id), { revokedAt: now, revokedReason: reason });
+      });
+      await batch.commit();
+    }
+    return active.length;
+  }
+
+  // Quarantined documents waiting for a scan, oldest first
+  static async getQuarantinedDocuments(limit = 50): Promise<Document[]> {
+    const snapshot = await FirebaseService.documentsCollection
+      .where('scanStatus', '==', 'pending')
+      .where('deleted', '==', false)
+      .get();
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Document))
+      .sort((a, b) => a.uploadedAt.toMillis() - b.uploadedAt.toMillis())
+      .slice(0, limit);
+  }
+
+  /**
+   * Record a quarantined document's scan. Infected documents are deleted along with the
+   * verdict, so they drop out of every list.
+   */
+  static async updateDocumentScanResult(id: string, result: { infected: boolean; signature?: string }): Promise<void> {
+    const now = Timestamp.now();
+    await FirebaseService.documentsCollection.doc(id).update(result.infected ? {
+      scanStatus: 'infected',
+      scanSignature: result.signature || 'unknown',
+      scannedAt: now,
+      deleted: true,
+      deletedAt: now,
+    } : {
+      scanStatus: 'clean',
+      scannedAt: now,
+    });
+  }
+
+  /**
+   * Record a scan of a quarantined document that the scanner couldn't complete. Once the
+   * document is given up on it leaves quarantine as 'unscannable' and stays hidden.
+   */
+  static async recordDocumentScanFailure(id: string, failure: { attempts: number; error: string; unscannable: boolean }): Promise<void> {
+    await FirebaseService.documentsCollection.doc(id).update({
+      scanAttempts: failure.attempts,
+      scanError: failure.error,
+      scannedAt: Timestamp.now(),
+      ...(failure.unscannable ? { scanStatus: 'unscannable' } : {}),
+    });
+  }
+
   static async softDeleteDocument(id: string): Promise<void> {
     const documentRef = FirebaseService.documentsCollection.doc(id);
     await documentRef.update({
@@ -1084,68 +2567,99 @@ export class FirebaseService {
   }
 
   // Verification Code and OTP Methods
+  // Keyed with a server secret so a leaked hash can't be brute-forced offline
+  static hashAuthCode(code: string): string {
+    const secret = process.env.AUTH_CODE_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('AUTH_CODE_SECRET is not configured');
+    }
+    return crypto.createHmac('sha256', secret).update(code.trim().toUpperCase()).digest('hex');
+  }
+
   static async generateVerificationCode(): Promise<string> {
-    // Generate 8-character alphanumeric code (format: RAIN-XXXX)
+    // 12 random characters in three groups (format: RAIN-XXXX-XXXX-XXXX)
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude confusing chars (0, O, I, 1)
-    let code = 'RAIN-';
-    for (let i = 0; i < 4; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
+    const groups = Array.from({ length: 3 }, () => {
+      let group = '';
+      for (let i = 0; i < 4; i++) {
+        group += chars.charAt(crypto.randomInt(chars.length));
+      }
+      return group;
+    });
+    return `RAIN-${groups.join('-')}`;
   }
 
   static async generateOTPCode(): Promise<string> {
     // Generate 6-digit numeric code
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    return crypto.randomInt(100000, 1000000).toString();
   }
 
+  /**
+   * Store a new OTP for an email. Earlier unused codes for the email are retired so only the
+   * latest one can be guessed at.
+   */
   static async saveOTPCode(email: string, code: string): Promise<string> {
+    const outstanding = await FirebaseService.otpCodesCollection
+      .where('email', '==', email)
+      .where('used', '==', false)
+      .get();
+
+    const batch = db.batch();
+    outstanding.docs.forEach(doc => batch.update(doc.ref, { used: true }));
+
+    const docRef = FirebaseService.otpCodesCollection.doc();
     const otpData: Omit<OTPCode, 'id'> = {
       email,
-      code,
+      codeHash: this.hashAuthCode(code),
       expiresAt: this.timestampFromDate(new Date(Date.now() + 10 * 60 * 1000)), // 10 minutes
       used: false,
+      attempts: 0,
       createdAt: this.timestampNow(),
     };
-    
-    const docRef = await FirebaseService.otpCodesCollection.add(otpData);
+    batch.set(docRef, otpData);
+    await batch.commit();
     return docRef.id;
   }
 
-  static async verifyOTPCode(email: string, code: string): Promise<boolean> {
-    try {
-      const snapshot = await FirebaseService.otpCodesCollection
-        .where('email', '==', email)
-        .where('code', '==', code)
-        .where('used', '==', false)
-        .orderBy('createdAt', 'desc')
-        .limit(1)
-        .get();
-      
-      if (snapshot.empty) {
-        return false;
-      }
-      
+  /**
+   * Check a code against the email's latest OTP. A wrong guess counts against that code, and the
+   * code locks once maxAttempts is reached.
+   */
+  static async verifyOTPCode(email: string, code: string, maxAttempts: number): Promise<OTPVerificationResult> {
+    const query = FirebaseService.otpCodesCollection
+      .where('email', '==', email)
+      .where('used', '==', false)
+      .orderBy('createdAt', 'desc')
+      .limit(1);
+
+    return db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(query);
+      if (snapshot.empty) return 'not_found';
+
       const otpDoc = snapshot.docs[0];
       const otpData = otpDoc.data() as OTPCode;
-      
-      // Check expiration
-      if (otpData.expiresAt.toMillis() < Date.now()) {
-        return false;
+
+      if (otpData.lockedAt) return 'locked';
+      if (otpData.expiresAt.toMillis() < Date.now()) return 'expired';
+
+      const presented = Buffer.from(this.hashAuthCode(code));
+      const expected = Buffer.from(otpData.codeHash || '');
+      if (presented.length === expected.length && crypto.timingSafeEqual(presented, expected)) {
+        transaction.update(otpDoc.ref, { used: true });
+        return 'valid';
       }
-      
-      // Mark as used
-      await otpDoc.ref.update({ used: true });
-      return true;
-    } catch (error) {
-            return false;
-    }
+
+      const attempts = (otpData.attempts || 0) + 1;
+      const locked = attempts >= maxAttempts;
+      transaction.update(otpDoc.ref, locked ? { attempts, lockedAt: Timestamp.now() } : { attempts });
+      return locked ? 'locked' : 'invalid';
+    });
   }
 
   static async getUserByVerificationCode(code: string): Promise<User | null> {
     try {
       const snapshot = await FirebaseService.usersCollection
-        .where('verificationCode', '==', code)
+        .where('verificationCodeHash', '==', this.hashAuthCode(code))
         .limit(1)
         .get();
       
@@ -1167,6 +2681,256 @@ export class FirebaseService {
     }
   }
 
+  // One-time use: remove the code once it has linked an account
+  static async clearVerificationCode(userId: string): Promise<void> {
+    await FirebaseService.usersCollection.doc(userId).update({
+      verificationCode: FieldValue.delete(),
+      verificationCodeHash: FieldValue.delete(),
+      verificationCodeExpiresAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  static async clearTwoFactorPendingSecret(userId: string): Promise<void> {
+    await FirebaseService.usersCollection.doc(userId).update({ twoFactorPendingSecret: FieldValue.delete() });
+  }
+
+  static async clearTwoFactor(userId: string): Promise<void> {
+    await FirebaseService.usersCollection.doc(userId).update({
+      twoFactorEnabled: false,
+      twoFactorSecret: FieldValue.delete(),
+      twoFactorPendingSecret: FieldValue.delete(),
+      twoFactorBackupCodeHashes: FieldValue.delete(),
+      twoFactorLastUsedStep: FieldValue.delete(),
+      twoFactorEnabledAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  // Auth attempt counters (per-identity lockout)
+  private static authAttemptRef(scope: AuthAttemptScope, identifier: string) {
+    const key = crypto.createHash('sha256').update(identifier.toLowerCase()).digest('hex');
+    return FirebaseService.authAttemptsCollection.doc(`${scope}_${key}`);
+  }
+
+  static async getAuthAttemptCounter(scope: AuthAttemptScope, identifier: string): Promise<AuthAttemptCounter | null> {
+    const counterDoc = await this.authAttemptRef(scope, identifier).get();
+    return counterDoc.exists ? ({ id: counterDoc.id, ...counterDoc.data() } as AuthAttemptCounter) : null;
+  }
+
+  /**
+   * Count a failed attempt inside a rolling window and lock the identity once maxFailures is hit
+   */
+  static async recordAuthFailure(
+    scope: AuthAttemptScope,
+    identifier: string,
+    policy: { maxFailures: number; windowMs: number; lockMs: number }
+  ): Promise<AuthAttemptCounter> {
+    const counterRef = this.authAttemptRef(scope, identifier);
+    return db.runTransaction(async (transaction) => {
+      const counterDoc = await transaction.get(counterRef);
+      const existing = counterDoc.exists ? counterDoc.data() as AuthAttemptCounter : null;
+      const now = Timestamp.now();
+      const windowOpen = existing && now.toMillis() - existing.windowStartedAt.toMillis() < policy.windowMs;
+
+      const failures = windowOpen ? existing!.failures + 1 : 1;
+      const counter: AuthAttemptCounter = {
+        id: counterRef.id,
+        scope,
+        identifier,
+        failures,
+        windowStartedAt: windowOpen ? existing!.windowStartedAt : now,
+        updatedAt: now,
+      };
+      if (failures >= policy.maxFailures) {
+        counter.lockedUntil = Timestamp.fromMillis(now.toMillis() + policy.lockMs);
+      }
+      transaction.set(counterRef, counter);
+      return counter;
+    });
+  }
+
+  static async clearAuthFailures(scope: AuthAttemptScope, identifier: string): Promise<void> {
+    await this.authAttemptRef(scope, identifier).delete();
+  }
+
+  // Security event methods
+  static async createSecurityEvent(eventData: Omit<SecurityEvent, 'id' | 'createdAt'>): Promise<SecurityEvent> {
+    const eventRef = FirebaseService.securityEventsCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(eventData).filter(([, value]) => value !== undefined)
+    );
+    const event = { ...cleanData, id: eventRef.id, createdAt: Timestamp.now() } as SecurityEvent;
+    await eventRef.set(event);
+    return event;
+  }
+
+  static async getSecurityEvents(filters: { type?: SecurityEventType; email?: string; limit?: number } = {}): Promise<SecurityEvent[]> {
+    let query: FirebaseFirestore.Query = FirebaseService.securityEventsCollection;
+    if (filters.type) query = query.where('type', '==', filters.type);
+    if (filters.email) query = query.where('email', '==', filters.email);
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(filters.limit || 100).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SecurityEvent));
+  }
+
+  // Discord role sync log methods
+  static async createDiscordRoleSyncLog(entryData: Omit<DiscordRoleSyncLog, 'id' | 'createdAt'>): Promise<DiscordRoleSyncLog> {
+    const entryRef = FirebaseService.discordRoleSyncLogCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(entryData).filter(([, value]) => value !== undefined)
+    );
+    const entry = { ...cleanData, id: entryRef.id, createdAt: Timestamp.now() } as DiscordRoleSyncLog;
+    await entryRef.set(entry);
+    return entry;
+  }
+
+  static async getDiscordRoleSyncLogs(filters: { discordId?: string; limit?: number } = {}): Promise<DiscordRoleSyncLog[]> {
+    let query: FirebaseFirestore.Query = FirebaseService.discordRoleSyncLogCollection;
+    if (filters.discordId) query = query.where('discordId', '==', filters.discordId);
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(filters.limit || 100).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DiscordRoleSyncLog));
+  }
+
+  // Billing email methods
+  /**
+   * Reserve a billing email by its dedupe key. Returns false when it was already sent, or is being
+   * sent right now; a failed or abandoned attempt can be claimed again.
+   */
+  static async claimBillingEmail(id: string, data: Pick<BillingEmailRecord, 'userId' | 'email' | 'type'>): Promise<boolean> {
+    const emailRef = FirebaseService.billingEmailsCollection.doc(id);
+    return db.runTransaction(async (transaction) => {
+      const emailDoc = await transaction.get(emailRef);
+      const existing = emailDoc.data() as BillingEmailRecord | undefined;
+      const abandoned = existing?.status === 'sending' && existing.createdAt.toMillis() < Date.now() - 10 * 60 * 1000;
+      if (existing && existing.status !== 'failed' && !abandoned) return false;
+      transaction.set(emailRef, { ...data, id, status: 'sending', createdAt: Timestamp.now() });
+      return true;
+    });
+  }
+
+  static async completeBillingEmail(id: string, error?: string): Promise<void> {
+    await FirebaseService.billingEmailsCollection.doc(id).update(
+      error ? { status: 'failed', error } : { status: 'sent', sentAt: Timestamp.now() }
+    );
+  }
+
+  // Notification methods
+  /**
+   * Store a notification. With an id the notification is created only once: returns null when
+   * one with that id already exists.
+   */
+  static async createNotification(data: Omit<UserNotification, 'id' | 'read' | 'createdAt'>, id?: string): Promise<UserNotification | null> {
+    const notificationRef = id ? FirebaseService.notificationsCollection.doc(id) : FirebaseService.notificationsCollection.doc();
+    const cleanData = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    );
+    const notification = { ...cleanData, id: notificationRef.id, read: false, createdAt: Timestamp.now() } as UserNotification;
+    try {
+      await notificationRef.create(notification);
+    } catch (error: any) {
+      if (error?.code === 6) return null; // ALREADY_EXISTS
+      throw error;
+    }
+    return notification;
+  }
+
+  static async updateNotification(id: string, updates: Partial<Omit<UserNotification, 'id'>>): Promise<void> {
+    await FirebaseService.notificationsCollection.doc(id).update(updates);
+  }
+
+  static async getInAppNotifications(userId: string, limit = 30): Promise<UserNotification[]> {
+    const snapshot = await FirebaseService.notificationsCollection
+      .where('userId', '==', userId)
+      .where('channels', 'array-contains', 'in_app')
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as UserNotification);
+  }
+
+  static async countUnreadNotifications(userId: string): Promise<number> {
+    const snapshot = await FirebaseService.notificationsCollection
+      .where('userId', '==', userId)
+      .where('channels', 'array-contains', 'in_app')
+      .where('read', '==', false)
+      .count()
+      .get();
+    return snapshot.data().count;
+  }
+
+  /**
+   * Mark one of the user's notifications read. Returns false when it isn't theirs.
+   */
+  static async markNotificationRead(userId: string, id: string): Promise<boolean> {
+    const notificationRef = FirebaseService.notificationsCollection.doc(id);
+    const notificationDoc = await notificationRef.get();
+    if (!notificationDoc.exists || notificationDoc.data()?.userId !== userId) return false;
+    if (!notificationDoc.data()?.read) {
+      await notificationRef.update({ read: true, readAt: Timestamp.now() });
+    }
+    return true;
+  }
+
+  static async markAllNotificationsRead(userId: string): Promise<number> {
+    const snapshot = await FirebaseService.notificationsCollection
+      .where('userId', '==', userId)
+      .where('read', '==', false)
+      .get();
+    const readAt = Timestamp.now();
+    // Batches hold at most 500 writes
+    for (let start = 0; start < snapshot.docs.length; start += 500) {
+      const batch = db.batch();
+      snapshot.docs.slice(start, start + 500).forEach(doc => batch.update(doc.ref, { read: true, readAt }));
+      await batch.commit();
+    }
+    return snapshot.size;
+  }
+
+  // Scheduled job methods
+  static async createJobRun(runData: Omit<JobRun, 'id'>): Promise<JobRun> {
+    const runRef = FirebaseService.jobRunsCollection.doc();
+    const run = { ...runData, id: runRef.id } as JobRun;
+    await runRef.set(run);
+    return run;
+  }
+
+  static async updateJobRun(id: string, updates: Partial<Omit<JobRun, 'id'>>): Promise<void> {
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    await FirebaseService.jobRunsCollection.doc(id).update(cleanUpdates);
+  }
+
+  static async getJobRuns(filters: { job?: ScheduledJobName; limit?: number } = {}): Promise<JobRun[]> {
+    let query: FirebaseFirestore.Query = FirebaseService.jobRunsCollection;
+    if (filters.job) query = query.where('job', '==', filters.job);
+    const snapshot = await query.orderBy('startedAt', 'desc').limit(filters.limit || 50).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as JobRun));
+  }
+
+  /**
+   * Take a job's lease so only one server instance runs it at a time. The lease expires on its
+   * own, so a crashed run doesn't block the job forever.
+   */
+  static async acquireJobLock(job: ScheduledJobName, holder: string, leaseMs: number): Promise<boolean> {
+    const lockRef = FirebaseService.jobLocksCollection.doc(job);
+    return db.runTransaction(async (transaction) => {
+      const lockDoc = await transaction.get(lockRef);
+      const lockedUntil = lockDoc.data()?.lockedUntil as Timestamp | undefined;
+      if (lockedUntil && lockedUntil.toMillis() > Date.now()) return false;
+      transaction.set(lockRef, { holder, lockedUntil: Timestamp.fromMillis(Date.now() + leaseMs) });
+      return true;
+    });
+  }
+
+  static async releaseJobLock(job: ScheduledJobName, holder: string): Promise<void> {
+    const lockRef = FirebaseService.jobLocksCollection.doc(job);
+    await db.runTransaction(async (transaction) => {
+      const lockDoc = await transaction.get(lockRef);
+      if (lockDoc.data()?.holder === holder) transaction.delete(lockRef);
+    });
+  }
+
   // Timestamp utility methods
   static timestampNow(): Timestamp {
     return Timestamp.now();
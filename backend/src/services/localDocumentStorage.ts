@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DocumentStorage,
+  DownloadedFile,
+  StoredFile,
+  normalizeFolderPath,
+  sanitizeStorageName,
+} from './documentStorage';
+
+/**
+ * Keeps deal documents on the server's disk under the storage root. File ids are paths relative
+ * to the root. Meant for development and tests; files don't survive a redeploy on hosts with
+ * ephemeral disks.
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    await fs.mkdir(this.resolve(normalizeFolderPath(folderPath)), { recursive: true });
+  }
+
+  async uploadFile(folderPath: string, filename: string, content: Buffer, mimeType: string): Promise<StoredFile> {
+    const folder = normalizeFolderPath(folderPath);
+    await this.createFolder(folder);
+    const fileId = [folder, sanitizeStorageName(filename)].filter(Boolean).join('/');
+    await fs.writeFile(this.resolve(fileId), content);
+    return (await this.describe(fileId, folder))!;
+  }
+
+  async listFiles(folderPath: string): Promise<StoredFile[]> {
+    const folder = normalizeFolderPath(folderPath);
+    const files: StoredFile[] = [];
+    for (const fileId of await this.walk(folder)) {
+      const file = await this.describe(fileId, folder);
+      if (file) files.push(file);
+    }
+    return files;
+  }
+
+  async moveFolder(fromPath: string, toPath: string): Promise<Record<string, string>> {
+    const from = normalizeFolderPath(fromPath);
+    const to = normalizeFolderPath(toPath);
+    const moved: Record<string, string> = {};
+    if (!from || !to || from === to) return moved;
+
+    // Move file by file so a destination that already exists is merged into, not replaced
+    for (const fileId of await this.walk(from)) {
+      const newId = `${to}/${fileId.slice(from.length + 1)}`;
+      await fs.mkdir(path.dirname(this.resolve(newId)), { recursive: true });
+      await fs.rename(this.resolve(fileId), this.resolve(newId));
+      moved[fileId] = newId;
+    }
+    await this.removeEmptyFolders(from);
+    return moved;
+  }
+
+  async downloadFile(fileId: string): Promise<DownloadedFile> {
+    try {
+      return { content: await fs.readFile(this.resolve(fileId)) };
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.code === 'ENOENT' ? 'File not found' : error.message}`);
+    }
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(fileId));
+    } catch (error: any) {
+      throw new Error(`Failed to delete file: ${error.code === 'ENOENT' ? 'File not found' : error.message}`);
+    }
+  }
+
+  // Ids of every file under a folder; a folder that doesn't exist has none
+  private async walk(folder: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.resolve(folder), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const fileIds: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryId = folder ? `${folder}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        fileIds.push(...await this.walk(entryId));
+      } else if (entry.isFile()) {
+        fileIds.push(entryId);
+      }
+    }
+    return fileIds;
+  }
+
+  private async removeEmptyFolders(folder: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.resolve(folder), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) await this.removeEmptyFolders(`${folder}/${entry.name}`);
+    }
+    if ((await fs.readdir(this.resolve(folder))).length === 0) {
+      await fs.rmdir(this.resolve(folder));
+    }
+  }
+
+  private async describe(fileId: string, listedFolder: string): Promise<StoredFile | null> {
+    const stats = await fs.stat(this.resolve(fileId));
+    if (!stats.isFile()) return null;
+    const parent = path.posix.dirname(fileId);
+    const relativeFolder = listedFolder ? parent.slice(listedFolder.length + 1) : parent.replace(/^\.$/, '');
+    return {
+      id: fileId,
+      name: path.posix.basename(fileId),
+      size: stats.size,
+      createdDateTime: stats.birthtime.toISOString(),
+      lastModifiedDateTime: stats.mtime.toISOString(),
+      folder: relativeFolder || undefined,
+    };
+  }
+
+  // Absolute path for a file id, refusing ids that point outside the storage root
+  private resolve(fileId: string): string {
+    const resolved = path.resolve(this.root, fileId);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid file id');
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,68 @@
+import { ClamAvScanner } from './clamAvScanner';
+
+export type MalwareScannerDriver = 'none' | 'clamav';
+
+export const MALWARE_SCANNER_DRIVERS: MalwareScannerDriver[] = ['none', 'clamav'];
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of what was found, e.g. "Win.Test.EICAR_HDB-1"
+}
+
+/**
+ * The scanner couldn't be reached or didn't answer. Says nothing about the file, so the scan is
+ * worth retrying later; any other scan error means the scanner looked at the file and couldn't
+ * check it (e.g. over its size limit).
+ */
+export class ScannerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScannerUnavailableError';
+  }
+}
+
+/**
+ * Checks uploaded files for malware before they are stored or passed on. The driver is picked
+ * with MALWARE_SCANNER; 'none' turns scanning off.
+ */
+export interface MalwareScanner {
+  readonly driver: MalwareScannerDriver;
+  // Rejects with ScannerUnavailableError when the scanner can't be reached, or an Error when it can't scan the file
+  scan(content: Buffer): Promise<ScanResult>;
+}
+
+let instance: MalwareScanner | null | undefined;
+
+export function getConfiguredScannerDriver(): MalwareScannerDriver {
+  const configured = (process.env.MALWARE_SCANNER || 'none').trim().toLowerCase();
+  if (!MALWARE_SCANNER_DRIVERS.includes(configured as MalwareScannerDriver)) {
+    throw new Error(`Unknown MALWARE_SCANNER "${configured}"; use one of ${MALWARE_SCANNER_DRIVERS.join(', ')}`);
+  }
+  return configured as MalwareScannerDriver;
+}
+
+// Doesn't validate the setting, so it is safe to call from timers
+export function isMalwareScanningEnabled(): boolean {
+  return (process.env.MALWARE_SCANNER || 'none').trim().toLowerCase() !== 'none';
+}
+
+/**
+ * The configured scanner, or null when scanning is turned off
+ */
+export function getMalwareScanner(): MalwareScanner | null {
+  if (instance === undefined) {
+    switch (getConfiguredScannerDriver()) {
+      case 'clamav':
+        instance = new ClamAvScanner({
+          socketPath: process.env.CLAMAV_SOCKET,
+          host: process.env.CLAMAV_HOST || '127.0.0.1',
+          port: Number(process.env.CLAMAV_PORT || 3310),
+          timeoutMs: Number(process.env.CLAMAV_TIMEOUT_MS || 60000),
+        });
+        break;
+      default:
+        instance = null;
+    }
+  }
+  return instance;
+}
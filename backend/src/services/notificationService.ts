@@ -0,0 +1,165 @@
+import {
+  FirebaseService,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  User,
+  UserNotification,
+} from './firebaseService';
+import { EmailService } from './emailService';
+import { DiscordApiClient } from './discordApiClient';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'in_app', 'discord'];
+
+export const NOTIFICATION_TYPES: Record<NotificationType, {
+  label: string;
+  description: string;
+  channels: NotificationChannel[]; // Channels the user can choose from
+  defaults: Partial<Record<NotificationChannel, boolean>>;
+}> = {
+  deal_stage_changed: {
+    label: 'Deal stage changes',
+    description: 'One of your deals moves to a new stage',
+    channels: ['email', 'in_app', 'discord'],
+    defaults: { email: true, in_app: true, discord: false },
+  },
+  document_requested: {
+    label: 'Document requests',
+    description: 'The team asks for documents on one of your deals',
+    channels: ['email', 'in_app', 'discord'],
+    defaults: { email: true, in_app: true, discord: false },
+  },
+  appointment_assigned: {
+    label: 'Appointment assignments',
+    description: 'An appointment is assigned to you',
+    channels: ['email', 'in_app', 'discord'],
+    defaults: { email: true, in_app: true, discord: false },
+  },
+  subscription_issue: {
+    // The billing emails already cover email, and the critical ones can't be turned off
+    label: 'Subscription issues',
+    description: 'A payment fails or your membership is ending',
+    channels: ['in_app', 'discord'],
+    defaults: { in_app: true, discord: true },
+  },
+};
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+  link?: string; // Portal path, e.g. /appointments
+}
+
+/**
+ * Tells users about things that happened to their deals, appointments and membership, on the
+ * channels they picked per event type: email, the in-app inbox and a Discord DM from the bot.
+ */
+export class NotificationService {
+  static isNotificationType(type: any): type is NotificationType {
+    return typeof type === 'string' && type in NOTIFICATION_TYPES;
+  }
+
+  static isChannel(channel: any): channel is NotificationChannel {
+    return NOTIFICATION_CHANNELS.includes(channel);
+  }
+
+  /**
+   * The user's channel choices for every type, with defaults filled in
+   */
+  static resolvePreferences(user: Pick<User, 'notificationPreferences'>): Record<NotificationType, Partial<Record<NotificationChannel, boolean>>> {
+    const resolved = {} as Record<NotificationType, Partial<Record<NotificationChannel, boolean>>>;
+    for (const type of Object.keys(NOTIFICATION_TYPES) as NotificationType[]) {
+      const { channels, defaults } = NOTIFICATION_TYPES[type];
+      resolved[type] = {};
+      for (const channel of channels) {
+        resolved[type][channel] = user.notificationPreferences?.[type]?.[channel] ?? defaults[channel] ?? false;
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Keep only choices for channels the type offers, so stored preferences stay clean
+   */
+  static sanitizePreferences(preferences: Record<string, any>): NotificationPreferences {
+    const sanitized: NotificationPreferences = {};
+    for (const [type, channels] of Object.entries(preferences || {})) {
+      if (!this.isNotificationType(type) || !channels || typeof channels !== 'object') continue;
+      for (const [channel, enabled] of Object.entries(channels)) {
+        if (NOTIFICATION_TYPES[type].channels.includes(channel as NotificationChannel) && typeof enabled === 'boolean') {
+          sanitized[type] = { ...sanitized[type], [channel]: enabled };
+        }
+      }
+    }
+    return sanitized;
+  }
+
+  /**
+   * Send a notification on the user's chosen channels. A dedupe key makes repeated calls for the
+   * same event (webhook retries, sweep runs) send it once. Never throws: a notification must not
+   * break the action that caused it.
+   */
+  static async notify(
+    userId: string,
+    type: NotificationType,
+    content: NotificationContent,
+    options: { dedupeKey?: string } = {}
+  ): Promise<UserNotification | null> {
+    try {
+      const user = await FirebaseService.getUserById(userId);
+      if (!user) return null;
+
+      const preferences = this.resolvePreferences(user)[type];
+      const channels = NOTIFICATION_CHANNELS.filter(channel => {
+        if (!preferences[channel]) return false;
+        if (channel === 'email') return !!user.email;
+        if (channel === 'discord') return !!user.discordId && DiscordApiClient.isConfigured();
+        return true;
+      });
+      if (channels.length === 0) return null;
+
+      const notification = await FirebaseService.createNotification({
+        userId,
+        type,
+        title: content.title,
+        body: content.body,
+        link: content.link,
+        channels,
+      }, options.dedupeKey);
+      if (!notification) return null;
+
+      const failedChannels: NotificationChannel[] = [];
+      const portalUrl = process.env.FRONTEND_URL || 'https://www.rain.club';
+      const actionUrl = content.link ? `${portalUrl}${content.link}` : undefined;
+
+      if (channels.includes('email')) {
+        try {
+          await EmailService.sendNotificationEmail(user.email!, {
+            user: { username: user.username, email: user.email! },
+            title: content.title,
+            body: content.body,
+            actionUrl,
+          }, { userId });
+        } catch (error) {
+          failedChannels.push('email');
+        }
+      }
+
+      if (channels.includes('discord')) {
+        try {
+          const message = [`**${content.title}**`, content.body, actionUrl].filter(Boolean).join('\n');
+          await DiscordApiClient.sendDirectMessage(user.discordId!, message);
+        } catch (error) {
+          failedChannels.push('discord');
+        }
+      }
+
+      if (failedChannels.length > 0) {
+        await FirebaseService.updateNotification(notification.id, { failedChannels });
+      }
+      return { ...notification, failedChannels: failedChannels.length ? failedChannels : undefined };
+    } catch (error) {
+      return null;
+    }
+  }
+}
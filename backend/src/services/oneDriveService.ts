@@ -10,6 +10,7 @@ export interface OneDriveFile {
   lastModifiedDateTime: string;
   webUrl: string;
   downloadUrl?: string;
+  folder?: string; // Subfolder the file is in, relative to the listed folder
 }
 
 export class OneDriveService {
@@ -20,18 +21,34 @@ export class OneDriveService {
     return component.trim().replace(/[<>:"|?*\x00-\x1c\x7f]/g, '');
   }
 
-  // Helper method to get the deal folder name
-  private static async getDealFolderName(dealId: string): Promise<string> {
+  // SharePoint site and folder that hold the deal folders; the defaults are the Hardwell Capital site
+  private static getSitePath(): string {
+    return process.env.ONEDRIVE_SITE_PATH || 'hardwellcapital.sharepoint.com:/sites/HardwellCapital';
+  }
+
+  private static getBaseFolderPath(): string {
+    return (process.env.ONEDRIVE_FOLDER_PATH || 'Hardwell Capital/Hardwell Capital Origination/Prospects/Pre-Approved Property')
+      .replace(/^\/+|\/+$/g, '');
+  }
+
+  // Drive of the SharePoint site, falling back to the signed-in user's OneDrive when the site can't be read
+  private static async getDriveBaseUrl(accessToken: string): Promise<string> {
     try {
-      // Try to get the deal from Firebase to get property address
-      const deal = await FirebaseService.getDealById(dealId);
-      if (deal && deal.propertyAddress) {
-        return deal.propertyAddress;
+      const siteResponse = await axios.get(
+        `${this.GRAPH_BASE_URL}/sites/${this.getSitePath()}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        }
+      );
+
+      if (siteResponse.data && siteResponse.data.id) {
+        return `${this.GRAPH_BASE_URL}/sites/${siteResponse.data.id}/drive`;
       }
-      return dealId;
-    } catch (error) {
-      return dealId;
+    } catch (siteError: any) {
     }
+    return `${this.GRAPH_BASE_URL}/me/drive`;
   }
 
   static async getAccessToken(): Promise<string> {
@@ -86,171 +103,61 @@ export class OneDriveService {
     }
   }
 
-  static async createDealFolder(dealId: string, propertyAddress?: string): Promise<string> {
+  // Full drive path of a folder given relative to the base folder
+  private static getDrivePath(folderPath: string): string {
+    return [this.getBaseFolderPath(), ...folderPath.split('/').map(segment => this.sanitizePathComponent(segment))]
+      .filter(Boolean)
+      .join('/');
+  }
+
+  // Drive item at a path, or null when nothing is there
+  private static async getItem(baseUrl: string, accessToken: string, drivePath: string): Promise<any | null> {
     try {
-      const accessToken = await this.getAccessToken();
-      
-      // Use the SharePoint shared folder path structure
-      const folderPath = 'Hardwell Capital/Hardwell Capital Origination/Prospects/Pre-Approved Property';
-      
-      // For SharePoint shared folders, we need to find the correct SharePoint site first
-      
-      // Use the specific SharePoint site we know exists
-      let sharePointSiteId = null;
-      try {
-        
-        // Use the specific site hostname and site name from the URL
-        const siteResponse = await axios.get(
-          `${this.GRAPH_BASE_URL}/sites/hardwellcapital.sharepoint.com:/sites/HardwellCapital`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-        
-        if (siteResponse.data && siteResponse.data.id) {
-          sharePointSiteId = siteResponse.data.id;
-        }
-      } catch (siteError: any) {
-      }
-      
-      // If we found a SharePoint site, use it; otherwise fall back to OneDrive
-      const baseUrl = sharePointSiteId 
-        ? `${this.GRAPH_BASE_URL}/sites/${sharePointSiteId}/drive`
-        : `${this.GRAPH_BASE_URL}/me/drive`;
-      
-      try {
-        await axios.get(
-          `${baseUrl}/root:/${encodeURIComponent(folderPath)}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-      } catch (parentError: any) {
-        if (parentError.response?.status === 404) {
-          
-          // Create the parent folder structure
-          const folderNames = folderPath.split('/');
-          let currentPath = '';
-          
-          for (let i = 0; i < folderNames.length; i++) {
-            const folderName = folderNames[i];
-            currentPath += (currentPath ? '/' : '') + folderName;
-            
-            try {
-              // Check if this specific folder exists
-              await axios.get(
-                `${baseUrl}/root:/${encodeURIComponent(currentPath)}`,
-                {
-            headers: {
-                    'Authorization': `Bearer ${accessToken}`
-                  }
-                }
-              );
-            } catch (folderError: any) {
-              // If folder doesn't exist, create it
-              if (folderError.response?.status === 404) {
-                
-                const parentPath = i === 0 ? 'root' : folderNames.slice(0, i).join('/');
-                const createUrl = i === 0 
-                  ? `${baseUrl}/root/children`
-                  : `${baseUrl}/root:/${encodeURIComponent(parentPath)}:/children`;
-                
-                try {
-                  await axios.post(
-                    createUrl,
-                    {
-                      name: folderName,
-                      folder: {},
-                      '@microsoft.graph.conflictBehavior': 'rename'
-                    },
-                    {
-                      headers: {
-                        'Authorization': `Bearer ${accessToken}`,
-                        'Content-Type': 'application/json'
-                      }
-                    }
-                  );
-                } catch (createError: any) {
-                  // If we get a 409 conflict, the folder already exists, so continue
-                  if (createError.response?.status === 409) {
-                    continue;
-                  } else {
-                    throw createError;
-                  }
-                }
-        } else {
-                throw folderError;
-              }
-            }
-          }
-        } else {
-          throw parentError;
-        }
-      }
-      
-      // Use property address as folder name, fallback to dealId if not provided
-      const folderName = this.sanitizePathComponent(propertyAddress || dealId);
-      
-      const dealFolderPath = `${folderPath}/${folderName}`;
-      
-      // First, check if the exact deal folder already exists
-      try {
-        const existingFolderResponse = await axios.get(
-          `${baseUrl}/root:/${encodeURIComponent(dealFolderPath)}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
+      const response = await axios.get(
+        `${baseUrl}/root:/${encodeURIComponent(drivePath)}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
           }
-        );
-        
-        if (existingFolderResponse.data && existingFolderResponse.data.id) {
-          return existingFolderResponse.data.id;
-        }
-      } catch (exactCheckError: any) {
-        if (exactCheckError.response?.status === 404) {
-        } else {
         }
+      );
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
       }
-      
-      // Now search for existing deal folders (fallback method)
-      try {
-        const searchResponse = await axios.get(
-          `${baseUrl}/root:/${encodeURIComponent(folderPath)}:/children`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-        
-        if (searchResponse.data.value && searchResponse.data.value.length > 0) {
-          // Look for folders that match the property address or dealId
-          const matchingFolder = searchResponse.data.value.find((folder: any) => 
-            (propertyAddress && folder.name === propertyAddress) || 
-            (!propertyAddress && folder.name === dealId) ||
-            folder.name.includes(dealId)
-          );
-          
-          if (matchingFolder) {
-            return matchingFolder.id;
-          }
-        }
-      } catch (searchError: any) {
+      throw error;
+    }
+  }
+
+  // Create every missing folder along a drive path and return the id of the last one
+  private static async ensureDriveFolder(baseUrl: string, accessToken: string, drivePath: string): Promise<string> {
+    const existing = await this.getItem(baseUrl, accessToken, drivePath);
+    if (existing) {
+      return existing.id;
+    }
+
+    const folderNames = drivePath.split('/');
+    let parentId: string | null = null;
+
+    for (let i = 0; i < folderNames.length; i++) {
+      const currentPath = folderNames.slice(0, i + 1).join('/');
+      const folder = await this.getItem(baseUrl, accessToken, currentPath);
+      if (folder) {
+        parentId = folder.id;
+        continue;
       }
 
-      // If no existing folder found, try to create it
+      const createUrl: string = parentId
+        ? `${baseUrl}/items/${parentId}/children`
+        : `${baseUrl}/root/children`;
       try {
-      const response = await axios.post(
-          `${baseUrl}/root:/${encodeURIComponent(folderPath)}:/children`,
+        const response = await axios.post(
+          createUrl,
           {
-            name: folderName,
+            name: folderNames[i],
             folder: {},
-            '@microsoft.graph.conflictBehavior': 'rename' // This will rename if conflict
+            '@microsoft.graph.conflictBehavior': 'fail'
           },
           {
             headers: {
@@ -259,40 +166,61 @@ export class OneDriveService {
             }
           }
         );
-
-                return response.data.id;
+        parentId = response.data.id;
       } catch (createError: any) {
-        // If we get a 409 conflict, try to find the renamed folder
+        // Another request created it in the meantime
         if (createError.response?.status === 409) {
-              try {
-                const searchResponse = await axios.get(
-                  `${baseUrl}/root:/${encodeURIComponent(folderPath)}:/children`,
-              {
-                headers: {
-                  'Authorization': `Bearer ${accessToken}`
-                }
-              }
-            );
-            
-            if (searchResponse.data.value && searchResponse.data.value.length > 0) {
-              // Find the folder that contains the dealId (might be renamed)
-              const matchingFolder = searchResponse.data.value.find((folder: any) => 
-                folder.name.includes(dealId) && folder.folder
-              );
-              
-              if (matchingFolder) {
-                                return matchingFolder.id;
-              }
-            }
-            
-            // If still not found, create with timestamp
-                        const uniqueFolderName = `${folderName} - ${Date.now()}`;
-                const uniqueResponse = await axios.post(
-                  `${baseUrl}/root:/${encodeURIComponent(folderPath)}:/children`,
-              {
-                name: uniqueFolderName,
-          folder: {},
-          '@microsoft.graph.conflictBehavior': 'rename'
+          const created = await this.getItem(baseUrl, accessToken, currentPath);
+          if (created) {
+            parentId = created.id;
+            continue;
+          }
+        }
+        throw createError;
+      }
+    }
+
+    return parentId!;
+  }
+
+  /**
+   * Create a folder, and any missing parents, under the base folder. Returns the folder's item id.
+   */
+  static async createFolder(folderPath: string): Promise<string> {
+    try {
+      const accessToken = await this.getAccessToken();
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
+      return await this.ensureDriveFolder(baseUrl, accessToken, this.getDrivePath(folderPath));
+    } catch (error) {
+      throw new Error('Failed to create folder');
+    }
+  }
+
+  /**
+   * Move a folder to a new path under the base folder, renaming it if the last segment changed.
+   * Item ids don't change when OneDrive moves files.
+   */
+  static async moveFolder(fromPath: string, toPath: string): Promise<void> {
+    const accessToken = await this.getAccessToken();
+    const baseUrl = await this.getDriveBaseUrl(accessToken);
+    const source = await this.getItem(baseUrl, accessToken, this.getDrivePath(fromPath));
+    if (!source) {
+      return; // Nothing has been filed yet
+    }
+
+    const destination = this.getDrivePath(toPath);
+    if (await this.getItem(baseUrl, accessToken, destination)) {
+      throw new Error(`A folder already exists at ${toPath}`);
+    }
+
+    const segments = destination.split('/');
+    const parentId = await this.ensureDriveFolder(baseUrl, accessToken, segments.slice(0, -1).join('/'));
+    try {
+      await axios.patch(
+        `${baseUrl}/items/${source.id}`,
+        {
+          name: segments[segments.length - 1],
+          parentReference: { id: parentId }
         },
         {
           headers: {
@@ -301,16 +229,8 @@ export class OneDriveService {
           }
         }
       );
-                        return uniqueResponse.data.id;
-          } catch (finalError: any) {
-                        throw finalError;
-          }
-        } else {
-          throw createError;
-        }
-      }
-    } catch (error) {
-            throw new Error('Failed to create deal folder');
+    } catch (error: any) {
+      throw new Error(`Failed to move folder: ${error.response?.data?.error?.message || error.message}`);
     }
   }
 
@@ -342,17 +262,12 @@ export class OneDriveService {
     return mimeTypeMap[mimeType] || 'application/octet-stream';
   }
 
-  static async uploadFile(dealId: string, filename: string, fileBuffer: Buffer, mimeType: string): Promise<OneDriveFile> {
+  static async uploadFile(folderPath: string, filename: string, fileBuffer: Buffer, mimeType: string): Promise<OneDriveFile> {
     try {
       const accessToken = await this.getAccessToken();
       
-      // Get the dynamic folder name based on property address and sanitize it
-      const dealFolderName = this.sanitizePathComponent(await this.getDealFolderName(dealId));
       const sanitizedFilename = this.sanitizePathComponent(filename);
-      
-      // Use the SharePoint shared folder structure
-      const folderPath = 'Hardwell Capital/Hardwell Capital Origination/Prospects/Pre-Approved Property';
-      const filePath = `${folderPath}/${dealFolderName}/${sanitizedFilename}`;
+      const filePath = `${this.getDrivePath(folderPath)}/${sanitizedFilename}`;
       
                         // Get optimal MIME type for Graph API
       const optimalMimeType = this.getOptimalMimeType(mimeType);
@@ -363,30 +278,8 @@ export class OneDriveService {
                 return await this.uploadLargeFile(accessToken, filePath, fileBuffer, optimalMimeType, sanitizedFilename);
       }
       
-      // Note: Deal folder should already exist from deal creation or document check
-      // If it doesn't exist, the upload will fail with 404, which is handled by the caller
-      
-      // Find the SharePoint site for the upload
-      let sharePointSiteId = null;
-      try {
-                const siteResponse = await axios.get(
-          `${this.GRAPH_BASE_URL}/sites/hardwellcapital.sharepoint.com:/sites/HardwellCapital`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-        
-        if (siteResponse.data && siteResponse.data.id) {
-          sharePointSiteId = siteResponse.data.id;
-                  }
-      } catch (siteError: any) {
-              }
-      
-      const baseUrl = sharePointSiteId 
-        ? `${this.GRAPH_BASE_URL}/sites/${sharePointSiteId}/drive`
-        : `${this.GRAPH_BASE_URL}/me/drive`;
+      // Graph creates any missing folders along the path
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
       
       // Add conflict behavior parameter to handle file overwrites properly
       const uploadUrl = `${baseUrl}/root:/${encodeURIComponent(filePath)}:/content?@microsoft.graph.conflictBehavior=replace`;
@@ -421,27 +314,7 @@ export class OneDriveService {
   // Upload large files (>4MB) using upload sessions
   private static async uploadLargeFile(accessToken: string, filePath: string, fileBuffer: Buffer, mimeType: string, filename: string): Promise<OneDriveFile> {
     try {
-      // Find the SharePoint site for the upload
-      let sharePointSiteId = null;
-      try {
-        const siteResponse = await axios.get(
-          `${this.GRAPH_BASE_URL}/sites/hardwellcapital.sharepoint.com:/sites/HardwellCapital`,
-          {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`
-            }
-          }
-        );
-        
-        if (siteResponse.data && siteResponse.data.id) {
-          sharePointSiteId = siteResponse.data.id;
-        }
-      } catch (siteError: any) {
-              }
-      
-      const baseUrl = sharePointSiteId 
-        ? `${this.GRAPH_BASE_URL}/sites/${sharePointSiteId}/drive`
-        : `${this.GRAPH_BASE_URL}/me/drive`;
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
       
       // Step 1: Create upload session
       const createSessionUrl = `${baseUrl}/root:/${encodeURIComponent(filePath)}:/createUploadSession`;
@@ -504,67 +377,52 @@ export class OneDriveService {
     }
   }
 
-  static async getDealFiles(dealId: string): Promise<OneDriveFile[]> {
+  /**
+   * Files in a folder under the base folder and in its subfolders. A folder that doesn't exist
+   * yet has no files.
+   */
+  static async listFiles(folderPath: string): Promise<OneDriveFile[]> {
     try {
       const accessToken = await this.getAccessToken();
-      
-      // Get the dynamic folder name based on property address and sanitize it
-      const dealFolderName = this.sanitizePathComponent(await this.getDealFolderName(dealId));
-      
-      // Use the SharePoint shared folder structure
-      const folderPath = 'Hardwell Capital/Hardwell Capital Origination/Prospects/Pre-Approved Property';
-      const dealFolderPath = `${folderPath}/${dealFolderName}`;
-      
-            // Find the SharePoint site for the file retrieval
-      let sharePointSiteId = null;
-      try {
-                const siteResponse = await axios.get(
-          `${this.GRAPH_BASE_URL}/sites/hardwellcapital.sharepoint.com:/sites/HardwellCapital`,
-          {
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
+      const root = await this.getItem(baseUrl, accessToken, this.getDrivePath(folderPath));
+      if (!root) {
+        return [];
+      }
+
+      const files: OneDriveFile[] = [];
+      const pending: Array<{ id: string; folder: string }> = [{ id: root.id, folder: '' }];
+      while (pending.length > 0) {
+        const current = pending.shift()!;
+        let url: string | undefined = `${baseUrl}/items/${current.id}/children`;
+        while (url) {
+          const response: any = await axios.get(url, {
             headers: {
               'Authorization': `Bearer ${accessToken}`
             }
+          });
+
+          for (const item of response.data.value) {
+            if (item.folder) {
+              pending.push({ id: item.id, folder: current.folder ? `${current.folder}/${item.name}` : item.name });
+              continue;
+            }
+            files.push({
+              id: item.id,
+              name: item.name,
+              size: item.size,
+              createdDateTime: item.createdDateTime,
+              lastModifiedDateTime: item.lastModifiedDateTime,
+              webUrl: item.webUrl,
+              downloadUrl: item['@microsoft.graph.downloadUrl'],
+              folder: current.folder || undefined,
+            });
           }
-        );
-        
-        if (siteResponse.data && siteResponse.data.id) {
-          sharePointSiteId = siteResponse.data.id;
-                  }
-      } catch (siteError: any) {
-              }
-      
-      const baseUrl = sharePointSiteId 
-        ? `${this.GRAPH_BASE_URL}/sites/${sharePointSiteId}/drive`
-        : `${this.GRAPH_BASE_URL}/me/drive`;
-      
-      const response = await axios.get(
-        `${baseUrl}/root:/${encodeURIComponent(dealFolderPath)}:/children`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`
-          }
+          url = response.data['@odata.nextLink'];
         }
-      );
+      }
 
-            return response.data.value.map((file: any) => ({
-        id: file.id,
-        name: file.name,
-        originalName: file.name,
-        filename: file.name,
-        size: file.size,
-        fileSize: file.size,
-        mimeType: file.file?.mimeType || 'application/octet-stream',
-        tags: [],
-        oneDriveId: file.id,
-        oneDriveUrl: file.webUrl,
-        downloadUrl: file['@microsoft.graph.downloadUrl'],
-        createdDateTime: file.createdDateTime,
-        lastModifiedDateTime: file.lastModifiedDateTime,
-        createdAt: file.createdDateTime,
-        updatedAt: file.lastModifiedDateTime,
-        userId: '', // Will be set by the route handler
-        dealId: dealId
-      }));
+      return files;
     } catch (error) {
             throw new Error('Failed to fetch files');
     }
@@ -574,8 +432,10 @@ export class OneDriveService {
     try {
             const accessToken = await this.getAccessToken();
       
+      // Files live in the SharePoint site's drive, not the signed-in user's
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
       const response = await axios.delete(
-        `${this.GRAPH_BASE_URL}/me/drive/items/${fileId}`,
+        `${baseUrl}/items/${encodeURIComponent(fileId)}`,
         {
           headers: {
             'Authorization': `Bearer ${accessToken}`
@@ -587,4 +447,26 @@ export class OneDriveService {
                   throw new Error(`Failed to delete file: ${error.response?.data?.error?.message || error.message}`);
     }
   }
+
+  static async downloadFile(fileId: string): Promise<{ content: Buffer; mimeType?: string }> {
+    try {
+      const accessToken = await this.getAccessToken();
+      const baseUrl = await this.getDriveBaseUrl(accessToken);
+
+      // Graph redirects to a pre-authenticated download URL, which axios follows
+      const response = await axios.get(`${baseUrl}/items/${encodeURIComponent(fileId)}/content`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        },
+        responseType: 'arraybuffer'
+      });
+
+      return {
+        content: Buffer.from(response.data),
+        mimeType: response.headers['content-type'],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.response?.status === 404 ? 'File not found' : error.message}`);
+    }
+  }
 }
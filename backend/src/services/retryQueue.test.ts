@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RetryQueue } from './retryQueue';
+
+const policy = {
+  maxAttempts: 6,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  claimLeaseMs: 10 * 60 * 1000,
+};
+
+describe('RetryQueue', () => {
+  it('doubles the delay after each failed attempt up to the cap', () => {
+    const queue = new RetryQueue({ ...policy, maxDelayMs: 10 * 60 * 1000 }, async () => undefined);
+
+    assert.deepEqual(
+      [1, 2, 3, 4, 5].map(attempts => queue.getRetryDelay(attempts)),
+      [60 * 1000, 2 * 60 * 1000, 4 * 60 * 1000, 8 * 60 * 1000, 10 * 60 * 1000]
+    );
+  });
+
+  it('schedules the next retry and the claim expiry from now', () => {
+    const queue = new RetryQueue(policy, async () => undefined);
+    const before = Date.now();
+
+    const retryAt = queue.nextRetryAt(3).toMillis();
+    const claimExpiry = queue.claimExpiry().toMillis();
+
+    assert.ok(retryAt >= before + 4 * 60 * 1000 && retryAt <= Date.now() + 4 * 60 * 1000);
+    assert.ok(claimExpiry >= before + policy.claimLeaseMs && claimExpiry <= Date.now() + policy.claimLeaseMs);
+  });
+
+  it('is exhausted once the attempts reach the item or policy limit', () => {
+    const queue = new RetryQueue(policy, async () => undefined);
+
+    assert.equal(queue.isExhausted(5), false);
+    assert.equal(queue.isExhausted(6), true);
+    // A replayed item carries a larger budget of its own
+    assert.equal(queue.isExhausted(6, 12), false);
+    assert.equal(queue.isExhausted(12, 12), true);
+  });
+
+  it('processes due items at most once per interval when nudged', async () => {
+    let runs = 0;
+    const queue = new RetryQueue(policy, async () => {
+      runs++;
+    });
+
+    queue.nudge();
+    queue.nudge();
+    await new Promise(resolve => setImmediate(resolve));
+    queue.nudge();
+
+    assert.equal(runs, 1);
+    queue.nudge(0);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(runs, 2);
+  });
+
+  it('does not start a run while the previous one is still going', async () => {
+    let runs = 0;
+    let finish: () => void = () => undefined;
+    const queue = new RetryQueue(policy, () => {
+      runs++;
+      return new Promise<void>(resolve => {
+        finish = resolve;
+      });
+    });
+
+    queue.nudge(0);
+    queue.nudge(0);
+    assert.equal(runs, 1);
+
+    finish();
+    await new Promise(resolve => setImmediate(resolve));
+    queue.nudge(0);
+    assert.equal(runs, 2);
+    finish();
+  });
+
+  it('keeps going after a run fails', async () => {
+    let runs = 0;
+    const queue = new RetryQueue(policy, async () => {
+      runs++;
+      throw new Error('Firestore unavailable');
+    });
+
+    queue.nudge(0);
+    await new Promise(resolve => setImmediate(resolve));
+    queue.nudge(0);
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.equal(runs, 2);
+  });
+});
@@ -0,0 +1,66 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // Delay before the first retry; doubles with each failed attempt
+  maxDelayMs: number;
+  // How long an attempt may run before the worker assumes its process died and takes the item over
+  claimLeaseMs: number;
+}
+
+/**
+ * Backoff, claim lease and background worker shared by the stored queues (inbound webhooks,
+ * outbound email). Each queued item carries a nextAttemptAt: the retry time once an attempt
+ * failed, or the claim's expiry while one is pending or running, so the due query also picks up
+ * items whose attempt died with its process.
+ */
+export class RetryQueue {
+  private retryTimer: NodeJS.Timeout | null = null;
+  private lastRunAt = 0;
+  private running = false;
+
+  constructor(readonly policy: RetryPolicy, private readonly processDue: () => Promise<unknown>) {}
+
+  getRetryDelay(attempts: number): number {
+    return Math.min(this.policy.baseDelayMs * Math.pow(2, attempts - 1), this.policy.maxDelayMs);
+  }
+
+  nextRetryAt(attempts: number): Timestamp {
+    return Timestamp.fromMillis(Date.now() + this.getRetryDelay(attempts));
+  }
+
+  claimExpiry(): Timestamp {
+    return Timestamp.fromMillis(Date.now() + this.policy.claimLeaseMs);
+  }
+
+  isExhausted(attempts: number, maxAttempts?: number): boolean {
+    return attempts >= (maxAttempts || this.policy.maxAttempts);
+  }
+
+  startWorker(intervalMs = 60 * 1000): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setInterval(() => this.run(), intervalMs);
+  }
+
+  /**
+   * Process due items unless that already happened in the last interval. Called on incoming
+   * traffic, so retries still go out on serverless hosts that freeze timers between requests.
+   */
+  nudge(intervalMs = 60 * 1000): void {
+    if (Date.now() - this.lastRunAt < intervalMs) return;
+    this.run();
+  }
+
+  private run(): void {
+    if (this.running) return;
+    this.running = true;
+    this.lastRunAt = Date.now();
+    this.processDue()
+      .catch(() => {
+        // The next tick will try again
+      })
+      .finally(() => {
+        this.running = false;
+      });
+  }
+}
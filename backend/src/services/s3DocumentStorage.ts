@@ -0,0 +1,228 @@
+import axios, { Method } from 'axios';
+import crypto from 'crypto';
+import {
+  DocumentStorage,
+  DownloadedFile,
+  StoredFile,
+  normalizeFolderPath,
+  sanitizeStorageName,
+} from './documentStorage';
+
+export interface S3StorageConfig {
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; AWS when unset
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string; // Key prefix every deal folder goes under
+  forcePathStyle: boolean;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, which SigV4 requires and encodeURIComponent doesn't fully do
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeXml = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+/**
+ * Keeps deal documents in an S3-compatible bucket (AWS S3, MinIO, R2, ...). File ids are object
+ * keys. Requests are signed with AWS Signature Version 4, so no SDK is needed.
+ */
+export class S3DocumentStorage implements DocumentStorage {
+  readonly driver = 's3' as const;
+  private readonly config: S3StorageConfig;
+
+  constructor(config: S3StorageConfig) {
+    this.config = { ...config, prefix: (config.prefix || '').replace(/^\/+|\/+$/g, '') };
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return !!(this.config.bucket && this.config.accessKeyId && this.config.secretAccessKey);
+  }
+
+  // Object stores have no folders; a folder is the key prefix of its files
+  async createFolder(folderPath: string): Promise<void> {
+  }
+
+  async uploadFile(folderPath: string, filename: string, content: Buffer, mimeType: string): Promise<StoredFile> {
+    const key = `${this.folderPrefix(folderPath)}${sanitizeStorageName(filename)}`;
+    try {
+      await this.request('PUT', key, {}, content, { 'content-type': mimeType || 'application/octet-stream' });
+    } catch (error: any) {
+      throw new Error(`Failed to upload file: ${this.describeError(error)}`);
+    }
+
+    const now = new Date().toISOString();
+    return {
+      id: key,
+      name: key.slice(key.lastIndexOf('/') + 1),
+      size: content.length,
+      createdDateTime: now,
+      lastModifiedDateTime: now,
+    };
+  }
+
+  async listFiles(folderPath: string): Promise<StoredFile[]> {
+    try {
+      return await this.listObjects(this.folderPrefix(folderPath));
+    } catch (error: any) {
+      throw new Error(`Failed to fetch files: ${this.describeError(error)}`);
+    }
+  }
+
+  // S3 can't rename, so every object is copied to its new key and the original deleted
+  async moveFolder(fromPath: string, toPath: string): Promise<Record<string, string>> {
+    const fromPrefix = this.folderPrefix(fromPath);
+    const toPrefix = this.folderPrefix(toPath);
+    const moved: Record<string, string> = {};
+    if (fromPrefix === toPrefix || !normalizeFolderPath(fromPath) || !normalizeFolderPath(toPath)) return moved;
+
+    try {
+      for (const file of await this.listObjects(fromPrefix)) {
+        const newKey = `${toPrefix}${file.id.slice(fromPrefix.length)}`;
+        await this.request('PUT', newKey, {}, undefined, {
+          'x-amz-copy-source': `/${this.config.bucket}/${file.id.split('/').map(encodeRfc3986).join('/')}`,
+        });
+        await this.request('DELETE', file.id);
+        moved[file.id] = newKey;
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to move folder: ${this.describeError(error)}`);
+    }
+    return moved;
+  }
+
+  async downloadFile(fileId: string): Promise<DownloadedFile> {
+    try {
+      const response = await this.request('GET', fileId);
+      return { content: Buffer.from(response.data), mimeType: response.headers['content-type'] };
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.response?.status === 404 ? 'File not found' : this.describeError(error)}`);
+    }
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    try {
+      await this.request('DELETE', fileId);
+    } catch (error: any) {
+      throw new Error(`Failed to delete file: ${this.describeError(error)}`);
+    }
+  }
+
+  // Key prefix of a folder, ending in "/" unless it is the bucket root
+  private folderPrefix(folderPath: string): string {
+    const key = [this.config.prefix, normalizeFolderPath(folderPath)].filter(Boolean).join('/');
+    return key ? `${key}/` : '';
+  }
+
+  // Every object under a key prefix, following continuation tokens
+  private async listObjects(prefix: string): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.request('GET', '', {
+        'list-type': '2',
+        prefix,
+        ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+      });
+      const xml = Buffer.from(response.data).toString('utf8');
+
+      for (const [, entry] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const field = (tag: string) => decodeXml(entry.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1] || '');
+        const key = field('Key');
+        // Skip "folder" placeholder objects some tools create
+        if (!key || key.endsWith('/')) continue;
+        const relative = key.slice(prefix.length);
+        const modified = new Date(field('LastModified')).toISOString();
+        files.push({
+          id: key,
+          name: relative.slice(relative.lastIndexOf('/') + 1),
+          size: Number(field('Size')) || 0,
+          createdDateTime: modified, // S3 only tracks when an object was last written
+          lastModifiedDateTime: modified,
+          folder: relative.includes('/') ? relative.slice(0, relative.lastIndexOf('/')) : undefined,
+        });
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXml(xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1] || '') || undefined
+        : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  private describeError(error: any): string {
+    const body = error.response?.data ? Buffer.from(error.response.data).toString('utf8') : '';
+    return decodeXml(body.match(/<Message>([\s\S]*?)<\/Message>/)?.[1] || '') || error.message;
+  }
+
+  /**
+   * Send a request signed with AWS Signature Version 4. An empty key addresses the bucket itself.
+   */
+  private async request(
+    method: Method,
+    key: string,
+    query: Record<string, string> = {},
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ) {
+    const { region, bucket, accessKeyId, secretAccessKey, forcePathStyle } = this.config;
+    const endpoint = new URL(this.config.endpoint || `https://s3.${region}.amazonaws.com`);
+    const host = forcePathStyle ? endpoint.host : `${bucket}.${endpoint.host}`;
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const canonicalUri = `${basePath}${forcePathStyle ? `/${encodeRfc3986(bucket)}` : ''}/${encodedKey}`;
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body || '');
+    const signedHeaders: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+      method.toUpperCase(),
+      canonicalUri,
+      canonicalQuery,
+      headerNames.map(name => `${name}:${signedHeaders[name].trim()}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...requestHeaders } = signedHeaders;
+    return axios.request({
+      method,
+      url: `${endpoint.protocol}//${host}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`,
+      data: body,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+  }
+}
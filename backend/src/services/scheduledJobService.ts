@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirebaseService, JobRun, ScheduledJobName } from './firebaseService';
+import { SubscriptionSweepService } from './subscriptionSweepService';
+import { DiscordRoleSyncService } from './discordRoleSyncService';
+import { DocumentScanService } from './documentScanService';
+import { isMalwareScanningEnabled } from './malwareScanner';
+import { DEAL_QUERY_FIELDS_VERSION } from '../utils/dealQuery';
+
+export interface JobResult {
+  summary: Record<string, number>;
+  errors?: string[];
+}
+
+interface ScheduledJob {
+  name: ScheduledJobName;
+  description: string;
+  intervalMinutes: () => number; // 0 turns the schedule off; the job can still be run from the admin panel
+  isEnabled: () => boolean;
+  runOnStart?: () => Promise<boolean>; // Also run when the server starts, if this resolves true
+  run: () => Promise<JobResult>;
+}
+
+export interface ScheduledJobInfo {
+  name: ScheduledJobName;
+  description: string;
+  intervalMinutes: number;
+  enabled: boolean;
+}
+
+const LOCK_LEASE_MS = 15 * 60 * 1000;
+const DEAL_QUERY_BACKFILL_VERSION_KEY = 'deal_query_backfill_version';
+const MAX_RUN_ERRORS = 50;
+
+const JOBS: ScheduledJob[] = [
+  {
+    name: 'subscription_sweep',
+    description: 'Emails members whose renewal failed and removes access once the grace period is over',
+    intervalMinutes: () => Number(process.env.SUBSCRIPTION_SWEEP_INTERVAL_MINUTES ?? 60),
+    isEnabled: () => true,
+    run: () => SubscriptionSweepService.sweep(),
+  },
+  {
+    name: 'discord_role_reconcile',
+    description: "Brings every Discord member's paid role in line with portal access",
+    intervalMinutes: () => Number(process.env.DISCORD_ROLE_SYNC_INTERVAL_MINUTES ?? 60),
+    isEnabled: () => DiscordRoleSyncService.isEnabled(),
+    run: async () => {
+      const { membersChecked, granted, revoked, failed } = await DiscordRoleSyncService.reconcile();
+      return { summary: { membersChecked, granted, revoked, failed } };
+    },
+  },
+  {
+    name: 'document_scan',
+    description: 'Scans uploads quarantined because the malware scanner was unavailable, releasing clean ones',
+    intervalMinutes: () => Number(process.env.DOCUMENT_SCAN_INTERVAL_MINUTES ?? 15),
+    isEnabled: () => isMalwareScanningEnabled(),
+    run: () => DocumentScanService.scanQuarantined(),
+  },
+  {
+    // Deal search and loan-amount sorting query these fields, so deals without them are left out
+    name: 'deal_query_backfill',
+    description: 'Adds the search and loan amount sort fields to deals saved before they existed',
+    intervalMinutes: () => Number(process.env.DEAL_QUERY_BACKFILL_INTERVAL_MINUTES ?? 0),
+    isEnabled: () => true,
+    // Once per version of the fields; later deals get them when they are saved
+    runOnStart: async () => (await FirebaseService.getConfiguration(DEAL_QUERY_BACKFILL_VERSION_KEY)) !== String(DEAL_QUERY_FIELDS_VERSION),
+    run: async () => {
+      const summary = await FirebaseService.backfillDealQueryFields();
+      await FirebaseService.setConfiguration(DEAL_QUERY_BACKFILL_VERSION_KEY, String(DEAL_QUERY_FIELDS_VERSION), 'Deal search fields version the backfill last completed');
+      return { summary };
+    },
+  },
+];
+
+/**
+ * Runs the portal's periodic jobs on an interval and records every run for the admin run log.
+ * A Firestore lease keeps two server instances from running the same job at once.
+ */
+export class ScheduledJobService {
+  private static readonly instanceId = crypto.randomBytes(8).toString('hex');
+  private static started = false;
+
+  static list(): ScheduledJobInfo[] {
+    return JOBS.map(job => ({
+      name: job.name,
+      description: job.description,
+      intervalMinutes: job.intervalMinutes(),
+      enabled: job.isEnabled(),
+    }));
+  }
+
+  static isJobName(name: string): name is ScheduledJobName {
+    return JOBS.some(job => job.name === name);
+  }
+
+  static isEnabled(name: ScheduledJobName): boolean {
+    return !!JOBS.find(job => job.name === name)?.isEnabled();
+  }
+
+  /**
+   * Run a job now and record the run. Returns null when another run of the job holds the lease.
+   */
+  static async runJob(name: ScheduledJobName, trigger: JobRun['trigger']): Promise<JobRun | null> {
+    const job = JOBS.find(candidate => candidate.name === name);
+    if (!job) {
+      throw new Error(`Unknown job "${name}"`);
+    }
+    if (!(await FirebaseService.acquireJobLock(name, this.instanceId, LOCK_LEASE_MS))) {
+      return null;
+    }
+
+    try {
+      const startedAt = Date.now();
+      const run = await FirebaseService.createJobRun({
+        job: name,
+        trigger,
+        status: 'running',
+        startedAt: Timestamp.fromMillis(startedAt),
+      });
+
+      let updates: Partial<JobRun>;
+      try {
+        const result = await job.run();
+        updates = {
+          status: 'succeeded',
+          summary: result.summary,
+          errors: result.errors?.length ? result.errors.slice(0, MAX_RUN_ERRORS) : undefined,
+        };
+      } catch (error: any) {
+        updates = { status: 'failed', error: error?.message || String(error) };
+      }
+
+      updates.finishedAt = Timestamp.now();
+      updates.durationMs = Date.now() - startedAt;
+      await FirebaseService.updateJobRun(run.id, updates);
+      return { ...run, ...updates };
+    } finally {
+      await FirebaseService.releaseJobLock(name, this.instanceId);
+    }
+  }
+
+  static start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of JOBS) {
+      if (job.runOnStart && job.isEnabled()) {
+        job.runOnStart()
+          .then(shouldRun => shouldRun ? this.runJob(job.name, 'schedule') : null)
+          .catch(() => {
+            // Can be run again from the admin panel
+          });
+      }
+
+      const intervalMs = job.intervalMinutes() * 60 * 1000;
+      if (!(intervalMs > 0)) continue;
+
+      setInterval(() => {
+        if (!job.isEnabled()) return;
+        this.runJob(job.name, 'schedule').catch(() => {
+          // The next tick will try again
+        });
+      }, intervalMs);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { SecretService } from './secretService';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('SecretService', () => {
+  let oldKey: string;
+
+  beforeEach(() => {
+    oldKey = `k1:${newKey()}`;
+    process.env.SECRET_ENCRYPTION_KEYS = oldKey;
+  });
+
+  it('round-trips a secret without storing the plaintext', () => {
+    const stored = SecretService.encrypt('ghl-api-key-123');
+
+    assert.ok(SecretService.isEncrypted(stored));
+    assert.ok(!stored.includes('ghl-api-key-123'));
+    assert.equal(SecretService.keyIdOf(stored), 'k1');
+    assert.equal(SecretService.decrypt(stored), 'ghl-api-key-123');
+  });
+
+  it('encrypts the same secret differently every time', () => {
+    assert.notEqual(SecretService.encrypt('same'), SecretService.encrypt('same'));
+  });
+
+  it('returns legacy plaintext as-is', () => {
+    assert.equal(SecretService.isEncrypted('plain-token'), false);
+    assert.equal(SecretService.decrypt('plain-token'), 'plain-token');
+    assert.equal(SecretService.needsRotation('plain-token'), true);
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const parts = SecretService.encrypt('ghl-api-key-123').split(':');
+    const ciphertext = Buffer.from(parts[6], 'base64');
+    ciphertext[0] ^= 1;
+    parts[6] = ciphertext.toString('base64');
+
+    assert.throws(() => SecretService.decrypt(parts.join(':')));
+  });
+
+  it('rewraps the data key under the new active key and keeps the ciphertext', () => {
+    const stored = SecretService.encrypt('onedrive-refresh-token');
+    process.env.SECRET_ENCRYPTION_KEYS = `k2:${newKey()},${oldKey}`;
+
+    assert.equal(SecretService.needsRotation(stored), true);
+    const rotated = SecretService.rotate(stored);
+
+    assert.equal(SecretService.keyIdOf(rotated), 'k2');
+    assert.equal(SecretService.needsRotation(rotated), false);
+    assert.deepEqual(rotated.split(':').slice(4), stored.split(':').slice(4));
+    assert.equal(SecretService.decrypt(rotated), 'onedrive-refresh-token');
+  });
+
+  it('still decrypts values wrapped with a retired key while it is configured', () => {
+    const stored = SecretService.encrypt('totp-seed');
+    process.env.SECRET_ENCRYPTION_KEYS = `k2:${newKey()},${oldKey}`;
+
+    assert.equal(SecretService.decrypt(stored), 'totp-seed');
+    assert.equal(SecretService.keyIdOf(SecretService.encrypt('new')), 'k2');
+  });
+
+  it('fails loudly once the key a value was wrapped with is removed', () => {
+    const stored = SecretService.encrypt('totp-seed');
+    process.env.SECRET_ENCRYPTION_KEYS = `k2:${newKey()}`;
+
+    assert.throws(() => SecretService.decrypt(stored), /"k1" is not configured/);
+  });
+
+  it('encrypts legacy plaintext when rotating and leaves current values alone', () => {
+    const rotated = SecretService.rotate('plain-token');
+    assert.equal(SecretService.decrypt(rotated), 'plain-token');
+    assert.equal(SecretService.rotate(rotated), rotated);
+  });
+
+  it('refuses to run without valid keys', () => {
+    process.env.SECRET_ENCRYPTION_KEYS = '';
+    assert.throws(() => SecretService.encrypt('x'), /not configured/);
+
+    process.env.SECRET_ENCRYPTION_KEYS = 'k1:short';
+    assert.throws(() => SecretService.encrypt('x'), /32-byte/);
+  });
+
+  it('masks all but the last four characters', () => {
+    assert.equal(SecretService.mask('sk_live_abcdef1234'), '••••1234');
+    assert.equal(SecretService.mask('short'), '••••');
+    assert.equal(SecretService.mask(null), undefined);
+  });
+});
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Envelope encryption for secrets stored in Firestore (GHL keys, OneDrive tokens, TOTP seeds).
+ *
+ * Each value is encrypted with its own random data key, and that data key is wrapped with a
+ * master key from SECRET_ENCRYPTION_KEYS ("keyId:base64key,..."; the first entry is the active key).
+ * Rotating means putting a new key first and rewrapping the stored data keys; the ciphertext
+ * itself is never re-encrypted.
+ *
+ * Stored form: enc:v1:<keyId>:<wrapped data key>:<iv>:<tag>:<ciphertext>, all base64.
+ */
+export class SecretService {
+  private static cachedKeys: { source: string; keys: MasterKey[] } | null = null;
+
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+  }
+
+  static activeKeyId(): string {
+    return this.activeKey().id;
+  }
+
+  /**
+   * Id of the master key that wraps a stored value, or null for legacy plaintext
+   */
+  static keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? this.parse(value).keyId : null;
+  }
+
+  static encrypt(plaintext: string): string {
+    const masterKey = this.activeKey();
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const { iv, tag, ciphertext } = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return [
+      PREFIX,
+      masterKey.id,
+      this.wrapKey(masterKey, dataKey),
+      iv.toString('base64'),
+      tag.toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  /**
+   * Plaintext of a stored value. Values saved before encryption was introduced are returned as-is.
+   */
+  static decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const parts = this.parse(value);
+    const dataKey = this.unwrapKey(this.keyById(parts.keyId), parts.wrappedKey);
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(parts.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(parts.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(parts.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Whether a stored value is plaintext or wrapped with a key other than the active one
+   */
+  static needsRotation(value: string): boolean {
+    return this.keyIdOf(value) !== this.activeKeyId();
+  }
+
+  /**
+   * Rewrap a stored value's data key with the active master key (encrypting legacy plaintext)
+   */
+  static rotate(value: string): string {
+    if (!this.isEncrypted(value)) return this.encrypt(value);
+
+    const parts = this.parse(value);
+    const activeKey = this.activeKey();
+    if (parts.keyId === activeKey.id) return value;
+
+    const dataKey = this.unwrapKey(this.keyById(parts.keyId), parts.wrappedKey);
+    return [PREFIX, activeKey.id, this.wrapKey(activeKey, dataKey), parts.iv, parts.tag, parts.ciphertext].join(':');
+  }
+
+  /**
+   * Display form of a secret: only the last 4 characters
+   */
+  static mask(value?: string | null): string | undefined {
+    if (!value) return undefined;
+    return value.length > 8 ? `••••${value.slice(-4)}` : '••••';
+  }
+
+  private static seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+  }
+
+  private static wrapKey(masterKey: MasterKey, dataKey: Buffer): string {
+    const { iv, tag, ciphertext } = this.seal(masterKey.key, dataKey);
+    return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+  }
+
+  private static unwrapKey(masterKey: MasterKey, wrappedKey: string): Buffer {
+    const wrapped = Buffer.from(wrappedKey, 'base64');
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, wrapped.subarray(0, IV_BYTES));
+    decipher.setAuthTag(wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(wrapped.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  }
+
+  private static parse(value: string) {
+    const [, , keyId, wrappedKey, iv, tag, ciphertext] = value.split(':');
+    if (!keyId || !wrappedKey || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Malformed encrypted secret');
+    }
+    return { keyId, wrappedKey, iv, tag, ciphertext };
+  }
+
+  private static activeKey(): MasterKey {
+    return this.masterKeys()[0];
+  }
+
+  private static keyById(keyId: string): MasterKey {
+    const masterKey = this.masterKeys().find(candidate => candidate.id === keyId);
+    if (!masterKey) {
+      throw new Error(`Secret encryption key "${keyId}" is not configured`);
+    }
+    return masterKey;
+  }
+
+  private static masterKeys(): MasterKey[] {
+    const source = process.env.SECRET_ENCRYPTION_KEYS || '';
+    if (this.cachedKeys?.source === source) return this.cachedKeys.keys;
+
+    const keys = source.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== KEY_BYTES) {
+        throw new Error('SECRET_ENCRYPTION_KEYS entries must be "keyId:<32-byte base64 key>"');
+      }
+      return { id, key };
+    });
+    if (keys.length === 0) {
+      throw new Error('SECRET_ENCRYPTION_KEYS is not configured');
+    }
+
+    this.cachedKeys = { source, keys };
+    return keys;
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { SecurityService } from './securityService';
+import { FirebaseService, AuthAttemptCounter, AuthAttemptScope, SecurityEvent } from './firebaseService';
+
+const req = { headers: {}, ip: '127.0.0.1' } as unknown as Request;
+
+describe('SecurityService lockout', () => {
+  let counters: Map<string, AuthAttemptCounter>;
+  let events: Array<Omit<SecurityEvent, 'id' | 'createdAt'>>;
+
+  beforeEach(() => {
+    counters = new Map();
+    events = [];
+
+    // recordAuthFailure counts inside a transaction; run it against the in-memory counters
+    mock.method(getFirestore(), 'runTransaction', async (update: (transaction: unknown) => Promise<unknown>) => update({
+      get: async (ref: { id: string }) => {
+        const counter = counters.get(ref.id);
+        return { exists: !!counter, data: () => counter };
+      },
+      set: (ref: { id: string }, counter: AuthAttemptCounter) => {
+        counters.set(ref.id, counter);
+      },
+    }));
+    mock.method(FirebaseService, 'getAuthAttemptCounter', async (scope: AuthAttemptScope, identifier: string) =>
+      [...counters.values()].find(counter => counter.scope === scope && counter.identifier === identifier) || null);
+    mock.method(FirebaseService, 'clearAuthFailures', async (scope: AuthAttemptScope, identifier: string) => {
+      for (const [id, counter] of counters) {
+        if (counter.scope === scope && counter.identifier === identifier) counters.delete(id);
+      }
+    });
+    mock.method(FirebaseService, 'createSecurityEvent', async (event: Omit<SecurityEvent, 'id' | 'createdAt'>) => {
+      events.push(event);
+      return event as SecurityEvent;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const fail = (identifier = 'user-1') =>
+    SecurityService.registerFailure('two_factor', identifier, 'two_factor_failed', req, { userId: identifier });
+
+  it('locks a user out on the fifth wrong two-factor code', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      assert.equal(await fail(), false);
+    }
+    assert.equal(await SecurityService.getLockedUntil('two_factor', 'user-1'), null);
+
+    assert.equal(await fail(), true);
+
+    const lockedUntil = await SecurityService.getLockedUntil('two_factor', 'user-1');
+    assert.ok(lockedUntil);
+    assert.ok(SecurityService.retryAfterSeconds(lockedUntil) > 14 * 60);
+    assert.equal(events.filter(event => event.type === 'two_factor_failed').length, 5);
+    assert.equal(events.filter(event => event.type === 'two_factor_locked').length, 1);
+  });
+
+  it('records the lock event only when the lock starts', async () => {
+    for (let attempt = 1; attempt <= 7; attempt++) {
+      await fail();
+    }
+
+    assert.equal(events.filter(event => event.type === 'two_factor_locked').length, 1);
+  });
+
+  it('counts failures per identity', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await fail('user-1');
+    }
+
+    assert.ok(await SecurityService.getLockedUntil('two_factor', 'user-1'));
+    assert.equal(await SecurityService.getLockedUntil('two_factor', 'user-2'), null);
+  });
+
+  it('starts counting again once the window has passed', async () => {
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await fail();
+    }
+    const [id, counter] = [...counters.entries()][0];
+    counters.set(id, { ...counter, windowStartedAt: Timestamp.fromMillis(Date.now() - 16 * 60 * 1000) });
+
+    assert.equal(await fail(), false);
+    assert.equal(counters.get(id)?.failures, 1);
+  });
+
+  it('lifts an expired lock', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await fail();
+    }
+    const [id, counter] = [...counters.entries()][0];
+    counters.set(id, { ...counter, lockedUntil: Timestamp.fromMillis(Date.now() - 1000) });
+
+    assert.equal(await SecurityService.getLockedUntil('two_factor', 'user-1'), null);
+  });
+
+  it('forgets failures after a successful code', async () => {
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await fail();
+    }
+    await SecurityService.clearFailures('two_factor', 'user-1');
+
+    assert.equal(await fail(), false);
+    assert.equal([...counters.values()][0].failures, 1);
+  });
+});
@@ -0,0 +1,85 @@
+import { Request } from 'express';
+import { FirebaseService, AuthAttemptScope, SecurityEvent, SecurityEventType } from './firebaseService';
+
+// Wrong guesses allowed against a single OTP before it locks
+export const OTP_MAX_ATTEMPTS = 5;
+
+// Failures allowed per identity (email for OTPs, Discord account for verification codes, user for
+// two-factor codes) across all of its codes before it is locked out for a while
+const LOCKOUT_POLICIES: Record<AuthAttemptScope, { maxFailures: number; windowMs: number; lockMs: number }> = {
+  otp_email: { maxFailures: 10, windowMs: 60 * 60 * 1000, lockMs: 60 * 60 * 1000 },
+  verification_code: { maxFailures: 5, windowMs: 60 * 60 * 1000, lockMs: 60 * 60 * 1000 },
+  two_factor: { maxFailures: 5, windowMs: 15 * 60 * 1000, lockMs: 15 * 60 * 1000 },
+  share_link: { maxFailures: 10, windowMs: 60 * 60 * 1000, lockMs: 60 * 60 * 1000 },
+};
+
+const LOCKED_EVENT: Record<AuthAttemptScope, SecurityEventType> = {
+  otp_email: 'otp_email_locked',
+  verification_code: 'verification_code_locked',
+  two_factor: 'two_factor_locked',
+  share_link: 'share_link_locked',
+};
+
+type SecurityEventContext = Partial<Pick<SecurityEvent, 'email' | 'userId' | 'discordId' | 'details'>>;
+
+export class SecurityService {
+  /**
+   * Record a security event for admins to review. Failures to write are swallowed so an
+   * audit problem never blocks sign-in.
+   */
+  static async recordEvent(type: SecurityEventType, req: Request | undefined, context: SecurityEventContext = {}): Promise<void> {
+    try {
+      await FirebaseService.createSecurityEvent({
+        type,
+        ...context,
+        ipAddress: req?.ip,
+        userAgent: req?.headers['user-agent']?.slice(0, 300),
+      });
+    } catch (error) {
+      // Best effort
+    }
+  }
+
+  /**
+   * When the identity is locked out, the time the lock ends; otherwise null
+   */
+  static async getLockedUntil(scope: AuthAttemptScope, identifier: string): Promise<Date | null> {
+    const counter = await FirebaseService.getAuthAttemptCounter(scope, identifier);
+    const lockedUntil = counter?.lockedUntil?.toDate();
+    return lockedUntil && lockedUntil.getTime() > Date.now() ? lockedUntil : null;
+  }
+
+  /**
+   * Count a failed attempt for the identity and record it. Returns whether the identity is now locked.
+   */
+  static async registerFailure(
+    scope: AuthAttemptScope,
+    identifier: string,
+    failureEvent: SecurityEventType,
+    req: Request,
+    context: SecurityEventContext = {}
+  ): Promise<boolean> {
+    const counter = await FirebaseService.recordAuthFailure(scope, identifier, LOCKOUT_POLICIES[scope]);
+    await this.recordEvent(failureEvent, req, { ...context, details: { ...context.details, failures: counter.failures } });
+
+    const justLocked = counter.failures === LOCKOUT_POLICIES[scope].maxFailures;
+    if (justLocked) {
+      await this.recordEvent(LOCKED_EVENT[scope], req, {
+        ...context,
+        details: { lockedUntil: counter.lockedUntil?.toDate().toISOString() },
+      });
+    }
+    return !!counter.lockedUntil;
+  }
+
+  static async clearFailures(scope: AuthAttemptScope, identifier: string): Promise<void> {
+    await FirebaseService.clearAuthFailures(scope, identifier);
+  }
+
+  /**
+   * Seconds until a lock ends, for the Retry-After header
+   */
+  static retryAfterSeconds(lockedUntil: Date): number {
+    return Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  }
+}
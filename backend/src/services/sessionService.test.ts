@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { Timestamp } from 'firebase-admin/firestore';
+import { SessionService } from './sessionService';
+import { SecurityService } from './securityService';
+import { FirebaseService, User, UserSession } from './firebaseService';
+
+const req = { headers: { 'user-agent': 'Mozilla/5.0 (Macintosh; Mac OS X) Chrome/120.0' }, ip: '127.0.0.1' } as unknown as Request;
+const member = { id: 'user-1', username: 'member' } as User;
+
+describe('SessionService', () => {
+  let sessions: Map<string, UserSession>;
+  let securityEvents: string[];
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    sessions = new Map();
+    securityEvents = [];
+
+    mock.method(FirebaseService, 'createUserSession', async (data: Omit<UserSession, 'id'>) => {
+      const session = { ...data, id: `session-${sessions.size + 1}` };
+      sessions.set(session.id, session);
+      return session;
+    });
+    mock.method(FirebaseService, 'getUserSession', async (id: string) => {
+      const session = sessions.get(id);
+      return session ? { ...session } : null;
+    });
+    mock.method(FirebaseService, 'updateUserSession', async (id: string, updates: Partial<UserSession>) => {
+      sessions.set(id, { ...sessions.get(id)!, ...updates });
+    });
+    mock.method(FirebaseService, 'rotateUserSessionToken', async (id: string, expectedHash: string, updates: Partial<UserSession>) => {
+      const session = sessions.get(id);
+      if (!session || session.refreshTokenHash !== expectedHash) return false;
+      sessions.set(id, { ...session, ...updates });
+      return true;
+    });
+    mock.method(FirebaseService, 'getUserById', async (id: string) => (id === member.id ? member : null));
+    mock.method(SecurityService, 'recordEvent', async (type: string) => {
+      securityEvents.push(type);
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  // Pretend the last rotation happened this long ago
+  const ageRotation = (sessionId: string, ms: number) => {
+    const session = sessions.get(sessionId)!;
+    sessions.set(sessionId, { ...session, rotatedAt: Timestamp.fromMillis(Date.now() - ms) });
+  };
+
+  it('issues an access token bound to a new session', async () => {
+    const issued = await SessionService.createSession(member, req);
+
+    const claims = await SessionService.verifyAccessToken(issued.token);
+    assert.deepEqual(claims, { userId: member.id, sid: issued.sessionId });
+    assert.ok(issued.refreshToken.startsWith(`${issued.sessionId}.`));
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const issued = await SessionService.createSession(member, req);
+
+    const first = await SessionService.refresh(issued.refreshToken, req);
+    assert.ok(first?.refreshToken);
+    assert.notEqual(first.refreshToken, issued.refreshToken);
+
+    const second = await SessionService.refresh(first.refreshToken, req);
+    assert.ok(second?.refreshToken);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+  });
+
+  it('lets a concurrent refresh with the previous token through inside the grace window', async () => {
+    const issued = await SessionService.createSession(member, req);
+    await SessionService.refresh(issued.refreshToken, req);
+
+    const concurrent = await SessionService.refresh(issued.refreshToken, req);
+
+    assert.ok(concurrent?.token);
+    assert.equal(concurrent.refreshToken, undefined); // The client keeps the rotated token it already has
+    assert.equal(sessions.get(issued.sessionId)?.revokedAt, undefined);
+    assert.deepEqual(securityEvents, []);
+  });
+
+  it('revokes the session when a rotated-out refresh token is reused after the grace window', async () => {
+    const issued = await SessionService.createSession(member, req);
+    const rotated = await SessionService.refresh(issued.refreshToken, req);
+    ageRotation(issued.sessionId, 2 * 60 * 1000);
+
+    assert.equal(await SessionService.refresh(issued.refreshToken, req), null);
+
+    const session = sessions.get(issued.sessionId)!;
+    assert.ok(session.revokedAt);
+    assert.equal(session.revokedReason, 'refresh_token_reuse');
+    assert.deepEqual(securityEvents, ['refresh_token_reuse']);
+    // The legitimate holder is signed out too
+    assert.equal(await SessionService.refresh(rotated!.refreshToken!, req), null);
+    assert.equal(await SessionService.verifyAccessToken(issued.token), null);
+  });
+
+  it('refuses refresh tokens that never belonged to the session', async () => {
+    const issued = await SessionService.createSession(member, req);
+
+    assert.equal(await SessionService.refresh(`${issued.sessionId}.forged`, req), null);
+    assert.equal(sessions.get(issued.sessionId)?.revokedAt, undefined);
+  });
+
+  it('refuses access tokens without a session id', async () => {
+    const legacyToken = jwt.sign({ userId: member.id }, process.env.JWT_SECRET!);
+
+    assert.equal(await SessionService.verifyAccessToken(legacyToken), null);
+  });
+});
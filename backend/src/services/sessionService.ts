@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirebaseService, User, UserSession } from './firebaseService';
+import { SecurityService } from './securityService';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Long enough for the browser to follow a redirect and post the code back
+const LOGIN_CODE_TTL_MS = 2 * 60 * 1000;
+
+// Two tabs refreshing at once both present the same refresh token; the slower one inside this
+// window gets a fresh access token instead of tripping reuse detection
+const ROTATION_GRACE_MS = 60 * 1000;
+
+export interface IssuedTokens {
+  token: string; // Short-lived access token (JWT)
+  refreshToken?: string; // Omitted when the client should keep the refresh token it already stored
+  expiresIn: number; // Access token lifetime in seconds
+  sessionId: string;
+}
+
+export interface AccessTokenClaims {
+  userId: string;
+  sid: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Timestamp;
+  lastUsedAt: Timestamp;
+  expiresAt: Timestamp;
+  current: boolean;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshExpiry = () => Timestamp.fromMillis(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Short readable device name from a user agent, e.g. "Chrome on macOS"
+ */
+export function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /OPR\//.test(userAgent) ? 'Opera'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+          : /Firefox\//.test(userAgent) ? 'Firefox'
+            : /Safari\//.test(userAgent) ? 'Safari'
+              : 'Browser';
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Android/.test(userAgent) ? 'Android'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+          : /Windows/.test(userAgent) ? 'Windows'
+            : /Linux/.test(userAgent) ? 'Linux'
+              : 'Unknown OS';
+  return `${browser} on ${os}`;
+}
+
+export class SessionService {
+  /**
+   * Start a session for a user who just signed in and issue its first access and refresh tokens.
+   * Every sign-in path (password, Discord, OTP, post-payment) goes through here.
+   */
+  static async createSession(user: Pick<User, 'id'>, req: Request): Promise<IssuedTokens & { refreshToken: string }> {
+    const now = Timestamp.now();
+    const secret = this.newSecret();
+    const session = await FirebaseService.createUserSession({
+      userId: user.id,
+      refreshTokenHash: '',
+      userAgent: req.headers['user-agent']?.slice(0, 300),
+      ipAddress: req.ip,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+    });
+
+    // The refresh token embeds the session id so a refresh is a single document lookup
+    const refreshToken = `${session.id}.${secret}`;
+    await FirebaseService.updateUserSession(session.id, { refreshTokenHash: hashToken(refreshToken) });
+
+    return {
+      token: this.signAccessToken(user.id, session.id),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * One-time code that stands in for a new session on a redirect (Discord sign-in), so no token
+   * ends up in the URL, browser history or Referer headers. The client redeems it for the tokens.
+   */
+  static async createLoginCode(user: Pick<User, 'id'>): Promise<string> {
+    const code = this.newSecret();
+    const now = Timestamp.now();
+    await FirebaseService.createLoginCode({
+      id: hashToken(code),
+      userId: user.id,
+      createdAt: now,
+      expiresAt: Timestamp.fromMillis(now.toMillis() + LOGIN_CODE_TTL_MS),
+    });
+    return code;
+  }
+
+  /**
+   * Start the session a login code stands for. A code works once; null when it is unknown,
+   * already used or expired.
+   */
+  static async redeemLoginCode(code: string, req: Request): Promise<{ user: User; tokens: IssuedTokens & { refreshToken: string } } | null> {
+    const loginCode = await FirebaseService.consumeLoginCode(hashToken(code));
+    if (!loginCode || loginCode.expiresAt.toMillis() <= Date.now()) return null;
+
+    const user = await FirebaseService.getUserById(loginCode.userId);
+    if (!user) return null;
+    return { user, tokens: await this.createSession(user, req) };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token.
+   * Presenting a refresh token that was already rotated out (outside the grace window) means it
+   * leaked, so the whole session is revoked. Returns null when the token is not usable.
+   */
+  static async refresh(refreshToken: string, req: Request): Promise<IssuedTokens | null> {
+    const [sessionId] = refreshToken.split('.');
+    if (!sessionId) return null;
+
+    const session = await FirebaseService.getUserSession(sessionId);
+    if (!session || !this.isActive(session)) return null;
+
+    const presentedHash = hashToken(refreshToken);
+    const user = await FirebaseService.getUserById(session.userId);
+    if (!user) {
+      await this.revokeSession(session.userId, session.id, 'user_deleted');
+      return null;
+    }
+
+    if (presentedHash === session.refreshTokenHash) {
+      const nextRefreshToken = `${session.id}.${this.newSecret()}`;
+      const rotated = await FirebaseService.rotateUserSessionToken(session.id, presentedHash, {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousRefreshTokenHash: presentedHash,
+        rotatedAt: Timestamp.now(),
+        lastUsedAt: Timestamp.now(),
+        expiresAt: refreshExpiry(),
+        userAgent: req.headers['user-agent']?.slice(0, 300),
+        ipAddress: req.ip,
+      });
+      if (rotated) {
+        return {
+          token: this.signAccessToken(session.userId, session.id),
+          refreshToken: nextRefreshToken,
+          expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+          sessionId: session.id,
+        };
+      }
+      // Lost the race to a concurrent refresh; fall through to the grace check with fresh data
+      const latest = await FirebaseService.getUserSession(session.id);
+      if (!latest || !this.isActive(latest)) return null;
+      return this.refreshWithinGrace(latest, presentedHash, req);
+    }
+
+    return this.refreshWithinGrace(session, presentedHash, req);
+  }
+
+  private static async refreshWithinGrace(session: UserSession, presentedHash: string, req: Request): Promise<IssuedTokens | null> {
+    if (presentedHash !== session.previousRefreshTokenHash) return null;
+
+    const rotatedAt = session.rotatedAt?.toMillis() || 0;
+    if (Date.now() - rotatedAt <= ROTATION_GRACE_MS) {
+      return {
+        token: this.signAccessToken(session.userId, session.id),
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        sessionId: session.id,
+      };
+    }
+
+    await this.revokeSession(session.userId, session.id, 'refresh_token_reuse');
+    await SecurityService.recordEvent('refresh_token_reuse', req, { userId: session.userId, details: { sessionId: session.id } });
+    return null;
+  }
+
+  /**
+   * Verify an access token's signature and expiry, then check its session is still active.
+   * Throws for bad or expired tokens; returns null when the session was revoked or has ended.
+   */
+  static async verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    // Tokens issued before sessions existed have no session id and can't be revoked, so they are refused
+    if (!decoded?.userId || !decoded?.sid) return null;
+
+    const session = await FirebaseService.getUserSession(decoded.sid);
+    if (!session || session.userId !== decoded.userId || !this.isActive(session)) return null;
+
+    return { userId: decoded.userId, sid: decoded.sid };
+  }
+
+  /**
+   * User behind the request's bearer token, for routes that also serve signed-out visitors.
+   * Null when there is no token or it doesn't verify against an active session.
+   */
+  static async getOptionalUserId(req: Request): Promise<string | null> {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+    if (!token) return null;
+    try {
+      return (await this.verifyAccessToken(token))?.userId || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * End the session an access token belongs to. Expired access tokens are accepted (the signature
+   * still has to verify) so signing out works after the token lapses.
+   */
+  static async endSession(accessToken: string): Promise<void> {
+    const decoded = jwt.verify(accessToken, process.env.JWT_SECRET!, { ignoreExpiration: true }) as any;
+    if (decoded?.userId && decoded?.sid) {
+      await this.revokeSession(decoded.userId, decoded.sid, 'logout');
+    }
+  }
+
+  static isActive(session: UserSession): boolean {
+    return !session.revokedAt && session.expiresAt.toMillis() > Date.now();
+  }
+
+  static async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await FirebaseService.getUserSessions(userId);
+    return sessions
+      .filter(session => this.isActive(session))
+      .sort((a, b) => b.lastUsedAt.toMillis() - a.lastUsedAt.toMillis())
+      .map(session => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+      }));
+  }
+
+  /**
+   * Revoke one session of a user. Returns false when it doesn't exist or belongs to someone else.
+   */
+  static async revokeSession(userId: string, sessionId: string, reason: string): Promise<boolean> {
+    const session = await FirebaseService.getUserSession(sessionId);
+    if (!session || session.userId !== userId) return false;
+    if (!session.revokedAt) {
+      await FirebaseService.updateUserSession(sessionId, { revokedAt: Timestamp.now(), revokedReason: reason });
+    }
+    return true;
+  }
+
+  static async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    return FirebaseService.revokeUserSessions(userId, reason, exceptSessionId);
+  }
+
+  private static signAccessToken(userId: string, sessionId: string): string {
+    return jwt.sign({ userId, sid: sessionId }, process.env.JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+  }
+
+  private static newSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+}
@@ -0,0 +1,141 @@
+import { FirebaseService, StageMapping, StageMappingEntry } from './firebaseService';
+
+export interface BoardStage {
+  name: string;
+  color: string;
+  order: number;
+  aliases: string[]; // Other stage names stored on deals that belong in this column
+}
+
+// Portal stages used until an admin saves a mapping for the configured pipeline
+export const DEFAULT_PORTAL_STAGES: BoardStage[] = [
+  { name: 'Underwriting', color: 'bg-green-500', order: 0, aliases: ['Underwriting Stage', 'In Underwriting', 'Under Review'] },
+  { name: 'Signed Proposal', color: 'bg-gray-400', order: 1, aliases: ['Signed Proposal Stage', 'Proposal Signed', 'Proposal Accepted'] },
+  { name: 'Proposal', color: 'bg-orange-500', order: 2, aliases: ['Proposal Stage', 'Proposal Sent'] },
+  { name: 'Lender Submission', color: 'bg-pink-500', order: 3, aliases: ['Lender Submission Stage', 'Submission'] },
+  { name: 'Needs Analysis', color: 'bg-teal-500', order: 4, aliases: ['Needs Analysis Stage', 'Analysis'] },
+  { name: 'Qualification', color: 'bg-blue-400', order: 5, aliases: ['Initial Qualification', 'Initial Qualification Stage', 'Qualification Stage'] },
+];
+
+export class StageMappingService {
+  /**
+   * Resolve a GHL stage to a portal stage.
+   * A stored mapping keyed by stageId always wins; legacy stage names are only matched exactly,
+   * so a renamed GHL stage is reported as unmapped instead of silently landing in the wrong column.
+   */
+  static async resolvePortalStage(params: {
+    pipelineId?: string;
+    stageId?: string;
+    stageName?: string;
+  }): Promise<{ stage: string; mapped: boolean }> {
+    const { pipelineId, stageId, stageName } = params;
+
+    if (stageId) {
+      const entry = await this.findEntryByStageId(stageId, pipelineId);
+      if (entry) {
+        return { stage: entry.portalStage, mapped: true };
+      }
+    }
+
+    if (stageName) {
+      const legacyStage = this.matchLegacyStageName(stageName);
+      if (legacyStage) {
+        return { stage: legacyStage, mapped: true };
+      }
+      return { stage: stageName, mapped: false };
+    }
+
+    return { stage: stageId || 'No Stage', mapped: false };
+  }
+
+  /**
+   * Find the GHL stageId for a portal stage in a pipeline (used for outbound sync)
+   */
+  static async getGHLStageId(pipelineId: string, portalStage: string): Promise<string | null> {
+    const mapping = await FirebaseService.getStageMapping(pipelineId);
+    const entry = mapping?.stages.find(stage => stage.portalStage === portalStage);
+    return entry ? entry.ghlStageId : null;
+  }
+
+  /**
+   * Ordered stage columns for the deal board, built from the configured pipeline's mapping
+   */
+  static async getBoardStages(): Promise<BoardStage[]> {
+    const pipelineId = await FirebaseService.getConfiguration('ghl_pipeline_id');
+    const mapping = pipelineId ? await FirebaseService.getStageMapping(pipelineId) : null;
+
+    if (!mapping || mapping.stages.length === 0) {
+      return DEFAULT_PORTAL_STAGES;
+    }
+
+    return this.buildBoardStages(mapping);
+  }
+
+  static buildBoardStages(mapping: StageMapping): BoardStage[] {
+    const byPortalStage = new Map<string, BoardStage>();
+    [...mapping.stages]
+      .sort((a, b) => a.order - b.order)
+      .forEach(entry => {
+        const existing = byPortalStage.get(entry.portalStage);
+        if (existing) {
+          if (entry.ghlStageName && !existing.aliases.includes(entry.ghlStageName)) {
+            existing.aliases.push(entry.ghlStageName);
+          }
+          return;
+        }
+        const defaults = DEFAULT_PORTAL_STAGES.find(stage => stage.name === entry.portalStage);
+        const aliases = [...(defaults?.aliases || [])];
+        if (entry.ghlStageName && entry.ghlStageName !== entry.portalStage && !aliases.includes(entry.ghlStageName)) {
+          aliases.push(entry.ghlStageName);
+        }
+        byPortalStage.set(entry.portalStage, {
+          name: entry.portalStage,
+          color: entry.color || defaults?.color || 'bg-gray-500',
+          order: entry.order,
+          aliases,
+        });
+      });
+    return Array.from(byPortalStage.values());
+  }
+
+  /**
+   * Validate and normalize admin input for a pipeline mapping
+   */
+  static normalizeEntries(entries: any[]): StageMappingEntry[] {
+    return entries
+      .filter(entry => entry && typeof entry.ghlStageId === 'string' && entry.ghlStageId.trim() !== '')
+      .filter(entry => typeof entry.portalStage === 'string' && entry.portalStage.trim() !== '')
+      .map((entry, index) => ({
+        ghlStageId: entry.ghlStageId.trim(),
+        ghlStageName: typeof entry.ghlStageName === 'string' ? entry.ghlStageName : '',
+        portalStage: entry.portalStage.trim(),
+        order: Number.isFinite(Number(entry.order)) ? Number(entry.order) : index,
+        color: typeof entry.color === 'string' && entry.color ? entry.color : 'bg-gray-500',
+      }));
+  }
+
+  private static async findEntryByStageId(stageId: string, pipelineId?: string): Promise<StageMappingEntry | null> {
+    if (pipelineId) {
+      const mapping = await FirebaseService.getStageMapping(pipelineId);
+      const entry = mapping?.stages.find(stage => stage.ghlStageId === stageId);
+      if (entry) return entry;
+    }
+
+    // Stage IDs are unique across pipelines, so search every mapping when the pipeline is unknown
+    const mappings = await FirebaseService.getAllStageMappings();
+    for (const mapping of mappings) {
+      const entry = mapping.stages.find(stage => stage.ghlStageId === stageId);
+      if (entry) return entry;
+    }
+    return null;
+  }
+
+  private static matchLegacyStageName(stageName: string): string | null {
+    const normalized = stageName.trim().toLowerCase();
+    const match = DEFAULT_PORTAL_STAGES.find(stage =>
+      stage.name.toLowerCase() === normalized ||
+      stage.aliases.some(alias => alias.toLowerCase() === normalized)
+    );
+    return match ? match.name : null;
+  }
+}
@@ -1,6 +1,7 @@
 import Stripe from 'stripe';
 import { FirebaseService } from './firebaseService';
-import { DiscordBotService } from './discordBotService';
+import { DiscordRoleSyncService } from './discordRoleSyncService';
+import { BillingEmailService } from './billingEmailService';
 import { DiscordService } from './discordService';
 import { Subscription } from './firebaseService';
 
@@ -496,7 +497,7 @@ export class StripeService {
         // Still try to add to Discord even if user creation fails
         if (discordId && (subscription.status === 'active' || subscription.status === 'trialing')) {
           try {
-            await DiscordBotService.addMemberToServer(discordId);
+            await DiscordRoleSyncService.syncMember(discordId, { trigger: 'subscription', subscriptionActive: true });
           } catch (discordError) {
           }
         }
@@ -509,7 +510,7 @@ export class StripeService {
       // Still try to add to Discord if Discord ID is in metadata
       if (discordId && (subscription.status === 'active' || subscription.status === 'trialing')) {
         try {
-          await DiscordBotService.addMemberToServer(discordId);
+          await DiscordRoleSyncService.syncMember(discordId, { trigger: 'subscription', subscriptionActive: true });
         } catch (error) {
         }
       }
@@ -573,22 +574,13 @@ export class StripeService {
         // For payment_intent.succeeded, subscription might still be 'incomplete' but payment is confirmed
         const isPaymentSucceeded = event.type === 'invoice.payment_succeeded' || event.type === 'payment_intent.succeeded';
         if (subscription.status === 'active' || subscription.status === 'trialing' || (isPaymentSucceeded && subscription.status === 'incomplete')) {
-          // Add user to Discord server and assign paid role if Discord ID is available
+          // Grant the paid role if Discord ID is available (members not yet in the server are added on Discord login)
           if (finalDiscordId) {
             try {
-              // Add user to Discord server (assigns paid role)
-              const added = await DiscordBotService.addMemberToServer(finalDiscordId);
-              if (added) {
-              } else {
-              }
+              await DiscordRoleSyncService.syncMember(finalDiscordId, { trigger: 'subscription', subscriptionActive: true });
             } catch (error: any) {
-              // Log detailed error for debugging
-              if (error?.response) {
-              } else if (error?.request) {
-              } else {
-              }
+              // The reconcile job retries role changes that fail here
             }
-          } else {
           }
         }
 
@@ -604,6 +596,13 @@ export class StripeService {
             userId,
           } as Omit<Subscription, 'id' | 'createdAt'>);
         }
+
+        // A renewal that failed earlier went through: forget the lapse and let the member know
+        const wasLapsed = existingSub && (existingSub.status === 'past_due' || existingSub.status === 'unpaid' || existingSub.accessRevokedAt);
+        if (existingSub && wasLapsed && (subscription.status === 'active' || subscription.status === 'trialing')) {
+          await FirebaseService.clearSubscriptionLapse(existingSub.id);
+          await this.sendBillingEmail('payment_recovered', userId, `payment_recovered_${subscription.id}_${subscription.current_period_end}`);
+        }
         
         // Update user with subscription ID and whitelist status
         const userUpdates: Partial<import('../services/firebaseService').User> = {};
@@ -614,6 +613,9 @@ export class StripeService {
         if ((subscription.status === 'active' || subscription.status === 'trialing') && !user.isWhitelisted) {
           userUpdates.isWhitelisted = true;
         }
+        if ((subscription.status === 'active' || subscription.status === 'trialing') && user.accessLapsedAt) {
+          await FirebaseService.clearUserAccessLapse(userId);
+        }
         
         // Set onboarding step to 2 (password creation) after payment
         // Only set if user hasn't completed onboarding yet
@@ -623,13 +625,13 @@ export class StripeService {
         
         // Generate verification code and send welcome email for new subscriptions
         // Only generate if user doesn't have a verification code yet (first payment)
-        if (!user.verificationCode && (subscription.status === 'active' || subscription.status === 'trialing')) {
+        if (!user.verificationCode && !user.verificationCodeHash && !user.verificationCodeUsedAt && (subscription.status === 'active' || subscription.status === 'trialing')) {
           try {
             const verificationCode = await FirebaseService.generateVerificationCode();
             const codeExpiresAt = FirebaseService.timestampFromDate(
               new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
             );
-            userUpdates.verificationCode = verificationCode;
+            userUpdates.verificationCodeHash = FirebaseService.hashAuthCode(verificationCode);
             userUpdates.verificationCodeExpiresAt = codeExpiresAt;
                         // Send welcome email with verification code
             // Get email from customer object (most reliable source)
@@ -651,19 +653,14 @@ export class StripeService {
             const username = discordUsername || user.username || 'there';
             
             if (customerEmail) {
-                                          try {
-                await EmailService.sendWelcomeEmail(customerEmail, username, verificationCode);
-                              } catch (emailError: any) {
-                                                // Check if email service is initialized
-                if (emailError?.message?.includes('not configured') || emailError?.message?.includes('transporter')) {
-                                                    }
-              }
+              // Queued and retried by the email queue; a send failure shows up in the admin email log
+              await EmailService.sendWelcomeEmail(customerEmail, username, verificationCode, { userId });
             } else {
                                         }
           } catch (error: any) {
                                     // Don't fail webhook if email fails, but log the error
           }
-        } else if (user.verificationCode) {
+        } else if (user.verificationCode || user.verificationCodeHash || user.verificationCodeUsedAt) {
                   }
         
         if (Object.keys(userUpdates).length > 0) {
@@ -703,6 +700,9 @@ export class StripeService {
         if (sub) {
           await FirebaseService.updateSubscription(sub.id, subscriptionData);
         }
+        await this.sendBillingEmail('subscription_canceled', userId, `subscription_canceled_${subscription.id}`, {
+          accessEndsAt: subscriptionData.gracePeriodEnd?.toDate(),
+        });
 
         // Remove user from Discord server if not in grace period
         // Use Discord ID from metadata or user record
@@ -723,14 +723,14 @@ export class StripeService {
             // Only remove if past grace period
             if (now > gracePeriodEnd) {
               try {
-                await DiscordBotService.removeMemberFromServer(discordIdForRemoval);
+                await DiscordRoleSyncService.syncMember(discordIdForRemoval, { trigger: 'subscription', subscriptionActive: false });
               } catch (error) {
               }
             }
           } else {
             // If no period end date, remove immediately
             try {
-              await DiscordBotService.removeMemberFromServer(discordIdForRemoval);
+              await DiscordRoleSyncService.syncMember(discordIdForRemoval, { trigger: 'subscription', subscriptionActive: false });
             } catch (error) {
             }
           }
@@ -743,13 +743,38 @@ export class StripeService {
           // Update subscription status but don't remove from Discord yet (grace period)
           const failedSub = await FirebaseService.getSubscriptionByUserId(userId);
           if (failedSub) {
+            // This first notice counts as the day-0 dunning email, so the sweep doesn't repeat it
             await FirebaseService.updateSubscription(failedSub.id, {
               status: subscription.status as Subscription['status'],
+              dunningEmailsSentDays: [...new Set([0, ...(failedSub.dunningEmailsSentDays || [])])].sort((a, b) => a - b),
               updatedAt: FirebaseService.timestampNow(),
             });
           }
+          // Access follows the stored grace period (canAccessPortal), not the period Stripe just opened
+          await this.sendBillingEmail('payment_failed', userId, `payment_failed_${subscription.id}_${subscription.current_period_end}`, {
+            accessEndsAt: (failedSub?.gracePeriodEnd || subscriptionData.gracePeriodEnd)?.toDate(),
+          });
         }
         break;
+
+      case 'customer.subscription.trial_will_end':
+        if (subscription.status === 'trialing' && subscription.trial_end) {
+          await this.sendBillingEmail('trial_ending', userId, `trial_ending_${subscription.id}_${subscription.trial_end}`, {
+            trialEndsAt: new Date(subscription.trial_end * 1000),
+          });
+        }
+        break;
+    }
+  }
+
+  /**
+   * Send a billing email without failing the webhook; its dedupe key makes a retried delivery safe
+   */
+  private static async sendBillingEmail(...args: Parameters<typeof BillingEmailService.send>): Promise<void> {
+    try {
+      await BillingEmailService.send(...args);
+    } catch (error) {
+      // Email problems must not fail subscription processing
     }
   }
 
@@ -0,0 +1,156 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirebaseService, Subscription, User } from './firebaseService';
+import { BillingEmailService } from './billingEmailService';
+import { DiscordRoleSyncService } from './discordRoleSyncService';
+import { SessionService } from './sessionService';
+import { JobResult } from './scheduledJobService';
+import { canAccessPortal, isSubscriptionActive } from '../utils/subscriptionChecker';
+
+const DUNNING_OFFSETS_CONFIG_KEY = 'dunning_offsets_days';
+const DEFAULT_DUNNING_OFFSETS_DAYS = [0, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Enforces the grace period without waiting for the member to hit the API: emails members whose
+ * renewal failed, and once the grace period is over removes their paid Discord role and portal flags.
+ */
+export class SubscriptionSweepService {
+  /**
+   * Days after the period end on which a failed renewal gets a dunning email
+   */
+  static async getDunningOffsets(): Promise<number[]> {
+    const stored = await FirebaseService.getConfiguration(DUNNING_OFFSETS_CONFIG_KEY);
+    if (stored === null) return DEFAULT_DUNNING_OFFSETS_DAYS;
+    return this.parseOffsets(stored);
+  }
+
+  static async setDunningOffsets(offsetsDays: number[]): Promise<number[]> {
+    const offsets = this.parseOffsets(offsetsDays.join(','));
+    await FirebaseService.setConfiguration(
+      DUNNING_OFFSETS_CONFIG_KEY,
+      offsets.join(','),
+      'Days after the period end to send dunning emails'
+    );
+    return offsets;
+  }
+
+  static async sweep(): Promise<JobResult> {
+    const [subscriptions, dunningOffsets] = await Promise.all([
+      FirebaseService.getAllSubscriptions(),
+      this.getDunningOffsets(),
+    ]);
+    const summary = { checked: 0, recovered: 0, dunningEmailsSent: 0, graceEndingEmailsSent: 0, accessRevoked: 0 };
+    const errors: string[] = [];
+
+    // Members who resubscribed keep an old lapsed subscription record around; it must not revoke them
+    const userIdsWithAccess = new Set(subscriptions.filter(subscription => canAccessPortal(subscription)).map(subscription => subscription.userId));
+
+    for (const subscription of subscriptions) {
+      summary.checked++;
+      try {
+        if (isSubscriptionActive(subscription)) {
+          if (subscription.accessRevokedAt || subscription.dunningEmailsSentDays?.length) {
+            await FirebaseService.clearSubscriptionLapse(subscription.id);
+            if (subscription.accessRevokedAt) {
+              await FirebaseService.clearUserAccessLapse(subscription.userId);
+            }
+            summary.recovered++;
+          }
+        } else if (canAccessPortal(subscription)) {
+          if (await this.sendDueDunningEmail(subscription, dunningOffsets)) {
+            summary.dunningEmailsSent++;
+          }
+          if (await this.sendGraceEndingEmail(subscription)) {
+            summary.graceEndingEmailsSent++;
+          }
+        } else if (!subscription.accessRevokedAt && !userIdsWithAccess.has(subscription.userId)) {
+          await this.revokeAccess(subscription);
+          summary.accessRevoked++;
+          await BillingEmailService.send(
+            'access_revoked',
+            subscription.userId,
+            `access_revoked_${subscription.id}_${subscription.currentPeriodEnd?.toMillis() || 0}`
+          );
+        }
+      } catch (error: any) {
+        errors.push(`Subscription ${subscription.id}: ${error?.message || String(error)}`);
+      }
+    }
+
+    return { summary, errors };
+  }
+
+  /**
+   * Send at most one email per run for a failed renewal, covering every offset that has come due
+   */
+  private static async sendDueDunningEmail(subscription: Subscription, dunningOffsets: number[]): Promise<boolean> {
+    if (subscription.status !== 'past_due' && subscription.status !== 'unpaid') return false;
+    if (!subscription.currentPeriodEnd || !subscription.gracePeriodEnd) return false;
+
+    const daysPastDue = Math.floor((Date.now() - subscription.currentPeriodEnd.toMillis()) / DAY_MS);
+    const alreadySent = subscription.dunningEmailsSentDays || [];
+    const dueOffsets = dunningOffsets.filter(offset => offset <= daysPastDue && !alreadySent.includes(offset));
+    if (dueOffsets.length === 0) return false;
+
+    const sent = await BillingEmailService.send(
+      'payment_failed',
+      subscription.userId,
+      `payment_failed_${subscription.id}_${subscription.currentPeriodEnd.toMillis()}_day${dueOffsets[dueOffsets.length - 1]}`,
+      { accessEndsAt: subscription.gracePeriodEnd.toDate(), reminder: true }
+    );
+    await FirebaseService.updateSubscription(subscription.id, {
+      dunningEmailsSentDays: [...alreadySent, ...dueOffsets].sort((a, b) => a - b),
+    });
+    return sent;
+  }
+
+  /**
+   * Last call for canceled memberships the day before the grace period ends. Failed renewals
+   * get dunning emails instead, which already say when access ends.
+   */
+  private static async sendGraceEndingEmail(subscription: Subscription): Promise<boolean> {
+    if (subscription.status !== 'canceled' || !subscription.gracePeriodEnd) return false;
+    if (subscription.gracePeriodEnd.toMillis() - Date.now() > DAY_MS) return false;
+
+    return BillingEmailService.send(
+      'grace_period_ending',
+      subscription.userId,
+      `grace_period_ending_${subscription.id}_${subscription.gracePeriodEnd.toMillis()}`,
+      { accessEndsAt: subscription.gracePeriodEnd.toDate() }
+    );
+  }
+
+  /**
+   * Remove the paid role and access flags of a member whose grace period is over, and sign them out.
+   * accessLapsedAt keeps members who never finished onboarding from passing the subscription check
+   * through the onboarding bypass when they sign in again. The subscription is only marked once
+   * everything succeeded, so a failure is retried on the next run.
+   */
+  private static async revokeAccess(subscription: Subscription): Promise<void> {
+    const user = await FirebaseService.getUserById(subscription.userId);
+
+    if (user && !user.hasManualSubscription) {
+      if (user.discordId) {
+        await DiscordRoleSyncService.syncMember(user.discordId, { trigger: 'subscription', subscriptionActive: false });
+      }
+
+      const updates: Partial<User> = { accessLapsedAt: Timestamp.now() };
+      if (user.isWhitelisted) updates.isWhitelisted = false;
+      if (!user.onboardingCompleted && user.onboardingStep !== 1) updates.onboardingStep = 1; // Back to payment
+      await FirebaseService.updateUser(user.id, updates);
+      await SessionService.revokeAllSessions(user.id, 'access_removed');
+    }
+
+    await FirebaseService.updateSubscription(subscription.id, { accessRevokedAt: Timestamp.now() });
+  }
+
+  private static parseOffsets(value: string): number[] {
+    const offsets = value
+      .split(',')
+      .map(offset => offset.trim())
+      .filter(Boolean)
+      .map(Number)
+      .filter(offset => Number.isInteger(offset) && offset >= 0);
+    return [...new Set(offsets)].sort((a, b) => a - b);
+  }
+}
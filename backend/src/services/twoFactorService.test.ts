@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { authenticator } from 'otplib';
+import { TwoFactorService } from './twoFactorService';
+import { SecretService } from './secretService';
+import { FirebaseService, User } from './firebaseService';
+
+describe('TwoFactorService', () => {
+  let user: User;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    process.env.SECRET_ENCRYPTION_KEYS = `k1:${crypto.randomBytes(32).toString('base64')}`;
+    user = { id: 'user-1', username: 'member', email: 'member@example.com' } as User;
+
+    mock.method(FirebaseService, 'updateUser', async (id: string, updates: Partial<User>) => {
+      user = { ...user, ...updates };
+      return user;
+    });
+    mock.method(FirebaseService, 'clearTwoFactorPendingSecret', async () => {
+      user = { ...user, twoFactorPendingSecret: undefined };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  // Enroll the user and return the authenticator secret and backup codes
+  const enroll = async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(user);
+    const backupCodes = await TwoFactorService.completeEnrollment(user, authenticator.generate(secret));
+    assert.ok(backupCodes);
+    return { secret, backupCodes };
+  };
+
+  it('stores the authenticator secret encrypted', async () => {
+    const { secret } = await enroll();
+
+    assert.equal(TwoFactorService.isEnabled(user), true);
+    assert.ok(SecretService.isEncrypted(user.twoFactorSecret));
+    assert.equal(SecretService.decrypt(user.twoFactorSecret!), secret);
+    assert.equal(user.twoFactorPendingSecret, undefined);
+  });
+
+  it('refuses to finish enrollment with a wrong code', async () => {
+    await TwoFactorService.beginEnrollment(user);
+
+    assert.equal(await TwoFactorService.completeEnrollment(user, '000000'), null);
+    assert.equal(TwoFactorService.isEnabled(user), false);
+  });
+
+  it('accepts a TOTP code only once', async () => {
+    const { secret } = await enroll();
+    // Pretend enrollment was a minute ago, so the current code hasn't been used yet
+    user = { ...user, twoFactorLastUsedStep: user.twoFactorLastUsedStep! - 2 };
+    const code = authenticator.generate(secret);
+
+    assert.equal(await TwoFactorService.verifyCode(user, code), 'totp');
+    assert.equal(await TwoFactorService.verifyCode(user, code), null);
+  });
+
+  it('does not accept the code that confirmed enrollment for sign-in', async () => {
+    const { secret } = await TwoFactorService.beginEnrollment(user);
+    const code = authenticator.generate(secret);
+    await TwoFactorService.completeEnrollment(user, code);
+
+    assert.equal(await TwoFactorService.verifyCode(user, code), null);
+  });
+
+  it('uses up a backup code, whatever its case or dashes', async () => {
+    const { backupCodes } = await enroll();
+    const [code] = backupCodes;
+
+    assert.equal(await TwoFactorService.verifyCode(user, code.toLowerCase().replace('-', '')), 'backup_code');
+    assert.equal(await TwoFactorService.verifyCode(user, code), null);
+    assert.equal(user.twoFactorBackupCodeHashes?.length, backupCodes.length - 1);
+  });
+
+  it('still accepts backup codes stored before the hashes were keyed', async () => {
+    await enroll();
+    const legacyHash = crypto.createHash('sha256').update('ABCD2345').digest('hex');
+    user = { ...user, twoFactorBackupCodeHashes: [legacyHash] };
+
+    assert.equal(await TwoFactorService.verifyCode(user, 'ABCD-2345'), 'backup_code');
+    assert.deepEqual(user.twoFactorBackupCodeHashes, []);
+  });
+});
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import { FirebaseService, User } from './firebaseService';
+import { SecretService } from './secretService';
+
+const ISSUER = 'Rainmakers Portal';
+const TOTP_STEP_SECONDS = 30;
+const BACKUP_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 10 * 60;
+
+// Accept the previous and next 30-second code too, for clock drift between phone and server
+authenticator.options = { step: TOTP_STEP_SECONDS, window: 1 };
+
+/**
+ * Sent instead of tokens when the first factor (password, email code, Discord) succeeded
+ * but a second factor is still needed
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  twoFactorSetupRequired: boolean; // Admin without an authenticator yet: enroll before signing in
+  challengeToken: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of otpauthUrl
+}
+
+export type TwoFactorMethod = 'totp' | 'backup_code';
+
+// Backup codes are case-insensitive and the dash is optional when typed
+const normalizeBackupCode = (code: string) => code.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+export class TwoFactorService {
+  static isRequired(user: Pick<User, 'isAdmin'>): boolean {
+    return !!user.isAdmin;
+  }
+
+  static isEnabled(user: Pick<User, 'twoFactorEnabled' | 'twoFactorSecret'>): boolean {
+    return !!user.twoFactorEnabled && !!user.twoFactorSecret;
+  }
+
+  /**
+   * The challenge to send after a successful first factor, or null when the user can be signed in directly
+   */
+  static challengeFor(user: User): TwoFactorChallenge | null {
+    const enabled = this.isEnabled(user);
+    if (!enabled && !this.isRequired(user)) return null;
+
+    const challengeToken = jwt.sign(
+      { userId: user.id, purpose: 'two_factor' },
+      process.env.JWT_SECRET!,
+      { expiresIn: CHALLENGE_TTL_SECONDS }
+    );
+    return { twoFactorRequired: true, twoFactorSetupRequired: !enabled, challengeToken };
+  }
+
+  /**
+   * User id of a challenge token, or null when it is invalid, expired or not a challenge
+   */
+  static verifyChallengeToken(challengeToken: string): string | null {
+    try {
+      const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET!) as any;
+      return decoded?.purpose === 'two_factor' && decoded.userId ? decoded.userId : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret. It only becomes active once
+   * completeEnrollment confirms a code from the authenticator app.
+   */
+  static async beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    const secret = authenticator.generateSecret();
+    await FirebaseService.updateUser(user.id, { twoFactorPendingSecret: SecretService.encrypt(secret) });
+
+    const otpauthUrl = authenticator.keyuri(user.email || user.username, ISSUER, secret);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Confirm enrollment with a code from the new authenticator. Returns the backup codes
+   * (shown once) or null when the code is wrong or no enrollment is in progress.
+   */
+  static async completeEnrollment(user: User, code: string): Promise<string[] | null> {
+    if (!user.twoFactorPendingSecret) return null;
+    const step = this.matchTotp(code, SecretService.decrypt(user.twoFactorPendingSecret));
+    if (step === null) return null;
+
+    const { codes, hashes } = this.generateBackupCodes();
+    await FirebaseService.updateUser(user.id, {
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorBackupCodeHashes: hashes,
+      twoFactorLastUsedStep: step,
+      twoFactorEnabledAt: FirebaseService.timestampNow(),
+    });
+    await FirebaseService.clearTwoFactorPendingSecret(user.id);
+    return codes;
+  }
+
+  /**
+   * Check a sign-in code: a current TOTP code, or one of the backup codes (which is then used up).
+   * A TOTP code is accepted once, so a code seen over someone's shoulder can't be replayed.
+   */
+  static async verifyCode(user: User, code: string): Promise<TwoFactorMethod | null> {
+    if (!this.isEnabled(user)) return null;
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = this.matchTotp(trimmed, SecretService.decrypt(user.twoFactorSecret!));
+      if (step === null || step <= (user.twoFactorLastUsedStep ?? -1)) return null;
+      await FirebaseService.updateUser(user.id, { twoFactorLastUsedStep: step });
+      return 'totp';
+    }
+
+    const normalized = normalizeBackupCode(trimmed);
+    // Codes issued before the hashes were keyed are stored as plain SHA-256 until they are used or regenerated
+    const legacyHash = crypto.createHash('sha256').update(normalized).digest('hex');
+    const remaining = user.twoFactorBackupCodeHashes || [];
+    const hash = [FirebaseService.hashAuthCode(normalized), legacyHash].find(candidate => remaining.includes(candidate));
+    if (!hash) return null;
+    await FirebaseService.updateUser(user.id, {
+      twoFactorBackupCodeHashes: remaining.filter(existing => existing !== hash),
+    });
+    return 'backup_code';
+  }
+
+  static async regenerateBackupCodes(user: User): Promise<string[]> {
+    const { codes, hashes } = this.generateBackupCodes();
+    await FirebaseService.updateUser(user.id, { twoFactorBackupCodeHashes: hashes });
+    return codes;
+  }
+
+  static async disable(user: User): Promise<void> {
+    await FirebaseService.clearTwoFactor(user.id);
+  }
+
+  /**
+   * Time step the code belongs to, or null when it doesn't match within the drift window
+   */
+  private static matchTotp(code: string, secret: string): number | null {
+    const delta = authenticator.checkDelta(code.trim(), secret);
+    if (delta === null) return null;
+    return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+  }
+
+  private static generateBackupCodes(): { codes: string[]; hashes: string[] } {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Same alphabet as verification codes
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      let code = '';
+      for (let i = 0; i < 8; i++) {
+        code += chars.charAt(crypto.randomInt(chars.length));
+      }
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+    return { codes, hashes: codes.map(code => FirebaseService.hashAuthCode(normalizeBackupCode(code))) };
+  }
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { WebhookQueueService } from './webhookQueueService';
+import { FirebaseService, WebhookEvent } from './firebaseService';
+
+describe('WebhookQueueService', () => {
+  let events: Map<string, WebhookEvent>;
+  let handled: any[];
+  let failNextAttempts: number;
+
+  beforeEach(() => {
+    events = new Map();
+    handled = [];
+    failNextAttempts = 0;
+
+    // Same contract as Firestore create(): a second delivery of an event id is reported as a duplicate
+    mock.method(FirebaseService, 'createWebhookEvent', async (data: Pick<WebhookEvent, 'provider' | 'eventId' | 'eventType' | 'payload' | 'maxAttempts' | 'nextAttemptAt'>) => {
+      const id = `${data.provider}_${data.eventId}`;
+      const existing = events.get(id);
+      if (existing) return { event: { ...existing }, duplicate: true };
+      const event = { ...data, id, status: 'pending', attempts: 0, receivedAt: Timestamp.now(), updatedAt: Timestamp.now() } as WebhookEvent;
+      events.set(id, event);
+      return { event: { ...event }, duplicate: false };
+    });
+    mock.method(FirebaseService, 'getWebhookEvent', async (id: string) => (events.has(id) ? { ...events.get(id)! } : null));
+    mock.method(FirebaseService, 'updateWebhookEvent', async (id: string, updates: Partial<WebhookEvent>) => {
+      const cleanUpdates = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      events.set(id, { ...events.get(id)!, ...cleanUpdates });
+    });
+    // Claims go through a transaction; run it against the in-memory events
+    mock.method(getFirestore(), 'runTransaction', async (update: (transaction: unknown) => Promise<unknown>) => update({
+      get: async (ref: { id: string }) => {
+        const event = events.get(ref.id);
+        return { exists: !!event, id: ref.id, data: () => event };
+      },
+      update: (ref: { id: string }, updates: Partial<WebhookEvent>) => {
+        events.set(ref.id, { ...events.get(ref.id)!, ...updates });
+      },
+    }));
+    mock.method(FirebaseService, 'getDueWebhookEvents', async () => [...events.values()].filter(event =>
+      ['failed', 'pending', 'processing'].includes(event.status) && event.nextAttemptAt && event.nextAttemptAt.toMillis() <= Date.now()));
+
+    WebhookQueueService.registerHandler('ghl', async (payload) => {
+      if (failNextAttempts > 0) {
+        failNextAttempts--;
+        throw new Error('GHL is down');
+      }
+      handled.push(payload);
+      return { ok: true };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  // Let the backoff of a failed event run out
+  const makeDue = (id: string) => {
+    events.set(id, { ...events.get(id)!, nextAttemptAt: Timestamp.fromMillis(Date.now() - 1000) });
+  };
+
+  it('processes a delivery once and acknowledges redeliveries as duplicates', async () => {
+    const delivery = { provider: 'ghl' as const, eventId: 'evt-1', eventType: 'OpportunityUpdate', payload: { id: 'opp-1' } };
+
+    const first = await WebhookQueueService.receive(delivery);
+    const second = await WebhookQueueService.receive(delivery);
+
+    assert.equal(first.duplicate, false);
+    assert.equal(first.event.status, 'processed');
+    assert.deepEqual(first.result, { ok: true });
+    assert.equal(second.duplicate, true);
+    assert.deepEqual(handled, [{ id: 'opp-1' }]);
+  });
+
+  it('gives the same payload the same fingerprint within ten minutes only', () => {
+    const payload = { opportunityId: 'opp-1', stage: 'Closed' };
+    const receivedAt = new Date('2024-05-01T10:01:00Z');
+
+    assert.equal(
+      WebhookQueueService.fingerprint(payload, receivedAt),
+      WebhookQueueService.fingerprint(payload, new Date('2024-05-01T10:08:00Z'))
+    );
+    assert.notEqual(
+      WebhookQueueService.fingerprint(payload, receivedAt),
+      WebhookQueueService.fingerprint(payload, new Date('2024-05-01T10:31:00Z'))
+    );
+    assert.notEqual(
+      WebhookQueueService.fingerprint(payload, receivedAt),
+      WebhookQueueService.fingerprint({ ...payload, stage: 'Funded' }, receivedAt)
+    );
+  });
+
+  it('keeps a failed event and retries it once its backoff has passed', async () => {
+    failNextAttempts = 1;
+
+    const { event } = await WebhookQueueService.receive({ provider: 'ghl', eventId: 'evt-2', eventType: 'OpportunityUpdate', payload: { id: 'opp-2' } });
+
+    assert.equal(event.status, 'failed');
+    assert.equal(event.lastError, 'GHL is down');
+    assert.ok(event.nextAttemptAt!.toMillis() > Date.now());
+    assert.deepEqual(await WebhookQueueService.processDueEvents(), { attempted: 0, processed: 0, failed: 0 });
+
+    makeDue(event.id);
+    assert.deepEqual(await WebhookQueueService.processDueEvents(), { attempted: 1, processed: 1, failed: 0 });
+    assert.equal(events.get(event.id)?.status, 'processed');
+    assert.equal(events.get(event.id)?.attempts, 2);
+  });
+
+  it('marks an event dead once its attempts are used up', async () => {
+    failNextAttempts = 100;
+    const { event } = await WebhookQueueService.receive({ provider: 'ghl', eventId: 'evt-3', eventType: 'OpportunityUpdate', payload: {} });
+
+    for (let attempt = 2; attempt <= event.maxAttempts; attempt++) {
+      makeDue(event.id);
+      await WebhookQueueService.processDueEvents();
+    }
+
+    assert.equal(events.get(event.id)?.status, 'dead');
+    assert.equal(events.get(event.id)?.attempts, event.maxAttempts);
+  });
+
+  it('replays a dead event with a fresh attempt budget', async () => {
+    failNextAttempts = 1;
+    const { event } = await WebhookQueueService.receive({ provider: 'ghl', eventId: 'evt-4', eventType: 'OpportunityUpdate', payload: { id: 'opp-4' } });
+    events.set(event.id, { ...events.get(event.id)!, status: 'dead', attempts: event.maxAttempts });
+
+    const replayed = await WebhookQueueService.replay(event.id);
+
+    assert.equal(replayed?.status, 'processed');
+    assert.deepEqual(handled, [{ id: 'opp-4' }]);
+  });
+
+  it('takes over an attempt whose claim expired', async () => {
+    const { event } = await WebhookQueueService.receive({ provider: 'ghl', eventId: 'evt-5', eventType: 'OpportunityUpdate', payload: { id: 'opp-5' } });
+    // As if the process died mid-attempt
+    events.set(event.id, { ...events.get(event.id)!, status: 'processing', nextAttemptAt: Timestamp.fromMillis(Date.now() + 60 * 1000) });
+    assert.equal(await WebhookQueueService.process(event.id, ['processing']), null);
+
+    makeDue(event.id);
+    assert.equal((await WebhookQueueService.process(event.id, ['processing']))?.status, 'processed');
+  });
+});
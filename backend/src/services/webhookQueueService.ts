@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { FirebaseService, WebhookEvent, WebhookProvider } from './firebaseService';
+import { RetryQueue } from './retryQueue';
+
+export type WebhookHandler = (payload: any, event: WebhookEvent) => Promise<any>;
+
+export class WebhookQueueService {
+  private static readonly queue = new RetryQueue({
+    maxAttempts: 6,
+    baseDelayMs: 60 * 1000, // 1 minute
+    maxDelayMs: 6 * 60 * 60 * 1000, // 6 hours
+    claimLeaseMs: 10 * 60 * 1000,
+  }, () => WebhookQueueService.processDueEvents());
+  private static handlers: Partial<Record<WebhookProvider, WebhookHandler>> = {};
+
+  /**
+   * Register the function that processes a provider's payload.
+   * Handlers live next to the route that receives the webhook.
+   */
+  static registerHandler(provider: WebhookProvider, handler: WebhookHandler): void {
+    this.handlers[provider] = handler;
+  }
+
+  /**
+   * Build a stable event id for providers that do not send one.
+   * The payload hash is bucketed by 10 minutes so a provider retry is deduplicated,
+   * while the same change sent again later (e.g. a deal moved back to a stage) is still processed.
+   */
+  static fingerprint(payload: any, receivedAt: Date = new Date()): string {
+    const bucket = Math.floor(receivedAt.getTime() / (10 * 60 * 1000));
+    return crypto
+      .createHash('sha256')
+      .update(`${bucket}:${JSON.stringify(payload)}`)
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  /**
+   * Persist an inbound webhook and process it right away.
+   * Failures are kept on the event and retried later, so the caller can always acknowledge the delivery.
+   */
+  static async receive(params: {
+    provider: WebhookProvider;
+    eventId: string;
+    eventType: string;
+    payload: any;
+  }): Promise<{ event: WebhookEvent; duplicate: boolean; result?: any }> {
+    const { event, duplicate } = await FirebaseService.createWebhookEvent({
+      provider: params.provider,
+      eventId: params.eventId,
+      eventType: params.eventType || 'unknown',
+      payload: JSON.stringify(params.payload),
+      maxAttempts: this.queue.policy.maxAttempts,
+      // The worker takes the event over if the attempt below never gets to claim it
+      nextAttemptAt: this.queue.claimExpiry(),
+    });
+    this.queue.nudge();
+
+    if (duplicate) {
+      return { event, duplicate: true };
+    }
+
+    const processed = await this.process(event.id, ['pending']);
+    return { event: processed || event, duplicate: false, result: processed?.result };
+  }
+
+  /**
+   * Run the registered handler for an event, recording success or scheduling the next retry
+   */
+  static async process(eventId: string, allowedStatuses: WebhookEvent['status'][]): Promise<WebhookEvent | null> {
+    const event = await FirebaseService.claimWebhookEvent(eventId, allowedStatuses, this.queue.policy.claimLeaseMs);
+    if (!event) {
+      return null;
+    }
+
+    const attempts = (event.attempts || 0) + 1;
+    const handler = this.handlers[event.provider];
+
+    try {
+      if (!handler) {
+        throw new Error(`No webhook handler registered for provider "${event.provider}"`);
+      }
+
+      const result = await handler(JSON.parse(event.payload), event);
+      const updates: Partial<WebhookEvent> = {
+        status: 'processed',
+        attempts,
+        result: result === undefined ? null : JSON.parse(JSON.stringify(result)),
+        lastError: '',
+        processedAt: Timestamp.now(),
+      };
+      await FirebaseService.updateWebhookEvent(event.id, updates);
+      return { ...event, ...updates } as WebhookEvent;
+    } catch (error: any) {
+      const exhausted = this.queue.isExhausted(attempts, event.maxAttempts);
+      const updates: Partial<WebhookEvent> = {
+        status: exhausted ? 'dead' : 'failed',
+        attempts,
+        lastError: error?.message || String(error),
+        nextAttemptAt: exhausted ? undefined : this.queue.nextRetryAt(attempts),
+      };
+      await FirebaseService.updateWebhookEvent(event.id, updates);
+      return { ...event, ...updates } as WebhookEvent;
+    }
+  }
+
+  /**
+   * Re-run an event on admin request, regardless of how many attempts it already used. An event
+   * still 'processing' can only be replayed once its claim has expired.
+   */
+  static async replay(eventId: string): Promise<WebhookEvent | null> {
+    const event = await FirebaseService.getWebhookEvent(eventId);
+    if (!event) {
+      return null;
+    }
+
+    // Give the replay a fresh attempt budget so a failure schedules retries again
+    await FirebaseService.updateWebhookEvent(event.id, {
+      maxAttempts: (event.attempts || 0) + this.queue.policy.maxAttempts,
+    });
+    return this.process(event.id, ['failed', 'dead', 'processed', 'pending', 'processing']);
+  }
+
+  /**
+   * Retry failed events whose backoff has elapsed, and take over attempts that never finished
+   */
+  static async processDueEvents(limit = 20): Promise<{ attempted: number; processed: number; failed: number }> {
+    const dueEvents = await FirebaseService.getDueWebhookEvents(limit);
+    let processed = 0;
+    let failed = 0;
+
+    for (const dueEvent of dueEvents) {
+      const result = await this.process(dueEvent.id, ['failed', 'pending', 'processing']);
+      if (result?.status === 'processed') processed++;
+      else if (result) failed++;
+    }
+
+    return { attempted: dueEvents.length, processed, failed };
+  }
+
+  static startRetryWorker(intervalMs = 60 * 1000): void {
+    this.queue.startWorker(intervalMs);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Quote a CSV cell (RFC 4180). Values a spreadsheet would evaluate as a formula, or that start
+ * with a tab or carriage return (which some spreadsheets skip before evaluating), are prefixed
+ * with an apostrophe so exported data can't run formulas when opened in Excel.
+ */
+export function toCsvValue(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(lines: string[][]): string {
+  return lines.map(line => line.map(toCsvValue).join(',')).join('\r\n');
+}
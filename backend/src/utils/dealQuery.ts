@@ -0,0 +1,224 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { Deal } from '../services/firebaseService';
+
+export const DEAL_SORT_FIELDS = ['createdAt', 'loanAmount', 'stage'] as const;
+
+export type DealSortField = typeof DEAL_SORT_FIELDS[number];
+
+// Firestore field each sort option orders by. Loan amounts are stored as free text,
+// so deals carry a parsed numeric copy for sorting.
+export const DEAL_SORT_FIELD_PATHS: Record<DealSortField, string> = {
+  createdAt: 'createdAt',
+  loanAmount: 'loanAmountValue',
+  stage: 'stage',
+};
+
+export interface DealCursor {
+  value: any;
+  id: string;
+}
+
+export interface DealQueryOptions {
+  userId?: string;
+  status?: string;
+  propertyType?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string;
+  sortBy: DealSortField;
+  sortDirection: 'asc' | 'desc';
+  limit?: number; // Omitted for the legacy unpaginated responses
+  cursor?: DealCursor;
+}
+
+export interface DealPage {
+  deals: Deal[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const DEFAULT_DEAL_PAGE_SIZE = 25;
+export const MAX_DEAL_PAGE_SIZE = 100;
+
+// Fields that feed free-text search and loan amount sorting; updates touching these re-derive the index fields
+export const DEAL_SEARCH_SOURCE_FIELDS = [
+  'title',
+  'dealId',
+  'propertyName',
+  'propertyAddress',
+  'contactName',
+  'contactEmail',
+  'loanAmount',
+  'loanRequest',
+  'applicationLoanRequest',
+];
+
+// Bump when getDealQueryFields changes, so the backfill runs again when the server next starts
+export const DEAL_QUERY_FIELDS_VERSION = 1;
+
+const MAX_TOKEN_LENGTH = 20;
+const MAX_TOKENS = 500;
+
+/**
+ * Parse a free-text loan amount ("$5,000,000", "5M", "750k", "2.5") into dollars.
+ * Bare numbers below 1000 are read as millions, matching how the deal board displays them.
+ */
+export function parseLoanAmount(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number') return isNaN(value) ? 0 : value;
+
+  const lower = String(value).trim().toLowerCase().replace(/[$,\s]/g, '');
+  if (!lower) return 0;
+
+  const match = lower.match(/^(\d+(?:\.\d+)?)(mm|m|million|k|b|bn|billion)?$/);
+  if (match) {
+    const num = parseFloat(match[1]);
+    switch (match[2]) {
+      case 'mm':
+      case 'm':
+      case 'million':
+        return num * 1_000_000;
+      case 'k':
+        return num * 1_000;
+      case 'b':
+      case 'bn':
+      case 'billion':
+        return num * 1_000_000_000;
+      default:
+        return num < 1000 ? num * 1_000_000 : num;
+    }
+  }
+
+  const firstNumber = lower.match(/^(\d+(?:\.\d+)?)/);
+  if (!firstNumber) return 0;
+  const numeric = parseFloat(firstNumber[1]);
+  return numeric < 1000 ? numeric * 1_000_000 : numeric;
+}
+
+const tokenize = (value: string): string[] =>
+  value.toLowerCase().split(/[^a-z0-9@.]+/).flatMap(word => [word, ...word.split(/[@.]/)]).filter(Boolean);
+
+/**
+ * Prefix tokens for Firestore `array-contains` search ("main" matches "123 Main St")
+ */
+export function buildDealSearchTokens(deal: Record<string, any>): string[] {
+  const tokens = new Set<string>();
+  ['title', 'dealId', 'propertyName', 'propertyAddress', 'contactName', 'contactEmail'].forEach(field => {
+    if (typeof deal[field] !== 'string') return;
+    tokenize(deal[field]).forEach(word => {
+      const capped = word.slice(0, MAX_TOKEN_LENGTH);
+      for (let length = Math.min(2, capped.length); length <= capped.length; length++) {
+        tokens.add(capped.slice(0, length));
+      }
+    });
+  });
+  return Array.from(tokens).slice(0, MAX_TOKENS);
+}
+
+export function getDealQueryFields(deal: Record<string, any>): { loanAmountValue: number; searchTokens: string[] } {
+  return {
+    loanAmountValue: parseLoanAmount(deal.loanAmount || deal.loanRequest || deal.applicationLoanRequest),
+    searchTokens: buildDealSearchTokens(deal),
+  };
+}
+
+/**
+ * Normalized search terms, longest first. Firestore allows one array-contains per query,
+ * so the first term is queried and the rest are checked in memory.
+ */
+export function getSearchTerms(search?: string): string[] {
+  if (!search) return [];
+  return Array.from(new Set(tokenize(search).filter(term => term.length >= 2)))
+    .map(term => term.slice(0, MAX_TOKEN_LENGTH))
+    .sort((a, b) => b.length - a.length);
+}
+
+export function encodeDealCursor(value: any, id: string): string {
+  const encodedValue = value instanceof Timestamp ? { timestamp: value.toMillis() } : value ?? null;
+  return Buffer.from(JSON.stringify({ value: encodedValue, id })).toString('base64url');
+}
+
+export function decodeDealCursor(cursor: string): DealCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || typeof parsed.id !== 'string') return null;
+    const value = parsed.value && typeof parsed.value === 'object' && typeof parsed.value.timestamp === 'number'
+      ? Timestamp.fromMillis(parsed.value.timestamp)
+      : parsed.value;
+    return { value, id: parsed.id };
+  } catch (error) {
+    return null;
+  }
+}
+
+const parseDate = (value: any, endOfDay: boolean): Date | undefined | null => {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) return null;
+  // A bare date as the end of a range includes that whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+/**
+ * Read list options from a request query string. Returns an error message for invalid input.
+ */
+export function parseDealQuery(query: Record<string, any>): { options?: DealQueryOptions; error?: string } {
+  const sortBy = (query.sortBy || 'createdAt') as DealSortField;
+  if (!DEAL_SORT_FIELDS.includes(sortBy)) {
+    return { error: `sortBy must be one of: ${DEAL_SORT_FIELDS.join(', ')}` };
+  }
+
+  const sortDirection = query.sortDirection || (sortBy === 'stage' ? 'asc' : 'desc');
+  if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+    return { error: 'sortDirection must be asc or desc' };
+  }
+
+  const startDate = parseDate(query.startDate, false);
+  const endDate = parseDate(query.endDate, true);
+  if (startDate === null || endDate === null) {
+    return { error: 'startDate and endDate must be valid dates' };
+  }
+  // Firestore can only range-filter on the field it orders by first
+  if ((startDate || endDate) && sortBy !== 'createdAt') {
+    return { error: 'Date range filters can only be combined with createdAt sorting' };
+  }
+
+  const paginated = query.limit !== undefined || query.cursor !== undefined;
+  let limit: number | undefined;
+  if (paginated) {
+    limit = query.limit === undefined ? DEFAULT_DEAL_PAGE_SIZE : parseInt(String(query.limit), 10);
+    if (isNaN(limit) || limit < 1) {
+      return { error: 'limit must be a positive number' };
+    }
+    limit = Math.min(limit, MAX_DEAL_PAGE_SIZE);
+  }
+
+  let cursor: DealCursor | undefined;
+  if (query.cursor) {
+    const decoded = decodeDealCursor(String(query.cursor));
+    if (!decoded) {
+      return { error: 'Invalid cursor' };
+    }
+    cursor = decoded;
+  }
+
+  const text = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+  return {
+    options: {
+      userId: text(query.userId),
+      status: text(query.status),
+      propertyType: text(query.propertyType),
+      startDate,
+      endDate,
+      search: text(query.search),
+      sortBy,
+      sortDirection,
+      limit,
+      cursor,
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import { Response } from 'express';
+
+/**
+ * Send a file as an attachment under the name it should be saved as
+ */
+export function sendFileDownload(res: Response, fileName: string, mimeType: string, content: Buffer): void {
+  const safeName = fileName.replace(/["\r\n]/g, '');
+  res.setHeader('Content-Type', mimeType);
+  // Header values must be ASCII; filename* carries the real name for browsers that support it
+  res.setHeader('Content-Disposition', `attachment; filename="${safeName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(safeName)}`);
+  res.send(content);
+}
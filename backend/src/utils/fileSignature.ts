@@ -0,0 +1,75 @@
+export type FileKind = 'pdf' | 'ole' | 'zip' | 'jpeg' | 'png' | 'gif' | 'webp' | 'rar' | '7z' | 'tar' | 'gzip' | 'bzip2' | 'text';
+
+// Leading bytes of each binary format. Office 97-2003 files (.doc, .xls) are OLE compound files;
+// .docx and .xlsx are zip archives.
+const SIGNATURES: { kind: FileKind; bytes: number[]; offset?: number }[] = [
+  { kind: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { kind: 'ole', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { kind: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { kind: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] }, // Empty archive
+  { kind: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { kind: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { kind: 'gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61] }, // GIF87a
+  { kind: 'gif', bytes: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61] }, // GIF89a
+  { kind: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { kind: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { kind: 'tar', bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 }, // "ustar" in the header
+  { kind: 'gzip', bytes: [0x1f, 0x8b] },
+  { kind: 'bzip2', bytes: [0x42, 0x5a, 0x68] }, // BZh
+];
+
+// Content each accepted upload type may have. Windows reports .csv files as application/vnd.ms-excel.
+const MIME_TYPE_KINDS: Record<string, FileKind[]> = {
+  'application/pdf': ['pdf'],
+  'application/msword': ['ole'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['zip'],
+  'application/vnd.ms-excel': ['ole', 'text'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['zip'],
+  'image/jpeg': ['jpeg'],
+  'image/png': ['png'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'application/zip': ['zip'],
+  'application/x-zip-compressed': ['zip'],
+  'application/x-rar-compressed': ['rar'],
+  'application/vnd.rar': ['rar'],
+  'application/x-7z-compressed': ['7z'],
+  'application/x-tar': ['tar'],
+  'application/gzip': ['gzip'],
+  'application/x-bzip2': ['bzip2'],
+  'text/plain': ['text'],
+  'text/csv': ['text'],
+};
+
+const TEXT_SAMPLE_BYTES = 8192;
+
+const startsWith = (content: Buffer, bytes: number[], offset = 0) =>
+  content.length >= offset + bytes.length && bytes.every((byte, index) => content[offset + index] === byte);
+
+/**
+ * What a file's content actually is, from its leading bytes. Text is anything without NUL bytes
+ * near the start (UTF-16 text is recognised by its byte order mark). Null when it's none of the
+ * formats uploads accept, e.g. an executable.
+ */
+export function detectFileKind(content: Buffer): FileKind | null {
+  for (const signature of SIGNATURES) {
+    if (startsWith(content, signature.bytes, signature.offset)) return signature.kind;
+  }
+  // RIFF container with a WEBP form type
+  if (startsWith(content, [0x52, 0x49, 0x46, 0x46]) && startsWith(content, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'webp';
+  }
+  if (startsWith(content, [0xff, 0xfe]) || startsWith(content, [0xfe, 0xff])) {
+    return 'text';
+  }
+  return content.subarray(0, TEXT_SAMPLE_BYTES).includes(0) ? null : 'text';
+}
+
+/**
+ * Whether the content is of a kind the declared MIME type allows, so a renamed executable or a
+ * spoofed Content-Type is caught. Unknown MIME types never match.
+ */
+export function contentMatchesMimeType(content: Buffer, mimeType: string): boolean {
+  const kind = detectFileKind(content);
+  return !!kind && (MIME_TYPE_KINDS[mimeType] || []).includes(kind);
+}
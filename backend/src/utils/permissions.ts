@@ -0,0 +1,118 @@
+import { User } from '../services/firebaseService';
+
+export const PERMISSIONS = [
+  'deals:read:own',
+  'deals:write:own',
+  'deals:read:all',
+  'deals:write:all',
+  'deals:delete:all',
+  'appointments:work',
+  'appointments:read:all',
+  'appointments:manage',
+  'admin:access',
+  'users:read',
+  'users:manage',
+  'roles:manage',
+  'integrations:manage',
+  'webhooks:manage',
+  'analytics:read',
+  'security:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['super_admin', 'admin', 'underwriter', 'cold_caller', 'deal_submitter'] as const;
+
+export type UserRole = typeof ROLES[number];
+
+export interface RoleDefinition {
+  id: UserRole;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  isAdmin: boolean; // Keeps the legacy isAdmin flag (subscription bypass, admin UI) in step with the role
+}
+
+export const ROLE_DEFINITIONS: Record<UserRole, RoleDefinition> = {
+  super_admin: {
+    id: 'super_admin',
+    name: 'Super Admin',
+    description: 'Full access, including assigning roles',
+    permissions: [...PERMISSIONS],
+    isAdmin: true,
+  },
+  admin: {
+    id: 'admin',
+    name: 'Admin',
+    description: 'Manages users, deals, appointments and integrations',
+    permissions: PERMISSIONS.filter(permission => permission !== 'roles:manage'),
+    isAdmin: true,
+  },
+  underwriter: {
+    id: 'underwriter',
+    name: 'Underwriter',
+    description: 'Reviews and updates every deal and its documents',
+    permissions: ['deals:read:own', 'deals:write:own', 'deals:read:all', 'deals:write:all'],
+    isAdmin: false,
+  },
+  cold_caller: {
+    id: 'cold_caller',
+    name: 'Cold Caller',
+    description: 'Works the appointments assigned to them',
+    permissions: ['appointments:work'],
+    isAdmin: false,
+  },
+  deal_submitter: {
+    id: 'deal_submitter',
+    name: 'Deal Submitter',
+    description: 'Submits and tracks their own deals',
+    permissions: ['deals:read:own', 'deals:write:own', 'appointments:work'],
+    isAdmin: false,
+  },
+};
+
+export function isValidRole(role: any): role is UserRole {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Role for a user record. Users created before roles existed fall back to their isAdmin flag,
+ * so existing admins keep full access and everyone else keeps the deal submitter access they had.
+ */
+export function getUserRole(user: Pick<User, 'isAdmin'> & { role?: string }): UserRole {
+  if (isValidRole(user.role)) {
+    return user.role;
+  }
+  return user.isAdmin ? 'super_admin' : 'deal_submitter';
+}
+
+export function getRolePermissions(role: UserRole): Permission[] {
+  return ROLE_DEFINITIONS[role].permissions;
+}
+
+export function hasPermission(user: { permissions?: Permission[] } | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+/**
+ * Whether a user may read or change a deal: their own deals with the ":own" permission,
+ * anyone's with the ":all" permission
+ */
+export function canAccessDeal(
+  user: { id: string; permissions?: Permission[] } | undefined,
+  deal: { userId: string },
+  access: 'read' | 'write'
+): boolean {
+  if (!user) return false;
+  if (hasPermission(user, `deals:${access}:all`)) return true;
+  return deal.userId === user.id && hasPermission(user, `deals:${access}:own`);
+}
+
+/**
+ * Deleting needs ownership plus write access, or the separate delete permission for other users' deals
+ */
+export function canDeleteDeal(user: { id: string; permissions?: Permission[] } | undefined, deal: { userId: string }): boolean {
+  if (!user) return false;
+  if (hasPermission(user, 'deals:delete:all')) return true;
+  return deal.userId === user.id && hasPermission(user, 'deals:write:own');
+}
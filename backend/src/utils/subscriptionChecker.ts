@@ -1,4 +1,4 @@
-import { Subscription } from '../services/firebaseService';
+import { Subscription, User } from '../services/firebaseService';
 import { Timestamp } from 'firebase-admin/firestore';
 
 const GRACE_PERIOD_DAYS = 2;
@@ -60,6 +60,16 @@ export function canAccessPortal(subscription: Subscription | null): boolean {
   return false;
 }
 
+/**
+ * Whether a user is still setting up their account after paying (no password, no Discord, or
+ * onboarding unfinished); the portal skips the subscription check for them so they can finish.
+ * Members whose access the subscription sweep removed don't count, however far they got.
+ */
+export function isCompletingOnboarding(user: User): boolean {
+  if (user.accessLapsedAt) return false;
+  return !user.passwordHash || !user.discordId || !!(user.onboardingStep && user.onboardingStep < 5);
+}
+
 /**
  * Calculate grace period end date (period end + 2 days)
  */
@@ -0,0 +1,181 @@
+import { parseLoanAmount } from './dealQuery';
+
+// Deal fields the calculator reads. Rates and ratios are percentages (6.5 = 6.5%),
+// amortization is in years, and an empty or zero amortization means interest-only.
+export const UNDERWRITING_INPUT_FIELDS = [
+  'loanAmount',
+  'purchasePrice',
+  'appraisedValue',
+  'totalProjectCost',
+  'noi',
+  'interestRate',
+  'amortizationPeriod',
+  'dscr',
+  'ltv',
+  'debitYield',
+  'capRate',
+] as const;
+
+export type UnderwritingInputField = typeof UNDERWRITING_INPUT_FIELDS[number];
+
+export type UnderwritingInputs = Partial<Record<UnderwritingInputField, number>>;
+
+// Metrics a user can also type in by hand, which are checked against the computed value.
+// Debt yield is stored as `debitYield` to match the GHL custom field.
+export type UnderwritingMetric = 'dscr' | 'ltv' | 'debitYield' | 'capRate';
+
+export interface UnderwritingFlag {
+  field: UnderwritingMetric;
+  label: string;
+  entered: number;
+  computed: number;
+  message: string;
+}
+
+export interface UnderwritingResult {
+  monthlyDebtService: number | null;
+  annualDebtService: number | null;
+  dscr: number | null;
+  ltv: number | null;
+  ltc: number | null;
+  debtYield: number | null;
+  capRate: number | null;
+  interestOnly: boolean;
+  flags: UnderwritingFlag[];
+}
+
+const METRICS: { field: UnderwritingMetric; label: string; result: keyof UnderwritingResult; unit: 'x' | '%'; tolerance: number }[] = [
+  { field: 'dscr', label: 'DSCR', result: 'dscr', unit: 'x', tolerance: 0.05 },
+  { field: 'ltv', label: 'LTV', result: 'ltv', unit: '%', tolerance: 0.5 },
+  { field: 'debitYield', label: 'Debt Yield', result: 'debtYield', unit: '%', tolerance: 0.25 },
+  { field: 'capRate', label: 'Cap Rate', result: 'capRate', unit: '%', tolerance: 0.25 },
+];
+
+const PERCENT_FIELDS = new Set<UnderwritingInputField>(['interestRate', 'ltv', 'debitYield', 'capRate']);
+
+/**
+ * Read a user-typed number: "$1,250,000", "6.5%", "750k" and "1.2x" all parse; anything else is undefined.
+ * Unlike parseLoanAmount, bare small numbers are kept as-is since NOI and rates are entered in full.
+ */
+export function parseUnderwritingNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+
+  const match = String(value).trim().toLowerCase().replace(/[$,%\s]/g, '').match(/^(-?\d+(?:\.\d+)?)(k|m|mm|x)?$/);
+  if (!match) return undefined;
+  const num = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'k':
+      return num * 1_000;
+    case 'm':
+    case 'mm':
+      return num * 1_000_000;
+    default:
+      return num;
+  }
+}
+
+/**
+ * Pull calculator inputs from a deal or request body. Percentages typed as fractions (0.75)
+ * are converted to 75, and the loan amount falls back to the free-text loan request.
+ */
+export function readUnderwritingInputs(source: Record<string, any>): UnderwritingInputs {
+  const inputs: UnderwritingInputs = {};
+  UNDERWRITING_INPUT_FIELDS.forEach(field => {
+    let value = parseUnderwritingNumber(source[field]);
+    if (value !== undefined && PERCENT_FIELDS.has(field) && value > 0 && value < 1) {
+      value = value * 100;
+    }
+    if (value !== undefined) inputs[field] = value;
+  });
+
+  if (!inputs.loanAmount) {
+    const requested = parseLoanAmount(source.loanRequest || source.applicationLoanRequest);
+    if (requested > 0) inputs.loanAmount = requested;
+  }
+  return inputs;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const ratio = (numerator?: number, denominator?: number): number | null =>
+  numerator && denominator && denominator > 0 ? numerator / denominator : null;
+
+/**
+ * Monthly payment on a fully amortizing loan, or interest only when there is no amortization period
+ */
+export function calculateMonthlyPayment(loanAmount: number, annualRatePercent: number, amortizationYears?: number): number {
+  const monthlyRate = annualRatePercent / 100 / 12;
+  if (!amortizationYears || amortizationYears <= 0) {
+    return loanAmount * monthlyRate;
+  }
+  const payments = amortizationYears * 12;
+  if (monthlyRate === 0) {
+    return loanAmount / payments;
+  }
+  return (loanAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments));
+}
+
+/**
+ * Derive debt service and the standard sizing ratios from the base inputs, and flag
+ * hand-entered ratios that disagree with what the inputs imply.
+ * LTV uses the appraised value when there is one, otherwise the purchase price; cap rate
+ * uses the purchase price first. LTC uses the total project cost, falling back to the purchase price.
+ */
+export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingResult {
+  const { loanAmount, purchasePrice, appraisedValue, totalProjectCost, noi, interestRate, amortizationPeriod } = inputs;
+
+  const monthlyDebtService = loanAmount && interestRate !== undefined && interestRate >= 0
+    ? calculateMonthlyPayment(loanAmount, interestRate, amortizationPeriod)
+    : null;
+  const annualDebtService = monthlyDebtService !== null ? monthlyDebtService * 12 : null;
+
+  const dscrValue = ratio(noi, annualDebtService ?? undefined);
+  const ltvValue = ratio(loanAmount, appraisedValue || purchasePrice);
+  const ltcValue = ratio(loanAmount, totalProjectCost || purchasePrice);
+  const debtYieldValue = ratio(noi, loanAmount);
+  const capRateValue = ratio(noi, purchasePrice || appraisedValue);
+
+  const result: UnderwritingResult = {
+    monthlyDebtService: monthlyDebtService !== null ? round(monthlyDebtService, 2) : null,
+    annualDebtService: annualDebtService !== null ? round(annualDebtService, 2) : null,
+    dscr: dscrValue !== null ? round(dscrValue, 2) : null,
+    ltv: ltvValue !== null ? round(ltvValue * 100, 2) : null,
+    ltc: ltcValue !== null ? round(ltcValue * 100, 2) : null,
+    debtYield: debtYieldValue !== null ? round(debtYieldValue * 100, 2) : null,
+    capRate: capRateValue !== null ? round(capRateValue * 100, 2) : null,
+    interestOnly: !amortizationPeriod,
+    flags: [],
+  };
+
+  METRICS.forEach(metric => {
+    const entered = inputs[metric.field];
+    const computed = result[metric.result] as number | null;
+    if (entered === undefined || computed === null) return;
+    if (Math.abs(entered - computed) <= metric.tolerance) return;
+
+    const format = (value: number) => (metric.unit === 'x' ? `${value.toFixed(2)}x` : `${value.toFixed(2)}%`);
+    result.flags.push({
+      field: metric.field,
+      label: metric.label,
+      entered,
+      computed,
+      message: `Entered ${metric.label} ${format(entered)} does not match ${format(computed)} computed from the deal inputs`,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Numeric underwriting fields present in a create/update body, for storing on the deal.
+ * Blank values clear the field (null) so a user can remove a number they typed earlier.
+ */
+export function pickUnderwritingUpdates(body: Record<string, any>): Partial<Record<UnderwritingInputField, number | null>> {
+  const updates: Partial<Record<UnderwritingInputField, number | null>> = {};
+  UNDERWRITING_INPUT_FIELDS.forEach(field => {
+    if (!(field in body)) return;
+    updates[field] = body[field] === '' || body[field] === null ? null : parseUnderwritingNumber(body[field]) ?? null;
+  });
+  return updates;
+}
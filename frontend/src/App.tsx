@@ -21,8 +21,11 @@ import { DealsPage } from './pages/DealsPage'
 import { AdminPage } from './pages/AdminPage'
 import { AppointmentsPage } from './pages/AppointmentsPage'
 import { AppointmentManagementPage } from './pages/AppointmentManagementPage'
+import { SharedDocumentsPage } from './pages/SharedDocumentsPage'
 import { LoadingSpinner } from './components/LoadingSpinner'
 import { useQueryClient } from 'react-query'
+import { saveSession, clearSession, getAccessToken } from './utils/authStorage'
+import { authAPI } from './services/api'
 
 // Wrapper component to show Terms Modal
 function TermsModalWrapper({ children }: { children: React.ReactNode }) {
@@ -53,20 +56,16 @@ function App() {
   const queryClient = useQueryClient()
   const [urlProcessed, setUrlProcessed] = useState(false)
 
-  // Check for token/user in URL params FIRST (before checking localStorage)
-  // This handles Discord OAuth callback redirects
+  // Check for a login code in URL params FIRST (before checking localStorage)
+  // This handles Discord OAuth callback redirects, which carry a one-time code instead of tokens
   useEffect(() => {
     // Only process once
     if (urlProcessed) return
 
     const urlParams = new URLSearchParams(window.location.search)
-    const token = urlParams.get("token")
-    const userParam = urlParams.get("user")
+    const loginCode = urlParams.get("loginCode")
     const error = urlParams.get("error")
 
-    // Only process if we have URL params AND they're not already saved
-    const savedToken = localStorage.getItem('token')
-    
     if (error) {
       setUrlProcessed(true)
       // Clear URL params and redirect to login with error
@@ -74,35 +73,39 @@ function App() {
       return
     }
 
-    // Only process if we have token/user params AND they're not already saved
-    if (token && userParam && !savedToken) {
-      try {
-        const user = JSON.parse(decodeURIComponent(userParam))
-        localStorage.setItem("token", token)
-        localStorage.setItem("user", JSON.stringify(user))
-        
-        // Clear URL params
-        window.history.replaceState({}, '', window.location.pathname)
-        
-        // Invalidate and refetch the user query to pick up the new token
-        queryClient.invalidateQueries('user')
-        setUrlProcessed(true)
-      } catch (error) {
-        setUrlProcessed(true)
-        // Clear URL params and redirect to login
-        window.history.replaceState({}, '', '/login?error=parse_error')
-      }
-    } else if (token && userParam && savedToken) {
-      // Token already saved, just clear URL params
-      window.history.replaceState({}, '', window.location.pathname)
-      setUrlProcessed(true)
+    // The intro page redeems its own code so the video still plays before the portal
+    if (loginCode && window.location.pathname !== '/onboarding/intro') {
+      authAPI.redeemLoginCode(loginCode)
+        .then(response => {
+          saveSession(response)
+          // Hand the user to useAuth so the portal renders without another round trip
+          queryClient.setQueryData('user', response.user)
+          // Clear URL params
+          window.history.replaceState({}, '', window.location.pathname)
+          setUrlProcessed(true)
+        })
+        .catch(() => {
+          setUrlProcessed(true)
+          window.history.replaceState({}, '', '/login?error=auth_failed')
+        })
     } else {
       // No URL params to process
       setUrlProcessed(true)
     }
   }, [urlProcessed, queryClient]) // Run once, then never again
 
-  if (isLoading) {
+  // Share links are opened by lenders without an account, so they skip sign-in and onboarding
+  if (window.location.pathname.startsWith('/share/')) {
+    return (
+      <ThemeProvider>
+        <Routes>
+          <Route path="/share/:token" element={<SharedDocumentsPage />} />
+        </Routes>
+      </ThemeProvider>
+    )
+  }
+
+  if (isLoading || !urlProcessed) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-black">
         <LoadingSpinner size="lg" />
@@ -111,7 +114,7 @@ function App() {
   }
 
   // Check if user is logged in - if no token or no user, show login
-  const token = localStorage.getItem('token')
+  const token = getAccessToken()
   
   if (!user || !token) {
     return (
@@ -167,8 +170,7 @@ function App() {
               {/* Sign Out Button */}
               <button
                 onClick={() => {
-                  localStorage.removeItem('token')
-                  localStorage.removeItem('user')
+                  clearSession()
                   window.location.href = '/'
                 }}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors duration-200"
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { Monitor, LogOut } from 'lucide-react'
+import { authAPI } from '../services/api'
+import { formatDateTime } from '../utils/dateUtils'
+import { LoadingSpinner } from './LoadingSpinner'
+
+export function ActiveSessions() {
+  const queryClient = useQueryClient()
+  const { data: sessions = [], isLoading } = useQuery('sessions', authAPI.getSessions)
+
+  const revokeMutation = useMutation(authAPI.revokeSession, {
+    onSuccess: () => {
+      toast.success('Device signed out')
+      queryClient.invalidateQueries('sessions')
+    },
+    onError: () => {
+      toast.error('Failed to sign out device')
+    },
+  })
+
+  const revokeOthersMutation = useMutation(authAPI.revokeOtherSessions, {
+    onSuccess: ({ revoked }) => {
+      toast.success(`Signed out ${revoked} other ${revoked === 1 ? 'device' : 'devices'}`)
+      queryClient.invalidateQueries('sessions')
+    },
+    onError: () => {
+      toast.error('Failed to sign out other devices')
+    },
+  })
+
+  const hasOtherSessions = sessions.some(session => !session.current)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Active Sessions</h2>
+        {hasOtherSessions && (
+          <button
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isLoading}
+            className="px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 border border-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50"
+          >
+            Sign out other devices
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center space-x-3">
+                <Monitor className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {session.ipAddress || 'Unknown IP'} · Last active {formatDateTime(session.lastUsedAt)}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isLoading}
+                  className="flex items-center text-sm text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                  title="Sign out this device"
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign out
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
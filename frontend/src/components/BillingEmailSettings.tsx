@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { userAPI } from '../services/api'
+import { BillingEmailPreference } from '../types'
+import { LoadingSpinner } from './LoadingSpinner'
+
+export function BillingEmailSettings() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery('billingEmailPreferences', userAPI.getBillingEmailPreferences)
+  const preferences = data?.preferences || []
+
+  const updateMutation = useMutation(userAPI.updateBillingEmailPreferences, {
+    onSuccess: () => {
+      toast.success('Email preferences saved')
+      queryClient.invalidateQueries('billingEmailPreferences')
+    },
+    onError: () => {
+      toast.error('Failed to save email preferences')
+    },
+  })
+
+  const toggle = (preference: BillingEmailPreference) => {
+    const optOuts = preferences
+      .filter(candidate => !candidate.critical)
+      .filter(candidate => (candidate.type === preference.type ? candidate.subscribed : !candidate.subscribed))
+      .map(candidate => candidate.type)
+    updateMutation.mutate(optOuts)
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">Billing Emails</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Emails about payment problems, cancellation and lost access are always sent.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {preferences.map((preference) => (
+            <label key={preference.type} className="flex items-center justify-between">
+              <span className="text-gray-900 dark:text-white">
+                {preference.label}
+                {preference.critical && <span className="ml-2 text-xs text-gray-500">Always on</span>}
+              </span>
+              <input
+                type="checkbox"
+                checked={preference.subscribed}
+                disabled={preference.critical || updateMutation.isLoading}
+                onChange={() => toggle(preference)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
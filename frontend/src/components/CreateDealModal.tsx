@@ -2,8 +2,10 @@ import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { useMutation } from 'react-query'
 import { dealsAPI } from '../services/api'
+import { UnderwritingInputField } from '../types'
 import { useAuth } from '../hooks/useAuth'
 import { DocumentUpload } from './DocumentUpload'
+import { UnderwritingCalculator, pickUnderwritingValues } from './UnderwritingCalculator'
 import { X, User, Phone, Mail, Building, MapPin, Calendar, DollarSign, FileText, Plus, Sparkles, Briefcase, Home } from 'lucide-react'
 import toast from 'react-hot-toast'
 
@@ -18,7 +20,7 @@ export function CreateDealModal({ onClose, onSuccess }: CreateDealModalProps) {
   const [activeTab, setActiveTab] = useState<'details' | 'documents'>('details')
   const { user } = useAuth()
 
-  const { register, handleSubmit, formState: { errors } } = useForm<{
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<Partial<Record<UnderwritingInputField, string>> & {
     clientFirstName: string;
     clientLastName: string;
     clientPhone: string;
@@ -34,6 +36,8 @@ export function CreateDealModal({ onClose, onSuccess }: CreateDealModalProps) {
     anyAdditionalInformation?: string;
   }>()
 
+  const formValues = watch()
+
   const createDealMutation = useMutation(dealsAPI.createDeal, {
     onSuccess: (deal) => {
       toast.success('Deal created successfully')
@@ -63,6 +67,7 @@ export function CreateDealModal({ onClose, onSuccess }: CreateDealModalProps) {
         sponsorLiquidity: data.sponsorLiquidity,
         loanRequest: data.loanRequest,
         anyAdditionalInformation: data.anyAdditionalInformation,
+        ...pickUnderwritingValues(data),
       })
       setCreatedDealId(deal.id)
     } catch (error) {
@@ -395,6 +400,12 @@ export function CreateDealModal({ onClose, onSuccess }: CreateDealModalProps) {
                 </div>
               </div>
 
+              {/* Underwriting Section */}
+              <UnderwritingCalculator
+                register={register}
+                values={{ loanRequest: formValues.loanRequest, ...pickUnderwritingValues(formValues) }}
+              />
+
               {/* Additional Information Section */}
               <div className="space-y-6">
                 <div className="flex items-center space-x-3 pb-2 border-b border-gray-600">
@@ -3,8 +3,10 @@ import { Link, useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
 import { useTheme } from '../contexts/ThemeContext'
 import { ThemeToggle } from './ThemeToggle'
+import { NotificationBell } from './NotificationBell'
 import { UserProfileModal } from './UserProfileModal'
 import { cn } from '../utils/cn'
+import { clearSession } from '../utils/authStorage'
 import {
   Home,
   FileText,
@@ -47,8 +49,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       // The logout function will handle the redirect
     } catch (error) {
       // Even if logout fails, clear local storage and redirect
-      localStorage.removeItem('token')
-      localStorage.removeItem('user')
+      clearSession()
       window.location.href = '/'
     }
   }
@@ -259,14 +260,15 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                 </div>
               </div>
             </div>
-            <div className="ml-4 flex items-center md:ml-6 matrix-header-actions">
+            <div className="ml-4 flex items-center gap-3 md:ml-6 matrix-header-actions">
+              <NotificationBell />
               <ThemeToggle />
             </div>
           </div>
         </div>
         
         {/* Mobile header */}
-        <div className="sticky top-0 z-10 lg:hidden pl-1 pt-1 sm:pl-3 sm:pt-3 matrix-mobile-header">
+        <div className="sticky top-0 z-10 lg:hidden flex items-center justify-between pl-1 pt-1 pr-4 sm:pl-3 sm:pt-3 matrix-mobile-header">
           <button
             type="button"
             className="-ml-0.5 -mt-0.5 h-12 w-12 inline-flex items-center justify-center rounded-md text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white focus:outline-none focus:ring-2 focus:ring-inset focus:ring-yellow-500 matrix-mobile-menu-btn"
@@ -274,6 +276,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           >
             <Menu className="h-6 w-6" />
           </button>
+          <NotificationBell />
         </div>
         <main className="flex-1 matrix-content">
           <div className="py-6">
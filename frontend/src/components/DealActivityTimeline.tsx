@@ -0,0 +1,121 @@
+import { useQuery } from 'react-query'
+import { dealsAPI } from '../services/api'
+import { DealActivity } from '../types'
+import { Clock, Edit, PlusCircle, Trash2, RefreshCw, Import } from 'lucide-react'
+import { safeFormatDate } from '../utils/dateUtils'
+
+interface DealActivityTimelineProps {
+  dealId: string
+}
+
+const sourceLabels: Record<DealActivity['source'], string> = {
+  portal: 'Portal',
+  ghl_webhook: 'GHL Webhook',
+  admin_import: 'Admin Import',
+  spreadsheet_import: 'Spreadsheet Import',
+  system: 'System'
+}
+
+const sourceColors: Record<DealActivity['source'], string> = {
+  portal: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+  ghl_webhook: 'bg-purple-500/20 text-purple-400 border-purple-500/50',
+  admin_import: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  spreadsheet_import: 'bg-green-500/20 text-green-400 border-green-500/50',
+  system: 'bg-gray-500/20 text-gray-400 border-gray-500/50'
+}
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const getActivityIcon = (activity: DealActivity) => {
+  if (activity.action === 'created') {
+    return activity.source === 'admin_import'
+      ? <Import className="h-4 w-4 text-yellow-400" />
+      : <PlusCircle className="h-4 w-4 text-green-400" />
+  }
+  if (activity.action === 'deleted') return <Trash2 className="h-4 w-4 text-red-400" />
+  if (activity.source === 'ghl_webhook') return <RefreshCw className="h-4 w-4 text-purple-400" />
+  return <Edit className="h-4 w-4 text-blue-400" />
+}
+
+const getActivityTitle = (activity: DealActivity) => {
+  const actor = activity.actorName || (activity.source === 'ghl_webhook' ? 'GoHighLevel' : 'System')
+  switch (activity.action) {
+    case 'created':
+      return `${actor} created the deal`
+    case 'deleted':
+      return `${actor} deleted the deal`
+    default:
+      return `${actor} updated ${activity.changes.length} field${activity.changes.length === 1 ? '' : 's'}`
+  }
+}
+
+export function DealActivityTimeline({ dealId }: DealActivityTimelineProps) {
+  const { data: activity, isLoading, error } = useQuery<DealActivity[]>(
+    ['deal-activity', dealId],
+    () => dealsAPI.getDealActivity(dealId)
+  )
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+        <p className="text-sm text-gray-400 mt-2">Loading activity...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+        <p className="text-sm text-red-400">Failed to load deal activity</p>
+      </div>
+    )
+  }
+
+  if (!activity || activity.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+        <Clock className="h-12 w-12 text-gray-500 mx-auto mb-3" />
+        <p className="text-sm text-gray-400">No activity recorded yet</p>
+        <p className="text-xs text-gray-500 mt-1">Changes made from now on will appear here</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="relative border-l border-gray-600 ml-3 space-y-6">
+      {activity.map((entry) => (
+        <li key={entry.id} className="ml-6">
+          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-gray-800 rounded-full ring-4 ring-gray-800">
+            {getActivityIcon(entry)}
+          </span>
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-medium text-white">{getActivityTitle(entry)}</p>
+            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${sourceColors[entry.source] || sourceColors.system}`}>
+              {sourceLabels[entry.source] || entry.source}
+            </span>
+          </div>
+          <time className="block text-xs text-gray-400 mt-1">
+            {safeFormatDate(entry.createdAt, 'MMM d, yyyy h:mm a')}
+          </time>
+          {entry.changes.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {entry.changes.map((change) => (
+                <div key={change.field} className="p-2 bg-gray-700 rounded-lg border border-gray-600 text-xs">
+                  <span className="font-medium text-gray-300">{change.label}: </span>
+                  <span className="text-red-300 line-through break-all">{formatValue(change.from)}</span>
+                  <span className="text-gray-400"> → </span>
+                  <span className="text-green-300 break-all">{formatValue(change.to)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
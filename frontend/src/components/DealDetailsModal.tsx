@@ -1,11 +1,16 @@
 import { useState } from 'react'
 import { createPortal } from 'react-dom'
-import { useQuery } from 'react-query'
-import { documentsAPI } from '../services/api'
+import { useQuery, useQueryClient } from 'react-query'
+import { documentsAPI, dealsAPI } from '../services/api'
 import { Deal, Document } from '../types'
-import { X, Upload, Download, Trash2, Tag, User, Phone, Mail, Building, MapPin, Calendar, DollarSign, FileText, Briefcase, Home, Eye } from 'lucide-react'
+import { X, Upload, Download, Trash2, Tag, User, Phone, Mail, Building, MapPin, Calendar, DollarSign, FileText, Briefcase, Home, Eye, Clock, ClipboardList, FileDown, Share2 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { safeFormatDate } from '../utils/dateUtils'
+import { downloadBlob } from '../utils/downloadBlob'
+import { isDocumentAvailable, scanStatusNote, downloadTitle } from '../utils/documentScan'
+import { DealActivityTimeline } from './DealActivityTimeline'
+import { DealDocumentChecklist } from './DealDocumentChecklist'
+import { ShareDocumentsModal } from './ShareDocumentsModal'
 
 interface DealDetailsModalProps {
   deal: Deal
@@ -15,6 +20,10 @@ interface DealDetailsModalProps {
 export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
   const [showUpload, setShowUpload] = useState(false)
   const [uploading, setUploading] = useState(false)
+  const queryClient = useQueryClient()
+  const [activeTab, setActiveTab] = useState<'details' | 'checklist' | 'timeline'>('details')
+  const [downloadingTearSheet, setDownloadingTearSheet] = useState(false)
+  const [showShare, setShowShare] = useState(false)
 
   const { data: documents, isLoading: documentsLoading, refetch } = useQuery<Document[]>(
     ['deal-documents', deal.id],
@@ -24,6 +33,27 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
     }
   )
 
+  const handleDownloadTearSheet = async () => {
+    setDownloadingTearSheet(true)
+    try {
+      const blob = await dealsAPI.downloadTearSheet(deal.id)
+      downloadBlob(blob, `tear-sheet-${deal.dealId || deal.id}.pdf`)
+    } catch (error) {
+      toast.error('Failed to generate tear sheet')
+    } finally {
+      setDownloadingTearSheet(false)
+    }
+  }
+
+  const handleDownloadDocument = async (document: Document) => {
+    try {
+      const blob = await documentsAPI.downloadDocument(document.id)
+      downloadBlob(blob, document.originalName || document.filename)
+    } catch (error) {
+      toast.error('Failed to download document')
+    }
+  }
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -73,6 +103,7 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
         toast.success('Document uploaded successfully')
       }
       refetch()
+      queryClient.invalidateQueries(['deal-checklist', deal.id])
       setShowUpload(false)
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to upload document')
@@ -89,6 +120,7 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
         await documentsAPI.deleteDocument(documentId)
         toast.success('Document deleted successfully')
         refetch()
+        queryClient.invalidateQueries(['deal-checklist', deal.id])
       } catch (error: any) {
         toast.error(error.response?.data?.error || 'Failed to delete document')
       }
@@ -159,17 +191,61 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
                   <p className="text-sm text-gray-300">View deal details and information</p>
                 </div>
               </div>
-                  <button
-                    onClick={onClose}
-                className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200"
-                aria-label="Close deal details modal"
-                  >
-                <X className="h-5 w-5" />
-                  </button>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleDownloadTearSheet}
+                  disabled={downloadingTearSheet}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-yellow-400 border border-yellow-500/50 hover:bg-yellow-500/10 rounded-lg transition-all duration-200 disabled:opacity-50"
+                  title="Download a PDF summary to send to lenders"
+                >
+                  <FileDown className="h-4 w-4 mr-2" />
+                  {downloadingTearSheet ? 'Generating...' : 'Tear Sheet'}
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200"
+                  aria-label="Close deal details modal"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
             </div>
           </div>
 
+          {/* Tabs */}
+          <div className="px-8 border-b border-gray-600 bg-gray-800">
+            <nav className="-mb-px flex space-x-6">
+              {[
+                { id: 'details' as const, name: 'Details', icon: FileText },
+                { id: 'checklist' as const, name: 'Documents Checklist', icon: ClipboardList },
+                { id: 'timeline' as const, name: 'Timeline', icon: Clock }
+              ].map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`flex items-center py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-blue-400 text-blue-400'
+                      : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-500'
+                  }`}
+                >
+                  <tab.icon className="h-4 w-4 mr-2" />
+                  {tab.name}
+                </button>
+              ))}
+            </nav>
+          </div>
+
           {/* Content */}
+          {activeTab === 'timeline' ? (
+            <div className="p-8 max-h-[70vh] overflow-y-auto">
+              <DealActivityTimeline dealId={deal.id} />
+            </div>
+          ) : activeTab === 'checklist' ? (
+            <div className="p-8 max-h-[70vh] overflow-y-auto">
+              <DealDocumentChecklist dealId={deal.id} />
+            </div>
+          ) : (
           <div className="p-8">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {/* Left Column - Deal Information */}
@@ -410,13 +486,23 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
                       <h4 className="text-lg font-semibold text-white">Documents</h4>
                     </div>
                     
-                    <button
-                      onClick={() => setShowUpload(!showUpload)}
-                      className="px-3 py-2 text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-blue-600 border border-purple-500 rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200"
-                    >
-                      <Upload className="h-4 w-4 mr-1" />
-                      Upload
-                    </button>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setShowShare(true)}
+                        className="px-3 py-2 text-sm font-medium text-blue-300 border border-blue-500/50 rounded-lg hover:bg-blue-500/10 transition-all duration-200"
+                        title="Send a lender an expiring download link"
+                      >
+                        <Share2 className="h-4 w-4 mr-1" />
+                        Share package
+                      </button>
+                      <button
+                        onClick={() => setShowUpload(!showUpload)}
+                        className="px-3 py-2 text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-blue-600 border border-purple-500 rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200"
+                      >
+                        <Upload className="h-4 w-4 mr-1" />
+                        Upload
+                      </button>
+                    </div>
                     </div>
 
                     {showUpload && (
@@ -455,6 +541,9 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
                               </p>
                             <p className="text-xs text-gray-400">
                                 {formatFileSize(document.fileSize)} • {safeFormatDate(document.createdAt, 'MMM d, yyyy')}
+                                {scanStatusNote(document) && (
+                                  <span className={`ml-2 ${document.scanStatus === 'unscannable' ? 'text-red-400' : 'text-yellow-400'}`}>{scanStatusNote(document)}</span>
+                                )}
                               </p>
                               {document.tags.length > 0 && (
                                 <div className="flex flex-wrap gap-1 mt-1">
@@ -471,17 +560,14 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
                               )}
                             </div>
                           <div className="flex items-center space-x-2 ml-3">
-                              {document.oneDriveUrl && (
-                                <a
-                                  href={document.oneDriveUrl}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200"
-                                  title="Download"
-                                >
-                                  <Download className="h-4 w-4" />
-                                </a>
-                              )}
+                              <button
+                                onClick={() => handleDownloadDocument(document)}
+                                disabled={!isDocumentAvailable(document)}
+                                className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:hover:bg-transparent"
+                                title={downloadTitle(document)}
+                              >
+                                <Download className="h-4 w-4" />
+                              </button>
                               <button
                                 onClick={() => handleDeleteDocument(document.id)}
                                 className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-600 rounded-lg transition-all duration-200"
@@ -499,6 +585,7 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
               </div>
             </div>
           </div>
+          )}
 
           {/* Footer */}
           <div className="bg-gray-700 px-8 py-6 border-t border-gray-600">
@@ -513,6 +600,9 @@ export function DealDetailsModal({ deal, onClose }: DealDetailsModalProps) {
           </div>
         </div>
       </div>
+      {showShare && (
+        <ShareDocumentsModal deal={deal} documents={(documents || []).filter(isDocumentAvailable)} onClose={() => setShowShare(false)} />
+      )}
     </div>,
     document.body
   )
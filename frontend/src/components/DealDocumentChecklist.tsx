@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'react-query'
+import toast from 'react-hot-toast'
+import { dealsAPI } from '../services/api'
+import { useAuth } from '../hooks/useAuth'
+import { DealChecklistStatus } from '../types'
+import { CheckCircle2, Circle, ClipboardList, Send } from 'lucide-react'
+
+interface DealDocumentChecklistProps {
+  dealId: string
+}
+
+export function DealDocumentChecklist({ dealId }: DealDocumentChecklistProps) {
+  const { user } = useAuth()
+  const canRequestDocuments = !!user?.permissions?.includes('deals:write:all')
+  const [showRequestForm, setShowRequestForm] = useState(false)
+  const [requestedItems, setRequestedItems] = useState<string[]>([])
+  const [requestMessage, setRequestMessage] = useState('')
+
+  const { data: checklist, isLoading, error } = useQuery<DealChecklistStatus>(
+    ['deal-checklist', dealId],
+    () => dealsAPI.getDealChecklist(dealId)
+  )
+
+  const requestMutation = useMutation(
+    () => dealsAPI.requestDocuments(dealId, { items: requestedItems, message: requestMessage.trim() || undefined }),
+    {
+      onSuccess: (result) => {
+        toast.success(result.notified ? 'Documents requested from the deal owner' : 'Request saved, but the owner has notifications turned off')
+        setShowRequestForm(false)
+        setRequestMessage('')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to request documents')
+      },
+    }
+  )
+
+  const openRequestForm = () => {
+    setRequestedItems(checklist?.missingItems.map(item => item.label) || [])
+    setShowRequestForm(true)
+  }
+
+  const toggleRequestedItem = (label: string) => {
+    setRequestedItems(current =>
+      current.includes(label) ? current.filter(item => item !== label) : [...current, label]
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+        <p className="text-sm text-gray-400 mt-2">Loading checklist...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+        <p className="text-sm text-red-400">Failed to load document checklist</p>
+      </div>
+    )
+  }
+
+  if (!checklist || checklist.items.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+        <ClipboardList className="h-12 w-12 text-gray-500 mx-auto mb-3" />
+        <p className="text-sm text-gray-400">No document checklist applies to this deal</p>
+        <p className="text-xs text-gray-500 mt-1">Checklists are matched on deal type and loan type</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-gray-700 rounded-lg border border-gray-600">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-medium text-white">
+            {checklist.completedCount} of {checklist.requiredCount} required documents received
+          </p>
+          <span className="text-sm font-semibold text-blue-400">{checklist.completionPercentage}%</span>
+        </div>
+        <div className="w-full h-2 bg-gray-600 rounded-full overflow-hidden">
+          <div
+            className={`h-2 rounded-full ${checklist.completionPercentage === 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ width: `${checklist.completionPercentage}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-400 mt-2">
+          {checklist.checklists.map(item => item.name).join(', ')}
+        </p>
+      </div>
+
+      {checklist.missingItems.length > 0 && (
+        <div className="p-4 bg-yellow-500/10 rounded-lg border border-yellow-500/50">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-yellow-400">Missing documents</p>
+            {canRequestDocuments && !showRequestForm && (
+              <button
+                onClick={openRequestForm}
+                className="inline-flex items-center text-xs font-medium text-yellow-300 hover:text-yellow-100"
+              >
+                <Send className="h-3.5 w-3.5 mr-1" />
+                Request from owner
+              </button>
+            )}
+          </div>
+          {showRequestForm ? (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                {checklist.missingItems.map(item => (
+                  <label key={item.id} className="flex items-center text-sm text-yellow-200">
+                    <input
+                      type="checkbox"
+                      checked={requestedItems.includes(item.label)}
+                      onChange={() => toggleRequestedItem(item.label)}
+                      className="h-4 w-4 mr-2 rounded border-gray-500 text-blue-600 focus:ring-blue-500"
+                    />
+                    {item.label}
+                  </label>
+                ))}
+              </div>
+              <textarea
+                value={requestMessage}
+                onChange={(e) => setRequestMessage(e.target.value)}
+                placeholder="Optional note for the deal owner"
+                maxLength={1000}
+                rows={2}
+                className="w-full px-3 py-2 text-sm bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setShowRequestForm(false)}
+                  className="px-3 py-1.5 text-sm text-gray-300 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => requestMutation.mutate()}
+                  disabled={requestedItems.length === 0 || requestMutation.isLoading}
+                  className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {requestMutation.isLoading ? 'Sending...' : 'Send request'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <ul className="list-disc list-inside text-sm text-yellow-200 space-y-1">
+              {checklist.missingItems.map(item => (
+                <li key={item.id}>{item.label}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {checklist.items.map(item => (
+          <div key={item.id} className="flex items-start p-3 bg-gray-700 rounded-lg border border-gray-600">
+            {item.complete ? (
+              <CheckCircle2 className="h-5 w-5 text-green-400 mr-3 flex-shrink-0" />
+            ) : (
+              <Circle className="h-5 w-5 text-gray-500 mr-3 flex-shrink-0" />
+            )}
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-white">{item.label}</p>
+                {!item.required && (
+                  <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border bg-gray-500/20 text-gray-400 border-gray-500/50">
+                    Optional
+                  </span>
+                )}
+              </div>
+              {item.description && (
+                <p className="text-xs text-gray-400 mt-1">{item.description}</p>
+              )}
+            </div>
+            {item.documentIds.length > 0 && (
+              <span className="text-xs text-gray-400">
+                {item.documentIds.length} file{item.documentIds.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
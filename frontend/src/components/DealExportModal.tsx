@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from 'react-query'
+import { dealsAPI } from '../services/api'
+import { DealExportFormat, DealListParams } from '../types'
+import { downloadBlob } from '../utils/downloadBlob'
+import { LoadingSpinner } from './LoadingSpinner'
+import { X, Download, FileSpreadsheet } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface DealExportModalProps {
+  params: DealListParams // Filters, search and sort currently applied on the deals page
+  onClose: () => void
+}
+
+const formatLabels: Record<DealExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)'
+}
+
+export function DealExportModal({ params, onClose }: DealExportModalProps) {
+  const [format, setFormat] = useState<DealExportFormat>('xlsx')
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([])
+  const [isExporting, setIsExporting] = useState(false)
+
+  const { data, isLoading } = useQuery('deal-export-columns', dealsAPI.getExportColumns, {
+    staleTime: Infinity
+  })
+
+  useEffect(() => {
+    if (data && selectedColumns.length === 0) {
+      setSelectedColumns(data.columns.filter(column => column.defaultSelected).map(column => column.key))
+    }
+  }, [data])
+
+  const toggleColumn = (key: string) => {
+    setSelectedColumns(prev => prev.includes(key) ? prev.filter(column => column !== key) : [...prev, key])
+  }
+
+  const handleExport = async () => {
+    if (!data) return
+    setIsExporting(true)
+    try {
+      // Keep the columns in their listed order regardless of click order
+      const columns = data.columns.map(column => column.key).filter(key => selectedColumns.includes(key))
+      const blob = await dealsAPI.exportDeals(params, format, columns)
+      downloadBlob(blob, `deals-${new Date().toISOString().slice(0, 10)}.${format}`)
+      toast.success('Deals exported')
+      onClose()
+    } catch (error) {
+      toast.error('Failed to export deals')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const activeFilters = [
+    params.status && `Status: ${params.status}`,
+    params.propertyType && `Property type: ${params.propertyType}`,
+    params.userId && 'Selected user only',
+    params.startDate && `From ${params.startDate}`,
+    params.endDate && `To ${params.endDate}`,
+    params.search && `Search: "${params.search}"`
+  ].filter(Boolean)
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-end justify-center px-2 pt-2 pb-2 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:h-screen sm:align-middle" aria-hidden="true">
+          &#8203;
+        </span>
+
+        <div className="inline-block transform overflow-hidden rounded-xl bg-gray-800 text-left align-bottom shadow-2xl transition-all sm:my-8 sm:w-full sm:max-w-2xl sm:align-middle border border-gray-700 w-full">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-gray-800 to-gray-700 px-4 py-4 sm:px-8 sm:py-6 border-b border-gray-600">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 sm:space-x-3">
+                <div className="p-1.5 sm:p-2 bg-yellow-500/20 rounded-lg">
+                  <FileSpreadsheet className="h-5 w-5 sm:h-6 sm:w-6 text-yellow-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg sm:text-xl font-bold text-white">Export Deals</h3>
+                  <p className="text-xs sm:text-sm text-gray-300">
+                    {activeFilters.length > 0 ? activeFilters.join(' · ') : 'All deals in the current view'}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="px-4 py-4 sm:px-8 sm:py-6 space-y-6">
+            {isLoading || !data ? (
+              <div className="flex justify-center py-6">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <h4 className="text-sm font-semibold text-white mb-2">Format</h4>
+                  <div className="flex gap-4">
+                    {data.formats.map((option) => (
+                      <label key={option} className="inline-flex items-center text-sm text-gray-200">
+                        <input
+                          type="radio"
+                          name="export-format"
+                          value={option}
+                          checked={format === option}
+                          onChange={() => setFormat(option)}
+                          className="mr-2 text-yellow-500 focus:ring-yellow-500"
+                        />
+                        {formatLabels[option]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold text-white">Columns</h4>
+                    <div className="space-x-3 text-xs">
+                      <button type="button" onClick={() => setSelectedColumns(data.columns.map(column => column.key))} className="text-blue-400 hover:text-blue-300">
+                        Select all
+                      </button>
+                      <button type="button" onClick={() => setSelectedColumns([])} className="text-blue-400 hover:text-blue-300">
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {data.columns.map((column) => (
+                      <label key={column.key} className="inline-flex items-center text-sm text-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={selectedColumns.includes(column.key)}
+                          onChange={() => toggleColumn(column.key)}
+                          className="mr-2 rounded text-yellow-500 focus:ring-yellow-500"
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-700 px-4 py-4 sm:px-8 sm:py-6 border-t border-gray-600 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-600 rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting || selectedColumns.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-bold text-black bg-yellow-500 rounded-lg hover:bg-yellow-400 disabled:opacity-50 transition-colors"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
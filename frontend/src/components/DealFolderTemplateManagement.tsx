@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { DealFolderPreview, DealFolderTemplate, DealFolderTemplateSubfolder, DocumentChecklistItem } from '../types'
+import { FolderTree, Folder, Plus, Save, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const PREVIEW_DELAY_MS = 400
+
+const standardSubfolders = ['01 Financials', '02 Property', '03 Sponsor', '04 Legal']
+
+type TemplateForm = Pick<DealFolderTemplate, 'folderPath' | 'subfolders'> & { defaultSubfolder: string }
+
+const emptySubfolder = (name = ''): DealFolderTemplateSubfolder => ({ name, checklistItemIds: [] })
+
+export function DealFolderTemplateManagement() {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState<TemplateForm | null>(null)
+  const [preview, setPreview] = useState<DealFolderPreview | null>(null)
+  const [previewError, setPreviewError] = useState('')
+
+  const { data, isLoading } = useQuery('document-folder-template', adminAPI.getDealFolderTemplate)
+  const { data: checklists } = useQuery('document-checklists', adminAPI.getDocumentChecklists)
+
+  // Items from every checklist, once each, so a subfolder can collect them
+  const checklistItems: DocumentChecklistItem[] = []
+  checklists?.forEach(checklist => checklist.items.forEach(item => {
+    if (!checklistItems.some(existing => existing.id === item.id)) checklistItems.push(item)
+  }))
+
+  useEffect(() => {
+    if (data) {
+      setForm({
+        folderPath: data.template.folderPath,
+        subfolders: data.template.subfolders.map(subfolder => ({ ...subfolder, checklistItemIds: [...subfolder.checklistItemIds] })),
+        defaultSubfolder: data.template.defaultSubfolder || ''
+      })
+    }
+  }, [data])
+
+  // Live preview against a sample deal
+  useEffect(() => {
+    if (!form || !form.folderPath.trim()) return
+    const timer = setTimeout(() => {
+      adminAPI.previewDealFolderTemplate(toPayload(form))
+        .then((rendered) => {
+          setPreview(rendered)
+          setPreviewError(rendered.unknownTokens.length > 0
+            ? `Unknown tokens: ${rendered.unknownTokens.map(token => `{${token}}`).join(', ')}`
+            : '')
+        })
+        .catch((error) => setPreviewError(error.response?.data?.error || 'Failed to preview folder template'))
+    }, PREVIEW_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [form])
+
+  const saveMutation = useMutation(
+    (data: TemplateForm) => adminAPI.updateDealFolderTemplate(toPayload(data)),
+    {
+      onSuccess: () => {
+        toast.success('Folder template saved. Existing deals are refiled the next time they change.')
+        queryClient.invalidateQueries('document-folder-template')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Failed to save folder template')
+      }
+    }
+  )
+
+  if (isLoading || !form) {
+    return (
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700 p-6 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+      </div>
+    )
+  }
+
+  const updateSubfolder = (index: number, updates: Partial<DealFolderTemplateSubfolder>) => {
+    const current = form.subfolders[index]
+    setForm({
+      ...form,
+      subfolders: form.subfolders.map((subfolder, i) => (i === index ? { ...subfolder, ...updates } : subfolder)),
+      // Keep the default pointing at the same subfolder when it is renamed
+      defaultSubfolder: updates.name !== undefined && form.defaultSubfolder === current.name ? updates.name : form.defaultSubfolder
+    })
+  }
+
+  const removeSubfolder = (index: number) => {
+    const removed = form.subfolders[index]
+    setForm({
+      ...form,
+      subfolders: form.subfolders.filter((_, i) => i !== index),
+      defaultSubfolder: form.defaultSubfolder === removed.name ? '' : form.defaultSubfolder
+    })
+  }
+
+  // A checklist item lives in one subfolder; ticking it in another moves it there
+  const toggleChecklistItem = (index: number, itemId: string) => {
+    setForm({
+      ...form,
+      subfolders: form.subfolders.map((subfolder, i) => {
+        const has = subfolder.checklistItemIds.includes(itemId)
+        if (i === index) {
+          return { ...subfolder, checklistItemIds: has ? subfolder.checklistItemIds.filter(id => id !== itemId) : [...subfolder.checklistItemIds, itemId] }
+        }
+        return has ? { ...subfolder, checklistItemIds: subfolder.checklistItemIds.filter(id => id !== itemId) } : subfolder
+      })
+    })
+  }
+
+  const addStandardSubfolders = () => {
+    const missing = standardSubfolders.filter(name => !form.subfolders.some(subfolder => subfolder.name === name))
+    setForm({ ...form, subfolders: [...form.subfolders.filter(subfolder => subfolder.name.trim() !== ''), ...missing.map(emptySubfolder)] })
+  }
+
+  const handleSave = () => {
+    if (!form.folderPath.trim()) {
+      toast.error('Folder name is required')
+      return
+    }
+    saveMutation.mutate(form)
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500'
+  const namedSubfolders = form.subfolders.filter(subfolder => subfolder.name.trim() !== '')
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+            <FolderTree className="h-5 w-5 mr-2 text-blue-400" />
+            Deal Folder Template
+          </h3>
+          <p className="text-sm text-gray-300 mt-1">
+            Folders created in document storage for every new deal. Uploads go to the subfolder holding their checklist item,
+            and a deal's folder is moved when its name changes, e.g. after the address is corrected.
+          </p>
+          {data && (
+            <p className="text-xs text-gray-400 mt-1">
+              {data.isDefault
+                ? 'Not customized yet: deals get one folder named after the property address.'
+                : `Last updated ${safeFormatDate(data.template.updatedAt, 'MMM d, yyyy')}${data.template.updatedBy ? ` by ${data.template.updatedBy}` : ''}`}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Deal folder</label>
+          <input
+            type="text"
+            value={form.folderPath}
+            onChange={(e) => setForm({ ...form, folderPath: e.target.value })}
+            placeholder="e.g. {state}/{propertyAddress} - {sponsorName}"
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-400 mt-1">Use / to nest the deal folder, e.g. by state or stage.</p>
+          {data && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {data.tokens.map(({ token, description }) => (
+                <span
+                  key={token}
+                  title={description}
+                  className="inline-flex px-2 py-0.5 text-xs rounded-full border bg-gray-500/20 text-gray-300 border-gray-500/50 font-mono"
+                >
+                  {`{${token}}`}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-300">Subfolders</p>
+            <button
+              onClick={addStandardSubfolders}
+              className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add standard lender folders
+            </button>
+          </div>
+          {form.subfolders.length === 0 && (
+            <p className="text-sm text-gray-400">No subfolders: every upload goes in the deal folder.</p>
+          )}
+          {form.subfolders.map((subfolder, index) => (
+            <div key={index} className="p-3 bg-gray-700 rounded-lg border border-gray-600 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={subfolder.name}
+                  onChange={(e) => updateSubfolder(index, { name: e.target.value })}
+                  placeholder="e.g. 01 Financials"
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => removeSubfolder(index)}
+                  className="p-2 text-gray-400 hover:text-red-400"
+                  title="Remove subfolder"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              {checklistItems.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {checklistItems.map(item => {
+                    const selected = subfolder.checklistItemIds.includes(item.id)
+                    return (
+                      <button
+                        key={item.id}
+                        onClick={() => toggleChecklistItem(index, item.id)}
+                        className={`inline-flex px-2 py-0.5 text-xs rounded-full border ${
+                          selected
+                            ? 'bg-blue-500/20 text-blue-300 border-blue-500/50'
+                            : 'bg-gray-500/20 text-gray-400 border-gray-500/50 hover:text-gray-200'
+                        }`}
+                      >
+                        {item.label}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => setForm({ ...form, subfolders: [...form.subfolders, emptySubfolder()] })}
+            className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add subfolder
+          </button>
+        </div>
+
+        {namedSubfolders.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Uploads without a matching checklist item go to</label>
+            <select
+              value={form.defaultSubfolder}
+              onChange={(e) => setForm({ ...form, defaultSubfolder: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">The deal folder itself</option>
+              {namedSubfolders.map(subfolder => (
+                <option key={subfolder.name} value={subfolder.name}>{subfolder.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="p-3 bg-gray-900 rounded-lg border border-gray-700">
+          <p className="text-xs font-medium text-gray-400 mb-2">Preview for a sample deal</p>
+          {previewError ? (
+            <p className="text-sm text-red-400">{previewError}</p>
+          ) : preview && (
+            <div className="text-sm text-gray-200 space-y-1 font-mono">
+              <p className="flex items-center"><Folder className="h-4 w-4 mr-2 text-blue-400" />{preview.folderPath}</p>
+              {preview.subfolders.map(subfolder => (
+                <p key={subfolder} className="flex items-center pl-6"><Folder className="h-4 w-4 mr-2 text-gray-400" />{subfolder}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saveMutation.isLoading}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isLoading ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function toPayload(form: TemplateForm) {
+  return {
+    folderPath: form.folderPath,
+    subfolders: form.subfolders.filter(subfolder => subfolder.name.trim() !== ''),
+    defaultSubfolder: form.defaultSubfolder || undefined
+  }
+}
@@ -0,0 +1,311 @@
+import { useState } from 'react'
+import { useMutation, useQuery } from 'react-query'
+import { dealsAPI } from '../services/api'
+import { DealImportPreview, DealImportDryRun, DealImportRowResult } from '../types'
+import { downloadBlob } from '../utils/downloadBlob'
+import { X, Upload, FileSpreadsheet, CheckCircle2, AlertCircle, Download } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface DealImportModalProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+const statusStyles: Record<DealImportRowResult['status'], string> = {
+  valid: 'bg-green-500/20 text-green-400 border-green-500/50',
+  invalid: 'bg-red-500/20 text-red-400 border-red-500/50',
+  created: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/50'
+}
+
+const errorMessage = (error: any, fallback: string) => {
+  const data = error?.response?.data
+  if (data?.mappingErrors?.length) return data.mappingErrors.join('. ')
+  return data?.error || fallback
+}
+
+export function DealImportModal({ onClose, onImported }: DealImportModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<DealImportPreview | null>(null)
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [dryRun, setDryRun] = useState<DealImportDryRun | null>(null)
+  const [importId, setImportId] = useState<string | null>(null)
+
+  const previewMutation = useMutation((selected: File) => dealsAPI.previewImport(selected), {
+    onSuccess: (data) => {
+      setPreview(data)
+      setMapping(data.suggestedMapping)
+      setDryRun(null)
+    },
+    onError: (error: any) => {
+      toast.error(errorMessage(error, 'Failed to read spreadsheet'))
+    }
+  })
+
+  const dryRunMutation = useMutation(() => dealsAPI.dryRunImport(file!, mapping), {
+    onSuccess: (data) => setDryRun(data),
+    onError: (error: any) => {
+      toast.error(errorMessage(error, 'Failed to validate spreadsheet'))
+    }
+  })
+
+  const startMutation = useMutation(() => dealsAPI.startImport(file!, mapping), {
+    onSuccess: (data) => setImportId(data.id),
+    onError: (error: any) => {
+      toast.error(errorMessage(error, 'Failed to start import'))
+    }
+  })
+
+  const { data: dealImport } = useQuery(
+    ['deal-import', importId],
+    () => dealsAPI.getImport(importId!),
+    {
+      enabled: !!importId,
+      refetchInterval: (data) => (data?.status === 'running' ? 2000 : false),
+      onSuccess: (data) => {
+        if (data.status !== 'running') onImported()
+      }
+    }
+  )
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected)
+    setPreview(null)
+    setDryRun(null)
+    if (selected) previewMutation.mutate(selected)
+  }
+
+  const handleMappingChange = (column: string, field: string) => {
+    setMapping(prev => ({ ...prev, [column]: field }))
+    setDryRun(null)
+  }
+
+  const handleDownloadReport = async () => {
+    if (!dealImport) return
+    try {
+      const blob = await dealsAPI.downloadImportReport(dealImport.id)
+      downloadBlob(blob, `${dealImport.fileName.replace(/\.[^.]+$/, '')}-import-report.csv`)
+    } catch (error) {
+      toast.error('Failed to download report')
+    }
+  }
+
+  const rows = dealImport?.rows || dryRun?.rows || []
+  const processedCount = dealImport ? dealImport.createdCount + dealImport.failedCount : 0
+  const validCount = dealImport ? dealImport.totalRows - dealImport.skippedCount : dryRun?.validCount || 0
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-end justify-center px-2 pt-2 pb-2 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:h-screen sm:align-middle" aria-hidden="true">
+          &#8203;
+        </span>
+
+        <div className="inline-block transform overflow-hidden rounded-xl bg-gray-800 text-left align-bottom shadow-2xl transition-all sm:my-8 sm:w-full sm:max-w-5xl sm:align-middle border border-gray-700 w-full max-h-[95vh] overflow-y-auto">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-gray-800 to-gray-700 px-4 py-4 sm:px-8 sm:py-6 border-b border-gray-600">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 sm:space-x-3">
+                <div className="p-1.5 sm:p-2 bg-yellow-500/20 rounded-lg">
+                  <FileSpreadsheet className="h-5 w-5 sm:h-6 sm:w-6 text-yellow-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg sm:text-xl font-bold text-white">Import Deals</h3>
+                  <p className="text-xs sm:text-sm text-gray-300">Create deals in bulk from a CSV or XLSX file</p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg transition-all duration-200"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="px-4 py-4 sm:px-8 sm:py-6 space-y-6">
+            {/* File */}
+            {!importId && (
+              <div>
+                <label className="flex flex-col items-center justify-center w-full p-6 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer hover:border-yellow-500 transition-colors">
+                  <Upload className="h-8 w-8 text-gray-400 mb-2" />
+                  <span className="text-sm text-gray-300">
+                    {file ? file.name : 'Choose a .csv or .xlsx file (first row must be column headers)'}
+                  </span>
+                  <span className="text-xs text-gray-500 mt-1">Up to 500 rows, 5MB</span>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    className="hidden"
+                    onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                  />
+                </label>
+                {previewMutation.isLoading && <p className="mt-2 text-sm text-gray-400">Reading file...</p>}
+              </div>
+            )}
+
+            {/* Column mapping */}
+            {preview && !importId && (
+              <div>
+                <h4 className="text-sm font-semibold text-white mb-1">Map columns</h4>
+                <p className="text-xs text-gray-400 mb-3">
+                  {preview.rowCount} rows found. Fields marked * are required.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {preview.columns.map((column) => (
+                    <div key={column} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-gray-200 truncate">{column}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {preview.sampleRows[0]?.[column] || '—'}
+                        </div>
+                      </div>
+                      <select
+                        value={mapping[column] || ''}
+                        onChange={(e) => handleMappingChange(column, e.target.value)}
+                        className="w-48 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                      >
+                        <option value="">Don't import</option>
+                        {preview.fields.map((field) => (
+                          <option key={field.key} value={field.key}>
+                            {field.label}{field.required ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Progress */}
+            {dealImport && (
+              <div className="p-4 bg-gray-700/50 border border-gray-600 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-semibold text-white">
+                    {dealImport.status === 'running' && `Importing... ${processedCount} of ${validCount}`}
+                    {dealImport.status === 'completed' && 'Import complete'}
+                    {dealImport.status === 'failed' && `Import failed: ${dealImport.error || 'unknown error'}`}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {dealImport.createdCount} created · {dealImport.failedCount} failed · {dealImport.skippedCount} skipped
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-2 bg-yellow-500 transition-all"
+                    style={{ width: `${validCount ? Math.round((processedCount / validCount) * 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Row results */}
+            {rows.length > 0 && (
+              <div>
+                {dryRun && !dealImport && (
+                  <p className="text-sm text-gray-300 mb-2">
+                    <CheckCircle2 className="inline h-4 w-4 text-green-400 mr-1" />
+                    {dryRun.validCount} rows ready to import
+                    {dryRun.invalidCount > 0 && (
+                      <span className="ml-3">
+                        <AlertCircle className="inline h-4 w-4 text-red-400 mr-1" />
+                        {dryRun.invalidCount} rows will be skipped
+                      </span>
+                    )}
+                  </p>
+                )}
+                <div className="max-h-80 overflow-y-auto border border-gray-700 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-700 text-sm">
+                    <thead className="bg-gray-700 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Status</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Client</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Property</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-300 uppercase">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {rows.map((row) => (
+                        <tr key={row.row}>
+                          <td className="px-3 py-2 text-gray-400">{row.row}</td>
+                          <td className="px-3 py-2">
+                            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusStyles[row.status]}`}>
+                              {row.status}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-200">
+                            {[row.values.clientFirstName, row.values.clientLastName].filter(Boolean).join(' ') || '—'}
+                          </td>
+                          <td className="px-3 py-2 text-gray-200">{row.values.propertyAddress || '—'}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {row.dealNumber && (
+                              <div className="text-blue-400">
+                                {row.dealNumber}{row.ghlSynced === false ? ' (not synced to GHL)' : ''}
+                              </div>
+                            )}
+                            {row.errors.map((error) => (
+                              <div key={error} className="text-red-400">{error}</div>
+                            ))}
+                            {row.warnings.map((warning) => (
+                              <div key={warning} className="text-yellow-400">{warning}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-700 px-4 py-4 sm:px-8 sm:py-6 border-t border-gray-600 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-600 rounded-lg hover:bg-gray-500 transition-colors"
+            >
+              {dealImport?.status === 'running' ? 'Close (import continues)' : 'Close'}
+            </button>
+            {!importId && preview && (
+              <button
+                type="button"
+                onClick={() => dryRunMutation.mutate()}
+                disabled={dryRunMutation.isLoading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {dryRunMutation.isLoading ? 'Validating...' : 'Validate Rows'}
+              </button>
+            )}
+            {!importId && dryRun && dryRun.validCount > 0 && (
+              <button
+                type="button"
+                onClick={() => startMutation.mutate()}
+                disabled={startMutation.isLoading}
+                className="px-4 py-2 text-sm font-bold text-black bg-yellow-500 rounded-lg hover:bg-yellow-400 disabled:opacity-50 transition-colors"
+              >
+                {startMutation.isLoading ? 'Starting...' : `Import ${dryRun.validCount} Deals`}
+              </button>
+            )}
+            {dealImport && dealImport.status !== 'running' && (
+              <button
+                type="button"
+                onClick={handleDownloadReport}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
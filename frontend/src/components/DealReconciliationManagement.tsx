@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { DealReconciliation } from '../types'
+import { GitMerge, Link2, XCircle, Search } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const reasonLabels: Record<DealReconciliation['reason'], string> = {
+  unmatched: 'No matching deal',
+  ambiguous: 'Multiple matching deals'
+}
+
+const matchFieldLabels: Record<string, string> = {
+  ghlOpportunityId: 'GHL opportunity ID',
+  dealId: 'deal ID',
+  ghlContactId: 'GHL contact',
+  propertyAddress: 'property address',
+  title: 'title'
+}
+
+export function DealReconciliationManagement() {
+  const queryClient = useQueryClient()
+  const [statusFilter, setStatusFilter] = useState<DealReconciliation['status']>('open')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [dealSearch, setDealSearch] = useState('')
+
+  const { data, isLoading } = useQuery(
+    ['reconciliations', statusFilter],
+    () => adminAPI.getReconciliations(statusFilter)
+  )
+  const reconciliations = data?.reconciliations || []
+  const candidates = data?.candidates || []
+
+  // All deals are only needed when an admin searches for a deal that was not a candidate
+  const { data: allDeals } = useQuery('admin-deals-for-reconciliation', () => adminAPI.getAllDeals(), {
+    enabled: !!expandedId && dealSearch.trim().length > 1
+  })
+
+  const resolveMutation = useMutation(
+    ({ id, dealId }: { id: string; dealId: string }) => adminAPI.resolveReconciliation(id, dealId),
+    {
+      onSuccess: (result) => {
+        toast.success(result.replayStatus === 'processed'
+          ? 'Deal linked and webhook replayed'
+          : 'Deal linked to GHL opportunity')
+        setExpandedId(null)
+        setDealSearch('')
+        queryClient.invalidateQueries('reconciliations')
+        queryClient.invalidateQueries('webhook-events')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to link deal')
+      }
+    }
+  )
+
+  const dismissMutation = useMutation(adminAPI.dismissReconciliation, {
+    onSuccess: () => {
+      toast.success('Entry dismissed')
+      queryClient.invalidateQueries('reconciliations')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to dismiss entry')
+    }
+  })
+
+  const searchResults = dealSearch.trim().length > 1
+    ? (allDeals || []).filter(deal => {
+        const term = dealSearch.toLowerCase()
+        return [deal.propertyAddress, deal.dealId, deal.contactName, deal.contactEmail]
+          .some(value => value && String(value).toLowerCase().includes(term))
+      }).slice(0, 10)
+    : []
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+              <GitMerge className="h-5 w-5 mr-2 text-blue-400" />
+              Deal Reconciliation
+            </h3>
+            <p className="text-sm text-gray-300 mt-1">
+              GHL webhooks that matched no deal, or more than one, wait here instead of being dropped.
+              Linking a deal stores the GHL opportunity ID on it and replays the webhook.
+            </p>
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as DealReconciliation['status'])}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+            <option value="dismissed">Dismissed</option>
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+          </div>
+        ) : reconciliations.length === 0 ? (
+          <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+            <p className="text-sm text-gray-400">
+              {statusFilter === 'open' ? 'Every webhook has been matched to a deal' : 'No entries'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reconciliations.map((item) => {
+              const itemCandidates = candidates.filter(candidate => item.candidateDealIds.includes(candidate.id))
+              const isExpanded = expandedId === item.id
+
+              return (
+                <div key={item.id} className="bg-gray-700 rounded-lg border border-gray-600 p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium text-white">{item.opportunityName || 'Unnamed opportunity'}</p>
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${
+                          item.reason === 'ambiguous'
+                            ? 'bg-orange-500/20 text-orange-400 border-orange-500/50'
+                            : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50'
+                        }`}>
+                          {reasonLabels[item.reason]}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Opportunity {item.opportunityId || 'without ID'} · seen {item.occurrences} time{item.occurrences === 1 ? '' : 's'} ·
+                        last {safeFormatDate(item.updatedAt, 'MMM d, yyyy h:mm a')}
+                      </p>
+                      {item.reason === 'ambiguous' && item.matchedBy && (
+                        <p className="text-xs text-gray-400">
+                          {item.candidateDealIds.length} deals share the same {matchFieldLabels[item.matchedBy] || item.matchedBy}
+                        </p>
+                      )}
+                      {item.status !== 'open' && (
+                        <p className="text-xs text-gray-400">
+                          {item.status === 'resolved' ? `Linked to ${item.resolvedDealId}` : 'Dismissed'}
+                          {item.resolvedBy ? ` by ${item.resolvedBy}` : ''}
+                        </p>
+                      )}
+                    </div>
+                    {item.status === 'open' && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => {
+                            setExpandedId(isExpanded ? null : item.id)
+                            setDealSearch('')
+                          }}
+                          className="inline-flex items-center px-3 py-1 text-xs font-medium rounded text-blue-300 bg-blue-900/30 border border-blue-500/50 hover:bg-blue-900/50"
+                        >
+                          <Link2 className="h-3 w-3 mr-1" />
+                          Link Deal
+                        </button>
+                        <button
+                          onClick={() => dismissMutation.mutate(item.id)}
+                          disabled={dismissMutation.isLoading}
+                          className="inline-flex items-center px-3 py-1 text-xs font-medium rounded text-gray-300 bg-gray-600 hover:bg-gray-500 disabled:opacity-50"
+                        >
+                          <XCircle className="h-3 w-3 mr-1" />
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-4 space-y-3">
+                      {itemCandidates.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-gray-400 mb-2">Candidates</p>
+                          <div className="space-y-2">
+                            {itemCandidates.map(candidate => (
+                              <div key={candidate.id} className="flex items-center justify-between p-2 bg-gray-800 rounded border border-gray-600">
+                                <div className="text-xs">
+                                  <span className="text-white">{candidate.propertyAddress || candidate.dealId || candidate.id}</span>
+                                  <span className="text-gray-400"> · {candidate.contactName || 'No contact'} · {candidate.stage || 'No stage'}</span>
+                                  {candidate.ghlOpportunityId && (
+                                    <span className="text-red-400"> · already linked</span>
+                                  )}
+                                </div>
+                                <button
+                                  onClick={() => resolveMutation.mutate({ id: item.id, dealId: candidate.id })}
+                                  disabled={resolveMutation.isLoading || !!candidate.ghlOpportunityId}
+                                  className="px-2 py-1 text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  Link
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div>
+                        <p className="text-xs font-medium text-gray-400 mb-2">Search all deals</p>
+                        <div className="relative">
+                          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-2.5" />
+                          <input
+                            type="text"
+                            value={dealSearch}
+                            onChange={(e) => setDealSearch(e.target.value)}
+                            placeholder="Address, deal ID, contact name or email"
+                            className="w-full pl-9 pr-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        {searchResults.length > 0 && (
+                          <div className="mt-2 space-y-1">
+                            {searchResults.map(deal => (
+                              <div key={deal.id} className="flex items-center justify-between p-2 bg-gray-800 rounded border border-gray-600">
+                                <div className="text-xs">
+                                  <span className="text-white">{deal.propertyAddress || deal.dealId || deal.id}</span>
+                                  <span className="text-gray-400"> · {deal.contactName || 'No contact'} · {deal.stage || 'No stage'}</span>
+                                </div>
+                                <button
+                                  onClick={() => resolveMutation.mutate({ id: item.id, dealId: deal.id })}
+                                  disabled={resolveMutation.isLoading || !!deal.ghlOpportunityId}
+                                  className="px-2 py-1 text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  Link
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
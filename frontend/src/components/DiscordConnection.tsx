@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
-import { authAPI } from '../services/api'
+import { authAPI, isTwoFactorChallenge } from '../services/api'
+import { saveSession } from '../utils/authStorage'
 
 interface DiscordStatus {
   connected: boolean
@@ -88,9 +89,11 @@ export function DiscordConnection() {
     try {
       const response = await authAPI.linkDiscord(discordCode, verificationCode)
       
-      // Store token and user
-      localStorage.setItem('token', response.token)
-      localStorage.setItem('user', JSON.stringify(response.user))
+      // Store token and user. With two-factor on, the link is done but no new session is issued,
+      // so the current one stays in place.
+      if (!isTwoFactorChallenge(response)) {
+        saveSession(response)
+      }
       
       setSuccess('Discord account linked successfully!')
       queryClient.invalidateQueries('discordStatus')
@@ -219,19 +222,19 @@ export function DiscordConnection() {
                     setVerificationCode(e.target.value.toUpperCase())
                     setError(null)
                   }}
-                  placeholder="RAIN-XXXX"
+                  placeholder="RAIN-XXXX-XXXX-XXXX"
                   className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  maxLength={9}
+                  maxLength={19}
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Format: RAIN-XXXX (check your email)
+                  Format: RAIN-XXXX-XXXX-XXXX (check your email)
                 </p>
               </div>
               
               <div className="flex gap-2">
                 <button
                   onClick={handleLinkWithCode}
-                  disabled={!verificationCode || verificationCode.length < 9}
+                  disabled={!verificationCode || verificationCode.length < 19}
                   className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Link Account
@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { RefreshCw, Shield, UserCheck } from 'lucide-react'
+import { adminAPI } from '../services/api'
+import { DiscordRoleSyncTrigger } from '../types'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const triggerLabels: Record<DiscordRoleSyncTrigger, string> = {
+  login: 'Login',
+  discord_link: 'Discord link',
+  subscription: 'Billing',
+  reconcile: 'Scheduled',
+  admin: 'Admin'
+}
+
+export function DiscordRoleSyncPanel() {
+  const queryClient = useQueryClient()
+  const [discordIdFilter, setDiscordIdFilter] = useState('')
+  const discordId = discordIdFilter.trim()
+
+  const { data, isLoading, refetch } = useQuery(
+    ['discord-role-sync', discordId],
+    () => adminAPI.getDiscordRoleSync(discordId || undefined)
+  )
+  const logs = data?.logs || []
+
+  const runMutation = useMutation(adminAPI.runDiscordRoleSync, {
+    onSuccess: (summary) => {
+      const changes = `${summary.granted} granted, ${summary.revoked} revoked, ${summary.failed} failed`
+      toast.success(`${summary.dryRun ? 'Dry run' : 'Sync'} checked ${summary.membersChecked} members: ${changes}`)
+      queryClient.invalidateQueries('discord-role-sync')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Failed to run Discord role sync')
+    },
+  })
+
+  const syncMemberMutation = useMutation(adminAPI.syncDiscordMember, {
+    onSuccess: (result) => {
+      if (!result.inGuild) {
+        toast.success('Not in the Discord server; they are added on their next Discord login')
+      } else {
+        toast.success(`Granted ${result.granted.length}, revoked ${result.revoked.length}, failed ${result.failed.length}`)
+      }
+      queryClient.invalidateQueries('discord-role-sync')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to sync Discord roles')
+    },
+  })
+
+  const busy = runMutation.isLoading || syncMemberMutation.isLoading
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+              <Shield className="h-5 w-5 mr-2 text-indigo-400" />
+              Discord Role Sync
+            </h3>
+            <p className="text-sm text-gray-300 mt-1">
+              Members with portal access and usernames on the auto-access list get the paid member role; everyone
+              else in the server loses it. Runs on login, on billing changes and on a schedule.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => refetch()}
+              className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </button>
+            <button
+              onClick={() => runMutation.mutate(true)}
+              disabled={busy || !data?.enabled}
+              className="px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Dry run
+            </button>
+            <button
+              onClick={() => runMutation.mutate(false)}
+              disabled={busy || !data?.enabled}
+              className="px-3 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {runMutation.isLoading ? 'Syncing...' : 'Sync all now'}
+            </button>
+          </div>
+        </div>
+
+        {data && !data.enabled && (
+          <p className="text-sm text-yellow-400 mb-4">
+            Role sync is off. Set DISCORD_BOT_TOKEN, DISCORD_GUILD_ID and DISCORD_PAID_MEMBER_ROLE_ID on the server.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-4 mb-4">
+          <input
+            type="text"
+            value={discordIdFilter}
+            onChange={(e) => setDiscordIdFilter(e.target.value)}
+            placeholder="Filter by Discord ID"
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => syncMemberMutation.mutate(discordId)}
+            disabled={busy || !discordId || !data?.enabled}
+            className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserCheck className="h-4 w-4 mr-2" />
+            Sync this member
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+            <p className="text-sm text-gray-400">No role changes yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Member</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Reason</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Source</th>
+                </tr>
+              </thead>
+              <tbody className="bg-gray-800 divide-y divide-gray-700">
+                {logs.map((log) => (
+                  <tr key={log.id} className="hover:bg-gray-700">
+                    <td className="px-4 py-3 text-sm text-gray-300 whitespace-nowrap">
+                      {safeFormatDate(log.createdAt, 'MMM d, h:mm:ss a')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-white">
+                      <div>{log.username || '—'}</div>
+                      <div className="text-xs text-gray-500">Discord {log.discordId}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={log.action === 'grant' ? 'text-green-400' : 'text-orange-400'}>
+                        {log.action === 'grant' ? 'Granted' : 'Revoked'} {log.roleId}
+                      </span>
+                      {log.dryRun && <span className="ml-2 text-xs text-gray-500">(dry run)</span>}
+                      {!log.success && <div className="text-xs text-red-400">Failed: {log.error}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-300">{log.reason}</td>
+                    <td className="px-4 py-3 text-sm text-gray-400">{triggerLabels[log.trigger] || log.trigger}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { DocumentChecklist, DocumentChecklistItem } from '../types'
+import { ClipboardList, Plus, Save, Trash2, Edit, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const dealTypes = ['Acquisition', 'Refinance', 'New Construction']
+
+const loanTypes = [
+  'Permanent Debt',
+  'Bridge Debt',
+  'New Construction Debt',
+  'Mezzanine Debt',
+  'Preferred Equity',
+  'Joint Venture Equity',
+  'General Partner Equity',
+  'Limited Partner Equity'
+]
+
+interface ChecklistForm {
+  id?: string
+  name: string
+  dealType: string
+  loanType: string
+  items: DocumentChecklistItem[]
+}
+
+const emptyItem = (): DocumentChecklistItem => ({ id: '', label: '', description: '', required: true })
+
+const emptyForm = (): ChecklistForm => ({ name: '', dealType: '', loanType: '', items: [emptyItem()] })
+
+export function DocumentChecklistManagement() {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState<ChecklistForm | null>(null)
+
+  const { data: checklists, isLoading } = useQuery('document-checklists', adminAPI.getDocumentChecklists)
+
+  const saveMutation = useMutation(
+    (data: ChecklistForm) => {
+      const payload = {
+        name: data.name,
+        dealType: data.dealType,
+        loanType: data.loanType,
+        items: data.items.filter(item => item.label.trim() !== '')
+      }
+      return data.id
+        ? adminAPI.updateDocumentChecklist(data.id, payload)
+        : adminAPI.createDocumentChecklist(payload)
+    },
+    {
+      onSuccess: () => {
+        toast.success('Checklist saved')
+        setForm(null)
+        queryClient.invalidateQueries('document-checklists')
+        queryClient.invalidateQueries('deal-checklist')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to save checklist')
+      }
+    }
+  )
+
+  const deleteMutation = useMutation(adminAPI.deleteDocumentChecklist, {
+    onSuccess: () => {
+      toast.success('Checklist deleted')
+      queryClient.invalidateQueries('document-checklists')
+      queryClient.invalidateQueries('deal-checklist')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete checklist')
+    }
+  })
+
+  const updateItem = (index: number, updates: Partial<DocumentChecklistItem>) => {
+    if (!form) return
+    setForm({
+      ...form,
+      items: form.items.map((item, i) => (i === index ? { ...item, ...updates } : item))
+    })
+  }
+
+  const removeItem = (index: number) => {
+    if (!form) return
+    setForm({ ...form, items: form.items.filter((_, i) => i !== index) })
+  }
+
+  const handleSave = () => {
+    if (!form) return
+    if (!form.name.trim()) {
+      toast.error('Checklist name is required')
+      return
+    }
+    if (!form.items.some(item => item.label.trim() !== '')) {
+      toast.error('Add at least one document')
+      return
+    }
+    saveMutation.mutate(form)
+  }
+
+  const handleDelete = (checklist: DocumentChecklist) => {
+    if (window.confirm(`Delete the "${checklist.name}" checklist? Documents already classified keep their item ID.`)) {
+      deleteMutation.mutate(checklist.id)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+              <ClipboardList className="h-5 w-5 mr-2 text-blue-400" />
+              Document Checklists
+            </h3>
+            <p className="text-sm text-gray-300 mt-1">
+              Required documents per deal type and loan type. Leave a type blank to apply the checklist to every deal.
+            </p>
+          </div>
+          {!form && (
+            <button
+              onClick={() => setForm(emptyForm())}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Checklist
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <div className="mb-6 p-4 bg-gray-700 rounded-lg border border-gray-600 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Acquisition - Bridge"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Deal Type</label>
+                <select
+                  value={form.dealType}
+                  onChange={(e) => setForm({ ...form, dealType: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Any deal type</option>
+                  {dealTypes.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Loan Type</label>
+                <select
+                  value={form.loanType}
+                  onChange={(e) => setForm({ ...form, loanType: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Any loan type</option>
+                  {loanTypes.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-300">Documents</p>
+              {form.items.map((item, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={item.label}
+                    onChange={(e) => updateItem(index, { label: e.target.value })}
+                    placeholder="Document name"
+                    className={`${inputClass} md:col-span-4`}
+                  />
+                  <input
+                    type="text"
+                    value={item.description || ''}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                    placeholder="Description (optional)"
+                    className={`${inputClass} md:col-span-5`}
+                  />
+                  <label className="flex items-center text-sm text-gray-300 md:col-span-2">
+                    <input
+                      type="checkbox"
+                      checked={item.required}
+                      onChange={(e) => updateItem(index, { required: e.target.checked })}
+                      className="h-4 w-4 mr-2 rounded border-gray-600 bg-gray-700 text-blue-600"
+                    />
+                    Required
+                  </label>
+                  <button
+                    onClick={() => removeItem(index)}
+                    className="p-2 text-gray-400 hover:text-red-400 md:col-span-1"
+                    title="Remove document"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setForm({ ...form, items: [...form.items, emptyItem()] })}
+                className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add document
+              </button>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setForm(null)}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-gray-300 bg-gray-600 hover:bg-gray-500"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saveMutation.isLoading}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveMutation.isLoading ? 'Saving...' : 'Save Checklist'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+          </div>
+        ) : !checklists || checklists.length === 0 ? (
+          <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+            <p className="text-sm text-gray-400">No checklists yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {checklists.map(checklist => (
+              <div key={checklist.id} className="bg-gray-700 rounded-lg border border-gray-600 p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-white">{checklist.name}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {checklist.dealType || 'Any deal type'} · {checklist.loanType || 'Any loan type'} ·
+                      {' '}{checklist.items.filter(item => item.required).length} required of {checklist.items.length} ·
+                      updated {safeFormatDate(checklist.updatedAt, 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setForm({
+                        id: checklist.id,
+                        name: checklist.name,
+                        dealType: checklist.dealType || '',
+                        loanType: checklist.loanType || '',
+                        items: checklist.items.map(item => ({ ...item }))
+                      })}
+                      className="inline-flex items-center px-3 py-1 text-xs font-medium rounded text-blue-300 bg-blue-900/30 border border-blue-500/50 hover:bg-blue-900/50"
+                    >
+                      <Edit className="h-3 w-3 mr-1" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(checklist)}
+                      disabled={deleteMutation.isLoading}
+                      className="inline-flex items-center px-3 py-1 text-xs font-medium rounded text-red-300 bg-red-900/30 border border-red-500/50 hover:bg-red-900/50 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {checklist.items.map(item => (
+                    <span
+                      key={item.id}
+                      className={`inline-flex px-2 py-0.5 text-xs rounded-full border ${
+                        item.required
+                          ? 'bg-blue-500/20 text-blue-300 border-blue-500/50'
+                          : 'bg-gray-500/20 text-gray-400 border-gray-500/50'
+                      }`}
+                    >
+                      {item.label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,89 @@
 import { useState, useRef } from 'react';
 import { useMutation, useQuery, useQueryClient } from 'react-query';
-import { documentsAPI } from '../services/api';
-import { Upload, File, Trash2, Eye, CheckSquare, Square, X } from 'lucide-react';
+import { documentsAPI, dealsAPI } from '../services/api';
+import { Upload, File, Trash2, Eye, Download, CheckSquare, Square, X, History, RotateCcw, FilePlus } from 'lucide-react';
+import { Document, DocumentVersion } from '../types';
+import { downloadBlob } from '../utils/downloadBlob';
+import { isDocumentAvailable, scanStatusNote, downloadTitle } from '../utils/documentScan';
 import toast from 'react-hot-toast';
 
+// Older versions of a document, with download and restore
+function DocumentVersionHistory({ doc, dealId }: { doc: Document; dealId: string }) {
+  const queryClient = useQueryClient();
+  const { data: versions, isLoading } = useQuery(
+    ['document-versions', doc.id, doc.version],
+    () => documentsAPI.getDocumentVersions(doc.id)
+  );
+
+  const restoreMutation = useMutation(
+    (version: number) => documentsAPI.restoreDocumentVersion(doc.id, version),
+    {
+      onSuccess: (_, version) => {
+        queryClient.invalidateQueries(['deal-documents', dealId]);
+        toast.success(`Version ${version} restored`);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to restore version');
+      }
+    }
+  );
+
+  const handleDownloadVersion = async (version: DocumentVersion) => {
+    try {
+      const blob = await documentsAPI.downloadDocumentVersion(doc.id, version.version);
+      downloadBlob(blob, version.originalName);
+    } catch (error) {
+      toast.error('Failed to download version');
+    }
+  };
+
+  const handleRestore = (version: DocumentVersion) => {
+    if (window.confirm(`Restore version ${version.version}? It becomes the current version; the others stay in the history.`)) {
+      restoreMutation.mutate(version.version);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500 px-3 pb-3">Loading versions...</p>;
+  }
+
+  return (
+    <ul className="px-3 pb-3 space-y-1">
+      {versions?.map(version => (
+        <li key={version.version} className="flex items-center justify-between text-xs text-gray-600 pl-12">
+          <span className="truncate">
+            <span className="font-medium text-gray-900">v{version.version}</span>
+            {version.current && <span className="ml-1 text-green-600">(current)</span>}
+            {' · '}{version.originalName} · {new Date(version.uploadedAt).toLocaleString()} · {version.uploadedBy}
+            {version.restoredFrom && ` · restored from v${version.restoredFrom}`}
+          </span>
+          <span className="flex items-center space-x-1 ml-2">
+            <button
+              type="button"
+              onClick={() => handleDownloadVersion(version)}
+              className="p-1 text-blue-600 hover:text-blue-800"
+              title={`Download version ${version.version}`}
+            >
+              <Download className="w-3 h-3" />
+            </button>
+            {!version.current && (
+              <button
+                type="button"
+                onClick={() => handleRestore(version)}
+                disabled={restoreMutation.isLoading}
+                className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                title={`Restore version ${version.version}`}
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface DocumentUploadProps {
   dealId: string;
   onUploadSuccess?: () => void;
@@ -13,7 +93,11 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [selectedDocIds, setSelectedDocIds] = useState<Set<string>>(new Set());
+  const [checklistItemId, setChecklistItemId] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<Document | null>(null);
+  const [historyDocId, setHistoryDocId] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   // Fetch documents for this deal
@@ -25,15 +109,38 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
     }
   );
 
+  // Checklist items uploads can be classified against
+  const { data: checklist } = useQuery(
+    ['deal-checklist', dealId],
+    () => dealsAPI.getDealChecklist(dealId),
+    {
+      enabled: !!dealId
+    }
+  );
+  const checklistItems = checklist?.items || [];
+
   // Upload multiple files mutation
   const uploadMultipleMutation = useMutation(
     ({ files, tags }: { files: File[]; tags: string[] }) =>
-      documentsAPI.uploadMultipleDocuments(dealId, files, tags),
+      documentsAPI.uploadMultipleDocuments(dealId, files, tags, checklistItemId || undefined),
     {
-      onSuccess: () => {
+      onSuccess: (data) => {
         queryClient.invalidateQueries(['deal-documents', dealId]);
+        queryClient.invalidateQueries(['deal-checklist', dealId]);
         setSelectedFiles([]);
-        toast.success('All documents uploaded successfully');
+        setChecklistItemId('');
+        // Files can be refused one by one, e.g. when their content doesn't match their type or has malware
+        data.results.forEach(result => {
+          if (!result.success) toast.error(`${result.fileName}: ${result.error}`);
+        });
+        if (data.failed === 0) {
+          toast.success('All documents uploaded successfully');
+        } else if (data.uploaded > 0) {
+          toast.success(data.message);
+        }
+        if (data.results.some(result => result.success && result.file.scanStatus === 'pending')) {
+          toast('Some files are being checked for malware and can be downloaded once that finishes');
+        }
         onUploadSuccess?.();
       },
       onError: (error: any) => {
@@ -42,10 +149,42 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
     }
   );
 
+  // Reclassify an uploaded document
+  const classifyMutation = useMutation(
+    ({ documentId, itemId }: { documentId: string; itemId: string | null }) =>
+      documentsAPI.setDocumentChecklistItem(documentId, itemId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['deal-documents', dealId]);
+        queryClient.invalidateQueries(['deal-checklist', dealId]);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to classify document');
+      }
+    }
+  );
+
+  // Replace a document with a new version, keeping the old file in its history
+  const uploadVersionMutation = useMutation(
+    ({ documentId, file }: { documentId: string; file: File }) =>
+      documentsAPI.uploadDocumentVersion(documentId, file),
+    {
+      onSuccess: (doc) => {
+        queryClient.invalidateQueries(['deal-documents', dealId]);
+        toast.success(`Uploaded version ${doc.version} of ${doc.originalName}`);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to upload new version');
+      },
+      onSettled: () => setVersionTarget(null)
+    }
+  );
+
   // Delete mutation
   const deleteMutation = useMutation(documentsAPI.deleteDocument, {
     onSuccess: () => {
       queryClient.invalidateQueries(['deal-documents', dealId]);
+      queryClient.invalidateQueries(['deal-checklist', dealId]);
       setSelectedDocIds(new Set());
       toast.success('Document deleted successfully');
     },
@@ -60,6 +199,7 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
     {
       onSuccess: () => {
         queryClient.invalidateQueries(['deal-documents', dealId]);
+        queryClient.invalidateQueries(['deal-checklist', dealId]);
         setSelectedDocIds(new Set());
         toast.success('Selected documents deleted successfully');
       },
@@ -137,6 +277,27 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
     }
   };
 
+  const handleStartNewVersion = (doc: Document) => {
+    setVersionTarget(doc);
+    versionInputRef.current?.click();
+  };
+
+  const handleVersionFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (versionInputRef.current) {
+      versionInputRef.current.value = '';
+    }
+    if (!file || !versionTarget) return;
+
+    const error = validateFile(file);
+    if (error) {
+      toast.error(error);
+      setVersionTarget(null);
+      return;
+    }
+    uploadVersionMutation.mutate({ documentId: versionTarget.id, file });
+  };
+
   const handleRemoveSelectedFile = (index: number) => {
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -152,6 +313,15 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
     }
   };
 
+  const handleDownload = async (doc: Document) => {
+    try {
+      const blob = await documentsAPI.downloadDocument(doc.id);
+      downloadBlob(blob, doc.originalName || doc.filename);
+    } catch (error) {
+      toast.error('Failed to download document');
+    }
+  };
+
   const handleDelete = async (documentId: string) => {
     if (window.confirm('Are you sure you want to delete this document?')) {
       await deleteMutation.mutateAsync(documentId);
@@ -270,6 +440,26 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
               {isUploading ? 'Uploading...' : `Upload All (${selectedFiles.length})`}
             </button>
           </div>
+          {checklistItems.length > 0 && (
+            <div className="mb-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Checklist item
+              </label>
+              <select
+                value={checklistItemId}
+                onChange={(e) => setChecklistItemId(e.target.value)}
+                disabled={isUploading}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not classified</option>
+                {checklistItems.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.label}{item.complete ? ' ✓' : item.required ? ' (missing)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="space-y-2 max-h-48 overflow-y-auto">
             {selectedFiles.map((file, index) => (
               <div
@@ -298,6 +488,14 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
         </div>
       )}
 
+      <input
+        ref={versionInputRef}
+        type="file"
+        onChange={handleVersionFileSelect}
+        className="hidden"
+        accept=".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png,.gif,.webp,.zip,.rar,.7z,.tar,.gz,.bz2,.txt,.csv"
+      />
+
       {/* Documents List */}
       {isLoading ? (
         <div className="text-center py-4">
@@ -338,10 +536,11 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
           {documents.map((doc) => (
             <div
               key={doc.id}
-              className={`flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors ${
+              className={`bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors ${
                 selectedDocIds.has(doc.id) ? 'ring-2 ring-blue-500 bg-blue-50' : ''
               }`}
             >
+            <div className="flex items-center justify-between p-3">
               <div className="flex items-center space-x-3 flex-1">
                 <button
                   type="button"
@@ -357,15 +556,38 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
                 </button>
                 <span className="text-2xl">{getFileIcon(doc.mimeType)}</span>
                 <div className="flex-1 min-w-0">
-                  <p className="font-medium text-gray-900 truncate">{doc.originalName}</p>
+                  <p className="font-medium text-gray-900 truncate">
+                    {doc.originalName}
+                    {(doc.version || 1) > 1 && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-700">v{doc.version}</span>
+                    )}
+                  </p>
                   <p className="text-sm text-gray-500">
-                    {formatFileSize(doc.fileSize)} • {new Date(doc.createdAt).toLocaleDateString()}
+                    {formatFileSize(doc.fileSize)} • {new Date(doc.updatedAt).toLocaleDateString()}
+                    {scanStatusNote(doc) && (
+                      <span className={`ml-2 ${doc.scanStatus === 'unscannable' ? 'text-red-700' : 'text-yellow-700'}`}>{scanStatusNote(doc)}</span>
+                    )}
                   </p>
                 </div>
               </div>
+
+              {checklistItems.length > 0 && (
+                <select
+                  value={doc.checklistItemId || ''}
+                  onChange={(e) => classifyMutation.mutate({ documentId: doc.id, itemId: e.target.value || null })}
+                  disabled={classifyMutation.isLoading}
+                  className="mr-2 px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Checklist item"
+                >
+                  <option value="">Not classified</option>
+                  {checklistItems.map(item => (
+                    <option key={item.id} value={item.id}>{item.label}</option>
+                  ))}
+                </select>
+              )}
               
               <div className="flex items-center space-x-2">
-                {doc.oneDriveUrl && (
+                {doc.oneDriveUrl && isDocumentAvailable(doc) && (
                   <a
                     href={doc.oneDriveUrl}
                     target="_blank"
@@ -376,7 +598,36 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
                     <Eye className="w-4 h-4" />
                   </a>
                 )}
+
+                <button
+                  onClick={() => handleDownload(doc)}
+                  disabled={!isDocumentAvailable(doc)}
+                  type="button"
+                  className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title={downloadTitle(doc)}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
                 
+                <button
+                  onClick={() => handleStartNewVersion(doc)}
+                  disabled={uploadVersionMutation.isLoading || !isDocumentAvailable(doc)}
+                  type="button"
+                  className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  title="Upload new version"
+                >
+                  <FilePlus className={`w-4 h-4 ${uploadVersionMutation.isLoading && versionTarget?.id === doc.id ? 'animate-pulse' : ''}`} />
+                </button>
+
+                <button
+                  onClick={() => setHistoryDocId(historyDocId === doc.id ? null : doc.id)}
+                  type="button"
+                  className={`p-1 hover:text-blue-800 ${historyDocId === doc.id ? 'text-blue-800' : 'text-blue-600'}`}
+                  title="Version history"
+                >
+                  <History className="w-4 h-4" />
+                </button>
+
                 <button
                   onClick={() => handleDelete(doc.id)}
                   disabled={deleteMutation.isLoading}
@@ -389,6 +640,8 @@ export function DocumentUpload({ dealId, onUploadSuccess }: DocumentUploadProps)
                 </button>
               </div>
             </div>
+            {historyDocId === doc.id && <DocumentVersionHistory doc={doc} dealId={dealId} />}
+            </div>
           ))}
         </div>
       ) : (
@@ -2,8 +2,9 @@ import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { useMutation } from 'react-query'
 import { dealsAPI } from '../services/api'
-import { Deal } from '../types'
+import { Deal, UnderwritingInputField } from '../types'
 import { DocumentUpload } from './DocumentUpload'
+import { UnderwritingCalculator, UNDERWRITING_FORM_FIELDS, pickUnderwritingValues } from './UnderwritingCalculator'
 import { X, User, Phone, Mail, MapPin, Calendar, DollarSign, FileText, Edit, Briefcase, Save } from 'lucide-react'
 import toast from 'react-hot-toast'
 
@@ -17,7 +18,7 @@ export function EditDealModal({ deal, onClose, onSuccess }: EditDealModalProps)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [activeTab, setActiveTab] = useState<'details' | 'documents'>('details')
 
-  const { register, handleSubmit, formState: { errors } } = useForm<{
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<Partial<Record<UnderwritingInputField, string>> & {
     clientFirstName: string;
     clientLastName: string;
     clientPhone: string;
@@ -53,10 +54,13 @@ export function EditDealModal({ deal, onClose, onSuccess }: EditDealModalProps)
         loanRequest: deal.loanRequest || '',
         anyAdditionalInformation: deal.additionalInformation || '',
         status: deal.status || 'Open',
+        ...Object.fromEntries(UNDERWRITING_FORM_FIELDS.map(field => [field, deal[field] != null ? String(deal[field]) : ''])),
       };
     })()
   })
 
+  const formValues = watch()
+
   const updateDealMutation = useMutation(
     (data: any) => dealsAPI.updateDeal(deal.id, data),
     {
@@ -87,6 +91,7 @@ export function EditDealModal({ deal, onClose, onSuccess }: EditDealModalProps)
         sponsorLiquidity: data.sponsorLiquidity,
         loanRequest: data.loanRequest,
         anyAdditionalInformation: data.anyAdditionalInformation,
+        ...pickUnderwritingValues(data),
         status: data.status,
       })
     } catch (error) {
@@ -384,6 +389,12 @@ export function EditDealModal({ deal, onClose, onSuccess }: EditDealModalProps)
                   </div>
                 </div>
 
+                {/* Underwriting Section */}
+                <UnderwritingCalculator
+                  register={register}
+                  values={{ loanRequest: formValues.loanRequest, ...pickUnderwritingValues(formValues) }}
+                />
+
                 {/* Additional Information Section */}
                 <div className="space-y-6">
                   <div className="flex items-center space-x-3 pb-2 border-b border-gray-600">
@@ -0,0 +1,351 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { EmailMessage, EmailMessageStatus } from '../types'
+import { Mail, RotateCcw, RefreshCw, Send, X, AlertCircle, Lock } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const statusColors: Record<EmailMessageStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+  sending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  sent: 'bg-green-500/20 text-green-400 border-green-500/50',
+  failed: 'bg-orange-500/20 text-orange-400 border-orange-500/50',
+  dead: 'bg-red-500/20 text-red-400 border-red-500/50',
+  bounced: 'bg-red-500/20 text-red-400 border-red-500/50'
+}
+
+const categoryLabels: Record<string, string> = {
+  welcome: 'Welcome / verification code',
+  verification_code: 'Verification code',
+  login_code: 'Login code',
+  notification: 'Notification',
+  deal_created: 'Deal created (team)',
+  deal_updated: 'Deal updated (team)',
+  document_uploaded: 'Document uploaded (team)',
+  malware_detected: 'Malware blocked (team)',
+  malware_scan_failed: 'Upload could not be scanned (team)',
+  json_attachment: 'JSON attachment (team)'
+}
+
+const categoryLabel = (category: string) =>
+  categoryLabels[category] || (category.startsWith('billing_') ? `Billing: ${category.slice(8).replace(/_/g, ' ')}` : category)
+
+export function EmailLogManagement() {
+  const queryClient = useQueryClient()
+  const [statusFilter, setStatusFilter] = useState('')
+  const [recipientFilter, setRecipientFilter] = useState('')
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null)
+
+  const { data, isLoading, refetch } = useQuery(
+    ['email-messages', statusFilter, recipientFilter],
+    () => adminAPI.getEmailMessages({ status: statusFilter, recipient: recipientFilter.trim() })
+  )
+  const messages = data?.messages || []
+
+  const { data: selectedData, isLoading: messageLoading } = useQuery(
+    ['email-message', selectedMessageId],
+    () => adminAPI.getEmailMessage(selectedMessageId!),
+    { enabled: !!selectedMessageId }
+  )
+  const selectedMessage = selectedData?.message
+
+  const resendMutation = useMutation(adminAPI.resendEmailMessage, {
+    onSuccess: (result) => {
+      toast.success(result.message.sensitive ? 'Email resent with a new code' : 'Email queued for resending')
+      queryClient.invalidateQueries('email-messages')
+      setSelectedMessageId(null)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to resend email')
+    }
+  })
+
+  const retryDueMutation = useMutation(adminAPI.retryDueEmailMessages, {
+    onSuccess: (result) => {
+      toast.success(`Retried ${result.attempted} email${result.attempted === 1 ? '' : 's'} (${result.sent} sent)`)
+      queryClient.invalidateQueries('email-messages')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to retry emails')
+    }
+  })
+
+  const problemCount = messages.filter(message => ['failed', 'dead', 'bounced'].includes(message.status)).length
+
+  const confirmResend = (message: EmailMessage) => {
+    if (message.sensitive && !window.confirm('This issues a new code and sends it to the member. The previous code stops working. Continue?')) {
+      return
+    }
+    resendMutation.mutate(message.id)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+                <Mail className="h-5 w-5 mr-2 text-blue-400" />
+                Email Log
+              </h3>
+              <p className="text-sm text-gray-300 mt-1">
+                Every email the portal sends is stored before delivery. Failed sends are retried automatically with
+                backoff. Login and verification codes are never shown; resending one issues a new code.
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => refetch()}
+                className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </button>
+              <button
+                onClick={() => retryDueMutation.mutate()}
+                disabled={retryDueMutation.isLoading}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {retryDueMutation.isLoading ? 'Retrying...' : 'Retry Due Now'}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mb-4">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Statuses</option>
+              <option value="pending">Pending</option>
+              <option value="sending">Sending</option>
+              <option value="sent">Sent</option>
+              <option value="failed">Failed (retrying)</option>
+              <option value="dead">Dead (gave up)</option>
+              <option value="bounced">Bounced</option>
+            </select>
+            <input
+              type="email"
+              value={recipientFilter}
+              onChange={(e) => setRecipientFilter(e.target.value)}
+              placeholder="Filter by recipient"
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {problemCount > 0 && (
+              <span className="inline-flex items-center text-sm text-orange-400">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                {problemCount} undelivered in this view
+              </span>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+              <p className="text-sm text-gray-400">No emails found</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Queued</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Recipient</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Email</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Last Error</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-gray-800 divide-y divide-gray-700">
+                  {messages.map((message) => (
+                    <tr
+                      key={message.id}
+                      onClick={() => setSelectedMessageId(message.id)}
+                      className="hover:bg-gray-700 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-300 whitespace-nowrap">
+                        {safeFormatDate(message.createdAt, 'MMM d, h:mm:ss a')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">
+                        <div className="truncate max-w-xs">{message.to.join(', ')}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">
+                        <div className="flex items-center">
+                          {message.sensitive && <Lock className="h-3 w-3 mr-1 text-gray-400 flex-shrink-0" />}
+                          <span className="truncate max-w-xs">{message.subject}</span>
+                        </div>
+                        <div className="text-xs text-gray-500">{categoryLabel(message.category)}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusColors[message.status]}`}>
+                          {message.status}
+                        </span>
+                        {message.status === 'failed' && message.nextAttemptAt && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            next {safeFormatDate(message.nextAttemptAt, 'h:mm a')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-300">{message.attempts}/{message.maxAttempts}</td>
+                      <td className="px-4 py-3 text-sm text-red-300 truncate max-w-xs">{message.bounceReason || message.lastError || ''}</td>
+                      <td className="px-4 py-3 text-right">
+                        {message.status !== 'sending' && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              confirmResend(message)
+                            }}
+                            disabled={resendMutation.isLoading}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded text-blue-300 bg-blue-900/30 border border-blue-500/50 hover:bg-blue-900/50 disabled:opacity-50"
+                          >
+                            <Send className="h-3 w-3 mr-1" />
+                            Resend
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedMessageId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg border border-gray-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+              <h3 className="text-lg font-medium text-white">Email</h3>
+              <button onClick={() => setSelectedMessageId(null)} className="text-gray-400 hover:text-white">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {messageLoading || !selectedMessage ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="col-span-2">
+                      <div className="text-gray-400">Subject</div>
+                      <div className="text-white">{selectedMessage.subject}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">To</div>
+                      <div className="text-white break-all">{selectedMessage.to.join(', ')}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Type</div>
+                      <div className="text-white">{categoryLabel(selectedMessage.category)}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Status</div>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusColors[selectedMessage.status]}`}>
+                        {selectedMessage.status}
+                      </span>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Attempts</div>
+                      <div className="text-white">{selectedMessage.attempts}/{selectedMessage.maxAttempts}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Queued</div>
+                      <div className="text-white">{safeFormatDate(selectedMessage.createdAt, 'MMM d, yyyy h:mm:ss a')}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Sent</div>
+                      <div className="text-white">
+                        {selectedMessage.sentAt ? safeFormatDate(selectedMessage.sentAt, 'MMM d, yyyy h:mm:ss a') : '—'}
+                      </div>
+                    </div>
+                    <div className="col-span-2">
+                      <div className="text-gray-400">Provider Message ID</div>
+                      <div className="text-white break-all">{selectedMessage.providerMessageId || '—'}</div>
+                    </div>
+                    {selectedMessage.resendOf && (
+                      <div className="col-span-2">
+                        <div className="text-gray-400">Resent by</div>
+                        <div className="text-white">{selectedMessage.requestedBy || '—'}</div>
+                      </div>
+                    )}
+                  </div>
+
+                  {selectedMessage.status === 'bounced' && (
+                    <div className="p-3 bg-red-900/20 border border-red-500/50 rounded-md">
+                      <div className="text-xs font-medium text-red-400 mb-1">
+                        Bounced {selectedMessage.bouncedAt ? safeFormatDate(selectedMessage.bouncedAt, 'MMM d, yyyy h:mm a') : ''}
+                      </div>
+                      <pre className="text-xs text-red-300 whitespace-pre-wrap break-all">
+                        {[selectedMessage.rejectedRecipients?.join(', '), selectedMessage.bounceReason].filter(Boolean).join('\n')}
+                      </pre>
+                    </div>
+                  )}
+
+                  {selectedMessage.lastError && (
+                    <div className="p-3 bg-red-900/20 border border-red-500/50 rounded-md">
+                      <div className="text-xs font-medium text-red-400 mb-1">Last Error</div>
+                      <pre className="text-xs text-red-300 whitespace-pre-wrap break-all">{selectedMessage.lastError}</pre>
+                    </div>
+                  )}
+
+                  {selectedMessage.sensitive ? (
+                    <div className="p-3 bg-gray-700 border border-gray-600 rounded-md text-sm text-gray-300 flex items-center">
+                      <Lock className="h-4 w-4 mr-2 text-gray-400" />
+                      This email carries a login or verification code, so its content is not shown.
+                    </div>
+                  ) : selectedMessage.html ? (
+                    <div>
+                      <div className="text-xs font-medium text-gray-400 mb-1">Content</div>
+                      <iframe
+                        title="Email content"
+                        sandbox=""
+                        srcDoc={selectedMessage.html}
+                        className="w-full h-96 bg-white rounded-md border border-gray-700"
+                      />
+                    </div>
+                  ) : selectedMessage.text ? (
+                    <div>
+                      <div className="text-xs font-medium text-gray-400 mb-1">Content</div>
+                      <pre className="text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-md p-3 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                        {selectedMessage.text}
+                      </pre>
+                    </div>
+                  ) : null}
+
+                  {selectedMessage.attachments && selectedMessage.attachments.length > 0 && (
+                    <div className="text-sm text-gray-300">
+                      Attachments: {selectedMessage.attachments.map(attachment => attachment.filename).join(', ')}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => confirmResend(selectedMessage)}
+                      disabled={resendMutation.isLoading || selectedMessage.status === 'sending'}
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {resendMutation.isLoading ? 'Resending...' : selectedMessage.sensitive ? 'Resend With New Code' : 'Resend Email'}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { FileText, History, RotateCcw, Save, Send } from 'lucide-react'
+import { adminAPI } from '../services/api'
+import { EmailTemplate, EmailTemplateContent, EmailTemplateKey } from '../types'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const PREVIEW_DELAY_MS = 500
+
+const errorMessages = (error: any): string[] => {
+  const data = error?.response?.data
+  if (data?.errors) return data.errors.map((entry: { msg: string }) => entry.msg)
+  return [data?.error || 'Failed to render template']
+}
+
+export function EmailTemplateEditor() {
+  const queryClient = useQueryClient()
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey | null>(null)
+  const [draft, setDraft] = useState<EmailTemplateContent>({ subject: '', html: '', text: '' })
+  const [bodyTab, setBodyTab] = useState<'html' | 'text'>('html')
+  const [preview, setPreview] = useState<EmailTemplateContent | null>(null)
+  const [problems, setProblems] = useState<string[]>([])
+  const [testEmail, setTestEmail] = useState('')
+  const [showVersions, setShowVersions] = useState(false)
+
+  const { data: templatesData, isLoading } = useQuery('email-templates', adminAPI.getEmailTemplates)
+  const templates = templatesData?.templates || []
+  const selected = templates.find(template => template.key === selectedKey)
+
+  const { data: versionsData } = useQuery(
+    ['email-template-versions', selectedKey],
+    () => adminAPI.getEmailTemplateVersions(selectedKey!),
+    { enabled: !!selectedKey && showVersions }
+  )
+  const versions = versionsData?.versions || []
+
+  const isDirty = !!selected && (
+    draft.subject !== selected.subject || draft.html !== selected.html || draft.text !== selected.text
+  )
+
+  // Start on the first template, and load the stored content whenever another one is picked
+  useEffect(() => {
+    if (!selectedKey && templates.length > 0) setSelectedKey(templates[0].key)
+  }, [templates, selectedKey])
+
+  useEffect(() => {
+    if (selected) setDraft({ subject: selected.subject, html: selected.html, text: selected.text })
+    // Only when switching templates or after a save, not on every refetch of the same version
+  }, [selected?.key, selected?.version])
+
+  // Live preview against the sample deal and user
+  useEffect(() => {
+    if (!selectedKey || !draft.subject) return
+    const timer = setTimeout(() => {
+      adminAPI.previewEmailTemplate({ key: selectedKey, ...draft })
+        .then((rendered) => {
+          setPreview(rendered)
+          setProblems([])
+        })
+        .catch((error) => setProblems(errorMessages(error)))
+    }, PREVIEW_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [selectedKey, draft])
+
+  const onTemplateSaved = (template: EmailTemplate, message: string) => {
+    toast.success(message)
+    queryClient.setQueryData<{ templates: EmailTemplate[] } | undefined>('email-templates', (current) =>
+      current && { templates: current.templates.map(existing => existing.key === template.key ? { ...existing, ...template } : existing) }
+    )
+    queryClient.invalidateQueries('email-templates')
+    queryClient.invalidateQueries(['email-template-versions', template.key])
+  }
+
+  const saveMutation = useMutation(adminAPI.saveEmailTemplate, {
+    onSuccess: ({ template }) => onTemplateSaved(template, 'Template saved'),
+    onError: (error: any) => {
+      setProblems(errorMessages(error))
+      toast.error('Failed to save template')
+    },
+  })
+
+  const resetMutation = useMutation(adminAPI.resetEmailTemplate, {
+    onSuccess: ({ template }) => onTemplateSaved(template, 'Template reset to default'),
+    onError: () => {
+      toast.error('Failed to reset template')
+    },
+  })
+
+  const restoreMutation = useMutation(adminAPI.restoreEmailTemplate, {
+    onSuccess: ({ template }) => onTemplateSaved(template, `Restored as version ${template.version}`),
+    onError: () => {
+      toast.error('Failed to restore version')
+    },
+  })
+
+  const testMutation = useMutation(adminAPI.testEmailTemplate, {
+    onSuccess: () => {
+      toast.success('Test email sent')
+    },
+    onError: (error: any) => {
+      toast.error(errorMessages(error)[0] || 'Failed to send test email')
+    },
+  })
+
+  const selectTemplate = (key: EmailTemplateKey) => {
+    if (key === selectedKey) return
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return
+    setSelectedKey(key)
+    setPreview(null)
+    setProblems([])
+  }
+
+  const sendTest = () => {
+    if (!selectedKey) return
+    if (!testEmail) {
+      toast.error('Please enter a test email address')
+      return
+    }
+    testMutation.mutate({ key: selectedKey, testEmail, ...draft })
+  }
+
+  const copyVariable = (name: string) => {
+    navigator.clipboard.writeText(`{{${name}}}`)
+    toast.success(`Copied {{${name}}}`)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-white flex items-center mb-1">
+          <FileText className="h-5 w-5 mr-2 text-blue-400" />
+          Email Templates
+        </h3>
+        <p className="text-sm text-gray-300 mb-6">
+          Edit the emails the portal sends. Use variables like <code className="text-blue-300">{'{{deal.dealId}}'}</code>,
+          fallbacks like <code className="text-blue-300">{'{{user.username || "there"}}'}</code>, and
+          blocks like <code className="text-blue-300">{'{{#if createdBy}}...{{/if}}'}</code>. Every save is kept as a version.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <button
+                key={template.key}
+                onClick={() => selectTemplate(template.key)}
+                className={`w-full text-left px-3 py-2 rounded-md border ${
+                  template.key === selectedKey
+                    ? 'bg-blue-600/20 border-blue-500 text-white'
+                    : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                <div className="text-sm font-medium">{template.name}</div>
+                <div className="text-xs text-gray-400">
+                  {template.customized ? `Version ${template.version}` : 'Default'}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="lg:col-span-3 space-y-4">
+              <div>
+                <p className="text-sm text-gray-400">{selected.description}</p>
+                {selected.customized && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Last saved by {selected.updatedBy} on {safeFormatDate(selected.updatedAt, 'MMM d, yyyy h:mm a')}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Subject</label>
+                <input
+                  type="text"
+                  value={draft.subject}
+                  onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                {(['html', 'text'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setBodyTab(tab)}
+                    className={`px-3 py-1.5 text-sm rounded-md ${
+                      bodyTab === tab ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {tab === 'html' ? 'HTML' : 'Plain text'}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                <textarea
+                  value={draft[bodyTab]}
+                  onChange={(e) => setDraft(prev => ({ ...prev, [bodyTab]: e.target.value }))}
+                  spellCheck={false}
+                  className="w-full h-[32rem] px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-100 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="border border-gray-600 rounded-md overflow-hidden flex flex-col h-[32rem]">
+                  <div className="px-3 py-2 bg-gray-700 text-sm text-gray-200 truncate">
+                    {preview ? preview.subject : 'Preview'}
+                  </div>
+                  {preview && bodyTab === 'html' && (
+                    <iframe title="Email preview" srcDoc={preview.html} sandbox="" className="flex-1 w-full bg-white" />
+                  )}
+                  {preview && bodyTab === 'text' && (
+                    <pre className="flex-1 overflow-auto p-3 bg-white text-gray-900 text-xs whitespace-pre-wrap">{preview.text}</pre>
+                  )}
+                </div>
+              </div>
+
+              {problems.length > 0 && (
+                <div className="bg-red-900/20 border border-red-500/50 rounded-md p-3 text-sm text-red-300 space-y-1">
+                  {problems.map((problem, index) => <div key={index}>{problem}</div>)}
+                </div>
+              )}
+
+              <div>
+                <p className="text-sm font-medium text-gray-300 mb-2">Variables (click to copy)</p>
+                <div className="flex flex-wrap gap-2">
+                  {selected.variables.map(variable => (
+                    <button
+                      key={variable.name}
+                      onClick={() => copyVariable(variable.name)}
+                      title={variable.description}
+                      className="px-2 py-1 text-xs font-mono rounded bg-gray-700 border border-gray-600 text-blue-300 hover:bg-gray-600"
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4 border-t border-gray-600 pt-4">
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={testEmail}
+                    onChange={(e) => setTestEmail(e.target.value)}
+                    placeholder="test@example.com"
+                    className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={sendTest}
+                    disabled={testMutation.isLoading || problems.length > 0}
+                    className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {testMutation.isLoading ? 'Sending...' : 'Send Test'}
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowVersions(!showVersions)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('Replace this template with the built-in default? The current version stays in the history.')) {
+                        resetMutation.mutate(selected.key)
+                      }
+                    }}
+                    disabled={resetMutation.isLoading || !selected.customized}
+                    className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reset to Default
+                  </button>
+                  <button
+                    onClick={() => saveMutation.mutate({ key: selected.key, ...draft })}
+                    disabled={!isDirty || saveMutation.isLoading || problems.length > 0}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isLoading ? 'Saving...' : 'Save Template'}
+                  </button>
+                </div>
+              </div>
+
+              {showVersions && (
+                <div className="bg-gray-700 rounded-lg border border-gray-600 divide-y divide-gray-600">
+                  {versions.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-400">No saved versions yet; the built-in default is in use.</p>
+                  ) : versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between px-4 py-3">
+                      <div className="text-sm">
+                        <span className="text-white font-medium">Version {version.version}</span>
+                        {version.version === selected.version && <span className="ml-2 text-xs text-green-400">Current</span>}
+                        <div className="text-xs text-gray-400">
+                          {safeFormatDate(version.createdAt, 'MMM d, yyyy h:mm a')} by {version.createdBy}
+                          {version.note && ` · ${version.note}`}
+                        </div>
+                      </div>
+                      {version.version !== selected.version && (
+                        <button
+                          onClick={() => {
+                            if (!isDirty || window.confirm('Discard unsaved changes and restore this version?')) {
+                              restoreMutation.mutate({ key: selected.key, version: version.version })
+                            }
+                          }}
+                          disabled={restoreMutation.isLoading}
+                          className="px-3 py-1.5 text-sm rounded-md border border-gray-500 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
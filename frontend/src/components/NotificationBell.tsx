@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import { Bell } from 'lucide-react'
+import { userAPI } from '../services/api'
+import { UserNotification } from '../types'
+import { formatDateTime } from '../utils/dateUtils'
+import { cn } from '../utils/cn'
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+
+  const { data } = useQuery('notifications', () => userAPI.getNotifications(), {
+    refetchInterval: 60000,
+  })
+  const notifications = data?.notifications || []
+  const unreadCount = data?.unreadCount || 0
+
+  const markReadMutation = useMutation(userAPI.markNotificationRead, {
+    onSuccess: () => queryClient.invalidateQueries('notifications'),
+  })
+
+  const markAllReadMutation = useMutation(userAPI.markAllNotificationsRead, {
+    onSuccess: () => queryClient.invalidateQueries('notifications'),
+  })
+
+  // Close the inbox when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSelect = (notification: UserNotification) => {
+    if (!notification.read) {
+      markReadMutation.mutate(notification.id)
+    }
+    setOpen(false)
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative inline-flex h-8 w-8 items-center justify-center rounded-md border border-gray-200 bg-white px-2 py-1 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-800 dark:focus:ring-offset-black"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllReadMutation.mutate()}
+                disabled={markAllReadMutation.isLoading}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-sm text-center text-gray-500 dark:text-gray-400">You're all caught up</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={cn(
+                    'w-full text-left px-4 py-3 border-b last:border-b-0 border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700',
+                    !notification.read && 'bg-blue-50 dark:bg-blue-500/10'
+                  )}
+                >
+                  <div className="flex items-start gap-2">
+                    <span className={cn(
+                      'mt-1.5 h-2 w-2 rounded-full flex-shrink-0',
+                      notification.read ? 'bg-transparent' : 'bg-blue-500'
+                    )} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-300 mt-0.5 line-clamp-3">{notification.body}</p>
+                      <p className="text-xs text-gray-400 mt-1">{formatDateTime(notification.createdAt)}</p>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { userAPI } from '../services/api'
+import { NotificationChannel, NotificationPreference } from '../types'
+import { LoadingSpinner } from './LoadingSpinner'
+
+const CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'in_app', label: 'In-app' },
+  { channel: 'discord', label: 'Discord DM' },
+]
+
+export function NotificationPreferences() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery('notificationPreferences', userAPI.getNotificationPreferences)
+  const preferences = data?.preferences || []
+  const discordLinked = data?.discordLinked ?? false
+
+  const updateMutation = useMutation(userAPI.updateNotificationPreferences, {
+    onSuccess: () => {
+      toast.success('Notification preferences saved')
+      queryClient.invalidateQueries('notificationPreferences')
+    },
+    onError: () => {
+      toast.error('Failed to save notification preferences')
+    },
+  })
+
+  const toggle = (preference: NotificationPreference, channel: NotificationChannel) => {
+    const updated = Object.fromEntries(preferences.map(candidate => [
+      candidate.type,
+      candidate.type === preference.type
+        ? { ...candidate.enabled, [channel]: !candidate.enabled[channel] }
+        : candidate.enabled,
+    ]))
+    updateMutation.mutate(updated)
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">Notifications</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Choose how you hear about changes to your deals, appointments and membership.
+        {!discordLinked && ' Connect your Discord account to get direct messages.'}
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase pb-2"></th>
+                {CHANNELS.map(({ channel, label }) => (
+                  <th key={channel} className="text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase pb-2 px-3">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {preferences.map((preference) => (
+                <tr key={preference.type}>
+                  <td className="py-3 pr-4">
+                    <p className="text-gray-900 dark:text-white">{preference.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{preference.description}</p>
+                  </td>
+                  {CHANNELS.map(({ channel, label }) => (
+                    <td key={channel} className="py-3 px-3 text-center">
+                      {preference.channels.includes(channel) ? (
+                        <input
+                          type="checkbox"
+                          aria-label={`${preference.label}: ${label}`}
+                          checked={!!preference.enabled[channel] && (channel !== 'discord' || discordLinked)}
+                          disabled={(channel === 'discord' && !discordLinked) || updateMutation.isLoading}
+                          onChange={() => toggle(preference, channel)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                        />
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { Clock, Play, RefreshCw } from 'lucide-react'
+import { adminAPI } from '../services/api'
+import { JobRun, ScheduledJobName } from '../types'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const jobLabels: Record<ScheduledJobName, string> = {
+  subscription_sweep: 'Subscription sweep',
+  discord_role_reconcile: 'Discord role reconcile',
+  document_scan: 'Quarantined document scan',
+  deal_query_backfill: 'Deal search field backfill'
+}
+
+const statusColors: Record<JobRun['status'], string> = {
+  running: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+  succeeded: 'bg-green-500/20 text-green-400 border-green-500/50',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/50'
+}
+
+const formatSummary = (summary?: Record<string, number>) =>
+  summary ? Object.entries(summary).map(([key, value]) => `${key}: ${value}`).join(', ') : ''
+
+export function ScheduledJobsManagement() {
+  const queryClient = useQueryClient()
+  const [jobFilter, setJobFilter] = useState<ScheduledJobName | ''>('')
+  const [offsetsInput, setOffsetsInput] = useState('')
+
+  const { data: jobsData } = useQuery('scheduled-jobs', adminAPI.getScheduledJobs)
+  const { data: runsData, isLoading, refetch } = useQuery(
+    ['job-runs', jobFilter],
+    () => adminAPI.getJobRuns(jobFilter || undefined)
+  )
+  const { data: dunningSettings } = useQuery('dunning-settings', adminAPI.getDunningSettings)
+  const jobs = jobsData?.jobs || []
+  const runs = runsData?.runs || []
+
+  useEffect(() => {
+    if (dunningSettings) setOffsetsInput(dunningSettings.offsetsDays.join(', '))
+  }, [dunningSettings])
+
+  const runMutation = useMutation(adminAPI.runScheduledJob, {
+    onSuccess: (run) => {
+      if (run.status === 'failed') {
+        toast.error(`${jobLabels[run.job]} failed: ${run.error}`)
+      } else {
+        toast.success(`${jobLabels[run.job]} finished`)
+      }
+      queryClient.invalidateQueries('scheduled-jobs')
+      queryClient.invalidateQueries('job-runs')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to run job')
+    },
+  })
+
+  const saveOffsetsMutation = useMutation(adminAPI.saveDunningSettings, {
+    onSuccess: ({ offsetsDays }) => {
+      toast.success('Dunning schedule saved')
+      setOffsetsInput(offsetsDays.join(', '))
+      queryClient.invalidateQueries('dunning-settings')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.errors?.[0]?.msg || 'Failed to save dunning schedule')
+    },
+  })
+
+  const saveOffsets = () => {
+    const offsetsDays = offsetsInput.split(',').map(value => value.trim()).filter(Boolean).map(Number)
+    if (offsetsDays.some(offset => !Number.isInteger(offset) || offset < 0)) {
+      toast.error('Enter whole numbers of days, separated by commas')
+      return
+    }
+    saveOffsetsMutation.mutate(offsetsDays)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-white flex items-center mb-1">
+            <Clock className="h-5 w-5 mr-2 text-blue-400" />
+            Scheduled Jobs
+          </h3>
+          <p className="text-sm text-gray-300 mb-4">
+            The subscription sweep emails members whose renewal failed and, once the grace period is over, removes
+            their paid Discord role and sends them back to the payment step.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {jobs.map((job) => (
+              <div key={job.name} className="bg-gray-700 rounded-lg border border-gray-600 p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-white font-medium">{jobLabels[job.name] || job.name}</p>
+                    <p className="text-xs text-gray-400 mt-1">{job.description}</p>
+                  </div>
+                  <button
+                    onClick={() => runMutation.mutate(job.name)}
+                    disabled={!job.enabled || runMutation.isLoading}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="h-4 w-4 mr-1" />
+                    Run now
+                  </button>
+                </div>
+                <div className="mt-3 text-xs text-gray-400 space-y-1">
+                  <p>
+                    {!job.enabled
+                      ? 'Not configured on the server'
+                      : job.intervalMinutes > 0 ? `Runs every ${job.intervalMinutes} minutes` : 'Schedule off'}
+                  </p>
+                  <p>
+                    Last run:{' '}
+                    {job.lastRun
+                      ? `${safeFormatDate(job.lastRun.startedAt, 'MMM d, h:mm a')} (${job.lastRun.status})`
+                      : 'never'}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Dunning emails (days after the period end)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={offsetsInput}
+                onChange={(e) => setOffsetsInput(e.target.value)}
+                placeholder="0, 1"
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={saveOffsets}
+                disabled={saveOffsetsMutation.isLoading}
+                className="px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Only sent while the member is still in the grace period; an empty list turns dunning emails off.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg leading-6 font-medium text-white">Run Log</h3>
+            <div className="flex gap-2">
+              <select
+                value={jobFilter}
+                onChange={(e) => setJobFilter(e.target.value as ScheduledJobName | '')}
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All Jobs</option>
+                {(Object.keys(jobLabels) as ScheduledJobName[]).map(job => (
+                  <option key={job} value={job}>{jobLabels[job]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => refetch()}
+                className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+              <p className="text-sm text-gray-400">No runs yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Started</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Job</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-gray-800 divide-y divide-gray-700">
+                  {runs.map((run) => (
+                    <tr key={run.id} className="hover:bg-gray-700 align-top">
+                      <td className="px-4 py-3 text-sm text-gray-300 whitespace-nowrap">
+                        <div>{safeFormatDate(run.startedAt, 'MMM d, h:mm:ss a')}</div>
+                        <div className="text-xs text-gray-500">
+                          {run.trigger === 'admin' ? 'Manual' : 'Scheduled'}
+                          {run.durationMs !== undefined && ` · ${(run.durationMs / 1000).toFixed(1)}s`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">{jobLabels[run.job] || run.job}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusColors[run.status]}`}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-300">
+                        {run.error ? <span className="text-red-400">{run.error}</span> : formatSummary(run.summary)}
+                        {run.errors?.map((message, index) => (
+                          <div key={index} className="text-xs text-red-400">{message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { Lock, RefreshCw } from 'lucide-react'
+import { adminAPI } from '../services/api'
+
+export function SecretEncryptionPanel() {
+  const queryClient = useQueryClient()
+  const { data: status, isLoading, isError } = useQuery(
+    'secret-encryption-status',
+    adminAPI.getSecretEncryptionStatus,
+    { retry: false }
+  )
+
+  const rotateMutation = useMutation(adminAPI.rotateSecrets, {
+    onSuccess: ({ rotated, activeKeyId }) => {
+      toast.success(rotated ? `Re-encrypted ${rotated} ${rotated === 1 ? 'secret' : 'secrets'} with key ${activeKeyId}` : 'All secrets already use the active key')
+      queryClient.invalidateQueries('secret-encryption-status')
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Failed to rotate secrets')
+    },
+  })
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+            <Lock className="h-5 w-5 mr-2 text-gray-400" />
+            Secret Encryption
+          </h3>
+          <button
+            onClick={() => rotateMutation.mutate()}
+            disabled={rotateMutation.isLoading || !status?.needsRotation}
+            className="flex items-center px-3 py-2 text-sm bg-gray-700 border border-gray-600 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${rotateMutation.isLoading ? 'animate-spin' : ''}`} />
+            Rotate keys
+          </button>
+        </div>
+        <p className="text-sm text-gray-300 mb-4">
+          GHL keys, sub-account keys and OneDrive tokens are encrypted at rest. After adding a new first key to
+          SECRET_ENCRYPTION_KEYS, rotate to re-wrap stored secrets with it, then remove the old key.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-400">Loading...</p>
+        ) : isError || !status ? (
+          <p className="text-sm text-red-400">Encryption keys are not configured on the server.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-400">Active key</p>
+              <p className="text-white font-mono">{status.activeKeyId}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Stored secrets</p>
+              <p className="text-white">{status.total}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">By key</p>
+              <p className="text-white font-mono">
+                {Object.entries(status.byKeyId).map(([keyId, count]) => `${keyId}: ${count}`).join(', ') || '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-400">Need rotation</p>
+              <p className={status.needsRotation ? 'text-yellow-400' : 'text-green-400'}>
+                {status.needsRotation}
+                {status.plaintext > 0 && ` (${status.plaintext} unencrypted)`}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { useQuery } from 'react-query'
+import { adminAPI } from '../services/api'
+import { SecurityEventType } from '../types'
+import { ShieldAlert, RefreshCw } from 'lucide-react'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const eventLabels: Record<SecurityEventType, string> = {
+  otp_failed: 'Wrong login code',
+  otp_code_locked: 'Login code locked',
+  otp_email_locked: 'Email locked out',
+  verification_code_failed: 'Wrong verification code',
+  verification_code_locked: 'Discord account locked out',
+  refresh_token_reuse: 'Refresh token reused',
+  two_factor_failed: 'Wrong two-factor code',
+  two_factor_locked: 'Two-factor locked out',
+  two_factor_enabled: 'Two-factor turned on',
+  two_factor_disabled: 'Two-factor turned off',
+  backup_code_used: 'Backup code used',
+  share_link_password_failed: 'Wrong share link password',
+  share_link_locked: 'Share link locked',
+  malware_detected: 'Malware blocked',
+  malware_scan_failed: 'Upload could not be scanned'
+}
+
+// Lockouts and token reuse need a look; single wrong codes are usually typos
+const eventColors: Record<SecurityEventType, string> = {
+  otp_failed: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  otp_code_locked: 'bg-orange-500/20 text-orange-400 border-orange-500/50',
+  otp_email_locked: 'bg-red-500/20 text-red-400 border-red-500/50',
+  verification_code_failed: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  verification_code_locked: 'bg-red-500/20 text-red-400 border-red-500/50',
+  refresh_token_reuse: 'bg-red-500/20 text-red-400 border-red-500/50',
+  two_factor_failed: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  two_factor_locked: 'bg-red-500/20 text-red-400 border-red-500/50',
+  two_factor_enabled: 'bg-green-500/20 text-green-400 border-green-500/50',
+  two_factor_disabled: 'bg-orange-500/20 text-orange-400 border-orange-500/50',
+  backup_code_used: 'bg-orange-500/20 text-orange-400 border-orange-500/50',
+  share_link_password_failed: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  share_link_locked: 'bg-red-500/20 text-red-400 border-red-500/50',
+  malware_detected: 'bg-red-500/20 text-red-400 border-red-500/50',
+  malware_scan_failed: 'bg-orange-500/20 text-orange-400 border-orange-500/50'
+}
+
+const formatDetails = (details?: Record<string, any>) =>
+  details ? Object.entries(details).map(([key, value]) => `${key}: ${value}`).join(', ') : ''
+
+export function SecurityEventsManagement() {
+  const [typeFilter, setTypeFilter] = useState('')
+  const [emailFilter, setEmailFilter] = useState('')
+
+  const { data, isLoading, refetch } = useQuery(
+    ['security-events', typeFilter, emailFilter],
+    () => adminAPI.getSecurityEvents({ type: typeFilter, email: emailFilter.trim() })
+  )
+  const events = data?.events || []
+
+  return (
+    <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+              <ShieldAlert className="h-5 w-5 mr-2 text-red-400" />
+              Security Events
+            </h3>
+            <p className="text-sm text-gray-300 mt-1">
+              Failed login and verification codes, lockouts, and reused refresh tokens. Codes lock after repeated
+              wrong guesses and emails or Discord accounts are locked out for an hour.
+            </p>
+          </div>
+          <button
+            onClick={() => refetch()}
+            className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mb-4">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All Events</option>
+            {(Object.keys(eventLabels) as SecurityEventType[]).map(type => (
+              <option key={type} value={type}>{eventLabels[type]}</option>
+            ))}
+          </select>
+          <input
+            type="email"
+            value={emailFilter}
+            onChange={(e) => setEmailFilter(e.target.value)}
+            placeholder="Filter by email"
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+            <p className="text-sm text-gray-400">No security events found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Event</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Account</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">IP Address</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Details</th>
+                </tr>
+              </thead>
+              <tbody className="bg-gray-800 divide-y divide-gray-700">
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-700">
+                    <td className="px-4 py-3 text-sm text-gray-300 whitespace-nowrap">
+                      {safeFormatDate(event.createdAt, 'MMM d, h:mm:ss a')}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${eventColors[event.type] || ''}`}>
+                        {eventLabels[event.type] || event.type}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-white">
+                      <div>{event.email || event.userId || '—'}</div>
+                      {event.discordId && <div className="text-xs text-gray-500">Discord {event.discordId}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-300">
+                      <div>{event.ipAddress || '—'}</div>
+                      {event.userAgent && <div className="text-xs text-gray-500 truncate max-w-xs">{event.userAgent}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-400 truncate max-w-xs">{formatDetails(event.details)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
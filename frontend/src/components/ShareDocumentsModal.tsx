@@ -0,0 +1,319 @@
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { documentsAPI } from '../services/api'
+import { Deal, Document, DocumentShareLink, DocumentShareLinkStatus } from '../types'
+import { X, Share2, Copy, Lock, Ban, Activity } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const expiryOptions = [1, 3, 7, 14, 30]
+
+const statusColors: Record<DocumentShareLinkStatus, string> = {
+  active: 'bg-green-500/20 text-green-400 border-green-500/50',
+  expired: 'bg-gray-500/20 text-gray-400 border-gray-500/50',
+  revoked: 'bg-red-500/20 text-red-400 border-red-500/50'
+}
+
+const actionLabels = {
+  open: 'Opened the link',
+  download: 'Downloaded',
+  zip: 'Downloaded all as zip'
+}
+
+interface ShareDocumentsModalProps {
+  deal: Deal
+  documents: Document[]
+  onClose: () => void
+}
+
+function ShareLinkActivity({ link }: { link: DocumentShareLink }) {
+  const { data: entries, isLoading } = useQuery(
+    ['share-link-access', link.id],
+    () => documentsAPI.getShareLinkAccess(link.id)
+  )
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-400 mt-2">Loading activity...</p>
+  }
+  if (!entries || entries.length === 0) {
+    return <p className="text-xs text-gray-400 mt-2">Nobody has opened this link yet</p>
+  }
+  return (
+    <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+      {entries.map(entry => (
+        <li key={entry.id} className="text-xs text-gray-300">
+          <span className="text-gray-400">{safeFormatDate(entry.createdAt, 'MMM d, yyyy h:mm a')}</span>
+          {' · '}{actionLabels[entry.action]}{entry.fileName ? ` ${entry.fileName}` : ''}
+          {entry.fileNames.length > 0 && (
+            <span title={entry.fileNames.join('\n')}> ({entry.fileNames.length} {entry.fileNames.length === 1 ? 'file' : 'files'})</span>
+          )}
+          {entry.ipAddress && <span className="text-gray-500"> · {entry.ipAddress}</span>}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Create expiring links that let a lender download a package of the deal's documents, and
+ * manage the links already sent
+ */
+export function ShareDocumentsModal({ deal, documents, onClose }: ShareDocumentsModalProps) {
+  const queryClient = useQueryClient()
+  const [selectedIds, setSelectedIds] = useState<string[]>(documents.map(document => document.id))
+  const [expiresInDays, setExpiresInDays] = useState(7)
+  const [password, setPassword] = useState('')
+  const [label, setLabel] = useState('')
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [expandedLinkId, setExpandedLinkId] = useState<string | null>(null)
+
+  const { data: links, isLoading } = useQuery(['share-links', deal.id], () => documentsAPI.getShareLinks(deal.id))
+
+  const createMutation = useMutation(
+    () => documentsAPI.createShareLink(deal.id, {
+      documentIds: selectedIds,
+      expiresInDays,
+      password: password || undefined,
+      label: label.trim() || undefined
+    }),
+    {
+      onSuccess: (link) => {
+        setCreatedUrl(link.url || null)
+        setPassword('')
+        setLabel('')
+        queryClient.invalidateQueries(['share-links', deal.id])
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Failed to create share link')
+      }
+    }
+  )
+
+  const revokeMutation = useMutation(documentsAPI.revokeShareLink, {
+    onSuccess: () => {
+      toast.success('Link revoked')
+      queryClient.invalidateQueries(['share-links', deal.id])
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke link')
+    }
+  })
+
+  const toggleDocument = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id])
+  }
+
+  const handleCreate = () => {
+    if (selectedIds.length === 0) {
+      toast.error('Pick at least one document')
+      return
+    }
+    if (password && password.length < 6) {
+      toast.error('Password must be at least 6 characters')
+      return
+    }
+    createMutation.mutate()
+  }
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success('Link copied')
+    } catch (error) {
+      toast.error('Copy the link manually')
+    }
+  }
+
+  const handleRevoke = (link: DocumentShareLink) => {
+    if (window.confirm('Revoke this link? Anyone who has it will no longer be able to download the documents.')) {
+      revokeMutation.mutate(link.id)
+    }
+  }
+
+  const documentName = (id: string) => {
+    const document = documents.find(candidate => candidate.id === id)
+    return document ? document.originalName || document.filename : 'Deleted document'
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return createPortal(
+    <div className="fixed inset-0 z-[10000] overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center px-4 py-8">
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-80 backdrop-blur-sm" onClick={onClose} />
+
+        <div className="relative z-10 w-full max-w-2xl rounded-xl bg-gray-800 text-left shadow-2xl border border-gray-700">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-600">
+            <div className="flex items-center space-x-3">
+              <Share2 className="h-5 w-5 text-blue-400" />
+              <div>
+                <h3 className="text-lg font-semibold text-white">Share Documents</h3>
+                <p className="text-sm text-gray-400">Send a lender an expiring link to download a package of this deal's documents</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-600 rounded-lg"
+              aria-label="Close share documents"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+            {createdUrl ? (
+              <div className="p-4 bg-green-900/20 border border-green-500/50 rounded-lg space-y-3">
+                <p className="text-sm text-green-300">
+                  Link created. Copy it now: it can't be shown again, but you can always create another.
+                </p>
+                <div className="flex items-center space-x-2">
+                  <input type="text" readOnly value={createdUrl} className={inputClass} onFocus={(e) => e.target.select()} />
+                  <button
+                    onClick={() => handleCopy(createdUrl)}
+                    className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </button>
+                </div>
+                <button onClick={() => setCreatedUrl(null)} className="text-sm text-blue-400 hover:text-blue-300">
+                  Create another link
+                </button>
+              </div>
+            ) : documents.length === 0 ? (
+              <p className="text-sm text-gray-400">Upload documents before sharing them.</p>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-300">Documents</p>
+                    <button
+                      onClick={() => setSelectedIds(selectedIds.length === documents.length ? [] : documents.map(document => document.id))}
+                      className="text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      {selectedIds.length === documents.length ? 'Select none' : 'Select all'}
+                    </button>
+                  </div>
+                  <div className="space-y-1 max-h-48 overflow-y-auto p-2 bg-gray-700 rounded-lg border border-gray-600">
+                    {documents.map(document => (
+                      <label key={document.id} className="flex items-center text-sm text-gray-200 py-1">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(document.id)}
+                          onChange={() => toggleDocument(document.id)}
+                          className="h-4 w-4 mr-2 rounded border-gray-600 bg-gray-700 text-blue-600"
+                        />
+                        <span className="truncate">{document.originalName || document.filename}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">For</label>
+                    <input
+                      type="text"
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      placeholder="e.g. First Bank"
+                      maxLength={100}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Expires after</label>
+                    <select value={expiresInDays} onChange={(e) => setExpiresInDays(Number(e.target.value))} className={inputClass}>
+                      {expiryOptions.map(days => (
+                        <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Password (optional)</label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="At least 6 characters"
+                      autoComplete="new-password"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleCreate}
+                    disabled={createMutation.isLoading}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Share2 className="h-4 w-4 mr-2" />
+                    {createMutation.isLoading ? 'Creating...' : `Create link for ${selectedIds.length} document${selectedIds.length === 1 ? '' : 's'}`}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-2">Links</p>
+              {isLoading ? (
+                <div className="text-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+                </div>
+              ) : !links || links.length === 0 ? (
+                <p className="text-sm text-gray-400">No links shared yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {links.map(link => (
+                    <div key={link.id} className="p-3 bg-gray-700 rounded-lg border border-gray-600">
+                      <div className="flex items-start justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm text-white flex items-center">
+                            {link.hasPassword && <Lock className="h-3 w-3 mr-1 text-gray-400" />}
+                            {link.label || `${link.documentIds.length} document${link.documentIds.length === 1 ? '' : 's'}`}
+                            <span className={`ml-2 inline-flex px-2 py-0.5 text-xs rounded-full border ${statusColors[link.status]}`}>
+                              {link.status}
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {link.createdByName ? `${link.createdByName} · ` : ''}created {safeFormatDate(link.createdAt, 'MMM d, yyyy')} ·
+                            {' '}{link.status === 'revoked' ? `revoked ${safeFormatDate(link.revokedAt, 'MMM d, yyyy')}` : `expires ${safeFormatDate(link.expiresAt, 'MMM d, yyyy h:mm a')}`} ·
+                            {' '}{link.accessCount} access{link.accessCount === 1 ? '' : 'es'}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1 truncate">{link.documentIds.map(documentName).join(', ')}</p>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-3">
+                          <button
+                            onClick={() => setExpandedLinkId(expandedLinkId === link.id ? null : link.id)}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded text-gray-300 bg-gray-600 hover:bg-gray-500"
+                          >
+                            <Activity className="h-3 w-3 mr-1" />
+                            Activity
+                          </button>
+                          {link.status === 'active' && (
+                            <button
+                              onClick={() => handleRevoke(link)}
+                              disabled={revokeMutation.isLoading}
+                              className="inline-flex items-center px-2 py-1 text-xs font-medium rounded text-red-300 bg-red-900/30 border border-red-500/50 hover:bg-red-900/50 disabled:opacity-50"
+                            >
+                              <Ban className="h-3 w-3 mr-1" />
+                              Revoke
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {expandedLinkId === link.id && <ShareLinkActivity link={link} />}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
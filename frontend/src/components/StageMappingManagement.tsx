@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { StageMappingEntry } from '../types'
+import { GitBranch, Save, AlertCircle, RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+// Fixed palette so every stage color is a class Tailwind already generates
+const stageColors = [
+  'bg-green-500',
+  'bg-gray-400',
+  'bg-orange-500',
+  'bg-pink-500',
+  'bg-teal-500',
+  'bg-blue-400',
+  'bg-purple-500',
+  'bg-yellow-500',
+  'bg-red-500',
+  'bg-indigo-500'
+]
+
+const defaultPortalStages = ['Qualification', 'Needs Analysis', 'Lender Submission', 'Proposal', 'Signed Proposal', 'Underwriting']
+
+export function StageMappingManagement() {
+  const queryClient = useQueryClient()
+  const [selectedPipelineId, setSelectedPipelineId] = useState('')
+  const [stages, setStages] = useState<StageMappingEntry[]>([])
+
+  const { data: pipelinesData, isLoading: pipelinesLoading } = useQuery('ghl-pipelines', adminAPI.getGHLPipelines)
+  const { data: mappingsData } = useQuery('stage-mappings', adminAPI.getStageMappings)
+
+  const pipelines = pipelinesData?.pipelines || []
+  const selectedPipeline = pipelines.find((pipeline: any) => pipeline.id === selectedPipelineId)
+
+  // Default to the pipeline deals are synced with
+  useEffect(() => {
+    if (!selectedPipelineId && mappingsData?.configuredPipelineId) {
+      setSelectedPipelineId(mappingsData.configuredPipelineId)
+    }
+  }, [mappingsData, selectedPipelineId])
+
+  const { data: mapping, isLoading: mappingLoading, refetch } = useQuery(
+    ['stage-mapping', selectedPipelineId],
+    () => adminAPI.getStageMapping(selectedPipelineId),
+    {
+      enabled: !!selectedPipelineId,
+      onSuccess: (data) => setStages(data.stages)
+    }
+  )
+
+  const saveMutation = useMutation(
+    () => adminAPI.saveStageMapping(selectedPipelineId, {
+      pipelineName: selectedPipeline?.name,
+      stages: stages.filter(stage => stage.existsInGHL !== false)
+    }),
+    {
+      onSuccess: () => {
+        toast.success('Stage mapping saved')
+        queryClient.invalidateQueries('stage-mappings')
+        queryClient.invalidateQueries('deal-stages')
+        refetch()
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to save stage mapping')
+      }
+    }
+  )
+
+  const updateStage = (ghlStageId: string, changes: Partial<StageMappingEntry>) => {
+    setStages(prev => prev.map(stage => stage.ghlStageId === ghlStageId ? { ...stage, ...changes } : stage))
+  }
+
+  const unmappedCount = stages.filter(stage => stage.existsInGHL !== false && !stage.portalStage.trim()).length
+  const isConfiguredPipeline = mappingsData?.configuredPipelineId === selectedPipelineId
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-white mb-2 flex items-center">
+            <GitBranch className="h-5 w-5 mr-2 text-blue-400" />
+            GHL Stage Mapping
+          </h3>
+          <p className="text-sm text-gray-300 mb-6">
+            Map each GoHighLevel pipeline stage to a portal stage. Webhooks use this mapping to move deals,
+            and the deal board uses the portal stage order and colors. Renamed GHL stages keep their mapping
+            because stages are matched by ID.
+          </p>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-300 mb-2">Pipeline</label>
+            <select
+              value={selectedPipelineId}
+              onChange={(e) => setSelectedPipelineId(e.target.value)}
+              disabled={pipelinesLoading}
+              className="w-full sm:w-96 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{pipelinesLoading ? 'Loading pipelines...' : 'Select a pipeline'}</option>
+              {pipelines.map((pipeline: any) => (
+                <option key={pipeline.id} value={pipeline.id}>
+                  {pipeline.name}{pipeline.id === mappingsData?.configuredPipelineId ? ' (deal pipeline)' : ''}
+                </option>
+              ))}
+            </select>
+            {selectedPipelineId && !isConfiguredPipeline && (
+              <p className="text-xs text-yellow-400 mt-2">
+                This is not the pipeline new deals are synced to, so it only affects webhook stage resolution.
+              </p>
+            )}
+          </div>
+
+          {selectedPipelineId && mappingLoading && (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+              <p className="text-sm text-gray-400 mt-2">Loading stages...</p>
+            </div>
+          )}
+
+          {selectedPipelineId && !mappingLoading && stages.length === 0 && (
+            <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+              <p className="text-sm text-gray-400">No stages found for this pipeline</p>
+            </div>
+          )}
+
+          {stages.length > 0 && (
+            <>
+              {unmappedCount > 0 && (
+                <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-500/50 rounded-md flex items-center text-sm text-yellow-300">
+                  <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                  {unmappedCount} GHL {unmappedCount === 1 ? 'stage is' : 'stages are'} not mapped. Deals moved into
+                  {unmappedCount === 1 ? ' it' : ' them'} will keep the raw GHL stage name.
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-700">
+                  <thead className="bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">GHL Stage</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Portal Stage</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Order</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Color</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-gray-800 divide-y divide-gray-700">
+                    {stages.map((stage) => (
+                      <tr key={stage.ghlStageId} className={stage.existsInGHL === false ? 'opacity-50' : ''}>
+                        <td className="px-4 py-3 text-sm text-white">
+                          <div>{stage.ghlStageName || stage.ghlStageId}</div>
+                          {stage.existsInGHL === false && (
+                            <div className="text-xs text-red-400">Removed from GHL - will be dropped on save</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            list="portal-stage-options"
+                            value={stage.portalStage}
+                            onChange={(e) => updateStage(stage.ghlStageId, { portalStage: e.target.value })}
+                            placeholder="Not mapped"
+                            disabled={stage.existsInGHL === false}
+                            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={0}
+                            value={stage.order}
+                            onChange={(e) => updateStage(stage.ghlStageId, { order: parseInt(e.target.value) || 0 })}
+                            disabled={stage.existsInGHL === false}
+                            className="w-20 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                            {stageColors.map((color) => (
+                              <button
+                                key={color}
+                                type="button"
+                                onClick={() => updateStage(stage.ghlStageId, { color })}
+                                disabled={stage.existsInGHL === false}
+                                className={`w-5 h-5 rounded ${color} ${stage.color === color ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-white' : ''}`}
+                                aria-label={color}
+                              />
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <datalist id="portal-stage-options">
+                  {defaultPortalStages.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="mt-6 flex items-center justify-between">
+                <p className="text-xs text-gray-400">
+                  {mapping?.updatedAt
+                    ? `Last saved ${safeFormatDate(mapping.updatedAt, 'MMM d, yyyy h:mm a')}${mapping.updatedBy ? ` by ${mapping.updatedBy}` : ''}`
+                    : 'This pipeline has not been mapped yet'}
+                </p>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => refetch()}
+                    className="inline-flex items-center px-4 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Reload from GHL
+                  </button>
+                  <button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isLoading}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isLoading ? 'Saving...' : 'Save Mapping'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
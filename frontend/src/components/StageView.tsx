@@ -1,7 +1,8 @@
-import { Deal, User } from '../types'
+import { Deal, User, BoardStage } from '../types'
 import { DollarSign, MoreHorizontal, ChevronDown, ChevronRight, CheckSquare, Square, Plus } from 'lucide-react'
 import { useState, useEffect } from 'react'
-import { adminAPI } from '../services/api'
+import { useQuery } from 'react-query'
+import { adminAPI, dealsAPI } from '../services/api'
 import { useAuth } from '../hooks/useAuth'
 
 interface StageViewProps {
@@ -11,6 +12,15 @@ interface StageViewProps {
   initialStatusFilter?: string
 }
 
+const defaultStages: BoardStage[] = [
+  { name: 'Underwriting', color: 'bg-green-500', order: 0, aliases: ['Underwriting Stage'] },
+  { name: 'Signed Proposal', color: 'bg-gray-400', order: 1, aliases: ['Signed Proposal Stage'] },
+  { name: 'Proposal', color: 'bg-orange-500', order: 2, aliases: ['Proposal Stage'] },
+  { name: 'Lender Submission', color: 'bg-pink-500', order: 3, aliases: ['Lender Submission Stage'] },
+  { name: 'Needs Analysis', color: 'bg-teal-500', order: 4, aliases: ['Needs Analysis Stage'] },
+  { name: 'Qualification', color: 'bg-blue-400', order: 5, aliases: ['Initial Qualification Stage'] }
+]
+
 interface StageGroup {
   name: string
   color: string
@@ -30,25 +40,14 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
     setStatusFilter(initialStatusFilter)
   }, [initialStatusFilter])
   
-  // Define all possible stages in order with colors
-  const stageConfig = [
-    { name: 'Underwriting', color: 'bg-green-500', shortName: 'Underwriting' },
-    { name: 'Signed Proposal', color: 'bg-gray-400', shortName: 'Signed Proposal' },
-    { name: 'Proposal', color: 'bg-orange-500', shortName: 'Proposal' },
-    { name: 'Lender Submission', color: 'bg-pink-500', shortName: 'Lender Submission' },
-    { name: 'Needs Analysis', color: 'bg-teal-500', shortName: 'Needs Analysis' },
-    { name: 'Qualification', color: 'bg-blue-400', shortName: 'Qualification' }
-  ]
+  // Stage columns come from the admin-configured GHL stage mapping; these are used until it loads
+  const { data: boardStages } = useQuery<BoardStage[]>('deal-stages', dealsAPI.getStages, {
+    staleTime: 5 * 60 * 1000
+  })
+  const stageConfig: BoardStage[] = boardStages && boardStages.length > 0 ? boardStages : defaultStages
 
   // Default all sections to permanently expanded (open) state
-  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
-    'Underwriting': true,
-    'Signed Proposal': true,
-    'Proposal': true,
-    'Lender Submission': true,
-    'Needs Analysis': true,
-    'Qualification': true
-  })
+  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({})
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set())
 
   // Filter deals by status
@@ -99,27 +98,15 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
     return userData.username || 'Unknown User'
   }
 
-  // Function to normalize stage names
+  // Function to normalize stage names using the configured stage aliases
   const normalizeStageName = (stageName: string): string => {
     if (!stageName) return 'No Stage'
     
-    // Map various stage name formats to our standard names
-    const stageMap: Record<string, string> = {
-      'Initial Qualification Stage': 'Qualification',
-      'Needs Analysis Stage': 'Needs Analysis',
-      'Lender Submission Stage': 'Lender Submission',
-      'Proposal Stage': 'Proposal',
-      'Signed Proposal Stage': 'Signed Proposal',
-      'Underwriting Stage': 'Underwriting',
-      'Qualification': 'Qualification',
-      'Needs Analysis': 'Needs Analysis',
-      'Lender Submission': 'Lender Submission',
-      'Proposal': 'Proposal',
-      'Signed Proposal': 'Signed Proposal',
-      'Underwriting': 'Underwriting'
-    }
+    const match = stageConfig.find(config =>
+      config.name === stageName || config.aliases.includes(stageName)
+    )
     
-    return stageMap[stageName] || stageName
+    return match ? match.name : stageName
   }
 
   // Group deals by stage
@@ -136,7 +123,7 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
       groups.push({
         name: stageConfigItem?.name || normalizedStage,
         color: stageConfigItem?.color || 'bg-gray-500',
-        shortName: stageConfigItem?.shortName || normalizedStage,
+        shortName: stageConfigItem?.name || normalizedStage,
         stage: normalizedStage,
         deals: [deal],
         count: 1
@@ -150,7 +137,9 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
   const sortedStageGroups: StageGroup[] = stageConfig.map(config => {
     const existingGroup = stageGroups.find(group => group.stage === config.name)
     return {
-      ...config,
+      name: config.name,
+      color: config.color,
+      shortName: config.name,
       deals: existingGroup?.deals || [],
       count: existingGroup?.count || 0,
       stage: config.name
@@ -171,7 +160,7 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
   const toggleSection = (stage: string) => {
     setExpandedSections(prev => ({
       ...prev,
-      [stage]: !prev[stage]
+      [stage]: prev[stage] === false
     }))
   }
 
@@ -381,7 +370,7 @@ export function StageView({ deals, onCreateDeal, isLoading = false, initialStatu
       {/* Stages */}
       <div className="p-6 space-y-4">
         {sortedStageGroups.map((group) => {
-          const isExpanded = expandedSections[group.name]
+          const isExpanded = expandedSections[group.name] !== false
           const totalLoanAmount = getTotalLoanAmount(group.deals)
           const propertyTypes = getPropertyTypes(group.deals)
           
@@ -113,8 +113,9 @@ export const SubAccountManagement: React.FC = () => {
     setEditingId(subAccount.id);
     setFormData({
       name: subAccount.name,
-      apiKey: subAccount.apiKey,
-      v2Token: subAccount.v2Token || '',
+      // Stored secrets come back masked; left blank, they are kept
+      apiKey: '',
+      v2Token: '',
       locationId: subAccount.locationId,
       ghlUserId: subAccount.ghlUserId || ''
     });
@@ -125,6 +126,8 @@ export const SubAccountManagement: React.FC = () => {
     setFormData({ name: '', apiKey: '', v2Token: '', locationId: '', ghlUserId: '' });
   };
 
+  const editingSubAccount = subAccounts.find(subAccount => subAccount.id === editingId);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -193,14 +196,14 @@ export const SubAccountManagement: React.FC = () => {
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              API Key *
+              API Key {editingId ? '' : '*'}
             </label>
             <input
               type="password"
               value={formData.apiKey}
               onChange={(e) => setFormData(prev => ({ ...prev, apiKey: e.target.value }))}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="GHL API Key"
+              placeholder={editingSubAccount?.apiKey ? `Leave blank to keep ${editingSubAccount.apiKey}` : 'GHL API Key'}
             />
           </div>
           
@@ -213,7 +216,7 @@ export const SubAccountManagement: React.FC = () => {
               value={formData.v2Token}
               onChange={(e) => setFormData(prev => ({ ...prev, v2Token: e.target.value }))}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="GHL V2 Private Integration Token"
+              placeholder={editingSubAccount?.v2Token ? `Leave blank to keep ${editingSubAccount.v2Token}` : 'GHL V2 Private Integration Token'}
             />
           </div>
           
@@ -242,7 +245,7 @@ export const SubAccountManagement: React.FC = () => {
           )}
           <button
             onClick={editingId ? () => handleUpdate(editingId) : handleCreate}
-            disabled={isCreating || !formData.name || !formData.apiKey || !formData.locationId}
+            disabled={isCreating || !formData.name || (!editingId && !formData.apiKey) || !formData.locationId}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
           >
             {isCreating ? (
@@ -294,7 +297,7 @@ export const SubAccountManagement: React.FC = () => {
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
                       <div className="flex items-center space-x-2">
                         <Key className="h-4 w-4" />
-                        <span>API Key: {subAccount.apiKey ? '••••••••' : 'Not set'}</span>
+                        <span>API Key: {subAccount.apiKey || 'Not set'}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <MapPin className="h-4 w-4" />
@@ -302,7 +305,7 @@ export const SubAccountManagement: React.FC = () => {
                       </div>
                       <div className="flex items-center space-x-2">
                         <Settings className="h-4 w-4" />
-                        <span>V2 Token: {subAccount.v2Token ? '••••••••' : 'Not set'}</span>
+                        <span>V2 Token: {subAccount.v2Token || 'Not set'}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <MapPin className="h-4 w-4" />
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { authAPI } from '../services/api'
+import { AuthResponse, TwoFactorChallenge, TwoFactorEnrollment } from '../types'
+
+interface TwoFactorPromptProps {
+  challenge: TwoFactorChallenge
+  onSignedIn: (response: AuthResponse) => void
+  onCancel: () => void
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-black border-2 border-yellow-500 rounded-lg text-white text-center tracking-widest placeholder-gray-500 focus:outline-none focus:border-yellow-400 focus:ring-2 focus:ring-yellow-400/50'
+
+const buttonClassName = 'matrix-button-secondary group relative w-full flex justify-center py-3 px-4 sm:py-4 sm:px-6 text-sm sm:text-lg font-bold rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed'
+
+/**
+ * Second sign-in step, shown by the login pages when a sign-in returns a two-factor challenge.
+ * Admins without an authenticator enroll here before they get a session.
+ */
+export function TwoFactorPrompt({ challenge, onSignedIn, onCancel }: TwoFactorPromptProps) {
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [enrolled, setEnrolled] = useState<{ backupCodes: string[]; response: AuthResponse } | null>(null)
+
+  useEffect(() => {
+    if (!challenge.twoFactorSetupRequired) return
+    authAPI.setupTwoFactor(challenge.challengeToken)
+      .then(setEnrollment)
+      .catch((err: any) => setError(err.response?.data?.error || 'Failed to start two-factor setup'))
+  }, [challenge])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      if (challenge.twoFactorSetupRequired) {
+        const { backupCodes, token, refreshToken, user } = await authAPI.enableTwoFactor(code, challenge.challengeToken)
+        setEnrolled({ backupCodes, response: { token: token!, refreshToken, user: user! } })
+      } else {
+        onSignedIn(await authAPI.verifyTwoFactor(challenge.challengeToken, code))
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Invalid code. Please try again.')
+      setCode('')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (enrolled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-yellow-400 text-center">
+          Two-factor authentication is on. Save these backup codes somewhere safe. Each one signs you in once if you lose your phone.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-yellow-300 text-center bg-black/80 border border-yellow-500 rounded-lg p-4">
+          {enrolled.backupCodes.map(backupCode => (
+            <span key={backupCode}>{backupCode}</span>
+          ))}
+        </div>
+        <button onClick={() => onSignedIn(enrolled.response)} className={buttonClassName}>
+          I saved my backup codes
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {challenge.twoFactorSetupRequired ? (
+        <div className="space-y-3 text-center">
+          <p className="text-sm text-yellow-400">
+            Admin accounts need two-factor authentication. Scan this QR code with an authenticator app
+            (Google Authenticator, 1Password, Authy), then enter the 6-digit code it shows.
+          </p>
+          {enrollment && (
+            <>
+              <img src={enrollment.qrCode} alt="Two-factor QR code" className="mx-auto h-44 w-44 rounded bg-white p-2" />
+              <p className="text-xs text-gray-400 break-all">
+                Or enter this key manually: <span className="font-mono text-yellow-300">{enrollment.secret}</span>
+              </p>
+            </>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-yellow-400 text-center">
+          Enter the 6-digit code from your authenticator app, or one of your backup codes.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded-lg p-4 text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => {
+          setCode(e.target.value)
+          setError(null)
+        }}
+        placeholder={challenge.twoFactorSetupRequired ? '123456' : '123456 or XXXX-XXXX'}
+        className={inputClassName}
+        autoComplete="one-time-code"
+        autoFocus
+        disabled={loading}
+      />
+
+      <button type="submit" disabled={loading || code.trim().length < 6} className={buttonClassName}>
+        {loading ? 'Verifying...' : challenge.twoFactorSetupRequired ? 'Turn On Two-Factor' : 'Verify'}
+      </button>
+
+      <div className="text-center">
+        <button type="button" onClick={onCancel} className="text-yellow-400 hover:text-yellow-300 text-sm underline">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { ShieldCheck, ShieldOff, KeyRound } from 'lucide-react'
+import { authAPI } from '../services/api'
+import { TwoFactorEnrollment } from '../types'
+import { LoadingSpinner } from './LoadingSpinner'
+
+type Action = 'disable' | 'regenerate'
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error || fallback
+
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient()
+  const { data: status, isLoading } = useQuery('twoFactorStatus', authAPI.getTwoFactorStatus)
+
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [pendingAction, setPendingAction] = useState<Action | null>(null)
+  const [code, setCode] = useState('')
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+
+  const resetForm = () => {
+    setEnrollment(null)
+    setPendingAction(null)
+    setCode('')
+  }
+
+  const setupMutation = useMutation(() => authAPI.setupTwoFactor(), {
+    onSuccess: (data) => {
+      setBackupCodes(null)
+      setEnrollment(data)
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Failed to start two-factor setup'))
+    },
+  })
+
+  const enableMutation = useMutation(() => authAPI.enableTwoFactor(code), {
+    onSuccess: (data) => {
+      toast.success('Two-factor authentication is on')
+      setBackupCodes(data.backupCodes)
+      resetForm()
+      queryClient.invalidateQueries('twoFactorStatus')
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Invalid code'))
+      setCode('')
+    },
+  })
+
+  const disableMutation = useMutation(() => authAPI.disableTwoFactor(code), {
+    onSuccess: () => {
+      toast.success('Two-factor authentication is off')
+      setBackupCodes(null)
+      resetForm()
+      queryClient.invalidateQueries('twoFactorStatus')
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Invalid code'))
+      setCode('')
+    },
+  })
+
+  const regenerateMutation = useMutation(() => authAPI.regenerateBackupCodes(code), {
+    onSuccess: (data) => {
+      toast.success('New backup codes created')
+      setBackupCodes(data.backupCodes)
+      resetForm()
+      queryClient.invalidateQueries('twoFactorStatus')
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Invalid code'))
+      setCode('')
+    },
+  })
+
+  const submitting = enableMutation.isLoading || disableMutation.isLoading || regenerateMutation.isLoading
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (enrollment) {
+      enableMutation.mutate()
+    } else if (pendingAction === 'disable') {
+      disableMutation.mutate()
+    } else if (pendingAction === 'regenerate') {
+      regenerateMutation.mutate()
+    }
+  }
+
+  const codeForm = (label: string, submitLabel: string) => (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          autoComplete="one-time-code"
+          autoFocus
+          className="w-48 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={submitting || code.trim().length < 6}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={resetForm}
+          className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4">Two-Factor Authentication</h2>
+
+      {isLoading || !status ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center space-x-3">
+            {status.enabled ? (
+              <ShieldCheck className="h-6 w-6 text-green-500" />
+            ) : (
+              <ShieldOff className="h-6 w-6 text-gray-400" />
+            )}
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">
+                {status.enabled ? 'On' : 'Off'}
+                {status.required && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400">
+                    Required for admins
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {status.enabled
+                  ? `Sign-ins ask for a code from your authenticator app. ${status.backupCodesRemaining} backup ${status.backupCodesRemaining === 1 ? 'code' : 'codes'} left.`
+                  : 'Add a code from an authenticator app to every sign-in.'}
+              </p>
+            </div>
+          </div>
+
+          {backupCodes && (
+            <div className="mt-4 p-4 rounded-lg border border-yellow-400 bg-yellow-50 dark:bg-yellow-900/20">
+              <p className="text-sm text-gray-800 dark:text-gray-200 mb-3">
+                Save these backup codes somewhere safe. Each one signs you in once if you lose your phone. They won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+                {backupCodes.map(backupCode => (
+                  <span key={backupCode}>{backupCode}</span>
+                ))}
+              </div>
+              <button
+                onClick={() => setBackupCodes(null)}
+                className="mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                I saved them
+              </button>
+            </div>
+          )}
+
+          {enrollment ? (
+            <div className="mt-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Scan this QR code with an authenticator app, or enter the key manually.
+              </p>
+              <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-44 w-44 rounded bg-white p-2 border border-gray-200" />
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 break-all">
+                Key: <span className="font-mono">{enrollment.secret}</span>
+              </p>
+              {codeForm('Enter the 6-digit code from the app', 'Turn on')}
+            </div>
+          ) : pendingAction ? (
+            codeForm(
+              'Enter a code from your authenticator app or a backup code',
+              pendingAction === 'disable' ? 'Turn off' : 'Create new codes'
+            )
+          ) : (
+            <div className="mt-4 flex flex-wrap gap-3">
+              {!status.enabled && (
+                <button
+                  onClick={() => setupMutation.mutate()}
+                  disabled={setupMutation.isLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Set up two-factor
+                </button>
+              )}
+              {status.enabled && (
+                <button
+                  onClick={() => setPendingAction('regenerate')}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  New backup codes
+                </button>
+              )}
+              {status.enabled && !status.required && (
+                <button
+                  onClick={() => setPendingAction('disable')}
+                  className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 border border-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from 'react-query'
+import { UseFormRegister } from 'react-hook-form'
+import { dealsAPI } from '../services/api'
+import { UnderwritingInputField } from '../types'
+import { Calculator, AlertTriangle } from 'lucide-react'
+
+interface UnderwritingCalculatorProps {
+  register: UseFormRegister<any>
+  values: Partial<Record<UnderwritingInputField | 'loanRequest', string>> // Current form values, for the live results
+}
+
+const inputFields: { field: UnderwritingInputField; label: string; placeholder: string }[] = [
+  { field: 'loanAmount', label: 'Loan Amount ($)', placeholder: 'Defaults to the loan request' },
+  { field: 'purchasePrice', label: 'Purchase Price ($)', placeholder: 'e.g., 10000000' },
+  { field: 'appraisedValue', label: 'Appraised Value ($)', placeholder: 'e.g., 10500000' },
+  { field: 'totalProjectCost', label: 'Total Project Cost ($)', placeholder: 'For LTC on construction/value-add' },
+  { field: 'noi', label: 'NOI ($/yr)', placeholder: 'e.g., 750000' },
+  { field: 'interestRate', label: 'Interest Rate (%)', placeholder: 'e.g., 6.5' },
+  { field: 'amortizationPeriod', label: 'Amortization (years)', placeholder: 'Blank or 0 for interest-only' },
+]
+
+const enteredFields: { field: UnderwritingInputField; label: string; placeholder: string }[] = [
+  { field: 'dscr', label: 'DSCR (x)', placeholder: 'e.g., 1.25' },
+  { field: 'ltv', label: 'LTV (%)', placeholder: 'e.g., 75' },
+  { field: 'debitYield', label: 'Debt Yield (%)', placeholder: 'e.g., 9' },
+  { field: 'capRate', label: 'Cap Rate (%)', placeholder: 'e.g., 7' },
+]
+
+export const UNDERWRITING_FORM_FIELDS: UnderwritingInputField[] = [...inputFields, ...enteredFields].map(({ field }) => field)
+
+// Underwriting values from deal form data, for submitting with the rest of the form
+export const pickUnderwritingValues = (data: Record<string, any>) =>
+  Object.fromEntries(UNDERWRITING_FORM_FIELDS.map(field => [field, data[field] ?? '']))
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent transition-all duration-200 text-sm'
+
+const formatCurrency = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}%`)
+
+export function UnderwritingCalculator({ register, values }: UnderwritingCalculatorProps) {
+  const [debouncedValues, setDebouncedValues] = useState(values)
+  const valuesKey = JSON.stringify(values)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValues(JSON.parse(valuesKey)), 400)
+    return () => clearTimeout(timer)
+  }, [valuesKey])
+
+  // Metrics come from the server's underwriting module so the math lives in one place
+  const { data, isError } = useQuery(
+    ['underwriting-preview', debouncedValues],
+    () => dealsAPI.calculateUnderwriting(debouncedValues),
+    { keepPreviousData: true, staleTime: Infinity }
+  )
+
+  const result = data?.result
+  const flaggedFields = new Set<string>(result?.flags.map(flag => flag.field))
+
+  const metrics = [
+    { label: 'Annual Debt Service', value: formatCurrency(result?.annualDebtService ?? null), hint: result?.interestOnly ? 'Interest-only' : undefined },
+    { label: 'DSCR', value: result?.dscr != null ? `${result.dscr.toFixed(2)}x` : '—', flagged: flaggedFields.has('dscr') },
+    { label: 'LTV', value: formatPercent(result?.ltv ?? null), flagged: flaggedFields.has('ltv') },
+    { label: 'LTC', value: formatPercent(result?.ltc ?? null) },
+    { label: 'Debt Yield', value: formatPercent(result?.debtYield ?? null), flagged: flaggedFields.has('debitYield') },
+    { label: 'Cap Rate', value: formatPercent(result?.capRate ?? null), flagged: flaggedFields.has('capRate') },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3 pb-2 border-b border-gray-600">
+        <Calculator className="h-5 w-5 text-green-400" />
+        <h4 className="text-lg font-semibold text-white">Underwriting</h4>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {inputFields.map(({ field, label, placeholder }) => (
+          <div key={field} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-300">{label}</label>
+            <input {...register(field)} inputMode="decimal" className={inputClassName} placeholder={placeholder} />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Ratios quoted by the sponsor or lender (optional, checked against the computed values)</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {enteredFields.map(({ field, label, placeholder }) => (
+            <div key={field} className="space-y-1">
+              <label className="block text-sm font-medium text-gray-300">{label}</label>
+              <input
+                {...register(field)}
+                inputMode="decimal"
+                className={`${inputClassName} ${flaggedFields.has(field) ? 'border-yellow-500' : ''}`}
+                placeholder={placeholder}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {metrics.map(metric => (
+          <div
+            key={metric.label}
+            className={`p-3 rounded-lg border ${metric.flagged ? 'border-yellow-500/60 bg-yellow-500/10' : 'border-gray-600 bg-gray-700/50'}`}
+          >
+            <div className="text-xs text-gray-400">{metric.label}</div>
+            <div className="text-lg font-semibold text-white">{metric.value}</div>
+            {metric.hint && <div className="text-xs text-gray-500">{metric.hint}</div>}
+          </div>
+        ))}
+      </div>
+
+      {result && result.flags.length > 0 && (
+        <div className="space-y-2">
+          {result.flags.map(flag => (
+            <p key={flag.field} className="text-sm text-yellow-400 flex items-start">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {flag.message}
+            </p>
+          ))}
+        </div>
+      )}
+      {isError && <p className="text-sm text-red-400">Could not calculate underwriting metrics</p>}
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { adminAPI } from '../services/api'
+import { WebhookEvent } from '../types'
+import { Inbox, RotateCcw, RefreshCw, X, AlertCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { safeFormatDate } from '../utils/dateUtils'
+
+const statusColors: Record<WebhookEvent['status'], string> = {
+  pending: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+  processing: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  processed: 'bg-green-500/20 text-green-400 border-green-500/50',
+  failed: 'bg-orange-500/20 text-orange-400 border-orange-500/50',
+  dead: 'bg-red-500/20 text-red-400 border-red-500/50'
+}
+
+const providerLabels: Record<WebhookEvent['provider'], string> = {
+  ghl: 'GoHighLevel',
+  stripe: 'Stripe'
+}
+
+const formatJSON = (value?: string | object) => {
+  if (value === undefined || value === null) return '—'
+  try {
+    return JSON.stringify(typeof value === 'string' ? JSON.parse(value) : value, null, 2)
+  } catch {
+    return String(value)
+  }
+}
+
+export function WebhookEventsManagement() {
+  const queryClient = useQueryClient()
+  const [providerFilter, setProviderFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null)
+
+  const { data, isLoading, refetch } = useQuery(
+    ['webhook-events', providerFilter, statusFilter],
+    () => adminAPI.getWebhookEvents({ provider: providerFilter, status: statusFilter })
+  )
+  const events = data?.events || []
+
+  const { data: selectedEvent, isLoading: eventLoading } = useQuery(
+    ['webhook-event', selectedEventId],
+    () => adminAPI.getWebhookEvent(selectedEventId!),
+    { enabled: !!selectedEventId }
+  )
+
+  const replayMutation = useMutation(adminAPI.replayWebhookEvent, {
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success('Webhook event replayed successfully')
+      } else {
+        toast.error(`Replay failed: ${result.event.lastError || 'Unknown error'}`)
+      }
+      queryClient.invalidateQueries('webhook-events')
+      queryClient.invalidateQueries(['webhook-event', result.event.id])
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to replay webhook event')
+    }
+  })
+
+  const retryDueMutation = useMutation(adminAPI.retryDueWebhookEvents, {
+    onSuccess: (result) => {
+      toast.success(`Retried ${result.attempted} event${result.attempted === 1 ? '' : 's'} (${result.processed} succeeded)`)
+      queryClient.invalidateQueries('webhook-events')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to retry webhook events')
+    }
+  })
+
+  const failedCount = events.filter(event => event.status === 'failed' || event.status === 'dead').length
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-white flex items-center">
+                <Inbox className="h-5 w-5 mr-2 text-blue-400" />
+                Inbound Webhooks
+              </h3>
+              <p className="text-sm text-gray-300 mt-1">
+                Every GoHighLevel and Stripe webhook is stored before it is processed. Failed events are retried
+                automatically with backoff; events that used all attempts can be replayed here.
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => refetch()}
+                className="inline-flex items-center px-3 py-2 border border-gray-600 text-sm font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </button>
+              <button
+                onClick={() => retryDueMutation.mutate()}
+                disabled={retryDueMutation.isLoading}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {retryDueMutation.isLoading ? 'Retrying...' : 'Retry Due Now'}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mb-4">
+            <select
+              value={providerFilter}
+              onChange={(e) => setProviderFilter(e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Providers</option>
+              <option value="ghl">GoHighLevel</option>
+              <option value="stripe">Stripe</option>
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Statuses</option>
+              <option value="pending">Pending</option>
+              <option value="processing">Processing</option>
+              <option value="processed">Processed</option>
+              <option value="failed">Failed (retrying)</option>
+              <option value="dead">Dead (gave up)</option>
+            </select>
+            {failedCount > 0 && (
+              <span className="inline-flex items-center text-sm text-orange-400">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                {failedCount} failed in this view
+              </span>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8 bg-gray-700 rounded-lg border border-gray-600">
+              <p className="text-sm text-gray-400">No webhook events found</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Received</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Provider</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Event</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Last Error</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-gray-800 divide-y divide-gray-700">
+                  {events.map((event) => (
+                    <tr
+                      key={event.id}
+                      onClick={() => setSelectedEventId(event.id)}
+                      className="hover:bg-gray-700 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-300 whitespace-nowrap">
+                        {safeFormatDate(event.receivedAt, 'MMM d, h:mm:ss a')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">{providerLabels[event.provider] || event.provider}</td>
+                      <td className="px-4 py-3 text-sm text-white">
+                        <div>{event.eventType}</div>
+                        <div className="text-xs text-gray-500 truncate max-w-xs">{event.eventId}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusColors[event.status]}`}>
+                          {event.status}
+                        </span>
+                        {event.status === 'failed' && event.nextAttemptAt && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            next {safeFormatDate(event.nextAttemptAt, 'h:mm a')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-300">{event.attempts}/{event.maxAttempts}</td>
+                      <td className="px-4 py-3 text-sm text-red-300 truncate max-w-xs">{event.lastError || ''}</td>
+                      <td className="px-4 py-3 text-right">
+                        {event.status !== 'processing' && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              replayMutation.mutate(event.id)
+                            }}
+                            disabled={replayMutation.isLoading}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded text-blue-300 bg-blue-900/30 border border-blue-500/50 hover:bg-blue-900/50 disabled:opacity-50"
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Replay
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedEventId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg border border-gray-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+              <h3 className="text-lg font-medium text-white">Webhook Event</h3>
+              <button onClick={() => setSelectedEventId(null)} className="text-gray-400 hover:text-white">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {eventLoading || !selectedEvent ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-600 border-t-blue-400 mx-auto"></div>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-400">Provider</div>
+                      <div className="text-white">{providerLabels[selectedEvent.provider]}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Event Type</div>
+                      <div className="text-white">{selectedEvent.eventType}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Event ID</div>
+                      <div className="text-white break-all">{selectedEvent.eventId}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Status</div>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full border ${statusColors[selectedEvent.status]}`}>
+                        {selectedEvent.status}
+                      </span>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Received</div>
+                      <div className="text-white">{safeFormatDate(selectedEvent.receivedAt, 'MMM d, yyyy h:mm:ss a')}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Processed</div>
+                      <div className="text-white">
+                        {selectedEvent.processedAt ? safeFormatDate(selectedEvent.processedAt, 'MMM d, yyyy h:mm:ss a') : '—'}
+                      </div>
+                    </div>
+                  </div>
+
+                  {selectedEvent.lastError && (
+                    <div className="p-3 bg-red-900/20 border border-red-500/50 rounded-md">
+                      <div className="text-xs font-medium text-red-400 mb-1">Last Error</div>
+                      <pre className="text-xs text-red-300 whitespace-pre-wrap break-all">{selectedEvent.lastError}</pre>
+                    </div>
+                  )}
+
+                  {selectedEvent.result && (
+                    <div>
+                      <div className="text-xs font-medium text-gray-400 mb-1">Result</div>
+                      <pre className="text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-md p-3 overflow-x-auto">
+                        {formatJSON(selectedEvent.result)}
+                      </pre>
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="text-xs font-medium text-gray-400 mb-1">Payload</div>
+                    <pre className="text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-md p-3 overflow-x-auto max-h-96">
+                      {formatJSON(selectedEvent.payload)}
+                    </pre>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => replayMutation.mutate(selectedEvent.id)}
+                      disabled={replayMutation.isLoading || selectedEvent.status === 'processing'}
+                      className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {replayMutation.isLoading ? 'Replaying...' : 'Replay Event'}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
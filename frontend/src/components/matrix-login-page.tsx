@@ -2,7 +2,10 @@
 
 import { useEffect, useState } from "react"
 import { useNavigate } from "react-router-dom"
-import { authAPI } from "../services/api"
+import { authAPI, isTwoFactorChallenge } from "../services/api"
+import { saveSession } from "../utils/authStorage"
+import { AuthResponse, TwoFactorChallenge } from "../types"
+import { TwoFactorPrompt } from "./TwoFactorPrompt"
 
 // Matrix Rain Animation Component
 const MatrixRain = () => {
@@ -111,31 +114,53 @@ export function MatrixLoginPage() {
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isLoggingIn, setIsLoggingIn] = useState(false)
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null)
   
   useEffect(() => {
-    // Check if we have a token from Discord OAuth callback
+    // Check for a two-factor challenge from the Discord OAuth callback
     const urlParams = new URLSearchParams(window.location.search)
-    const token = urlParams.get("token")
-    const userParam = urlParams.get("user")
     const error = urlParams.get("error")
+    const twoFactorToken = urlParams.get("twoFactorToken")
 
     if (error) {
       return
     }
 
-    if (token && userParam) {
-      try {
-        const user = JSON.parse(decodeURIComponent(userParam))
-        localStorage.setItem("token", token)
-        localStorage.setItem("user", JSON.stringify(user))
-        // Use navigate instead of window.location.href to avoid full page reload issues
-        navigate("/", { replace: true })
-      } catch (error) {
-        // Failed to parse user data
-      }
+    // Discord sign-in (or another page) passed on a two-factor challenge
+    if (twoFactorToken) {
+      setTwoFactorChallenge({
+        twoFactorRequired: true,
+        twoFactorSetupRequired: urlParams.get("twoFactorSetup") === "1",
+        challengeToken: twoFactorToken,
+      })
+      return
     }
   }, [])
 
+  const completeSignIn = (response: AuthResponse) => {
+    if (!response.token || !response.user) return;
+    saveSession(response);
+    
+    // Check if user needs to complete setup
+    if (response.user.needsPassword || response.user.needsDiscord) {
+      if (response.user.needsPassword) {
+        navigate('/onboarding/password');
+      } else if (response.user.needsDiscord) {
+        navigate('/onboarding/discord');
+      }
+      return;
+    }
+    
+    // Redirect to portal
+    navigate('/', { replace: true });
+  }
+
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+    setPassword('');
+    navigate('/login', { replace: true });
+  }
+
   const handleUsernamePasswordLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -143,24 +168,12 @@ export function MatrixLoginPage() {
 
     try {
       const response = await authAPI.login(email, password);
-      
-      if (response.token && response.user) {
-        localStorage.setItem('token', response.token);
-        localStorage.setItem('user', JSON.stringify(response.user));
-        
-        // Check if user needs to complete setup
-        if (response.user.needsPassword || response.user.needsDiscord) {
-          if (response.user.needsPassword) {
-            navigate('/onboarding/password');
-          } else if (response.user.needsDiscord) {
-            navigate('/onboarding/discord');
-          }
-          return;
-        }
-        
-        // Redirect to portal
-        navigate('/', { replace: true });
+
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response);
+        return;
       }
+      completeSignIn(response);
     } catch (err: any) {
       const errorMessage = err.response?.data?.error || 'Login failed. Please try again.';
       setError(errorMessage);
@@ -214,6 +227,10 @@ export function MatrixLoginPage() {
             </div>
           )}
 
+          {twoFactorChallenge ? (
+            <TwoFactorPrompt challenge={twoFactorChallenge} onSignedIn={completeSignIn} onCancel={cancelTwoFactor} />
+          ) : (
+          <>
           {/* Email/Password Login Form */}
           <form onSubmit={handleUsernamePasswordLogin} className="space-y-4">
             <div>
@@ -288,6 +305,8 @@ export function MatrixLoginPage() {
               </div>
             </button>
           </div>
+          </>
+          )}
 
           {/* Footer */}
          
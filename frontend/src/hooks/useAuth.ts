@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
 import { useQuery } from 'react-query'
-import { authAPI } from '../services/api'
+import { authAPI, isTwoFactorChallenge, twoFactorLoginPath } from '../services/api'
 import { User } from '../types'
+import { saveSession, clearSession, getAccessToken } from '../utils/authStorage'
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null)
@@ -11,18 +12,17 @@ export function useAuth() {
     'user',
     authAPI.getMe,
     {
-      enabled: !!localStorage.getItem('token'),
+      enabled: !!getAccessToken(),
       retry: false,
       onError: (error: any) => {
-        localStorage.removeItem('token')
-        localStorage.removeItem('user')
+        clearSession()
         setUser(null)
       }
     }
   )
 
   useEffect(() => {
-    const token = localStorage.getItem('token')
+    const token = getAccessToken()
     
     if (!token) {
       setUser(null)
@@ -37,8 +37,7 @@ export function useAuth() {
 
     if (error) {
       // API call failed, clear everything
-      localStorage.removeItem('token')
-      localStorage.removeItem('user')
+      clearSession()
       setUser(null)
       setIsLoading(false)
       return
@@ -56,8 +55,7 @@ export function useAuth() {
           const parsedUser = JSON.parse(savedUser)
           setUser(parsedUser)
         } catch (error) {
-          localStorage.removeItem('token')
-          localStorage.removeItem('user')
+          clearSession()
           setUser(null)
         }
       } else {
@@ -71,13 +69,15 @@ export function useAuth() {
   const login = async (code: string) => {
     try {
       const response = await authAPI.loginWithDiscord(code)
-      localStorage.setItem('token', response.token)
-      localStorage.setItem('user', JSON.stringify(response.user))
+      if (isTwoFactorChallenge(response)) {
+        window.location.href = twoFactorLoginPath(response)
+        return response
+      }
+      saveSession(response)
       setUser(response.user)
       return response
     } catch (error) {
-      localStorage.removeItem('token')
-      localStorage.removeItem('user')
+      clearSession()
       setUser(null)
       throw error
     }
@@ -89,8 +89,7 @@ export function useAuth() {
     } catch (error) {
       // Logout error
     } finally {
-      localStorage.removeItem('token')
-      localStorage.removeItem('user')
+      clearSession()
       setUser(null)
       // Redirect to login page after logout
       window.location.href = '/'
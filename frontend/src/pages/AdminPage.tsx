@@ -1,15 +1,29 @@
 import { useState, useEffect, useRef } from 'react'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
 import { adminAPI } from '../services/api'
+import { useAuth } from '../hooks/useAuth'
+import { UserRole } from '../types'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { DealDetailsModal } from '../components/DealDetailsModal'
+import { DealExportModal } from '../components/DealExportModal'
 import { UserProfileModal } from '../components/UserProfileModal'
 import { StageView } from '../components/StageView'
-import { Users, FileText, Settings, BarChart3, CheckCircle, XCircle, Download, Copy, Eye, Grid3X3, List, Import, Shield, Mail, Database, Calendar } from 'lucide-react'
+import { Users, FileText, Settings, BarChart3, CheckCircle, XCircle, Download, Copy, Eye, Grid3X3, List, Import, Shield, Mail, MailCheck, Database, Calendar, GitBranch, Inbox, ClipboardList, LogOut, Trash2, ShieldAlert, Clock } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { safeFormatDate } from '../utils/dateUtils'
 import DiscordAutoAccess from '../components/DiscordAutoAccess'
+import { DiscordRoleSyncPanel } from '../components/DiscordRoleSyncPanel'
 import { AppointmentManagement } from '../components/AppointmentManagement'
+import { StageMappingManagement } from '../components/StageMappingManagement'
+import { DocumentChecklistManagement } from '../components/DocumentChecklistManagement'
+import { DealFolderTemplateManagement } from '../components/DealFolderTemplateManagement'
+import { WebhookEventsManagement } from '../components/WebhookEventsManagement'
+import { SecurityEventsManagement } from '../components/SecurityEventsManagement'
+import { ScheduledJobsManagement } from '../components/ScheduledJobsManagement'
+import { SecretEncryptionPanel } from '../components/SecretEncryptionPanel'
+import { DealReconciliationManagement } from '../components/DealReconciliationManagement'
+import { EmailTemplateEditor } from '../components/EmailTemplateEditor'
+import { EmailLogManagement } from '../components/EmailLogManagement'
 
 // Email Configuration Tab Component
 function EmailConfigurationTab() {
@@ -282,6 +296,8 @@ function EmailConfigurationTab() {
           </div>
         </div>
       </div>
+
+      <EmailTemplateEditor />
     </div>
   )
 }
@@ -539,6 +555,8 @@ export function AdminPage() {
   const [activeTab, setActiveTab] = useState('overview')
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
   const pendingManualSubscriptions = useRef<Set<string>>(new Set())
+  const { user: currentUser } = useAuth()
+  const canManageRoles = !!currentUser?.permissions?.includes('roles:manage')
   
   // Handle OneDrive callback
   useEffect(() => {
@@ -582,6 +600,10 @@ export function AdminPage() {
     noShowStageId: ''
   })
 
+  // Masked (last 4 characters) GHL secrets already saved; the inputs above only hold new values
+  const [storedGhlSecrets, setStoredGhlSecrets] = useState<{ apiKey?: string; v2Token?: string }>({})
+  const hasGHLApiKey = !!ghlConfig.apiKey.trim() || !!storedGhlSecrets.apiKey
+
   // Available pipelines and stages from GHL
   const [availablePipelines, setAvailablePipelines] = useState<any[]>([])
   const [selectedPipeline, setSelectedPipeline] = useState<any>(null)
@@ -601,17 +623,19 @@ export function AdminPage() {
 
   const { data: analytics, isLoading: analyticsLoading } = useQuery('admin-analytics', adminAPI.getAnalytics)
   const { data: users, isLoading: usersLoading } = useQuery('admin-users', adminAPI.getUsers)
+  const { data: rolesData } = useQuery('admin-roles', adminAPI.getRoles)
+  const [showDealExport, setShowDealExport] = useState(false)
   const { data: deals, isLoading: dealsLoading } = useQuery(['admin-deals', dealFilters], () => adminAPI.getAllDeals(dealFilters))
   const { data: oneDriveStatus, refetch: refetchOneDriveStatus } = useQuery('onedrive-status', adminAPI.getOneDriveStatus)
   const { data: ghlStatus } = useQuery('ghl-status', adminAPI.testGHL)
 
   // Load GHL pipelines when API key is available
+  // Without a newly entered key, the backend uses the stored one
   const fetchPipelines = async (apiKey?: string) => {
-    const keyToUse = apiKey || ghlConfig.apiKey
-    if (!keyToUse.trim()) return
+    const keyToUse = (apiKey ?? ghlConfig.apiKey).trim()
     
     try {
-      const response = await adminAPI.getGHLPipelinesWithKey(keyToUse)
+      const response = await adminAPI.getGHLPipelinesWithKey(keyToUse || undefined)
       setAvailablePipelines(response.pipelines || [])
       toast.success(`Loaded ${response.pipelines?.length || 0} pipelines`)
     } catch (error) {
@@ -626,9 +650,9 @@ export function AdminPage() {
         const config = await adminAPI.getGHLConfig()
         
         if (config.apiKey) {
+          setStoredGhlSecrets({ apiKey: config.apiKey, v2Token: config.v2Token })
           setGhlConfig(prev => ({
             ...prev,
-            apiKey: config.apiKey || '',
             pipelineId: config.pipelineId || '',
             calendarId: config.calendarId || '',
             underReviewStageId: config.underReviewStageId || '',
@@ -640,7 +664,7 @@ export function AdminPage() {
           
           // If we have an API key, fetch pipelines
           if (config.apiKey) {
-            fetchPipelines(config.apiKey)
+            fetchPipelines('')
           }
         }
       } catch (error) {
@@ -682,6 +706,55 @@ export function AdminPage() {
     }
   )
 
+  const reindexDealsMutation = useMutation(adminAPI.reindexDeals, {
+    onSuccess: (result) => {
+      queryClient.invalidateQueries('deals')
+      queryClient.invalidateQueries('admin-deals')
+      toast.success(`Reindexed ${result.updated} of ${result.scanned} deals`)
+    },
+    onError: () => {
+      toast.error('Failed to reindex deals')
+    }
+  })
+
+  const updateUserRoleMutation = useMutation(
+    ({ id, role }: { id: string; role: UserRole }) => adminAPI.updateUserRole(id, role),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('admin-users')
+        toast.success('Role updated successfully')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.error || 'Failed to update role')
+      }
+    }
+  )
+
+  const revokeUserSessionsMutation = useMutation(adminAPI.revokeUserSessions, {
+    onSuccess: ({ revoked }) => {
+      toast.success(`Signed out of ${revoked} ${revoked === 1 ? 'session' : 'sessions'}`)
+    },
+    onError: () => {
+      toast.error('Failed to sign user out')
+    }
+  })
+
+  const removeUserMutation = useMutation(adminAPI.removeUser, {
+    onSuccess: () => {
+      queryClient.invalidateQueries('admin-users')
+      toast.success('User removed')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove user')
+    }
+  })
+
+  const handleRemoveUser = (id: string, username: string) => {
+    if (window.confirm(`Remove ${username}? They will be signed out everywhere and their account deleted.`)) {
+      removeUserMutation.mutate(id)
+    }
+  }
+
   const grantManualSubscriptionMutation = useMutation(
     ({ id, grant }: { id: string; grant: boolean }) => 
       adminAPI.grantManualSubscription(id, grant),
@@ -701,9 +774,13 @@ export function AdminPage() {
   )
 
   const saveGHLConfigMutation = useMutation(adminAPI.saveGHLConfig, {
-    onSuccess: () => {
+    onSuccess: async () => {
       queryClient.invalidateQueries('ghl-status')
+      queryClient.invalidateQueries('secret-encryption-status')
       toast.success('GHL configuration saved successfully')
+      const config = await adminAPI.getGHLConfig()
+      setStoredGhlSecrets({ apiKey: config.apiKey, v2Token: config.v2Token })
+      setGhlConfig(prev => ({ ...prev, apiKey: '', v2Token: '' }))
     },
     onError: () => {
       toast.error('Failed to save GHL configuration')
@@ -752,7 +829,6 @@ export function AdminPage() {
     toast.success(`${filename} exported successfully`)
   }
 
-  const exportDeals = () => exportToCSV(deals || [], 'deals')
   const exportUsers = () => exportToCSV(users || [], 'users')
 
   // GHL Webhook URL functions
@@ -848,7 +924,7 @@ export function AdminPage() {
   }
 
   const handleSaveGHLConfig = async () => {
-    if (!ghlConfig.apiKey.trim()) {
+    if (!hasGHLApiKey) {
       toast.error('API Key is required')
       return
     }
@@ -898,10 +974,16 @@ export function AdminPage() {
     { id: 'users', name: 'Users', icon: Users },
     { id: 'deals', name: 'Deals', icon: FileText },
     { id: 'ghl-import', name: 'GHL Import', icon: Import },
+    { id: 'stage-mapping', name: 'Stage Mapping', icon: GitBranch },
+    { id: 'webhooks', name: 'Webhooks', icon: Inbox },
+    { id: 'jobs', name: 'Scheduled Jobs', icon: Clock },
+    { id: 'security', name: 'Security', icon: ShieldAlert },
+    { id: 'document-checklists', name: 'Checklists', icon: ClipboardList },
     { id: 'raw-data', name: 'Raw Data', icon: Database },
     { id: 'discord-auto-access', name: 'Discord Auto-Access', icon: Shield },
     { id: 'appointments', name: 'Appointments', icon: Calendar },
     { id: 'email-config', name: 'Email Config', icon: Mail },
+    { id: 'email-log', name: 'Email Log', icon: MailCheck },
     { id: 'settings', name: 'Settings', icon: Settings },
   ]
 
@@ -932,7 +1014,7 @@ export function AdminPage() {
         </div>
         <div className="flex space-x-3 matrix-export-buttons">
           <button
-            onClick={exportDeals}
+            onClick={() => setShowDealExport(true)}
             className="matrix-button matrix-export-btn bg-gray-800 dark:bg-gray-800 text-yellow-400 dark:text-yellow-300 border-2 border-yellow-400 dark:border-yellow-300 px-4 py-2 rounded-md font-semibold hover:bg-gray-700 dark:hover:bg-gray-700 transition-all duration-300 shadow-lg hover:shadow-yellow-400/25"
             disabled={!deals || deals.length === 0}
           >
@@ -1174,6 +1256,17 @@ export function AdminPage() {
                       </div>
                     </button>
                     <div className="flex items-center space-x-4">
+                      <select
+                        value={user.role || (user.isAdmin ? 'super_admin' : 'deal_submitter')}
+                        onChange={(e) => updateUserRoleMutation.mutate({ id: user.id, role: e.target.value as UserRole })}
+                        disabled={!canManageRoles || user.id === currentUser?.id || updateUserRoleMutation.isLoading}
+                        title={rolesData?.roles.find(role => role.id === user.role)?.description || 'Role'}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {(rolesData?.roles || []).map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
                       <div className="flex items-center space-x-2">
                         <label className="flex items-center">
                           <input
@@ -1189,7 +1282,8 @@ export function AdminPage() {
                             type="checkbox"
                             checked={user.isAdmin || false}
                             onChange={(e) => handleUpdateUser(user.id, { isAdmin: e.target.checked })}
-                            className="rounded border-gray-600 bg-gray-700 text-blue-600 shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-500 focus:ring-opacity-50"
+                            disabled={!canManageRoles}
+                            className="rounded border-gray-600 bg-gray-700 text-blue-600 shadow-sm focus:border-blue-500 focus:ring focus:ring-blue-500 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
                           />
                           <span className="ml-2 text-sm text-gray-300">Admin</span>
                         </label>
@@ -1213,6 +1307,26 @@ export function AdminPage() {
                           <span className="ml-2 text-sm text-gray-300" title="Redirect to Whop subscription page when clicking subscription fields">Redirect to Whop</span>
                         </label>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => revokeUserSessionsMutation.mutate(user.id)}
+                          disabled={revokeUserSessionsMutation.isLoading}
+                          className="p-1 text-gray-400 hover:text-yellow-400 transition-colors disabled:opacity-50"
+                          title="Sign out of all devices"
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </button>
+                        {user.id !== currentUser?.id && (
+                          <button
+                            onClick={() => handleRemoveUser(user.id, user.username)}
+                            disabled={removeUserMutation.isLoading}
+                            className="p-1 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                            title="Remove user"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -1250,8 +1364,18 @@ export function AdminPage() {
                 Stage View
               </button>
             </div>
-            <div className="text-sm text-gray-300">
-              Showing {deals?.length || 0} deals
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => reindexDealsMutation.mutate()}
+                disabled={reindexDealsMutation.isLoading}
+                title="Build search and sort fields for deals created before they existed"
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-300 bg-gray-700 border border-gray-600 hover:bg-gray-600 disabled:opacity-50"
+              >
+                {reindexDealsMutation.isLoading ? 'Reindexing...' : 'Reindex Deals'}
+              </button>
+              <div className="text-sm text-gray-300">
+                Showing {deals?.length || 0} deals
+              </div>
             </div>
           </div>
 
@@ -1410,6 +1534,32 @@ export function AdminPage() {
         <GHLImportTab />
       )}
 
+      {activeTab === 'stage-mapping' && (
+        <StageMappingManagement />
+      )}
+
+      {activeTab === 'webhooks' && (
+        <div className="space-y-6">
+          <DealReconciliationManagement />
+          <WebhookEventsManagement />
+        </div>
+      )}
+
+      {activeTab === 'jobs' && (
+        <ScheduledJobsManagement />
+      )}
+
+      {activeTab === 'security' && (
+        <SecurityEventsManagement />
+      )}
+
+      {activeTab === 'document-checklists' && (
+        <div className="space-y-6">
+          <DocumentChecklistManagement />
+          <DealFolderTemplateManagement />
+        </div>
+      )}
+
 
       {activeTab === 'raw-data' && (
         <div className="bg-gray-800 shadow rounded-lg border border-gray-700 p-6">
@@ -1419,7 +1569,10 @@ export function AdminPage() {
       )}
 
       {activeTab === 'discord-auto-access' && (
-        <DiscordAutoAccess />
+        <div className="space-y-6">
+          <DiscordAutoAccess />
+          <DiscordRoleSyncPanel />
+        </div>
       )}
 
       {activeTab === 'appointments' && (
@@ -1430,6 +1583,10 @@ export function AdminPage() {
         <EmailConfigurationTab />
       )}
 
+      {activeTab === 'email-log' && (
+        <EmailLogManagement />
+      )}
+
       {activeTab === 'settings' && (
         <div className="space-y-6">
           <div className="bg-gray-800 shadow rounded-lg border border-gray-700">
@@ -1448,18 +1605,20 @@ export function AdminPage() {
                   <input
                     type="password"
                     className="w-full max-w-md px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter your GHL API key"
+                    placeholder={storedGhlSecrets.apiKey ? `Saved key ${storedGhlSecrets.apiKey}` : 'Enter your GHL API key'}
                     value={ghlConfig.apiKey}
                     onChange={(e) => handleGHLConfigChange('apiKey', e.target.value)}
                   />
                   <p className="text-xs text-gray-400 mt-1">
-                    {ghlConfig.apiKey ? '✅ Configuration loaded from Firebase' : 'Enter your API key to load available pipelines and stages'}
+                    {storedGhlSecrets.apiKey
+                      ? `✅ Saved key ${storedGhlSecrets.apiKey}. Leave blank to keep it, or enter a new key to replace it.`
+                      : 'Enter your API key to load available pipelines and stages'}
                   </p>
                   <button
                     type="button"
                     className="mt-2 px-4 py-2 bg-gray-700 border border-gray-600 text-white rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm"
                     onClick={() => fetchPipelines()}
-                    disabled={!ghlConfig.apiKey.trim()}
+                    disabled={!hasGHLApiKey}
                   >
                     Load Pipelines
                   </button>
@@ -1472,7 +1631,7 @@ export function AdminPage() {
                   <input
                     type="password"
                     className="w-full max-w-md px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter your GHL v2 private integration token"
+                    placeholder={storedGhlSecrets.v2Token ? `Saved token ${storedGhlSecrets.v2Token}. Leave blank to keep it` : 'Enter your GHL v2 private integration token'}
                     value={ghlConfig.v2Token}
                     onChange={(e) => handleGHLConfigChange('v2Token', e.target.value)}
                   />
@@ -1499,7 +1658,7 @@ export function AdminPage() {
                       ))}
                     </select>
                   </div>
-                ) : ghlConfig.apiKey.trim() ? (
+                ) : hasGHLApiKey ? (
                   <div className="text-sm text-gray-400">
                     No pipelines found. Click "Load Pipelines" to fetch from GHL.
                   </div>
@@ -1666,7 +1825,7 @@ export function AdminPage() {
                 <button 
                   className="btn btn-primary btn-md"
                   onClick={handleSaveGHLConfig}
-                  disabled={saveGHLConfigMutation.isLoading || !ghlConfig.apiKey.trim()}
+                  disabled={saveGHLConfigMutation.isLoading || !hasGHLApiKey}
                 >
                   {saveGHLConfigMutation.isLoading ? 'Saving...' : 'Save Configuration'}
                 </button>
@@ -1674,6 +1833,8 @@ export function AdminPage() {
             </div>
           </div>
 
+          <SecretEncryptionPanel />
+
           {/* GHL Custom Fields Section */}
           <div className="bg-white shadow rounded-lg">
             <div className="px-4 py-5 sm:p-6">
@@ -1700,7 +1861,7 @@ export function AdminPage() {
                   </div>
                   <button
                     onClick={handleFetchCustomFields}
-                    disabled={fetchCustomFieldsMutation.isLoading || !ghlConfig.apiKey.trim()}
+                    disabled={fetchCustomFieldsMutation.isLoading || !hasGHLApiKey}
                     className="btn btn-primary btn-sm"
                   >
                     {fetchCustomFieldsMutation.isLoading ? 'Fetching...' : 'Fetch Custom Fields'}
@@ -1708,7 +1869,7 @@ export function AdminPage() {
                 </div>
               </div>
 
-              {!ghlConfig.apiKey.trim() && (
+              {!hasGHLApiKey && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                   <div className="flex">
                     <div className="flex-shrink-0">
@@ -1855,6 +2016,13 @@ export function AdminPage() {
           onClose={() => setSelectedUserId(null)}
         />
       )}
+
+      {showDealExport && (
+        <DealExportModal
+          params={{ ...dealFilters, scope: 'all' }}
+          onClose={() => setShowDealExport(false)}
+        />
+      )}
     </div>
   )
 }
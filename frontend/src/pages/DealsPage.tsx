@@ -1,18 +1,23 @@
-import { useState } from 'react'
-import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { useState, useEffect, useRef } from 'react'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from 'react-query'
 import { dealsAPI, adminAPI } from '../services/api'
 import { useAuth } from '../hooks/useAuth'
 import { LoadingSpinner } from '../components/LoadingSpinner'
 import { CreateDealModal } from '../components/CreateDealModal'
 import { EditDealModal } from '../components/EditDealModal'
 import { DealDetailsModal } from '../components/DealDetailsModal'
+import { DealImportModal } from '../components/DealImportModal'
+import { DealExportModal } from '../components/DealExportModal'
 import { StageView } from '../components/StageView'
-import { Plus, Eye, Edit, Trash2, FileText, List, Grid3X3 } from 'lucide-react'
+import { Plus, Eye, Edit, Trash2, FileText, List, Grid3X3, Search, Upload, Download } from 'lucide-react'
+import { DealListParams, DealSortField } from '../types'
 import { safeFormatDate } from '../utils/dateUtils'
 import toast from 'react-hot-toast'
 
 export function DealsPage() {
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
   const [editingDeal, setEditingDeal] = useState<any>(null)
   const [viewingDeal, setViewingDeal] = useState<any>(null)
   const [activeTab, setActiveTab] = useState<'list' | 'pipeline'>('list')
@@ -27,20 +32,59 @@ export function DealsPage() {
   const queryClient = useQueryClient()
   const { user } = useAuth()
 
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sort, setSort] = useState<{ sortBy: DealSortField; sortDirection: 'asc' | 'desc' }>({ sortBy: 'createdAt', sortDirection: 'desc' })
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+
+  // Roles such as underwriter can read every deal without being admins
+  const canReadAllDeals = !!user?.permissions?.includes('deals:read:all')
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  // Filtering, sorting and paging all happen on the server
+  const listParams: DealListParams = user?.isAdmin
+    ? { ...dealFilters, search: debouncedSearch, ...sort }
+    : { search: debouncedSearch, ...sort, scope: canReadAllDeals ? 'all' : undefined }
+
+  // Exports go through /deals/export, where admins' user filter applies within the all-deals scope
+  const exportParams: DealListParams = user?.isAdmin ? { ...listParams, scope: 'all' } : listParams
+
   // Use different API based on user role
-  const { data: allDeals, isLoading, error } = useQuery(
-    ['deals', user?.isAdmin, dealFilters],
-    async () => {
-      if (user?.isAdmin) {
-        return await adminAPI.getAllDeals(dealFilters)
-      } else {
-        return await dealsAPI.getDeals()
-      }
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery(
+    ['deals', user?.isAdmin, listParams],
+    ({ pageParam }) => user?.isAdmin
+      ? adminAPI.getDealsPage({ ...listParams, cursor: pageParam })
+      : dealsAPI.getDealsPage({ ...listParams, cursor: pageParam }),
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor || undefined
     }
   )
 
-  // Use all deals for both admin and regular users (filtering handled by StageView)
-  const deals = allDeals
+  const deals = data?.pages.flatMap(page => page.deals)
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const node = loadMoreRef.current
+    if (!node || !hasNextPage) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
   // Fetch users for admin filter
   const { data: users } = useQuery('users', adminAPI.getUsers, {
@@ -66,8 +110,19 @@ export function DealsPage() {
   // Admin filter handlers
   const handleDealFilterChange = (key: string, value: string) => {
     setDealFilters(prev => ({ ...prev, [key]: value }))
+    // The server can only combine a date range with created date sorting
+    if ((key === 'startDate' || key === 'endDate') && value && sort.sortBy !== 'createdAt') {
+      setSort({ sortBy: 'createdAt', sortDirection: 'desc' })
+    }
+  }
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortDirection] = value.split(':') as [DealSortField, 'asc' | 'desc']
+    setSort({ sortBy, sortDirection })
   }
 
+  const hasDateRange = !!(user?.isAdmin && (dealFilters.startDate || dealFilters.endDate))
+
   const clearDealFilters = () => {
     setDealFilters({
       userId: '',
@@ -121,8 +176,24 @@ export function DealsPage() {
             }
           </p>
         </div>
-        {!user?.isAdmin && (
-          <div className="mt-4 sm:mt-0">
+        <div className="mt-4 sm:mt-0 flex items-center gap-3">
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="inline-flex items-center justify-center px-5 py-4 bg-gray-800 hover:bg-gray-700 text-yellow-400 font-bold text-sm uppercase tracking-wider rounded-lg border-2 border-yellow-500/50 hover:border-yellow-400 transition-all duration-300"
+          >
+            <Download className="h-5 w-5 mr-2" />
+            EXPORT
+          </button>
+          {user?.permissions?.includes('deals:write:own') && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center justify-center px-5 py-4 bg-gray-800 hover:bg-gray-700 text-yellow-400 font-bold text-sm uppercase tracking-wider rounded-lg border-2 border-yellow-500/50 hover:border-yellow-400 transition-all duration-300"
+            >
+              <Upload className="h-5 w-5 mr-2" />
+              IMPORT
+            </button>
+          )}
+          {!user?.isAdmin && (
             <button
               onClick={() => setShowCreateModal(true)}
               className="group relative inline-flex items-center justify-center px-8 py-4 bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 text-black font-bold text-sm uppercase tracking-wider rounded-lg shadow-2xl hover:shadow-yellow-500/50 transform hover:scale-105 transition-all duration-300 ease-out border-2 border-yellow-400 hover:border-yellow-300"
@@ -132,8 +203,36 @@ export function DealsPage() {
               <span className="relative z-10">NEW DEAL</span>
               <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-transparent via-white/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
             </button>
-          </div>
-        )}
+          )}
+        </div>
+      </div>
+
+      {/* Search and Sort */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-2.5" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by address, property, contact or deal ID"
+            aria-label="Search deals"
+            className="w-full pl-9 pr-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={`${sort.sortBy}:${sort.sortDirection}`}
+          onChange={(e) => handleSortChange(e.target.value)}
+          aria-label="Sort deals"
+          className="px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="createdAt:desc">Newest first</option>
+          <option value="createdAt:asc">Oldest first</option>
+          <option value="loanAmount:desc" disabled={hasDateRange}>Loan amount: high to low</option>
+          <option value="loanAmount:asc" disabled={hasDateRange}>Loan amount: low to high</option>
+          <option value="stage:asc" disabled={hasDateRange}>Stage: A to Z</option>
+          <option value="stage:desc" disabled={hasDateRange}>Stage: Z to A</option>
+        </select>
       </div>
 
       {/* Admin View Toggle and Filters Header */}
@@ -164,7 +263,7 @@ export function DealsPage() {
             </button>
           </div>
           <div className="text-sm text-gray-300">
-            Showing {deals?.length || 0} deals
+            Showing {deals?.length || 0} deals{hasNextPage ? ' (scroll for more)' : ''}
           </div>
         </div>
       )}
@@ -492,6 +591,22 @@ export function DealsPage() {
         )
       )}
 
+      {/* Infinite scroll sentinel */}
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isFetchingNextPage ? (
+            <LoadingSpinner size="md" />
+          ) : (
+            <button
+              onClick={() => fetchNextPage()}
+              className="px-4 py-2 text-sm bg-gray-700 border border-gray-600 text-white rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Load more deals
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Modals */}
       {showCreateModal && (
         <CreateDealModal
@@ -503,6 +618,20 @@ export function DealsPage() {
         />
       )}
 
+      {showImportModal && (
+        <DealImportModal
+          onClose={() => setShowImportModal(false)}
+          onImported={() => queryClient.invalidateQueries('deals')}
+        />
+      )}
+
+      {showExportModal && (
+        <DealExportModal
+          params={exportParams}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
       {editingDeal && (
         <EditDealModal
           deal={editingDeal}
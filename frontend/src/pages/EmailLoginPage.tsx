@@ -1,6 +1,9 @@
 import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { authAPI } from '../services/api'
+import { authAPI, isTwoFactorChallenge } from '../services/api'
+import { saveSession } from '../utils/authStorage'
+import { AuthResponse, TwoFactorChallenge } from '../types'
+import { TwoFactorPrompt } from '../components/TwoFactorPrompt'
 
 // Matrix Rain Animation Component (same as login page)
 const MatrixRain = () => {
@@ -85,12 +88,13 @@ const MatrixRain = () => {
 
 export function EmailLoginPage() {
   const navigate = useNavigate()
-  const [step, setStep] = useState<'email' | 'otp'>('email')
+  const [step, setStep] = useState<'email' | 'otp' | 'two_factor'>('email')
   const [email, setEmail] = useState('')
   const [otp, setOtp] = useState(['', '', '', '', '', ''])
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [resendCooldown, setResendCooldown] = useState(0)
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null)
 
   // Handle OTP input
   const handleOtpChange = (index: number, value: string) => {
@@ -178,14 +182,13 @@ export function EmailLoginPage() {
 
     try {
       const response = await authAPI.verifyOTP(email, otpCode)
-      
-      // Store token and user
-      localStorage.setItem('token', response.token)
-      localStorage.setItem('user', JSON.stringify(response.user))
-      
-      // Redirect to dashboard
-      navigate('/')
-      window.location.reload() // Reload to update auth state
+
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response)
+        setStep('two_factor')
+        return
+      }
+      completeSignIn(response)
     } catch (err: any) {
       setError(err.response?.data?.error || 'Invalid code. Please try again.')
       // Clear OTP inputs on error
@@ -196,6 +199,15 @@ export function EmailLoginPage() {
     }
   }
 
+  const completeSignIn = (response: AuthResponse) => {
+    // Store token and user
+    saveSession(response)
+    
+    // Redirect to dashboard
+    navigate('/')
+    window.location.reload() // Reload to update auth state
+  }
+
   // Resend OTP
   const handleResendOtp = async () => {
     if (resendCooldown > 0) return
@@ -243,10 +255,10 @@ export function EmailLoginPage() {
           <div className="text-center">
             <div className="matrix-subtitle">
               <p className="text-yellow-400 font-mono text-xs sm:text-sm mb-2">
-                &gt; {step === 'email' ? 'EMAIL LOGIN' : 'ENTER VERIFICATION CODE'}
+                &gt; {step === 'email' ? 'EMAIL LOGIN' : step === 'otp' ? 'ENTER VERIFICATION CODE' : 'TWO-FACTOR AUTHENTICATION'}
               </p>
               <p className="text-yellow-400 font-mono text-base sm:text-lg font-bold">
-                {step === 'email' ? 'LOGIN WITH EMAIL' : 'CHECK YOUR EMAIL'}
+                {step === 'email' ? 'LOGIN WITH EMAIL' : step === 'otp' ? 'CHECK YOUR EMAIL' : 'CHECK YOUR AUTHENTICATOR'}
               </p>
             </div>
           </div>
@@ -359,6 +371,21 @@ export function EmailLoginPage() {
               </div>
             </div>
           )}
+
+          {/* Two-Factor Step */}
+          {step === 'two_factor' && twoFactorChallenge && (
+            <div className="mt-6 sm:mt-8">
+              <TwoFactorPrompt
+                challenge={twoFactorChallenge}
+                onSignedIn={completeSignIn}
+                onCancel={() => {
+                  setTwoFactorChallenge(null)
+                  setStep('email')
+                  setOtp(['', '', '', '', '', ''])
+                }}
+              />
+            </div>
+          )}
         </div>
       </div>
 
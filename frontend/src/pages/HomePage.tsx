@@ -4,7 +4,7 @@ import { LoadingSpinner } from '../components/LoadingSpinner'
 import { AnalyticsDashboard } from '../components/AnalyticsDashboard'
 
 export function HomePage() {
-  const { data: deals, isLoading: dealsLoading } = useQuery('deals', dealsAPI.getDeals)
+  const { data: deals, isLoading: dealsLoading } = useQuery('deals', () => dealsAPI.getDeals())
 
   if (dealsLoading) {
     return (
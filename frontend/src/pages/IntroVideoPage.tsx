@@ -1,27 +1,29 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { authAPI } from '../services/api';
+import { saveSession } from '../utils/authStorage';
 
 export function IntroVideoPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [isCompleting, setIsCompleting] = useState(false);
   const email = searchParams.get('email') || '';
-  const token = searchParams.get('token');
-  const userParam = searchParams.get('user');
+  const loginCode = searchParams.get('loginCode');
 
-  // Handle Discord OAuth callback (token and user in URL)
+  // Handle Discord OAuth callback (one-time login code in URL)
   useEffect(() => {
-    if (token && userParam) {
-      try {
-        const user = JSON.parse(decodeURIComponent(userParam));
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-      } catch (error) {
-        // Failed to parse user data
-      }
+    if (loginCode) {
+      authAPI.redeemLoginCode(loginCode)
+        .then(response => {
+          saveSession(response);
+          // Clear the code from the URL
+          window.history.replaceState({}, '', window.location.pathname);
+        })
+        .catch(() => {
+          window.location.href = '/login?error=auth_failed';
+        });
     }
-  }, [token, userParam]);
+  }, [loginCode]);
 
   const handleContinue = async () => {
     setIsCompleting(true);
@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQueryClient } from 'react-query';
-import { authAPI } from '../services/api';
+import { authAPI, isTwoFactorChallenge, twoFactorLoginPath } from '../services/api';
+import { saveSession } from '../utils/authStorage';
 
 // Matrix Rain Animation Component
 const MatrixRain = () => {
@@ -106,11 +107,15 @@ export function PaymentSuccessPage() {
           customerId || undefined,
           subscriptionId || undefined
         );
+
+        if (isTwoFactorChallenge(response)) {
+          window.location.href = twoFactorLoginPath(response);
+          return;
+        }
         
         if (response.token && response.user) {
           // Save token and user to localStorage FIRST
-          localStorage.setItem('token', response.token);
-          localStorage.setItem('user', JSON.stringify(response.user));
+          saveSession(response);
           
           // Invalidate and refetch ALL 'user' queries (including the one in useAuth hook)
           // This ensures the useAuth hook picks up the new token and user data
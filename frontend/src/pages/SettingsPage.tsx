@@ -1,6 +1,10 @@
 import { useQuery } from 'react-query'
 import { paymentAPI } from '../services/api'
 import { LoadingSpinner } from '../components/LoadingSpinner'
+import { ActiveSessions } from '../components/ActiveSessions'
+import { TwoFactorSettings } from '../components/TwoFactorSettings'
+import { BillingEmailSettings } from '../components/BillingEmailSettings'
+import { NotificationPreferences } from '../components/NotificationPreferences'
 import { format } from 'date-fns'
 
 export function SettingsPage() {
@@ -135,7 +139,10 @@ export function SettingsPage() {
         )}
       </div>
 
-
+      <TwoFactorSettings />
+      <NotificationPreferences />
+      <BillingEmailSettings />
+      <ActiveSessions />
     </div>
   )
 }
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { sharesAPI } from '../services/api'
+import { SharedDocumentPackage } from '../types'
+import { Download, FileText, Lock, Archive } from 'lucide-react'
+import { safeFormatDate } from '../utils/dateUtils'
+import { LoadingSpinner } from '../components/LoadingSpinner'
+
+const formatFileSize = (bytes: number) => {
+  if (!bytes) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB']
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+  return `${(bytes / Math.pow(1024, exponent)).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`
+}
+
+/**
+ * Public page behind a document share link. Opens the link (asking for its password when it
+ * has one) and lists the files with a download-all option.
+ */
+export function SharedDocumentsPage() {
+  const { token = '' } = useParams<{ token: string }>()
+  const [sharedPackage, setSharedPackage] = useState<SharedDocumentPackage | null>(null)
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const openLink = async (linkPassword?: string) => {
+    setLoading(true)
+    setError('')
+    try {
+      setSharedPackage(await sharesAPI.open(token, linkPassword))
+      setPasswordRequired(false)
+    } catch (error: any) {
+      const data = error.response?.data
+      if (data?.passwordRequired) {
+        setPasswordRequired(true)
+        if (linkPassword) setError(data.error)
+      } else {
+        setError(data?.error || 'This link could not be opened')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    openLink()
+  }, [token])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (password) openLink(password)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-black py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto bg-white dark:bg-gray-900 rounded-lg shadow-lg p-6 sm:p-8">
+        <p className="text-xs font-semibold tracking-wide text-gray-500 dark:text-gray-400 uppercase mb-2">Rain.club</p>
+
+        {loading && !sharedPackage && !passwordRequired ? (
+          <div className="py-12 flex justify-center">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : sharedPackage ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{sharedPackage.title}</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {sharedPackage.sharedBy ? `Shared by ${sharedPackage.sharedBy} · ` : ''}
+              Available until {safeFormatDate(sharedPackage.expiresAt, 'MMM d, yyyy h:mm a')}
+            </p>
+
+            {sharedPackage.files.length === 0 ? (
+              <p className="mt-6 text-sm text-gray-600 dark:text-gray-400">The documents on this link are no longer available.</p>
+            ) : (
+              <>
+                <div className="mt-6 flex justify-end">
+                  <a
+                    href={sharesAPI.zipUrl(token, sharedPackage.accessToken)}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <Archive className="h-4 w-4 mr-2" />
+                    Download all (.zip)
+                  </a>
+                </div>
+                <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  {sharedPackage.files.map(file => (
+                    <li key={file.id} className="flex items-center justify-between p-3">
+                      <div className="flex items-center min-w-0">
+                        <FileText className="h-5 w-5 mr-3 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{file.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</p>
+                        </div>
+                      </div>
+                      <a
+                        href={sharesAPI.fileUrl(token, file.id, sharedPackage.accessToken)}
+                        className="ml-3 p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-white rounded-lg"
+                        title="Download"
+                      >
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        ) : passwordRequired ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+              <Lock className="h-5 w-5 mr-2" />
+              Password required
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Enter the password you were given with this link.</p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 rounded-md text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={loading || !password}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Checking...' : 'Open'}
+            </button>
+          </form>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Link unavailable</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+              {error.replace(/\.$/, '')}. Ask the person who sent it for a new link.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { User, Deal, Document, Analytics, AuthResponse, Appointment, CallNotesData, AppointmentFilters, SubAccount } from '../types';
+import { User, UserSession, UserRole, RoleDefinition, Permission, Deal, DealListParams, DealPage, UnderwritingCalculation, DealExportColumn, DealExportFormat, DealImportPreview, DealImportDryRun, DealImport, DealActivity, BoardStage, StageMapping, StageMappingEntry, WebhookEvent, SecurityEvent, SecretEncryptionStatus, SecretRotationResult, DiscordRoleSyncStatus, DiscordReconcileSummary, DiscordRoleSyncResult, ScheduledJob, ScheduledJobName, JobRun, BillingEmailType, BillingEmailPreference, NotificationType, NotificationChannel, UserNotification, NotificationPreference, EmailTemplate, EmailTemplateKey, EmailTemplateContent, EmailTemplateVersion, EmailMessage, DealReconciliation, ReconciliationCandidate, DocumentChecklist, DealChecklistStatus, DocumentShareLink, DocumentShareAccess, SharedDocumentPackage, DocumentVersion, DealFolderTemplate, DealFolderTemplateResponse, DealFolderPreview, Document, Analytics, AuthResponse, TwoFactorChallenge, TwoFactorEnrollment, TwoFactorStatus, Appointment, CallNotesData, AppointmentFilters, SubAccount } from '../types';
+import { getAccessToken, getRefreshToken, saveSession, clearSession } from '../utils/authStorage';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? 'http://localhost:3001/api' : 'https://rain.club/api');
 
@@ -13,20 +14,54 @@ const api = axios.create({
 
 // Add auth token to requests
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+  const token = getAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
+// One refresh at a time: requests that fail together while the access token is expired
+// all wait on the same refresh instead of each rotating the refresh token
+let refreshInFlight: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshInFlight) {
+    const refreshToken = getRefreshToken();
+    refreshInFlight = (refreshToken
+      ? axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken }).then(res => {
+          saveSession(res.data);
+          return res.data.token as string;
+        })
+      : Promise.reject(new Error('No refresh token'))
+    ).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+// Sign-in endpoints answer 401 for bad credentials, which a refresh can't fix
+const SIGN_IN_PATH = /^\/auth\/(login|discord$|otp\/|refresh|2fa\/verify)/;
+
 // Handle auth errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const request = error.config;
     if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
+      // Try the refresh token once per request before signing the user out
+      if (request && !request._retried && getRefreshToken() && !SIGN_IN_PATH.test(request.url || '')) {
+        request._retried = true;
+        try {
+          const token = await refreshAccessToken();
+          request.headers.Authorization = `Bearer ${token}`;
+          return api(request);
+        } catch (refreshError) {
+          // Refresh token expired or the session was revoked; fall through to sign out
+        }
+      }
+      clearSession();
       // Force reload to ensure clean state and redirect to login
       window.location.reload();
     }
@@ -34,15 +69,38 @@ api.interceptors.response.use(
   }
 );
 
+// Drop empty filters so they are not sent as blank query params
+const toDealListQuery = (params: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined && value !== ''));
+
+export const isTwoFactorChallenge = (response: AuthResponse | TwoFactorChallenge): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response && response.twoFactorRequired === true;
+
+// The login page finishes a two-factor challenge started elsewhere (Discord linking, post-payment sign-in)
+export const twoFactorLoginPath = (challenge: TwoFactorChallenge) =>
+  `/login?twoFactorToken=${encodeURIComponent(challenge.challengeToken)}${challenge.twoFactorSetupRequired ? '&twoFactorSetup=1' : ''}`;
+
+// A login code only works once, and StrictMode runs effects twice in development, so every
+// caller with the same code shares one request
+const loginCodeRedemptions = new Map<string, Promise<AuthResponse>>();
+
 // Auth API
 export const authAPI = {
-  login: (email: string, password: string): Promise<AuthResponse> =>
+  login: (email: string, password: string): Promise<AuthResponse | TwoFactorChallenge> =>
     api.post('/auth/login', { email, password }).then(res => res.data),
   
-  loginWithDiscord: (code: string): Promise<AuthResponse> =>
+  loginWithDiscord: (code: string): Promise<AuthResponse | TwoFactorChallenge> =>
     api.post('/auth/discord', { code }).then(res => res.data),
+
+  // The Discord sign-in redirect carries a one-time code instead of the tokens
+  redeemLoginCode: (code: string): Promise<AuthResponse> => {
+    if (!loginCodeRedemptions.has(code)) {
+      loginCodeRedemptions.set(code, api.post('/auth/login-code', { code }).then(res => res.data));
+    }
+    return loginCodeRedemptions.get(code)!;
+  },
   
-  loginAfterPayment: (discordId?: string, email?: string, username?: string, customerId?: string, subscriptionId?: string): Promise<AuthResponse> =>
+  loginAfterPayment: (discordId?: string, email?: string, username?: string, customerId?: string, subscriptionId?: string): Promise<AuthResponse | TwoFactorChallenge> =>
     api.post('/auth/login-after-payment', { discordId, email, username, customerId, subscriptionId }).then(res => res.data),
   
   createPassword: (password: string, confirmPassword: string, username?: string): Promise<{ success: boolean; message: string }> =>
@@ -59,14 +117,42 @@ export const authAPI = {
   
   logout: (): Promise<void> =>
     api.post('/auth/logout').then(res => res.data),
+
+  verifyTwoFactor: (challengeToken: string, code: string): Promise<AuthResponse> =>
+    api.post('/auth/2fa/verify', { challengeToken, code }).then(res => res.data),
+
+  getTwoFactorStatus: (): Promise<TwoFactorStatus> =>
+    api.get('/auth/2fa/status').then(res => res.data),
+
+  // challengeToken is passed when an admin enrolls during sign-in, before they have a session
+  setupTwoFactor: (challengeToken?: string): Promise<TwoFactorEnrollment> =>
+    api.post('/auth/2fa/setup', { challengeToken }).then(res => res.data),
+
+  enableTwoFactor: (code: string, challengeToken?: string): Promise<{ backupCodes: string[] } & Partial<AuthResponse>> =>
+    api.post('/auth/2fa/enable', { code, challengeToken }).then(res => res.data),
+
+  disableTwoFactor: (code: string): Promise<{ message: string }> =>
+    api.post('/auth/2fa/disable', { code }).then(res => res.data),
+
+  regenerateBackupCodes: (code: string): Promise<{ backupCodes: string[] }> =>
+    api.post('/auth/2fa/backup-codes', { code }).then(res => res.data),
+
+  getSessions: (): Promise<UserSession[]> =>
+    api.get('/auth/sessions').then(res => res.data),
+
+  revokeSession: (sessionId: string): Promise<{ message: string }> =>
+    api.delete(`/auth/sessions/${sessionId}`).then(res => res.data),
+
+  revokeOtherSessions: (): Promise<{ revoked: number }> =>
+    api.post('/auth/sessions/revoke-others').then(res => res.data),
   
   requestOTP: (email: string): Promise<{ success: boolean; message: string }> =>
     api.post('/auth/otp/request', { email }).then(res => res.data),
   
-  verifyOTP: (email: string, code: string): Promise<AuthResponse> =>
+  verifyOTP: (email: string, code: string): Promise<AuthResponse | TwoFactorChallenge> =>
     api.post('/auth/otp/verify', { email, code }).then(res => res.data),
   
-  linkDiscord: (discordCode: string, verificationCode: string): Promise<AuthResponse> =>
+  linkDiscord: (discordCode: string, verificationCode: string): Promise<AuthResponse | TwoFactorChallenge> =>
     api.post('/auth/discord/link', { code: discordCode, verificationCode }).then(res => res.data),
   
   resendVerificationCode: (): Promise<{ success: boolean; message: string }> =>
@@ -86,12 +172,36 @@ export const userAPI = {
   
   updateProfile: (data: Partial<User>): Promise<User> =>
     api.put('/user/profile', data).then(res => res.data),
+
+  getBillingEmailPreferences: (): Promise<{ preferences: BillingEmailPreference[] }> =>
+    api.get('/user/billing-email-preferences').then(res => res.data),
+
+  updateBillingEmailPreferences: (optOuts: BillingEmailType[]): Promise<{ optOuts: BillingEmailType[] }> =>
+    api.put('/user/billing-email-preferences', { optOuts }).then(res => res.data),
+
+  getNotifications: (limit?: number): Promise<{ notifications: UserNotification[]; unreadCount: number }> =>
+    api.get('/user/notifications', { params: limit ? { limit } : undefined }).then(res => res.data),
+
+  markNotificationRead: (id: string): Promise<{ message: string }> =>
+    api.post(`/user/notifications/${id}/read`).then(res => res.data),
+
+  markAllNotificationsRead: (): Promise<{ updated: number }> =>
+    api.post('/user/notifications/read-all').then(res => res.data),
+
+  getNotificationPreferences: (): Promise<{ preferences: NotificationPreference[]; discordLinked: boolean }> =>
+    api.get('/user/notification-preferences').then(res => res.data),
+
+  updateNotificationPreferences: (preferences: Partial<Record<NotificationType, Partial<Record<NotificationChannel, boolean>>>>) =>
+    api.put('/user/notification-preferences', { preferences }).then(res => res.data),
 };
 
 // Deals API
 export const dealsAPI = {
-  getDeals: (): Promise<Deal[]> =>
-    api.get('/deals').then(res => res.data),
+  getDeals: (scope?: 'all'): Promise<Deal[]> =>
+    api.get('/deals', { params: scope ? { scope } : undefined }).then(res => res.data),
+
+  getDealsPage: (params: DealListParams): Promise<DealPage> =>
+    api.get('/deals', { params: toDealListQuery({ limit: 25, ...params }) }).then(res => res.data),
   
   createDeal: (data: any): Promise<Deal> =>
     api.post('/deals', data).then(res => res.data),
@@ -104,6 +214,65 @@ export const dealsAPI = {
   
   getDealDocuments: (dealId: string): Promise<Document[]> =>
     api.get(`/deals/${dealId}/documents`).then(res => res.data),
+
+  getDealActivity: (dealId: string): Promise<DealActivity[]> =>
+    api.get(`/deals/${dealId}/activity`).then(res => res.data),
+
+  getStages: (): Promise<BoardStage[]> =>
+    api.get('/deals/stages').then(res => res.data),
+
+  getDealChecklist: (dealId: string): Promise<DealChecklistStatus> =>
+    api.get(`/deals/${dealId}/checklist`).then(res => res.data),
+
+  requestDocuments: (dealId: string, data: { items?: string[]; message?: string }): Promise<{ items: string[]; notified: boolean }> =>
+    api.post(`/deals/${dealId}/document-requests`, data).then(res => res.data),
+
+  calculateUnderwriting: (values: Record<string, any>): Promise<UnderwritingCalculation> =>
+    api.post('/deals/underwriting', values).then(res => res.data),
+
+  getExportColumns: (): Promise<{ columns: DealExportColumn[]; formats: DealExportFormat[] }> =>
+    api.get('/deals/export/columns').then(res => res.data),
+
+  exportDeals: (params: DealListParams, format: DealExportFormat, columns: string[]): Promise<Blob> => {
+    const { limit, cursor, ...filters } = params;
+    return api.get('/deals/export', {
+      params: toDealListQuery({ ...filters, format, columns: columns.join(',') }),
+      responseType: 'blob',
+    }).then(res => res.data);
+  },
+
+  downloadTearSheet: (dealId: string): Promise<Blob> =>
+    api.get(`/deals/${dealId}/tear-sheet`, { responseType: 'blob' }).then(res => res.data),
+
+  previewImport: (file: File): Promise<DealImportPreview> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post('/deals/import/preview', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }).then(res => res.data);
+  },
+
+  dryRunImport: (file: File, mapping: Record<string, string>): Promise<DealImportDryRun> =>
+    dealsAPI.postImport(file, mapping, true),
+
+  startImport: (file: File, mapping: Record<string, string>): Promise<DealImport> =>
+    dealsAPI.postImport(file, mapping, false),
+
+  postImport: (file: File, mapping: Record<string, string>, dryRun: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mapping', JSON.stringify(mapping));
+    formData.append('dryRun', String(dryRun));
+    return api.post('/deals/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    }).then(res => res.data);
+  },
+
+  getImport: (importId: string): Promise<DealImport> =>
+    api.get(`/deals/imports/${importId}`).then(res => res.data),
+
+  downloadImportReport: (importId: string): Promise<Blob> =>
+    api.get(`/deals/imports/${importId}/report`, { responseType: 'blob' }).then(res => res.data),
 };
 
 // Documents API
@@ -127,13 +296,21 @@ export const documentsAPI = {
     }).then(res => res.data);
   },
 
-  uploadMultipleDocuments: (dealId: string, files: File[], tags: string[] = []): Promise<{ message: string; uploaded: number; failed: number }> => {
+  uploadMultipleDocuments: (dealId: string, files: File[], tags: string[] = [], checklistItemId?: string): Promise<{
+    message: string;
+    uploaded: number;
+    failed: number;
+    results: ({ success: true; file: Document } | { success: false; fileName: string; error: string })[];
+  }> => {
     const formData = new FormData();
     files.forEach(file => {
       formData.append('files', file);
     });
     formData.append('dealId', dealId);
     formData.append('tags', JSON.stringify(tags));
+    if (checklistItemId) {
+      formData.append('checklistItemId', checklistItemId);
+    }
     
     return api.post('/documents/upload-multiple', formData, {
       headers: {
@@ -144,6 +321,43 @@ export const documentsAPI = {
   
   updateDocument: (id: string, data: { tags: string[] }): Promise<Document> =>
     api.put(`/documents/${id}`, data).then(res => res.data),
+
+  downloadDocument: (id: string): Promise<Blob> =>
+    api.get(`/documents/${id}/download`, { responseType: 'blob' }).then(res => res.data),
+
+  getDocumentVersions: (id: string): Promise<DocumentVersion[]> =>
+    api.get(`/documents/${id}/versions`).then(res => res.data),
+
+  uploadDocumentVersion: (id: string, file: File): Promise<Document> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post(`/documents/${id}/versions`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }).then(res => res.data);
+  },
+
+  restoreDocumentVersion: (id: string, version: number): Promise<Document> =>
+    api.post(`/documents/${id}/versions/${version}/restore`).then(res => res.data),
+
+  downloadDocumentVersion: (id: string, version: number): Promise<Blob> =>
+    api.get(`/documents/${id}/versions/${version}/download`, { responseType: 'blob' }).then(res => res.data),
+
+  getShareLinks: (dealId: string): Promise<DocumentShareLink[]> =>
+    api.get(`/documents/deal/${dealId}/share-links`).then(res => res.data),
+
+  createShareLink: (dealId: string, data: { documentIds: string[]; expiresInDays: number; password?: string; label?: string }): Promise<DocumentShareLink> =>
+    api.post(`/documents/deal/${dealId}/share-links`, data).then(res => res.data),
+
+  revokeShareLink: (id: string): Promise<{ success: boolean }> =>
+    api.delete(`/documents/share-links/${id}`).then(res => res.data),
+
+  getShareLinkAccess: (id: string): Promise<DocumentShareAccess[]> =>
+    api.get(`/documents/share-links/${id}/access`).then(res => res.data),
+
+  setDocumentChecklistItem: (id: string, checklistItemId: string | null): Promise<{ success: boolean; checklistItemId: string | null }> =>
+    api.put(`/documents/${id}/checklist-item`, { checklistItemId }).then(res => res.data),
   
   deleteDocument: (id: string): Promise<void> =>
     api.delete(`/documents/${id}`).then(res => res.data),
@@ -163,6 +377,18 @@ export const adminAPI = {
   updateUser: (id: string, data: { isWhitelisted?: boolean; isAdmin?: boolean; hasManualSubscription?: boolean }): Promise<User> =>
     api.put(`/admin/users/${id}`, data).then(res => res.data),
   
+  getRoles: (): Promise<{ roles: RoleDefinition[]; permissions: Permission[] }> =>
+    api.get('/admin/roles').then(res => res.data),
+
+  updateUserRole: (id: string, role: UserRole): Promise<User> =>
+    api.put(`/admin/users/${id}/role`, { role }).then(res => res.data),
+  
+  revokeUserSessions: (id: string): Promise<{ revoked: number }> =>
+    api.post(`/admin/users/${id}/sessions/revoke`).then(res => res.data),
+
+  removeUser: (id: string): Promise<{ message: string; revokedSessions: number }> =>
+    api.delete(`/admin/users/${id}`).then(res => res.data),
+
   grantManualSubscription: (id: string, grant: boolean): Promise<{ success: boolean; message: string; user: User }> =>
     api.post(`/admin/users/${id}/manual-subscription`, { grant }).then(res => res.data),
   
@@ -182,6 +408,12 @@ export const adminAPI = {
     return api.get(url).then(res => res.data);
   },
   
+  getDealsPage: (params: DealListParams): Promise<DealPage> =>
+    api.get('/admin/deals', { params: toDealListQuery({ limit: 25, ...params }) }).then(res => res.data),
+
+  reindexDeals: (): Promise<{ success: boolean; scanned: number; updated: number }> =>
+    api.post('/admin/deals/reindex').then(res => res.data),
+  
   getAllDocuments: (): Promise<Document[]> =>
     api.get('/admin/documents').then(res => res.data),
   
@@ -194,15 +426,85 @@ export const adminAPI = {
   getGHLPipelines: (): Promise<{ pipelines: any[] }> =>
     api.get('/admin/ghl/pipelines').then(res => res.data),
 
-  getGHLPipelinesWithKey: (apiKey: string): Promise<{ pipelines: any[] }> =>
+  // Without an apiKey the stored key is used
+  getGHLPipelinesWithKey: (apiKey?: string): Promise<{ pipelines: any[] }> =>
     api.post('/admin/ghl/pipelines', { apiKey }).then(res => res.data),
 
+  getStageMappings: (): Promise<{ mappings: StageMapping[]; configuredPipelineId: string | null }> =>
+    api.get('/admin/stage-mappings').then(res => res.data),
+
+  getStageMapping: (pipelineId: string): Promise<StageMapping> =>
+    api.get(`/admin/stage-mappings/${pipelineId}`).then(res => res.data),
+
+  saveStageMapping: (pipelineId: string, data: { pipelineName?: string; stages: StageMappingEntry[] }): Promise<{ success: boolean; boardStages: BoardStage[] }> =>
+    api.put(`/admin/stage-mappings/${pipelineId}`, data).then(res => res.data),
+
+  getWebhookEvents: (filters?: { provider?: string; status?: string }): Promise<{ events: WebhookEvent[] }> => {
+    const params = new URLSearchParams();
+    if (filters?.provider) params.append('provider', filters.provider);
+    if (filters?.status) params.append('status', filters.status);
+
+    const queryString = params.toString();
+    return api.get(queryString ? `/admin/webhook-events?${queryString}` : '/admin/webhook-events').then(res => res.data);
+  },
+
+  getSecurityEvents: (filters?: { type?: string; email?: string }): Promise<{ events: SecurityEvent[] }> => {
+    const params = new URLSearchParams();
+    if (filters?.type) params.append('type', filters.type);
+    if (filters?.email) params.append('email', filters.email);
+
+    const queryString = params.toString();
+    return api.get(queryString ? `/admin/security-events?${queryString}` : '/admin/security-events').then(res => res.data);
+  },
+
+  getWebhookEvent: (id: string): Promise<WebhookEvent> =>
+    api.get(`/admin/webhook-events/${id}`).then(res => res.data),
+
+  replayWebhookEvent: (id: string): Promise<{ success: boolean; event: WebhookEvent }> =>
+    api.post(`/admin/webhook-events/${id}/replay`).then(res => res.data),
+
+  retryDueWebhookEvents: (): Promise<{ success: boolean; attempted: number; processed: number; failed: number }> =>
+    api.post('/admin/webhook-events/retry-due').then(res => res.data),
+
+  getReconciliations: (status = 'open'): Promise<{ reconciliations: DealReconciliation[]; candidates: ReconciliationCandidate[] }> =>
+    api.get(`/admin/reconciliations?status=${status}`).then(res => res.data),
+
+  resolveReconciliation: (id: string, dealId: string): Promise<{ success: boolean; dealId: string; replayStatus: string | null }> =>
+    api.post(`/admin/reconciliations/${id}/resolve`, { dealId }).then(res => res.data),
+
+  dismissReconciliation: (id: string): Promise<{ success: boolean }> =>
+    api.post(`/admin/reconciliations/${id}/dismiss`).then(res => res.data),
+
+  getDocumentChecklists: (): Promise<DocumentChecklist[]> =>
+    api.get('/admin/document-checklists').then(res => res.data),
+
+  createDocumentChecklist: (data: Pick<DocumentChecklist, 'name' | 'dealType' | 'loanType' | 'items'>): Promise<DocumentChecklist> =>
+    api.post('/admin/document-checklists', data).then(res => res.data),
+
+  updateDocumentChecklist: (id: string, data: Pick<DocumentChecklist, 'name' | 'dealType' | 'loanType' | 'items'>): Promise<DocumentChecklist> =>
+    api.put(`/admin/document-checklists/${id}`, data).then(res => res.data),
+
+  deleteDocumentChecklist: (id: string): Promise<{ success: boolean }> =>
+    api.delete(`/admin/document-checklists/${id}`).then(res => res.data),
+
+  getDealFolderTemplate: (): Promise<DealFolderTemplateResponse> =>
+    api.get('/admin/document-folder-template').then(res => res.data),
+
+  updateDealFolderTemplate: (data: Pick<DealFolderTemplate, 'folderPath' | 'subfolders' | 'defaultSubfolder'>): Promise<{ template: DealFolderTemplate; isDefault: boolean }> =>
+    api.put('/admin/document-folder-template', data).then(res => res.data),
+
+  // Renders an unsaved template for a deal, or for a sample deal
+  previewDealFolderTemplate: (data: Pick<DealFolderTemplate, 'folderPath' | 'subfolders' | 'defaultSubfolder'> & { dealId?: string }): Promise<DealFolderPreview> =>
+    api.post('/admin/document-folder-template/preview', data).then(res => res.data),
+
   getGHLCalendars: (): Promise<{ calendars: any[] }> =>
     api.get('/admin/ghl/calendars').then(res => res.data),
 
+  // apiKey and v2Token come back masked (last 4 characters)
   getGHLConfig: (): Promise<{
     apiKey?: string;
     v2Token?: string;
+    configured?: boolean;
     pipelineId?: string;
     calendarId?: string;
     locationId?: string;
@@ -215,8 +517,9 @@ export const adminAPI = {
   }> =>
     api.get('/admin/ghl/config').then(res => res.data),
   
+  // Blank apiKey/v2Token keep the stored values
   saveGHLConfig: (config: {
-    apiKey: string;
+    apiKey?: string;
     v2Token?: string;
     pipelineId?: string;
     calendarId?: string;
@@ -230,6 +533,36 @@ export const adminAPI = {
   }): Promise<{ message: string }> =>
     api.post('/admin/ghl/config', config).then(res => res.data),
   
+  getSecretEncryptionStatus: (): Promise<SecretEncryptionStatus> =>
+    api.get('/admin/secrets/status').then(res => res.data),
+
+  rotateSecrets: (): Promise<SecretRotationResult> =>
+    api.post('/admin/secrets/rotate').then(res => res.data),
+
+  getDiscordRoleSync: (discordId?: string): Promise<DiscordRoleSyncStatus> =>
+    api.get('/admin/discord/role-sync', { params: discordId ? { discordId } : {} }).then(res => res.data),
+
+  runDiscordRoleSync: (dryRun: boolean): Promise<DiscordReconcileSummary> =>
+    api.post('/admin/discord/role-sync/run', { dryRun }).then(res => res.data),
+
+  syncDiscordMember: (discordId: string): Promise<DiscordRoleSyncResult> =>
+    api.post(`/admin/discord/role-sync/users/${encodeURIComponent(discordId)}`).then(res => res.data),
+
+  getScheduledJobs: (): Promise<{ jobs: ScheduledJob[] }> =>
+    api.get('/admin/jobs').then(res => res.data),
+
+  getJobRuns: (job?: ScheduledJobName): Promise<{ runs: JobRun[] }> =>
+    api.get('/admin/jobs/runs', { params: job ? { job } : {} }).then(res => res.data),
+
+  runScheduledJob: (job: ScheduledJobName): Promise<JobRun> =>
+    api.post(`/admin/jobs/${job}/run`).then(res => res.data),
+
+  getDunningSettings: (): Promise<{ offsetsDays: number[] }> =>
+    api.get('/admin/dunning-settings').then(res => res.data),
+
+  saveDunningSettings: (offsetsDays: number[]): Promise<{ offsetsDays: number[] }> =>
+    api.put('/admin/dunning-settings', { offsetsDays }).then(res => res.data),
+
   getAnalytics: (): Promise<Analytics> =>
     api.get('/admin/analytics').then(res => res.data),
 
@@ -277,6 +610,45 @@ export const adminAPI = {
 
   testEmail: (data: { testEmail: string }): Promise<{ success: boolean; message: string }> =>
     api.post('/admin/email/test', data).then(res => res.data),
+
+  getEmailTemplates: (): Promise<{ templates: EmailTemplate[] }> =>
+    api.get('/admin/email/templates').then(res => res.data),
+
+  getEmailTemplateVersions: (key: EmailTemplateKey): Promise<{ versions: EmailTemplateVersion[] }> =>
+    api.get(`/admin/email/templates/${key}/versions`).then(res => res.data),
+
+  saveEmailTemplate: ({ key, ...content }: EmailTemplateContent & { key: EmailTemplateKey }): Promise<{ template: EmailTemplate }> =>
+    api.put(`/admin/email/templates/${key}`, content).then(res => res.data),
+
+  previewEmailTemplate: ({ key, ...content }: EmailTemplateContent & { key: EmailTemplateKey }): Promise<EmailTemplateContent> =>
+    api.post(`/admin/email/templates/${key}/preview`, content).then(res => res.data),
+
+  testEmailTemplate: ({ key, ...data }: EmailTemplateContent & { key: EmailTemplateKey; testEmail: string }): Promise<{ success: boolean; message: string }> =>
+    api.post(`/admin/email/templates/${key}/test`, data).then(res => res.data),
+
+  restoreEmailTemplate: ({ key, version }: { key: EmailTemplateKey; version: number }): Promise<{ template: EmailTemplate }> =>
+    api.post(`/admin/email/templates/${key}/restore`, { version }).then(res => res.data),
+
+  resetEmailTemplate: (key: EmailTemplateKey): Promise<{ template: EmailTemplate }> =>
+    api.post(`/admin/email/templates/${key}/reset`).then(res => res.data),
+
+  getEmailMessages: (filters?: { status?: string; recipient?: string }): Promise<{ messages: EmailMessage[] }> => {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.recipient) params.append('recipient', filters.recipient);
+
+    const queryString = params.toString();
+    return api.get(queryString ? `/admin/email/messages?${queryString}` : '/admin/email/messages').then(res => res.data);
+  },
+
+  getEmailMessage: (id: string): Promise<{ message: EmailMessage }> =>
+    api.get(`/admin/email/messages/${id}`).then(res => res.data),
+
+  resendEmailMessage: (id: string): Promise<{ message: EmailMessage }> =>
+    api.post(`/admin/email/messages/${id}/resend`).then(res => res.data),
+
+  retryDueEmailMessages: (): Promise<{ success: boolean; attempted: number; sent: number; failed: number }> =>
+    api.post('/admin/email/messages/retry-due').then(res => res.data),
 };
 
 // Appointments API
@@ -359,6 +731,19 @@ export const appointmentsAPI = {
     api.post(`/appointments/admin/sub-accounts/${id}/test`).then(res => res.data),
 };
 
+// Share links are opened without a portal session, so these skip the auth interceptors
+export const sharesAPI = {
+  open: (token: string, password?: string): Promise<SharedDocumentPackage> =>
+    axios.post(`${API_BASE_URL}/shares/${encodeURIComponent(token)}/access`, { password }).then(res => res.data),
+
+  // Plain links, so the browser streams the download itself
+  fileUrl: (token: string, documentId: string, accessToken: string): string =>
+    `${API_BASE_URL}/shares/${encodeURIComponent(token)}/files/${encodeURIComponent(documentId)}?access=${encodeURIComponent(accessToken)}`,
+
+  zipUrl: (token: string, accessToken: string): string =>
+    `${API_BASE_URL}/shares/${encodeURIComponent(token)}/zip?access=${encodeURIComponent(accessToken)}`,
+};
+
 // Payment API
 export const paymentAPI = {
   createPaymentLink: (plan: 'monthly', email?: string, discordId?: string, username?: string): Promise<{ paymentLinkId: string; url: string }> => {
@@ -7,6 +7,8 @@ export interface User {
   avatar?: string;
   isAdmin: boolean;
   isWhitelisted: boolean;
+  role?: UserRole;
+  permissions?: Permission[]; // Returned for the signed-in user only
   hasManualSubscription?: boolean; // For users who paid via other methods (not Stripe)
   redirectToWhop?: boolean; // For users who paid via Whop and should be redirected to Whop subscription page
   termsAccepted?: boolean; // Default false
@@ -18,6 +20,34 @@ export interface User {
   createdAt: string;
 }
 
+export type UserRole = 'super_admin' | 'admin' | 'underwriter' | 'cold_caller' | 'deal_submitter';
+
+export type Permission =
+  | 'deals:read:own'
+  | 'deals:write:own'
+  | 'deals:read:all'
+  | 'deals:write:all'
+  | 'deals:delete:all'
+  | 'appointments:work'
+  | 'appointments:read:all'
+  | 'appointments:manage'
+  | 'admin:access'
+  | 'users:read'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'integrations:manage'
+  | 'webhooks:manage'
+  | 'analytics:read'
+  | 'security:read';
+
+export interface RoleDefinition {
+  id: UserRole;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  isAdmin: boolean;
+}
+
 export interface Deal {
   id: string;
   dealId: string;
@@ -169,9 +199,423 @@ export interface Deal {
   // Audit Information
   createdBy?: string;
   createdOn?: string;
-  auditLogs?: string;
 }
 
+export interface DealFieldChange {
+  field: string;
+  label: string;
+  from: any;
+  to: any;
+}
+
+export interface DealActivity {
+  id: string;
+  dealId: string;
+  action: 'created' | 'updated' | 'deleted';
+  source: 'portal' | 'ghl_webhook' | 'admin_import' | 'spreadsheet_import' | 'system';
+  actorId?: string;
+  actorName?: string;
+  changes: DealFieldChange[];
+  createdAt: any; // Firebase Timestamp or string
+}
+
+export interface StageMappingEntry {
+  ghlStageId: string;
+  ghlStageName: string;
+  portalStage: string;
+  order: number;
+  color: string; // Tailwind background class, e.g. bg-green-500
+  existsInGHL?: boolean;
+}
+
+export interface StageMapping {
+  pipelineId: string;
+  pipelineName: string | null;
+  stages: StageMappingEntry[];
+  updatedAt: any;
+  updatedBy: string | null;
+}
+
+export interface BoardStage {
+  name: string;
+  color: string;
+  order: number;
+  aliases: string[];
+}
+
+export interface WebhookEvent {
+  id: string;
+  provider: 'ghl' | 'stripe';
+  eventId: string;
+  eventType: string;
+  payload?: string; // Raw JSON, only included when a single event is loaded
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  result?: any;
+  nextAttemptAt?: any;
+  receivedAt: any;
+  processedAt?: any;
+  updatedAt: any;
+}
+
+export type SecurityEventType =
+  | 'otp_failed'
+  | 'otp_code_locked'
+  | 'otp_email_locked'
+  | 'verification_code_failed'
+  | 'verification_code_locked'
+  | 'refresh_token_reuse'
+  | 'two_factor_failed'
+  | 'two_factor_locked'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'backup_code_used'
+  | 'share_link_password_failed'
+  | 'share_link_locked'
+  | 'malware_detected'
+  | 'malware_scan_failed';
+
+export interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  email?: string;
+  userId?: string;
+  discordId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, any>;
+  createdAt: any;
+}
+
+export type DiscordRoleSyncTrigger = 'login' | 'discord_link' | 'subscription' | 'reconcile' | 'admin';
+
+export interface DiscordRoleSyncLog {
+  id: string;
+  discordId: string;
+  userId?: string;
+  username?: string;
+  roleId: string;
+  action: 'grant' | 'revoke';
+  trigger: DiscordRoleSyncTrigger;
+  reason: string;
+  success: boolean;
+  error?: string;
+  dryRun?: boolean;
+  createdAt: any;
+}
+
+export interface DiscordRoleSyncStatus {
+  enabled: boolean;
+  managedRoleIds: string[];
+  logs: DiscordRoleSyncLog[];
+}
+
+export interface DiscordReconcileSummary {
+  dryRun: boolean;
+  membersChecked: number;
+  granted: number;
+  revoked: number;
+  failed: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface DiscordRoleSyncResult {
+  discordId: string;
+  inGuild: boolean;
+  joined: boolean;
+  entitled: boolean;
+  granted: string[];
+  revoked: string[];
+  failed: string[];
+}
+
+export type BillingEmailType =
+  | 'trial_ending'
+  | 'payment_failed'
+  | 'subscription_canceled'
+  | 'grace_period_ending'
+  | 'access_revoked'
+  | 'payment_recovered';
+
+export interface BillingEmailPreference {
+  type: BillingEmailType;
+  label: string;
+  critical: boolean; // Always sent; can't be turned off
+  subscribed: boolean;
+}
+
+export type NotificationType =
+  | 'deal_stage_changed'
+  | 'document_requested'
+  | 'appointment_assigned'
+  | 'subscription_issue';
+
+export type NotificationChannel = 'email' | 'in_app' | 'discord';
+
+export interface UserNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string; // Portal path to open when clicked
+  channels: NotificationChannel[];
+  failedChannels?: NotificationChannel[];
+  read: boolean;
+  readAt?: any;
+  createdAt: any;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  label: string;
+  description: string;
+  channels: NotificationChannel[]; // Channels this type can be sent on
+  enabled: Partial<Record<NotificationChannel, boolean>>;
+}
+
+export type EmailTemplateKey =
+  | 'deal_created'
+  | 'deal_updated'
+  | 'document_uploaded'
+  | 'welcome'
+  | 'verification_code'
+  | 'login_code'
+  | 'malware_detected'
+  | 'malware_scan_failed';
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  variables: { name: string; description: string }[];
+  version: number; // 0 while the built-in default is in use
+  customized: boolean;
+  updatedBy?: string;
+  updatedAt?: any;
+}
+
+export interface EmailTemplateVersion extends EmailTemplateContent {
+  id: string;
+  key: EmailTemplateKey;
+  version: number;
+  note?: string;
+  createdBy: string;
+  createdAt: any;
+}
+
+export type EmailMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'dead' | 'bounced';
+
+export interface EmailMessage {
+  id: string;
+  category: string; // Template key or billing email type, e.g. 'login_code', 'billing_payment_failed'
+  to: string[];
+  subject: string;
+  html?: string; // Only included when a single email is loaded, and never for code-carrying emails
+  text?: string;
+  attachments?: { filename: string; contentType?: string }[];
+  sensitive: boolean;
+  userId?: string;
+  status: EmailMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  providerMessageId?: string;
+  rejectedRecipients?: string[];
+  bounceReason?: string;
+  bouncedAt?: any;
+  nextAttemptAt?: any;
+  resendOf?: string;
+  requestedBy?: string;
+  sentAt?: any;
+  createdAt: any;
+  updatedAt: any;
+}
+
+export type ScheduledJobName = 'subscription_sweep' | 'discord_role_reconcile' | 'document_scan' | 'deal_query_backfill';
+
+export interface JobRun {
+  id: string;
+  job: ScheduledJobName;
+  trigger: 'schedule' | 'admin';
+  status: 'running' | 'succeeded' | 'failed';
+  summary?: Record<string, number>;
+  errors?: string[];
+  error?: string;
+  startedAt: any;
+  finishedAt?: any;
+  durationMs?: number;
+}
+
+export interface ScheduledJob {
+  name: ScheduledJobName;
+  description: string;
+  intervalMinutes: number; // 0 when the schedule is off
+  enabled: boolean; // False when the server lacks the job's configuration
+  lastRun: JobRun | null;
+}
+
+export interface DealReconciliation {
+  id: string;
+  provider: 'ghl' | 'stripe';
+  reason: 'unmatched' | 'ambiguous';
+  opportunityId?: string;
+  opportunityName?: string;
+  matchedBy?: string;
+  candidateDealIds: string[];
+  webhookEventId?: string;
+  payload: string;
+  status: 'open' | 'resolved' | 'dismissed';
+  occurrences: number;
+  resolvedDealId?: string;
+  resolvedBy?: string;
+  createdAt: any;
+  updatedAt: any;
+  resolvedAt?: any;
+}
+
+export interface ReconciliationCandidate {
+  id: string;
+  dealId?: string;
+  propertyAddress?: string;
+  contactName?: string;
+  stage?: string;
+  ghlOpportunityId: string | null;
+}
+
+export type DealSortField = 'createdAt' | 'loanAmount' | 'stage';
+
+export interface DealListParams {
+  userId?: string;
+  status?: string;
+  propertyType?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  sortBy?: DealSortField;
+  sortDirection?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+  scope?: 'all';
+}
+
+export interface DealPage {
+  deals: Deal[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type UnderwritingInputField =
+  | 'loanAmount'
+  | 'purchasePrice'
+  | 'appraisedValue'
+  | 'totalProjectCost'
+  | 'noi'
+  | 'interestRate'
+  | 'amortizationPeriod'
+  | 'dscr'
+  | 'ltv'
+  | 'debitYield'
+  | 'capRate';
+
+export interface UnderwritingFlag {
+  field: 'dscr' | 'ltv' | 'debitYield' | 'capRate';
+  label: string;
+  entered: number;
+  computed: number;
+  message: string;
+}
+
+export interface UnderwritingResult {
+  monthlyDebtService: number | null;
+  annualDebtService: number | null;
+  dscr: number | null;
+  ltv: number | null;
+  ltc: number | null;
+  debtYield: number | null;
+  capRate: number | null;
+  interestOnly: boolean;
+  flags: UnderwritingFlag[];
+}
+
+export interface UnderwritingCalculation {
+  inputs: Partial<Record<UnderwritingInputField, number>>;
+  result: UnderwritingResult;
+}
+
+export type DealExportFormat = 'csv' | 'xlsx';
+
+export interface DealExportColumn {
+  key: string;
+  label: string;
+  defaultSelected: boolean;
+}
+
+export interface DealImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+  options?: string[];
+}
+
+export interface DealImportPreview {
+  fileName: string;
+  columns: string[];
+  sampleRows: Record<string, string>[];
+  rowCount: number;
+  suggestedMapping: Record<string, string>;
+  fields: DealImportField[];
+}
+
+export interface DealImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid' | 'created' | 'failed';
+  errors: string[];
+  warnings: string[];
+  values: Record<string, string>;
+  dealId?: string;
+  dealNumber?: string;
+  ghlSynced?: boolean;
+}
+
+export interface DealImportDryRun {
+  dryRun: true;
+  totalRows: number;
+  validCount: number;
+  invalidCount: number;
+  rows: DealImportRowResult[];
+}
+
+export interface DealImport {
+  id: string;
+  userId: string;
+  fileName: string;
+  mapping: Record<string, string>;
+  status: 'running' | 'completed' | 'failed';
+  totalRows: number;
+  createdCount: number;
+  failedCount: number;
+  skippedCount: number;
+  rows: DealImportRowResult[];
+  error?: string;
+  createdAt: any;
+  updatedAt: any;
+  completedAt?: any;
+}
+
+// 'pending' files are quarantined until the malware scanner clears them; infected ones are removed
+export type DocumentScanStatus = 'pending' | 'clean' | 'infected' | 'unscannable';
+
 export interface Document {
   id: string;
   filename: string;
@@ -180,12 +624,125 @@ export interface Document {
   mimeType: string;
   tags: string[];
   oneDriveId?: string;
-  oneDriveUrl?: string;
-  downloadUrl?: string;
+  oneDriveUrl?: string | null; // Null until the file has passed the malware scan
+  downloadUrl?: string | null;
   userId: string;
   dealId?: string;
+  checklistItemId?: string | null;
+  version?: number; // Current version, starting at 1
+  scanStatus?: DocumentScanStatus | null; // Null when no malware scanner was configured at upload
   createdAt: string;
-  updatedAt: string;
+  updatedAt: string; // When the current version was uploaded
+}
+
+export interface DocumentVersion {
+  version: number;
+  current: boolean;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  restoredFrom: number | null; // The older version this one brought back
+}
+
+export type DocumentShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface DocumentShareLink {
+  id: string;
+  dealId: string;
+  documentIds: string[];
+  label: string | null;
+  hasPassword: boolean;
+  status: DocumentShareLinkStatus;
+  expiresAt: string;
+  createdBy: string;
+  createdByName: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+  accessCount: number;
+  lastAccessedAt: string | null;
+  url?: string; // Only in the response that creates the link
+}
+
+export interface DocumentShareAccess {
+  id: string;
+  action: 'open' | 'download' | 'zip';
+  documentId: string | null;
+  fileName: string | null;
+  documentIds: string[]; // Every file in the zip, for 'zip'
+  fileNames: string[];
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+// What someone opening a share link sees
+export interface SharedDocumentPackage {
+  title: string;
+  sharedBy?: string;
+  expiresAt: string;
+  accessToken: string;
+  files: { id: string; name: string; size: number; mimeType: string }[];
+}
+
+export interface DocumentChecklistItem {
+  id: string;
+  label: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface DocumentChecklist {
+  id: string;
+  name: string;
+  dealType: string;
+  loanType: string;
+  items: DocumentChecklistItem[];
+  updatedBy?: string;
+  createdAt: any;
+  updatedAt: any;
+}
+
+export interface DealFolderTemplateSubfolder {
+  name: string;
+  checklistItemIds: string[];
+}
+
+// Folder layout created in document storage for every deal; names can use {token}s
+export interface DealFolderTemplate {
+  folderPath: string;
+  subfolders: DealFolderTemplateSubfolder[];
+  defaultSubfolder?: string;
+  updatedBy?: string;
+  updatedAt?: any;
+}
+
+export interface DealFolderTemplateResponse {
+  template: DealFolderTemplate;
+  isDefault: boolean;
+  tokens: { token: string; description: string }[];
+}
+
+export interface DealFolderPreview {
+  folderPath: string;
+  subfolders: string[];
+  unknownTokens: string[];
+}
+
+export interface ChecklistItemStatus extends DocumentChecklistItem {
+  checklistId: string;
+  documentIds: string[];
+  complete: boolean;
+}
+
+export interface DealChecklistStatus {
+  checklists: { id: string; name: string }[];
+  items: ChecklistItemStatus[];
+  requiredCount: number;
+  completedCount: number;
+  completionPercentage: number;
+  missingItems: ChecklistItemStatus[];
 }
 
 export interface Analytics {
@@ -237,10 +794,41 @@ export interface CreateDealData {
 
 export interface AuthResponse {
   token: string;
+  refreshToken?: string; // Rotating refresh token for getting new short-lived access tokens
   user: User;
   needsDiscordOAuth?: boolean; // Flag indicating if user needs to complete Discord OAuth to join server
 }
 
+// Returned by sign-in endpoints instead of tokens when a second factor is needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  twoFactorSetupRequired: boolean; // Admin without an authenticator: enroll before signing in
+  challengeToken: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Admins can't turn it off
+  backupCodesRemaining: number;
+}
+
+export interface UserSession {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: any; // Firestore Timestamp
+  lastUsedAt: any; // Firestore Timestamp
+  expiresAt: any; // Firestore Timestamp
+  current: boolean; // The session making the request
+}
+
 export interface Appointment {
   id: string;
   ghlAppointmentId: string;
@@ -298,11 +886,26 @@ export interface AppointmentFilters {
 export interface SubAccount {
   id: string;
   name: string;
-  apiKey: string;
-  v2Token?: string;
+  apiKey: string; // Masked: last 4 characters only
+  v2Token?: string; // Masked
   locationId: string;
   ghlUserId?: string;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
-}
\ No newline at end of file
+}
+
+// Envelope encryption of integration secrets (GHL keys, sub-account keys, OneDrive tokens)
+export interface SecretEncryptionStatus {
+  activeKeyId: string;
+  total: number;
+  plaintext: number; // Saved before encryption was introduced
+  byKeyId: Record<string, number>;
+  needsRotation: number;
+}
+
+export interface SecretRotationResult {
+  activeKeyId: string;
+  rotated: number;
+  bySource: Record<'configurations' | 'subAccounts' | 'onedrive_tokens' | 'users', number>;
+}
@@ -0,0 +1,23 @@
+import { User } from '../types'
+
+const TOKEN_KEY = 'token'
+const REFRESH_TOKEN_KEY = 'refreshToken'
+const USER_KEY = 'user'
+
+export const getAccessToken = () => localStorage.getItem(TOKEN_KEY)
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY)
+
+// Store the tokens from a sign-in or refresh. A refresh inside the rotation grace window
+// returns no refresh token, in which case the stored one is kept.
+export function saveSession({ token, refreshToken, user }: { token: string; refreshToken?: string; user?: User }) {
+  localStorage.setItem(TOKEN_KEY, token)
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
+  if (user) localStorage.setItem(USER_KEY, JSON.stringify(user))
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY)
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
+  localStorage.removeItem(USER_KEY)
+}
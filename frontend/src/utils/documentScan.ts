@@ -0,0 +1,18 @@
+import { Document } from '../types'
+
+// Files still in malware quarantine, or given up on by the scanner, can't be opened, shared or replaced
+export function isDocumentAvailable(document: Document): boolean {
+  return !document.scanStatus || document.scanStatus === 'clean'
+}
+
+export function scanStatusNote(document: Document): string | null {
+  if (document.scanStatus === 'pending') return 'Checking for malware'
+  if (document.scanStatus === 'unscannable') return "Couldn't be checked for malware"
+  return null
+}
+
+export function downloadTitle(document: Document): string {
+  if (document.scanStatus === 'pending') return 'Available once it has been checked for malware'
+  if (document.scanStatus === 'unscannable') return "Couldn't be checked for malware; ask an admin"
+  return 'Download'
+}